@@ -0,0 +1,24 @@
+-- SQLite-compatible per-trip breakdown for pricing simulations
+-- One row per replayed historical booking, written by the simulation runner
+
+CREATE TABLE IF NOT EXISTS pricing_simulation_trips (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  simulation_id INTEGER NOT NULL,
+  booking_id TEXT NOT NULL,
+  trip_completed_at TEXT NOT NULL,
+  distance_km REAL NOT NULL DEFAULT 0,
+  duration_min REAL NOT NULL DEFAULT 0,
+  surge_multiplier REAL NOT NULL DEFAULT 1.0,
+  baseline_fare REAL NOT NULL DEFAULT 0,              -- fare under baseline profile (or historical fare)
+  candidate_fare REAL NOT NULL DEFAULT 0,             -- fare under the candidate profile
+  fare_delta REAL NOT NULL DEFAULT 0,                 -- candidate - baseline
+  baseline_driver_earnings REAL NOT NULL DEFAULT 0,
+  candidate_driver_earnings REAL NOT NULL DEFAULT 0,
+  cap_hits TEXT NOT NULL DEFAULT '[]',                -- JSON array of compliance rule keys that clamped the fare
+
+  FOREIGN KEY (simulation_id) REFERENCES pricing_simulations(id) ON DELETE CASCADE,
+  UNIQUE (simulation_id, booking_id)
+);
+
+CREATE INDEX IF NOT EXISTS pricing_simulation_trips_sim_idx
+  ON pricing_simulation_trips(simulation_id, trip_completed_at);
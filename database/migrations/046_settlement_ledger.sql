@@ -0,0 +1,181 @@
+-- PostgreSQL Migration 046: Settlement Ledger
+-- Double-entry ledger, daily per-driver settlements, recurring deductions and settlement disputes
+
+-- =====================================================
+-- Chart of Accounts
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS ledger_accounts (
+    code VARCHAR(10) PRIMARY KEY,
+    name VARCHAR(100) NOT NULL,
+    account_type VARCHAR(20) NOT NULL CHECK (account_type IN ('asset', 'liability', 'equity', 'revenue', 'expense')),
+    is_active BOOLEAN NOT NULL DEFAULT TRUE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+INSERT INTO ledger_accounts (code, name, account_type) VALUES
+    ('1000', 'Cash and Cash Equivalents', 'asset'),
+    ('1200', 'Accounts Receivable', 'asset'),
+    ('2000', 'Accounts Payable', 'liability'),
+    ('2100', 'Driver Payables', 'liability'),
+    ('2200', 'Driver Bonds Held', 'liability'),
+    ('4000', 'Commission Revenue', 'revenue'),
+    ('4100', 'Fee Revenue', 'revenue'),
+    ('5000', 'Operating Expenses', 'expense'),
+    ('6000', 'Driver Payouts', 'expense')
+ON CONFLICT (code) DO NOTHING;
+
+-- =====================================================
+-- Journals and Entries (append-only)
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS ledger_journals (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    reference VARCHAR(50) NOT NULL UNIQUE,
+    description TEXT NOT NULL,
+    source_type VARCHAR(30) NOT NULL,                    -- 'settlement', 'settlement_adjustment', 'payout', ...
+    source_id UUID,
+    posted_by VARCHAR(100) NOT NULL DEFAULT 'system',
+    posted_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS ledger_entries (
+    id BIGSERIAL PRIMARY KEY,
+    journal_id UUID NOT NULL REFERENCES ledger_journals(id),
+    account_code VARCHAR(10) NOT NULL REFERENCES ledger_accounts(code),
+    driver_id UUID REFERENCES drivers(id),
+    description TEXT,
+    debit DECIMAL(12,2) NOT NULL DEFAULT 0,
+    credit DECIMAL(12,2) NOT NULL DEFAULT 0,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    CONSTRAINT ledger_entries_one_side CHECK (
+        (debit >= 0 AND credit >= 0) AND (debit = 0 OR credit = 0)
+    )
+);
+
+CREATE INDEX IF NOT EXISTS idx_ledger_entries_journal ON ledger_entries(journal_id);
+CREATE INDEX IF NOT EXISTS idx_ledger_entries_account_time ON ledger_entries(account_code, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_ledger_entries_driver ON ledger_entries(driver_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_ledger_journals_source ON ledger_journals(source_type, source_id);
+
+-- Ledger rows are immutable; corrections are posted as new adjustment journals
+CREATE OR REPLACE FUNCTION prevent_ledger_mutation() RETURNS TRIGGER AS $$
+BEGIN
+    RAISE EXCEPTION 'ledger rows are append-only (% on %)', TG_OP, TG_TABLE_NAME;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS ledger_entries_immutable ON ledger_entries;
+CREATE TRIGGER ledger_entries_immutable
+    BEFORE UPDATE OR DELETE ON ledger_entries
+    FOR EACH ROW EXECUTE FUNCTION prevent_ledger_mutation();
+
+DROP TRIGGER IF EXISTS ledger_journals_immutable ON ledger_journals;
+CREATE TRIGGER ledger_journals_immutable
+    BEFORE UPDATE OR DELETE ON ledger_journals
+    FOR EACH ROW EXECUTE FUNCTION prevent_ledger_mutation();
+
+-- =====================================================
+-- Daily Driver Settlements
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS driver_settlements (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    settlement_reference VARCHAR(30) NOT NULL UNIQUE,
+    driver_id UUID NOT NULL REFERENCES drivers(id),
+    settlement_date DATE NOT NULL,
+    status VARCHAR(20) NOT NULL DEFAULT 'completed' CHECK (status IN ('pending', 'completed', 'disputed')),
+    total_revenue DECIMAL(12,2) NOT NULL DEFAULT 0,
+    total_deductions DECIMAL(12,2) NOT NULL DEFAULT 0,
+    net_amount DECIMAL(12,2) NOT NULL DEFAULT 0,
+    trip_count INTEGER NOT NULL DEFAULT 0,
+    journal_id UUID REFERENCES ledger_journals(id),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    UNIQUE (driver_id, settlement_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_driver_settlements_date ON driver_settlements(settlement_date DESC, status);
+
+CREATE TABLE IF NOT EXISTS settlement_trips (
+    id BIGSERIAL PRIMARY KEY,
+    settlement_id UUID NOT NULL REFERENCES driver_settlements(id),
+    booking_id UUID NOT NULL UNIQUE REFERENCES bookings(id),  -- a trip settles exactly once
+    booking_reference VARCHAR(20) NOT NULL,
+    revenue DECIMAL(10,2) NOT NULL,
+    commission DECIMAL(10,2) NOT NULL,
+    net_amount DECIMAL(10,2) NOT NULL,
+    completed_at TIMESTAMP WITH TIME ZONE NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_settlement_trips_settlement ON settlement_trips(settlement_id);
+
+-- Standing deductions collected from each settlement until exhausted (bond installments, device fees)
+CREATE TABLE IF NOT EXISTS driver_recurring_deductions (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    driver_id UUID NOT NULL REFERENCES drivers(id),
+    deduction_type VARCHAR(20) NOT NULL CHECK (deduction_type IN ('bond', 'fee', 'adjustment')),
+    credit_account_code VARCHAR(10) NOT NULL REFERENCES ledger_accounts(code),
+    description TEXT NOT NULL,
+    amount_per_settlement DECIMAL(10,2) NOT NULL CHECK (amount_per_settlement > 0),
+    remaining_amount DECIMAL(12,2) NOT NULL CHECK (remaining_amount >= 0),
+    source_type VARCHAR(30),
+    source_id UUID,
+    is_active BOOLEAN NOT NULL DEFAULT TRUE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_recurring_deductions_driver ON driver_recurring_deductions(driver_id) WHERE is_active;
+
+CREATE TABLE IF NOT EXISTS settlement_deductions (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    settlement_id UUID NOT NULL REFERENCES driver_settlements(id),
+    driver_id UUID NOT NULL REFERENCES drivers(id),
+    deduction_type VARCHAR(20) NOT NULL CHECK (deduction_type IN ('commission', 'bond', 'fee', 'adjustment')),
+    amount DECIMAL(10,2) NOT NULL CHECK (amount >= 0),
+    reason TEXT NOT NULL,
+    recurring_deduction_id UUID REFERENCES driver_recurring_deductions(id),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_settlement_deductions_settlement ON settlement_deductions(settlement_id);
+
+-- =====================================================
+-- Settlement Disputes
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS settlement_disputes (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    settlement_id UUID NOT NULL REFERENCES driver_settlements(id),
+    driver_id UUID NOT NULL REFERENCES drivers(id),
+    status VARCHAR(20) NOT NULL DEFAULT 'pending'
+        CHECK (status IN ('pending', 'under_review', 'resolved', 'rejected')),
+    reason VARCHAR(100) NOT NULL,
+    details TEXT,
+    disputed_amount DECIMAL(12,2) NOT NULL,
+    adjustment_amount DECIMAL(12,2),                     -- credited to the driver on resolution
+    adjustment_journal_id UUID REFERENCES ledger_journals(id),
+    raised_by VARCHAR(100) NOT NULL,
+    raised_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    reviewer_id VARCHAR(100),
+    resolution TEXT,
+    resolved_at TIMESTAMP WITH TIME ZONE,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_settlement_disputes_status ON settlement_disputes(status, raised_at DESC);
+
+CREATE TABLE IF NOT EXISTS settlement_dispute_notes (
+    id BIGSERIAL PRIMARY KEY,
+    dispute_id UUID NOT NULL REFERENCES settlement_disputes(id),
+    author_id VARCHAR(100) NOT NULL,
+    from_status VARCHAR(20),
+    to_status VARCHAR(20),
+    note TEXT NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_settlement_dispute_notes_dispute ON settlement_dispute_notes(dispute_id, created_at);
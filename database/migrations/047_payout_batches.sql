@@ -0,0 +1,103 @@
+-- PostgreSQL Migration 047: Payout Batches
+-- Batches settled driver balances per payout rail, gated by the approve_payout_batch workflow
+
+-- =====================================================
+-- Driver Payout Destinations
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS driver_payout_accounts (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    driver_id UUID NOT NULL REFERENCES drivers(id),
+    payout_method VARCHAR(20) NOT NULL CHECK (payout_method IN ('gcash', 'bank_transfer')),
+    account_name VARCHAR(100) NOT NULL,
+    account_number VARCHAR(34) NOT NULL,                 -- GCash mobile number or bank account number
+    bank_code VARCHAR(20),                               -- required for bank_transfer
+    is_default BOOLEAN NOT NULL DEFAULT TRUE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    CONSTRAINT driver_payout_accounts_bank_code CHECK (payout_method <> 'bank_transfer' OR bank_code IS NOT NULL)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_driver_payout_accounts_default
+    ON driver_payout_accounts(driver_id, payout_method) WHERE is_default;
+
+-- =====================================================
+-- Batches and Lines
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS payout_batches (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    batch_reference VARCHAR(30) NOT NULL UNIQUE,
+    payout_method VARCHAR(20) NOT NULL CHECK (payout_method IN ('gcash', 'bank_transfer')),
+    status VARCHAR(20) NOT NULL DEFAULT 'draft'
+        CHECK (status IN ('draft', 'pending_approval', 'released', 'cancelled')),
+    total_amount DECIMAL(14,2) NOT NULL DEFAULT 0,
+    line_count INTEGER NOT NULL DEFAULT 0,
+    approval_request_id TEXT,                            -- approval_requests.request_id
+    created_by VARCHAR(100) NOT NULL,
+    released_by VARCHAR(100),
+    released_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_payout_batches_status ON payout_batches(status, created_at DESC);
+
+CREATE TABLE IF NOT EXISTS payout_lines (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    line_reference VARCHAR(40) NOT NULL UNIQUE,
+    batch_id UUID NOT NULL REFERENCES payout_batches(id),
+    driver_id UUID NOT NULL REFERENCES drivers(id),
+    amount DECIMAL(12,2) NOT NULL CHECK (amount > 0),
+    status VARCHAR(20) NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'sent', 'failed', 'reversed')),
+
+    -- Destination snapshot taken when the batch is built
+    account_name VARCHAR(100) NOT NULL,
+    account_number VARCHAR(34) NOT NULL,
+    bank_code VARCHAR(20),
+
+    provider_reference VARCHAR(100),
+    failure_reason TEXT,
+    attempt_count INTEGER NOT NULL DEFAULT 0,
+    sent_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_payout_lines_batch ON payout_lines(batch_id, status);
+CREATE INDEX IF NOT EXISTS idx_payout_lines_driver ON payout_lines(driver_id, created_at DESC);
+
+-- Every state change on a line, including the journal it posted
+CREATE TABLE IF NOT EXISTS payout_line_events (
+    id BIGSERIAL PRIMARY KEY,
+    line_id UUID NOT NULL REFERENCES payout_lines(id),
+    from_status VARCHAR(20),
+    to_status VARCHAR(20) NOT NULL,
+    actor_id VARCHAR(100) NOT NULL,
+    note TEXT,
+    journal_id UUID REFERENCES ledger_journals(id),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_payout_line_events_line ON payout_line_events(line_id, created_at);
+
+-- =====================================================
+-- Payout Disputes
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS payout_disputes (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    line_id UUID NOT NULL REFERENCES payout_lines(id),
+    driver_id UUID NOT NULL REFERENCES drivers(id),
+    status VARCHAR(20) NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'resolved', 'rejected')),
+    reason VARCHAR(100) NOT NULL,
+    details TEXT,
+    raised_by VARCHAR(100) NOT NULL,
+    raised_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    resolution TEXT,
+    resolved_by VARCHAR(100),
+    resolved_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_payout_disputes_open ON payout_disputes(line_id) WHERE status = 'open';
@@ -0,0 +1,84 @@
+-- PostgreSQL Migration 048: Payment Transactions
+-- Rider wallet payments through GCash / PayMaya (or the local sandbox), with idempotent
+-- initiation, webhook de-duplication and refunds
+
+CREATE TABLE IF NOT EXISTS payment_transactions (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    transaction_reference VARCHAR(40) NOT NULL UNIQUE,
+    reference_number VARCHAR(100),                  -- caller's own reference (booking or invoice number)
+    payment_method VARCHAR(20) NOT NULL CHECK (payment_method IN ('gcash', 'paymaya')),
+    provider VARCHAR(20) NOT NULL CHECK (provider IN ('gcash', 'paymaya', 'sandbox')),
+    status VARCHAR(20) NOT NULL DEFAULT 'pending'
+        CHECK (status IN ('pending', 'processing', 'completed', 'failed', 'refunded', 'cancelled')),
+    amount DECIMAL(12,2) NOT NULL CHECK (amount > 0),
+    currency CHAR(3) NOT NULL DEFAULT 'PHP',
+    refunded_amount DECIMAL(12,2) NOT NULL DEFAULT 0,
+    description TEXT NOT NULL,
+    user_id VARCHAR(100) NOT NULL,
+    booking_id UUID REFERENCES bookings(id),
+    provider_reference VARCHAR(100),
+    redirect_url TEXT,
+    success_url TEXT,
+    failure_url TEXT,
+    failure_reason TEXT,
+    metadata JSONB NOT NULL DEFAULT '{}',
+
+    -- Idempotency: a retried initiate with the same key returns the original transaction
+    idempotency_key VARCHAR(100) NOT NULL,
+    request_hash CHAR(64) NOT NULL,
+
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    completed_at TIMESTAMP WITH TIME ZONE,
+
+    UNIQUE (payment_method, idempotency_key),
+    CONSTRAINT payment_transactions_refund_cap CHECK (refunded_amount <= amount)
+);
+
+CREATE INDEX IF NOT EXISTS idx_payment_transactions_user ON payment_transactions(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_payment_transactions_status ON payment_transactions(status, created_at DESC);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_payment_transactions_provider_ref
+    ON payment_transactions(provider, provider_reference) WHERE provider_reference IS NOT NULL;
+
+CREATE TABLE IF NOT EXISTS payment_transaction_events (
+    id BIGSERIAL PRIMARY KEY,
+    transaction_id UUID NOT NULL REFERENCES payment_transactions(id),
+    from_status VARCHAR(20),
+    to_status VARCHAR(20) NOT NULL,
+    source VARCHAR(20) NOT NULL CHECK (source IN ('api', 'webhook')),
+    provider_event_id VARCHAR(100),
+    note TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_payment_transaction_events_txn ON payment_transaction_events(transaction_id, created_at);
+
+-- Every verified webhook delivery; providers retry, so event ids are processed once
+CREATE TABLE IF NOT EXISTS payment_webhook_events (
+    id BIGSERIAL PRIMARY KEY,
+    provider VARCHAR(20) NOT NULL,
+    event_id VARCHAR(100) NOT NULL,
+    event_type VARCHAR(40) NOT NULL,
+    transaction_id UUID REFERENCES payment_transactions(id),
+    payload JSONB NOT NULL,
+    received_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    UNIQUE (provider, event_id)
+);
+
+CREATE TABLE IF NOT EXISTS payment_refunds (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    refund_reference VARCHAR(40) NOT NULL UNIQUE,
+    transaction_id UUID NOT NULL REFERENCES payment_transactions(id),
+    amount DECIMAL(12,2) NOT NULL CHECK (amount > 0),
+    currency CHAR(3) NOT NULL DEFAULT 'PHP',
+    reason TEXT NOT NULL,
+    status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'processed', 'failed')),
+    provider_refund_reference VARCHAR(100),
+    failure_reason TEXT,
+    requested_by VARCHAR(100) NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    processed_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS idx_payment_refunds_transaction ON payment_refunds(transaction_id);
@@ -0,0 +1,70 @@
+-- PostgreSQL Migration 049: Payment Reconciliation
+-- Provider settlement statements (GCash / PayMaya / bank CSV) matched against
+-- payment_transactions, with an audit trail of every automatic and manual decision
+
+CREATE TABLE IF NOT EXISTS reconciliation_statements (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    provider VARCHAR(20) NOT NULL CHECK (provider IN ('gcash', 'paymaya', 'bank')),
+    file_name VARCHAR(255) NOT NULL,
+    file_hash CHAR(64) NOT NULL,
+    period_start TIMESTAMP WITH TIME ZONE,
+    period_end TIMESTAMP WITH TIME ZONE,
+    line_count INTEGER NOT NULL DEFAULT 0,
+    skipped_count INTEGER NOT NULL DEFAULT 0,
+    statement_total DECIMAL(14,2) NOT NULL DEFAULT 0,
+    uploaded_by VARCHAR(100) NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    -- The same file uploaded twice must not double-count settlements
+    UNIQUE (provider, file_hash)
+);
+
+CREATE TABLE IF NOT EXISTS reconciliation_items (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    statement_id UUID NOT NULL REFERENCES reconciliation_statements(id),
+    line_number INTEGER,                            -- NULL for transactions missing from the statement
+    provider VARCHAR(20) NOT NULL,
+    provider_reference VARCHAR(100),
+    merchant_reference VARCHAR(100),
+    payer_name VARCHAR(255),
+    statement_date TIMESTAMP WITH TIME ZONE,
+    transaction_id UUID REFERENCES payment_transactions(id),
+    invoice_id UUID,
+    expected_amount DECIMAL(12,2) NOT NULL DEFAULT 0,
+    actual_amount DECIMAL(12,2) NOT NULL DEFAULT 0,
+    fee_amount DECIMAL(12,2) NOT NULL DEFAULT 0,
+    status VARCHAR(20) NOT NULL DEFAULT 'pending'
+        CHECK (status IN ('pending', 'reconciled', 'discrepancy', 'disputed')),
+    match_method VARCHAR(20) CHECK (match_method IN ('reference', 'amount_date', 'manual')),
+    discrepancy_reason VARCHAR(50),
+    notes TEXT,
+    reconciled_by VARCHAR(100),
+    reconciled_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    UNIQUE (statement_id, line_number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_reconciliation_items_status ON reconciliation_items(status, statement_date DESC);
+CREATE INDEX IF NOT EXISTS idx_reconciliation_items_transaction ON reconciliation_items(transaction_id);
+
+-- A payment can only be reconciled against one statement line
+CREATE UNIQUE INDEX IF NOT EXISTS idx_reconciliation_items_reconciled_txn
+    ON reconciliation_items(transaction_id)
+    WHERE status = 'reconciled' AND transaction_id IS NOT NULL AND line_number IS NOT NULL;
+
+CREATE TABLE IF NOT EXISTS reconciliation_audit (
+    id BIGSERIAL PRIMARY KEY,
+    item_id UUID NOT NULL REFERENCES reconciliation_items(id),
+    action VARCHAR(30) NOT NULL
+        CHECK (action IN ('auto_matched', 'manual_matched', 'reconciled', 'marked_discrepancy', 'disputed', 'unmatched')),
+    from_status VARCHAR(20),
+    to_status VARCHAR(20) NOT NULL,
+    transaction_id UUID,
+    actor_id VARCHAR(100) NOT NULL,
+    notes TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_reconciliation_audit_item ON reconciliation_audit(item_id, created_at);
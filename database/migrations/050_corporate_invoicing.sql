@@ -0,0 +1,268 @@
+-- PostgreSQL Migration 050: Corporate Invoicing
+-- B2B accounts, subscriptions and payment terms, and the invoices, line items and
+-- credit notes produced by the periodic billing run
+
+-- =====================================================
+-- Payment Terms
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS payment_terms (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    name VARCHAR(100) NOT NULL UNIQUE,
+    description TEXT,
+    due_days INTEGER NOT NULL CHECK (due_days >= 0),
+    grace_period_days INTEGER NOT NULL DEFAULT 0 CHECK (grace_period_days >= 0),
+    late_fee_type VARCHAR(20) NOT NULL DEFAULT 'percentage' CHECK (late_fee_type IN ('percentage', 'fixed')),
+    late_fee_amount DECIMAL(10,2) NOT NULL DEFAULT 0 CHECK (late_fee_amount >= 0),
+    late_fee_cap_percentage DECIMAL(5,2),
+    early_payment_discount_days INTEGER,
+    early_payment_discount_percentage DECIMAL(5,2),
+    is_default BOOLEAN NOT NULL DEFAULT FALSE,
+    is_active BOOLEAN NOT NULL DEFAULT TRUE,
+    terms_and_conditions TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- At most one default terms row
+CREATE UNIQUE INDEX IF NOT EXISTS idx_payment_terms_default ON payment_terms(is_default) WHERE is_default;
+
+INSERT INTO payment_terms (name, description, due_days, grace_period_days, late_fee_type, late_fee_amount,
+                           late_fee_cap_percentage, early_payment_discount_days, early_payment_discount_percentage, is_default)
+VALUES
+    ('Net 30', 'Due 30 days after issue; 2% off if paid within 10 days', 30, 5, 'percentage', 1.50, 10.00, 10, 2.00, TRUE),
+    ('Net 15', 'Due 15 days after issue', 15, 3, 'percentage', 2.00, 10.00, NULL, NULL, FALSE),
+    ('Due on Receipt', 'Due on the issue date', 0, 0, 'fixed', 500.00, 5.00, NULL, NULL, FALSE)
+ON CONFLICT (name) DO NOTHING;
+
+-- =====================================================
+-- Corporate Accounts and Authorized Bookers
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS corporate_accounts (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    account_number VARCHAR(20) NOT NULL UNIQUE,
+    company_name VARCHAR(255) NOT NULL,
+    registration_number VARCHAR(50),                -- DTI/SEC registration
+    tax_id VARCHAR(20),                             -- TIN
+    billing_address JSONB NOT NULL,
+    contact_email VARCHAR(255) NOT NULL,
+    contact_phone VARCHAR(30) NOT NULL,
+    contact_person VARCHAR(255) NOT NULL,
+    credit_limit DECIMAL(14,2) NOT NULL DEFAULT 0,
+    outstanding_balance DECIMAL(14,2) NOT NULL DEFAULT 0,
+    status VARCHAR(20) NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'suspended', 'terminated')),
+    payment_terms_id UUID REFERENCES payment_terms(id),
+    currency CHAR(3) NOT NULL DEFAULT 'PHP',
+    auto_invoicing BOOLEAN NOT NULL DEFAULT TRUE,
+    invoice_frequency VARCHAR(20) NOT NULL DEFAULT 'monthly' CHECK (invoice_frequency IN ('weekly', 'monthly', 'quarterly')),
+    billing_day INTEGER CHECK (billing_day BETWEEN 1 AND 28),
+    notes TEXT,
+    tags TEXT[] NOT NULL DEFAULT '{}',
+    created_by VARCHAR(100),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- A booker is a rider (bookings.customer_id) whose trips are billed to the account while authorized
+CREATE TABLE IF NOT EXISTS corporate_authorized_bookers (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    account_id UUID NOT NULL REFERENCES corporate_accounts(id),
+    customer_id UUID NOT NULL,
+    name VARCHAR(255) NOT NULL,
+    email VARCHAR(255) NOT NULL,
+    phone VARCHAR(30) NOT NULL,
+    role VARCHAR(100) NOT NULL DEFAULT 'employee',
+    added_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    removed_at TIMESTAMP WITH TIME ZONE,
+
+    CHECK (removed_at IS NULL OR removed_at >= added_at)
+);
+
+CREATE INDEX IF NOT EXISTS idx_corporate_bookers_account ON corporate_authorized_bookers(account_id);
+CREATE INDEX IF NOT EXISTS idx_corporate_bookers_customer ON corporate_authorized_bookers(customer_id);
+
+-- A rider can book for only one account at a time
+CREATE UNIQUE INDEX IF NOT EXISTS idx_corporate_bookers_active
+    ON corporate_authorized_bookers(customer_id) WHERE removed_at IS NULL;
+
+-- =====================================================
+-- Subscriptions
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS corporate_subscriptions (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    account_id UUID NOT NULL REFERENCES corporate_accounts(id),
+    plan_type VARCHAR(20) NOT NULL CHECK (plan_type IN ('monthly', 'quarterly', 'annual')),
+    plan_name VARCHAR(100) NOT NULL,
+    start_date DATE NOT NULL,
+    end_date DATE NOT NULL,
+    cancelled_date DATE,
+    price_per_ride DECIMAL(10,2) NOT NULL CHECK (price_per_ride >= 0),
+    monthly_minimum DECIMAL(12,2),
+    included_rides INTEGER,
+    base_fee DECIMAL(12,2),
+    discount_percentage DECIMAL(5,2),
+    volume_discount_tiers JSONB NOT NULL DEFAULT '[]',    -- [{ridesFrom, ridesTo, discountPercentage}]
+    status VARCHAR(20) NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'paused', 'cancelled', 'expired')),
+    auto_renew BOOLEAN NOT NULL DEFAULT TRUE,
+    notes TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    CHECK (end_date >= start_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_corporate_subscriptions_account ON corporate_subscriptions(account_id, start_date DESC);
+
+-- =====================================================
+-- Invoices
+-- =====================================================
+
+-- Gapless document numbering per series ('INV', 'CN') and calendar year; the row is
+-- locked by the issuing transaction so a rolled-back run never burns a number
+CREATE TABLE IF NOT EXISTS document_number_sequences (
+    series VARCHAR(10) NOT NULL,
+    year INTEGER NOT NULL,
+    last_number INTEGER NOT NULL DEFAULT 0,
+    PRIMARY KEY (series, year)
+);
+
+CREATE TABLE IF NOT EXISTS invoices (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    invoice_number VARCHAR(30) NOT NULL UNIQUE,
+    corporate_account_id UUID NOT NULL REFERENCES corporate_accounts(id),
+    subscription_id UUID REFERENCES corporate_subscriptions(id),
+    payment_terms_id UUID REFERENCES payment_terms(id),
+    issue_date DATE NOT NULL,
+    due_date DATE NOT NULL,
+    paid_date DATE,
+    billing_period_start DATE NOT NULL,
+    billing_period_end DATE NOT NULL,
+    subtotal DECIMAL(14,2) NOT NULL DEFAULT 0,
+    discount_amount DECIMAL(14,2) NOT NULL DEFAULT 0,
+    tax_amount DECIMAL(14,2) NOT NULL DEFAULT 0,
+    total_amount DECIMAL(14,2) NOT NULL DEFAULT 0,
+    late_fee_amount DECIMAL(14,2) NOT NULL DEFAULT 0,
+    early_payment_discount DECIMAL(14,2) NOT NULL DEFAULT 0,
+    credit_amount DECIMAL(14,2) NOT NULL DEFAULT 0,
+    amount_paid DECIMAL(14,2) NOT NULL DEFAULT 0,
+    amount_due DECIMAL(14,2) NOT NULL DEFAULT 0,
+    status VARCHAR(20) NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'sent', 'paid', 'overdue', 'void')),
+    source VARCHAR(20) NOT NULL DEFAULT 'billing_run' CHECK (source IN ('billing_run', 'manual')),
+    notes TEXT,
+    terms_and_conditions TEXT,
+    sent_date TIMESTAMP WITH TIME ZONE,
+    sent_to TEXT[] NOT NULL DEFAULT '{}',
+    last_reminder_date TIMESTAMP WITH TIME ZONE,
+    reminder_count INTEGER NOT NULL DEFAULT 0,
+    pdf_url TEXT,
+    created_by VARCHAR(100) NOT NULL DEFAULT 'system',
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    CHECK (billing_period_end >= billing_period_start),
+    CHECK (amount_due >= 0)
+);
+
+CREATE INDEX IF NOT EXISTS idx_invoices_account ON invoices(corporate_account_id, issue_date DESC);
+CREATE INDEX IF NOT EXISTS idx_invoices_status_due ON invoices(status, due_date);
+
+-- Re-running a billing period must not produce a second live invoice for the account
+CREATE UNIQUE INDEX IF NOT EXISTS idx_invoices_account_period
+    ON invoices(corporate_account_id, billing_period_start, billing_period_end)
+    WHERE status <> 'void' AND source = 'billing_run';
+
+CREATE TABLE IF NOT EXISTS invoice_line_items (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    invoice_id UUID NOT NULL REFERENCES invoices(id),
+    position INTEGER NOT NULL,
+    description TEXT NOT NULL,
+    quantity DECIMAL(10,2) NOT NULL,
+    unit_price DECIMAL(12,2) NOT NULL,
+    amount DECIMAL(14,2) NOT NULL,
+    tax_rate DECIMAL(5,4) NOT NULL DEFAULT 0,
+    tax_amount DECIMAL(14,2) NOT NULL DEFAULT 0,
+    trip_id UUID REFERENCES bookings(id),
+    category VARCHAR(20),
+    metadata JSONB NOT NULL DEFAULT '{}',
+
+    UNIQUE (invoice_id, position)
+);
+
+-- A trip is billed exactly once; voiding an invoice releases its trips for the next run
+CREATE TABLE IF NOT EXISTS invoiced_trips (
+    booking_id UUID PRIMARY KEY REFERENCES bookings(id),
+    invoice_id UUID NOT NULL REFERENCES invoices(id),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_invoiced_trips_invoice ON invoiced_trips(invoice_id);
+
+CREATE TABLE IF NOT EXISTS invoice_payments (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    invoice_id UUID NOT NULL REFERENCES invoices(id),
+    amount DECIMAL(14,2) NOT NULL CHECK (amount > 0),
+    payment_date DATE NOT NULL,
+    payment_method VARCHAR(30) NOT NULL,
+    reference_number VARCHAR(100),
+    notes TEXT,
+    recorded_by VARCHAR(100) NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_invoice_payments_invoice ON invoice_payments(invoice_id);
+
+CREATE TABLE IF NOT EXISTS credit_notes (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    credit_note_number VARCHAR(30) NOT NULL UNIQUE,
+    invoice_id UUID NOT NULL REFERENCES invoices(id),
+    account_id UUID NOT NULL REFERENCES corporate_accounts(id),
+    amount DECIMAL(14,2) NOT NULL CHECK (amount > 0),
+    reason TEXT NOT NULL,
+    status VARCHAR(20) NOT NULL DEFAULT 'issued' CHECK (status IN ('draft', 'issued', 'applied', 'void')),
+    issue_date DATE NOT NULL,
+    applied_date DATE,
+    created_by VARCHAR(100) NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_credit_notes_invoice ON credit_notes(invoice_id);
+
+CREATE TABLE IF NOT EXISTS invoice_activity (
+    id BIGSERIAL PRIMARY KEY,
+    invoice_id UUID NOT NULL REFERENCES invoices(id),
+    activity_type VARCHAR(30) NOT NULL
+        CHECK (activity_type IN ('created', 'sent', 'viewed', 'payment_received', 'reminder_sent', 'voided',
+                                 'note_added', 'status_changed', 'credit_note_applied', 'late_fee_assessed')),
+    description TEXT NOT NULL,
+    performed_by VARCHAR(100) NOT NULL,
+    metadata JSONB NOT NULL DEFAULT '{}',
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_invoice_activity_invoice ON invoice_activity(invoice_id, created_at);
+
+-- Reconciliation items can now point at the invoice a payment settled
+ALTER TABLE reconciliation_items
+    DROP CONSTRAINT IF EXISTS reconciliation_items_invoice_id_fkey;
+ALTER TABLE reconciliation_items
+    ADD CONSTRAINT reconciliation_items_invoice_id_fkey FOREIGN KEY (invoice_id) REFERENCES invoices(id);
+
+-- =====================================================
+-- Billing Runs
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS billing_runs (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    period_start DATE NOT NULL,
+    period_end DATE NOT NULL,
+    issue_date DATE NOT NULL,
+    invoices_created INTEGER NOT NULL DEFAULT 0,
+    accounts_skipped INTEGER NOT NULL DEFAULT 0,
+    trips_billed INTEGER NOT NULL DEFAULT 0,
+    total_billed DECIMAL(14,2) NOT NULL DEFAULT 0,
+    started_by VARCHAR(100) NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
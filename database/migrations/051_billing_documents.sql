@@ -0,0 +1,26 @@
+-- PostgreSQL Migration 051: Billing Documents
+-- Rendered service invoices and official receipts, stored as issued so reprints match the
+-- original. Official receipts take their serial number from the gapless 'OR' series.
+
+ALTER TABLE invoice_payments ADD COLUMN IF NOT EXISTS receipt_number VARCHAR(30) UNIQUE;
+
+CREATE TABLE IF NOT EXISTS billing_documents (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    document_type VARCHAR(20) NOT NULL CHECK (document_type IN ('invoice', 'official_receipt')),
+    document_number VARCHAR(30) NOT NULL,
+    invoice_id UUID NOT NULL REFERENCES invoices(id),
+    payment_id UUID REFERENCES invoice_payments(id),
+    file_name VARCHAR(255) NOT NULL,
+    content_type VARCHAR(100) NOT NULL DEFAULT 'application/pdf',
+    content BYTEA NOT NULL,
+    sha256 CHAR(64) NOT NULL,
+    byte_size INTEGER NOT NULL,
+    generated_by VARCHAR(100) NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    CHECK ((document_type = 'official_receipt') = (payment_id IS NOT NULL))
+);
+
+-- One stored copy per issued document; reprints serve the original
+CREATE UNIQUE INDEX IF NOT EXISTS idx_billing_documents_number ON billing_documents(document_type, document_number);
+CREATE INDEX IF NOT EXISTS idx_billing_documents_invoice ON billing_documents(invoice_id);
@@ -0,0 +1,95 @@
+-- PostgreSQL Migration 052: Dunning
+-- Reminder sequences for unpaid corporate invoices, automatic suspension of accounts (and their
+-- authorized bookers) past a configurable threshold, and account-manager overrides
+
+-- =====================================================
+-- Dunning Policies
+-- =====================================================
+
+-- reminder_steps: [{ "key", "dayOffset" (days relative to the due date), "channels": ["email","sms"], "template" }]
+CREATE TABLE IF NOT EXISTS dunning_policies (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    name VARCHAR(100) NOT NULL UNIQUE,
+    description TEXT,
+    reminder_steps JSONB NOT NULL DEFAULT '[]',
+    suspend_after_days_overdue INTEGER CHECK (suspend_after_days_overdue IS NULL OR suspend_after_days_overdue >= 0),
+    suspend_min_overdue_amount DECIMAL(14,2) NOT NULL DEFAULT 0 CHECK (suspend_min_overdue_amount >= 0),
+    is_default BOOLEAN NOT NULL DEFAULT FALSE,
+    is_active BOOLEAN NOT NULL DEFAULT TRUE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_dunning_policies_default ON dunning_policies(is_default) WHERE is_default;
+
+INSERT INTO dunning_policies (name, description, reminder_steps, suspend_after_days_overdue, suspend_min_overdue_amount, is_default)
+VALUES (
+    'Standard',
+    'Courtesy notice 3 days before due, reminders once overdue, suspension 30 days past due',
+    '[
+      {"key": "upcoming", "dayOffset": -3, "channels": ["email"], "template": "upcoming"},
+      {"key": "due", "dayOffset": 0, "channels": ["email"], "template": "due"},
+      {"key": "overdue_7", "dayOffset": 7, "channels": ["email", "sms"], "template": "overdue"},
+      {"key": "overdue_14", "dayOffset": 14, "channels": ["email", "sms"], "template": "overdue"},
+      {"key": "final_notice", "dayOffset": 25, "channels": ["email", "sms"], "template": "final_notice"}
+    ]',
+    30,
+    0,
+    TRUE
+)
+ON CONFLICT (name) DO NOTHING;
+
+-- =====================================================
+-- Account Suspension and Overrides
+-- =====================================================
+
+ALTER TABLE corporate_accounts
+    ADD COLUMN IF NOT EXISTS dunning_policy_id UUID REFERENCES dunning_policies(id),
+    ADD COLUMN IF NOT EXISTS suspended_at TIMESTAMP WITH TIME ZONE,
+    ADD COLUMN IF NOT EXISTS suspension_reason VARCHAR(20) CHECK (suspension_reason IN ('dunning', 'manual')),
+    ADD COLUMN IF NOT EXISTS dunning_override_until DATE,
+    ADD COLUMN IF NOT EXISTS dunning_override_reason TEXT,
+    ADD COLUMN IF NOT EXISTS dunning_override_by VARCHAR(100);
+
+-- Suspended bookers keep their authorization history but may not book on the account
+ALTER TABLE corporate_authorized_bookers ADD COLUMN IF NOT EXISTS suspended_at TIMESTAMP WITH TIME ZONE;
+
+-- =====================================================
+-- Reminder Notices and Runs
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS dunning_runs (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    as_of DATE NOT NULL,
+    invoices_marked_overdue INTEGER NOT NULL DEFAULT 0,
+    late_fees_assessed INTEGER NOT NULL DEFAULT 0,
+    total_late_fees DECIMAL(14,2) NOT NULL DEFAULT 0,
+    reminders_sent INTEGER NOT NULL DEFAULT 0,
+    reminders_failed INTEGER NOT NULL DEFAULT 0,
+    accounts_suspended INTEGER NOT NULL DEFAULT 0,
+    accounts_reactivated INTEGER NOT NULL DEFAULT 0,
+    started_by VARCHAR(100) NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS dunning_notices (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    invoice_id UUID REFERENCES invoices(id),
+    account_id UUID NOT NULL REFERENCES corporate_accounts(id),
+    step_key VARCHAR(50) NOT NULL,
+    template VARCHAR(30) NOT NULL
+        CHECK (template IN ('upcoming', 'due', 'overdue', 'final_notice', 'suspended', 'reactivated')),
+    channel VARCHAR(10) NOT NULL CHECK (channel IN ('email', 'sms')),
+    recipient VARCHAR(255) NOT NULL,
+    status VARCHAR(20) NOT NULL CHECK (status IN ('sent', 'failed', 'skipped')),
+    provider_message_id VARCHAR(255),
+    error TEXT,
+    run_id UUID REFERENCES dunning_runs(id),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Each step goes out once per invoice and channel; failed sends are retried by the next run
+CREATE UNIQUE INDEX IF NOT EXISTS idx_dunning_notices_step
+    ON dunning_notices(invoice_id, step_key, channel) WHERE invoice_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_dunning_notices_account ON dunning_notices(account_id, created_at);
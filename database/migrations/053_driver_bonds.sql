@@ -0,0 +1,94 @@
+-- PostgreSQL Migration 053: Driver Bonds
+-- Per-driver bond accounts held in ledger account 2200, collected as a lump-sum deposit
+-- or through settlement deductions, with forfeitures and approval-gated refunds
+
+-- =====================================================
+-- Bond Accounts
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS driver_bonds (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    bond_reference VARCHAR(30) NOT NULL UNIQUE,
+    driver_id UUID NOT NULL REFERENCES drivers(id),
+    status VARCHAR(20) NOT NULL DEFAULT 'collecting'
+        CHECK (status IN ('collecting', 'active', 'released', 'forfeited')),
+    collection_method VARCHAR(20) NOT NULL CHECK (collection_method IN ('lump_sum', 'installments')),
+    required_amount DECIMAL(12,2) NOT NULL CHECK (required_amount > 0),
+    collected_amount DECIMAL(12,2) NOT NULL DEFAULT 0 CHECK (collected_amount >= 0),
+    forfeited_amount DECIMAL(12,2) NOT NULL DEFAULT 0 CHECK (forfeited_amount >= 0),
+    refunded_amount DECIMAL(12,2) NOT NULL DEFAULT 0 CHECK (refunded_amount >= 0),
+    installment_amount DECIMAL(10,2) CHECK (installment_amount > 0),
+    recurring_deduction_id UUID REFERENCES driver_recurring_deductions(id),
+    deposited_at TIMESTAMP WITH TIME ZONE,             -- when the full bond was first collected
+    released_at TIMESTAMP WITH TIME ZONE,
+    notes TEXT,
+    created_by VARCHAR(100) NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    CONSTRAINT driver_bonds_installment_amount
+        CHECK (collection_method <> 'installments' OR installment_amount IS NOT NULL),
+    -- Money can only leave the bond once it has been collected
+    CONSTRAINT driver_bonds_held_balance CHECK (forfeited_amount + refunded_amount <= collected_amount)
+);
+
+-- A driver holds at most one open bond
+CREATE UNIQUE INDEX IF NOT EXISTS idx_driver_bonds_open
+    ON driver_bonds(driver_id) WHERE status IN ('collecting', 'active');
+CREATE INDEX IF NOT EXISTS idx_driver_bonds_status ON driver_bonds(status, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_driver_bonds_deduction ON driver_bonds(recurring_deduction_id);
+
+-- Every movement on a bond, with the journal or settlement that carried the money
+CREATE TABLE IF NOT EXISTS driver_bond_events (
+    id BIGSERIAL PRIMARY KEY,
+    bond_id UUID NOT NULL REFERENCES driver_bonds(id),
+    event_type VARCHAR(30) NOT NULL CHECK (event_type IN (
+        'created', 'deposit', 'installment', 'forfeiture',
+        'refund_requested', 'refund_released', 'refund_rejected', 'refund_cancelled'
+    )),
+    amount DECIMAL(12,2) NOT NULL DEFAULT 0,
+    reason_code VARCHAR(30),
+    incident_id UUID,                                  -- incidents is partitioned, so no foreign key
+    journal_id UUID REFERENCES ledger_journals(id),
+    settlement_id UUID REFERENCES driver_settlements(id),
+    actor_id VARCHAR(100) NOT NULL,
+    note TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_driver_bond_events_bond ON driver_bond_events(bond_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_driver_bond_events_incident ON driver_bond_events(incident_id) WHERE incident_id IS NOT NULL;
+
+-- =====================================================
+-- Refund Requests
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS driver_bond_refunds (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    bond_id UUID NOT NULL REFERENCES driver_bonds(id),
+    driver_id UUID NOT NULL REFERENCES drivers(id),
+    amount DECIMAL(12,2) NOT NULL CHECK (amount > 0),
+    status VARCHAR(20) NOT NULL DEFAULT 'pending_approval'
+        CHECK (status IN ('pending_approval', 'released', 'rejected', 'cancelled')),
+    approval_request_id TEXT,                            -- approval_requests.request_id
+    justification TEXT NOT NULL,
+    requested_by VARCHAR(100) NOT NULL,
+    decided_by VARCHAR(100),
+    decided_at TIMESTAMP WITH TIME ZONE,
+    decision_note TEXT,
+    journal_id UUID REFERENCES ledger_journals(id),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_driver_bond_refunds_pending
+    ON driver_bond_refunds(bond_id) WHERE status = 'pending_approval';
+CREATE INDEX IF NOT EXISTS idx_driver_bond_refunds_status ON driver_bond_refunds(status, created_at DESC);
+
+-- =====================================================
+-- Refund Approval Workflow
+-- =====================================================
+
+INSERT INTO approval_workflows (action, required_approvers, sensitivity_threshold, temporary_access_ttl, is_active)
+VALUES ('approve_bond_refund', 1, 0.8, 3600, TRUE)   -- finance approval, 1h temp access
+ON CONFLICT (action) DO NOTHING;
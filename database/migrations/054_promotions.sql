@@ -0,0 +1,87 @@
+-- PostgreSQL Migration 054: Customer Promotions
+-- Promo codes with eligibility and stacking rules, atomic redemptions, and a log of
+-- every redemption attempt that feeds rider incentive fraud detection
+
+-- =====================================================
+-- Promotions
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS promotions (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    code VARCHAR(40) NOT NULL UNIQUE,                   -- stored upper-case
+    name VARCHAR(100) NOT NULL,
+    description TEXT,
+    discount_type VARCHAR(20) NOT NULL CHECK (discount_type IN ('percentage', 'fixed')),
+    discount_value DECIMAL(10,2) NOT NULL CHECK (discount_value > 0),
+    max_discount DECIMAL(10,2) CHECK (max_discount > 0),
+    min_order_amount DECIMAL(10,2) CHECK (min_order_amount >= 0),
+    valid_from TIMESTAMP WITH TIME ZONE NOT NULL,
+    valid_to TIMESTAMP WITH TIME ZONE NOT NULL,
+
+    -- Limits: NULL means unlimited
+    usage_limit INTEGER CHECK (usage_limit > 0),
+    per_user_limit INTEGER DEFAULT 1 CHECK (per_user_limit > 0),
+    usage_count INTEGER NOT NULL DEFAULT 0 CHECK (usage_count >= 0),
+
+    -- Eligibility: NULL lists mean any service, region or zone
+    new_users_only BOOLEAN NOT NULL DEFAULT FALSE,
+    service_keys TEXT[],
+    region_ids TEXT[],
+    zone_ids TEXT[],
+
+    -- Stackable promos combine with each other; any other promo must be used alone
+    stackable BOOLEAN NOT NULL DEFAULT FALSE,
+
+    is_active BOOLEAN NOT NULL DEFAULT TRUE,
+    created_by VARCHAR(100) NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    CONSTRAINT promotions_validity CHECK (valid_to > valid_from),
+    CONSTRAINT promotions_percentage CHECK (discount_type <> 'percentage' OR discount_value <= 100),
+    CONSTRAINT promotions_usage_limit CHECK (usage_limit IS NULL OR usage_count <= usage_limit)
+);
+
+CREATE INDEX IF NOT EXISTS idx_promotions_validity ON promotions(valid_from, valid_to) WHERE is_active;
+
+-- =====================================================
+-- Redemptions
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS promo_redemptions (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    promo_id UUID NOT NULL REFERENCES promotions(id),
+    customer_id UUID NOT NULL,
+    booking_id UUID,
+    status VARCHAR(20) NOT NULL DEFAULT 'redeemed' CHECK (status IN ('redeemed', 'reversed')),
+    order_amount DECIMAL(10,2) NOT NULL,
+    discount_amount DECIMAL(10,2) NOT NULL CHECK (discount_amount >= 0),
+    service_key VARCHAR(30),
+    region_id VARCHAR(50),
+    zone_id VARCHAR(50),
+    redeemed_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    reversed_at TIMESTAMP WITH TIME ZONE,
+    reversal_reason TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_promo_redemptions_customer ON promo_redemptions(customer_id, promo_id) WHERE status = 'redeemed';
+CREATE INDEX IF NOT EXISTS idx_promo_redemptions_promo_time ON promo_redemptions(promo_id, redeemed_at);
+-- A booking can only use a given promo once, so retried redemptions are idempotent
+CREATE UNIQUE INDEX IF NOT EXISTS idx_promo_redemptions_booking
+    ON promo_redemptions(promo_id, booking_id) WHERE booking_id IS NOT NULL AND status = 'redeemed';
+
+-- Every redemption attempt, accepted or not; the input to promo abuse detection
+CREATE TABLE IF NOT EXISTS promo_redemption_attempts (
+    id BIGSERIAL PRIMARY KEY,
+    customer_id UUID NOT NULL,
+    code VARCHAR(40) NOT NULL,
+    promo_id UUID REFERENCES promotions(id),
+    outcome VARCHAR(30) NOT NULL,                       -- 'redeemed' or the rejection reason
+    order_amount DECIMAL(10,2),
+    discount_amount DECIMAL(10,2),
+    booking_id UUID,
+    fraud_score INTEGER,
+    attempted_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_promo_attempts_customer ON promo_redemption_attempts(customer_id, attempted_at DESC);
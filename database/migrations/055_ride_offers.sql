@@ -0,0 +1,31 @@
+-- PostgreSQL Migration 055: Ride Offers
+-- Drivers accept or decline time-boxed ride offers before a booking is assigned to them.
+-- Every offer and its outcome is kept, so dispatchers can see why a booking is still
+-- searching and matching can score drivers on how often they actually accept.
+
+CREATE TABLE IF NOT EXISTS ride_offers (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    booking_id UUID NOT NULL REFERENCES bookings(id),
+    driver_id UUID NOT NULL REFERENCES drivers(id),
+    match_id VARCHAR(100) NOT NULL,                     -- one matching run; offers in a run form the cascade
+    sequence INTEGER NOT NULL CHECK (sequence > 0),     -- position in the cascade
+    status VARCHAR(20) NOT NULL DEFAULT 'pending'
+        CHECK (status IN ('pending', 'accepted', 'declined', 'expired', 'cancelled')),
+    matching_score DECIMAL(5,2),
+    distance_km DECIMAL(8,3),
+    eta_minutes INTEGER,
+    offered_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    responded_at TIMESTAMP WITH TIME ZONE,
+    decline_reason VARCHAR(100),                        -- driver's reason, or why the offer was withdrawn
+
+    CONSTRAINT ride_offers_expiry CHECK (expires_at > offered_at)
+);
+
+-- A booking is offered to one driver at a time, and a driver holds at most one open offer
+CREATE UNIQUE INDEX IF NOT EXISTS idx_ride_offers_booking_pending ON ride_offers(booking_id) WHERE status = 'pending';
+CREATE UNIQUE INDEX IF NOT EXISTS idx_ride_offers_driver_pending ON ride_offers(driver_id) WHERE status = 'pending';
+
+CREATE INDEX IF NOT EXISTS idx_ride_offers_booking ON ride_offers(booking_id, offered_at);
+-- Acceptance rate over recent offers
+CREATE INDEX IF NOT EXISTS idx_ride_offers_driver_time ON ride_offers(driver_id, offered_at DESC);
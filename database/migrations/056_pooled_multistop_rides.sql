@@ -0,0 +1,54 @@
+-- PostgreSQL Migration 056: Pooled and Multi-Stop Rides
+-- Bookings get an ordered list of stops (pickup, waypoints, dropoff) that drivers
+-- progress one by one. Pooled bookings share a driver's trip with other riders; the
+-- trip's route interleaves the stops of every booking on it.
+
+ALTER TYPE service_type ADD VALUE IF NOT EXISTS 'ride_pool';
+
+CREATE TABLE IF NOT EXISTS pool_trips (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    driver_id UUID NOT NULL REFERENCES drivers(id),
+    region_id UUID NOT NULL REFERENCES regions(id),
+    status VARCHAR(20) NOT NULL DEFAULT 'active'
+        CHECK (status IN ('active', 'completed', 'cancelled')),
+    seat_capacity INTEGER NOT NULL CHECK (seat_capacity > 0),
+    route_version INTEGER NOT NULL DEFAULT 1,          -- bumped whenever the route is re-planned
+    fare_split JSONB,                                  -- per-rider fares, written when the trip completes
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    completed_at TIMESTAMP WITH TIME ZONE
+);
+
+-- A driver runs at most one pool trip at a time
+CREATE UNIQUE INDEX IF NOT EXISTS idx_pool_trips_driver_active ON pool_trips(driver_id) WHERE status = 'active';
+CREATE INDEX IF NOT EXISTS idx_pool_trips_region_active ON pool_trips(region_id) WHERE status = 'active';
+
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS pool_trip_id UUID REFERENCES pool_trips(id);
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS seats INTEGER NOT NULL DEFAULT 1;
+CREATE INDEX IF NOT EXISTS idx_bookings_pool_trip ON bookings(pool_trip_id) WHERE pool_trip_id IS NOT NULL;
+
+CREATE TABLE IF NOT EXISTS booking_stops (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    booking_id UUID NOT NULL REFERENCES bookings(id) ON DELETE CASCADE,
+    sequence INTEGER NOT NULL CHECK (sequence > 0),    -- order within the booking
+    route_sequence INTEGER,                            -- order in the driver's route, set once assigned
+    stop_type VARCHAR(20) NOT NULL CHECK (stop_type IN ('pickup', 'waypoint', 'dropoff')),
+    latitude DECIMAL(10,7) NOT NULL,
+    longitude DECIMAL(10,7) NOT NULL,
+    address TEXT NOT NULL,
+    status VARCHAR(20) NOT NULL DEFAULT 'pending'
+        CHECK (status IN ('pending', 'arrived', 'completed', 'skipped')),
+    arrived_at TIMESTAMP WITH TIME ZONE,
+    completed_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+
+    UNIQUE (booking_id, sequence)
+);
+
+CREATE INDEX IF NOT EXISTS idx_booking_stops_booking ON booking_stops(booking_id, sequence);
+
+-- Offers to add a rider to a running pool trip carry the route the driver is accepting
+ALTER TABLE ride_offers ADD COLUMN IF NOT EXISTS pool_trip_id UUID REFERENCES pool_trips(id);
+ALTER TABLE ride_offers ADD COLUMN IF NOT EXISTS pool_route_version INTEGER;
+ALTER TABLE ride_offers ADD COLUMN IF NOT EXISTS pool_route JSONB;          -- stop ids in route order
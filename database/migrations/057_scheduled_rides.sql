@@ -0,0 +1,49 @@
+-- PostgreSQL Migration 057: Scheduled Rides
+-- Bookings made for a future pickup wait here until the dispatcher reserves a driver
+-- ahead of time, hands the ride over when it is time to leave, and re-matches when the
+-- reserved driver drops out. Reminders to rider and driver are logged once per lead time.
+
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS scheduled_pickup_time TIMESTAMP WITH TIME ZONE;
+
+CREATE TABLE IF NOT EXISTS scheduled_rides (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    booking_id UUID NOT NULL UNIQUE REFERENCES bookings(id) ON DELETE CASCADE,
+    region_id UUID NOT NULL REFERENCES regions(id),
+    service_type service_type NOT NULL,
+    scheduled_pickup_time TIMESTAMP WITH TIME ZONE NOT NULL,
+    status VARCHAR(20) NOT NULL DEFAULT 'scheduled'
+        CHECK (status IN ('scheduled', 'reserved', 'dispatched', 'cancelled', 'failed')),
+
+    -- Current reservation; cleared when the driver drops out and the ride is re-matched
+    reserved_driver_id UUID REFERENCES drivers(id),
+    reserved_at TIMESTAMP WITH TIME ZONE,
+    predicted_travel_minutes INTEGER,                  -- reserved driver to pickup, at pickup time
+    dispatch_at TIMESTAMP WITH TIME ZONE,              -- when the driver has to set off
+
+    rematch_count INTEGER NOT NULL DEFAULT 0,
+    last_rematch_reason VARCHAR(50),
+    dispatched_at TIMESTAMP WITH TIME ZONE,
+    failure_reason VARCHAR(100),
+
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_scheduled_rides_open
+    ON scheduled_rides(scheduled_pickup_time) WHERE status IN ('scheduled', 'reserved');
+CREATE INDEX IF NOT EXISTS idx_scheduled_rides_region ON scheduled_rides(region_id, scheduled_pickup_time);
+CREATE INDEX IF NOT EXISTS idx_scheduled_rides_driver
+    ON scheduled_rides(reserved_driver_id, scheduled_pickup_time) WHERE status = 'reserved';
+
+CREATE TABLE IF NOT EXISTS scheduled_ride_notifications (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    scheduled_ride_id UUID NOT NULL REFERENCES scheduled_rides(id) ON DELETE CASCADE,
+    recipient VARCHAR(10) NOT NULL CHECK (recipient IN ('rider', 'driver')),
+    recipient_id UUID NOT NULL,
+    lead_minutes INTEGER NOT NULL,
+    delivered BOOLEAN NOT NULL,                        -- false when the recipient was not connected
+    sent_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+
+    -- A re-matched ride reminds its new driver again
+    UNIQUE (scheduled_ride_id, recipient, recipient_id, lead_minutes)
+);
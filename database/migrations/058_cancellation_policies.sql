@@ -0,0 +1,106 @@
+-- PostgreSQL Migration 058: Cancellation and No-Show Policies
+-- Per-region, per-service rules deciding what a cancelled or no-show ride costs: grace
+-- windows, fees by who cancelled and from which status, driver compensation for riders
+-- who never showed up, and safety waivers. Every charge is recorded once per booking
+-- and posted to the ledger against the rider's payment and the driver's payables.
+
+-- Set when the driver reaches the pickup; starts the no-show wait timer
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS arrived_at TIMESTAMP WITH TIME ZONE;
+
+-- =====================================================
+-- Policies
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS cancellation_policies (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    name VARCHAR(100) NOT NULL,
+    region_id UUID REFERENCES regions(id),             -- NULL applies to every region
+    service_type service_type,                         -- NULL applies to every service
+
+    -- Riders cancel free this long after a driver accepted
+    rider_grace_seconds INTEGER NOT NULL DEFAULT 120 CHECK (rider_grace_seconds >= 0),
+    -- Riders cancel free once the driver is this late against the pickup ETA
+    driver_late_grace_minutes INTEGER NOT NULL DEFAULT 5 CHECK (driver_late_grace_minutes >= 0),
+
+    -- A driver may end the ride as a no-show after waiting this long at the pickup
+    no_show_wait_minutes INTEGER NOT NULL DEFAULT 5 CHECK (no_show_wait_minutes >= 0),
+    no_show_fee DECIMAL(10,2) NOT NULL DEFAULT 0 CHECK (no_show_fee >= 0),
+    no_show_driver_compensation DECIMAL(10,2) NOT NULL DEFAULT 0 CHECK (no_show_driver_compensation >= 0),
+
+    -- [{ "cancelledBy": "rider", "fromStatus": "en_route", "fee": 50, "driverCompensation": 40 }, ...]
+    fee_rules JSONB NOT NULL DEFAULT '[]',
+
+    is_active BOOLEAN NOT NULL DEFAULT TRUE,
+    created_by VARCHAR(100) NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- One active policy per region and service; NULLs are treated as "any"
+CREATE UNIQUE INDEX IF NOT EXISTS idx_cancellation_policies_scope
+    ON cancellation_policies(COALESCE(region_id::text, '*'), COALESCE(service_type::text, '*'))
+    WHERE is_active;
+
+-- =====================================================
+-- Charges
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS cancellation_charges (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    charge_reference VARCHAR(30) NOT NULL UNIQUE,
+    booking_id UUID NOT NULL UNIQUE REFERENCES bookings(id),
+    policy_id UUID REFERENCES cancellation_policies(id),
+    region_id UUID NOT NULL REFERENCES regions(id),
+    customer_id UUID NOT NULL,
+    driver_id UUID REFERENCES drivers(id),
+
+    cancelled_by VARCHAR(10) NOT NULL CHECK (cancelled_by IN ('rider', 'driver', 'operator')),
+    from_status VARCHAR(20) NOT NULL,
+    reason VARCHAR(100),
+    outcome VARCHAR(20) NOT NULL
+        CHECK (outcome IN ('free', 'grace', 'driver_late', 'fee', 'driver_penalty', 'no_show', 'waived')),
+
+    rider_fee DECIMAL(10,2) NOT NULL DEFAULT 0 CHECK (rider_fee >= 0),
+    driver_compensation DECIMAL(10,2) NOT NULL DEFAULT 0 CHECK (driver_compensation >= 0),
+    driver_penalty DECIMAL(10,2) NOT NULL DEFAULT 0 CHECK (driver_penalty >= 0),
+
+    status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'posted', 'waived', 'failed')),
+    -- 'prepaid' keeps the fee out of the rider's wallet payment; 'receivable' bills it later
+    collection_method VARCHAR(20) CHECK (collection_method IN ('prepaid', 'receivable')),
+    payment_transaction_id UUID REFERENCES payment_transactions(id),
+    refund_id UUID REFERENCES payment_refunds(id),
+    journal_id UUID REFERENCES ledger_journals(id),
+    waiver_journal_id UUID REFERENCES ledger_journals(id),
+    waiver_reason VARCHAR(100),
+    waived_by VARCHAR(100),
+    failure_reason TEXT,
+
+    cancelled_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    posted_at TIMESTAMP WITH TIME ZONE,
+    waived_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_cancellation_charges_status ON cancellation_charges(status, cancelled_at);
+CREATE INDEX IF NOT EXISTS idx_cancellation_charges_customer ON cancellation_charges(customer_id, cancelled_at DESC);
+CREATE INDEX IF NOT EXISTS idx_cancellation_charges_driver
+    ON cancellation_charges(driver_id, cancelled_at DESC) WHERE driver_id IS NOT NULL;
+
+-- Default policy for every region and service until a regional one is configured
+INSERT INTO cancellation_policies (
+    name, rider_grace_seconds, driver_late_grace_minutes,
+    no_show_wait_minutes, no_show_fee, no_show_driver_compensation, fee_rules, created_by
+)
+SELECT 'Default', 120, 5, 5, 50.00, 40.00, '[
+    { "cancelledBy": "rider", "fromStatus": "assigned", "fee": 20, "driverCompensation": 10 },
+    { "cancelledBy": "rider", "fromStatus": "accepted", "fee": 30, "driverCompensation": 20 },
+    { "cancelledBy": "rider", "fromStatus": "en_route", "fee": 50, "driverCompensation": 40 },
+    { "cancelledBy": "rider", "fromStatus": "arrived", "fee": 50, "driverCompensation": 40 },
+    { "cancelledBy": "driver", "fromStatus": "accepted", "fee": 20, "driverCompensation": 0 },
+    { "cancelledBy": "driver", "fromStatus": "en_route", "fee": 30, "driverCompensation": 0 },
+    { "cancelledBy": "driver", "fromStatus": "arrived", "fee": 30, "driverCompensation": 0 }
+]'::jsonb, 'system:migration'
+WHERE NOT EXISTS (
+    SELECT 1 FROM cancellation_policies WHERE region_id IS NULL AND service_type IS NULL AND is_active
+);
@@ -0,0 +1,89 @@
+-- PostgreSQL Migration 059: SOS Operator Console
+-- Backs the public SOS API: an event log per alert for the console timeline, escalation
+-- tracking on the alert itself, and the emergency_responses tables the coordinated
+-- response automation has been writing to without a schema.
+
+-- =====================================================
+-- Escalation on the alert
+-- =====================================================
+
+ALTER TABLE sos_alerts ADD COLUMN IF NOT EXISTS escalation_level INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE sos_alerts ADD COLUMN IF NOT EXISTS escalated_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX IF NOT EXISTS idx_sos_alerts_open
+    ON sos_alerts(triggered_at DESC)
+    WHERE status IN ('triggered', 'processing', 'dispatched', 'acknowledged', 'responding');
+
+-- =====================================================
+-- Alert events
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS sos_alert_events (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    sos_alert_id UUID NOT NULL REFERENCES sos_alerts(id),
+    event_type VARCHAR(30) NOT NULL CHECK (event_type IN (
+        'triggered', 'dispatched', 'dispatch_failed', 'acknowledged',
+        'escalated', 'attachment_added', 'resolved', 'false_alarm'
+    )),
+    actor VARCHAR(100) NOT NULL,                       -- user id, or 'system'
+    message TEXT,
+    data JSONB NOT NULL DEFAULT '{}',
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_sos_alert_events_alert ON sos_alert_events(sos_alert_id, created_at);
+
+-- =====================================================
+-- Coordinated emergency responses
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS emergency_responses (
+    id VARCHAR(50) PRIMARY KEY,                        -- resp_<timestamp>_<random>
+    response_code VARCHAR(30) NOT NULL UNIQUE,
+    sos_alert_id UUID NOT NULL REFERENCES sos_alerts(id),
+    response_type VARCHAR(30) NOT NULL,
+    priority VARCHAR(10) NOT NULL CHECK (priority IN ('critical', 'high', 'medium', 'low')),
+    severity INTEGER NOT NULL CHECK (severity >= 1 AND severity <= 10),
+
+    triggered_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    location GEOMETRY(POINT, 4326) NOT NULL,
+    address TEXT,
+    region_id VARCHAR(50),                             -- region id, or 'default-region' outside every boundary
+
+    reporter_id VARCHAR(100) NOT NULL,
+    reporter_type VARCHAR(20) NOT NULL,
+    driver_id UUID REFERENCES drivers(id),
+    booking_id UUID REFERENCES bookings(id),
+
+    status VARCHAR(20) NOT NULL,
+    escalation_level INTEGER NOT NULL DEFAULT 0,
+    coordinating_operator VARCHAR(100),
+    emergency_services JSONB NOT NULL DEFAULT '[]',
+    primary_responder JSONB,
+    response_log JSONB NOT NULL DEFAULT '[]',
+
+    acknowledged_at TIMESTAMP WITH TIME ZONE,
+    arrived_at TIMESTAMP WITH TIME ZONE,
+    completed_at TIMESTAMP WITH TIME ZONE,
+    dispatch_time_ms INTEGER,
+    response_time_ms INTEGER,
+    arrival_time_ms INTEGER,
+    resolution_time_ms INTEGER,
+
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_emergency_responses_sos ON emergency_responses(sos_alert_id, triggered_at);
+
+CREATE TABLE IF NOT EXISTS emergency_response_completions (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    response_id VARCHAR(50) NOT NULL REFERENCES emergency_responses(id),
+    outcome_status VARCHAR(20) NOT NULL CHECK (outcome_status IN ('resolved', 'cancelled')),
+    completed_by VARCHAR(100) NOT NULL,
+    outcome_description TEXT,
+    follow_up_required BOOLEAN NOT NULL DEFAULT FALSE,
+    incident_report_number VARCHAR(50),
+    completion_time_ms INTEGER,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
@@ -0,0 +1,80 @@
+-- PostgreSQL Migration 060: Emergency Coordinator Roster
+-- Coordinators who run emergency responses, the shifts they are on duty for and which
+-- responses each one holds. Replaces the two coordinators hardcoded in the response
+-- automation, so every region can staff its own and escalations always find someone.
+
+-- =====================================================
+-- Coordinators
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS emergency_coordinators (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id VARCHAR(100) UNIQUE,                       -- operator account, if the coordinator logs in
+    name VARCHAR(100) NOT NULL,
+    role VARCHAR(30) NOT NULL DEFAULT 'emergency_coordinator'
+        CHECK (role IN ('operator', 'supervisor', 'emergency_coordinator')),
+    contact_number VARCHAR(20) NOT NULL,
+    region_id UUID REFERENCES regions(id),             -- NULL covers every region
+    specializations TEXT[] NOT NULL DEFAULT ARRAY['general'],
+    max_capacity INTEGER NOT NULL DEFAULT 5 CHECK (max_capacity > 0),
+    is_active BOOLEAN NOT NULL DEFAULT TRUE,
+    created_by VARCHAR(100) NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_emergency_coordinators_region ON emergency_coordinators(region_id) WHERE is_active;
+
+-- =====================================================
+-- Shifts
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS emergency_coordinator_shifts (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    coordinator_id UUID NOT NULL REFERENCES emergency_coordinators(id),
+    starts_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    ends_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    status VARCHAR(20) NOT NULL DEFAULT 'scheduled'
+        CHECK (status IN ('scheduled', 'on_duty', 'completed', 'cancelled')),
+    clocked_in_at TIMESTAMP WITH TIME ZONE,
+    clocked_out_at TIMESTAMP WITH TIME ZONE,
+    handover_notes TEXT,
+    created_by VARCHAR(100) NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    CHECK (ends_at > starts_at)
+);
+
+-- A coordinator is on duty for at most one shift at a time
+CREATE UNIQUE INDEX IF NOT EXISTS idx_coordinator_shifts_on_duty
+    ON emergency_coordinator_shifts(coordinator_id) WHERE status = 'on_duty';
+CREATE INDEX IF NOT EXISTS idx_coordinator_shifts_schedule
+    ON emergency_coordinator_shifts(coordinator_id, starts_at);
+CREATE INDEX IF NOT EXISTS idx_coordinator_shifts_overdue
+    ON emergency_coordinator_shifts(ends_at) WHERE status = 'on_duty';
+
+-- =====================================================
+-- Assignments
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS emergency_coordinator_assignments (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    response_id VARCHAR(50) NOT NULL,                  -- emergency_responses.id; the row is written after dispatch
+    sos_alert_id UUID NOT NULL REFERENCES sos_alerts(id),
+    coordinator_id UUID NOT NULL REFERENCES emergency_coordinators(id),
+    -- What the response needed, so a replacement can be found when the coordinator leaves
+    region_id VARCHAR(50),
+    specialization VARCHAR(20) NOT NULL DEFAULT 'general',
+    assigned_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    assigned_by VARCHAR(100) NOT NULL,
+    released_at TIMESTAMP WITH TIME ZONE,
+    release_reason VARCHAR(20) CHECK (release_reason IN ('completed', 'handover', 'off_shift')),
+    handover_notes TEXT,                               -- notes passed on to whoever takes over
+    previous_assignment_id UUID REFERENCES emergency_coordinator_assignments(id)
+);
+
+-- One open assignment per response; open assignments are a coordinator's current load
+CREATE UNIQUE INDEX IF NOT EXISTS idx_coordinator_assignments_open_response
+    ON emergency_coordinator_assignments(response_id) WHERE released_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_coordinator_assignments_open_coordinator
+    ON emergency_coordinator_assignments(coordinator_id) WHERE released_at IS NULL;
@@ -0,0 +1,106 @@
+-- PostgreSQL Migration 061: Incident Case Management
+-- Turns the incidents table into investigated cases: links to bookings, drivers and SOS
+-- alerts, an assignee and investigation stage, SLA deadlines, evidence (including dashcam
+-- footage), statements from involved parties, an outcome code and an audit trail.
+-- Closed cases with driver outcomes feed the driver safety profiles.
+
+-- =====================================================
+-- Incidents
+-- =====================================================
+
+CREATE SEQUENCE IF NOT EXISTS incident_code_seq;
+
+ALTER TABLE incidents
+    ADD COLUMN IF NOT EXISTS sos_alert_id UUID REFERENCES sos_alerts(id),
+    ADD COLUMN IF NOT EXISTS vehicle_id VARCHAR(50),
+    ADD COLUMN IF NOT EXISTS customer_id VARCHAR(100),
+    ADD COLUMN IF NOT EXISTS created_by VARCHAR(100),
+    ADD COLUMN IF NOT EXISTS assigned_to VARCHAR(100),
+    ADD COLUMN IF NOT EXISTS assigned_at TIMESTAMP WITH TIME ZONE,
+    ADD COLUMN IF NOT EXISTS investigation_stage VARCHAR(30) NOT NULL DEFAULT 'not_started'
+        CHECK (investigation_stage IN (
+            'not_started', 'gathering_evidence', 'awaiting_statements', 'under_review', 'decision_pending'
+        )),
+    ADD COLUMN IF NOT EXISTS investigation_started_at TIMESTAMP WITH TIME ZONE,
+    -- SLA deadlines, fixed from the priority when the case is opened
+    ADD COLUMN IF NOT EXISTS sla_response_due_at TIMESTAMP WITH TIME ZONE,
+    ADD COLUMN IF NOT EXISTS sla_investigation_due_at TIMESTAMP WITH TIME ZONE,
+    ADD COLUMN IF NOT EXISTS sla_closure_due_at TIMESTAMP WITH TIME ZONE,
+    -- Closure
+    ADD COLUMN IF NOT EXISTS outcome_code VARCHAR(20)
+        CHECK (outcome_code IN ('no_action', 'unfounded', 'coaching', 'warning', 'suspension', 'deactivation')),
+    ADD COLUMN IF NOT EXISTS suspended_until TIMESTAMP WITH TIME ZONE,
+    ADD COLUMN IF NOT EXISTS closure_checklist JSONB NOT NULL DEFAULT '[]',
+    ADD COLUMN IF NOT EXISTS closed_at TIMESTAMP WITH TIME ZONE,
+    ADD COLUMN IF NOT EXISTS closed_by VARCHAR(100);
+
+CREATE INDEX IF NOT EXISTS idx_incidents_sos_alert ON incidents(sos_alert_id) WHERE sos_alert_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_incidents_booking ON incidents(booking_id) WHERE booking_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_incidents_assignee ON incidents(assigned_to, status) WHERE closed_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_incidents_sla_open ON incidents(sla_closure_due_at) WHERE closed_at IS NULL;
+
+-- Suspensions from closed incidents; lifting them stays a manual driver-ops decision
+ALTER TABLE drivers
+    ADD COLUMN IF NOT EXISTS suspended_until TIMESTAMP WITH TIME ZONE,
+    ADD COLUMN IF NOT EXISTS suspension_incident_id UUID REFERENCES incidents(id);
+
+-- =====================================================
+-- Evidence
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS incident_evidence (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    incident_id UUID NOT NULL REFERENCES incidents(id),
+    evidence_type VARCHAR(20) NOT NULL
+        CHECK (evidence_type IN ('photo', 'video', 'audio', 'document', 'dashcam_footage', 'gps_trace')),
+    url TEXT NOT NULL,
+    filename VARCHAR(255) NOT NULL,
+    size_bytes BIGINT,
+    footage_ref VARCHAR(100),                          -- dashcam clip id
+    captured_at TIMESTAMP WITH TIME ZONE,
+    description TEXT,
+    uploaded_by VARCHAR(100) NOT NULL,
+    uploaded_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    CHECK (evidence_type <> 'dashcam_footage' OR footage_ref IS NOT NULL)
+);
+
+CREATE INDEX IF NOT EXISTS idx_incident_evidence_incident ON incident_evidence(incident_id, uploaded_at);
+
+-- =====================================================
+-- Statements
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS incident_statements (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    incident_id UUID NOT NULL REFERENCES incidents(id),
+    party_type VARCHAR(20) NOT NULL
+        CHECK (party_type IN ('driver', 'passenger', 'customer', 'witness', 'operator', 'third_party')),
+    party_id VARCHAR(100),
+    party_name VARCHAR(100) NOT NULL,
+    statement TEXT NOT NULL,
+    given_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    recorded_by VARCHAR(100) NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_incident_statements_incident ON incident_statements(incident_id, given_at);
+
+-- =====================================================
+-- Audit trail
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS incident_audit_log (
+    id BIGSERIAL PRIMARY KEY,
+    incident_id UUID NOT NULL REFERENCES incidents(id),
+    action VARCHAR(30) NOT NULL
+        CHECK (action IN (
+            'created', 'acknowledged', 'assigned', 'stage_changed', 'escalated',
+            'evidence_added', 'statement_added', 'closed', 'driver_status_changed'
+        )),
+    actor VARCHAR(100) NOT NULL,
+    changes JSONB NOT NULL DEFAULT '{}',               -- {field: {from, to}} or the added record
+    note TEXT,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_incident_audit_log_incident ON incident_audit_log(incident_id, created_at);
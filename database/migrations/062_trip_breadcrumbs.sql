@@ -0,0 +1,35 @@
+-- PostgreSQL Migration 062: Trip GPS Breadcrumbs
+-- Keeps every location point a driver sends while on a booking, from assignment to dropoff.
+-- driver_locations only holds the latest positions for 24 hours; this table stores the full
+-- path compactly, one segment per booking and minute: an encoded polyline plus per-point time
+-- offsets and speeds. Used for trip replay in fare disputes and safety investigations, and as
+-- the source for distance-based fare recalculation.
+
+-- =====================================================
+-- Segments
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS trip_location_segments (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    booking_id UUID NOT NULL REFERENCES bookings(id),
+    driver_id UUID NOT NULL REFERENCES drivers(id),
+    trip_phase VARCHAR(10) NOT NULL CHECK (trip_phase IN ('to_pickup', 'on_trip')),
+    minute_start TIMESTAMP WITH TIME ZONE NOT NULL,    -- minute bucket the points fall in
+    started_at TIMESTAMP WITH TIME ZONE NOT NULL,      -- first point
+    ended_at TIMESTAMP WITH TIME ZONE NOT NULL,        -- last point
+    point_count INTEGER NOT NULL CHECK (point_count > 0),
+    polyline TEXT NOT NULL,                            -- Google encoded polyline, 1e-5 precision
+    time_offsets_ms INTEGER[] NOT NULL,                -- per point, milliseconds after started_at
+    speeds_kmh REAL[] NOT NULL,                        -- per point, NULL where the device sent none
+    distance_m NUMERIC(10,1) NOT NULL DEFAULT 0,       -- along the points, including the step from the previous segment
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    CHECK (ended_at >= started_at),
+    CHECK (cardinality(time_offsets_ms) = point_count AND cardinality(speeds_kmh) = point_count)
+);
+
+-- A flush that is retried writes the same segment again; the second write is dropped
+CREATE UNIQUE INDEX IF NOT EXISTS idx_trip_location_segments_booking_start
+    ON trip_location_segments(booking_id, started_at);
+CREATE INDEX IF NOT EXISTS idx_trip_location_segments_driver ON trip_location_segments(driver_id, minute_start);
+CREATE INDEX IF NOT EXISTS idx_trip_location_segments_expiry ON trip_location_segments(expires_at);
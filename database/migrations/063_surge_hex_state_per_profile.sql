@@ -0,0 +1,43 @@
+-- SQLite-compatible rebuild of surge_hex_state so computed rows are unique per source and profile
+-- The surge engine writes live ('ml') and shadow rows for the same hex at the same instant, which
+-- the original UNIQUE (service_key, h3_index, valid_from) rejected. SQLite cannot drop a table
+-- constraint, so the table is copied into a new one.
+
+CREATE TABLE IF NOT EXISTS surge_hex_state_new (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  region_id TEXT NOT NULL,
+  service_key TEXT NOT NULL,
+  h3_index TEXT NOT NULL,                             -- e.g., '8a2a1072b59ffff'
+  h3_res INTEGER NOT NULL,                            -- 6..10 typical
+  multiplier REAL NOT NULL DEFAULT 1.0,
+  additive_fee REAL DEFAULT 0,
+  source TEXT NOT NULL DEFAULT 'ml',
+  profile_id INTEGER REFERENCES surge_profiles(id),
+  valid_from TEXT NOT NULL DEFAULT (datetime('now')),
+  valid_until TEXT,                                   -- optional TTL for overrides
+  computed_at TEXT NOT NULL DEFAULT (datetime('now')),
+
+  CHECK (service_key IN ('tnvs','special','pop','taxi')),
+  CHECK (source IN ('ml','manual','scheduled','shadow')),
+  FOREIGN KEY (region_id) REFERENCES regions(region_id) ON DELETE CASCADE,
+  UNIQUE (service_key, h3_index, source, profile_id, valid_from)
+);
+
+INSERT INTO surge_hex_state_new (
+  id, region_id, service_key, h3_index, h3_res, multiplier, additive_fee,
+  source, profile_id, valid_from, valid_until, computed_at
+)
+SELECT
+  id, region_id, service_key, h3_index, h3_res, multiplier, additive_fee,
+  source, profile_id, valid_from, valid_until, computed_at
+FROM surge_hex_state;
+
+DROP TABLE surge_hex_state;
+ALTER TABLE surge_hex_state_new RENAME TO surge_hex_state;
+
+CREATE INDEX IF NOT EXISTS surge_hex_state_lookup_idx
+  ON surge_hex_state(service_key, h3_index, computed_at DESC);
+
+-- Previous state per profile for smoothing
+CREATE INDEX IF NOT EXISTS surge_hex_state_profile_idx
+  ON surge_hex_state(profile_id, computed_at DESC);
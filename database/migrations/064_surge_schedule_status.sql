@@ -0,0 +1,15 @@
+-- SQLite-compatible approval columns for surge schedules
+-- The schedule routes already write requested_by, status and approval_request_id; surge
+-- lookup applies approved and active schedules inside their window
+
+ALTER TABLE surge_schedules ADD COLUMN requested_by TEXT;                  -- UUID as TEXT in SQLite
+ALTER TABLE surge_schedules ADD COLUMN status TEXT NOT NULL DEFAULT 'pending'
+  CHECK (status IN ('pending','approved','active','rejected','cancelled'));
+ALTER TABLE surge_schedules ADD COLUMN approval_request_id INTEGER
+  REFERENCES pricing_activation_requests(id);
+
+CREATE INDEX IF NOT EXISTS surge_schedules_lookup_idx
+  ON surge_schedules(service_key, status, starts_at, ends_at);
+
+CREATE INDEX IF NOT EXISTS surge_overrides_lookup_idx
+  ON surge_overrides(service_key, status, starts_at, ends_at);
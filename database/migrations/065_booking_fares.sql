@@ -0,0 +1,26 @@
+-- PostgreSQL Migration 065: Booking Fare Breakdowns
+-- The fare engine's itemised result for each completed booking: every line with the
+-- component, cap, surge rule or toll it came from, and the driver/company split. Written
+-- once at completion; invoices show these lines and settlements pay the driver share
+-- recorded here instead of re-deriving it.
+
+CREATE TABLE IF NOT EXISTS booking_fares (
+    booking_id UUID PRIMARY KEY REFERENCES bookings(id),
+    profile_id INTEGER NOT NULL,                       -- pricing_profiles.id
+    engine_version VARCHAR(20) NOT NULL,
+    distance_km NUMERIC(8,2) NOT NULL,
+    duration_min NUMERIC(8,2) NOT NULL,
+    surge_multiplier NUMERIC(4,2) NOT NULL DEFAULT 1.00,
+    -- [{ "key": "per_km", "label": "Distance", "amount": 75, "rule": "component:3", "ruleId": 3, ... }]
+    lines JSONB NOT NULL,
+    cap_hits JSONB NOT NULL DEFAULT '[]',
+    subtotal DECIMAL(10,2) NOT NULL,
+    surge_amount DECIMAL(10,2) NOT NULL DEFAULT 0,
+    tolls_amount DECIMAL(10,2) NOT NULL DEFAULT 0,
+    total DECIMAL(10,2) NOT NULL,
+    driver_earnings DECIMAL(10,2) NOT NULL,
+    company_take DECIMAL(10,2) NOT NULL,
+    priced_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_booking_fares_profile ON booking_fares(profile_id, priced_at);
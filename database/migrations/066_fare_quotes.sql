@@ -0,0 +1,84 @@
+-- PostgreSQL Migration 066: Upfront Fare Quotes
+-- Riders are quoted a fare before they book. A quote locks the pricing profile version,
+-- the surge and the route estimate it was priced with, and its ID is signed and expires.
+-- A booking made with the quote is charged the quoted fare unless the trip strays from
+-- the estimate by more than its region's tolerance, in which case it is repriced with the
+-- same locked pricing from what the trip actually did.
+
+-- =====================================================
+-- Tolerance policies
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS fare_quote_policies (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    region_id VARCHAR(50),                             -- pricing region; NULL applies to every region
+    service_key VARCHAR(20),                           -- pricing service; NULL applies to every service
+    quote_ttl_seconds INTEGER NOT NULL DEFAULT 300 CHECK (quote_ttl_seconds BETWEEN 30 AND 3600),
+    -- Reprice when the driven distance is off the estimate by more than this
+    distance_tolerance_pct NUMERIC(5,2) NOT NULL DEFAULT 20 CHECK (distance_tolerance_pct >= 0),
+    -- Reprice when the trip time is off by more than this; NULL never reprices on time
+    duration_tolerance_pct NUMERIC(5,2) CHECK (duration_tolerance_pct >= 0),
+    -- When false a repriced fare can only come down from the quote
+    allow_increase BOOLEAN NOT NULL DEFAULT TRUE,
+    is_active BOOLEAN NOT NULL DEFAULT TRUE,
+    updated_by VARCHAR(100) NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- One active policy per region and service; NULLs are treated as "any"
+CREATE UNIQUE INDEX IF NOT EXISTS idx_fare_quote_policies_scope
+    ON fare_quote_policies(COALESCE(region_id, '*'), COALESCE(service_key, '*'))
+    WHERE is_active;
+
+INSERT INTO fare_quote_policies (region_id, service_key, updated_by)
+SELECT NULL, NULL, 'system'
+WHERE NOT EXISTS (SELECT 1 FROM fare_quote_policies WHERE region_id IS NULL AND service_key IS NULL);
+
+-- =====================================================
+-- Quotes
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS fare_quotes (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    region_id VARCHAR(50) NOT NULL,
+    service_type VARCHAR(20) NOT NULL,                 -- booking product the quote is for
+    service_key VARCHAR(20) NOT NULL,                  -- pricing service it was priced as
+    customer_id UUID,
+    policy_id UUID REFERENCES fare_quote_policies(id),
+
+    -- Locked at quote time
+    profile_id INTEGER NOT NULL,
+    profile_version VARCHAR(60) NOT NULL,              -- profile id and last update
+    pricing JSONB NOT NULL,                            -- components, split and caps as priced
+    surge_multiplier NUMERIC(4,2) NOT NULL DEFAULT 1.00,
+    surge_additive_fee NUMERIC(10,2) NOT NULL DEFAULT 0,
+    surge_rule VARCHAR(40),
+    route JSONB NOT NULL,                              -- [{ "latitude": .., "longitude": .. }, ...]
+    estimated_distance_km NUMERIC(8,2) NOT NULL,
+    estimated_duration_min NUMERIC(8,2) NOT NULL,
+    is_airport BOOLEAN NOT NULL DEFAULT FALSE,
+    breakdown JSONB NOT NULL,                          -- fare engine lines as quoted
+    total DECIMAL(10,2) NOT NULL,
+
+    status VARCHAR(12) NOT NULL DEFAULT 'issued'
+        CHECK (status IN ('issued', 'booked', 'reconciled')),
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    booking_id UUID UNIQUE REFERENCES bookings(id),
+    booked_at TIMESTAMP WITH TIME ZONE,
+
+    -- Post-trip reconciliation
+    actual_distance_km NUMERIC(8,2),
+    actual_duration_min NUMERIC(8,2),
+    distance_deviation_pct NUMERIC(7,2),
+    duration_deviation_pct NUMERIC(7,2),
+    outcome VARCHAR(10) CHECK (outcome IN ('honoured', 'repriced')),
+    final_fare DECIMAL(10,2),
+    fare_delta DECIMAL(10,2),                          -- final fare less the quote, tolls excluded
+    reconciled_at TIMESTAMP WITH TIME ZONE,
+
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_fare_quotes_report ON fare_quotes(region_id, service_key, created_at);
+CREATE INDEX IF NOT EXISTS idx_fare_quotes_customer ON fare_quotes(customer_id, created_at DESC);
@@ -0,0 +1,8 @@
+-- PostgreSQL Migration 067: Cancellation Charge Posting Claim
+-- A charge moves to 'posting' before any refund is issued for it, so two overlapping posts
+-- of the same charge cannot both refund the rider. updated_at dates the claim so one left
+-- behind by a crashed poster can be taken over.
+
+ALTER TABLE cancellation_charges DROP CONSTRAINT IF EXISTS cancellation_charges_status_check;
+ALTER TABLE cancellation_charges ADD CONSTRAINT cancellation_charges_status_check
+    CHECK (status IN ('pending', 'posting', 'posted', 'waived', 'failed'));
@@ -0,0 +1,10 @@
+-- PostgreSQL Migration 068: Cancellation Charge Waiver Claim
+-- A waived charge refunds the rider before the waiver journal is posted. The charge sits in
+-- 'waiving' while that happens, and waiver_refund_id records the refund so a retry after a
+-- failed journal finishes the waiver without refunding twice.
+
+ALTER TABLE cancellation_charges DROP CONSTRAINT IF EXISTS cancellation_charges_status_check;
+ALTER TABLE cancellation_charges ADD CONSTRAINT cancellation_charges_status_check
+    CHECK (status IN ('pending', 'posting', 'posted', 'waiving', 'waived', 'failed'));
+
+ALTER TABLE cancellation_charges ADD COLUMN IF NOT EXISTS waiver_refund_id UUID REFERENCES payment_refunds(id);
@@ -0,0 +1,8 @@
+-- PostgreSQL Migration 069: One Cancellation Charge per Cancellation
+-- A cancelled booking can restart its search and be cancelled again. Each cancellation is
+-- priced on its own, so a booking may carry several charges; the latest is the current one.
+
+ALTER TABLE cancellation_charges DROP CONSTRAINT IF EXISTS cancellation_charges_booking_id_key;
+
+CREATE INDEX IF NOT EXISTS idx_cancellation_charges_booking
+    ON cancellation_charges(booking_id, cancelled_at DESC);
@@ -155,6 +155,7 @@ function canUserApproveWorkflow(userLevel: number, userRole: string, userPermiss
     'unmask_pii_with_mfa': { minLevel: 50, requiredPermissions: ['approve_requests'] }, // Risk investigator+ or Executive
     'cross_region_override': { minLevel: 60, requiredRoles: ['executive'], requiredPermissions: ['approve_requests'] }, // Executive only
     'approve_payout_batch': { minLevel: 40, requiredPermissions: ['approve_requests'] }, // Regional manager+
+    'approve_bond_refund': { minLevel: 40, requiredPermissions: ['approve_requests'] }, // Regional manager+
     'manage_users': { minLevel: 40, requiredPermissions: ['approve_requests'] }, // Regional manager+
     'assign_roles': { minLevel: 40, requiredPermissions: ['approve_requests'] } // Regional manager+
   };
@@ -192,6 +193,7 @@ function getDefaultPermissionsForWorkflow(workflowAction: string): Permission[]
     'unmask_pii_with_mfa': ['unmask_pii_with_mfa', 'view_audit_logs'],
     'cross_region_override': ['cross_region_override'],
     'approve_payout_batch': ['approve_payout_batch', 'view_financial_reports'],
+    'approve_bond_refund': ['view_financial_reports'],
     'manage_users': ['manage_users', 'view_audit_logs'],
     'assign_roles': ['assign_roles', 'manage_permissions']
   };
@@ -0,0 +1,104 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+
+import { authenticateRequest, UserRole } from '@/lib/auth';
+import {
+  clearAccountDunningOverride,
+  dunningErrorStatus,
+  setAccountDunningOverride
+} from '@/lib/services/dunningService';
+
+// Account managers: the only roles allowed to exempt an account from automatic suspension
+const ACCOUNT_MANAGER_ROLES: UserRole[] = ['regional_manager', 'admin'];
+
+const OverrideSchema = z.object({
+  until: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+  reason: z.string().trim().min(1).max(500),
+});
+
+const forbidden = () => NextResponse.json(
+  { success: false, error: { code: 'FORBIDDEN', message: 'Only account managers can override dunning' } },
+  { status: 403 }
+);
+
+const errorResponse = (error: unknown, fallbackMessage: string) => {
+  const status = dunningErrorStatus(error);
+  if (status) {
+    return NextResponse.json(
+      { success: false, error: { code: (error as Error).message.split(':')[0], message: (error as Error).message } },
+      { status }
+    );
+  }
+  console.error(`${fallbackMessage}:`, error);
+  return NextResponse.json(
+    { success: false, error: { code: 'UPDATE_ERROR', message: fallbackMessage } },
+    { status: 500 }
+  );
+};
+
+// PUT /api/billing/accounts/:id/dunning-override - exempt the account from auto-suspension until a date
+export async function PUT(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authResult = await authenticateRequest(request, ['bookings:write']);
+    if (!authResult.success) {
+      return authResult.response;
+    }
+    if (!ACCOUNT_MANAGER_ROLES.includes(authResult.user.role)) {
+      return forbidden();
+    }
+
+    const parsed = OverrideSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: { code: 'VALIDATION_ERROR', message: 'Invalid request body', details: parsed.error.errors },
+        },
+        { status: 400 }
+      );
+    }
+
+    const { id } = await context.params;
+    const account = await setAccountDunningOverride(id, parsed.data, authResult.user.userId);
+
+    return NextResponse.json({
+      success: true,
+      data: account,
+      message: `Dunning suspension overridden until ${parsed.data.until}`,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    return errorResponse(error, 'Failed to override dunning');
+  }
+}
+
+// DELETE /api/billing/accounts/:id/dunning-override - end the exemption; the next run re-evaluates suspension
+export async function DELETE(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authResult = await authenticateRequest(request, ['bookings:write']);
+    if (!authResult.success) {
+      return authResult.response;
+    }
+    if (!ACCOUNT_MANAGER_ROLES.includes(authResult.user.role)) {
+      return forbidden();
+    }
+
+    const { id } = await context.params;
+    const account = await clearAccountDunningOverride(id, authResult.user.userId);
+
+    return NextResponse.json({
+      success: true,
+      data: account,
+      message: 'Dunning override removed',
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    return errorResponse(error, 'Failed to remove dunning override');
+  }
+}
@@ -1,69 +1,137 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+
+import { authenticateRequest } from '@/lib/auth';
+import { transaction } from '@/lib/db';
+import { getAccount, insertAccount, insertBooker, listAccounts } from '@/lib/repos/corporateAccountsRepo';
+
+const ListQuerySchema = z.object({
+  status: z.string().optional().transform(value => value?.split(',').filter(Boolean))
+    .pipe(z.array(z.enum(['active', 'suspended', 'terminated'])).optional()),
+  search: z.string().max(100).optional(),
+  hasOutstanding: z.enum(['true', 'false']).optional().transform(value => (value ? value === 'true' : undefined)),
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(200).default(20),
+});
+
+const CreateAccountSchema = z.object({
+  companyName: z.string().min(1).max(255),
+  registrationNumber: z.string().max(50).optional(),
+  taxId: z.string().max(20).optional(),
+  contactPerson: z.string().min(1).max(255),
+  contactEmail: z.string().email(),
+  contactPhone: z.string().min(7).max(30),
+  billingAddress: z.object({
+    street: z.string().min(1),
+    barangay: z.string().optional(),
+    city: z.string().min(1),
+    province: z.string().min(1),
+    postalCode: z.string().min(1),
+    country: z.string().default('Philippines'),
+  }),
+  creditLimit: z.number().min(0),
+  paymentTermsId: z.string().uuid().optional(),
+  autoInvoicing: z.boolean().optional(),
+  invoiceFrequency: z.enum(['weekly', 'monthly', 'quarterly']).optional(),
+  authorizedBookers: z.array(z.object({
+    customerId: z.string().uuid(),
+    name: z.string().min(1).max(255),
+    email: z.string().email(),
+    phone: z.string().min(7).max(30),
+    role: z.string().max(100).default('employee'),
+  })).max(500).optional(),
+});
 
 // GET /api/billing/accounts - Get all corporate accounts
 export async function GET(request: NextRequest) {
   try {
-    // TODO: Connect to backend billing module
+    const authResult = await authenticateRequest(request, ['analytics:read']);
+    if (!authResult.success) {
+      return authResult.response;
+    }
+
+    const parsed = ListQuerySchema.safeParse(Object.fromEntries(request.nextUrl.searchParams));
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: { code: 'VALIDATION_ERROR', message: 'Invalid query parameters', details: parsed.error.errors },
+        },
+        { status: 400 }
+      );
+    }
+
+    const filters = parsed.data;
+    const { accounts, total } = await listAccounts(filters);
+    const pages = Math.ceil(total / filters.limit);
+
     return NextResponse.json({
       success: true,
       data: {
-        data: [],
+        data: accounts,
         pagination: {
-          page: 1,
-          limit: 20,
-          total: 0,
-          pages: 0,
-          hasNext: false,
-          hasPrev: false,
+          page: filters.page,
+          limit: filters.limit,
+          total,
+          pages,
+          hasNext: filters.page < pages,
+          hasPrev: filters.page > 1,
         },
       },
       message: 'Accounts retrieved successfully',
       timestamp: new Date().toISOString(),
     });
   } catch (error) {
+    console.error('Error fetching accounts:', error);
     return NextResponse.json(
       {
         success: false,
-        error: {
-          code: 'FETCH_ERROR',
-          message: 'Failed to fetch accounts',
-          details: error,
-        },
+        error: { code: 'FETCH_ERROR', message: 'Failed to fetch accounts' },
       },
       { status: 500 }
     );
   }
 }
 
-// POST /api/billing/accounts - Create new corporate account
+// POST /api/billing/accounts - Create new corporate account with its authorized bookers
 export async function POST(request: NextRequest) {
   try {
-    const body = await request.json();
+    const authResult = await authenticateRequest(request, ['bookings:write']);
+    if (!authResult.success) {
+      return authResult.response;
+    }
 
-    // TODO: Validate request body
-    // TODO: Connect to backend billing module
+    const parsed = CreateAccountSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: { code: 'VALIDATION_ERROR', message: 'Invalid request body', details: parsed.error.errors },
+        },
+        { status: 400 }
+      );
+    }
+
+    const account = await transaction(async (query) => {
+      const id = await insertAccount(parsed.data, authResult.user.userId, query);
+      for (const booker of parsed.data.authorizedBookers ?? []) {
+        await insertBooker(id, booker, query);
+      }
+      return getAccount(id, query);
+    });
 
     return NextResponse.json({
       success: true,
-      data: {
-        id: 'ACC-' + Date.now(),
-        ...body,
-        status: 'active',
-        createdAt: new Date().toISOString(),
-        updatedAt: new Date().toISOString(),
-      },
+      data: account,
       message: 'Account created successfully',
       timestamp: new Date().toISOString(),
-    });
+    }, { status: 201 });
   } catch (error) {
+    console.error('Error creating account:', error);
     return NextResponse.json(
       {
         success: false,
-        error: {
-          code: 'CREATE_ERROR',
-          message: 'Failed to create account',
-          details: error,
-        },
+        error: { code: 'CREATE_ERROR', message: 'Failed to create account' },
       },
       { status: 500 }
     );
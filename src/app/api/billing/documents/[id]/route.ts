@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+
+import { authenticateRequest } from '@/lib/auth';
+import { documentErrorStatus, getDocumentFile } from '@/lib/services/billingDocumentService';
+
+// GET /api/billing/documents/:id - download a stored invoice or official receipt
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authResult = await authenticateRequest(request, ['analytics:read']);
+    if (!authResult.success) {
+      return authResult.response;
+    }
+
+    const { id } = await context.params;
+    if (!z.string().uuid().safeParse(id).success) {
+      return NextResponse.json(
+        { success: false, error: { code: 'NOT_FOUND', message: 'Document not found' } },
+        { status: 404 }
+      );
+    }
+
+    const file = await getDocumentFile(id);
+
+    return new NextResponse(new Uint8Array(file.content), {
+      status: 200,
+      headers: {
+        'Content-Type': file.contentType,
+        'Content-Disposition': `attachment; filename="${file.fileName}"`,
+        'Cache-Control': 'private, no-store',
+      },
+    });
+  } catch (error) {
+    const status = documentErrorStatus(error);
+    if (status) {
+      return NextResponse.json(
+        { success: false, error: { code: (error as Error).message.split(':')[0], message: (error as Error).message } },
+        { status }
+      );
+    }
+    console.error('Error downloading billing document:', error);
+    return NextResponse.json(
+      { success: false, error: { code: 'FETCH_ERROR', message: 'Failed to download document' } },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+
+import { authenticateRequest } from '@/lib/auth';
+import { dunningErrorStatus, runDunning } from '@/lib/services/dunningService';
+
+const DunningRunSchema = z.object({
+  asOf: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+});
+
+// POST /api/billing/dunning/runs - run dunning now instead of waiting for the daily schedule (safe to re-run)
+export async function POST(request: NextRequest) {
+  try {
+    const authResult = await authenticateRequest(request, ['bookings:write']);
+    if (!authResult.success) {
+      return authResult.response;
+    }
+
+    const parsed = DunningRunSchema.safeParse(await request.json().catch(() => ({})));
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: { code: 'VALIDATION_ERROR', message: 'Invalid request body', details: parsed.error.errors },
+        },
+        { status: 400 }
+      );
+    }
+
+    const result = await runDunning(parsed.data, authResult.user.userId);
+
+    return NextResponse.json({
+      success: true,
+      data: result,
+      message: `${result.remindersSent} reminders sent, ${result.accountsSuspended.length} accounts suspended`,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    const status = dunningErrorStatus(error);
+    if (status) {
+      return NextResponse.json(
+        { success: false, error: { code: (error as Error).message.split(':')[0], message: (error as Error).message } },
+        { status }
+      );
+    }
+    console.error('Error running dunning:', error);
+    return NextResponse.json(
+      { success: false, error: { code: 'CREATE_ERROR', message: 'Failed to run dunning' } },
+      { status: 500 }
+    );
+  }
+}
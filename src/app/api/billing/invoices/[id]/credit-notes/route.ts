@@ -0,0 +1,93 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+
+import { authenticateRequest } from '@/lib/auth';
+import { getInvoice, listCreditNotes } from '@/lib/repos/invoicesRepo';
+import { invoicingErrorStatus, issueCreditNote } from '@/lib/services/invoicingService';
+
+const CreditNoteSchema = z.object({
+  amount: z.number().positive(),
+  reason: z.string().min(3).max(2000),
+});
+
+// GET /api/billing/invoices/:id/credit-notes
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authResult = await authenticateRequest(request, ['analytics:read']);
+    if (!authResult.success) {
+      return authResult.response;
+    }
+
+    const { id } = await context.params;
+    const invoice = await getInvoice(id);
+    if (!invoice) {
+      return NextResponse.json(
+        { success: false, error: { code: 'NOT_FOUND', message: 'Invoice not found' } },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: await listCreditNotes(invoice.id),
+      message: 'Credit notes retrieved successfully',
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Error fetching credit notes:', error);
+    return NextResponse.json(
+      { success: false, error: { code: 'FETCH_ERROR', message: 'Failed to fetch credit notes' } },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/billing/invoices/:id/credit-notes - issue a credit note and apply it to the amount due
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authResult = await authenticateRequest(request, ['bookings:write']);
+    if (!authResult.success) {
+      return authResult.response;
+    }
+
+    const parsed = CreditNoteSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: { code: 'VALIDATION_ERROR', message: 'Invalid request body', details: parsed.error.errors },
+        },
+        { status: 400 }
+      );
+    }
+
+    const { id } = await context.params;
+    const result = await issueCreditNote(id, parsed.data, authResult.user.userId);
+
+    return NextResponse.json({
+      success: true,
+      data: result,
+      message: 'Credit note issued successfully',
+      timestamp: new Date().toISOString(),
+    }, { status: 201 });
+  } catch (error) {
+    const status = invoicingErrorStatus(error);
+    if (status) {
+      return NextResponse.json(
+        { success: false, error: { code: (error as Error).message.split(':')[0], message: (error as Error).message } },
+        { status }
+      );
+    }
+    console.error('Error issuing credit note:', error);
+    return NextResponse.json(
+      { success: false, error: { code: 'CREATE_ERROR', message: 'Failed to issue credit note' } },
+      { status: 500 }
+    );
+  }
+}
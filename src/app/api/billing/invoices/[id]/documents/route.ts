@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { authenticateRequest } from '@/lib/auth';
+import { listInvoiceDocuments } from '@/lib/repos/billingDocumentsRepo';
+import { getInvoice } from '@/lib/repos/invoicesRepo';
+
+// GET /api/billing/invoices/:id/documents - stored invoice and official receipt PDFs
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authResult = await authenticateRequest(request, ['analytics:read']);
+    if (!authResult.success) {
+      return authResult.response;
+    }
+
+    const { id } = await context.params;
+    const invoice = await getInvoice(id);
+    if (!invoice) {
+      return NextResponse.json(
+        { success: false, error: { code: 'NOT_FOUND', message: 'Invoice not found' } },
+        { status: 404 }
+      );
+    }
+
+    const documents = await listInvoiceDocuments(invoice.id);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        data: documents,
+        pagination: {
+          page: 1,
+          limit: documents.length,
+          total: documents.length,
+          pages: 1,
+          hasNext: false,
+          hasPrev: false,
+        },
+      },
+      message: 'Documents retrieved successfully',
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Error fetching invoice documents:', error);
+    return NextResponse.json(
+      { success: false, error: { code: 'FETCH_ERROR', message: 'Failed to fetch invoice documents' } },
+      { status: 500 }
+    );
+  }
+}
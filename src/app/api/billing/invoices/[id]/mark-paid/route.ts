@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+
+import { authenticateRequest } from '@/lib/auth';
+import { invoicingErrorStatus, recordInvoicePayment } from '@/lib/services/invoicingService';
+
+const PaymentSchema = z.object({
+  amount: z.number().positive(),
+  paymentDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+  paymentMethod: z.string().min(1).max(30),
+  referenceNumber: z.string().max(100).optional(),
+  notes: z.string().max(2000).optional(),
+});
+
+// POST /api/billing/invoices/:id/mark-paid - record a full or partial customer payment
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authResult = await authenticateRequest(request, ['bookings:write']);
+    if (!authResult.success) {
+      return authResult.response;
+    }
+
+    const parsed = PaymentSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: { code: 'VALIDATION_ERROR', message: 'Invalid request body', details: parsed.error.errors },
+        },
+        { status: 400 }
+      );
+    }
+
+    const { id } = await context.params;
+    const invoice = await recordInvoicePayment(id, parsed.data, authResult.user.userId);
+
+    return NextResponse.json({
+      success: true,
+      data: invoice,
+      message: invoice.status === 'paid' ? 'Invoice paid in full' : 'Partial payment recorded',
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    const status = invoicingErrorStatus(error);
+    if (status) {
+      return NextResponse.json(
+        { success: false, error: { code: (error as Error).message.split(':')[0], message: (error as Error).message } },
+        { status }
+      );
+    }
+    console.error('Error recording invoice payment:', error);
+    return NextResponse.json(
+      { success: false, error: { code: 'UPDATE_ERROR', message: 'Failed to record payment' } },
+      { status: 500 }
+    );
+  }
+}
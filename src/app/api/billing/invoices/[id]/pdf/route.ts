@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { authenticateRequest } from '@/lib/auth';
+import { documentErrorStatus, getInvoicePdf } from '@/lib/services/billingDocumentService';
+
+// GET /api/billing/invoices/:id/pdf - BIR service invoice; drafts render with a DRAFT watermark
+// Pass ?download=true to get an attachment instead of an inline view.
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authResult = await authenticateRequest(request, ['analytics:read']);
+    if (!authResult.success) {
+      return authResult.response;
+    }
+
+    const { id } = await context.params;
+    const file = await getInvoicePdf(id, authResult.user.userId);
+    const disposition = request.nextUrl.searchParams.get('download') === 'true' ? 'attachment' : 'inline';
+
+    return new NextResponse(new Uint8Array(file.content), {
+      status: 200,
+      headers: {
+        'Content-Type': file.contentType,
+        'Content-Disposition': `${disposition}; filename="${file.fileName}"`,
+        'Cache-Control': 'private, no-store',
+      },
+    });
+  } catch (error) {
+    const status = documentErrorStatus(error);
+    if (status) {
+      return NextResponse.json(
+        { success: false, error: { code: (error as Error).message.split(':')[0], message: (error as Error).message } },
+        { status }
+      );
+    }
+    console.error('Error rendering invoice PDF:', error);
+    return NextResponse.json(
+      { success: false, error: { code: 'FETCH_ERROR', message: 'Failed to render invoice PDF' } },
+      { status: 500 }
+    );
+  }
+}
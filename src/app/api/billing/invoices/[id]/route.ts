@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { authenticateRequest } from '@/lib/auth';
+import { listInvoiceNotices } from '@/lib/repos/dunningRepo';
+import { getInvoice, listCreditNotes, listInvoiceActivity, listInvoicePayments } from '@/lib/repos/invoicesRepo';
+import { invoicingErrorStatus, voidInvoice } from '@/lib/services/invoicingService';
+
+// GET /api/billing/invoices/:id - invoice with line items, payments, credit notes, activity and reminders
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authResult = await authenticateRequest(request, ['analytics:read']);
+    if (!authResult.success) {
+      return authResult.response;
+    }
+
+    const { id } = await context.params;
+    const invoice = await getInvoice(id);
+    if (!invoice) {
+      return NextResponse.json(
+        { success: false, error: { code: 'NOT_FOUND', message: 'Invoice not found' } },
+        { status: 404 }
+      );
+    }
+
+    const [payments, creditNotes, activity, reminders] = await Promise.all([
+      listInvoicePayments(invoice.id),
+      listCreditNotes(invoice.id),
+      listInvoiceActivity(invoice.id),
+      listInvoiceNotices(invoice.id),
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      data: { ...invoice, payments, creditNotes, activity, reminders },
+      message: 'Invoice retrieved successfully',
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Error fetching invoice:', error);
+    return NextResponse.json(
+      { success: false, error: { code: 'FETCH_ERROR', message: 'Failed to fetch invoice' } },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/billing/invoices/:id - void an unpaid invoice; its trips become billable again
+export async function DELETE(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authResult = await authenticateRequest(request, ['bookings:write']);
+    if (!authResult.success) {
+      return authResult.response;
+    }
+
+    const { id } = await context.params;
+    const reason = request.nextUrl.searchParams.get('reason') ?? undefined;
+    const invoice = await voidInvoice(id, authResult.user.userId, reason);
+
+    return NextResponse.json({
+      success: true,
+      data: invoice,
+      message: 'Invoice voided successfully',
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    const status = invoicingErrorStatus(error);
+    if (status) {
+      return NextResponse.json(
+        { success: false, error: { code: (error as Error).message.split(':')[0], message: (error as Error).message } },
+        { status }
+      );
+    }
+    console.error('Error voiding invoice:', error);
+    return NextResponse.json(
+      { success: false, error: { code: 'UPDATE_ERROR', message: 'Failed to void invoice' } },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+
+import { authenticateRequest } from '@/lib/auth';
+import { invoicingErrorStatus, sendInvoice } from '@/lib/services/invoicingService';
+
+const SendSchema = z.object({
+  recipients: z.array(z.string().email()).max(20).optional(),
+});
+
+// POST /api/billing/invoices/:id/send - issue a draft (or re-send) to the account's contacts
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authResult = await authenticateRequest(request, ['bookings:write']);
+    if (!authResult.success) {
+      return authResult.response;
+    }
+
+    const parsed = SendSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: { code: 'VALIDATION_ERROR', message: 'Invalid request body', details: parsed.error.errors },
+        },
+        { status: 400 }
+      );
+    }
+
+    const { id } = await context.params;
+    const invoice = await sendInvoice(id, parsed.data.recipients, authResult.user.userId);
+
+    return NextResponse.json({
+      success: true,
+      data: invoice,
+      message: 'Invoice sent successfully',
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    const status = invoicingErrorStatus(error);
+    if (status) {
+      return NextResponse.json(
+        { success: false, error: { code: (error as Error).message.split(':')[0], message: (error as Error).message } },
+        { status }
+      );
+    }
+    console.error('Error sending invoice:', error);
+    return NextResponse.json(
+      { success: false, error: { code: 'UPDATE_ERROR', message: 'Failed to send invoice' } },
+      { status: 500 }
+    );
+  }
+}
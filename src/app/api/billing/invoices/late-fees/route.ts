@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+
+import { authenticateRequest } from '@/lib/auth';
+import { assessLateFees, manilaToday } from '@/lib/services/invoicingService';
+
+const LateFeeSchema = z.object({
+  asOf: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+});
+
+// POST /api/billing/invoices/late-fees - mark overdue invoices and assess late fees as of a date
+export async function POST(request: NextRequest) {
+  try {
+    const authResult = await authenticateRequest(request, ['bookings:write']);
+    if (!authResult.success) {
+      return authResult.response;
+    }
+
+    const parsed = LateFeeSchema.safeParse(await request.json().catch(() => ({})));
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: { code: 'VALIDATION_ERROR', message: 'Invalid request body', details: parsed.error.errors },
+        },
+        { status: 400 }
+      );
+    }
+
+    const result = await assessLateFees(parsed.data.asOf ?? manilaToday(), authResult.user.userId);
+
+    return NextResponse.json({
+      success: true,
+      data: result,
+      message: `${result.lateFeesAssessed} late fees assessed`,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Error assessing late fees:', error);
+    return NextResponse.json(
+      { success: false, error: { code: 'UPDATE_ERROR', message: 'Failed to assess late fees' } },
+      { status: 500 }
+    );
+  }
+}
@@ -1,70 +1,137 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+
+import { authenticateRequest } from '@/lib/auth';
+import { listInvoices } from '@/lib/repos/invoicesRepo';
+import { createManualInvoice, invoicingErrorStatus } from '@/lib/services/invoicingService';
+
+const STATUSES = ['draft', 'sent', 'paid', 'overdue', 'void'] as const;
+const DATE = z.string().regex(/^\d{4}-\d{2}-\d{2}$/);
+
+const ListQuerySchema = z.object({
+  // Comma-separated, as sent by billingApi.invoices.getAll
+  status: z.string().optional().transform(value => value?.split(',').filter(Boolean))
+    .pipe(z.array(z.enum(STATUSES)).optional()),
+  dateFrom: DATE.optional(),
+  dateTo: DATE.optional(),
+  accountId: z.string().uuid().optional(),
+  minAmount: z.coerce.number().optional(),
+  maxAmount: z.coerce.number().optional(),
+  search: z.string().max(100).optional(),
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(200).default(20),
+});
+
+const CreateInvoiceSchema = z.object({
+  corporateAccountId: z.string().uuid(),
+  billingPeriodStart: DATE,
+  billingPeriodEnd: DATE,
+  dueDate: DATE,
+  lineItems: z.array(z.object({
+    description: z.string().min(1).max(500),
+    quantity: z.number().positive(),
+    unitPrice: z.number(),
+    amount: z.number().default(0),          // recomputed from quantity and unit price
+    taxRate: z.number().min(0).max(1).default(0.12),
+    taxAmount: z.number().default(0),       // recomputed from amount and tax rate
+    tripId: z.string().uuid().optional(),
+    category: z.string().max(20).optional(),
+  })).min(1),
+  notes: z.string().max(2000).optional(),
+  templateId: z.string().optional(),
+});
 
 // GET /api/billing/invoices - Get all invoices
 export async function GET(request: NextRequest) {
   try {
-    // TODO: Connect to backend billing module
-    // For now, return mock data structure
+    const authResult = await authenticateRequest(request, ['analytics:read']);
+    if (!authResult.success) {
+      return authResult.response;
+    }
+
+    const parsed = ListQuerySchema.safeParse(Object.fromEntries(request.nextUrl.searchParams));
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: { code: 'VALIDATION_ERROR', message: 'Invalid query parameters', details: parsed.error.errors },
+        },
+        { status: 400 }
+      );
+    }
+
+    const filters = parsed.data;
+    const { invoices, total } = await listInvoices(filters);
+    const pages = Math.ceil(total / filters.limit);
+
     return NextResponse.json({
       success: true,
       data: {
-        data: [],
+        data: invoices,
         pagination: {
-          page: 1,
-          limit: 20,
-          total: 0,
-          pages: 0,
-          hasNext: false,
-          hasPrev: false,
+          page: filters.page,
+          limit: filters.limit,
+          total,
+          pages,
+          hasNext: filters.page < pages,
+          hasPrev: filters.page > 1,
         },
       },
       message: 'Invoices retrieved successfully',
       timestamp: new Date().toISOString(),
     });
   } catch (error) {
+    console.error('Error fetching invoices:', error);
     return NextResponse.json(
       {
         success: false,
-        error: {
-          code: 'FETCH_ERROR',
-          message: 'Failed to fetch invoices',
-          details: error,
-        },
+        error: { code: 'FETCH_ERROR', message: 'Failed to fetch invoices' },
       },
       { status: 500 }
     );
   }
 }
 
-// POST /api/billing/invoices - Create new invoice
+// POST /api/billing/invoices - Create a one-off invoice outside the billing run
 export async function POST(request: NextRequest) {
   try {
-    const body = await request.json();
+    const authResult = await authenticateRequest(request, ['bookings:write']);
+    if (!authResult.success) {
+      return authResult.response;
+    }
+
+    const parsed = CreateInvoiceSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: { code: 'VALIDATION_ERROR', message: 'Invalid request body', details: parsed.error.errors },
+        },
+        { status: 400 }
+      );
+    }
 
-    // TODO: Validate request body
-    // TODO: Connect to backend billing module
+    const invoice = await createManualInvoice(parsed.data, authResult.user.userId);
 
     return NextResponse.json({
       success: true,
-      data: {
-        id: 'INV-' + Date.now(),
-        ...body,
-        status: 'draft',
-        createdAt: new Date().toISOString(),
-        updatedAt: new Date().toISOString(),
-      },
+      data: invoice,
       message: 'Invoice created successfully',
       timestamp: new Date().toISOString(),
-    });
+    }, { status: 201 });
   } catch (error) {
+    const status = invoicingErrorStatus(error);
+    if (status) {
+      return NextResponse.json(
+        { success: false, error: { code: (error as Error).message.split(':')[0], message: (error as Error).message } },
+        { status }
+      );
+    }
+    console.error('Error creating invoice:', error);
     return NextResponse.json(
       {
         success: false,
-        error: {
-          code: 'CREATE_ERROR',
-          message: 'Failed to create invoice',
-          details: error,
-        },
+        error: { code: 'CREATE_ERROR', message: 'Failed to create invoice' },
       },
       { status: 500 }
     );
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { authenticateRequest } from '@/lib/auth';
+import { listPaymentTerms } from '@/lib/repos/corporateAccountsRepo';
+
+// GET /api/billing/payment-terms - ?includeInactive=true lists retired terms too
+export async function GET(request: NextRequest) {
+  try {
+    const authResult = await authenticateRequest(request, ['analytics:read']);
+    if (!authResult.success) {
+      return authResult.response;
+    }
+
+    const terms = await listPaymentTerms(request.nextUrl.searchParams.get('includeInactive') === 'true');
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        data: terms,
+        pagination: {
+          page: 1,
+          limit: terms.length,
+          total: terms.length,
+          pages: 1,
+          hasNext: false,
+          hasPrev: false,
+        },
+      },
+      message: 'Payment terms retrieved successfully',
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Error fetching payment terms:', error);
+    return NextResponse.json(
+      { success: false, error: { code: 'FETCH_ERROR', message: 'Failed to fetch payment terms' } },
+      { status: 500 }
+    );
+  }
+}
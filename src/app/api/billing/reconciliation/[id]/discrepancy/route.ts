@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+
+import { authenticateRequest } from '@/lib/auth';
+import { applyReconciliationAction, reconciliationErrorStatus } from '@/lib/services/reconciliationService';
+
+const DiscrepancySchema = z.object({
+  reason: z.string().min(1).max(200),
+  notes: z.string().max(2000).optional(),
+});
+
+// POST /api/billing/reconciliation/:id/discrepancy - flag a statement line for follow-up
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authResult = await authenticateRequest(request, ['bookings:write']);
+    if (!authResult.success) {
+      return authResult.response;
+    }
+
+    const parsed = DiscrepancySchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: { code: 'VALIDATION_ERROR', message: 'Invalid request body', details: parsed.error.errors },
+        },
+        { status: 400 }
+      );
+    }
+
+    const { id } = await context.params;
+    const item = await applyReconciliationAction(id, { type: 'discrepancy', ...parsed.data }, authResult.user.userId);
+
+    return NextResponse.json({
+      success: true,
+      data: item,
+      message: 'Transaction marked as discrepancy',
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    const status = reconciliationErrorStatus(error);
+    if (status) {
+      return NextResponse.json(
+        { success: false, error: { code: (error as Error).message.split(':')[0], message: (error as Error).message } },
+        { status }
+      );
+    }
+    console.error('Error marking reconciliation discrepancy:', error);
+    return NextResponse.json(
+      { success: false, error: { code: 'UPDATE_ERROR', message: 'Failed to mark discrepancy' } },
+      { status: 500 }
+    );
+  }
+}
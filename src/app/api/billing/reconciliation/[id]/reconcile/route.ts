@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+
+import { authenticateRequest } from '@/lib/auth';
+import { applyReconciliationAction, reconciliationErrorStatus } from '@/lib/services/reconciliationService';
+
+const ReconcileSchema = z.object({
+  invoiceId: z.string().uuid().optional(),
+  notes: z.string().max(2000).optional(),
+});
+
+// POST /api/billing/reconciliation/:id/reconcile - accept a statement line as reconciled
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authResult = await authenticateRequest(request, ['bookings:write']);
+    if (!authResult.success) {
+      return authResult.response;
+    }
+
+    const parsed = ReconcileSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: { code: 'VALIDATION_ERROR', message: 'Invalid request body', details: parsed.error.errors },
+        },
+        { status: 400 }
+      );
+    }
+
+    const { id } = await context.params;
+    const item = await applyReconciliationAction(id, { type: 'reconcile', ...parsed.data }, authResult.user.userId);
+
+    return NextResponse.json({
+      success: true,
+      data: item,
+      message: 'Transaction reconciled successfully',
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    const status = reconciliationErrorStatus(error);
+    if (status) {
+      return NextResponse.json(
+        { success: false, error: { code: (error as Error).message.split(':')[0], message: (error as Error).message } },
+        { status }
+      );
+    }
+    console.error('Error reconciling transaction:', error);
+    return NextResponse.json(
+      { success: false, error: { code: 'UPDATE_ERROR', message: 'Failed to reconcile transaction' } },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { authenticateRequest } from '@/lib/auth';
+import { getReconciliationStats } from '@/lib/repos/reconciliationRepo';
+
+// GET /api/billing/reconciliation/stats
+export async function GET(request: NextRequest) {
+  try {
+    const authResult = await authenticateRequest(request, ['analytics:read']);
+    if (!authResult.success) {
+      return authResult.response;
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: await getReconciliationStats(),
+      message: 'Reconciliation statistics retrieved successfully',
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Error fetching reconciliation stats:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: { code: 'FETCH_ERROR', message: 'Failed to fetch reconciliation statistics' },
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+
+import { authenticateRequest } from '@/lib/auth';
+import { listItems } from '@/lib/repos/reconciliationRepo';
+
+const STATUSES = ['pending', 'reconciled', 'discrepancy', 'disputed'] as const;
+
+const ListQuerySchema = z.object({
+  dateFrom: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+  dateTo: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+  accountId: z.string().optional(),
+  // Comma-separated, as sent by billingApi.reconciliation.getUnreconciled
+  status: z.string().optional().transform(value => value?.split(',').filter(Boolean))
+    .pipe(z.array(z.enum(STATUSES)).optional()),
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(200).default(20),
+});
+
+// GET /api/billing/reconciliation/unreconciled - statement lines still needing attention
+export async function GET(request: NextRequest) {
+  try {
+    const authResult = await authenticateRequest(request, ['analytics:read']);
+    if (!authResult.success) {
+      return authResult.response;
+    }
+
+    const parsed = ListQuerySchema.safeParse(Object.fromEntries(request.nextUrl.searchParams));
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: { code: 'VALIDATION_ERROR', message: 'Invalid query parameters', details: parsed.error.errors },
+        },
+        { status: 400 }
+      );
+    }
+
+    const { status, ...filters } = parsed.data;
+    const { items, total } = await listItems({
+      ...filters,
+      status: status?.length ? status : ['pending', 'discrepancy', 'disputed'],
+    });
+    const pages = Math.ceil(total / filters.limit);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        data: items,
+        pagination: {
+          page: filters.page,
+          limit: filters.limit,
+          total,
+          pages,
+          hasNext: filters.page < pages,
+          hasPrev: filters.page > 1,
+        },
+      },
+      message: 'Unreconciled transactions retrieved successfully',
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Error fetching unreconciled transactions:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: { code: 'FETCH_ERROR', message: 'Failed to fetch unreconciled transactions' },
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+
+import { authenticateRequest } from '@/lib/auth';
+import { invoicingErrorStatus, runBilling } from '@/lib/services/invoicingService';
+
+const DATE = z.string().regex(/^\d{4}-\d{2}-\d{2}$/);
+
+const BillingRunSchema = z.object({
+  periodStart: DATE,
+  periodEnd: DATE,
+  issueDate: DATE.optional(),
+  accountIds: z.array(z.string().uuid()).max(500).optional(),
+  frequency: z.enum(['weekly', 'monthly', 'quarterly']).optional(),
+});
+
+// POST /api/billing/runs - invoice corporate accounts for a billing period (safe to re-run)
+export async function POST(request: NextRequest) {
+  try {
+    const authResult = await authenticateRequest(request, ['bookings:write']);
+    if (!authResult.success) {
+      return authResult.response;
+    }
+
+    const parsed = BillingRunSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: { code: 'VALIDATION_ERROR', message: 'Invalid request body', details: parsed.error.errors },
+        },
+        { status: 400 }
+      );
+    }
+
+    const result = await runBilling(parsed.data, authResult.user.userId);
+
+    return NextResponse.json({
+      success: true,
+      data: result,
+      message: `${result.invoicesCreated} invoices created, ${result.accountsSkipped} accounts skipped`,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    const status = invoicingErrorStatus(error);
+    if (status) {
+      return NextResponse.json(
+        { success: false, error: { code: (error as Error).message.split(':')[0], message: (error as Error).message } },
+        { status }
+      );
+    }
+    console.error('Error running billing:', error);
+    return NextResponse.json(
+      { success: false, error: { code: 'CREATE_ERROR', message: 'Failed to run billing' } },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,125 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+
+import { authenticateRequest } from '@/lib/auth';
+import { getAccount, insertSubscription, listSubscriptions } from '@/lib/repos/corporateAccountsRepo';
+
+const DATE = z.string().regex(/^\d{4}-\d{2}-\d{2}$/);
+
+const ListQuerySchema = z.object({
+  accountId: z.string().uuid().optional(),
+  status: z.string().optional().transform(value => value?.split(',').filter(Boolean))
+    .pipe(z.array(z.enum(['active', 'paused', 'cancelled', 'expired'])).optional()),
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(200).default(20),
+});
+
+const CreateSubscriptionSchema = z.object({
+  corporateAccountId: z.string().uuid(),
+  planType: z.enum(['monthly', 'quarterly', 'annual']),
+  planName: z.string().min(1).max(100),
+  startDate: DATE,
+  endDate: DATE.optional(),
+  pricePerRide: z.number().min(0),
+  monthlyMinimum: z.number().min(0).optional(),
+  includedRides: z.number().int().min(0).optional(),
+  baseFee: z.number().min(0).optional(),
+  discountPercentage: z.number().min(0).max(100).optional(),
+  volumeDiscountTiers: z.array(z.object({
+    ridesFrom: z.number().int().min(0),
+    ridesTo: z.number().int().min(0),
+    discountPercentage: z.number().min(0).max(100),
+  }).refine(tier => tier.ridesTo >= tier.ridesFrom, { message: 'ridesTo must not be below ridesFrom' })).optional(),
+  autoRenew: z.boolean(),
+});
+
+// GET /api/billing/subscriptions
+export async function GET(request: NextRequest) {
+  try {
+    const authResult = await authenticateRequest(request, ['analytics:read']);
+    if (!authResult.success) {
+      return authResult.response;
+    }
+
+    const parsed = ListQuerySchema.safeParse(Object.fromEntries(request.nextUrl.searchParams));
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: { code: 'VALIDATION_ERROR', message: 'Invalid query parameters', details: parsed.error.errors },
+        },
+        { status: 400 }
+      );
+    }
+
+    const filters = parsed.data;
+    const { subscriptions, total } = await listSubscriptions(filters);
+    const pages = Math.ceil(total / filters.limit);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        data: subscriptions,
+        pagination: {
+          page: filters.page,
+          limit: filters.limit,
+          total,
+          pages,
+          hasNext: filters.page < pages,
+          hasPrev: filters.page > 1,
+        },
+      },
+      message: 'Subscriptions retrieved successfully',
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('Error fetching subscriptions:', error);
+    return NextResponse.json(
+      { success: false, error: { code: 'FETCH_ERROR', message: 'Failed to fetch subscriptions' } },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/billing/subscriptions - attach a pricing plan to a corporate account
+export async function POST(request: NextRequest) {
+  try {
+    const authResult = await authenticateRequest(request, ['bookings:write']);
+    if (!authResult.success) {
+      return authResult.response;
+    }
+
+    const parsed = CreateSubscriptionSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: { code: 'VALIDATION_ERROR', message: 'Invalid request body', details: parsed.error.errors },
+        },
+        { status: 400 }
+      );
+    }
+
+    if (!(await getAccount(parsed.data.corporateAccountId))) {
+      return NextResponse.json(
+        { success: false, error: { code: 'NOT_FOUND', message: 'Corporate account not found' } },
+        { status: 404 }
+      );
+    }
+
+    const subscription = await insertSubscription(parsed.data);
+
+    return NextResponse.json({
+      success: true,
+      data: subscription,
+      message: 'Subscription created successfully',
+      timestamp: new Date().toISOString(),
+    }, { status: 201 });
+  } catch (error) {
+    console.error('Error creating subscription:', error);
+    return NextResponse.json(
+      { success: false, error: { code: 'CREATE_ERROR', message: 'Failed to create subscription' } },
+      { status: 500 }
+    );
+  }
+}
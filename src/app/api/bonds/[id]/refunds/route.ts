@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+
+import { authenticateRequest } from '@/lib/auth';
+import { bondErrorStatus, requestBondRefund } from '@/lib/services/bondService';
+
+const RefundRequestSchema = z.object({
+  justification: z.string().min(10).max(1000),
+});
+
+// POST /api/bonds/:id/refunds - request the held bond back; released once approve_bond_refund is approved
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authResult = await authenticateRequest(request, ['drivers:write']);
+    if (!authResult.success) {
+      return authResult.response;
+    }
+
+    const { id } = await context.params;
+    const parsed = RefundRequestSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid request body', details: parsed.error.errors },
+        { status: 400 }
+      );
+    }
+
+    const refund = await requestBondRefund(id, authResult.user.userId, parsed.data.justification);
+    return NextResponse.json(refund, { status: 201 });
+  } catch (error) {
+    const status = bondErrorStatus(error);
+    if (status) {
+      return NextResponse.json({ error: (error as Error).message }, { status });
+    }
+    console.error('Error requesting bond refund:', error);
+    return NextResponse.json(
+      { error: 'Failed to request bond refund' },
+      { status: 500 }
+    );
+  }
+}
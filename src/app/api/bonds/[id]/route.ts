@@ -0,0 +1,97 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+
+import { authenticateRequest } from '@/lib/auth';
+import {
+  bondErrorStatus,
+  forfeitBond,
+  getBondDetail,
+  recordBondDeposit
+} from '@/lib/services/bondService';
+import { BOND_FORFEIT_REASONS, BondForfeitReason } from '@/types/bond';
+
+const FORFEIT_REASONS = Object.keys(BOND_FORFEIT_REASONS) as [BondForfeitReason, ...BondForfeitReason[]];
+
+const ActionSchema = z.discriminatedUnion('action', [
+  z.object({
+    action: z.literal('deposit'),
+    amount: z.number().positive(),
+    paymentReference: z.string().max(100).optional(),
+  }),
+  z.object({
+    action: z.literal('forfeit'),
+    amount: z.number().positive(),
+    reasonCode: z.enum(FORFEIT_REASONS),
+    incidentId: z.string().min(1).max(50).optional(),
+    note: z.string().min(1).max(1000),
+  }),
+]);
+
+// GET /api/bonds/:id - bond with its movements, refund requests and ledger balance
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authResult = await authenticateRequest(request, ['drivers:read']);
+    if (!authResult.success) {
+      return authResult.response;
+    }
+
+    const { id } = await context.params;
+    const bond = await getBondDetail(id);
+
+    const { user } = authResult;
+    if (!bond || (user.userType === 'driver' && bond.driverId !== user.userId)) {
+      return NextResponse.json({ error: 'Bond not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(bond);
+  } catch (error) {
+    console.error('Error fetching bond:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch bond' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/bonds/:id - record a deposit or forfeit part of the held bond
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authResult = await authenticateRequest(request, ['drivers:write']);
+    if (!authResult.success) {
+      return authResult.response;
+    }
+
+    const { id } = await context.params;
+    const parsed = ActionSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid request body', details: parsed.error.errors },
+        { status: 400 }
+      );
+    }
+
+    const userId = authResult.user.userId;
+    const body = parsed.data;
+    const bond = body.action === 'deposit'
+      ? await recordBondDeposit(id, body, userId)
+      : await forfeitBond(id, body, userId);
+
+    return NextResponse.json(bond);
+  } catch (error) {
+    const status = bondErrorStatus(error);
+    if (status) {
+      return NextResponse.json({ error: (error as Error).message }, { status });
+    }
+    console.error('Error updating bond:', error);
+    return NextResponse.json(
+      { error: 'Failed to update bond' },
+      { status: 500 }
+    );
+  }
+}
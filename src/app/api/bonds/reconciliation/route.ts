@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { authenticateRequest } from '@/lib/auth';
+import { reconcileBonds } from '@/lib/services/bondService';
+
+// GET /api/bonds/reconciliation - bond records against Driver Bonds Held (2200), per driver
+export async function GET(request: NextRequest) {
+  try {
+    const authResult = await authenticateRequest(request, ['drivers:write']);
+    if (!authResult.success) {
+      return authResult.response;
+    }
+
+    return NextResponse.json(await reconcileBonds());
+  } catch (error) {
+    console.error('Error reconciling bonds:', error);
+    return NextResponse.json(
+      { error: 'Failed to reconcile bonds' },
+      { status: 500 }
+    );
+  }
+}
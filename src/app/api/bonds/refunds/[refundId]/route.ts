@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+
+import { authenticateRequest } from '@/lib/auth';
+import {
+  bondErrorStatus,
+  cancelBondRefund,
+  rejectBondRefund,
+  releaseBondRefund
+} from '@/lib/services/bondService';
+
+const ActionSchema = z.discriminatedUnion('action', [
+  z.object({ action: z.literal('release') }),
+  z.object({ action: z.literal('reject'), note: z.string().min(1).max(1000) }),
+  z.object({ action: z.literal('cancel'), note: z.string().max(1000).optional() }),
+]);
+
+// POST /api/bonds/refunds/:refundId - release an approved refund, or reject or cancel a pending one
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ refundId: string }> }
+) {
+  try {
+    const authResult = await authenticateRequest(request, ['drivers:write']);
+    if (!authResult.success) {
+      return authResult.response;
+    }
+
+    const { refundId } = await context.params;
+    const parsed = ActionSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid request body', details: parsed.error.errors },
+        { status: 400 }
+      );
+    }
+
+    const userId = authResult.user.userId;
+    const body = parsed.data;
+    const refund = body.action === 'release'
+      ? await releaseBondRefund(refundId, userId)
+      : body.action === 'reject'
+        ? await rejectBondRefund(refundId, userId, body.note)
+        : await cancelBondRefund(refundId, userId, body.note);
+
+    return NextResponse.json(refund);
+  } catch (error) {
+    const status = bondErrorStatus(error);
+    if (status) {
+      return NextResponse.json({ error: (error as Error).message }, { status });
+    }
+    console.error('Error updating bond refund:', error);
+    return NextResponse.json(
+      { error: 'Failed to update bond refund' },
+      { status: 500 }
+    );
+  }
+}
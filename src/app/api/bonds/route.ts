@@ -0,0 +1,95 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+
+import { authenticateRequest } from '@/lib/auth';
+import { listBonds } from '@/lib/repos/bondsRepo';
+import { bondErrorStatus, createBond } from '@/lib/services/bondService';
+
+const ListQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(10),
+  driverId: z.string().uuid().optional(),
+  status: z.enum(['collecting', 'active', 'released', 'forfeited']).optional(),
+});
+
+const CreateBondSchema = z.object({
+  driverId: z.string().uuid(),
+  requiredAmount: z.number().positive(),
+  collectionMethod: z.enum(['lump_sum', 'installments']),
+  installmentAmount: z.number().positive().optional(),
+  notes: z.string().max(1000).optional(),
+});
+
+// GET /api/bonds
+export async function GET(request: NextRequest) {
+  try {
+    const authResult = await authenticateRequest(request, ['drivers:read']);
+    if (!authResult.success) {
+      return authResult.response;
+    }
+
+    const parsed = ListQuerySchema.safeParse(Object.fromEntries(request.nextUrl.searchParams));
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid query parameters', details: parsed.error.errors },
+        { status: 400 }
+      );
+    }
+
+    // Drivers only ever see their own bonds
+    const { user } = authResult;
+    const filters = {
+      ...parsed.data,
+      driverId: user.userType === 'driver' ? user.userId : parsed.data.driverId,
+    };
+
+    const { bonds, total } = await listBonds(filters);
+
+    return NextResponse.json({
+      data: bonds,
+      pagination: {
+        page: filters.page,
+        limit: filters.limit,
+        total,
+        totalPages: Math.ceil(total / filters.limit),
+      },
+    });
+  } catch (error) {
+    console.error('Error fetching bonds:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch bonds' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/bonds - open a bond, collected as a lump sum or through settlement deductions
+export async function POST(request: NextRequest) {
+  try {
+    const authResult = await authenticateRequest(request, ['drivers:write']);
+    if (!authResult.success) {
+      return authResult.response;
+    }
+
+    const parsed = CreateBondSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid request body', details: parsed.error.errors },
+        { status: 400 }
+      );
+    }
+
+    const bond = await createBond(parsed.data, authResult.user.userId);
+    return NextResponse.json(bond, { status: 201 });
+  } catch (error) {
+    const status = bondErrorStatus(error);
+    if (status) {
+      return NextResponse.json({ error: (error as Error).message }, { status });
+    }
+    console.error('Error creating bond:', error);
+    return NextResponse.json(
+      { error: 'Failed to create bond' },
+      { status: 500 }
+    );
+  }
+}
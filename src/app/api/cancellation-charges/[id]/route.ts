@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+
+import { authenticateRequest } from '@/lib/auth';
+import { getCharge } from '@/lib/repos/cancellationsRepo';
+import {
+  cancellationErrorStatus,
+  postCancellationCharge,
+  waiveCancellationCharge
+} from '@/lib/services/cancellationService';
+
+const ActionSchema = z.discriminatedUnion('action', [
+  z.object({ action: z.literal('retry') }),
+  z.object({ action: z.literal('waive'), reason: z.string().min(1).max(100) }),
+]);
+
+const errorResponse = (error: unknown, fallback: string) => {
+  const status = cancellationErrorStatus(error);
+  if (status) {
+    return NextResponse.json({ error: (error as Error).message }, { status });
+  }
+  console.error(`${fallback}:`, error);
+  return NextResponse.json({ error: fallback }, { status: 500 });
+};
+
+// GET /api/cancellation-charges/:id - by id or CXL- reference
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authResult = await authenticateRequest(request, ['bookings:read']);
+    if (!authResult.success) {
+      return authResult.response;
+    }
+
+    const { id } = await context.params;
+    const charge = await getCharge(id);
+    if (!charge) {
+      return NextResponse.json({ error: 'charge_not_found' }, { status: 404 });
+    }
+    return NextResponse.json(charge);
+  } catch (error) {
+    return errorResponse(error, 'Failed to fetch cancellation charge');
+  }
+}
+
+// POST /api/cancellation-charges/:id - retry a failed posting, or waive the fee
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authResult = await authenticateRequest(request, ['bookings:cancel']);
+    if (!authResult.success) {
+      return authResult.response;
+    }
+
+    const { id } = await context.params;
+    const parsed = ActionSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid request body', details: parsed.error.errors },
+        { status: 400 }
+      );
+    }
+
+    const userId = authResult.user.userId;
+    const body = parsed.data;
+    const charge = body.action === 'retry'
+      ? await postCancellationCharge(id, userId)
+      : await waiveCancellationCharge(id, body.reason, userId);
+
+    return NextResponse.json(charge);
+  } catch (error) {
+    return errorResponse(error, 'Failed to update cancellation charge');
+  }
+}
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+
+import { authenticateRequest } from '@/lib/auth';
+import { listCharges } from '@/lib/repos/cancellationsRepo';
+
+const ListQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  status: z.enum(['pending', 'posting', 'posted', 'waiving', 'waived', 'failed']).optional(),
+  outcome: z.enum(['free', 'grace', 'driver_late', 'fee', 'driver_penalty', 'no_show', 'waived']).optional(),
+  regionId: z.string().uuid().optional(),
+  customerId: z.string().uuid().optional(),
+  driverId: z.string().uuid().optional(),
+});
+
+// GET /api/cancellation-charges
+export async function GET(request: NextRequest) {
+  try {
+    const authResult = await authenticateRequest(request, ['bookings:read']);
+    if (!authResult.success) {
+      return authResult.response;
+    }
+
+    const parsed = ListQuerySchema.safeParse(Object.fromEntries(request.nextUrl.searchParams));
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid query parameters', details: parsed.error.errors },
+        { status: 400 }
+      );
+    }
+
+    const filters = parsed.data;
+    const { charges, total } = await listCharges(filters);
+
+    return NextResponse.json({
+      data: charges,
+      pagination: {
+        page: filters.page,
+        limit: filters.limit,
+        total,
+        totalPages: Math.ceil(total / filters.limit),
+      },
+    });
+  } catch (error) {
+    console.error('Error fetching cancellation charges:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch cancellation charges' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+
+import { authenticateRequest } from '@/lib/auth';
+import { cancellationErrorStatus, getPolicyDetail, updatePolicy } from '@/lib/services/cancellationService';
+import { CANCELLABLE_STATUSES } from '@/types/cancellation';
+
+const FeeRuleSchema = z.object({
+  cancelledBy: z.enum(['rider', 'driver']),
+  fromStatus: z.enum(CANCELLABLE_STATUSES),
+  fee: z.number().min(0),
+  driverCompensation: z.number().min(0).default(0),
+});
+
+// Region and service are fixed; a different scope gets its own policy
+const UpdatePolicySchema = z.object({
+  name: z.string().min(1).max(100).optional(),
+  riderGraceSeconds: z.number().int().min(0).max(3600).optional(),
+  driverLateGraceMinutes: z.number().int().min(0).max(120).optional(),
+  noShowWaitMinutes: z.number().int().min(0).max(60).optional(),
+  noShowFee: z.number().min(0).optional(),
+  noShowDriverCompensation: z.number().min(0).optional(),
+  feeRules: z.array(FeeRuleSchema).max(20).optional(),
+  isActive: z.boolean().optional(),
+}).strict();
+
+const errorResponse = (error: unknown, fallback: string) => {
+  const status = cancellationErrorStatus(error);
+  if (status) {
+    return NextResponse.json({ error: (error as Error).message }, { status });
+  }
+  console.error(`${fallback}:`, error);
+  return NextResponse.json({ error: fallback }, { status: 500 });
+};
+
+// GET /api/cancellation-policies/:id
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authResult = await authenticateRequest(request, ['analytics:read']);
+    if (!authResult.success) {
+      return authResult.response;
+    }
+
+    const { id } = await context.params;
+    return NextResponse.json(await getPolicyDetail(id));
+  } catch (error) {
+    return errorResponse(error, 'Failed to fetch cancellation policy');
+  }
+}
+
+// PATCH /api/cancellation-policies/:id - edit fees and timers, or retire the policy with isActive
+export async function PATCH(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authResult = await authenticateRequest(request, ['regions:manage']);
+    if (!authResult.success) {
+      return authResult.response;
+    }
+
+    const { id } = await context.params;
+    const parsed = UpdatePolicySchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid request body', details: parsed.error.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(await updatePolicy(id, parsed.data, authResult.user.userId));
+  } catch (error) {
+    return errorResponse(error, 'Failed to update cancellation policy');
+  }
+}
@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+
+import { authenticateRequest } from '@/lib/auth';
+import { listPolicies } from '@/lib/repos/cancellationsRepo';
+import { cancellationErrorStatus, createPolicy } from '@/lib/services/cancellationService';
+import { CANCELLABLE_STATUSES } from '@/types/cancellation';
+
+const ListQuerySchema = z.object({
+  regionId: z.string().uuid().optional(),
+  serviceType: z.string().max(30).optional(),
+  isActive: z.enum(['true', 'false']).transform(value => value === 'true').optional(),
+});
+
+const FeeRuleSchema = z.object({
+  cancelledBy: z.enum(['rider', 'driver']),
+  fromStatus: z.enum(CANCELLABLE_STATUSES),
+  fee: z.number().min(0),
+  driverCompensation: z.number().min(0).default(0),
+});
+
+const CreatePolicySchema = z.object({
+  name: z.string().min(1).max(100),
+  regionId: z.string().uuid().nullable().optional(),
+  serviceType: z.string().max(30).nullable().optional(),
+  riderGraceSeconds: z.number().int().min(0).max(3600).optional(),
+  driverLateGraceMinutes: z.number().int().min(0).max(120).optional(),
+  noShowWaitMinutes: z.number().int().min(0).max(60).optional(),
+  noShowFee: z.number().min(0).optional(),
+  noShowDriverCompensation: z.number().min(0).optional(),
+  feeRules: z.array(FeeRuleSchema).max(20).optional(),
+});
+
+// GET /api/cancellation-policies
+export async function GET(request: NextRequest) {
+  try {
+    const authResult = await authenticateRequest(request, ['analytics:read']);
+    if (!authResult.success) {
+      return authResult.response;
+    }
+
+    const parsed = ListQuerySchema.safeParse(Object.fromEntries(request.nextUrl.searchParams));
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid query parameters', details: parsed.error.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({ data: await listPolicies(parsed.data) });
+  } catch (error) {
+    console.error('Error fetching cancellation policies:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch cancellation policies' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/cancellation-policies - add a policy for a region, a service, or both
+export async function POST(request: NextRequest) {
+  try {
+    const authResult = await authenticateRequest(request, ['regions:manage']);
+    if (!authResult.success) {
+      return authResult.response;
+    }
+
+    const parsed = CreatePolicySchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid request body', details: parsed.error.errors },
+        { status: 400 }
+      );
+    }
+
+    const policy = await createPolicy(parsed.data, authResult.user.userId);
+    return NextResponse.json(policy, { status: 201 });
+  } catch (error) {
+    const status = cancellationErrorStatus(error);
+    if (status) {
+      return NextResponse.json({ error: (error as Error).message }, { status });
+    }
+    console.error('Error creating cancellation policy:', error);
+    return NextResponse.json(
+      { error: 'Failed to create cancellation policy' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,4 +1,19 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+
+import { authenticateRequest } from '@/lib/auth';
+import { getLine } from '@/lib/repos/payoutsRepo';
+import { openPayoutDispute, payoutErrorStatus, resolvePayoutDispute } from '@/lib/services/payoutService';
+
+const CreateDisputeSchema = z.object({
+  reason: z.string().min(1).max(100),
+  details: z.string().max(2000).optional(),
+});
+
+const ResolveDisputeSchema = z.object({
+  outcome: z.enum(['reverse', 'reject']),
+  note: z.string().min(1).max(2000),
+});
 
 // POST /api/earnings/payouts/:id/dispute
 export async function POST(
@@ -6,29 +21,36 @@ export async function POST(
   context: { params: Promise<{ id: string }> }
 ) {
   try {
+    const authResult = await authenticateRequest(request, ['drivers:read']);
+    if (!authResult.success) {
+      return authResult.response;
+    }
+
     const { id } = await context.params;
-    const body = await request.json();
-
-    // TODO: Integrate with backend Dispute module API
-    // TODO: Add authentication and authorization
-    // TODO: Validate request body
-    // TODO: Create dispute record
-    // TODO: Send notification to operations team
-
-    const mockDispute = {
-      id: 'DISP-001',
-      disputedEntityType: 'payout',
-      disputedEntityId: id,
-      disputedAmount: 18450,
-      reason: body.reason,
-      details: body.details,
-      status: 'pending',
-      raisedBy: 'DRV-123',
-      raisedAt: new Date().toISOString(),
-    };
-
-    return NextResponse.json(mockDispute, { status: 201 });
+    const parsed = CreateDisputeSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid request body', details: parsed.error.errors },
+        { status: 400 }
+      );
+    }
+
+    const { user } = authResult;
+    if (user.userType === 'driver') {
+      const line = await getLine(id);
+      if (!line || line.driverId !== user.userId) {
+        return NextResponse.json({ error: 'Payout not found' }, { status: 404 });
+      }
+    }
+
+    const dispute = await openPayoutDispute(id, parsed.data, user.userId);
+
+    return NextResponse.json(dispute, { status: 201 });
   } catch (error) {
+    const status = payoutErrorStatus(error);
+    if (status) {
+      return NextResponse.json({ error: (error as Error).message }, { status });
+    }
     console.error('Error creating payout dispute:', error);
     return NextResponse.json(
       { error: 'Failed to create payout dispute' },
@@ -36,3 +58,39 @@ export async function POST(
     );
   }
 }
+
+// PATCH /api/earnings/payouts/:id/dispute - reverse the payout or reject the dispute
+export async function PATCH(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authResult = await authenticateRequest(request, ['drivers:write']);
+    if (!authResult.success) {
+      return authResult.response;
+    }
+
+    const { id } = await context.params;
+    const parsed = ResolveDisputeSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid request body', details: parsed.error.errors },
+        { status: 400 }
+      );
+    }
+
+    const dispute = await resolvePayoutDispute(id, parsed.data, authResult.user.userId);
+
+    return NextResponse.json(dispute);
+  } catch (error) {
+    const status = payoutErrorStatus(error);
+    if (status) {
+      return NextResponse.json({ error: (error as Error).message }, { status });
+    }
+    console.error('Error resolving payout dispute:', error);
+    return NextResponse.json(
+      { error: 'Failed to resolve payout dispute' },
+      { status: 500 }
+    );
+  }
+}
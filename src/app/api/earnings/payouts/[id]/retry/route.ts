@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { authenticateRequest } from '@/lib/auth';
+import { payoutErrorStatus, retryLine, toDriverPayout } from '@/lib/services/payoutService';
+
+// POST /api/earnings/payouts/:id/retry - resend a failed payout on its original rail
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authResult = await authenticateRequest(request, ['drivers:write']);
+    if (!authResult.success) {
+      return authResult.response;
+    }
+
+    const { id } = await context.params;
+    const line = await retryLine(id, authResult.user.userId);
+
+    return NextResponse.json(toDriverPayout(line));
+  } catch (error) {
+    const status = payoutErrorStatus(error);
+    if (status) {
+      return NextResponse.json({ error: (error as Error).message }, { status });
+    }
+    console.error('Error retrying payout:', error);
+    return NextResponse.json(
+      { error: 'Failed to retry payout' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,4 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+
+import { authenticateRequest } from '@/lib/auth';
+import { getLine, listLineEvents, listPayoutDisputes } from '@/lib/repos/payoutsRepo';
+import { markLineFailed, payoutErrorStatus, toDriverPayout } from '@/lib/services/payoutService';
+
+const FailureSchema = z.object({
+  status: z.literal('failed'),
+  reason: z.string().min(1).max(500),
+  providerReference: z.string().max(100).optional(),
+});
 
 // GET /api/earnings/payouts/:id
 export async function GET(
@@ -6,26 +17,30 @@ export async function GET(
   context: { params: Promise<{ id: string }> }
 ) {
   try {
+    const authResult = await authenticateRequest(request, ['drivers:read']);
+    if (!authResult.success) {
+      return authResult.response;
+    }
+
     const { id } = await context.params;
+    const line = await getLine(id);
+
+    const { user } = authResult;
+    if (!line || (user.userType === 'driver' && line.driverId !== user.userId)) {
+      return NextResponse.json({ error: 'Payout not found' }, { status: 404 });
+    }
+
+    const [events, disputes] = await Promise.all([listLineEvents(id), listPayoutDisputes(id)]);
 
-    // TODO: Integrate with backend Payment module API
-    // TODO: Add authentication and authorization
-    // TODO: Verify user has access to this payout
-
-    const mockPayout = {
-      id,
-      driverId: 'DRV-123',
-      amount: 18450,
-      status: 'completed',
-      payoutMethod: 'gcash',
-      payoutDate: '2026-02-01',
-      payoutReference: 'GC20260201-001',
-      processedDate: '2026-02-01',
-      createdAt: '2026-01-31',
-      updatedAt: '2026-02-01',
-    };
-
-    return NextResponse.json(mockPayout);
+    return NextResponse.json({
+      ...toDriverPayout(line),
+      accountName: line.accountName,
+      accountNumber: line.accountNumber,
+      bankCode: line.bankCode,
+      providerReference: line.providerReference,
+      events,
+      disputes,
+    });
   } catch (error) {
     console.error('Error fetching payout details:', error);
     return NextResponse.json(
@@ -34,3 +49,39 @@ export async function GET(
     );
   }
 }
+
+// PATCH /api/earnings/payouts/:id - record a rail rejection for a sent payout
+export async function PATCH(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authResult = await authenticateRequest(request, ['drivers:write']);
+    if (!authResult.success) {
+      return authResult.response;
+    }
+
+    const { id } = await context.params;
+    const parsed = FailureSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid request body', details: parsed.error.errors },
+        { status: 400 }
+      );
+    }
+
+    const line = await markLineFailed(id, parsed.data, authResult.user.userId);
+
+    return NextResponse.json(toDriverPayout(line));
+  } catch (error) {
+    const status = payoutErrorStatus(error);
+    if (status) {
+      return NextResponse.json({ error: (error as Error).message }, { status });
+    }
+    console.error('Error updating payout:', error);
+    return NextResponse.json(
+      { error: 'Failed to update payout' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { authenticateRequest } from '@/lib/auth';
+import { getBatch, listBatchLines } from '@/lib/repos/payoutsRepo';
+import { buildPayoutExport } from '@/lib/services/payoutService';
+
+// GET /api/earnings/payouts/batches/:id/export - rail upload file for released lines
+// Pass ?since=<ISO timestamp> to export only lines (re)sent after a previous upload.
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authResult = await authenticateRequest(request, ['drivers:write']);
+    if (!authResult.success) {
+      return authResult.response;
+    }
+
+    const { id } = await context.params;
+    const batch = await getBatch(id);
+    if (!batch) {
+      return NextResponse.json({ error: 'Payout batch not found' }, { status: 404 });
+    }
+    if (batch.status !== 'released') {
+      return NextResponse.json({ error: 'Batch has not been released' }, { status: 409 });
+    }
+
+    const since = request.nextUrl.searchParams.get('since');
+    const sinceTime = since ? Date.parse(since) : NaN;
+    if (since && Number.isNaN(sinceTime)) {
+      return NextResponse.json({ error: 'Invalid since timestamp' }, { status: 400 });
+    }
+
+    const lines = (await listBatchLines(id, undefined, 'sent'))
+      .filter(line => !since || (line.sentAt && new Date(line.sentAt).getTime() > sinceTime));
+    const file = buildPayoutExport(batch, lines);
+
+    return new NextResponse(file.content, {
+      status: 200,
+      headers: {
+        'Content-Type': `${file.contentType}; charset=utf-8`,
+        'Content-Disposition': `attachment; filename="${file.filename}"`,
+      },
+    });
+  } catch (error) {
+    console.error('Error exporting payout batch:', error);
+    return NextResponse.json(
+      { error: 'Failed to export payout batch' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+
+import { authenticateRequest } from '@/lib/auth';
+import { getBatchWithLines } from '@/lib/repos/payoutsRepo';
+import {
+  cancelBatch,
+  payoutErrorStatus,
+  releaseBatch,
+  submitBatchForApproval
+} from '@/lib/services/payoutService';
+
+const ActionSchema = z.discriminatedUnion('action', [
+  z.object({ action: z.literal('submit'), justification: z.string().min(10).max(1000) }),
+  z.object({ action: z.literal('release') }),
+  z.object({ action: z.literal('cancel') }),
+]);
+
+// GET /api/earnings/payouts/batches/:id
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authResult = await authenticateRequest(request, ['drivers:write']);
+    if (!authResult.success) {
+      return authResult.response;
+    }
+
+    const { id } = await context.params;
+    const batch = await getBatchWithLines(id);
+    if (!batch) {
+      return NextResponse.json({ error: 'Payout batch not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(batch);
+  } catch (error) {
+    console.error('Error fetching payout batch:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch payout batch' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/earnings/payouts/batches/:id - submit for approval, release or cancel
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authResult = await authenticateRequest(request, ['drivers:write']);
+    if (!authResult.success) {
+      return authResult.response;
+    }
+
+    const { id } = await context.params;
+    const parsed = ActionSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid request body', details: parsed.error.errors },
+        { status: 400 }
+      );
+    }
+
+    const userId = authResult.user.userId;
+    const body = parsed.data;
+    const batch = body.action === 'submit'
+      ? await submitBatchForApproval(id, userId, body.justification)
+      : body.action === 'release'
+        ? await releaseBatch(id, userId)
+        : await cancelBatch(id);
+
+    return NextResponse.json(batch);
+  } catch (error) {
+    const status = payoutErrorStatus(error);
+    if (status) {
+      return NextResponse.json({ error: (error as Error).message }, { status });
+    }
+    console.error('Error updating payout batch:', error);
+    return NextResponse.json(
+      { error: 'Failed to update payout batch' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,90 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+
+import { authenticateRequest } from '@/lib/auth';
+import { listBatches } from '@/lib/repos/payoutsRepo';
+import { createPayoutBatch } from '@/lib/services/payoutService';
+
+const ListQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(10),
+  status: z.enum(['draft', 'pending_approval', 'released', 'cancelled']).optional(),
+  payoutMethod: z.enum(['gcash', 'bank_transfer']).optional(),
+});
+
+const CreateBatchSchema = z.object({
+  payoutMethod: z.enum(['gcash', 'bank_transfer']),
+  minimumAmount: z.number().min(0).optional(),
+  driverIds: z.array(z.string().uuid()).min(1).optional(),
+});
+
+// GET /api/earnings/payouts/batches
+export async function GET(request: NextRequest) {
+  try {
+    const authResult = await authenticateRequest(request, ['drivers:write']);
+    if (!authResult.success) {
+      return authResult.response;
+    }
+
+    const parsed = ListQuerySchema.safeParse(Object.fromEntries(request.nextUrl.searchParams));
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid query parameters', details: parsed.error.errors },
+        { status: 400 }
+      );
+    }
+
+    const filters = parsed.data;
+    const { batches, total } = await listBatches(filters);
+
+    return NextResponse.json({
+      data: batches,
+      pagination: {
+        page: filters.page,
+        limit: filters.limit,
+        total,
+        totalPages: Math.ceil(total / filters.limit),
+      },
+    });
+  } catch (error) {
+    console.error('Error fetching payout batches:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch payout batches' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/earnings/payouts/batches - build a draft batch from payable driver balances
+export async function POST(request: NextRequest) {
+  try {
+    const authResult = await authenticateRequest(request, ['drivers:write']);
+    if (!authResult.success) {
+      return authResult.response;
+    }
+
+    const parsed = CreateBatchSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid request body', details: parsed.error.errors },
+        { status: 400 }
+      );
+    }
+
+    const result = await createPayoutBatch(parsed.data, authResult.user.userId);
+    if (!result.batch) {
+      return NextResponse.json(
+        { error: 'No payable balances for this payout method', ...result },
+        { status: 422 }
+      );
+    }
+
+    return NextResponse.json(result, { status: 201 });
+  } catch (error) {
+    console.error('Error creating payout batch:', error);
+    return NextResponse.json(
+      { error: 'Failed to create payout batch' },
+      { status: 500 }
+    );
+  }
+}
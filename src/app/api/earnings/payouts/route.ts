@@ -1,46 +1,51 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+
+import { authenticateRequest } from '@/lib/auth';
+import { listLines } from '@/lib/repos/payoutsRepo';
+import { toDriverPayout } from '@/lib/services/payoutService';
+
+const ListQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(10),
+  driverId: z.string().uuid().optional(),
+  batchId: z.string().uuid().optional(),
+  status: z.enum(['queued', 'sent', 'failed', 'reversed']).optional(),
+  payoutMethod: z.enum(['gcash', 'bank_transfer']).optional(),
+});
 
 // GET /api/earnings/payouts
 export async function GET(request: NextRequest) {
   try {
-    // TODO: Integrate with backend Payment module API
-    // TODO: Add authentication and authorization
-    // TODO: Get pagination, filters from query params
-    // TODO: Get actual driver ID from session/token
+    const authResult = await authenticateRequest(request, ['drivers:read']);
+    if (!authResult.success) {
+      return authResult.response;
+    }
 
-    const mockPayouts = [
-      {
-        id: 'PO-001',
-        driverId: 'DRV-123',
-        amount: 18450,
-        status: 'completed',
-        payoutMethod: 'gcash',
-        payoutDate: '2026-02-01',
-        payoutReference: 'GC20260201-001',
-        processedDate: '2026-02-01',
-        createdAt: '2026-01-31',
-        updatedAt: '2026-02-01',
-      },
-      {
-        id: 'PO-002',
-        driverId: 'DRV-123',
-        amount: 21300,
-        status: 'processing',
-        payoutMethod: 'bank_transfer',
-        payoutDate: '2026-01-25',
-        payoutReference: 'BT20260125-002',
-        createdAt: '2026-01-24',
-        updatedAt: '2026-01-25',
-      },
-    ];
+    const parsed = ListQuerySchema.safeParse(Object.fromEntries(request.nextUrl.searchParams));
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid query parameters', details: parsed.error.errors },
+        { status: 400 }
+      );
+    }
+
+    // Drivers only ever see their own payouts
+    const { user } = authResult;
+    const filters = {
+      ...parsed.data,
+      driverId: user.userType === 'driver' ? user.userId : parsed.data.driverId,
+    };
+
+    const { lines, total } = await listLines(filters);
 
     return NextResponse.json({
-      data: mockPayouts,
+      data: lines.map(toDriverPayout),
       pagination: {
-        page: 1,
-        limit: 10,
-        total: 2,
-        totalPages: 1,
+        page: filters.page,
+        limit: filters.limit,
+        total,
+        totalPages: Math.ceil(total / filters.limit),
       },
     });
   } catch (error) {
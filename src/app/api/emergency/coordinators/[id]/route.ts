@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+
+import { authenticateRequest } from '@/lib/auth';
+import { emergencyResponseAutomation } from '@/lib/emergencyResponseAutomation';
+import {
+  coordinatorErrorStatus,
+  getCoordinatorDetail,
+  updateCoordinator
+} from '@/lib/services/coordinatorService';
+import { COORDINATOR_SPECIALIZATIONS } from '@/types/emergencyCoordinator';
+
+const UpdateCoordinatorSchema = z.object({
+  name: z.string().min(1).max(100).optional(),
+  role: z.enum(['operator', 'supervisor', 'emergency_coordinator']).optional(),
+  contactNumber: z.string().min(1).max(20).optional(),
+  regionId: z.string().uuid().nullable().optional(),
+  specializations: z.array(z.enum(COORDINATOR_SPECIALIZATIONS)).min(1).optional(),
+  maxCapacity: z.number().int().min(1).max(50).optional(),
+  isActive: z.boolean().optional(),
+});
+
+const errorResponse = (error: unknown, fallback: string) => {
+  const status = coordinatorErrorStatus(error);
+  if (status) {
+    return NextResponse.json({ error: (error as Error).message }, { status });
+  }
+  console.error(`${fallback}:`, error);
+  return NextResponse.json({ error: fallback }, { status: 500 });
+};
+
+// GET /api/emergency/coordinators/:id
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authResult = await authenticateRequest(request, ['incidents:read']);
+    if (!authResult.success) {
+      return authResult.response;
+    }
+
+    const { id } = await context.params;
+    return NextResponse.json(await getCoordinatorDetail(id));
+  } catch (error) {
+    return errorResponse(error, 'Failed to fetch coordinator');
+  }
+}
+
+// PATCH /api/emergency/coordinators/:id - deactivating hands the coordinator's responses over
+export async function PATCH(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authResult = await authenticateRequest(request, ['incidents:escalate']);
+    if (!authResult.success) {
+      return authResult.response;
+    }
+
+    const parsed = UpdateCoordinatorSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid request body', details: parsed.error.errors },
+        { status: 400 }
+      );
+    }
+
+    const { id } = await context.params;
+    const { coordinator, handovers } = await updateCoordinator(id, parsed.data, authResult.user.userId);
+    await emergencyResponseAutomation.applyCoordinatorHandovers(handovers);
+
+    return NextResponse.json({ ...coordinator, handovers });
+  } catch (error) {
+    return errorResponse(error, 'Failed to update coordinator');
+  }
+}
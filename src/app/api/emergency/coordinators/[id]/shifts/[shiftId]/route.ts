@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+
+import { authenticateRequest } from '@/lib/auth';
+import { emergencyResponseAutomation } from '@/lib/emergencyResponseAutomation';
+import { getShift } from '@/lib/repos/coordinatorsRepo';
+import {
+  cancelShift,
+  clockIn,
+  clockOut,
+  coordinatorErrorStatus,
+  getCoordinatorDetail
+} from '@/lib/services/coordinatorService';
+
+const ShiftActionSchema = z.discriminatedUnion('action', [
+  z.object({ action: z.literal('clock_in') }),
+  z.object({ action: z.literal('clock_out'), handoverNotes: z.string().max(2000).optional() }),
+  z.object({ action: z.literal('cancel') }),
+]);
+
+const errorResponse = (error: unknown, fallback: string) => {
+  const status = coordinatorErrorStatus(error);
+  if (status) {
+    return NextResponse.json({ error: (error as Error).message }, { status });
+  }
+  console.error(`${fallback}:`, error);
+  return NextResponse.json({ error: fallback }, { status: 500 });
+};
+
+// POST /api/emergency/coordinators/:id/shifts/:shiftId - clock in, clock out or cancel;
+// coordinators may clock themselves in and out, supervisors may act for anyone
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ id: string; shiftId: string }> }
+) {
+  try {
+    const authResult = await authenticateRequest(request);
+    if (!authResult.success) {
+      return authResult.response;
+    }
+
+    const parsed = ShiftActionSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid request body', details: parsed.error.errors },
+        { status: 400 }
+      );
+    }
+
+    const { user } = authResult;
+    const { id, shiftId } = await context.params;
+    const body = parsed.data;
+
+    const coordinator = await getCoordinatorDetail(id);
+    const isSelf = body.action !== 'cancel' && !!coordinator.userId && coordinator.userId === user.userId;
+    if (!isSelf && !user.permissions.includes('incidents:escalate')) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+    }
+
+    const shift = await getShift(shiftId);
+    if (!shift || shift.coordinatorId !== id) {
+      return NextResponse.json({ error: 'shift_not_found' }, { status: 404 });
+    }
+
+    switch (body.action) {
+      case 'clock_in':
+        return NextResponse.json(await clockIn(shiftId));
+      case 'clock_out': {
+        const result = await clockOut(shiftId, body.handoverNotes ?? null, user.userId);
+        await emergencyResponseAutomation.applyCoordinatorHandovers(result.handovers);
+        return NextResponse.json({ ...result.shift, handovers: result.handovers });
+      }
+      case 'cancel':
+        return NextResponse.json(await cancelShift(shiftId));
+    }
+  } catch (error) {
+    return errorResponse(error, 'Failed to update shift');
+  }
+}
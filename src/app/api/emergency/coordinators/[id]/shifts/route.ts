@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+
+import { authenticateRequest } from '@/lib/auth';
+import { listShifts } from '@/lib/repos/coordinatorsRepo';
+import {
+  coordinatorErrorStatus,
+  getCoordinatorDetail,
+  scheduleShift
+} from '@/lib/services/coordinatorService';
+
+const ListQuerySchema = z.object({
+  from: z.string().datetime().optional(),
+  to: z.string().datetime().optional(),
+});
+
+const ScheduleShiftSchema = z.object({
+  startsAt: z.string().datetime(),
+  endsAt: z.string().datetime(),
+});
+
+const errorResponse = (error: unknown, fallback: string) => {
+  const status = coordinatorErrorStatus(error);
+  if (status) {
+    return NextResponse.json({ error: (error as Error).message }, { status });
+  }
+  console.error(`${fallback}:`, error);
+  return NextResponse.json({ error: fallback }, { status: 500 });
+};
+
+// GET /api/emergency/coordinators/:id/shifts - shifts overlapping the optional from/to window
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authResult = await authenticateRequest(request, ['incidents:read']);
+    if (!authResult.success) {
+      return authResult.response;
+    }
+
+    const parsed = ListQuerySchema.safeParse(Object.fromEntries(request.nextUrl.searchParams));
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid query parameters', details: parsed.error.errors },
+        { status: 400 }
+      );
+    }
+
+    const { id } = await context.params;
+    await getCoordinatorDetail(id);
+    return NextResponse.json({ data: await listShifts(id, parsed.data) });
+  } catch (error) {
+    return errorResponse(error, 'Failed to fetch coordinator shifts');
+  }
+}
+
+// POST /api/emergency/coordinators/:id/shifts - schedule a shift
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authResult = await authenticateRequest(request, ['incidents:escalate']);
+    if (!authResult.success) {
+      return authResult.response;
+    }
+
+    const parsed = ScheduleShiftSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid request body', details: parsed.error.errors },
+        { status: 400 }
+      );
+    }
+
+    const { id } = await context.params;
+    const shift = await scheduleShift(id, parsed.data, authResult.user.userId);
+    return NextResponse.json(shift, { status: 201 });
+  } catch (error) {
+    return errorResponse(error, 'Failed to schedule shift');
+  }
+}
@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+
+import { authenticateRequest } from '@/lib/auth';
+import { listCoordinators } from '@/lib/repos/coordinatorsRepo';
+import { coordinatorErrorStatus, createCoordinator } from '@/lib/services/coordinatorService';
+import { COORDINATOR_SPECIALIZATIONS } from '@/types/emergencyCoordinator';
+
+const booleanParam = z.enum(['true', 'false']).transform(value => value === 'true');
+
+const ListQuerySchema = z.object({
+  regionId: z.string().uuid().optional(),
+  onDuty: booleanParam.optional(),
+  isActive: booleanParam.optional(),
+});
+
+const CreateCoordinatorSchema = z.object({
+  userId: z.string().min(1).max(100).nullable().optional(),
+  name: z.string().min(1).max(100),
+  role: z.enum(['operator', 'supervisor', 'emergency_coordinator']).optional(),
+  contactNumber: z.string().min(1).max(20),
+  regionId: z.string().uuid().nullable().optional(),
+  specializations: z.array(z.enum(COORDINATOR_SPECIALIZATIONS)).min(1).optional(),
+  maxCapacity: z.number().int().min(1).max(50).optional(),
+});
+
+const errorResponse = (error: unknown, fallback: string) => {
+  const status = coordinatorErrorStatus(error);
+  if (status) {
+    return NextResponse.json({ error: (error as Error).message }, { status });
+  }
+  console.error(`${fallback}:`, error);
+  return NextResponse.json({ error: fallback }, { status: 500 });
+};
+
+// GET /api/emergency/coordinators - roster with on-duty status and current caseload
+export async function GET(request: NextRequest) {
+  try {
+    const authResult = await authenticateRequest(request, ['incidents:read']);
+    if (!authResult.success) {
+      return authResult.response;
+    }
+
+    const parsed = ListQuerySchema.safeParse(Object.fromEntries(request.nextUrl.searchParams));
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid query parameters', details: parsed.error.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({ data: await listCoordinators(parsed.data) });
+  } catch (error) {
+    return errorResponse(error, 'Failed to fetch coordinators');
+  }
+}
+
+// POST /api/emergency/coordinators - add a coordinator; a null region covers every region
+export async function POST(request: NextRequest) {
+  try {
+    const authResult = await authenticateRequest(request, ['incidents:escalate']);
+    if (!authResult.success) {
+      return authResult.response;
+    }
+
+    const parsed = CreateCoordinatorSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid request body', details: parsed.error.errors },
+        { status: 400 }
+      );
+    }
+
+    const coordinator = await createCoordinator(parsed.data, authResult.user.userId);
+    return NextResponse.json(coordinator, { status: 201 });
+  } catch (error) {
+    return errorResponse(error, 'Failed to create coordinator');
+  }
+}
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+
+import { authenticateRequest } from '@/lib/auth';
+import { emergencyResponseAutomation } from '@/lib/emergencyResponseAutomation';
+import { coordinatorErrorStatus, handOverResponse } from '@/lib/services/coordinatorService';
+
+const HandoverSchema = z.object({
+  toCoordinatorId: z.string().uuid().optional(),
+  handoverNotes: z.string().min(1).max(2000),
+});
+
+// POST /api/emergency/responses/:id/handover - move a response to another coordinator;
+// without toCoordinatorId the best available one on duty takes it
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authResult = await authenticateRequest(request, ['incidents:escalate']);
+    if (!authResult.success) {
+      return authResult.response;
+    }
+
+    const parsed = HandoverSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid request body', details: parsed.error.errors },
+        { status: 400 }
+      );
+    }
+
+    const { id } = await context.params;
+    const handover = await handOverResponse(id, parsed.data, authResult.user.userId);
+    await emergencyResponseAutomation.applyCoordinatorHandovers([handover]);
+
+    return NextResponse.json(handover);
+  } catch (error) {
+    const status = coordinatorErrorStatus(error);
+    if (status) {
+      return NextResponse.json({ error: (error as Error).message }, { status });
+    }
+    console.error('Failed to hand over emergency response:', error);
+    return NextResponse.json({ error: 'Failed to hand over emergency response' }, { status: 500 });
+  }
+}
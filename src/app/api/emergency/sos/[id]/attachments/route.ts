@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+
+import { authenticateRequest } from '@/lib/auth';
+import { addSOSAttachments, getSOSDetail, sosErrorStatus } from '@/lib/services/sosService';
+import { SOS_ATTACHMENT_TYPES } from '@/types/sos';
+
+const AttachmentsSchema = z.object({
+  attachments: z.array(z.object({
+    type: z.enum(SOS_ATTACHMENT_TYPES),
+    url: z.string().url(),
+    filename: z.string().min(1).max(255),
+    priority: z.number().int().min(1).max(10).optional(),
+  })).min(1).max(10),
+});
+
+// POST /api/emergency/sos/:id/attachments - photos and recordings sent after the SOS was raised
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authResult = await authenticateRequest(request);
+    if (!authResult.success) {
+      return authResult.response;
+    }
+
+    const parsed = AttachmentsSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid request body', details: parsed.error.errors },
+        { status: 400 }
+      );
+    }
+
+    // Drivers add to their own SOS; everyone else needs to be handling incidents
+    const { user } = authResult;
+    const { id } = await context.params;
+    if (user.userType === 'driver') {
+      const alert = await getSOSDetail(id);
+      if (alert.driverId !== user.userId && alert.reporter.id !== user.userId) {
+        return NextResponse.json({ error: 'sos_not_found' }, { status: 404 });
+      }
+    } else if (!user.permissions.includes('incidents:write')) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+    }
+
+    const alert = await addSOSAttachments(id, parsed.data.attachments, user.userId);
+    return NextResponse.json(alert, { status: 201 });
+  } catch (error) {
+    const status = sosErrorStatus(error);
+    if (status) {
+      return NextResponse.json({ error: (error as Error).message }, { status });
+    }
+    console.error('Failed to add SOS attachments:', error);
+    return NextResponse.json({ error: 'Failed to add SOS attachments' }, { status: 500 });
+  }
+}
@@ -0,0 +1,121 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+
+import { authenticateRequest, Permission } from '@/lib/auth';
+import {
+  acknowledgeSOS,
+  allowedSOSActions,
+  escalateSOS,
+  getSOSDetail,
+  resolveSOS,
+  sosErrorStatus
+} from '@/lib/services/sosService';
+
+const ActionSchema = z.discriminatedUnion('action', [
+  z.object({ action: z.literal('acknowledge'), message: z.string().max(500).optional() }),
+  z.object({ action: z.literal('escalate'), reason: z.string().min(1).max(500) }),
+  z.object({
+    action: z.literal('resolve'),
+    resolution: z.string().min(1).max(2000),
+    falseAlarm: z.boolean().optional(),
+  }),
+]);
+
+const ACTION_PERMISSIONS: Record<z.infer<typeof ActionSchema>['action'], Permission> = {
+  acknowledge: 'incidents:write',
+  escalate: 'incidents:escalate',
+  resolve: 'incidents:write',
+};
+
+const errorResponse = (error: unknown, fallback: string) => {
+  const status = sosErrorStatus(error);
+  if (status) {
+    return NextResponse.json({ error: (error as Error).message }, { status });
+  }
+  console.error(`${fallback}:`, error);
+  return NextResponse.json({ error: fallback }, { status: 500 });
+};
+
+// GET /api/emergency/sos/:id - by id or SOS- code; drivers only see alerts they are part of
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authResult = await authenticateRequest(request);
+    if (!authResult.success) {
+      return authResult.response;
+    }
+
+    const { user } = authResult;
+    if (user.userType !== 'driver' && !user.permissions.includes('incidents:read')) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+    }
+
+    const { id } = await context.params;
+    const alert = await getSOSDetail(id);
+    if (user.userType === 'driver' && alert.driverId !== user.userId && alert.reporter.id !== user.userId) {
+      return NextResponse.json({ error: 'sos_not_found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ ...alert, allowedActions: allowedSOSActions(alert.status) });
+  } catch (error) {
+    return errorResponse(error, 'Failed to fetch SOS alert');
+  }
+}
+
+// PATCH /api/emergency/sos/:id - acknowledge, escalate or resolve from the operator console
+export async function PATCH(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authResult = await authenticateRequest(request);
+    if (!authResult.success) {
+      return authResult.response;
+    }
+
+    const parsed = ActionSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid request body', details: parsed.error.errors },
+        { status: 400 }
+      );
+    }
+
+    const { user } = authResult;
+    const body = parsed.data;
+    if (user.userType === 'driver' || !user.permissions.includes(ACTION_PERMISSIONS[body.action])) {
+      return NextResponse.json(
+        { error: 'Insufficient permissions', requiredPermission: ACTION_PERMISSIONS[body.action] },
+        { status: 403 }
+      );
+    }
+
+    const { id } = await context.params;
+    switch (body.action) {
+      case 'acknowledge':
+        return NextResponse.json(await acknowledgeSOS(id, user.userId, body.message));
+      case 'escalate': {
+        const { alert, response } = await escalateSOS(id, user.userId, body.reason);
+        return NextResponse.json({
+          ...alert,
+          emergencyResponse: response && {
+            id: response.id,
+            responseCode: response.responseCode,
+            status: response.status,
+            escalationLevel: response.escalationLevel,
+            coordinatingOperator: response.coordinatingOperator ?? null,
+          },
+        });
+      }
+      case 'resolve':
+        return NextResponse.json(await resolveSOS(id, user.userId, {
+          notes: body.resolution,
+          falseAlarm: body.falseAlarm,
+        }));
+    }
+  } catch (error) {
+    return errorResponse(error, 'Failed to update SOS alert');
+  }
+}
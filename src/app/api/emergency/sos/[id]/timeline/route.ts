@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { authenticateRequest } from '@/lib/auth';
+import { getSOSTimeline, sosErrorStatus } from '@/lib/services/sosService';
+
+// GET /api/emergency/sos/:id/timeline - alert events and emergency response logs, oldest first
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authResult = await authenticateRequest(request, ['incidents:read']);
+    if (!authResult.success) {
+      return authResult.response;
+    }
+
+    const { id } = await context.params;
+    return NextResponse.json(await getSOSTimeline(id));
+  } catch (error) {
+    const status = sosErrorStatus(error);
+    if (status) {
+      return NextResponse.json({ error: (error as Error).message }, { status });
+    }
+    console.error('Failed to fetch SOS timeline:', error);
+    return NextResponse.json({ error: 'Failed to fetch SOS timeline' }, { status: 500 });
+  }
+}
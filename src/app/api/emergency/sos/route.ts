@@ -0,0 +1,130 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+
+import { authenticateRequest } from '@/lib/auth';
+import { listSOSAlerts } from '@/lib/repos/sosRepo';
+import { sosErrorStatus, triggerDriverSOS, triggerSOS } from '@/lib/services/sosService';
+import { SOS_ATTACHMENT_TYPES, SOS_EMERGENCY_TYPES } from '@/types/sos';
+
+const ListQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+  status: z.enum([
+    'active', 'triggered', 'processing', 'dispatched', 'acknowledged', 'responding', 'resolved', 'false_alarm'
+  ]).default('active'),
+  regionId: z.string().uuid().optional(),
+  driverId: z.string().uuid().optional(),
+  bookingId: z.string().uuid().optional(),
+});
+
+const AttachmentSchema = z.object({
+  type: z.enum(SOS_ATTACHMENT_TYPES),
+  url: z.string().url(),
+  filename: z.string().min(1).max(255),
+  priority: z.number().int().min(1).max(10).optional(),
+});
+
+const DriverTriggerSchema = z.object({
+  location: z.object({
+    latitude: z.number().min(-90).max(90),
+    longitude: z.number().min(-180).max(180),
+    accuracy: z.number().min(0).optional(),
+    address: z.string().max(500).optional(),
+  }),
+  bookingId: z.string().uuid().optional(),
+  emergencyType: z.enum(SOS_EMERGENCY_TYPES).optional(),
+  description: z.string().max(2000).optional(),
+  attachments: z.array(AttachmentSchema).max(10).optional(),
+});
+
+// Riders' SOS arrives through the app backend, or an operator raises it for a caller
+const ReporterTriggerSchema = DriverTriggerSchema.extend({
+  reporterId: z.string().uuid(),
+  reporterType: z.enum(['driver', 'passenger', 'customer']),
+  reporterName: z.string().max(100).optional(),
+  reporterPhone: z.string().max(20).optional(),
+  driverId: z.string().uuid().optional(),
+});
+
+const errorResponse = (error: unknown, fallback: string) => {
+  const status = sosErrorStatus(error);
+  if (status) {
+    return NextResponse.json({ error: (error as Error).message }, { status });
+  }
+  console.error(`${fallback}:`, error);
+  return NextResponse.json({ error: fallback }, { status: 500 });
+};
+
+// GET /api/emergency/sos - operator console list; active alerts unless a status is given
+export async function GET(request: NextRequest) {
+  try {
+    const authResult = await authenticateRequest(request, ['incidents:read']);
+    if (!authResult.success) {
+      return authResult.response;
+    }
+
+    const parsed = ListQuerySchema.safeParse(Object.fromEntries(request.nextUrl.searchParams));
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid query parameters', details: parsed.error.errors },
+        { status: 400 }
+      );
+    }
+
+    const filters = parsed.data;
+    const { alerts, total } = await listSOSAlerts(filters);
+
+    return NextResponse.json({
+      data: alerts,
+      pagination: {
+        page: filters.page,
+        limit: filters.limit,
+        total,
+        totalPages: Math.ceil(total / filters.limit),
+      },
+    });
+  } catch (error) {
+    return errorResponse(error, 'Failed to fetch SOS alerts');
+  }
+}
+
+// POST /api/emergency/sos - raise an SOS; drivers are never turned away for missing permissions
+export async function POST(request: NextRequest) {
+  try {
+    const authResult = await authenticateRequest(request);
+    if (!authResult.success) {
+      return authResult.response;
+    }
+
+    const { user } = authResult;
+    const body = await request.json();
+
+    if (user.userType === 'driver') {
+      const parsed = DriverTriggerSchema.safeParse(body);
+      if (!parsed.success) {
+        return NextResponse.json(
+          { error: 'Invalid request body', details: parsed.error.errors },
+          { status: 400 }
+        );
+      }
+      const alert = await triggerDriverSOS(user.userId, parsed.data);
+      return NextResponse.json(alert, { status: 202 });
+    }
+
+    if (!user.permissions.includes('incidents:write')) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+    }
+
+    const parsed = ReporterTriggerSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid request body', details: parsed.error.errors },
+        { status: 400 }
+      );
+    }
+    const alert = await triggerSOS(parsed.data);
+    return NextResponse.json(alert, { status: 202 });
+  } catch (error) {
+    return errorResponse(error, 'Failed to trigger SOS');
+  }
+}
@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+
+import { authenticateRequest } from '@/lib/auth';
+import { listLedgerEntries } from '@/lib/repos/ledgerRepo';
+
+const LedgerQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(200).default(20),
+  accountCode: z.string().max(10).optional(),
+  driverId: z.string().uuid().optional(),
+  type: z.enum(['debit', 'credit']).optional(),
+  search: z.string().max(100).optional(),
+  dateFrom: z.string().datetime({ offset: true }).or(z.string().regex(/^\d{4}-\d{2}-\d{2}$/)).optional(),
+  dateTo: z.string().datetime({ offset: true }).or(z.string().regex(/^\d{4}-\d{2}-\d{2}$/)).optional(),
+});
+
+// GET /api/finance/ledger - immutable ledger entries, newest first
+export async function GET(request: NextRequest) {
+  try {
+    const authResult = await authenticateRequest(request, ['analytics:read']);
+    if (!authResult.success) {
+      return authResult.response;
+    }
+
+    const parsed = LedgerQuerySchema.safeParse(Object.fromEntries(request.nextUrl.searchParams));
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid query parameters', details: parsed.error.errors },
+        { status: 400 }
+      );
+    }
+
+    const filters = parsed.data;
+    const { entries, total, totals } = await listLedgerEntries(filters);
+
+    return NextResponse.json({
+      data: entries,
+      totals,
+      pagination: {
+        page: filters.page,
+        limit: filters.limit,
+        total,
+        totalPages: Math.ceil(total / filters.limit),
+      },
+    });
+  } catch (error) {
+    console.error('Error fetching ledger entries:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch ledger entries' },
+      { status: 500 }
+    );
+  }
+}
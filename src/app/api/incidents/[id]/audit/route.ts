@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { authenticateRequest } from '@/lib/auth';
+import { getIncidentAudit, incidentErrorStatus } from '@/lib/services/incidentService';
+
+// GET /api/incidents/:id/audit - every change to the case, oldest first
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authResult = await authenticateRequest(request, ['incidents:read']);
+    if (!authResult.success) {
+      return authResult.response;
+    }
+
+    const { id } = await context.params;
+    return NextResponse.json({ data: await getIncidentAudit(id) });
+  } catch (error) {
+    const status = incidentErrorStatus(error);
+    if (status) {
+      return NextResponse.json({ error: (error as Error).message }, { status });
+    }
+    console.error('Failed to fetch incident audit trail:', error);
+    return NextResponse.json({ error: 'Failed to fetch incident audit trail' }, { status: 500 });
+  }
+}
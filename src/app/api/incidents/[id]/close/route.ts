@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+
+import { authenticateRequest } from '@/lib/auth';
+import { closeIncident, incidentErrorStatus } from '@/lib/services/incidentService';
+import { INCIDENT_OUTCOME_CODES } from '@/types/incident';
+
+const CloseIncidentSchema = z.object({
+  outcomeCode: z.enum(INCIDENT_OUTCOME_CODES),
+  resolutionNotes: z.string().min(1).max(5000),
+  suspensionDays: z.number().int().min(1).max(365).optional(),
+  checklist: z.array(z.object({
+    id: z.string().min(1).max(50),
+    label: z.string().min(1).max(300),
+    required: z.boolean(),
+    completed: z.boolean(),
+    notes: z.string().max(1000).optional(),
+  })).max(50).optional(),
+  followUpRequired: z.boolean().optional(),
+});
+
+// POST /api/incidents/:id/close - close with an outcome; suspending or deactivating
+// the driver also needs drivers:write
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authResult = await authenticateRequest(request, ['incidents:write']);
+    if (!authResult.success) {
+      return authResult.response;
+    }
+
+    const parsed = CloseIncidentSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid request body', details: parsed.error.errors },
+        { status: 400 }
+      );
+    }
+
+    const { user } = authResult;
+    const body = parsed.data;
+    const changesDriver = body.outcomeCode === 'suspension' || body.outcomeCode === 'deactivation';
+    if (changesDriver && !user.permissions.includes('drivers:write')) {
+      return NextResponse.json(
+        { error: 'Insufficient permissions', requiredPermission: 'drivers:write' },
+        { status: 403 }
+      );
+    }
+
+    const { id } = await context.params;
+    return NextResponse.json(await closeIncident(id, body, user.userId));
+  } catch (error) {
+    const status = incidentErrorStatus(error);
+    if (status) {
+      return NextResponse.json({ error: (error as Error).message }, { status });
+    }
+    console.error('Failed to close incident:', error);
+    return NextResponse.json({ error: 'Failed to close incident' }, { status: 500 });
+  }
+}
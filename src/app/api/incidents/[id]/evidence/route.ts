@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+
+import { authenticateRequest } from '@/lib/auth';
+import { addEvidence, incidentErrorStatus } from '@/lib/services/incidentService';
+import { INCIDENT_EVIDENCE_TYPES } from '@/types/incident';
+
+const EvidenceSchema = z.object({
+  type: z.enum(INCIDENT_EVIDENCE_TYPES),
+  url: z.string().url(),
+  filename: z.string().min(1).max(255),
+  sizeBytes: z.number().int().min(0).optional(),
+  footageRef: z.string().min(1).max(100).optional(),
+  capturedAt: z.string().datetime().optional(),
+  description: z.string().max(1000).optional(),
+});
+
+const AddEvidenceSchema = z.object({
+  evidence: z.array(EvidenceSchema).min(1).max(20),
+});
+
+// POST /api/incidents/:id/evidence - attach files; dashcam footage carries its clip reference
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authResult = await authenticateRequest(request, ['incidents:write']);
+    if (!authResult.success) {
+      return authResult.response;
+    }
+
+    const parsed = AddEvidenceSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid request body', details: parsed.error.errors },
+        { status: 400 }
+      );
+    }
+
+    const { id } = await context.params;
+    const evidence = await addEvidence(id, parsed.data.evidence, authResult.user.userId);
+    return NextResponse.json({ data: evidence }, { status: 201 });
+  } catch (error) {
+    const status = incidentErrorStatus(error);
+    if (status) {
+      return NextResponse.json({ error: (error as Error).message }, { status });
+    }
+    console.error('Failed to add incident evidence:', error);
+    return NextResponse.json({ error: 'Failed to add incident evidence' }, { status: 500 });
+  }
+}
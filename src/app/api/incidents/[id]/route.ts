@@ -0,0 +1,117 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+
+import { authenticateRequest, Permission } from '@/lib/auth';
+import {
+  acknowledgeIncident,
+  advanceInvestigation,
+  allowedIncidentActions,
+  assignIncident,
+  escalateIncident,
+  getIncidentDetail,
+  incidentErrorStatus
+} from '@/lib/services/incidentService';
+import { INVESTIGATION_STAGES } from '@/types/incident';
+
+const ActionSchema = z.discriminatedUnion('action', [
+  z.object({ action: z.literal('acknowledge') }),
+  z.object({
+    action: z.literal('assign'),
+    assignee: z.string().min(1).max(100),
+    note: z.string().max(1000).optional(),
+  }),
+  z.object({
+    action: z.literal('advance'),
+    stage: z.enum(INVESTIGATION_STAGES),
+    note: z.string().max(1000).optional(),
+  }),
+  z.object({
+    action: z.literal('escalate'),
+    escalatedTo: z.string().min(1).max(100),
+    reason: z.string().min(1).max(1000),
+    externalReference: z.string().max(100).optional(),
+  }),
+]);
+
+const ACTION_PERMISSIONS: Record<z.infer<typeof ActionSchema>['action'], Permission> = {
+  acknowledge: 'incidents:write',
+  assign: 'incidents:write',
+  advance: 'incidents:write',
+  escalate: 'incidents:escalate',
+};
+
+const errorResponse = (error: unknown, fallback: string) => {
+  const status = incidentErrorStatus(error);
+  if (status) {
+    return NextResponse.json({ error: (error as Error).message }, { status });
+  }
+  console.error(`${fallback}:`, error);
+  return NextResponse.json({ error: fallback }, { status: 500 });
+};
+
+// GET /api/incidents/:id - by id or INC- code, with evidence, statements and SLA state
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authResult = await authenticateRequest(request, ['incidents:read']);
+    if (!authResult.success) {
+      return authResult.response;
+    }
+
+    const { id } = await context.params;
+    const incident = await getIncidentDetail(id);
+    return NextResponse.json({ ...incident, allowedActions: allowedIncidentActions(incident) });
+  } catch (error) {
+    return errorResponse(error, 'Failed to fetch incident');
+  }
+}
+
+// PATCH /api/incidents/:id - acknowledge, assign, advance the investigation or escalate
+export async function PATCH(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authResult = await authenticateRequest(request);
+    if (!authResult.success) {
+      return authResult.response;
+    }
+
+    const parsed = ActionSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid request body', details: parsed.error.errors },
+        { status: 400 }
+      );
+    }
+
+    const { user } = authResult;
+    const body = parsed.data;
+    if (!user.permissions.includes(ACTION_PERMISSIONS[body.action])) {
+      return NextResponse.json(
+        { error: 'Insufficient permissions', requiredPermission: ACTION_PERMISSIONS[body.action] },
+        { status: 403 }
+      );
+    }
+
+    const { id } = await context.params;
+    switch (body.action) {
+      case 'acknowledge':
+        return NextResponse.json(await acknowledgeIncident(id, user.userId));
+      case 'assign':
+        return NextResponse.json(await assignIncident(id, body.assignee, user.userId, body.note));
+      case 'advance':
+        return NextResponse.json(await advanceInvestigation(id, body.stage, user.userId, body.note));
+      case 'escalate':
+        return NextResponse.json(await escalateIncident(id, {
+          escalatedTo: body.escalatedTo,
+          reason: body.reason,
+          externalReference: body.externalReference,
+        }, user.userId));
+    }
+  } catch (error) {
+    return errorResponse(error, 'Failed to update incident');
+  }
+}
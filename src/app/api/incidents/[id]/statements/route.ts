@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+
+import { authenticateRequest } from '@/lib/auth';
+import { addStatement, getIncidentDetail, incidentErrorStatus } from '@/lib/services/incidentService';
+import { STATEMENT_PARTY_TYPES } from '@/types/incident';
+
+const StatementSchema = z.object({
+  partyType: z.enum(STATEMENT_PARTY_TYPES),
+  partyId: z.string().max(100).optional(),
+  partyName: z.string().min(1).max(100),
+  statement: z.string().min(1).max(10000),
+  givenAt: z.string().datetime().optional(),
+});
+
+const DriverStatementSchema = StatementSchema.pick({ partyName: true, statement: true });
+
+// POST /api/incidents/:id/statements - record a statement; the driver on the incident
+// may give their own from the driver app
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authResult = await authenticateRequest(request);
+    if (!authResult.success) {
+      return authResult.response;
+    }
+
+    const { user } = authResult;
+    const { id } = await context.params;
+    const body = await request.json();
+
+    if (user.userType === 'driver') {
+      const parsed = DriverStatementSchema.safeParse(body);
+      if (!parsed.success) {
+        return NextResponse.json(
+          { error: 'Invalid request body', details: parsed.error.errors },
+          { status: 400 }
+        );
+      }
+      const incident = await getIncidentDetail(id);
+      if (incident.driverId !== user.userId) {
+        return NextResponse.json({ error: 'incident_not_found' }, { status: 404 });
+      }
+      const statement = await addStatement(id, {
+        ...parsed.data,
+        partyType: 'driver',
+        partyId: user.userId,
+      }, user.userId);
+      return NextResponse.json(statement, { status: 201 });
+    }
+
+    if (!user.permissions.includes('incidents:write')) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+    }
+
+    const parsed = StatementSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid request body', details: parsed.error.errors },
+        { status: 400 }
+      );
+    }
+    const statement = await addStatement(id, parsed.data, user.userId);
+    return NextResponse.json(statement, { status: 201 });
+  } catch (error) {
+    const status = incidentErrorStatus(error);
+    if (status) {
+      return NextResponse.json({ error: (error as Error).message }, { status });
+    }
+    console.error('Failed to add incident statement:', error);
+    return NextResponse.json({ error: 'Failed to add incident statement' }, { status: 500 });
+  }
+}
@@ -0,0 +1,112 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+
+import { authenticateRequest } from '@/lib/auth';
+import { listIncidents } from '@/lib/repos/incidentsRepo';
+import { createIncident, incidentErrorStatus, incidentSLA } from '@/lib/services/incidentService';
+import { INCIDENT_CASE_TYPES } from '@/types/incident';
+
+const PRIORITIES = ['critical', 'high', 'medium', 'low'] as const;
+
+const ListQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+  status: z.enum([
+    'open_cases', 'open', 'acknowledged', 'in_progress', 'escalated', 'resolved', 'closed'
+  ]).optional(),
+  type: z.enum(INCIDENT_CASE_TYPES).optional(),
+  priority: z.enum(PRIORITIES).optional(),
+  assignedTo: z.string().max(100).optional(),
+  driverId: z.string().uuid().optional(),
+  bookingId: z.string().uuid().optional(),
+  regionId: z.string().uuid().optional(),
+  search: z.string().max(100).optional(),
+});
+
+const CreateIncidentSchema = z.object({
+  type: z.enum(INCIDENT_CASE_TYPES),
+  priority: z.enum(PRIORITIES),
+  title: z.string().min(1).max(200),
+  description: z.string().min(1).max(5000),
+  reporterType: z.enum(['driver', 'customer', 'system', 'operator']).optional(),
+  reporterId: z.string().uuid().optional(),
+  reporterContact: z.string().max(100).optional(),
+  driverId: z.string().uuid().optional(),
+  bookingId: z.string().uuid().optional(),
+  sosAlertId: z.string().uuid().optional(),
+  vehicleId: z.string().max(50).optional(),
+  customerId: z.string().max(100).optional(),
+  location: z.object({
+    latitude: z.number().min(-90).max(90),
+    longitude: z.number().min(-180).max(180),
+    address: z.string().max(500).optional(),
+  }).optional(),
+  regionId: z.string().uuid().optional(),
+  assignedTo: z.string().max(100).optional(),
+});
+
+const errorResponse = (error: unknown, fallback: string) => {
+  const status = incidentErrorStatus(error);
+  if (status) {
+    return NextResponse.json({ error: (error as Error).message }, { status });
+  }
+  console.error(`${fallback}:`, error);
+  return NextResponse.json({ error: fallback }, { status: 500 });
+};
+
+// GET /api/incidents - case list with SLA state, most urgent first
+export async function GET(request: NextRequest) {
+  try {
+    const authResult = await authenticateRequest(request, ['incidents:read']);
+    if (!authResult.success) {
+      return authResult.response;
+    }
+
+    const parsed = ListQuerySchema.safeParse(Object.fromEntries(request.nextUrl.searchParams));
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid query parameters', details: parsed.error.errors },
+        { status: 400 }
+      );
+    }
+
+    const filters = parsed.data;
+    const { incidents, total } = await listIncidents(filters);
+    const now = new Date();
+
+    return NextResponse.json({
+      data: incidents.map(incident => ({ ...incident, sla: incidentSLA(incident, now) })),
+      pagination: {
+        page: filters.page,
+        limit: filters.limit,
+        total,
+        totalPages: Math.ceil(total / filters.limit),
+      },
+    });
+  } catch (error) {
+    return errorResponse(error, 'Failed to fetch incidents');
+  }
+}
+
+// POST /api/incidents - open a case; with sosAlertId the parties and location come from the alert
+export async function POST(request: NextRequest) {
+  try {
+    const authResult = await authenticateRequest(request, ['incidents:write']);
+    if (!authResult.success) {
+      return authResult.response;
+    }
+
+    const parsed = CreateIncidentSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid request body', details: parsed.error.errors },
+        { status: 400 }
+      );
+    }
+
+    const incident = await createIncident(parsed.data, authResult.user.userId);
+    return NextResponse.json(incident, { status: 201 });
+  } catch (error) {
+    return errorResponse(error, 'Failed to create incident');
+  }
+}
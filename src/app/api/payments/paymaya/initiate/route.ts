@@ -1,25 +1,71 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
 
+import { authenticateRequest } from '@/lib/auth';
+import { initiatePayment, paymentErrorStatus } from '@/lib/services/paymentService';
+
+const InitiateSchema = z.object({
+  amount: z.number().positive(),
+  description: z.string().min(1).max(500),
+  referenceNumber: z.string().min(1).max(100).optional(),
+  successUrl: z.string().url(),
+  failureUrl: z.string().url(),
+  bookingId: z.string().uuid().optional(),
+  customer: z.object({
+    name: z.string().optional(),
+    phone: z.string().optional(),
+    email: z.string().email().optional(),
+  }).optional(),
+  metadata: z.record(z.unknown()).optional(),
+});
+
+// POST /api/payments/paymaya/initiate - open a PayMaya checkout
+// Idempotency-Key header (or referenceNumber) makes retries return the original transaction
 export async function POST(request: NextRequest) {
   try {
-    const body = await request.json();
+    const authResult = await authenticateRequest(request, ['bookings:write']);
+    if (!authResult.success) {
+      return authResult.response;
+    }
+
+    const parsed = InitiateSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid request body', details: parsed.error.errors },
+        { status: 400 }
+      );
+    }
+
+    const idempotencyKey = request.headers.get('idempotency-key') || parsed.data.referenceNumber;
+    if (!idempotencyKey) {
+      return NextResponse.json(
+        { success: false, error: 'Idempotency-Key header or referenceNumber is required' },
+        { status: 400 }
+      );
+    }
+
+    const { transaction, replayed } = await initiatePayment(
+      'paymaya', parsed.data, authResult.user.userId, idempotencyKey
+    );
 
     return NextResponse.json({
       success: true,
       data: {
-        redirectUrl: 'https://paymaya.com/payment/mock',
-        transactionId: `TXN-PAYMAYA-${Date.now()}`,
-        ...body,
+        transactionId: transaction.transactionId,
+        redirectUrl: transaction.redirectUrl,
+        transaction,
       },
-      message: 'PayMaya payment initiated successfully',
-    });
+      message: replayed ? 'PayMaya payment already initiated' : 'PayMaya payment initiated successfully',
+    }, { status: replayed ? 200 : 201 });
   } catch (error) {
+    const status = paymentErrorStatus(error);
+    if (status) {
+      return NextResponse.json({ success: false, error: (error as Error).message }, { status });
+    }
+    console.error('Error initiating PayMaya payment:', error);
     return NextResponse.json(
-      {
-        success: false,
-        error: error instanceof Error ? error.message : 'Failed to initiate PayMaya payment',
-      },
-      { status: 400 }
+      { success: false, error: 'Failed to initiate PayMaya payment' },
+      { status: 500 }
     );
   }
 }
@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { handleWebhook, paymentErrorStatus } from '@/lib/services/paymentService';
+
+// POST /api/payments/paymaya/webhook - provider callback, authenticated by its HMAC signature
+export async function POST(request: NextRequest) {
+  try {
+    // The signature covers the exact bytes sent, so read the body as text
+    const rawBody = await request.text();
+    const outcome = await handleWebhook('paymaya', rawBody, request.headers);
+
+    return NextResponse.json({ success: true, data: outcome });
+  } catch (error) {
+    const status = paymentErrorStatus(error);
+    if (status) {
+      return NextResponse.json({ success: false, error: (error as Error).message }, { status });
+    }
+    console.error('Error processing PayMaya webhook:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to process PayMaya webhook' },
+      { status: 500 }
+    );
+  }
+}
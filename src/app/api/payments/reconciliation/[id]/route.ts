@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+
+import { authenticateRequest } from '@/lib/auth';
+import { getItem, listAudit } from '@/lib/repos/reconciliationRepo';
+import { applyReconciliationAction, reconciliationErrorStatus } from '@/lib/services/reconciliationService';
+
+const ActionSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('match'), transactionId: z.string().min(1), notes: z.string().max(2000).optional() }),
+  z.object({
+    type: z.literal('reconcile'),
+    invoiceId: z.string().uuid().optional(),
+    notes: z.string().max(2000).optional(),
+  }),
+  z.object({ type: z.literal('discrepancy'), reason: z.string().min(1).max(200), notes: z.string().max(2000).optional() }),
+  z.object({ type: z.literal('dispute'), notes: z.string().max(2000).optional() }),
+  z.object({ type: z.literal('unmatch'), notes: z.string().max(2000).optional() }),
+]);
+
+// GET /api/payments/reconciliation/:id - item with its audit trail
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authResult = await authenticateRequest(request, ['analytics:read']);
+    if (!authResult.success) {
+      return authResult.response;
+    }
+
+    const { id } = await context.params;
+    const item = await getItem(id);
+    if (!item) {
+      return NextResponse.json({ success: false, error: 'Reconciliation item not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true, data: { ...item, auditTrail: await listAudit(id) } });
+  } catch (error) {
+    console.error('Error fetching reconciliation item:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch reconciliation item' },
+      { status: 500 }
+    );
+  }
+}
+
+// PATCH /api/payments/reconciliation/:id - manual match, accept, flag, dispute or unmatch
+export async function PATCH(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authResult = await authenticateRequest(request, ['bookings:write']);
+    if (!authResult.success) {
+      return authResult.response;
+    }
+
+    const parsed = ActionSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid request body', details: parsed.error.errors },
+        { status: 400 }
+      );
+    }
+
+    const { id } = await context.params;
+    const item = await applyReconciliationAction(id, parsed.data, authResult.user.userId);
+
+    return NextResponse.json({
+      success: true,
+      data: { ...item, auditTrail: await listAudit(id) },
+      message: 'Reconciliation item updated',
+    });
+  } catch (error) {
+    const status = reconciliationErrorStatus(error);
+    if (status) {
+      return NextResponse.json({ success: false, error: (error as Error).message }, { status });
+    }
+    console.error('Error updating reconciliation item:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to update reconciliation item' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,48 +1,115 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
 
+import { authenticateRequest } from '@/lib/auth';
+import { getDailySummary, listItems } from '@/lib/repos/reconciliationRepo';
+import { importStatement, reconciliationErrorStatus } from '@/lib/services/reconciliationService';
+
+const ListQuerySchema = z.object({
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+  status: z.enum(['pending', 'reconciled', 'discrepancy', 'disputed']).optional(),
+  provider: z.enum(['gcash', 'paymaya', 'bank']).optional(),
+  statementId: z.string().uuid().optional(),
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+});
+
+const ImportSchema = z.object({
+  provider: z.enum(['gcash', 'paymaya', 'bank']),
+  fileName: z.string().min(1).max(255),
+  content: z.string().min(1).max(10_000_000),
+  dateToleranceHours: z.number().min(0).max(24 * 14).optional(),
+});
+
+const manilaToday = () => new Date().toLocaleDateString('en-CA', { timeZone: 'Asia/Manila' });
+
+// GET /api/payments/reconciliation - daily summary and matched statement lines
 export async function GET(request: NextRequest) {
-  const searchParams = request.nextUrl.searchParams;
-  const date = searchParams.get('date');
-
-  return NextResponse.json({
-    success: true,
-    data: {
-      summary: {
-        date: date || new Date().toISOString(),
-        totalTransactions: 0,
-        reconciledCount: 0,
-        pendingCount: 0,
-        discrepancyCount: 0,
-        expectedTotal: 0,
-        actualTotal: 0,
-        difference: 0,
+  try {
+    const authResult = await authenticateRequest(request, ['analytics:read']);
+    if (!authResult.success) {
+      return authResult.response;
+    }
+
+    const parsed = ListQuerySchema.safeParse(Object.fromEntries(request.nextUrl.searchParams));
+    if (!parsed.success) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid query parameters', details: parsed.error.errors },
+        { status: 400 }
+      );
+    }
+
+    const { date = manilaToday(), status, provider, statementId, page, limit } = parsed.data;
+    const summary = await getDailySummary(date);
+    const { items, total } = await listItems({
+      page,
+      limit,
+      status: status ? [status] : undefined,
+      provider,
+      statementId,
+      dateFrom: statementId ? undefined : date,
+      dateTo: statementId ? undefined : date,
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        summary: {
+          date,
+          ...summary,
+          difference: Math.round((summary.actualTotal - summary.expectedTotal) * 100) / 100,
+        },
+        items,
       },
-      items: [],
-    },
-    message: 'Reconciliation data retrieved successfully',
-  });
+      pagination: { page, limit, total, totalPages: Math.ceil(total / limit) },
+      message: 'Reconciliation data retrieved successfully',
+    });
+  } catch (error) {
+    console.error('Error fetching reconciliation data:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch reconciliation data' },
+      { status: 500 }
+    );
+  }
 }
 
+// POST /api/payments/reconciliation - import a provider settlement statement (CSV) and auto-match it
 export async function POST(request: NextRequest) {
   try {
-    const body = await request.json();
+    const authResult = await authenticateRequest(request, ['bookings:write']);
+    if (!authResult.success) {
+      return authResult.response;
+    }
+
+    const parsed = ImportSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid request body', details: parsed.error.errors },
+        { status: 400 }
+      );
+    }
+
+    const { dateToleranceHours, ...input } = parsed.data;
+    const result = await importStatement(
+      input,
+      authResult.user.userId,
+      dateToleranceHours === undefined ? undefined : { dateToleranceHours, amountTolerance: 0.01 }
+    );
 
     return NextResponse.json({
       success: true,
-      data: {
-        ...body,
-        reconciledAt: new Date().toISOString(),
-        status: 'reconciled',
-      },
-      message: 'Transaction reconciled successfully',
-    });
+      data: result,
+      message: 'Statement imported and matched',
+    }, { status: 201 });
   } catch (error) {
+    const status = reconciliationErrorStatus(error);
+    if (status) {
+      return NextResponse.json({ success: false, error: (error as Error).message }, { status });
+    }
+    console.error('Error importing settlement statement:', error);
     return NextResponse.json(
-      {
-        success: false,
-        error: error instanceof Error ? error.message : 'Failed to reconcile transaction',
-      },
-      { status: 400 }
+      { success: false, error: 'Failed to import settlement statement' },
+      { status: 500 }
     );
   }
 }
@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+
+import { authenticateRequest } from '@/lib/auth';
+import { listStatements } from '@/lib/repos/reconciliationRepo';
+
+const ListQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  provider: z.enum(['gcash', 'paymaya', 'bank']).optional(),
+});
+
+// GET /api/payments/reconciliation/statements - imported settlement files with per-status counts
+export async function GET(request: NextRequest) {
+  try {
+    const authResult = await authenticateRequest(request, ['analytics:read']);
+    if (!authResult.success) {
+      return authResult.response;
+    }
+
+    const parsed = ListQuerySchema.safeParse(Object.fromEntries(request.nextUrl.searchParams));
+    if (!parsed.success) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid query parameters', details: parsed.error.errors },
+        { status: 400 }
+      );
+    }
+
+    const filters = parsed.data;
+    const { statements, total } = await listStatements(filters);
+
+    return NextResponse.json({
+      success: true,
+      data: statements,
+      pagination: {
+        page: filters.page,
+        limit: filters.limit,
+        total,
+        totalPages: Math.ceil(total / filters.limit),
+      },
+    });
+  } catch (error) {
+    console.error('Error fetching settlement statements:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch settlement statements' },
+      { status: 500 }
+    );
+  }
+}
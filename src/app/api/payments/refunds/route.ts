@@ -1,35 +1,101 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
 
-export async function GET() {
-  return NextResponse.json({
-    success: true,
-    data: [],
-    message: 'Refunds retrieved successfully',
-  });
-}
+import { authenticateRequest } from '@/lib/auth';
+import { listRefunds } from '@/lib/repos/paymentsRepo';
+import { paymentErrorStatus, refundPayment } from '@/lib/services/paymentService';
 
-export async function POST(request: NextRequest) {
+const ListQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(10),
+  status: z.enum(['pending', 'processed', 'failed']).optional(),
+  transactionId: z.string().optional(),
+});
+
+const RefundSchema = z.object({
+  transactionId: z.string().min(1),
+  amount: z.number().positive(),
+  reason: z.string().min(1).max(100),
+  description: z.string().max(1000).optional(),
+});
+
+// GET /api/payments/refunds
+export async function GET(request: NextRequest) {
   try {
-    const body = await request.json();
+    const authResult = await authenticateRequest(request, ['bookings:read']);
+    if (!authResult.success) {
+      return authResult.response;
+    }
+
+    const parsed = ListQuerySchema.safeParse(Object.fromEntries(request.nextUrl.searchParams));
+    if (!parsed.success) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid query parameters', details: parsed.error.errors },
+        { status: 400 }
+      );
+    }
+
+    const filters = parsed.data;
+    const { refunds, total } = await listRefunds(filters);
 
     return NextResponse.json({
       success: true,
-      data: {
-        id: `rfn_${Date.now()}`,
-        refundId: `RFN-${Date.now()}`,
-        ...body,
-        status: 'pending',
-        createdAt: new Date().toISOString(),
+      data: refunds,
+      pagination: {
+        page: filters.page,
+        limit: filters.limit,
+        total,
+        totalPages: Math.ceil(total / filters.limit),
       },
-      message: 'Refund request created successfully',
+      message: 'Refunds retrieved successfully',
     });
   } catch (error) {
+    console.error('Error fetching refunds:', error);
     return NextResponse.json(
-      {
-        success: false,
-        error: error instanceof Error ? error.message : 'Failed to create refund request',
-      },
-      { status: 400 }
+      { success: false, error: 'Failed to fetch refunds' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/payments/refunds - refund part or all of a completed wallet payment
+export async function POST(request: NextRequest) {
+  try {
+    const authResult = await authenticateRequest(request, ['bookings:cancel']);
+    if (!authResult.success) {
+      return authResult.response;
+    }
+
+    const parsed = RefundSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid request body', details: parsed.error.errors },
+        { status: 400 }
+      );
+    }
+
+    const { transactionId, amount, reason, description } = parsed.data;
+    const refund = await refundPayment(
+      transactionId,
+      amount,
+      description ? `${reason}: ${description}` : reason,
+      authResult.user.userId
+    );
+
+    return NextResponse.json({
+      success: true,
+      data: refund,
+      message: refund.status === 'failed' ? 'Refund was declined by the provider' : 'Refund request created successfully',
+    }, { status: 201 });
+  } catch (error) {
+    const status = paymentErrorStatus(error);
+    if (status) {
+      return NextResponse.json({ success: false, error: (error as Error).message }, { status });
+    }
+    console.error('Error creating refund:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to create refund request' },
+      { status: 500 }
     );
   }
 }
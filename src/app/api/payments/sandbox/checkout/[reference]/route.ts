@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+
+import { getSandboxProvider, isSandboxMode } from '@/lib/payments';
+import { getTransactionByProviderReference } from '@/lib/repos/paymentsRepo';
+import { handleWebhook, paymentErrorStatus } from '@/lib/services/paymentService';
+
+const CheckoutSchema = z.object({
+  outcome: z.enum(['approve', 'decline', 'cancel']).default('approve'),
+  autoCapture: z.boolean().default(true),
+});
+
+// POST /api/payments/sandbox/checkout/:reference - stand-in for the payer finishing checkout
+// Delivers the signed webhook the sandbox would send, through the same handler real providers hit.
+// Unauthenticated by design, so it is never served in production, even with the sandbox enabled.
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ reference: string }> }
+) {
+  if (process.env.NODE_ENV === 'production' || !isSandboxMode()) {
+    return NextResponse.json({ success: false, error: 'Not found' }, { status: 404 });
+  }
+
+  try {
+    const { reference } = await context.params;
+    const parsed = CheckoutSchema.safeParse(await request.json().catch(() => ({})));
+    if (!parsed.success) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid request body', details: parsed.error.errors },
+        { status: 400 }
+      );
+    }
+
+    const txn = await getTransactionByProviderReference('sandbox', reference);
+    if (!txn) {
+      return NextResponse.json({ success: false, error: 'Sandbox payment not found' }, { status: 404 });
+    }
+
+    let delivery;
+    try {
+      delivery = getSandboxProvider().completeCheckout(reference, parsed.data.outcome, {
+        autoCapture: parsed.data.autoCapture,
+      });
+    } catch (error) {
+      return NextResponse.json({ success: false, error: (error as Error).message }, { status: 409 });
+    }
+
+    const outcome = await handleWebhook(txn.paymentMethod, delivery.rawBody, delivery.headers);
+
+    return NextResponse.json({
+      success: true,
+      data: outcome,
+      message: 'Sandbox checkout completed',
+    });
+  } catch (error) {
+    const status = paymentErrorStatus(error);
+    if (status) {
+      return NextResponse.json({ success: false, error: (error as Error).message }, { status });
+    }
+    console.error('Error completing sandbox checkout:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to complete sandbox checkout' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+
+import { authenticateRequest } from '@/lib/auth';
+import { getTransaction, listTransactionEvents } from '@/lib/repos/paymentsRepo';
+import { capturePayment, paymentErrorStatus } from '@/lib/services/paymentService';
+
+const ActionSchema = z.object({
+  action: z.literal('capture'),
+});
+
+// GET /api/payments/transactions/:id - transaction with its status history
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authResult = await authenticateRequest(request, ['bookings:read']);
+    if (!authResult.success) {
+      return authResult.response;
+    }
+
+    const { id } = await context.params;
+    const transaction = await getTransaction(id);
+    if (!transaction) {
+      return NextResponse.json({ success: false, error: 'Transaction not found' }, { status: 404 });
+    }
+    const events = await listTransactionEvents(transaction.id);
+
+    return NextResponse.json({ success: true, data: { ...transaction, events } });
+  } catch (error) {
+    console.error('Error fetching payment transaction:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch transaction' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/payments/transactions/:id - capture an authorized payment
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authResult = await authenticateRequest(request, ['bookings:write']);
+    if (!authResult.success) {
+      return authResult.response;
+    }
+
+    const parsed = ActionSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid request body', details: parsed.error.errors },
+        { status: 400 }
+      );
+    }
+
+    const { id } = await context.params;
+    const transaction = await capturePayment(id);
+
+    return NextResponse.json({
+      success: true,
+      data: transaction,
+      message: transaction.status === 'completed' ? 'Payment captured' : 'Payment capture failed',
+    });
+  } catch (error) {
+    const status = paymentErrorStatus(error);
+    if (status) {
+      return NextResponse.json({ success: false, error: (error as Error).message }, { status });
+    }
+    console.error('Error capturing payment:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to capture payment' },
+      { status: 500 }
+    );
+  }
+}
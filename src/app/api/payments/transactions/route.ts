@@ -1,46 +1,54 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
 
-export async function GET(request: NextRequest) {
-  const searchParams = request.nextUrl.searchParams;
-  const page = searchParams.get('page') || '1';
-  const limit = searchParams.get('limit') || '10';
+import { authenticateRequest } from '@/lib/auth';
+import { listTransactions } from '@/lib/repos/paymentsRepo';
 
-  return NextResponse.json({
-    success: true,
-    data: [],
-    pagination: {
-      page: parseInt(page),
-      limit: parseInt(limit),
-      total: 0,
-      totalPages: 0,
-    },
-    message: 'Transactions retrieved successfully',
-  });
-}
+const ListQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(10),
+  status: z.enum(['pending', 'processing', 'completed', 'failed', 'refunded', 'cancelled']).optional(),
+  paymentMethod: z.enum(['gcash', 'paymaya']).optional(),
+  userId: z.string().optional(),
+  bookingId: z.string().uuid().optional(),
+});
 
-export async function POST(request: NextRequest) {
+// GET /api/payments/transactions
+// Wallet payments are created through /api/payments/{gcash,paymaya}/initiate
+export async function GET(request: NextRequest) {
   try {
-    const body = await request.json();
+    const authResult = await authenticateRequest(request, ['bookings:read']);
+    if (!authResult.success) {
+      return authResult.response;
+    }
+
+    const parsed = ListQuerySchema.safeParse(Object.fromEntries(request.nextUrl.searchParams));
+    if (!parsed.success) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid query parameters', details: parsed.error.errors },
+        { status: 400 }
+      );
+    }
+
+    const filters = parsed.data;
+    const { transactions, total } = await listTransactions(filters);
 
     return NextResponse.json({
       success: true,
-      data: {
-        id: `txn_${Date.now()}`,
-        transactionId: `TXN-${Date.now()}`,
-        ...body,
-        status: 'pending',
-        createdAt: new Date().toISOString(),
-        updatedAt: new Date().toISOString(),
+      data: transactions,
+      pagination: {
+        page: filters.page,
+        limit: filters.limit,
+        total,
+        totalPages: Math.ceil(total / filters.limit),
       },
-      message: 'Transaction created successfully',
+      message: 'Transactions retrieved successfully',
     });
   } catch (error) {
+    console.error('Error fetching payment transactions:', error);
     return NextResponse.json(
-      {
-        success: false,
-        error: error instanceof Error ? error.message : 'Failed to create transaction',
-      },
-      { status: 400 }
+      { success: false, error: 'Failed to fetch transactions' },
+      { status: 500 }
     );
   }
 }
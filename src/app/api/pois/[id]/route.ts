@@ -42,6 +42,19 @@ const UpdatePOISchema = z.object({
   version: z.number() // Required for optimistic concurrency
 });
 
+// POI row with its JSON columns still serialised
+type PoiRow = Record<string, unknown> & {
+  location: string;
+  boundary: string | null;
+  pickup_lanes: string | null;
+  dropoff_lanes: string | null;
+  restrictions: string | null;
+  queue_policy: string | null;
+  metadata: string | null;
+};
+
+type VersionedRow = Record<string, unknown> & { version: number };
+
 // GET /api/pois/[id] - Get single POI
 export async function GET(
   request: NextRequest,
@@ -51,7 +64,7 @@ export async function GET(
     const { id } = params;
     const db = await getDb();
     
-    const poi = await db.get(`
+    const poi = await db.get<PoiRow>(`
       SELECT p.*, z.name as zone_name, z.code as zone_code, r.name as region_name
       FROM pois p
       LEFT JOIN zones z ON p.zone_id = z.id
@@ -217,7 +230,7 @@ export async function PUT(
     await db.run(query, updateValues);
 
     // Create history record
-    const updatedPOI = await db.get('SELECT * FROM pois WHERE id = ?', [id]);
+    const updatedPOI = (await db.get<VersionedRow>('SELECT * FROM pois WHERE id = ?', [id]))!;
     
     await db.run(`
       INSERT INTO poi_history (poi_id, version, snapshot, created_by)
@@ -270,12 +283,12 @@ export async function DELETE(
     }
 
     // Check if POI has active pricing overrides
-    const activePricingOverrides = await db.get(
+    const activePricingOverrides = await db.get<{ count: number }>(
       'SELECT COUNT(*) as count FROM pricing_poi_overrides ppo JOIN pricing_profiles pp ON ppo.profile_id = pp.id WHERE ppo.poi_id = ? AND pp.status = "active"',
       [id]
     );
     
-    if (activePricingOverrides.count > 0) {
+    if ((activePricingOverrides?.count ?? 0) > 0) {
       return NextResponse.json(
         { error: 'Cannot delete POI with active pricing overrides. Remove overrides first.' },
         { status: 400 }
@@ -293,7 +306,7 @@ export async function DELETE(
     `, ['current-user', id]);
 
     // Create history record
-    const updatedPOI = await db.get('SELECT * FROM pois WHERE id = ?', [id]);
+    const updatedPOI = (await db.get<VersionedRow>('SELECT * FROM pois WHERE id = ?', [id]))!;
     
     await db.run(`
       INSERT INTO poi_history (poi_id, version, snapshot, created_by)
@@ -43,6 +43,17 @@ const CreatePOISchema = z.object({
   metadata: z.record(z.any()).default({})
 });
 
+// POI row with its JSON columns still serialised
+type PoiRow = Record<string, unknown> & {
+  location: string;
+  boundary: string | null;
+  pickup_lanes: string | null;
+  dropoff_lanes: string | null;
+  restrictions: string | null;
+  queue_policy: string | null;
+  metadata: string | null;
+};
+
 // GET /api/pois - List POIs with filtering
 export async function GET(request: NextRequest) {
   try {
@@ -91,7 +102,7 @@ export async function GET(request: NextRequest) {
     `;
     params.push(limit, offset);
 
-    const pois = await db.all(query, params);
+    const pois = await db.all<PoiRow>(query, params);
     
     // Parse JSON fields and transform data
     const processedPOIs = pois.map(poi => ({
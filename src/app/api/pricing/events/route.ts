@@ -15,6 +15,8 @@ const EventIngestionSchema = z.object({
   source: z.string() // 'weather_api', 'pagasa', 'mmda', 'naia_ops', etc.
 });
 
+type PricingEventRow = Record<string, unknown> & { event_data: string | null; coordinates: string | null };
+
 // GET /api/pricing/events - List recent pricing events
 export async function GET(request: NextRequest) {
   try {
@@ -59,7 +61,7 @@ export async function GET(request: NextRequest) {
     `;
     params.push(limit);
 
-    const events = await db.all(query, params);
+    const events = await db.all<PricingEventRow>(query, params);
     
     // Parse JSON fields
     const processedEvents = events.map(event => ({
@@ -1,11 +1,22 @@
+import { latLngToCell } from 'h3-js';
 import { NextRequest, NextResponse } from 'next/server';
-import sqlite3 from 'sqlite3';
-import path from 'path';
+
+import {
+  FareBreakdownLine,
+  FareToll,
+  computeFare,
+  loadComplianceCaps,
+  loadProfilePricing,
+  round2
+} from '@/lib/pricing/fareEngine';
+import { withPricingStore } from '@/lib/pricing/pricingStore';
 import { PreviewRequest, PreviewResponse, FareLine } from '@/lib/pricing/schemas';
-import { SurgeLookupRequest } from '@/lib/pricing/surgeSchemas';
-import { latLngToCell } from 'h3-js';
+import { lookupSurge } from '@/lib/pricing/surgeResolver';
+import { SurgeLookupRequest, SurgeLookupResponse } from '@/lib/pricing/surgeSchemas';
+import { previewPromos } from '@/lib/services/promoService';
 
-const DB_PATH = path.join(process.cwd(), 'xpress_ops.db');
+// Lines a summary-only rider view still shows
+const SUMMARY_LINE_KEYS = ['base_fare', 'flagdown', 'flat_fare', 'booking_fee', 'surge', 'toll', 'rounding'];
 
 // POST /api/pricing/profiles/[id]/preview - Compute fare breakdown
 export async function POST(request: NextRequest, { params }: { params: { id: string } }) {
@@ -13,194 +24,152 @@ export async function POST(request: NextRequest, { params }: { params: { id: str
     const profileId = parseInt(params.id);
     const body = await request.json();
     const validatedData = PreviewRequest.parse(body);
-    
-    const fareBreakdown = await new Promise<PreviewResponse>((resolve, reject) => {
-      const db = new sqlite3.Database(DB_PATH);
-      
-      // Get profile and components
-      db.get('SELECT * FROM pricing_profiles WHERE id = ?', [profileId], (err, profile) => {
-        if (err) {
-          db.close();
-          reject(err);
-          return;
-        }
-        
-        if (!profile) {
-          db.close();
-          reject(new Error('Profile not found'));
-          return;
-        }
-        
-        // Get components
-        db.all('SELECT * FROM pricing_components WHERE profile_id = ? ORDER BY sort_order', 
-          [profileId], (err, components) => {
-          if (err) {
-            db.close();
-            reject(err);
-            return;
-          }
-          
-          // Get earnings policy
-          db.get('SELECT * FROM pricing_earnings_policies WHERE profile_id = ?', 
-            [profileId], async (err, earningsPolicy) => {
-            db.close();
-            
-            if (err) {
-              reject(err);
-              return;
-            }
-            
-            // Compute fare breakdown
-            const breakdown = await computeFareBreakdown(
-              profile, 
-              components || [], 
-              earningsPolicy,
-              validatedData
-            );
-            
-            resolve(breakdown);
-          });
-        });
-      });
-    });
-    
-    return NextResponse.json(fareBreakdown);
+
+    const profile = await withPricingStore(store => store.get<{ id: number; region_id: string; service_key: string }>(
+      'SELECT id, region_id, service_key FROM pricing_profiles WHERE id = ?',
+      [profileId]
+    ));
+    if (!profile) {
+      throw new Error('Profile not found');
+    }
+
+    const tolls = await loadTolls(validatedData.tollIds ?? []);
+    return NextResponse.json(await computeFareBreakdown(profile, validatedData, tolls));
     
   } catch (error) {
     console.error('Preview error:', error);
+    const message = error instanceof Error ? error.message : '';
     return NextResponse.json(
-      { error: error instanceof Error ? error.message : 'Failed to compute preview' },
-      { status: error instanceof Error && error.message === 'Profile not found' ? 404 : 500 }
+      { error: message || 'Failed to compute preview' },
+      { status: message === 'Profile not found' ? 404 : message.startsWith('Unknown toll') ? 400 : 500 }
     );
   }
 }
 
+// Active tolls by id, in the order they were given
+async function loadTolls(tollIds: number[]): Promise<FareToll[]> {
+  if (tollIds.length === 0) {
+    return [];
+  }
+  const rows = await withPricingStore(store => store.all<FareToll>(
+    `SELECT id, name, amount FROM tolls WHERE active = 1 AND id IN (${tollIds.map(() => '?').join(', ')})`,
+    tollIds
+  ));
+  const byId = new Map(rows.map(row => [row.id, { ...row, amount: Number(row.amount) }]));
+  const missing = tollIds.filter(id => !byId.has(id));
+  if (missing.length > 0) {
+    throw new Error(`Unknown toll: ${missing.join(', ')}`);
+  }
+  return tollIds.map(id => byId.get(id)!);
+}
+
+// Shown to drivers in full; riders see published lines, or only the summary lines
+function isVisible(line: FareBreakdownLine, previewData: PreviewRequest): boolean {
+  if (previewData.perspective === 'driver') {
+    return true;
+  }
+  return previewData.riderView === 'detailed_breakdown'
+    ? line.publish
+    : SUMMARY_LINE_KEYS.includes(line.key);
+}
+
 async function computeFareBreakdown(
-  profile: any, 
-  components: any[], 
-  earningsPolicy: any,
-  previewData: PreviewRequest
+  profile: { id: number; region_id: string; service_key: string },
+  previewData: PreviewRequest,
+  tolls: FareToll[]
 ): Promise<PreviewResponse> {
-  // Simple distance/time calculation (mock implementation)
+  // Straight-line estimate until the preview is routed
   const distance = calculateDistance(previewData.origin, previewData.destination); // km
   const estimatedTime = Math.max(distance * 3, 10); // minutes, rough estimate
-  
-  const breakdown: FareLine[] = [];
-  let total = 0;
-  
-  // Process each component
-  components.forEach(component => {
-    let amount = 0;
-    let meta = '';
-    
-    switch (component.key) {
-      case 'base_fare':
-      case 'flagdown':
-      case 'flat_fare':
-        amount = component.value_numeric || 0;
-        break;
-        
-      case 'included_km':
-        // This is informational, doesn't add to fare
-        amount = 0;
-        meta = `${component.value_numeric} km included`;
-        break;
-        
-      case 'per_km':
-        const billableDistance = Math.max(0, distance - (getIncludedKm(components) || 0));
-        amount = (component.value_numeric || 0) * billableDistance;
-        meta = `${billableDistance.toFixed(1)} km @ ₱${component.value_numeric}/km`;
-        break;
-        
-      case 'per_min':
-        amount = (component.value_numeric || 0) * estimatedTime;
-        meta = `${estimatedTime.toFixed(0)} min @ ₱${component.value_numeric}/min`;
-        break;
-        
-      case 'booking_fee':
-      case 'airport_surcharge':
-        amount = component.value_numeric || 0;
-        break;
-    }
-    
-    // Apply publish filter for rider view
-    const shouldShow = previewData.perspective === 'driver' || 
-                      (previewData.riderView === 'detailed_breakdown' && component.publish) ||
-                      (previewData.riderView === 'summary_only' && ['base_fare', 'booking_fee', 'flat_fare'].includes(component.key));
-    
-    if (shouldShow && (amount > 0 || component.key === 'included_km')) {
-      breakdown.push({
-        label: formatComponentLabel(component.key),
-        amount: amount,
-        meta: meta || undefined,
-        publish: Boolean(component.publish),
-        ruleId: component.id // Add component ID for traceability
-      });
-      
-      total += amount;
-    }
-  });
-  
-  // Add surge pricing via lookup API
+
+  const regionId = profile.region_id ? String(profile.region_id) : undefined;
+  let surge: SurgeLookupResponse | null = null;
   try {
-    const originH3 = latLngToCell(previewData.origin.lat, previewData.origin.lon, 8);
-    const surgeResult = await lookupSurgeMultiplier(
-      profile.service_key,
-      originH3,
-      previewData.timestamp
-    );
-    
-    if (surgeResult && surgeResult.multiplier > 1.0) {
-      const surgeAmount = total * (surgeResult.multiplier - 1);
-      const additiveFee = surgeResult.additiveFee || 0;
-      
-      breakdown.push({
-        label: 'Surge',
-        amount: surgeAmount + additiveFee,
-        meta: surgeResult.additiveFee > 0 
-          ? `${surgeResult.multiplier}x + ₱${surgeResult.additiveFee}`
-          : `${surgeResult.multiplier}x ${surgeResult.source}`,
-        publish: true,
-        ruleId: surgeResult.ruleId
-      });
-      total += surgeAmount + additiveFee;
-    }
+    surge = await lookupSurge({
+      serviceKey: profile.service_key as SurgeLookupRequest['serviceKey'],
+      originH3: latLngToCell(previewData.origin.lat, previewData.origin.lon, 8),
+      timestamp: previewData.timestamp,
+      regionId
+    });
   } catch (error) {
     console.error('Surge lookup error in preview:', error);
     // Continue without surge if lookup fails
   }
-  
-  // Calculate earnings split
-  let driverEarnings = 0;
-  let companyTake = 0;
-  const notes: string[] = [];
-  
-  if (earningsPolicy) {
-    const revenueSplit = JSON.parse(earningsPolicy.revenue_split || '{}');
-    const driverPct = revenueSplit.driver_pct || 0;
-    const xpressPct = revenueSplit.xpress_pct || 0;
-    
-    const bookingFeeAmount = components.find(c => c.key === 'booking_fee')?.value_numeric || 0;
-    const fareExcludingBookingFee = total - bookingFeeAmount;
-    
-    driverEarnings = fareExcludingBookingFee * driverPct;
-    companyTake = fareExcludingBookingFee * xpressPct + bookingFeeAmount;
-    
-    if (revenueSplit.booking_fee_to === 'xpress') {
-      notes.push('Booking fee goes to Xpress');
-    }
-    
-    if (revenueSplit.tolls_to === 'driver_reimbursed') {
-      notes.push('Tolls reimbursed to driver');
+
+  const pricing = await loadProfilePricing(profile.id);
+  const fare = computeFare({
+    pricing,
+    caps: regionId ? await loadComplianceCaps(regionId, profile.service_key) : {},
+    trip: { distanceKm: distance, durationMin: estimatedTime, isAirport: false },
+    surge,
+    tolls
+  });
+
+  const breakdown: FareLine[] = fare.lines
+    .filter(line => isVisible(line, previewData))
+    .map(line => ({
+      label: line.label,
+      amount: line.amount,
+      meta: line.meta,
+      publish: line.publish,
+      ruleId: line.ruleId ?? undefined,
+      rule: line.rule
+    }));
+  let total = fare.total;
+  let companyTake = fare.companyTake;
+  const notes: string[] = fare.capHits.map(cap => `Capped by ${cap}`);
+
+  const { revenueSplit } = pricing;
+  if (revenueSplit.booking_fee_to === 'xpress') {
+    notes.push('Booking fee goes to Xpress');
+  }
+  if (revenueSplit.tolls_to === 'driver_reimbursed') {
+    notes.push('Tolls reimbursed to driver');
+  }
+
+  // Promo discounts come off the rider's fare and out of the company take; driver earnings are unchanged
+  const promoResult: Partial<PreviewResponse> = {};
+  if (previewData.promoCodes?.length && total > 0) {
+    try {
+      const evaluation = await previewPromos(previewData.promoCodes, {
+        customerId: previewData.customerId,
+        orderAmount: total,
+        serviceKey: profile.service_key,
+        regionId,
+        zoneId: previewData.zoneId,
+        at: new Date(previewData.timestamp)
+      });
+
+      evaluation.applied.forEach(promo => {
+        breakdown.push({
+          label: `Promo ${promo.code}`,
+          amount: -promo.discountAmount,
+          meta: promo.name,
+          publish: true
+        });
+      });
+      if (evaluation.discount > 0) {
+        total = round2(total - evaluation.discount);
+        companyTake = round2(companyTake - evaluation.discount);
+        notes.push('Promo discount funded by Xpress');
+      }
+
+      promoResult.promoDiscount = evaluation.discount;
+      promoResult.promos = evaluation.applied.map(({ code, name, discountAmount }) => ({ code, name, discountAmount }));
+      promoResult.rejectedPromos = evaluation.rejected;
+    } catch (error) {
+      console.error('Promo evaluation error in preview:', error);
+      // Continue without promos if evaluation fails
     }
   }
-  
+
   return {
     breakdown,
     total,
-    driverEarnings,
+    driverEarnings: fare.driverEarnings,
     companyTake,
-    notes
+    notes,
+    ...promoResult
   };
 }
 
@@ -215,54 +184,3 @@ function calculateDistance(origin: { lat: number; lon: number }, destination: {
   const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1-a));
   return R * c;
 }
-
-function getIncludedKm(components: any[]): number {
-  const includedKmComponent = components.find(c => c.key === 'included_km');
-  return includedKmComponent?.value_numeric || 0;
-}
-
-function formatComponentLabel(key: string): string {
-  const labels: Record<string, string> = {
-    'base_fare': 'Base Fare',
-    'included_km': 'Included Distance',
-    'per_km': 'Distance',
-    'per_min': 'Time',
-    'booking_fee': 'Booking Fee',
-    'flagdown': 'Flagdown',
-    'flat_fare': 'Flat Fare',
-    'airport_surcharge': 'Airport Surcharge'
-  };
-  return labels[key] || key.replace('_', ' ').replace(/\b\w/g, l => l.toUpperCase());
-}
-
-async function lookupSurgeMultiplier(
-  serviceKey: string,
-  originH3: string,
-  timestamp: string
-) {
-  try {
-    const surgeLookupRequest: SurgeLookupRequest = {
-      serviceKey: serviceKey as any,
-      originH3,
-      timestamp
-    };
-
-    // Make internal API call to surge lookup
-    const response = await fetch(`http://localhost:${process.env.PORT || 4002}/api/surge/lookup`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(surgeLookupRequest)
-    });
-
-    if (!response.ok) {
-      throw new Error(`Surge lookup failed: ${response.status}`);
-    }
-
-    return await response.json();
-  } catch (error) {
-    console.error('Error calling surge lookup API:', error);
-    return null;
-  }
-}
\ No newline at end of file
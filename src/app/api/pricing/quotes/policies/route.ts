@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+
+import { authenticateRequest } from '@/lib/auth';
+import { listQuotePolicies } from '@/lib/repos/fareQuotesRepo';
+import { setQuotePolicy } from '@/lib/services/fareQuoteService';
+
+const ListQuerySchema = z.object({
+  includeInactive: z.enum(['true', 'false']).transform(value => value === 'true').optional(),
+});
+
+const SetPolicySchema = z.object({
+  regionId: z.string().max(50).nullable().optional(),
+  serviceKey: z.enum(['tnvs', 'taxi', 'special', 'pop']).nullable().optional(),
+  quoteTtlSeconds: z.number().int().min(30).max(3600).optional(),
+  distanceTolerancePct: z.number().min(0).max(999).optional(),
+  durationTolerancePct: z.number().min(0).max(999).nullable().optional(),
+  allowIncrease: z.boolean().optional(),
+});
+
+// GET /api/pricing/quotes/policies
+export async function GET(request: NextRequest) {
+  try {
+    const authResult = await authenticateRequest(request, ['analytics:read']);
+    if (!authResult.success) {
+      return authResult.response;
+    }
+
+    const parsed = ListQuerySchema.safeParse(Object.fromEntries(request.nextUrl.searchParams));
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid query parameters', details: parsed.error.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({ data: await listQuotePolicies(parsed.data.includeInactive) });
+  } catch (error) {
+    console.error('Error fetching fare quote policies:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch fare quote policies' },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT /api/pricing/quotes/policies - Replace the tolerance policy for a region, a service, or both.
+// Quotes already issued keep reconciling under the policy they were issued with.
+export async function PUT(request: NextRequest) {
+  try {
+    const authResult = await authenticateRequest(request, ['regions:manage']);
+    if (!authResult.success) {
+      return authResult.response;
+    }
+
+    const parsed = SetPolicySchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid request body', details: parsed.error.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(await setQuotePolicy(parsed.data, authResult.user.userId));
+  } catch (error) {
+    console.error('Error setting fare quote policy:', error);
+    return NextResponse.json(
+      { error: 'Failed to set fare quote policy' },
+      { status: 500 }
+    );
+  }
+}
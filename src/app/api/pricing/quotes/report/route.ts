@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+
+import { authenticateRequest } from '@/lib/auth';
+import { quoteDeltaReport } from '@/lib/repos/fareQuotesRepo';
+
+const ReportQuerySchema = z.object({
+  from: z.string().datetime(),
+  to: z.string().datetime(),
+  regionId: z.string().max(50).optional(),
+  serviceKey: z.string().max(20).optional(),
+}).refine(value => new Date(value.from) < new Date(value.to), { message: 'from must be before to' });
+
+// GET /api/pricing/quotes/report - Quote vs. final fare per region and service for quotes issued in a window
+export async function GET(request: NextRequest) {
+  try {
+    const authResult = await authenticateRequest(request, ['analytics:read']);
+    if (!authResult.success) {
+      return authResult.response;
+    }
+
+    const parsed = ReportQuerySchema.safeParse(Object.fromEntries(request.nextUrl.searchParams));
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid query parameters', details: parsed.error.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({ data: await quoteDeltaReport(parsed.data) });
+  } catch (error) {
+    console.error('Error building fare quote report:', error);
+    return NextResponse.json(
+      { error: 'Failed to build fare quote report' },
+      { status: 500 }
+    );
+  }
+}
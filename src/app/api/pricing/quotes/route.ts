@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+
+import { withAuthAndRateLimit } from '@/lib/auth';
+import { surgeSignalAggregator } from '@/lib/pricing/surgeSignalAggregator';
+import { fareQuoteErrorStatus, issueQuote } from '@/lib/services/fareQuoteService';
+
+const PointSchema = z.object({
+  latitude: z.number().min(-90).max(90),
+  longitude: z.number().min(-180).max(180),
+});
+
+const IssueQuoteSchema = z.object({
+  regionId: z.string().min(1).max(50),
+  serviceType: z.enum(['ride_4w', 'ride_2w', 'ride_pool']),
+  customerId: z.string().uuid().optional(),
+  pickup: PointSchema,
+  dropoff: PointSchema,
+  stops: z.array(PointSchema).max(5).optional(),
+  isAirport: z.boolean().optional(),
+});
+
+// POST /api/pricing/quotes - Upfront fare for a trip; book it by passing quoteId to POST /api/rides
+export const POST = withAuthAndRateLimit(async (request: NextRequest) => {
+  try {
+    const parsed = IssueQuoteSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid request body', details: parsed.error.errors },
+        { status: 400 }
+      );
+    }
+
+    // A rider checking a price is a searcher for surge, as with a rider surge lookup
+    surgeSignalAggregator.recordSearch({
+      regionId: parsed.data.regionId,
+      latitude: parsed.data.pickup.latitude,
+      longitude: parsed.data.pickup.longitude,
+      timestamp: Date.now()
+    });
+
+    return NextResponse.json(await issueQuote(parsed.data), { status: 201 });
+  } catch (error) {
+    const status = fareQuoteErrorStatus(error);
+    if (status) {
+      return NextResponse.json({ error: (error as Error).message }, { status });
+    }
+    console.error('Error issuing fare quote:', error);
+    return NextResponse.json(
+      { error: 'Failed to issue fare quote' },
+      { status: 500 }
+    );
+  }
+}, ['bookings:write'], { limit: 120, windowSeconds: 60 });
@@ -1,5 +1,21 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getDb } from '@/lib/database';
+import type { SimulationMetrics } from '@/lib/pricing/simulationEngine';
+
+type SimulationSummary = SimulationMetrics['summary'];
+
+type SimulationResultRow = Record<string, unknown> & { metrics: string | null };
+
+type SimulationTripRow = Record<string, unknown> & { cap_hits: string | null };
+
+const DEFAULT_TRIPS_LIMIT = 100;
+const MAX_TRIPS_LIMIT = 1000;
+
+// A non-negative integer query parameter, falling back when absent or malformed
+function intParam(value: string | null, fallback: number, max = Number.MAX_SAFE_INTEGER): number {
+  const parsed = parseInt(value ?? '', 10);
+  return Number.isNaN(parsed) || parsed < 0 ? fallback : Math.min(parsed, max);
+}
 
 // GET /api/pricing/simulations/[id]/results - Get simulation results with detailed metrics
 export async function GET(
@@ -10,7 +26,7 @@ export async function GET(
     const { id } = params;
     const db = await getDb();
     
-    const simulation = await db.get(`
+    const simulation = await db.get<SimulationResultRow>(`
       SELECT ps.*, 
              pp.name as profile_name,
              bp.name as baseline_profile_name
@@ -27,20 +43,27 @@ export async function GET(
       );
     }
 
-    // Parse metrics and generate realistic simulation results
-    let metrics = JSON.parse(simulation.metrics || '{}');
-    
-    // If simulation is completed but metrics are empty, generate sample results
-    if (simulation.status === 'completed' && Object.keys(metrics).length === 0) {
-      metrics = generateSampleResults(simulation);
-      
-      // Update the simulation with generated results
-      await db.run(`
-        UPDATE pricing_simulations 
-        SET metrics = ?
-        WHERE id = ?
-      `, [JSON.stringify(metrics), id]);
-    }
+    const metrics: Partial<SimulationMetrics> = JSON.parse(simulation.metrics || '{}');
+
+    // Per-trip breakdown written by the simulation runner
+    const { searchParams } = new URL(request.url);
+    const tripsLimit = Math.max(1, intParam(searchParams.get('trips_limit'), DEFAULT_TRIPS_LIMIT, MAX_TRIPS_LIMIT));
+    const tripsOffset = intParam(searchParams.get('trips_offset'), 0);
+
+    const trips = await db.all<SimulationTripRow>(`
+      SELECT booking_id, trip_completed_at, distance_km, duration_min, surge_multiplier,
+             baseline_fare, candidate_fare, fare_delta,
+             baseline_driver_earnings, candidate_driver_earnings, cap_hits
+      FROM pricing_simulation_trips
+      WHERE simulation_id = ?
+      ORDER BY trip_completed_at
+      LIMIT ? OFFSET ?
+    `, [id, tripsLimit, tripsOffset]);
+
+    const tripCount = await db.get<{ total: number }>(
+      'SELECT COUNT(*) as total FROM pricing_simulation_trips WHERE simulation_id = ?',
+      [id]
+    );
 
     const processedSimulation = {
       ...simulation,
@@ -49,7 +72,13 @@ export async function GET(
 
     return NextResponse.json({ 
       simulation: processedSimulation,
-      detailed_metrics: generateDetailedMetrics(metrics, simulation)
+      detailed_metrics: generateDetailedMetrics(metrics),
+      trips: trips.map(trip => ({ ...trip, cap_hits: JSON.parse(trip.cap_hits || '[]') })),
+      trips_pagination: {
+        limit: tripsLimit,
+        offset: tripsOffset,
+        total: tripCount?.total || 0
+      }
     });
 
   } catch (error) {
@@ -112,134 +141,73 @@ export async function POST(
   }
 }
 
-// Generate realistic sample results for demo purposes
-function generateSampleResults(simulation: any) {
-  const baseMetrics = {
-    total_trips_analyzed: Math.floor(Math.random() * 10000) + 5000,
-    avg_fare_change: (Math.random() * 40 - 20), // -20% to +20%
-    revenue_impact: (Math.random() * 30 - 10), // -10% to +20%
-    driver_acceptance_change: (Math.random() * 10 - 5), // -5% to +5%
-    customer_satisfaction_change: (Math.random() * 6 - 3), // -3% to +3%
-    eta_impact_minutes: (Math.random() * 4 - 2), // -2 to +2 minutes
-    surge_frequency_change: (Math.random() * 20 - 10), // -10% to +10%
-  };
-
-  const zoneMetrics = [
-    {
-      zone_code: 'BGC',
-      zone_name: 'Bonifacio Global City',
-      trip_count: Math.floor(Math.random() * 2000) + 1000,
-      fare_change_pct: (Math.random() * 30 - 15),
-      demand_change_pct: (Math.random() * 20 - 10),
-      supply_change_pct: (Math.random() * 15 - 7),
-    },
-    {
-      zone_code: 'MKT',
-      zone_name: 'Makati CBD',
-      trip_count: Math.floor(Math.random() * 2500) + 1200,
-      fare_change_pct: (Math.random() * 25 - 12),
-      demand_change_pct: (Math.random() * 18 - 9),
-      supply_change_pct: (Math.random() * 12 - 6),
-    }
-  ];
-
-  const timeMetrics = [
-    {
-      hour: '07:00-09:00',
-      label: 'Morning Peak',
-      trip_count: Math.floor(Math.random() * 1000) + 500,
-      fare_change_pct: (Math.random() * 35 - 10),
-      utilization_change_pct: (Math.random() * 15 - 5),
-    },
-    {
-      hour: '17:00-19:00', 
-      label: 'Evening Peak',
-      trip_count: Math.floor(Math.random() * 1200) + 600,
-      fare_change_pct: (Math.random() * 40 - 15),
-      utilization_change_pct: (Math.random() * 20 - 8),
-    }
-  ];
-
-  return {
-    summary: baseMetrics,
-    zone_breakdown: zoneMetrics,
-    time_breakdown: timeMetrics,
-    recommendations: generateRecommendations(baseMetrics),
-    risk_analysis: generateRiskAnalysis(baseMetrics)
-  };
-}
-
-function generateDetailedMetrics(metrics: any, simulation: any) {
+function generateDetailedMetrics(metrics: Partial<SimulationMetrics>) {
   if (!metrics.summary) return null;
 
+  const { summary } = metrics;
+  const capHitRate = summary.total_trips_analyzed
+    ? (summary.compliance_cap_hits / summary.total_trips_analyzed) * 100
+    : 0;
+
   return {
     performance_indicators: {
-      revenue_efficiency: metrics.summary.revenue_impact > 5 ? 'High' : metrics.summary.revenue_impact > 0 ? 'Medium' : 'Low',
-      operational_impact: Math.abs(metrics.summary.eta_impact_minutes) < 1 ? 'Low' : 'Medium',
-      market_response: metrics.summary.driver_acceptance_change > 2 ? 'Positive' : metrics.summary.driver_acceptance_change < -2 ? 'Negative' : 'Neutral'
+      revenue_efficiency: summary.revenue_impact > 5 ? 'High' : summary.revenue_impact > 0 ? 'Medium' : 'Low',
+      driver_impact: summary.driver_earnings_change > 2 ? 'Positive' : summary.driver_earnings_change < -2 ? 'Negative' : 'Neutral',
+      compliance_exposure: capHitRate > 10 ? 'High' : capHitRate > 0 ? 'Medium' : 'None'
     },
     financial_projection: {
-      monthly_revenue_change: metrics.summary.revenue_impact * 1000000 / 100, // Convert % to PHP
-      break_even_days: Math.abs(metrics.summary.revenue_impact) > 10 ? 30 : 60,
-      roi_confidence: metrics.summary.revenue_impact > 0 ? 85 : 45
+      revenue_delta: summary.candidate_revenue - summary.baseline_revenue,
+      driver_earnings_delta: summary.candidate_driver_earnings - summary.baseline_driver_earnings,
+      avg_fare_delta: summary.avg_fare_delta
     },
     operational_readiness: {
-      driver_training_needed: metrics.summary.avg_fare_change > 15,
-      customer_communication_required: Math.abs(metrics.summary.avg_fare_change) > 10,
-      system_updates_required: simulation.profile_name.includes('v2')
-    }
+      driver_training_needed: summary.avg_fare_change > 15,
+      customer_communication_required: Math.abs(summary.avg_fare_change) > 10,
+      compliance_review_required: summary.compliance_cap_hits > 0
+    },
+    recommendations: generateRecommendations(summary, capHitRate)
   };
 }
 
-function generateRecommendations(baseMetrics: any) {
+function generateRecommendations(summary: SimulationSummary, capHitRate: number) {
   const recommendations = [];
 
-  if (baseMetrics.revenue_impact > 10) {
+  if (summary.total_trips_analyzed === 0) {
+    recommendations.push({
+      type: 'data',
+      priority: 'high',
+      text: 'No completed trips found in the sample window. Widen the window before drawing conclusions.',
+      action: 'Re-run simulation with a larger sample window'
+    });
+    return recommendations;
+  }
+
+  if (summary.revenue_impact > 10) {
     recommendations.push({
       type: 'opportunity',
       priority: 'high',
-      text: 'Strong revenue uplift detected. Consider immediate rollout to capture market opportunity.',
+      text: 'Strong revenue uplift on replayed trips. Validate rider price sensitivity before rollout.',
       action: 'Schedule executive approval meeting'
     });
   }
 
-  if (baseMetrics.driver_acceptance_change < -3) {
+  if (summary.driver_earnings_change < -3) {
     recommendations.push({
       type: 'risk',
       priority: 'high', 
-      text: 'Driver acceptance significantly decreased. Review incentive structures.',
+      text: 'Driver earnings decrease on replayed trips. Review earnings policy split.',
       action: 'Engage driver relations team'
     });
   }
 
-  if (Math.abs(baseMetrics.eta_impact_minutes) > 1.5) {
+  if (capHitRate > 0) {
     recommendations.push({
-      type: 'operational',
-      priority: 'medium',
-      text: 'ETA impact exceeds acceptable threshold. Review zone boundaries.',
-      action: 'Consult operations team'
+      type: 'compliance',
+      priority: capHitRate > 10 ? 'high' : 'medium',
+      text: `${capHitRate.toFixed(1)}% of trips were clamped by regulator caps. Fares above caps will never be charged.`,
+      action: 'Review components against pricing_compliance_rules'
     });
   }
 
   return recommendations;
 }
-
-function generateRiskAnalysis(baseMetrics: any) {
-  return {
-    overall_risk_score: Math.abs(baseMetrics.driver_acceptance_change) * 2 + Math.abs(baseMetrics.customer_satisfaction_change) * 3,
-    key_risks: [
-      {
-        risk: 'Driver churn',
-        probability: baseMetrics.driver_acceptance_change < -2 ? 'High' : 'Low',
-        impact: 'High',
-        mitigation: 'Implement driver incentive program'
-      },
-      {
-        risk: 'Customer backlash', 
-        probability: baseMetrics.avg_fare_change > 15 ? 'Medium' : 'Low',
-        impact: 'Medium',
-        mitigation: 'Gradual rollout with communication campaign'
-      }
-    ]
-  };
-}
\ No newline at end of file
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getDb } from '@/lib/database';
 import { z } from 'zod';
+import { pricingSimulationRunner } from '@/lib/pricing/simulationEngine';
 
 // Pricing simulation schema
 const CreateSimulationSchema = z.object({
@@ -57,7 +58,7 @@ export async function GET(request: NextRequest) {
     `;
     params.push(limit, offset);
 
-    const simulations = await db.all(query, params);
+    const simulations = await db.all<Record<string, unknown> & { metrics: string | null }>(query, params);
     
     // Parse metrics JSON field
     const processedSimulations = simulations.map(sim => ({
@@ -149,19 +150,8 @@ export async function POST(request: NextRequest) {
       'authenticated-user' // Auth integration - user tracking enabled
     ]);
 
-    // In a real system, this would trigger background simulation job
-    // For now, we'll just mark it as running
-    setTimeout(async () => {
-      try {
-        await db.run(`
-          UPDATE pricing_simulations 
-          SET status = 'running' 
-          WHERE id = ?
-        `, [result.lastID]);
-      } catch (e) {
-        console.error('Failed to update simulation status:', e);
-      }
-    }, 1000);
+    // Replay runs in the background; results are polled via /results
+    pricingSimulationRunner.enqueue(result.lastID);
 
     return NextResponse.json({
       id: result.lastID,
@@ -64,7 +64,7 @@ export async function GET(request: NextRequest) {
     `;
     params.push(limit, offset);
 
-    const zonePairs = await db.all(query, params);
+    const zonePairs = await db.all<Record<string, unknown> & { rules: string | null }>(query, params);
     
     // Parse JSON rules field
     const processedZonePairs = zonePairs.map(zp => ({
@@ -0,0 +1,97 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+
+import { authenticateRequest } from '@/lib/auth';
+import { deletePromo, getPromoDetail, promoErrorStatus, updatePromo } from '@/lib/services/promoService';
+
+const targetList = z.array(z.string().min(1).max(50)).max(100).nullable().optional();
+
+const UpdatePromoSchema = z.object({
+  name: z.string().min(1).max(100).optional(),
+  description: z.string().max(1000).nullable().optional(),
+  discountValue: z.number().positive().optional(),
+  maxDiscount: z.number().positive().nullable().optional(),
+  minOrderAmount: z.number().min(0).nullable().optional(),
+  validFrom: z.string().datetime().optional(),
+  validTo: z.string().datetime().optional(),
+  usageLimit: z.number().int().positive().nullable().optional(),
+  perUserLimit: z.number().int().positive().nullable().optional(),
+  newUsersOnly: z.boolean().optional(),
+  serviceKeys: targetList,
+  regionIds: targetList,
+  zoneIds: targetList,
+  stackable: z.boolean().optional(),
+  isActive: z.boolean().optional(),
+}).strict();
+
+const errorResponse = (error: unknown, fallback: string) => {
+  const status = promoErrorStatus(error);
+  if (status) {
+    return NextResponse.json({ error: (error as Error).message }, { status });
+  }
+  console.error(`${fallback}:`, error);
+  return NextResponse.json({ error: fallback }, { status: 500 });
+};
+
+// GET /api/promos/:id
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authResult = await authenticateRequest(request, ['analytics:read']);
+    if (!authResult.success) {
+      return authResult.response;
+    }
+
+    const { id } = await context.params;
+    return NextResponse.json(await getPromoDetail(id));
+  } catch (error) {
+    return errorResponse(error, 'Failed to fetch promo');
+  }
+}
+
+// PATCH /api/promos/:id - edit a promo, or pause and resume it with isActive
+export async function PATCH(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authResult = await authenticateRequest(request, ['regions:manage']);
+    if (!authResult.success) {
+      return authResult.response;
+    }
+
+    const { id } = await context.params;
+    const parsed = UpdatePromoSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid request body', details: parsed.error.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(await updatePromo(id, parsed.data, authResult.user.userId));
+  } catch (error) {
+    return errorResponse(error, 'Failed to update promo');
+  }
+}
+
+// DELETE /api/promos/:id - only promos that were never redeemed
+export async function DELETE(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authResult = await authenticateRequest(request, ['regions:manage']);
+    if (!authResult.success) {
+      return authResult.response;
+    }
+
+    const { id } = await context.params;
+    await deletePromo(id, authResult.user.userId);
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    return errorResponse(error, 'Failed to delete promo');
+  }
+}
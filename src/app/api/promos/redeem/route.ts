@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+
+import { authenticateRequest } from '@/lib/auth';
+import { promoErrorStatus, redeemPromos } from '@/lib/services/promoService';
+
+const RedeemSchema = z.object({
+  codes: z.array(z.string().min(1).max(40)).min(1).max(5),
+  customerId: z.string().uuid(),
+  bookingId: z.string().uuid().optional(),
+  orderAmount: z.number().positive(),
+  serviceKey: z.string().max(30).optional(),
+  regionId: z.string().max(50).optional(),
+  zoneId: z.string().max(50).optional(),
+});
+
+// POST /api/promos/redeem - redeem promo codes for a booking; nothing is redeemed if any code is rejected
+export async function POST(request: NextRequest) {
+  try {
+    const authResult = await authenticateRequest(request, ['bookings:write']);
+    if (!authResult.success) {
+      return authResult.response;
+    }
+
+    const parsed = RedeemSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid request body', details: parsed.error.errors },
+        { status: 400 }
+      );
+    }
+
+    const result = await redeemPromos(parsed.data);
+    return NextResponse.json(result, { status: result.redeemed ? 201 : 422 });
+  } catch (error) {
+    const status = promoErrorStatus(error);
+    if (status) {
+      return NextResponse.json({ error: (error as Error).message }, { status });
+    }
+    console.error('Error redeeming promos:', error);
+    return NextResponse.json(
+      { error: 'Failed to redeem promos' },
+      { status: 500 }
+    );
+  }
+}
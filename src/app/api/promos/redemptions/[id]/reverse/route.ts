@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+
+import { authenticateRequest } from '@/lib/auth';
+import { promoErrorStatus, reversePromoRedemption } from '@/lib/services/promoService';
+
+const ReverseSchema = z.object({
+  reason: z.string().max(500).optional(),
+});
+
+// POST /api/promos/redemptions/:id/reverse - give a redemption back, e.g. when the booking is cancelled
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authResult = await authenticateRequest(request, ['bookings:cancel']);
+    if (!authResult.success) {
+      return authResult.response;
+    }
+
+    const { id } = await context.params;
+    const parsed = ReverseSchema.safeParse(await request.json().catch(() => ({})));
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid request body', details: parsed.error.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(await reversePromoRedemption(id, parsed.data.reason, authResult.user.userId));
+  } catch (error) {
+    const status = promoErrorStatus(error);
+    if (status) {
+      return NextResponse.json({ error: (error as Error).message }, { status });
+    }
+    console.error('Error reversing promo redemption:', error);
+    return NextResponse.json(
+      { error: 'Failed to reverse promo redemption' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,102 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+
+import { authenticateRequest } from '@/lib/auth';
+import { listPromos } from '@/lib/repos/promosRepo';
+import { createPromo, promoErrorStatus } from '@/lib/services/promoService';
+
+const ListQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  status: z.enum(['active', 'scheduled', 'expired', 'paused']).optional(),
+  search: z.string().max(100).optional(),
+});
+
+const targetList = z.array(z.string().min(1).max(50)).max(100).optional();
+
+const CreatePromoSchema = z.object({
+  code: z.string().regex(/^[A-Za-z0-9_-]{3,40}$/, 'Codes are 3-40 letters, digits, dashes or underscores'),
+  name: z.string().min(1).max(100),
+  description: z.string().max(1000).optional(),
+  discountType: z.enum(['percentage', 'fixed']),
+  discountValue: z.number().positive(),
+  maxDiscount: z.number().positive().optional(),
+  minOrderAmount: z.number().min(0).optional(),
+  validFrom: z.string().datetime(),
+  validTo: z.string().datetime(),
+  usageLimit: z.number().int().positive().optional(),
+  perUserLimit: z.number().int().positive().nullable().optional(),
+  newUsersOnly: z.boolean().optional(),
+  serviceKeys: targetList,
+  regionIds: targetList,
+  zoneIds: targetList,
+  stackable: z.boolean().optional(),
+});
+
+// GET /api/promos
+export async function GET(request: NextRequest) {
+  try {
+    const authResult = await authenticateRequest(request, ['analytics:read']);
+    if (!authResult.success) {
+      return authResult.response;
+    }
+
+    const parsed = ListQuerySchema.safeParse(Object.fromEntries(request.nextUrl.searchParams));
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid query parameters', details: parsed.error.errors },
+        { status: 400 }
+      );
+    }
+
+    const filters = parsed.data;
+    const { promos, total } = await listPromos(filters);
+
+    return NextResponse.json({
+      data: promos,
+      pagination: {
+        page: filters.page,
+        limit: filters.limit,
+        total,
+        totalPages: Math.ceil(total / filters.limit),
+      },
+    });
+  } catch (error) {
+    console.error('Error fetching promos:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch promos' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/promos - create a promo code
+export async function POST(request: NextRequest) {
+  try {
+    const authResult = await authenticateRequest(request, ['regions:manage']);
+    if (!authResult.success) {
+      return authResult.response;
+    }
+
+    const parsed = CreatePromoSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid request body', details: parsed.error.errors },
+        { status: 400 }
+      );
+    }
+
+    const promo = await createPromo(parsed.data, authResult.user.userId);
+    return NextResponse.json(promo, { status: 201 });
+  } catch (error) {
+    const status = promoErrorStatus(error);
+    if (status) {
+      return NextResponse.json({ error: (error as Error).message }, { status });
+    }
+    console.error('Error creating promo:', error);
+    return NextResponse.json(
+      { error: 'Failed to create promo' },
+      { status: 500 }
+    );
+  }
+}
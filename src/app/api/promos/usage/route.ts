@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+
+import { authenticateRequest } from '@/lib/auth';
+import { listPromoUsage } from '@/lib/repos/promosRepo';
+
+const UsageQuerySchema = z.object({
+  days: z.coerce.number().int().min(1).max(90).default(7),
+  top: z.coerce.number().int().min(1).max(10).default(3),
+});
+
+// GET /api/promos/usage - daily redemptions for the most used codes
+export async function GET(request: NextRequest) {
+  try {
+    const authResult = await authenticateRequest(request, ['analytics:read']);
+    if (!authResult.success) {
+      return authResult.response;
+    }
+
+    const parsed = UsageQuerySchema.safeParse(Object.fromEntries(request.nextUrl.searchParams));
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid query parameters', details: parsed.error.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({ data: await listPromoUsage(parsed.data.days, parsed.data.top) });
+  } catch (error) {
+    console.error('Error fetching promo usage:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch promo usage' },
+      { status: 500 }
+    );
+  }
+}
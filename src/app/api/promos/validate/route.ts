@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+
+import { authenticateRequest } from '@/lib/auth';
+import { previewPromos, promoErrorStatus } from '@/lib/services/promoService';
+
+const ValidateSchema = z.object({
+  codes: z.array(z.string().min(1).max(40)).min(1).max(5),
+  customerId: z.string().uuid().optional(),
+  orderAmount: z.number().positive(),
+  serviceKey: z.string().max(30).optional(),
+  regionId: z.string().max(50).optional(),
+  zoneId: z.string().max(50).optional(),
+});
+
+// POST /api/promos/validate - price promo codes against a booking without redeeming them
+export async function POST(request: NextRequest) {
+  try {
+    const authResult = await authenticateRequest(request, ['bookings:read']);
+    if (!authResult.success) {
+      return authResult.response;
+    }
+
+    const parsed = ValidateSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid request body', details: parsed.error.errors },
+        { status: 400 }
+      );
+    }
+
+    const { codes, ...context } = parsed.data;
+    return NextResponse.json(await previewPromos(codes, context));
+  } catch (error) {
+    const status = promoErrorStatus(error);
+    if (status) {
+      return NextResponse.json({ error: (error as Error).message }, { status });
+    }
+    console.error('Error validating promos:', error);
+    return NextResponse.json(
+      { error: 'Failed to validate promos' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,6 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getDb } from '@/lib/database';
 
+type RegionRow = Record<string, unknown> & {
+  services: string | null;
+  boundaries: string | null;
+  franchise_docs: string | null;
+  staff_assignments: string | null;
+  compliance_status: string | null;
+};
+
 // GET /api/regions/[region_id]/analytics - Get comprehensive region analytics
 export async function GET(
   request: NextRequest,
@@ -14,7 +22,7 @@ export async function GET(
     const db = await getDb();
     
     // Verify region exists
-    const region = await db.get(
+    const region = await db.get<RegionRow>(
       'SELECT * FROM regions WHERE region_id = ?',
       [region_id]
     );
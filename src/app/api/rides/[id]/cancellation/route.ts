@@ -0,0 +1,61 @@
+// /api/rides/[id]/cancellation - Cancellation fee preview and charge for a ride
+// Tells riders and drivers what cancelling now would cost before they do it,
+// and shows the charge once the ride was cancelled or ended as a no-show
+
+import { NextRequest } from 'next/server';
+
+import {
+  createApiResponse,
+  createApiError,
+  asyncHandler,
+  handleOptionsRequest
+} from '@/lib/api-utils';
+import { authenticateRequest } from '@/lib/auth';
+import { getChargeByBooking } from '@/lib/repos/cancellationsRepo';
+import { cancellationErrorStatus, previewCancellation } from '@/lib/services/cancellationService';
+import { CancellingParty } from '@/types/cancellation';
+
+const PARTIES: CancellingParty[] = ['rider', 'driver', 'operator'];
+
+// GET /api/rides/[id]/cancellation?cancelledBy=rider&reason=changed_plans
+export const GET = asyncHandler(async (request: NextRequest, context?: { params: Record<string, string> }) => {
+  const authResult = await authenticateRequest(request, ['bookings:read']);
+  if (!authResult.success) {
+    return authResult.response;
+  }
+
+  const rideId = (await context?.params)?.id ?? '';
+  const path = `/api/rides/${rideId}/cancellation`;
+  const { searchParams } = new URL(request.url);
+
+  // Drivers always see their own side of the cancellation
+  const cancelledBy = authResult.user.userType === 'driver'
+    ? 'driver'
+    : searchParams.get('cancelledBy') ?? 'rider';
+  if (!PARTIES.includes(cancelledBy as CancellingParty)) {
+    return createApiError(`cancelledBy must be one of: ${PARTIES.join(', ')}`, 'VALIDATION_ERROR', 400, {}, path, 'GET');
+  }
+
+  const charge = await getChargeByBooking(rideId);
+  if (charge) {
+    return createApiResponse({ rideId, charge, preview: null });
+  }
+
+  try {
+    const preview = await previewCancellation(rideId, {
+      cancelledBy: cancelledBy as CancellingParty,
+      noShow: false,
+      reason: searchParams.get('reason')
+    });
+    return createApiResponse({ rideId, charge: null, preview });
+  } catch (error) {
+    const status = cancellationErrorStatus(error);
+    if (status) {
+      return createApiError((error as Error).message, 'CANCELLATION_PREVIEW_ERROR', status, {}, path, 'GET');
+    }
+    throw error;
+  }
+});
+
+// OPTIONS handler for CORS
+export const OPTIONS = handleOptionsRequest;
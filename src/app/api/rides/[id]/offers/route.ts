@@ -0,0 +1,38 @@
+// /api/rides/[id]/offers - Offer log for a ride
+// Shows dispatchers which drivers were offered the ride and how each offer ended
+
+import { NextRequest } from 'next/server';
+
+import {
+  createApiResponse,
+  asyncHandler,
+  handleOptionsRequest
+} from '@/lib/api-utils';
+import { authenticateRequest } from '@/lib/auth';
+import { rideMatchingEngine } from '@/lib/rideMatching';
+
+// GET /api/rides/[id]/offers - Every offer made for the ride, oldest first
+export const GET = asyncHandler(async (request: NextRequest, context?: { params: Record<string, string> }) => {
+  const authResult = await authenticateRequest(request, ['bookings:read']);
+  if (!authResult.success) {
+    return authResult.response;
+  }
+
+  const rideId = (await context?.params)?.id ?? '';
+  const offers = await rideMatchingEngine.getRideOffers(rideId);
+
+  const summary = offers.reduce<Record<string, number>>((counts, offer) => {
+    counts[offer.status] = (counts[offer.status] || 0) + 1;
+    return counts;
+  }, {});
+
+  return createApiResponse({
+    rideId,
+    offers,
+    summary,
+    pendingOffer: offers.find(offer => offer.status === 'pending') ?? null
+  });
+});
+
+// OPTIONS handler for CORS
+export const OPTIONS = handleOptionsRequest;
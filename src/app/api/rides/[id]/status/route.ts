@@ -12,13 +12,34 @@ import {
   handleOptionsRequest
 } from '@/lib/api-utils';
 import { getDatabase } from '@/lib/database';
+import type { TransactionContext } from '@/lib/database/connection-manager';
+import { transactionQuery } from '@/lib/db';
+import { priceCompletedBooking } from '@/lib/pricing/bookingFares';
+import type { FareBreakdown } from '@/lib/pricing/fareEngine';
+import { surgeSignalAggregator } from '@/lib/pricing/surgeSignalAggregator';
 import { redis } from '@/lib/redis';
+import { cancelScheduledRide } from '@/lib/scheduledRides';
+import {
+  cancellationErrorStatus,
+  cancellingParty,
+  postCancellationCharge,
+  recordCancellation
+} from '@/lib/services/cancellationService';
+import {
+  ACTIVE_BOOKING_STATUSES,
+  advanceStop,
+  driverHasOtherActiveBookings,
+  settlePoolBooking
+} from '@/lib/tripStops';
 import { getWebSocketManager } from '@/lib/websocket';
+import { CancellationCharge } from '@/types/cancellation';
+import { BookingStop, ScheduledRide, StopStatus } from '@/types/fleet';
 
 const db = getDatabase();
 
 interface UpdateStatusRequest {
-  status: 'searching' | 'assigned' | 'accepted' | 'en_route' | 'arrived' | 'in_progress' | 'completed' | 'cancelled';
+  status: 'searching' | 'assigned' | 'accepted' | 'en_route' | 'arrived' | 'in_progress' | 'completed' | 'cancelled'
+    | 'no_show';
   updatedBy: string;
   updatedByType: 'driver' | 'customer' | 'operator' | 'system';
   location?: {
@@ -27,6 +48,9 @@ interface UpdateStatusRequest {
     address?: string;
   };
   notes?: string;
+  // Progress one stop of a multi-stop or pooled booking; the ride status follows from it
+  stopId?: string;
+  stopStatus?: Exclude<StopStatus, 'pending'>;
   cancellationReason?: string;
   completionDetails?: {
     customerRating?: number;
@@ -47,29 +71,47 @@ const VALID_STATUS_TRANSITIONS: Record<string, string[]> = {
   'assigned': ['accepted', 'cancelled', 'searching'], // Can reassign
   'accepted': ['en_route', 'cancelled'],
   'en_route': ['arrived', 'cancelled'],
-  'arrived': ['in_progress', 'cancelled'],
+  'arrived': ['in_progress', 'cancelled', 'no_show'], // No-show once the policy's wait time has passed
   'in_progress': ['completed', 'cancelled'],
   'completed': [], // Terminal state
   'cancelled': ['searching'], // Can restart search
+  'no_show': [], // Terminal state
   'failed': ['searching'] // Can retry
 };
 
+// Order in which stop progress moves a ride forward
+const STOP_DRIVEN_STATUSES = ['assigned', 'accepted', 'en_route', 'arrived', 'in_progress', 'completed'];
+
 // PATCH /api/rides/[id]/status - Update ride status
 export const PATCH = asyncHandler(async (request: NextRequest, { params }: { params: { id: string } }) => {
   const rideId = params.id;
   const body = await request.json() as UpdateStatusRequest;
   
   // Validate required fields
-  const requiredFields = ['status', 'updatedBy', 'updatedByType'];
+  const requiredFields = body.stopId
+    ? ['stopStatus', 'updatedBy', 'updatedByType']
+    : ['status', 'updatedBy', 'updatedByType'];
   const validationErrors = validateRequiredFields(body as unknown as Record<string, unknown>, requiredFields);
   
   if (validationErrors.length > 0) {
     return createValidationError(validationErrors, `/api/rides/${rideId}/status`, 'PATCH');
   }
 
+  // Validate stop status value
+  const validStopStatuses = ['arrived', 'completed', 'skipped'];
+  if (body.stopId && !validStopStatuses.includes(body.stopStatus as string)) {
+    return createValidationError([{
+      field: 'stopStatus',
+      message: `Invalid stop status. Must be one of: ${validStopStatuses.join(', ')}`,
+      code: 'INVALID_STOP_STATUS'
+    }], `/api/rides/${rideId}/status`, 'PATCH');
+  }
+
   // Validate status value
-  const validStatuses = ['searching', 'assigned', 'accepted', 'en_route', 'arrived', 'in_progress', 'completed', 'cancelled'];
-  if (!validStatuses.includes(body.status)) {
+  const validStatuses = [
+    'searching', 'assigned', 'accepted', 'en_route', 'arrived', 'in_progress', 'completed', 'cancelled', 'no_show'
+  ];
+  if (!body.stopId && !validStatuses.includes(body.status)) {
     return createValidationError([{
       field: 'status',
       message: `Invalid status. Must be one of: ${validStatuses.join(', ')}`,
@@ -86,7 +128,9 @@ export const PATCH = asyncHandler(async (request: NextRequest, { params }: { par
           b.*,
           CONCAT(d.first_name, ' ', d.last_name) as driver_name,
           d.phone as driver_phone,
-          r.name as region_name
+          r.name as region_name,
+          ST_X(b.pickup_location) as pickup_longitude,
+          ST_Y(b.pickup_location) as pickup_latitude
         FROM bookings b
         LEFT JOIN drivers d ON b.driver_id = d.id
         LEFT JOIN regions r ON b.region_id = r.id
@@ -101,15 +145,31 @@ export const PATCH = asyncHandler(async (request: NextRequest, { params }: { par
       
       const currentRide = rideResult.rows[0];
       const currentStatus = currentRide.status;
-      const newStatus = body.status;
-
-      // Validate status transition
-      if (currentStatus === newStatus) {
-        throw new Error(`Ride is already in ${newStatus} status`);
-      }
+      let newStatus = body.status;
+      let stop: BookingStop | null = null;
+      let cancelledSchedule: ScheduledRide | null = null;
+      let cancellation: CancellationCharge | null = null;
+
+      if (body.stopId) {
+        // Stops are worked while the ride holds its driver; the ride only ever moves forward
+        if (!ACTIVE_BOOKING_STATUSES.includes(currentStatus)) {
+          throw new Error(`Invalid stop transition: ride is ${currentStatus}`);
+        }
+        const advanced = await advanceStop(client, rideId, body.stopId, body.stopStatus as StopStatus);
+        stop = advanced.stop;
+        newStatus = advanced.bookingStatus &&
+          STOP_DRIVEN_STATUSES.indexOf(advanced.bookingStatus) > STOP_DRIVEN_STATUSES.indexOf(currentStatus)
+          ? advanced.bookingStatus
+          : currentStatus;
+      } else {
+        // Validate status transition
+        if (currentStatus === newStatus) {
+          throw new Error(`Ride is already in ${newStatus} status`);
+        }
 
-      if (!VALID_STATUS_TRANSITIONS[currentStatus]?.includes(newStatus)) {
-        throw new Error(`Invalid status transition from ${currentStatus} to ${newStatus}`);
+        if (!VALID_STATUS_TRANSITIONS[currentStatus]?.includes(newStatus)) {
+          throw new Error(`Invalid status transition from ${currentStatus} to ${newStatus}`);
+        }
       }
 
       // Prepare update fields based on status
@@ -143,7 +203,11 @@ export const PATCH = asyncHandler(async (request: NextRequest, { params }: { par
           break;
 
         case 'arrived':
-          updateFields.actual_pickup_time = 'NOW()';
+          // Starts the no-show wait timer
+          updateFields.arrived_at = 'NOW()';
+          if (!currentRide.actual_pickup_time) {
+            updateFields.actual_pickup_time = 'NOW()';
+          }
           break;
 
         case 'in_progress':
@@ -152,8 +216,28 @@ export const PATCH = asyncHandler(async (request: NextRequest, { params }: { par
           }
           break;
 
-        case 'completed':
+        case 'completed': {
           updateFields.completed_at = 'NOW()';
+
+          // Priced by the fare engine from the recorded trip; pooled rides are priced when their
+          // pool trip closes. Where no profile applies, or pricing fails, the client-sent fare
+          // stands in, else the fare estimated at booking stays. The savepoint keeps a failed
+          // pricing query from aborting the completion.
+          let fare: FareBreakdown | null = null;
+          if (!currentRide.pool_trip_id) {
+            await client.query('SAVEPOINT price_completed_booking');
+            try {
+              fare = await priceCompletedBooking(transactionQuery(client), currentRide);
+              await client.query('RELEASE SAVEPOINT price_completed_booking');
+            } catch (error) {
+              await client.query('ROLLBACK TO SAVEPOINT price_completed_booking');
+              logger.error('Completion pricing failed, keeping the client or estimated fare', {
+                rideId,
+                actualFare: body.completionDetails?.actualFare,
+                error: error instanceof Error ? error.message : String(error)
+              });
+            }
+          }
           
           if (body.completionDetails) {
             if (body.completionDetails.customerRating) {
@@ -166,7 +250,7 @@ export const PATCH = asyncHandler(async (request: NextRequest, { params }: { par
               updateParams.push(body.completionDetails.driverRating);
             }
             
-            if (body.completionDetails.actualFare) {
+            if (body.completionDetails.actualFare && !fare) {
               updateFields.total_fare = body.completionDetails.actualFare;
               updateParams.push(body.completionDetails.actualFare);
             }
@@ -181,30 +265,36 @@ export const PATCH = asyncHandler(async (request: NextRequest, { params }: { par
 
           // Free up the driver
           if (currentRide.driver_id) {
-            await client.query(`
-              UPDATE drivers 
-              SET status = 'active', updated_at = NOW()
-              WHERE id = $1
-            `, [currentRide.driver_id]);
+            await releaseDriver(client, currentRide, 'completed');
 
             // Update driver performance metrics
             await updateDriverPerformance(client, currentRide.driver_id, 'completed');
           }
           break;
+        }
 
+        case 'no_show':
         case 'cancelled':
           updateFields.cancelled_at = 'NOW()';
+
+          // Priced from the status the ride was in; an early no-show is rejected here
+          cancellation = await recordCancellation(transactionQuery(client), currentRide, {
+            cancelledBy: cancellingParty(body.updatedByType),
+            noShow: newStatus === 'no_show',
+            reason: body.cancellationReason
+          });
+
+          // A future pickup stops waiting for dispatch and frees its reserved driver
+          cancelledSchedule = await cancelScheduledRide(client, rideId);
           
           // Free up the driver if assigned
           if (currentRide.driver_id) {
-            await client.query(`
-              UPDATE drivers 
-              SET status = 'active', updated_at = NOW()
-              WHERE id = $1
-            `, [currentRide.driver_id]);
+            await releaseDriver(client, currentRide, 'cancelled');
 
-            // Update driver performance metrics
-            await updateDriverPerformance(client, currentRide.driver_id, 'cancelled');
+            // A rider's no-show does not count against the driver
+            if (newStatus === 'cancelled') {
+              await updateDriverPerformance(client, currentRide.driver_id, 'cancelled');
+            }
           }
           break;
 
@@ -265,6 +355,7 @@ export const PATCH = asyncHandler(async (request: NextRequest, { params }: { par
           new_status: newStatus,
           new_location: body.location,
           notes: body.notes,
+          stop: stop ? { id: stop.id, type: stop.stopType, status: stop.status } : undefined,
           cancellation_reason: body.cancellationReason,
           completion_details: body.completionDetails
         }),
@@ -274,6 +365,9 @@ export const PATCH = asyncHandler(async (request: NextRequest, { params }: { par
       return {
         previousRide: currentRide,
         updatedRide,
+        stop,
+        cancelledSchedule,
+        cancellation,
         statusChange: {
           from: currentStatus,
           to: newStatus,
@@ -284,12 +378,37 @@ export const PATCH = asyncHandler(async (request: NextRequest, { params }: { par
       };
     });
 
+    // Fees, refunds and driver compensation move once the cancellation has committed;
+    // a failed posting stays on the charge for finance to retry
+    let cancellation = result.cancellation;
+    if (cancellation) {
+      try {
+        cancellation = await postCancellationCharge(cancellation.id, body.updatedBy);
+      } catch (error) {
+        logger.error('Cancellation charge posting failed', {
+          rideId,
+          chargeId: cancellation.id,
+          error: error instanceof Error ? error.message : String(error)
+        });
+      }
+    }
+
+    // Cancellations count against the pickup hex for surge pricing
+    if (result.statusChange.to === 'cancelled') {
+      surgeSignalAggregator.recordCancellation({
+        regionId: result.previousRide.region_id,
+        latitude: Number(result.previousRide.pickup_latitude),
+        longitude: Number(result.previousRide.pickup_longitude),
+        timestamp: Date.now()
+      });
+    }
+
     // Update Redis cache
     await redis.setex(
       `ride_status:${rideId}`, 
       3600, // 1 hour
       JSON.stringify({
-        status: body.status,
+        status: result.statusChange.to,
         updated_at: result.statusChange.timestamp,
         updated_by: body.updatedBy
       })
@@ -303,6 +422,17 @@ export const PATCH = asyncHandler(async (request: NextRequest, { params }: { par
 
     // Broadcast status change via WebSocket
     const wsManager = getWebSocketManager();
+    if (wsManager && result.cancelledSchedule) {
+      wsManager.broadcastScheduledRideStatus({
+        scheduledRideId: result.cancelledSchedule.id,
+        rideId,
+        bookingReference: result.updatedRide.booking_reference,
+        regionId: result.updatedRide.region_id,
+        status: 'cancelled',
+        previousDriverId: result.cancelledSchedule.reservedDriverId,
+        reason: body.cancellationReason
+      });
+    }
     if (wsManager) {
       const statusChangeEvent = {
         bookingId: rideId,
@@ -314,6 +444,7 @@ export const PATCH = asyncHandler(async (request: NextRequest, { params }: { par
         updatedBy: body.updatedBy,
         updatedByType: body.updatedByType,
         location: body.location,
+        stop: result.stop ?? undefined,
         driverDetails: result.updatedRide.driver_id ? {
           id: result.updatedRide.driver_id,
           name: result.previousRide.driver_name,
@@ -322,7 +453,7 @@ export const PATCH = asyncHandler(async (request: NextRequest, { params }: { par
       };
 
       // Notify relevant parties based on status
-      if (['completed', 'cancelled'].includes(body.status)) {
+      if (['completed', 'cancelled', 'no_show'].includes(result.statusChange.to)) {
         // Notify customer and regional operators for final statuses
         wsManager.broadcastToRegion(result.updatedRide.region_id, 'booking:status_updated', statusChangeEvent);
       } else {
@@ -337,8 +468,10 @@ export const PATCH = asyncHandler(async (request: NextRequest, { params }: { par
     return createApiResponse({
       ride: result.updatedRide,
       statusChange: result.statusChange,
+      stop: result.stop,
+      cancellation,
       timeline: await getRideTimeline(rideId)
-    }, `Ride status updated to ${body.status}`);
+    }, `Ride status updated to ${result.statusChange.to}`);
 
   } catch (error) {
     logger.error('Error updating ride status', { rideId, newStatus: body.status, updatedBy: body.updatedBy, error: error instanceof Error ? error.message : String(error) });
@@ -348,6 +481,26 @@ export const PATCH = asyncHandler(async (request: NextRequest, { params }: { par
     if (errorMessage === 'Ride not found') {
       return createApiError('Ride not found', 'RIDE_NOT_FOUND', 404, {}, `/api/rides/${rideId}/status`, 'PATCH');
     }
+
+    if (errorMessage === 'Stop not found') {
+      return createApiError('Stop not found', 'STOP_NOT_FOUND', 404, {}, `/api/rides/${rideId}/status`, 'PATCH');
+    }
+
+    const cancellationStatus = cancellationErrorStatus(error);
+    if (cancellationStatus) {
+      return createApiError(
+        errorMessage,
+        errorMessage.split(':')[0].toUpperCase(),
+        cancellationStatus,
+        {},
+        `/api/rides/${rideId}/status`,
+        'PATCH'
+      );
+    }
+
+    if (errorMessage.startsWith('Invalid stop transition')) {
+      return createApiError(errorMessage, 'INVALID_STOP_TRANSITION', 400, {}, `/api/rides/${rideId}/status`, 'PATCH');
+    }
     
     if (errorMessage.includes('already in') || errorMessage.includes('Invalid status transition')) {
       return createApiError(errorMessage, 'INVALID_STATUS_TRANSITION', 400, {}, `/api/rides/${rideId}/status`, 'PATCH');
@@ -471,6 +624,26 @@ async function getRideTimeline(rideId: string): Promise<any> {
   };
 }
 
+// Frees the driver once this was their last active ride; pooled rides settle their pool trip first
+async function releaseDriver(
+  client: TransactionContext,
+  ride: { id: string; driver_id: string; pool_trip_id?: string | null },
+  outcome: 'completed' | 'cancelled'
+): Promise<void> {
+  if (ride.pool_trip_id) {
+    await settlePoolBooking(client, ride.pool_trip_id, ride.id, outcome);
+  }
+  if (await driverHasOtherActiveBookings(client, ride.driver_id, ride.id)) {
+    return;
+  }
+
+  await client.query(`
+    UPDATE drivers 
+    SET status = 'active', updated_at = NOW()
+    WHERE id = $1
+  `, [ride.driver_id]);
+}
+
 // Update driver performance metrics
 async function updateDriverPerformance(client: any, driverId: string, outcome: 'completed' | 'cancelled'): Promise<void> {
   const today = new Date().toISOString().split('T')[0];
@@ -1,5 +1,6 @@
 // /api/rides/[id]/tracking - Real-time trip tracking
 // Live tracking of driver location, ETA, and trip progress
+// ?mode=replay returns the stored GPS path of the trip instead, for disputes and investigations
 
 import { NextRequest } from 'next/server';
 import { logger } from '@/lib/security/productionLogger';
@@ -10,8 +11,11 @@ import {
   asyncHandler,
   handleOptionsRequest
 } from '@/lib/api-utils';
+import { authenticateRequest } from '@/lib/auth';
 import { getDatabase } from '@/lib/database';
 import { redis } from '@/lib/redis';
+import { getTripReplay, tripTrackingErrorStatus } from '@/lib/services/tripTrackingService';
+import { TRIP_PHASES, TripPhase } from '@/types/tripTracking';
 
 const db = getDatabase();
 
@@ -20,6 +24,10 @@ export const GET = asyncHandler(async (request: NextRequest, { params }: { param
   const rideId = params.id;
   const queryParams = parseQueryParams(request);
 
+  if (queryParams.mode === 'replay') {
+    return getReplayResponse(request, rideId);
+  }
+
   try {
     // Check Redis cache first for real-time data
     const cacheKey = `ride_tracking:${rideId}`;
@@ -236,6 +244,45 @@ export const GET = asyncHandler(async (request: NextRequest, { params }: { param
   }
 });
 
+// GET /api/rides/[id]/tracking?mode=replay&phase=on_trip&from=...&to=...
+// Full stored path with timestamps and speeds; drivers only get their own trips
+async function getReplayResponse(request: NextRequest, rideId: string) {
+  const path = `/api/rides/${rideId}/tracking`;
+  const authResult = await authenticateRequest(request, ['bookings:read']);
+  if (!authResult.success) {
+    return authResult.response;
+  }
+
+  const { searchParams } = new URL(request.url);
+  const phase = searchParams.get('phase');
+  if (phase && !TRIP_PHASES.includes(phase as TripPhase)) {
+    return createApiError(`phase must be one of: ${TRIP_PHASES.join(', ')}`, 'VALIDATION_ERROR', 400, {}, path, 'GET');
+  }
+  const from = searchParams.get('from');
+  const to = searchParams.get('to');
+  if ([from, to].some(value => value && isNaN(Date.parse(value)))) {
+    return createApiError('from and to must be ISO timestamps', 'VALIDATION_ERROR', 400, {}, path, 'GET');
+  }
+
+  try {
+    const replay = await getTripReplay(rideId, {
+      phase: (phase as TripPhase) ?? undefined,
+      from: from ?? undefined,
+      to: to ?? undefined
+    });
+    if (authResult.user.userType === 'driver' && replay.driverId !== authResult.user.userId) {
+      return createApiError('Ride not found', 'RIDE_NOT_FOUND', 404, {}, path, 'GET');
+    }
+    return createApiResponse(replay, 'Trip replay retrieved successfully');
+  } catch (error) {
+    const status = tripTrackingErrorStatus(error);
+    if (status) {
+      return createApiError((error as Error).message, 'TRIP_REPLAY_ERROR', status, {}, path, 'GET');
+    }
+    throw error;
+  }
+}
+
 // Calculate current ETA based on real-time conditions
 async function calculateCurrentETA(ride: any): Promise<any> {
   if (!ride.driver_id || !ride.driver_longitude || !ride.driver_latitude) {
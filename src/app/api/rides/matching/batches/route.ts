@@ -0,0 +1,38 @@
+// /api/rides/matching/batches - Batch matching metrics
+// Daily pickup ETA and match totals of batched matching against first-come assignment
+
+import { NextRequest } from 'next/server';
+
+import {
+  createApiResponse,
+  createApiError,
+  asyncHandler,
+  handleOptionsRequest
+} from '@/lib/api-utils';
+import { authenticateRequest } from '@/lib/auth';
+import { rideMatchingEngine } from '@/lib/rideMatching';
+
+// GET /api/rides/matching/batches?regionId=NCR&date=2026-10-18
+export const GET = asyncHandler(async (request: NextRequest) => {
+  const authResult = await authenticateRequest(request, ['analytics:read']);
+  if (!authResult.success) {
+    return authResult.response;
+  }
+
+  const { searchParams } = new URL(request.url);
+  const regionId = searchParams.get('regionId');
+  const date = searchParams.get('date') ?? undefined;
+
+  if (!regionId) {
+    return createApiError('regionId is required', 'VALIDATION_ERROR', 400, {}, '/api/rides/matching/batches', 'GET');
+  }
+  if (date && !/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+    return createApiError('date must be YYYY-MM-DD', 'VALIDATION_ERROR', 400, {}, '/api/rides/matching/batches', 'GET');
+  }
+
+  const summary = await rideMatchingEngine.getBatchMatchingSummary(regionId, date);
+  return createApiResponse(summary);
+});
+
+// OPTIONS handler for CORS
+export const OPTIONS = handleOptionsRequest;
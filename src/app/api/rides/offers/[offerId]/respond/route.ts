@@ -0,0 +1,63 @@
+// /api/rides/offers/[offerId]/respond - Driver accepts or declines a ride offer
+// Same handling as the ride:offer_response socket event, for driver apps without a live socket
+
+import { NextRequest } from 'next/server';
+import { z } from 'zod';
+
+import {
+  createApiResponse,
+  createApiError,
+  asyncHandler,
+  handleOptionsRequest
+} from '@/lib/api-utils';
+import { authenticateRequest } from '@/lib/auth';
+import { rideMatchingEngine } from '@/lib/rideMatching';
+
+const RespondSchema = z.discriminatedUnion('action', [
+  z.object({ action: z.literal('accept') }),
+  z.object({ action: z.literal('decline'), reason: z.string().max(100).optional() })
+]);
+
+const OFFER_ERRORS: Record<string, { code: string; message: string; status: number }> = {
+  offer_not_found: { code: 'OFFER_NOT_FOUND', message: 'Ride offer not found', status: 404 },
+  offer_not_pending: { code: 'OFFER_CLOSED', message: 'Ride offer has already been answered or withdrawn', status: 409 },
+  offer_expired: { code: 'OFFER_EXPIRED', message: 'Ride offer has expired', status: 410 }
+};
+
+// POST /api/rides/offers/[offerId]/respond - Accept or decline an offer made to the calling driver
+export const POST = asyncHandler(async (request: NextRequest, context?: { params: Record<string, string> }) => {
+  const offerId = (await context?.params)?.offerId ?? '';
+  const path = `/api/rides/offers/${offerId}/respond`;
+
+  const authResult = await authenticateRequest(request);
+  if (!authResult.success) {
+    return authResult.response;
+  }
+  const { user } = authResult;
+  if (user.userType !== 'driver') {
+    return createApiError('Only drivers can respond to ride offers', 'FORBIDDEN', 403, {}, path, 'POST');
+  }
+
+  const parsed = RespondSchema.safeParse(await request.json());
+  if (!parsed.success) {
+    return createApiError('Invalid request body', 'VALIDATION_ERROR', 400, { details: parsed.error.flatten() }, path, 'POST');
+  }
+
+  try {
+    const offer = await rideMatchingEngine.respondToOffer(offerId, user.userId, parsed.data);
+
+    const message = offer.status === 'accepted'
+      ? 'Ride offer accepted'
+      : offer.status === 'declined' ? 'Ride offer declined' : 'Ride is no longer available';
+    return createApiResponse({ offer }, message);
+  } catch (error) {
+    const known = error instanceof Error ? OFFER_ERRORS[error.message] : undefined;
+    if (known) {
+      return createApiError(known.message, known.code, known.status, {}, path, 'POST');
+    }
+    throw error;
+  }
+});
+
+// OPTIONS handler for CORS
+export const OPTIONS = handleOptionsRequest;
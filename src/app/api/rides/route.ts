@@ -15,15 +15,22 @@ import {
   handleOptionsRequest
 } from '@/lib/api-utils';
 import { getDatabase } from '@/lib/database';
+import { surgeSignalAggregator } from '@/lib/pricing/surgeSignalAggregator';
 import { redis } from '@/lib/redis';
+import { attachQuoteToBooking, releaseQuote } from '@/lib/repos/fareQuotesRepo';
+import { rideMatchingEngine } from '@/lib/rideMatching';
+import { scheduleRide, validateScheduledPickup } from '@/lib/scheduledRides';
+import { fareQuoteErrorStatus, redeemQuote } from '@/lib/services/fareQuoteService';
+import { buildStops, insertBookingStops } from '@/lib/tripStops';
 import { getWebSocketManager } from '@/lib/websocket';
+import { FareQuote } from '@/types/fareQuote';
 
 const db = getDatabase();
 
 // Ride request interface
 interface CreateRideRequest {
   customerId: string;
-  serviceType: 'ride_4w' | 'ride_2w';
+  serviceType: 'ride_4w' | 'ride_2w' | 'ride_pool';
   pickupLocation: {
     latitude: number;
     longitude: number;
@@ -39,6 +46,64 @@ interface CreateRideRequest {
   scheduledPickupTime?: string;
   passengerCount?: number;
   regionId: string;
+  // Intermediate stops between pickup and dropoff, in the order they are driven
+  stops?: Array<{
+    latitude: number;
+    longitude: number;
+    address: string;
+  }>;
+  seats?: number; // pooled rides only
+  quoteId?: string; // signed ID from POST /api/pricing/quotes; the ride is charged as quoted
+}
+
+const MAX_WAYPOINTS = 5;
+const MAX_POOL_SEATS = 2;
+
+// Stops, seats and scheduling: multi-stop and pooled bookings need a dropoff, pooled ones go
+// straight to it and are matched now rather than scheduled
+function validateBookingOptions(body: CreateRideRequest): { field: string; message: string }[] {
+  const errors: { field: string; message: string }[] = [];
+  const waypoints = body.stops ?? [];
+
+  if (waypoints.length > 0 && !body.dropoffLocation) {
+    errors.push({ field: 'dropoffLocation', message: 'A dropoff is required when stops are given' });
+  }
+  if (waypoints.length > MAX_WAYPOINTS) {
+    errors.push({ field: 'stops', message: `At most ${MAX_WAYPOINTS} stops are allowed` });
+  }
+  waypoints.forEach((stop, index) => {
+    if (typeof stop.latitude !== 'number' || typeof stop.longitude !== 'number' || !stop.address) {
+      errors.push({ field: `stops.${index}`, message: 'Each stop needs a latitude, longitude and address' });
+    }
+  });
+
+  if (body.serviceType === 'ride_pool') {
+    if (!body.dropoffLocation) {
+      errors.push({ field: 'dropoffLocation', message: 'Pooled rides require a dropoff' });
+    }
+    if (waypoints.length > 0) {
+      errors.push({ field: 'stops', message: 'Pooled rides cannot have intermediate stops' });
+    }
+  }
+  if (body.scheduledPickupTime) {
+    const scheduleError = validateScheduledPickup(new Date(body.scheduledPickupTime));
+    if (scheduleError) {
+      errors.push({ field: 'scheduledPickupTime', message: scheduleError });
+    } else if (body.serviceType === 'ride_pool') {
+      errors.push({ field: 'scheduledPickupTime', message: 'Pooled rides cannot be scheduled' });
+    }
+  }
+
+  if (body.quoteId && (body.serviceType === 'ride_pool' || body.scheduledPickupTime)) {
+    errors.push({ field: 'quoteId', message: 'Quotes are for immediate rides that are not pooled' });
+  }
+
+  const seats = body.seats ?? 1;
+  if (!Number.isInteger(seats) || seats < 1 || (body.serviceType === 'ride_pool' && seats > MAX_POOL_SEATS)) {
+    errors.push({ field: 'seats', message: `Pooled rides take 1 to ${MAX_POOL_SEATS} seats` });
+  }
+
+  return errors;
 }
 
 // Ride matching algorithm - finds available drivers within 5km radius
@@ -248,18 +313,36 @@ export const POST = asyncHandler(async (request: NextRequest) => {
     'regionId'
   ];
   
-  const validationErrors = validateRequiredFields(body as unknown as Record<string, unknown>, requiredFields);
+  const validationErrors = [
+    ...validateRequiredFields(body as unknown as Record<string, unknown>, requiredFields),
+    ...validateBookingOptions(body)
+  ];
   
   if (validationErrors.length > 0) {
     return createValidationError(validationErrors, '/api/rides', 'POST');
   }
 
+  let quote: FareQuote | null = null;
+
   try {
+    // A quote is claimed before the booking exists so it can only ever book one ride
+    if (body.quoteId) {
+      quote = await redeemQuote(body.quoteId, {
+        customerId: body.customerId,
+        regionId: body.regionId,
+        serviceType: body.serviceType,
+        pickup: body.pickupLocation,
+        dropoff: body.dropoffLocation
+      });
+    }
+
     // Generate unique booking reference
     const bookingReference = `XPS-${Date.now()}-${Math.random().toString(36).substr(2, 6).toUpperCase()}`;
 
-    // Calculate surge pricing
-    const surgeMultiplier = await calculateSurgeMultiplier(body.regionId, body.serviceType);
+    // Calculate surge pricing; a quoted ride keeps the surge it was quoted with
+    const surgeMultiplier = quote
+      ? quote.surgeMultiplier
+      : await calculateSurgeMultiplier(body.regionId, body.serviceType);
 
     // Find nearby available drivers
     const nearbyDrivers = await findNearbyAvailableDrivers(
@@ -330,11 +413,56 @@ export const POST = asyncHandler(async (request: NextRequest) => {
     ]);
 
     const newRide = rideResult.rows[0];
+    const seats = body.seats ?? 1;
+
+    if (quote) {
+      await attachQuoteToBooking(quote, newRide.id);
+    }
+
+    // Ordered stops the driver works through: pickup, any waypoints, then dropoff
+    const stops = await insertBookingStops(db, newRide.id, buildStops(
+      body.pickupLocation,
+      body.stops,
+      body.dropoffLocation
+    ));
+
+    // Future pickups wait for the scheduled ride dispatcher instead of matching now
+    if (body.scheduledPickupTime) {
+      await db.query('UPDATE bookings SET seats = $2 WHERE id = $1', [newRide.id, seats]);
+      const scheduledRide = await scheduleRide(db, {
+        id: newRide.id,
+        regionId: body.regionId,
+        serviceType: body.serviceType,
+        scheduledPickupTime: new Date(body.scheduledPickupTime)
+      });
+
+      return createApiResponse({
+        ride: {
+          ...newRide,
+          scheduledPickupTime: scheduledRide.scheduledPickupTime,
+          surgeMultiplier,
+          pickupLocation: body.pickupLocation,
+          dropoffLocation: body.dropoffLocation,
+          seats,
+          stops
+        },
+        scheduledRide
+      }, 'Scheduled ride created successfully', 201);
+    }
+
+    // Immediate requests are demand for surge pricing where they are picked up
+    surgeSignalAggregator.recordRequest({
+      regionId: body.regionId,
+      latitude: body.pickupLocation.latitude,
+      longitude: body.pickupLocation.longitude,
+      timestamp: Date.now(),
+      etaSec: estimatedMinutes * 60
+    });
 
     // Update ride status to 'searching' and cache for matching
     await db.query(
-      'UPDATE bookings SET status = $1 WHERE id = $2', 
-      ['searching', newRide.id]
+      'UPDATE bookings SET status = $1, seats = $3 WHERE id = $2', 
+      ['searching', newRide.id, seats]
     );
 
     // Cache ride request for real-time matching
@@ -365,7 +493,7 @@ export const POST = asyncHandler(async (request: NextRequest) => {
         nearbyDrivers: nearbyDrivers.map(d => d.id),
         regionId: body.regionId,
         timestamp: new Date().toISOString(),
-        estimatedFare: null, // Calculate in production
+        estimatedFare: quote?.total ?? null,
         estimatedDistance: nearbyDrivers[0]?.distance_km || 0,
         surgeMultiplier
       };
@@ -378,10 +506,25 @@ export const POST = asyncHandler(async (request: NextRequest) => {
       wsManager.broadcastToRegion(body.regionId, 'booking:new_request', rideNotification);
     }
 
-    // Start automatic matching process (simplified - would be more complex in production)
-    setTimeout(async () => {
-      await tryAutoAssignRide(newRide.id);
-    }, 5000); // Wait 5 seconds before auto-assignment
+    // Every immediate booking is matched by the engine, which offers it to drivers in turn
+    // and can add a pooled rider to a running pool trip
+    rideMatchingEngine.matchRideToDriver({
+      id: newRide.id,
+      bookingReference: newRide.booking_reference,
+      customerId: body.customerId,
+      serviceType: body.serviceType,
+      pickupLocation: body.pickupLocation,
+      dropoffLocation: body.dropoffLocation,
+      regionId: body.regionId,
+      surgeMultiplier,
+      seats
+    }).catch(error => {
+      logger.error('Error matching ride', {
+        rideId: newRide.id,
+        serviceType: body.serviceType,
+        error: error instanceof Error ? error.message : String(error)
+      });
+    });
 
     return createApiResponse({
       ride: {
@@ -389,12 +532,25 @@ export const POST = asyncHandler(async (request: NextRequest) => {
         nearbyDriversCount: nearbyDrivers.length,
         estimatedPickupTime: estimatedPickupTime,
         surgeMultiplier,
+        quotedFare: quote?.total ?? null,
         pickupLocation: body.pickupLocation,
-        dropoffLocation: body.dropoffLocation
+        dropoffLocation: body.dropoffLocation,
+        seats,
+        stops
       }
     }, 'Ride request created successfully', 201);
 
   } catch (error) {
+    const quoteStatus = fareQuoteErrorStatus(error);
+    if (quoteStatus) {
+      return createApiError((error as Error).message, 'FARE_QUOTE_REJECTED', quoteStatus, undefined, '/api/rides', 'POST');
+    }
+    if (quote) {
+      await releaseQuote(quote.id).catch(releaseError => logger.error('Error releasing fare quote', {
+        quoteId: quote?.id,
+        error: releaseError instanceof Error ? releaseError.message : String(releaseError)
+      }));
+    }
     logger.error('Error creating ride request', { customerId: body.customerId, serviceType: body.serviceType, regionId: body.regionId, error: error instanceof Error ? error.message : String(error) });
     return createApiError(
       'Failed to create ride request',
@@ -407,66 +563,5 @@ export const POST = asyncHandler(async (request: NextRequest) => {
   }
 });
 
-// Auto-assignment logic (simplified)
-async function tryAutoAssignRide(rideId: string): Promise<void> {
-  try {
-    const cachedRide = await redis.get(`ride:${rideId}`);
-    if (!cachedRide) return;
-
-    const rideData = JSON.parse(cachedRide);
-    
-    // Check if ride is still searching
-    const currentRideQuery = await db.query('SELECT * FROM bookings WHERE id = $1', [rideId]);
-    const currentRide = currentRideQuery.rows[0];
-    
-    if (!currentRide || currentRide.status !== 'searching') return;
-
-    // Get the closest available driver
-    const nearbyDrivers = await findNearbyAvailableDrivers(
-      parseFloat(currentRide.pickup_location.coordinates[1]), // latitude
-      parseFloat(currentRide.pickup_location.coordinates[0]), // longitude
-      currentRide.service_type,
-      currentRide.region_id,
-      10 // Expand search to 10km
-    );
-
-    if (nearbyDrivers.length > 0) {
-      const selectedDriver = nearbyDrivers[0]; // Select closest driver
-      
-      // Assign driver
-      await db.query(`
-        UPDATE bookings 
-        SET driver_id = $1, status = 'assigned', assigned_at = NOW()
-        WHERE id = $2
-      `, [selectedDriver.id, rideId]);
-
-      // Update driver status to busy
-      await db.query(`
-        UPDATE drivers 
-        SET status = 'busy'
-        WHERE id = $1
-      `, [selectedDriver.id]);
-
-      // Notify via WebSocket
-      const wsManager = getWebSocketManager();
-      if (wsManager) {
-        wsManager.broadcastToRegion(currentRide.region_id, 'booking:driver_assigned', {
-          bookingId: rideId,
-          bookingReference: currentRide.booking_reference,
-          driverId: selectedDriver.id,
-          customerId: currentRide.customer_id,
-          regionId: currentRide.region_id,
-          timestamp: new Date().toISOString()
-        });
-      }
-
-      // Clean up cache
-      await redis.del(`ride:${rideId}`);
-    }
-  } catch (error) {
-    logger.error('Error in auto-assignment', { rideId, error: error instanceof Error ? error.message : String(error) });
-  }
-}
-
 // OPTIONS handler for CORS
 export const OPTIONS = handleOptionsRequest;
\ No newline at end of file
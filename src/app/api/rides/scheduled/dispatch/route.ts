@@ -0,0 +1,29 @@
+// /api/rides/scheduled/dispatch - Run the scheduled ride dispatcher now
+// Same pass the dispatcher runs every minute; safe to re-run
+
+import { NextRequest } from 'next/server';
+
+import {
+  createApiResponse,
+  asyncHandler,
+  handleOptionsRequest
+} from '@/lib/api-utils';
+import { authenticateRequest } from '@/lib/auth';
+import { scheduledRideDispatcher } from '@/lib/scheduledRides';
+
+// POST /api/rides/scheduled/dispatch
+export const POST = asyncHandler(async (request: NextRequest) => {
+  const authResult = await authenticateRequest(request, ['bookings:write']);
+  if (!authResult.success) {
+    return authResult.response;
+  }
+
+  const result = await scheduledRideDispatcher.runCycle();
+  return createApiResponse(
+    result,
+    `${result.reserved} reserved, ${result.dispatched} dispatched, ${result.rematched} re-matched`
+  );
+});
+
+// OPTIONS handler for CORS
+export const OPTIONS = handleOptionsRequest;
@@ -0,0 +1,61 @@
+// /api/rides/scheduled - Scheduled rides
+// Upcoming pickups with their reserved drivers, for dispatchers and for drivers checking their reservations
+
+import { NextRequest } from 'next/server';
+
+import {
+  createApiResponse,
+  createApiError,
+  asyncHandler,
+  handleOptionsRequest
+} from '@/lib/api-utils';
+import { authenticateRequest } from '@/lib/auth';
+import { getScheduledRides } from '@/lib/scheduledRides';
+import { ScheduledRideStatus } from '@/types/fleet';
+
+const STATUSES: ScheduledRideStatus[] = ['scheduled', 'reserved', 'dispatched', 'cancelled', 'failed'];
+
+// GET /api/rides/scheduled?regionId=...&status=reserved&from=2026-10-19T00:00:00Z&to=2026-10-20T00:00:00Z
+export const GET = asyncHandler(async (request: NextRequest) => {
+  const authResult = await authenticateRequest(request, ['bookings:read']);
+  if (!authResult.success) {
+    return authResult.response;
+  }
+
+  const { searchParams } = new URL(request.url);
+  const status = searchParams.get('status') ?? undefined;
+  const from = searchParams.get('from') ?? undefined;
+  const to = searchParams.get('to') ?? undefined;
+  const limit = parseInt(searchParams.get('limit') ?? '100', 10);
+
+  if (status && !STATUSES.includes(status as ScheduledRideStatus)) {
+    return createApiError(
+      `status must be one of: ${STATUSES.join(', ')}`, 'VALIDATION_ERROR', 400, {}, '/api/rides/scheduled', 'GET'
+    );
+  }
+  if ([from, to].some(value => value && Number.isNaN(Date.parse(value)))) {
+    return createApiError('from and to must be ISO timestamps', 'VALIDATION_ERROR', 400, {}, '/api/rides/scheduled', 'GET');
+  }
+  if (!Number.isInteger(limit) || limit < 1 || limit > 500) {
+    return createApiError('limit must be between 1 and 500', 'VALIDATION_ERROR', 400, {}, '/api/rides/scheduled', 'GET');
+  }
+
+  // Drivers only see the rides reserved for them
+  const driverId = authResult.user.userType === 'driver'
+    ? authResult.user.userId
+    : searchParams.get('driverId') ?? undefined;
+
+  const rides = await getScheduledRides({
+    regionId: searchParams.get('regionId') ?? undefined,
+    status: status as ScheduledRideStatus | undefined,
+    driverId,
+    from,
+    to,
+    limit
+  });
+
+  return createApiResponse({ rides, total: rides.length });
+});
+
+// OPTIONS handler for CORS
+export const OPTIONS = handleOptionsRequest;
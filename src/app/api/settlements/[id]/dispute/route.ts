@@ -1,4 +1,56 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+
+import { authenticateRequest } from '@/lib/auth';
+import { getSettlement, listDisputes } from '@/lib/repos/settlementsRepo';
+import { openDispute, transitionDispute } from '@/lib/services/settlementService';
+
+const CreateDisputeSchema = z.object({
+  reason: z.string().min(1).max(100),
+  details: z.string().max(2000).optional(),
+  disputedAmount: z.number().positive().optional(),
+});
+
+const UpdateDisputeSchema = z.object({
+  status: z.enum(['under_review', 'resolved', 'rejected']),
+  note: z.string().min(1).max(2000),
+  adjustmentAmount: z.number().min(0).optional(),
+});
+
+const errorStatus: Record<string, number> = {
+  settlement_not_found: 404,
+  dispute_not_found: 404,
+  dispute_already_open: 409,
+  invalid_dispute_transition: 409,
+};
+
+// GET /api/settlements/:id/dispute
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authResult = await authenticateRequest(request, ['drivers:read']);
+    if (!authResult.success) {
+      return authResult.response;
+    }
+
+    const { id } = await context.params;
+    const settlement = await getSettlement(id);
+    const { user } = authResult;
+    if (!settlement || (user.userType === 'driver' && settlement.driverId !== user.userId)) {
+      return NextResponse.json({ error: 'Settlement not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ data: await listDisputes(id) });
+  } catch (error) {
+    console.error('Error fetching settlement disputes:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch settlement disputes' },
+      { status: 500 }
+    );
+  }
+}
 
 // POST /api/settlements/:id/dispute
 export async function POST(
@@ -6,29 +58,36 @@ export async function POST(
   context: { params: Promise<{ id: string }> }
 ) {
   try {
+    const authResult = await authenticateRequest(request, ['drivers:read']);
+    if (!authResult.success) {
+      return authResult.response;
+    }
+
     const { id } = await context.params;
-    const body = await request.json();
-
-    // TODO: Integrate with backend Dispute module API
-    // TODO: Add authentication and authorization
-    // TODO: Validate request body
-    // TODO: Create dispute record
-    // TODO: Send notification to operations team
-
-    const mockDispute = {
-      id: 'DISP-002',
-      disputedEntityType: 'settlement',
-      disputedEntityId: id,
-      disputedAmount: 2650,
-      reason: body.reason,
-      details: body.details,
-      status: 'pending',
-      raisedBy: 'DRV-123',
-      raisedAt: new Date().toISOString(),
-    };
-
-    return NextResponse.json(mockDispute, { status: 201 });
+    const parsed = CreateDisputeSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid request body', details: parsed.error.errors },
+        { status: 400 }
+      );
+    }
+
+    const { user } = authResult;
+    if (user.userType === 'driver') {
+      const settlement = await getSettlement(id);
+      if (!settlement || settlement.driverId !== user.userId) {
+        return NextResponse.json({ error: 'Settlement not found' }, { status: 404 });
+      }
+    }
+
+    const dispute = await openDispute(id, parsed.data, user.userId);
+
+    return NextResponse.json(dispute, { status: 201 });
   } catch (error) {
+    const status = errorStatus[(error as Error).message];
+    if (status) {
+      return NextResponse.json({ error: (error as Error).message }, { status });
+    }
     console.error('Error creating settlement dispute:', error);
     return NextResponse.json(
       { error: 'Failed to create settlement dispute' },
@@ -36,3 +95,39 @@ export async function POST(
     );
   }
 }
+
+// PATCH /api/settlements/:id/dispute - reviewer state change with a note
+export async function PATCH(
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    const authResult = await authenticateRequest(request, ['drivers:write']);
+    if (!authResult.success) {
+      return authResult.response;
+    }
+
+    const { id } = await context.params;
+    const parsed = UpdateDisputeSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid request body', details: parsed.error.errors },
+        { status: 400 }
+      );
+    }
+
+    const dispute = await transitionDispute(id, parsed.data, authResult.user.userId);
+
+    return NextResponse.json(dispute);
+  } catch (error) {
+    const status = errorStatus[(error as Error).message];
+    if (status) {
+      return NextResponse.json({ error: (error as Error).message }, { status });
+    }
+    console.error('Error updating settlement dispute:', error);
+    return NextResponse.json(
+      { error: 'Failed to update settlement dispute' },
+      { status: 500 }
+    );
+  }
+}
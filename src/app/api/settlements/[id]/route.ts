@@ -1,49 +1,28 @@
 import { NextRequest, NextResponse } from 'next/server';
 
+import { authenticateRequest } from '@/lib/auth';
+import { getSettlementWithLines } from '@/lib/repos/settlementsRepo';
+
 // GET /api/settlements/:id
 export async function GET(
   request: NextRequest,
   context: { params: Promise<{ id: string }> }
 ) {
   try {
-    const { id } = await context.params;
+    const authResult = await authenticateRequest(request, ['drivers:read']);
+    if (!authResult.success) {
+      return authResult.response;
+    }
 
-    // TODO: Integrate with backend SettlementLedger module API
-    // TODO: Add authentication and authorization
-    // TODO: Verify user has access to this settlement
+    const { id } = await context.params;
+    const settlement = await getSettlementWithLines(id);
 
-    const mockSettlement = {
-      id,
-      driverId: 'DRV-123',
-      settlementDate: '2026-02-02',
-      status: 'completed',
-      totalRevenue: 3500,
-      totalDeductions: 850,
-      netAmount: 2650,
-      tripCount: 16,
-      trips: [
-        {
-          id: 'TRP-001',
-          tripNumber: 'T20260202001',
-          revenue: 250,
-          commission: 50,
-          netAmount: 200,
-          completedAt: '2026-02-02T08:30:00Z',
-        },
-        {
-          id: 'TRP-002',
-          tripNumber: 'T20260202002',
-          revenue: 180,
-          commission: 36,
-          netAmount: 144,
-          completedAt: '2026-02-02T09:15:00Z',
-        },
-      ],
-      createdAt: '2026-02-02',
-      updatedAt: '2026-02-02',
-    };
+    const { user } = authResult;
+    if (!settlement || (user.userType === 'driver' && settlement.driverId !== user.userId)) {
+      return NextResponse.json({ error: 'Settlement not found' }, { status: 404 });
+    }
 
-    return NextResponse.json(mockSettlement);
+    return NextResponse.json(settlement);
   } catch (error) {
     console.error('Error fetching settlement details:', error);
     return NextResponse.json(
@@ -1,47 +1,56 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+
+import { authenticateRequest } from '@/lib/auth';
+import { listSettlements } from '@/lib/repos/settlementsRepo';
+import { generateDailySettlements } from '@/lib/services/settlementService';
+
+const ListQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(10),
+  driverId: z.string().uuid().optional(),
+  status: z.enum(['pending', 'completed', 'disputed']).optional(),
+  dateFrom: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+  dateTo: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+});
+
+const GenerateSchema = z.object({
+  settlementDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+  commissionRate: z.number().min(0).max(1).optional(),
+});
 
 // GET /api/settlements
 export async function GET(request: NextRequest) {
   try {
-    // TODO: Integrate with backend SettlementLedger module API
-    // TODO: Add authentication and authorization
-    // TODO: Get pagination, filters from query params
-    // TODO: Get actual driver ID from session/token
-
-    const mockSettlements = [
-      {
-        id: 'ST-001',
-        driverId: 'DRV-123',
-        settlementDate: '2026-02-02',
-        status: 'completed',
-        totalRevenue: 3500,
-        totalDeductions: 850,
-        netAmount: 2650,
-        tripCount: 16,
-        createdAt: '2026-02-02',
-        updatedAt: '2026-02-02',
-      },
-      {
-        id: 'ST-002',
-        driverId: 'DRV-123',
-        settlementDate: '2026-02-01',
-        status: 'completed',
-        totalRevenue: 2980,
-        totalDeductions: 720,
-        netAmount: 2260,
-        tripCount: 13,
-        createdAt: '2026-02-01',
-        updatedAt: '2026-02-01',
-      },
-    ];
+    const authResult = await authenticateRequest(request, ['drivers:read']);
+    if (!authResult.success) {
+      return authResult.response;
+    }
+
+    const parsed = ListQuerySchema.safeParse(Object.fromEntries(request.nextUrl.searchParams));
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid query parameters', details: parsed.error.errors },
+        { status: 400 }
+      );
+    }
+
+    // Drivers only ever see their own settlements
+    const { user } = authResult;
+    const filters = {
+      ...parsed.data,
+      driverId: user.userType === 'driver' ? user.userId : parsed.data.driverId,
+    };
+
+    const { settlements, total } = await listSettlements(filters);
 
     return NextResponse.json({
-      data: mockSettlements,
+      data: settlements,
       pagination: {
-        page: 1,
-        limit: 10,
-        total: 2,
-        totalPages: 1,
+        page: filters.page,
+        limit: filters.limit,
+        total,
+        totalPages: Math.ceil(total / filters.limit),
       },
     });
   } catch (error) {
@@ -52,3 +61,34 @@ export async function GET(request: NextRequest) {
     );
   }
 }
+
+// POST /api/settlements - run daily settlement generation for a business date
+export async function POST(request: NextRequest) {
+  try {
+    const authResult = await authenticateRequest(request, ['drivers:write']);
+    if (!authResult.success) {
+      return authResult.response;
+    }
+
+    const parsed = GenerateSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid request body', details: parsed.error.errors },
+        { status: 400 }
+      );
+    }
+
+    const result = await generateDailySettlements(parsed.data.settlementDate, {
+      commissionRate: parsed.data.commissionRate,
+      postedBy: authResult.user.userId,
+    });
+
+    return NextResponse.json(result, { status: 201 });
+  } catch (error) {
+    console.error('Error generating settlements:', error);
+    return NextResponse.json(
+      { error: 'Failed to generate settlements' },
+      { status: 500 }
+    );
+  }
+}
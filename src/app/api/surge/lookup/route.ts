@@ -1,75 +1,30 @@
+import { cellToLatLng, getResolution } from 'h3-js';
 import { NextRequest, NextResponse } from 'next/server';
-import { SurgeLookupRequest, SurgeLookupResponse, ServiceKey } from '@/lib/pricing/surgeSchemas';
-import { getDatabase } from '@/lib/database';
-import { h3ToParent, getResolution } from 'h3-js';
 
+import { lookupSurge } from '@/lib/pricing/surgeResolver';
+import { SurgeLookupRequest, SurgeLookupResponse } from '@/lib/pricing/surgeSchemas';
+import { surgeSignalAggregator } from '@/lib/pricing/surgeSignalAggregator';
+
+// POST /api/surge/lookup - Surge for a pickup hex; see surgeResolver for the precedence
 export async function POST(request: NextRequest) {
+  let originH3: string | undefined;
+
   try {
     const body = await request.json();
     const parsedRequest = SurgeLookupRequest.parse(body);
-    const { serviceKey, originH3, timestamp } = parsedRequest;
-
-    // Taxi service exclusion - always return 1.0 multiplier
-    if (serviceKey === 'taxi') {
-      return NextResponse.json({
-        multiplier: 1.0,
-        additiveFee: 0,
-        source: 'ml',
-        h3Res: getResolution(originH3),
-        ruleId: undefined
-      } satisfies SurgeLookupResponse);
-    }
-
-    const db = getDatabase();
-    
-    // Try to find surge state at exact hex first, then parent hexes
-    let currentH3 = originH3;
-    let currentRes = getResolution(originH3);
-    
-    while (currentRes >= 6) { // Don't go below resolution 6
-      const surgeState = await db.get(`
-        SELECT 
-          multiplier,
-          additive_fee,
-          source,
-          h3_res,
-          profile_id
-        FROM surge_hex_state 
-        WHERE h3_index = ? 
-          AND service_key = ?
-          AND (valid_until IS NULL OR datetime(valid_until) > datetime(?))
-          AND datetime(valid_from) <= datetime(?)
-        ORDER BY valid_from DESC
-        LIMIT 1
-      `, [currentH3, serviceKey, timestamp, timestamp]);
-
-      if (surgeState) {
-        return NextResponse.json({
-          multiplier: surgeState.multiplier,
-          additiveFee: surgeState.additive_fee,
-          source: surgeState.source,
-          h3Res: surgeState.h3_res,
-          ruleId: surgeState.profile_id
-        } satisfies SurgeLookupResponse);
-      }
+    originH3 = parsedRequest.originH3;
 
-      // Move to parent hex if no state found
-      if (currentRes > 6) {
-        currentH3 = h3ToParent(currentH3, currentRes - 1);
-        currentRes = currentRes - 1;
-      } else {
-        break;
-      }
+    if (parsedRequest.riderSearch && parsedRequest.regionId) {
+      const [latitude, longitude] = cellToLatLng(parsedRequest.originH3);
+      surgeSignalAggregator.recordSearch({
+        regionId: parsedRequest.regionId,
+        latitude,
+        longitude,
+        timestamp: Date.now()
+      });
     }
 
-    // No surge state found - return default
-    return NextResponse.json({
-      multiplier: 1.0,
-      additiveFee: 0,
-      source: 'ml',
-      h3Res: getResolution(originH3),
-      ruleId: undefined
-    } satisfies SurgeLookupResponse);
+    return NextResponse.json(await lookupSurge(parsedRequest) satisfies SurgeLookupResponse);
 
   } catch (error) {
     console.error('Surge lookup error:', error);
@@ -79,8 +34,9 @@ export async function POST(request: NextRequest) {
       multiplier: 1.0,
       additiveFee: 0,
       source: 'ml',
-      h3Res: 8,
-      ruleId: undefined
+      h3Res: originH3 ? getResolution(originH3) : 8,
+      ruleId: undefined,
+      rule: 'default'
     } satisfies SurgeLookupResponse, { status: 500 });
   }
-}
\ No newline at end of file
+}
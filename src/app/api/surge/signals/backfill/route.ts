@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { withAuthAndRateLimit } from '@/lib/auth';
+import { BackfillSurgeSignalsRequest } from '@/lib/pricing/surgeSchemas';
+import { backfillSurgeSignals, surgeSignalErrorStatus } from '@/lib/pricing/surgeSignalAggregator';
+
+// POST /api/surge/signals/backfill - Rebuild surge signals for a past window from historical bookings
+export const POST = withAuthAndRateLimit(async (request: NextRequest) => {
+  const parsed = BackfillSurgeSignalsRequest.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: 'Invalid backfill request', details: parsed.error.errors },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const { regionId, from, to } = parsed.data;
+    return NextResponse.json(await backfillSurgeSignals(regionId, from, to));
+  } catch (error) {
+    const status = surgeSignalErrorStatus(error);
+    if (status) {
+      return NextResponse.json({ error: (error as Error).message }, { status });
+    }
+
+    console.error('Error backfilling surge signals:', error);
+    return NextResponse.json(
+      { error: 'Failed to backfill surge signals' },
+      { status: 500 }
+    );
+  }
+}, ['analytics:export'], { limit: 10, windowSeconds: 3600 });
@@ -43,7 +43,8 @@ export async function POST(
     const surgeData = await getSurgeMultiplier(
       profile.service_key,
       previewRequest.origin,
-      previewRequest.timestamp
+      previewRequest.timestamp,
+      profile.region_id ? String(profile.region_id) : undefined
     );
 
     // Apply surge to base fare
@@ -202,7 +203,8 @@ async function calculateFareBreakdown(
 async function getSurgeMultiplier(
   serviceKey: string,
   origin: { lat: number; lon: number },
-  timestamp: string
+  timestamp: string,
+  regionId?: string
 ) {
   try {
     // Convert to H3 for surge lookup
@@ -211,7 +213,8 @@ async function getSurgeMultiplier(
     const surgeLookupRequest: SurgeLookupRequest = {
       serviceKey: serviceKey as any,
       originH3,
-      timestamp
+      timestamp,
+      regionId
     };
 
     // Call internal surge lookup API
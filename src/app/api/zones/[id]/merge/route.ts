@@ -14,6 +14,8 @@ const MergeZoneSchema = z.object({
   reason: z.string().optional()
 });
 
+type VersionedRow = Record<string, unknown> & { version: number };
+
 // POST /api/zones/[id]/merge - Merge zones
 export async function POST(
   request: NextRequest,
@@ -167,7 +169,7 @@ export async function POST(
       await Promise.all(retirePromises);
 
       // Get the updated primary zone
-      const mergedZone = await db.get('SELECT * FROM zones WHERE id = ?', [id]);
+      const mergedZone = (await db.get<VersionedRow>('SELECT * FROM zones WHERE id = ?', [id]))!;
 
       // Create history record for the merged result
       await db.run(`
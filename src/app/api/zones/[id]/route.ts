@@ -14,6 +14,18 @@ const UpdateZoneSchema = z.object({
   version: z.number(), // Required for optimistic concurrency
 });
 
+// Zone row with its JSON and aggregated columns still serialised
+type ZoneListRow = Record<string, unknown> & {
+  geometry: string;
+  centroid: string | null;
+  tags: string | null;
+  metadata: string | null;
+  town_codes: string | null;
+  poi_count: string | null;
+};
+
+type VersionedRow = Record<string, unknown> & { version: number };
+
 // GET /api/zones/[id] - Get single zone
 export async function GET(
   request: NextRequest,
@@ -23,7 +35,7 @@ export async function GET(
     const { id } = params;
     const db = await getDb();
     
-    const zone = await db.get(`
+    const zone = await db.get<ZoneListRow & { poi_names: string | null }>(`
       SELECT z.*, 
              COUNT(p.id) as poi_count,
              GROUP_CONCAT(zt.town_code) as town_codes,
@@ -158,7 +170,7 @@ export async function PUT(
     await db.run(query, updateValues);
 
     // Create history record
-    const updatedZone = await db.get('SELECT * FROM zones WHERE id = ?', [id]);
+    const updatedZone = (await db.get<VersionedRow>('SELECT * FROM zones WHERE id = ?', [id]))!;
     
     await db.run(`
       INSERT INTO zone_history (zone_id, version, snapshot, created_by)
@@ -211,12 +223,12 @@ export async function DELETE(
     }
 
     // Check if zone has active POIs
-    const activePois = await db.get(
+    const activePois = await db.get<{ count: number }>(
       'SELECT COUNT(*) as count FROM pois WHERE zone_id = ? AND status IN ("active", "draft")',
       [id]
     );
     
-    if (activePois.count > 0) {
+    if ((activePois?.count ?? 0) > 0) {
       return NextResponse.json(
         { error: 'Cannot delete zone with active POIs. Retire POIs first.' },
         { status: 400 }
@@ -234,7 +246,7 @@ export async function DELETE(
     `, ['current-user', id]);
 
     // Create history record
-    const updatedZone = await db.get('SELECT * FROM zones WHERE id = ?', [id]);
+    const updatedZone = (await db.get<VersionedRow>('SELECT * FROM zones WHERE id = ?', [id]))!;
     
     await db.run(`
       INSERT INTO zone_history (zone_id, version, snapshot, created_by)
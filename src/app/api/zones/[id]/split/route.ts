@@ -18,6 +18,8 @@ const SplitZoneSchema = z.object({
   reason: z.string().optional()
 });
 
+type VersionedRow = Record<string, unknown> & { version: number };
+
 // POST /api/zones/[id]/split - Split zone into multiple zones
 export async function POST(
   request: NextRequest,
@@ -197,7 +199,7 @@ export async function POST(
         ]);
 
         // Create history record for the updated original zone
-        const updatedOriginal = await db.get('SELECT * FROM zones WHERE id = ?', [id]);
+        const updatedOriginal = (await db.get<VersionedRow>('SELECT * FROM zones WHERE id = ?', [id]))!;
         await db.run(`
           INSERT INTO zone_history (zone_id, version, snapshot, created_by)
           VALUES (?, ?, ?, ?)
@@ -234,7 +236,7 @@ export async function POST(
         ]);
 
         // Create history record for the retired original zone
-        const retiredOriginal = await db.get('SELECT * FROM zones WHERE id = ?', [id]);
+        const retiredOriginal = (await db.get<VersionedRow>('SELECT * FROM zones WHERE id = ?', [id]))!;
         await db.run(`
           INSERT INTO zone_history (zone_id, version, snapshot, created_by)
           VALUES (?, ?, ?, ?)
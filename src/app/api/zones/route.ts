@@ -20,6 +20,16 @@ const UpdateZoneSchema = CreateZoneSchema.partial().extend({
   version: z.number(), // For optimistic concurrency
 });
 
+// Zone row with its JSON and aggregated columns still serialised
+type ZoneListRow = Record<string, unknown> & {
+  geometry: string;
+  centroid: string | null;
+  tags: string | null;
+  metadata: string | null;
+  town_codes: string | null;
+  poi_count: string | null;
+};
+
 // GET /api/zones - List zones with filtering
 export async function GET(request: NextRequest) {
   try {
@@ -60,7 +70,7 @@ export async function GET(request: NextRequest) {
     `;
     params.push(limit, offset);
 
-    const zones = await db.all(query, params);
+    const zones = await db.all<ZoneListRow>(query, params);
     
     // Parse JSON fields and transform data
     const processedZones = zones.map(zone => ({
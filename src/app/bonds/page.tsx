@@ -26,12 +26,16 @@ import { Button } from '@/components/ui/button';
 import { isFeatureEnabled } from '@/lib/featureFlags';
 import { useRouter } from 'next/navigation';
 
+import { BOND_FORFEIT_REASONS, BondRefundStatus, DriverBond } from '@/types/bond';
+
 interface Bond {
   id: string;
+  reference: string;
   driverId: string;
   driverName: string;
   bondAmount: number;
-  status: 'active' | 'released' | 'forfeited';
+  heldAmount: number;
+  status: 'collecting' | 'active' | 'released' | 'forfeited';
   depositDate: string;
   refundStatus: 'not_applicable' | 'pending' | 'processing' | 'completed' | 'rejected';
   releaseDate?: string;
@@ -39,82 +43,28 @@ interface Bond {
   notes?: string;
 }
 
-// Mock bonds data
-const MOCK_BONDS: Bond[] = [
-  {
-    id: 'BND-001',
-    driverId: 'D-0234',
-    driverName: 'Juan dela Cruz',
-    bondAmount: 5000,
-    status: 'active',
-    depositDate: '2026-01-15',
-    refundStatus: 'not_applicable',
-    notes: 'Initial deposit upon onboarding',
-  },
-  {
-    id: 'BND-002',
-    driverId: 'D-0445',
-    driverName: 'Maria Santos',
-    bondAmount: 5000,
-    status: 'released',
-    depositDate: '2025-12-10',
-    refundStatus: 'completed',
-    releaseDate: '2026-01-25',
-    notes: 'Driver resigned in good standing',
-  },
-  {
-    id: 'BND-003',
-    driverId: 'D-0789',
-    driverName: 'Pedro Reyes',
-    bondAmount: 5000,
-    status: 'active',
-    depositDate: '2026-01-20',
-    refundStatus: 'not_applicable',
-  },
-  {
-    id: 'BND-004',
-    driverId: 'D-1023',
-    driverName: 'Ana Garcia',
-    bondAmount: 5000,
-    status: 'forfeited',
-    depositDate: '2025-11-05',
-    refundStatus: 'rejected',
-    releaseDate: '2026-01-10',
-    forfeitReason: 'Vehicle damage exceeding insurance coverage',
-    notes: 'Incident ID: INC-2026-045',
-  },
-  {
-    id: 'BND-005',
-    driverId: 'D-1156',
-    driverName: 'Carlos Mendoza',
-    bondAmount: 5000,
-    status: 'released',
-    depositDate: '2025-10-15',
-    refundStatus: 'pending',
-    releaseDate: '2026-01-28',
-    notes: 'Processing refund via bank transfer',
-  },
-  {
-    id: 'BND-006',
-    driverId: 'D-1289',
-    driverName: 'Rosa Flores',
-    bondAmount: 5000,
-    status: 'active',
-    depositDate: '2026-02-01',
-    refundStatus: 'not_applicable',
-  },
-  {
-    id: 'BND-007',
-    driverId: 'D-1334',
-    driverName: 'Miguel Torres',
-    bondAmount: 5000,
-    status: 'released',
-    depositDate: '2025-09-20',
-    refundStatus: 'processing',
-    releaseDate: '2026-02-02',
-    notes: 'Refund initiated, awaiting bank confirmation',
-  },
-];
+// A cancelled request leaves nothing in flight, so it shows as no refund
+const REFUND_STATUS: Record<BondRefundStatus, Bond['refundStatus']> = {
+  pending_approval: 'pending',
+  released: 'completed',
+  rejected: 'rejected',
+  cancelled: 'not_applicable',
+};
+
+const toBond = (bond: DriverBond): Bond => ({
+  id: bond.id,
+  reference: bond.reference,
+  driverId: bond.driverId,
+  driverName: bond.driverName ?? bond.driverId,
+  bondAmount: bond.requiredAmount,
+  heldAmount: bond.heldAmount,
+  status: bond.status,
+  depositDate: bond.depositedAt ?? bond.createdAt,
+  refundStatus: bond.latestRefundStatus ? REFUND_STATUS[bond.latestRefundStatus] : 'not_applicable',
+  releaseDate: bond.releasedAt ?? undefined,
+  forfeitReason: bond.latestForfeitReason ? BOND_FORFEIT_REASONS[bond.latestForfeitReason].label : undefined,
+  notes: bond.notes ?? undefined,
+});
 
 const BondsManagementPage = () => {
   const router = useRouter();
@@ -134,7 +84,18 @@ const BondsManagementPage = () => {
 
   useEffect(() => {
     if (!isClient) return;
-    setBonds(MOCK_BONDS);
+
+    const controller = new AbortController();
+    fetch('/api/bonds?limit=100', { signal: controller.signal })
+      .then((response) => (response.ok ? response.json() : Promise.reject(response.statusText)))
+      .then((result: { data: DriverBond[] }) => setBonds(result.data.map(toBond)))
+      .catch((error) => {
+        if (error?.name !== 'AbortError') {
+          console.error('Failed to load bonds:', error);
+        }
+      });
+
+    return () => controller.abort();
   }, [isClient]);
 
   // Filter bonds
@@ -145,7 +106,7 @@ const BondsManagementPage = () => {
       const matchesSearch = searchTerm === '' ||
         bond.driverName.toLowerCase().includes(searchTerm.toLowerCase()) ||
         bond.driverId.toLowerCase().includes(searchTerm.toLowerCase()) ||
-        bond.id.toLowerCase().includes(searchTerm.toLowerCase());
+        bond.reference.toLowerCase().includes(searchTerm.toLowerCase());
 
       let matchesDateRange = true;
       if (dateRange.start) {
@@ -166,7 +127,7 @@ const BondsManagementPage = () => {
       active: bonds.filter(b => b.status === 'active').length,
       released: bonds.filter(b => b.status === 'released').length,
       forfeited: bonds.filter(b => b.status === 'forfeited').length,
-      totalAmount: bonds.filter(b => b.status === 'active').reduce((sum, b) => sum + b.bondAmount, 0),
+      totalAmount: bonds.reduce((sum, b) => sum + b.heldAmount, 0),
       pendingRefunds: bonds.filter(b => b.refundStatus === 'pending' || b.refundStatus === 'processing').length,
     };
   }, [bonds]);
@@ -180,6 +141,8 @@ const BondsManagementPage = () => {
 
   const getStatusBadge = (status: Bond['status']) => {
     switch (status) {
+      case 'collecting':
+        return <Badge className="bg-yellow-100 text-yellow-700 border-yellow-300">Collecting</Badge>;
       case 'active':
         return <Badge className="bg-green-100 text-green-700 border-green-300">Active</Badge>;
       case 'released':
@@ -305,7 +268,7 @@ const BondsManagementPage = () => {
           <CardContent className="pt-6">
             <div className="flex items-center justify-between">
               <div>
-                <p className="text-sm font-medium text-gray-600">Total Amount</p>
+                <p className="text-sm font-medium text-gray-600">Total Held</p>
                 <h3 className="text-xl font-bold text-gray-900 mt-2">{formatCurrency(stats.totalAmount)}</h3>
               </div>
               <div className="h-12 w-12 bg-purple-100 rounded-lg flex items-center justify-center">
@@ -355,6 +318,7 @@ const BondsManagementPage = () => {
                   className="px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
                 >
                   <option value="all">All Status</option>
+                  <option value="collecting">Collecting</option>
                   <option value="active">Active</option>
                   <option value="released">Released</option>
                   <option value="forfeited">Forfeited</option>
@@ -432,7 +396,7 @@ const BondsManagementPage = () => {
                   {filteredBonds.map((bond) => (
                     <tr key={bond.id} className="border-b border-gray-200 hover:bg-gray-50">
                       <td className="px-4 py-4">
-                        <span className="font-mono font-semibold text-gray-900">{bond.id}</span>
+                        <span className="font-mono font-semibold text-gray-900">{bond.reference}</span>
                       </td>
                       <td className="px-4 py-4">
                         <div className="flex items-center gap-2">
@@ -445,6 +409,9 @@ const BondsManagementPage = () => {
                       </td>
                       <td className="px-4 py-4 text-right">
                         <span className="font-semibold text-gray-900">{formatCurrency(bond.bondAmount)}</span>
+                        {bond.heldAmount !== bond.bondAmount && (
+                          <p className="text-xs text-gray-500">Held: {formatCurrency(bond.heldAmount)}</p>
+                        )}
                       </td>
                       <td className="px-4 py-4 text-center">
                         {getStatusBadge(bond.status)}
@@ -466,7 +433,7 @@ const BondsManagementPage = () => {
                             <Eye className="h-3 w-3" />
                             View
                           </Button>
-                          {bond.status === 'released' && bond.refundStatus === 'pending' && (
+                          {bond.refundStatus === 'pending' && (
                             <Button variant="default" size="sm" className="gap-2">
                               <RefreshCw className="h-3 w-3" />
                               Process
@@ -38,127 +38,16 @@ import {
   ResponsiveContainer,
 } from 'recharts';
 
-interface Promo {
-  id: string;
-  code: string;
-  name: string;
-  discountType: 'percentage' | 'fixed';
-  discountValue: number;
-  status: 'active' | 'scheduled' | 'expired';
-  validFrom: string;
-  validTo: string;
-  usageCount: number;
-  usageLimit?: number;
-  minOrderAmount?: number;
-  maxDiscount?: number;
-  description?: string;
-}
-
-// Mock promos data
-const MOCK_PROMOS: Promo[] = [
-  {
-    id: 'PROMO-001',
-    code: 'WELCOME20',
-    name: 'New User Welcome',
-    discountType: 'percentage',
-    discountValue: 20,
-    status: 'active',
-    validFrom: '2026-01-01',
-    validTo: '2026-12-31',
-    usageCount: 1245,
-    usageLimit: 5000,
-    minOrderAmount: 100,
-    maxDiscount: 100,
-    description: 'Welcome discount for new customers',
-  },
-  {
-    id: 'PROMO-002',
-    code: 'FEB2026',
-    name: 'February Special',
-    discountType: 'percentage',
-    discountValue: 15,
-    status: 'active',
-    validFrom: '2026-02-01',
-    validTo: '2026-02-28',
-    usageCount: 567,
-    usageLimit: 2000,
-    minOrderAmount: 150,
-    description: 'Monthly special promotion',
-  },
-  {
-    id: 'PROMO-003',
-    code: 'FLASH50',
-    name: 'Flash Sale',
-    discountType: 'fixed',
-    discountValue: 50,
-    status: 'active',
-    validFrom: '2026-02-03',
-    validTo: '2026-02-05',
-    usageCount: 89,
-    usageLimit: 500,
-    minOrderAmount: 200,
-    description: '3-day flash sale',
-  },
-  {
-    id: 'PROMO-004',
-    code: 'WEEKEND25',
-    name: 'Weekend Special',
-    discountType: 'percentage',
-    discountValue: 25,
-    status: 'scheduled',
-    validFrom: '2026-02-08',
-    validTo: '2026-02-09',
-    usageCount: 0,
-    usageLimit: 1000,
-    minOrderAmount: 100,
-    description: 'Weekend only discount',
-  },
-  {
-    id: 'PROMO-005',
-    code: 'JAN2026',
-    name: 'January Special',
-    discountType: 'percentage',
-    discountValue: 10,
-    status: 'expired',
-    validFrom: '2026-01-01',
-    validTo: '2026-01-31',
-    usageCount: 2134,
-    usageLimit: 3000,
-    minOrderAmount: 100,
-    description: 'January monthly promotion',
-  },
-  {
-    id: 'PROMO-006',
-    code: 'LOYALTY30',
-    name: 'Loyalty Reward',
-    discountType: 'percentage',
-    discountValue: 30,
-    status: 'active',
-    validFrom: '2026-01-15',
-    validTo: '2026-03-15',
-    usageCount: 345,
-    usageLimit: 1000,
-    minOrderAmount: 300,
-    maxDiscount: 200,
-    description: 'Reward for loyal customers',
-  },
-];
-
-// Mock usage stats for chart
-const USAGE_STATS = [
-  { date: '2026-01-28', WELCOME20: 45, FEB2026: 0, FLASH50: 0 },
-  { date: '2026-01-29', WELCOME20: 52, FEB2026: 0, FLASH50: 0 },
-  { date: '2026-01-30', WELCOME20: 48, FEB2026: 0, FLASH50: 0 },
-  { date: '2026-01-31', WELCOME20: 61, FEB2026: 0, FLASH50: 0 },
-  { date: '2026-02-01', WELCOME20: 43, FEB2026: 78, FLASH50: 0 },
-  { date: '2026-02-02', WELCOME20: 55, FEB2026: 89, FLASH50: 0 },
-  { date: '2026-02-03', WELCOME20: 47, FEB2026: 72, FLASH50: 89 },
-];
+import { Promo, PromoUsageDay } from '@/types/promo';
+
+// Colors for the most used codes in the usage chart
+const USAGE_COLORS = ['#6366f1', '#10b981', '#f59e0b', '#ef4444', '#06b6d4'];
 
 const CustomerPromosPage = () => {
   const router = useRouter();
   const [isClient, setIsClient] = useState(false);
   const [promos, setPromos] = useState<Promo[]>([]);
+  const [usage, setUsage] = useState<PromoUsageDay[]>([]);
   const [statusFilter, setStatusFilter] = useState<'all' | Promo['status']>('all');
   const [searchTerm, setSearchTerm] = useState('');
   const [showCreateModal, setShowCreateModal] = useState(false);
@@ -172,9 +61,35 @@ const CustomerPromosPage = () => {
 
   useEffect(() => {
     if (!isClient) return;
-    setPromos(MOCK_PROMOS);
+
+    const controller = new AbortController();
+    const load = (url: string) => fetch(url, { signal: controller.signal })
+      .then((response) => (response.ok ? response.json() : Promise.reject(response.statusText)));
+
+    Promise.all([load('/api/promos?limit=100'), load('/api/promos/usage?days=7')])
+      .then(([promoResult, usageResult]: [{ data: Promo[] }, { data: PromoUsageDay[] }]) => {
+        setPromos(promoResult.data);
+        setUsage(usageResult.data);
+      })
+      .catch((error) => {
+        if (error?.name !== 'AbortError') {
+          console.error('Failed to load promos:', error);
+        }
+      });
+
+    return () => controller.abort();
   }, [isClient]);
 
+  // One row per day with a count per code, as the bar chart expects
+  const usageChart = useMemo(() => {
+    const codes = Array.from(new Set(usage.flatMap(day => Object.keys(day.counts))));
+    const data = usage.map(day => ({
+      date: day.date,
+      ...Object.fromEntries(codes.map(code => [code, day.counts[code] ?? 0])),
+    }));
+    return { codes, data };
+  }, [usage]);
+
   // Filter promos
   const filteredPromos = useMemo(() => {
     return promos.filter(promo => {
@@ -212,6 +127,8 @@ const CustomerPromosPage = () => {
         return <Badge className="bg-blue-100 text-blue-700 border-blue-300">Scheduled</Badge>;
       case 'expired':
         return <Badge className="bg-gray-100 text-gray-700 border-gray-300">Expired</Badge>;
+      case 'paused':
+        return <Badge className="bg-yellow-100 text-yellow-700 border-yellow-300">Paused</Badge>;
       default:
         return <Badge variant="secondary">{status}</Badge>;
     }
@@ -225,9 +142,21 @@ const CustomerPromosPage = () => {
     });
   };
 
-  const togglePromoStatus = (promoId: string) => {
-    // In a real app, this would call an API
-    console.log('Toggle promo status:', promoId);
+  const togglePromoStatus = async (promo: Promo) => {
+    try {
+      const response = await fetch(`/api/promos/${promo.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ isActive: !promo.isActive }),
+      });
+      if (!response.ok) {
+        throw new Error(response.statusText);
+      }
+      const updated: Promo = await response.json();
+      setPromos(current => current.map(p => (p.id === updated.id ? updated : p)));
+    } catch (error) {
+      console.error('Failed to update promo status:', error);
+    }
   };
 
   if (!isClient) {
@@ -341,7 +270,7 @@ const CustomerPromosPage = () => {
         </CardHeader>
         <CardContent>
           <ResponsiveContainer width="100%" height={300}>
-            <BarChart data={USAGE_STATS}>
+            <BarChart data={usageChart.data}>
               <CartesianGrid strokeDasharray="3 3" stroke="#e5e5e5" />
               <XAxis dataKey="date" stroke="#666" fontSize={12} />
               <YAxis stroke="#666" fontSize={12} />
@@ -353,9 +282,9 @@ const CustomerPromosPage = () => {
                 }}
               />
               <Legend />
-              <Bar dataKey="WELCOME20" fill="#6366f1" name="WELCOME20" />
-              <Bar dataKey="FEB2026" fill="#10b981" name="FEB2026" />
-              <Bar dataKey="FLASH50" fill="#f59e0b" name="FLASH50" />
+              {usageChart.codes.map((code, index) => (
+                <Bar key={code} dataKey={code} fill={USAGE_COLORS[index % USAGE_COLORS.length]} name={code} />
+              ))}
             </BarChart>
           </ResponsiveContainer>
         </CardContent>
@@ -388,6 +317,7 @@ const CustomerPromosPage = () => {
                 <option value="active">Active</option>
                 <option value="scheduled">Scheduled</option>
                 <option value="expired">Expired</option>
+                <option value="paused">Paused</option>
               </select>
 
               {(statusFilter !== 'all' || searchTerm !== '') && (
@@ -484,9 +414,10 @@ const CustomerPromosPage = () => {
                           variant="outline"
                           size="sm"
                           className="flex-1"
-                          onClick={() => togglePromoStatus(promo.id)}
+                          disabled={promo.status === 'expired'}
+                          onClick={() => togglePromoStatus(promo)}
                         >
-                          {promo.status === 'active' ? (
+                          {promo.isActive ? (
                             <>
                               <ToggleRight className="h-4 w-4 mr-1" />
                               Disable
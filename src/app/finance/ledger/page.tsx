@@ -1,8 +1,6 @@
 'use client';
 
-import React, { useState } from 'react';
-import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
-import { Button } from '@/components/ui/button';
+import { format } from 'date-fns';
 import {
   Search,
   Filter,
@@ -14,7 +12,10 @@ import {
   Eye,
 } from 'lucide-react';
 import { useRouter } from 'next/navigation';
-import { format, subDays } from 'date-fns';
+import React, { useEffect, useState } from 'react';
+
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
 
 interface LedgerEntry {
   id: string;
@@ -36,68 +37,54 @@ export default function GeneralLedger() {
   const [currentPage, setCurrentPage] = useState(1);
   const itemsPerPage = 20;
 
-  // Mock ledger data
-  const ledgerEntries: LedgerEntry[] = Array.from({ length: 100 }, (_, i) => {
-    const accounts = [
-      { code: '1000', name: 'Cash and Cash Equivalents' },
-      { code: '1200', name: 'Accounts Receivable' },
-      { code: '2000', name: 'Accounts Payable' },
-      { code: '4000', name: 'Revenue' },
-      { code: '5000', name: 'Operating Expenses' },
-      { code: '6000', name: 'Driver Payouts' },
-    ];
-    const account = accounts[i % accounts.length];
-    const isDebit = i % 3 !== 0;
-    const amount = Math.floor(Math.random() * 100000) + 10000;
+  const [ledgerEntries, setLedgerEntries] = useState<LedgerEntry[]>([]);
+  const [totalEntries, setTotalEntries] = useState(0);
+  const [totals, setTotals] = useState({ debit: 0, credit: 0 });
 
-    return {
-      id: `LED-${String(i + 1).padStart(5, '0')}`,
-      date: subDays(new Date(), Math.floor(i / 5)).toISOString(),
-      accountCode: account.code,
-      accountName: account.name,
-      description: `Transaction ${i + 1} - ${account.name}`,
-      reference: `REF-2024-${String(i + 1).padStart(4, '0')}`,
-      debit: isDebit ? amount : 0,
-      credit: !isDebit ? amount : 0,
-      balance: 0, // Would be calculated based on previous entries
-    };
-  });
+  useEffect(() => {
+    const params = new URLSearchParams({ page: String(currentPage), limit: String(itemsPerPage) });
+    if (searchTerm) {
+      params.set('search', searchTerm);
+    }
+    if (selectedAccount !== 'all') {
+      params.set('accountCode', selectedAccount);
+    }
+    if (selectedType !== 'all') {
+      params.set('type', selectedType);
+    }
 
-  // Filter entries
-  const filteredEntries = ledgerEntries.filter((entry) => {
-    const matchesSearch =
-      entry.description.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      entry.reference.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      entry.accountName.toLowerCase().includes(searchTerm.toLowerCase());
+    const controller = new AbortController();
+    fetch(`/api/finance/ledger?${params}`, { signal: controller.signal })
+      .then((response) => (response.ok ? response.json() : Promise.reject(response.statusText)))
+      .then((result) => {
+        setLedgerEntries(result.data);
+        setTotalEntries(result.pagination.total);
+        setTotals(result.totals);
+      })
+      .catch((error) => {
+        if (error?.name !== 'AbortError') {
+          console.error('Failed to load ledger entries:', error);
+        }
+      });
 
-    const matchesAccount =
-      selectedAccount === 'all' || entry.accountCode === selectedAccount;
+    return () => controller.abort();
+  }, [currentPage, searchTerm, selectedAccount, selectedType]);
 
-    const matchesType =
-      selectedType === 'all' ||
-      (selectedType === 'debit' && entry.debit > 0) ||
-      (selectedType === 'credit' && entry.credit > 0);
-
-    return matchesSearch && matchesAccount && matchesType;
-  });
+  // Filters are applied server-side; reset to the first page whenever they change
+  useEffect(() => {
+    setCurrentPage(1);
+  }, [searchTerm, selectedAccount, selectedType]);
 
   // Pagination
-  const totalPages = Math.ceil(filteredEntries.length / itemsPerPage);
+  const totalPages = Math.max(1, Math.ceil(totalEntries / itemsPerPage));
   const startIndex = (currentPage - 1) * itemsPerPage;
-  const endIndex = startIndex + itemsPerPage;
-  const currentEntries = filteredEntries.slice(startIndex, endIndex);
-
-  // Calculate totals
-  const totals = filteredEntries.reduce(
-    (acc, entry) => ({
-      debit: acc.debit + entry.debit,
-      credit: acc.credit + entry.credit,
-    }),
-    { debit: 0, credit: 0 }
-  );
+  const endIndex = startIndex + ledgerEntries.length;
+  const currentEntries = ledgerEntries;
 
   const formatCurrency = (amount: number) => {
-    if (amount === 0) return '-';
+    if (amount === 0) {
+      return '-';
+    }
     return `₱${amount.toLocaleString('en-PH', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
   };
 
@@ -169,7 +156,10 @@ export default function GeneralLedger() {
               <option value="1000">1000 - Cash and Cash Equivalents</option>
               <option value="1200">1200 - Accounts Receivable</option>
               <option value="2000">2000 - Accounts Payable</option>
-              <option value="4000">4000 - Revenue</option>
+              <option value="2100">2100 - Driver Payables</option>
+              <option value="2200">2200 - Driver Bonds Held</option>
+              <option value="4000">4000 - Commission Revenue</option>
+              <option value="4100">4100 - Fee Revenue</option>
               <option value="5000">5000 - Operating Expenses</option>
               <option value="6000">6000 - Driver Payouts</option>
             </select>
@@ -248,7 +238,7 @@ export default function GeneralLedger() {
               <tfoot className="bg-neutral-50 border-t-2 border-neutral-300">
                 <tr>
                   <td colSpan={4} className="py-3 px-4 font-bold text-neutral-900">
-                    TOTALS ({filteredEntries.length} transactions)
+                    TOTALS ({totalEntries} transactions)
                   </td>
                   <td className="py-3 px-4 text-right font-bold text-red-600">
                     {formatCurrency(totals.debit)}
@@ -265,8 +255,8 @@ export default function GeneralLedger() {
           {/* Pagination */}
           <div className="flex items-center justify-between px-6 py-4 border-t border-neutral-200">
             <div className="text-sm text-neutral-600">
-              Showing {startIndex + 1} to {Math.min(endIndex, filteredEntries.length)} of{' '}
-              {filteredEntries.length} entries
+              Showing {totalEntries === 0 ? 0 : startIndex + 1} to {endIndex} of{' '}
+              {totalEntries} entries
             </div>
             <div className="flex items-center gap-2">
               <Button
@@ -1,6 +1,6 @@
 'use client';
 
-import React, { useState } from 'react';
+import React, { useCallback, useEffect, useState } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/xpress/card';
 import { Badge } from '@/components/xpress/badge';
 import { Button } from '@/components/xpress/button';
@@ -9,81 +9,54 @@ import { CheckCircle, Download, AlertTriangle } from 'lucide-react';
 import type { ReconciliationItem } from '@/types/payment';
 import { format } from 'date-fns';
 
-const mockSummary = {
+const emptySummary = {
   date: format(new Date(), 'MMMM dd, yyyy'),
-  totalTransactions: 1250,
-  reconciledCount: 1200,
-  pendingCount: 35,
-  discrepancyCount: 15,
-  expectedTotal: 52500000,
-  actualTotal: 52498500,
-  difference: -1500,
+  totalTransactions: 0,
+  reconciledCount: 0,
+  pendingCount: 0,
+  discrepancyCount: 0,
+  expectedTotal: 0,
+  actualTotal: 0,
+  difference: 0,
 };
 
-const mockReconciliationItems: ReconciliationItem[] = [
-  {
-    id: '1',
-    date: new Date().toISOString(),
-    transactionId: 'TXN-2024-001',
-    expectedAmount: 1500,
-    actualAmount: 1500,
-    difference: 0,
-    status: 'reconciled',
-    paymentMethod: 'gcash',
-    reconciledBy: 'admin123',
-    reconciledAt: new Date().toISOString(),
-  },
-  {
-    id: '2',
-    date: new Date().toISOString(),
-    transactionId: 'TXN-2024-002',
-    expectedAmount: 2300,
-    actualAmount: 2250,
-    difference: -50,
-    status: 'discrepancy',
-    paymentMethod: 'paymaya',
-    notes: 'Service fee discrepancy',
-  },
-  {
-    id: '3',
-    date: new Date().toISOString(),
-    transactionId: 'TXN-2024-003',
-    expectedAmount: 890,
-    actualAmount: 890,
-    difference: 0,
-    status: 'pending',
-    paymentMethod: 'card',
-  },
-  {
-    id: '4',
-    date: new Date().toISOString(),
-    transactionId: 'TXN-2024-004',
-    expectedAmount: 1200,
-    actualAmount: 1225,
-    difference: 25,
-    status: 'discrepancy',
-    paymentMethod: 'gcash',
-    notes: 'Overpayment detected',
-  },
-];
-
 const ReconciliationPage = () => {
-  const [items, setItems] = useState<ReconciliationItem[]>(mockReconciliationItems);
+  const [summary, setSummary] = useState(emptySummary);
+  const [items, setItems] = useState<ReconciliationItem[]>([]);
   const [selectedStatus, setSelectedStatus] = useState<'all' | 'pending' | 'discrepancy' | 'reconciled'>('all');
 
-  const handleReconcile = (id: string) => {
-    setItems((prev) =>
-      prev.map((item) =>
-        item.id === id
-          ? {
-              ...item,
-              status: 'reconciled' as const,
-              reconciledBy: 'admin123',
-              reconciledAt: new Date().toISOString(),
-            }
-          : item
-      )
-    );
+  const fetchReconciliation = useCallback(async () => {
+    try {
+      const response = await fetch('/api/payments/reconciliation?limit=200');
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+      const { data } = await response.json();
+      setSummary({ ...data.summary, date: format(new Date(data.summary.date), 'MMMM dd, yyyy') });
+      setItems(data.items);
+    } catch (error) {
+      console.error('Failed to fetch reconciliation data:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchReconciliation();
+  }, [fetchReconciliation]);
+
+  const handleReconcile = async (id: string) => {
+    try {
+      const response = await fetch(`/api/payments/reconciliation/${id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ type: 'reconcile', notes: 'Accepted from reconciliation review' }),
+      });
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+      await fetchReconciliation();
+    } catch (error) {
+      console.error('Failed to reconcile item:', error);
+    }
   };
 
   const handleExportReport = () => {
@@ -98,6 +71,8 @@ const ReconciliationPage = () => {
         return <Badge variant="warning">Pending</Badge>;
       case 'discrepancy':
         return <Badge variant="danger">Discrepancy</Badge>;
+      case 'disputed':
+        return <Badge variant="info">Disputed</Badge>;
       default:
         return <Badge variant="secondary">{status}</Badge>;
     }
@@ -133,7 +108,7 @@ const ReconciliationPage = () => {
         </Button>
       </div>
 
-      <ReconciliationSummaryCard summary={mockSummary} />
+      <ReconciliationSummaryCard summary={summary} />
 
       <Card variant="outlined">
         <CardHeader>
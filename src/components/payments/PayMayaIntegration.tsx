@@ -69,6 +69,7 @@ export const PayMayaIntegration: React.FC<PayMayaIntegrationProps> = ({
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
+          'Idempotency-Key': referenceNumber,
         },
         body: JSON.stringify(paymentRequest),
       });
@@ -77,7 +78,8 @@ export const PayMayaIntegration: React.FC<PayMayaIntegrationProps> = ({
         throw new Error('Failed to initiate PayMaya payment');
       }
 
-      const { redirectUrl } = await response.json();
+      const { data } = await response.json();
+      const redirectUrl = data.redirectUrl;
 
       window.open(redirectUrl, '_blank', 'width=600,height=800');
     } catch (err) {
@@ -8,7 +8,7 @@ export interface Booking {
   id: string;
   passengerId: string;
   driverId?: string;
-  serviceType: 'ride_4w' | 'ride_2w' | 'send_delivery' | 'eats_delivery' | 'mart_delivery';
+  serviceType: 'ride_4w' | 'ride_2w' | 'ride_pool' | 'send_delivery' | 'eats_delivery' | 'mart_delivery';
   status: 'requested' | 'searching' | 'assigned' | 'accepted' | 'en_route' | 'arrived' | 'in_progress' | 'completed' | 'cancelled';
   pickupLocation: {
     address: string;
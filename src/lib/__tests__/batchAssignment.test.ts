@@ -0,0 +1,56 @@
+import { greedyAssignment, planBatchAssignment } from '@/lib/matching/batchAssignment';
+import { solveAssignment } from '@/lib/matching/hungarian';
+
+const driver = (id: string, matchingScore: number, estimatedArrival: number) =>
+  ({ id, matchingScore, estimatedArrival });
+
+describe('solveAssignment', () => {
+  it('finds the minimum-cost assignment', () => {
+    expect(solveAssignment([
+      [4, 1, 3],
+      [2, 0, 5],
+      [3, 2, 2]
+    ])).toEqual([1, 0, 2]);
+  });
+
+  it('handles rectangular matrices and forbidden pairs', () => {
+    expect(solveAssignment([[5, 1, 9, 2]])).toEqual([1]);
+    expect(solveAssignment([[1], [2], [Infinity]])).toEqual([0, -1, -1]);
+    expect(solveAssignment([[Infinity, Infinity]])).toEqual([-1]);
+    expect(solveAssignment([])).toEqual([]);
+  });
+
+  it('prefers serving more rows over a cheaper partial assignment', () => {
+    expect(solveAssignment([
+      [0, 90],
+      [1, Infinity]
+    ])).toEqual([1, 0]);
+  });
+});
+
+describe('planBatchAssignment', () => {
+  // The first request can take either driver, the second can only reach d1
+  const rankings = [
+    [driver('d1', 90, 3), driver('d2', 85, 5)],
+    [driver('d1', 80, 4)]
+  ];
+
+  it('stops an early request from starving a later one', () => {
+    expect(greedyAssignment(rankings).map(candidate => candidate?.id ?? null)).toEqual(['d1', null]);
+
+    const plan = planBatchAssignment(rankings);
+    expect(plan.assignments.map(candidate => candidate?.id)).toEqual(['d2', 'd1']);
+    expect(plan.optimal).toEqual({ matched: 2, totalEtaMinutes: 9, totalScore: 165 });
+    expect(plan.greedy).toEqual({ matched: 1, totalEtaMinutes: 3, totalScore: 90 });
+  });
+
+  it('maximises the summed matching score when every request can be served', () => {
+    const plan = planBatchAssignment([
+      [driver('d1', 95, 2), driver('d2', 60, 8)],
+      [driver('d1', 90, 3), driver('d2', 30, 12)]
+    ]);
+    expect(plan.assignments.map(candidate => candidate?.id)).toEqual(['d2', 'd1']);
+    expect(plan.optimal.totalScore).toBe(150);
+    expect(plan.greedy.totalScore).toBe(125);
+  });
+});
@@ -0,0 +1,211 @@
+import {
+  amountInWords,
+  buildVatBreakdown,
+  prorateVatBreakdown,
+  renderInvoicePdf,
+  renderOfficialReceiptPdf
+} from '@/lib/documents/billingDocuments';
+import { PdfDocument, wrapText } from '@/lib/documents/pdfWriter';
+import { SellerProfile, formatTin } from '@/lib/documents/sellerProfile';
+import { renderReportCsv, sectionToTable } from '@/lib/reporting/reportExport';
+import type { GeneratedReport } from '@/lib/reporting/reportingEngine';
+import { Invoice, InvoiceLineItem } from '@/types/billing';
+
+const asText = (bytes: Uint8Array) => Array.from(bytes, byte => String.fromCharCode(byte)).join('');
+
+const seller: SellerProfile = {
+  registeredName: 'Xpress Mobility Inc.',
+  tin: '123456789000',
+  address: '30th Street, Bonifacio Global City, Taguig',
+  vatRegistered: true,
+  acknowledgmentCertificate: 'AC-123-2026',
+  specimen: false
+};
+
+const buyer = {
+  companyName: 'Acme Logistics Corp.',
+  taxId: '987654321',
+  accountNumber: 'CA-2026-000042',
+  billingAddress: {
+    street: '6750 Ayala Avenue',
+    city: 'Makati',
+    province: 'Metro Manila',
+    postalCode: '1226',
+    country: 'Philippines'
+  }
+};
+
+const line = (amount: number, overrides: Partial<InvoiceLineItem> = {}): InvoiceLineItem => ({
+  id: `line-${amount}`,
+  description: 'Ride XPR00001 - BGC, Taguig to Makati CBD',
+  quantity: 1,
+  unitPrice: amount,
+  amount,
+  taxRate: 0.12,
+  taxAmount: Math.round(amount * 12) / 100,
+  ...overrides
+});
+
+const invoice = (overrides: Partial<Invoice> = {}): Invoice => ({
+  id: 'inv-1',
+  invoiceNumber: 'INV-2026-000007',
+  corporateAccountId: 'acc-1',
+  issueDate: '2026-04-01',
+  dueDate: '2026-05-01',
+  billingPeriodStart: '2026-03-01',
+  billingPeriodEnd: '2026-03-31',
+  subtotal: 1200,
+  taxAmount: 120,
+  discountAmount: 100,
+  totalAmount: 1320,
+  amountPaid: 0,
+  amountDue: 1320,
+  lineItems: [line(1000), line(-100, { category: 'discount' }), line(200, { taxRate: 0, taxAmount: 0 })],
+  status: 'sent',
+  sentDate: '2026-04-01T02:00:00.000Z',
+  reminderCount: 0,
+  createdAt: new Date('2026-04-01T00:00:00Z'),
+  updatedAt: new Date('2026-04-01T00:00:00Z'),
+  ...overrides
+});
+
+describe('PdfDocument', () => {
+  it('writes a PDF whose cross-reference offsets point at each object', () => {
+    const doc = new PdfDocument({ title: 'Test', creationDate: new Date('2026-04-01T00:00:00Z') });
+    doc.text(40, 60, 'Señor (test) \\ ₱100');
+    doc.addPage();
+    doc.text(40, 60, 'Second page');
+    const text = asText(doc.toBytes());
+
+    expect(text.startsWith('%PDF-1.4')).toBe(true);
+    expect(text.trimEnd().endsWith('%%EOF')).toBe(true);
+    expect(text).toContain('/Count 2');
+    // WinAnsi escapes for ñ, literal-string escapes, and '?' for the unsupported peso sign
+    expect(text).toContain('(Se\\361or \\(test\\) \\\\ ?100) Tj');
+
+    const xrefAt = Number(/startxref\n(\d+)/.exec(text)![1]);
+    expect(text.slice(xrefAt, xrefAt + 4)).toBe('xref');
+    const offsets = text.slice(xrefAt).match(/^(\d{10}) 00000 n $/gm)!.map(entry => Number(entry.slice(0, 10)));
+    offsets.forEach((offset, i) => expect(text.slice(offset)).toMatch(new RegExp(`^${i + 1} 0 obj`)));
+  });
+
+  it('wraps text to the available width', () => {
+    const lines = wrapText('Ride XPR00001 from Bonifacio Global City to Makati Central Business District', 150, 9);
+    expect(lines.length).toBeGreaterThan(1);
+    expect(lines.join(' ')).toBe('Ride XPR00001 from Bonifacio Global City to Makati Central Business District');
+  });
+});
+
+describe('BIR document fields', () => {
+  it('formats TINs with a five-digit branch code', () => {
+    expect(formatTin('123456789000')).toBe('123-456-789-00000');
+    expect(formatTin('12345678900001')).toBe('123-456-789-00001');
+    expect(formatTin('987654321')).toBe('987-654-321-00000');
+  });
+
+  it('writes amounts in words the way receipts print them', () => {
+    expect(amountInWords(1320)).toBe('One Thousand Three Hundred Twenty Pesos and 00/100');
+    expect(amountInWords(2015042.5)).toBe('Two Million Fifteen Thousand Forty-Two Pesos and 50/100');
+    expect(amountInWords(1.05)).toBe('One Peso and 05/100');
+  });
+
+  it('splits sales into VATable, exempt and zero-rated buckets net of discounts', () => {
+    expect(buildVatBreakdown(invoice())).toEqual({
+      vatableSales: 900,
+      vatExemptSales: 200,
+      zeroRatedSales: 0,
+      vatAmount: 120,
+      totalAmount: 1320
+    });
+  });
+
+  it('prorates a partial payment so the buckets add up to the amount received', () => {
+    const share = prorateVatBreakdown(buildVatBreakdown(invoice()), 500);
+    expect(share.vatAmount).toBe(45.45);
+    expect(share.vatableSales + share.vatExemptSales + share.zeroRatedSales + share.vatAmount).toBeCloseTo(500, 2);
+  });
+});
+
+describe('invoice and receipt layouts', () => {
+  it('prints seller and buyer TINs, the serial number and the VAT breakdown on the invoice', () => {
+    const text = asText(renderInvoicePdf({ invoice: invoice(), buyer, seller }));
+
+    expect(text).toContain('(SERVICE INVOICE)');
+    expect(text).toContain('(No. INV-2026-000007)');
+    expect(text).toContain('(VAT REG TIN: 123-456-789-00000)');
+    expect(text).toContain('(TIN: 987-654-321-00000)');
+    for (const label of ['VATable Sales', 'VAT-Exempt Sales', 'Zero-Rated Sales', 'VAT Amount \\(12%\\)']) {
+      expect(text).toContain(`(${label})`);
+    }
+    expect(text).toContain('(1,320.00)');
+    expect(text).toContain('Acknowledgment Certificate No.: AC-123-2026');
+    expect(text).not.toContain('(DRAFT)');
+  });
+
+  it('watermarks drafts and specimen profiles, and paginates long invoices', () => {
+    const lineItems = Array.from({ length: 120 }, (_, i) => line(180, { id: `line-${i}` }));
+    const text = asText(renderInvoicePdf({
+      invoice: invoice({ status: 'draft', lineItems }),
+      buyer,
+      seller: { ...seller, specimen: true }
+    }));
+
+    expect(text).toContain('(DRAFT)');
+    expect(text).toContain('(SPECIMEN - NOT VALID FOR TAX PURPOSES)');
+    expect(text).toMatch(/\/Count [2-9]/);
+    expect(text).toContain('Page 1 of');
+  });
+
+  it('issues the official receipt against the invoice with the input-tax disclaimer', () => {
+    const text = asText(renderOfficialReceiptPdf({
+      receiptNumber: 'OR-2026-000003',
+      payment: {
+        id: 'pay-1',
+        invoiceId: 'inv-1',
+        amount: 1320,
+        paymentDate: '2026-04-20',
+        paymentMethod: 'bank_transfer',
+        referenceNumber: 'BDO-88231',
+        recordedBy: 'ops-1',
+        receiptNumber: 'OR-2026-000003'
+      },
+      invoice: invoice(),
+      buyer,
+      seller
+    }));
+
+    expect(text).toContain('(OFFICIAL RECEIPT)');
+    expect(text).toContain('(No. OR-2026-000003)');
+    expect(text).toContain('(One Thousand Three Hundred Twenty Pesos and 00/100)');
+    expect(text).toContain('Service Invoice No. INV-2026-000007');
+    expect(text).toContain('(THIS DOCUMENT IS NOT VALID FOR CLAIM OF INPUT TAX.)');
+  });
+});
+
+describe('report export', () => {
+  const report: GeneratedReport = {
+    id: 'report-1',
+    templateId: 'fraud_summary',
+    title: 'Fraud Summary',
+    generatedAt: Date.parse('2026-04-01T00:00:00Z'),
+    parameters: {},
+    data: [
+      { id: 's1', title: 'Overview', type: 'summary', content: { detected: 12, prevented: 10 } },
+      { id: 's2', title: 'Regions', type: 'table', content: [{ region: 'Manila, NCR', count: 7 }, { region: 'Cebu' }] }
+    ],
+    metadata: { recordCount: 2, executionTime: 5, dataFreshness: 0, version: '1.0' }
+  };
+
+  it('flattens every section shape into a table', () => {
+    expect(sectionToTable(report.data[0])).toEqual({
+      title: 'Overview',
+      columns: ['Metric', 'Value'],
+      rows: [['detected', 12], ['prevented', 10]]
+    });
+    expect(sectionToTable(report.data[1]).rows).toEqual([['Manila, NCR', 7], ['Cebu', '']]);
+  });
+
+  it('quotes CSV fields that need it', () => {
+    expect(renderReportCsv(report).split('\r\n')).toContain('"Manila, NCR",7');
+  });
+});
@@ -0,0 +1,164 @@
+import { findIncident, getBond, getBondByDeduction, getPendingBondRefund, updateBond } from '@/lib/repos/bondsRepo';
+import { postJournal } from '@/lib/repos/ledgerRepo';
+import { closeRecurringDeduction } from '@/lib/repos/settlementsRepo';
+import {
+  applyBondInstallment,
+  assertRefundApprovalSatisfied,
+  collectionPatch,
+  createBond,
+  forfeitBond,
+  outstandingAmount
+} from '@/lib/services/bondService';
+import { DriverBond } from '@/types/bond';
+
+jest.mock('@/lib/db', () => ({
+  query: jest.fn(),
+  transaction: jest.fn((fn: (q: jest.Mock) => unknown) => fn(jest.fn()))
+}));
+jest.mock('@/lib/repos/bondsRepo');
+jest.mock('@/lib/repos/ledgerRepo');
+jest.mock('@/lib/repos/settlementsRepo');
+jest.mock('@/lib/repos/approvalRequestsRepo');
+
+const bond: DriverBond = {
+  id: 'bond-1',
+  reference: 'BND-20261001-ABC123',
+  driverId: 'driver-1',
+  status: 'active',
+  collectionMethod: 'installments',
+  requiredAmount: 5000,
+  collectedAmount: 5000,
+  forfeitedAmount: 0,
+  refundedAmount: 0,
+  heldAmount: 5000,
+  installmentAmount: 500,
+  recurringDeductionId: 'ded-1',
+  depositedAt: '2026-10-05T00:00:00Z',
+  createdBy: 'ops-1',
+  createdAt: '2026-10-01T00:00:00Z',
+  updatedAt: '2026-10-05T00:00:00Z'
+};
+
+const approval = (overrides: Record<string, unknown> = {}) => ({
+  request_id: 'req_1',
+  workflow_id: 16,
+  requester_id: 'ops-1',
+  status: 'approved' as const,
+  requested_action: JSON.stringify({ bond_id: 'bond-1', amount: 5000 }),
+  requested_at: '2026-10-10T01:00:00Z',
+  completed_at: '2026-10-10T02:00:00Z',
+  action: 'approve_bond_refund',
+  required_approvers: 1,
+  approver_ids: ['manager-a'],
+  ...overrides
+});
+
+const refund = { bondId: 'bond-1', amount: 5000, requestedBy: 'ops-1' };
+const now = new Date('2026-10-10T02:30:00Z');
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  (getBond as jest.Mock).mockResolvedValue(bond);
+  (getPendingBondRefund as jest.Mock).mockResolvedValue(null);
+  (postJournal as jest.Mock).mockResolvedValue('journal-1');
+});
+
+describe('assertRefundApprovalSatisfied', () => {
+  it('accepts an approval for the same bond and amount', () => {
+    expect(() => assertRefundApprovalSatisfied(refund, approval(), now)).not.toThrow();
+  });
+
+  it('rejects approvals for a different amount', () => {
+    const changed = approval({ requested_action: JSON.stringify({ bond_id: 'bond-1', amount: 4000 }) });
+    expect(() => assertRefundApprovalSatisfied(refund, changed, now)).toThrow('approval_refund_mismatch');
+  });
+
+  it('does not let the requester approve their own refund', () => {
+    const selfApproved = approval({ approver_ids: ['ops-1'] });
+    expect(() => assertRefundApprovalSatisfied(refund, selfApproved, now)).toThrow('approval_insufficient_approvers');
+  });
+
+  it('rejects approvals for another workflow', () => {
+    expect(() => assertRefundApprovalSatisfied(refund, approval({ action: 'approve_payout_batch' }), now))
+      .toThrow('approval_required');
+  });
+});
+
+describe('collectionPatch', () => {
+  const collecting = { ...bond, status: 'collecting' as const, collectedAmount: 4500, depositedAt: null };
+
+  it('activates the bond once the full amount is collected', () => {
+    expect(collectionPatch(collecting, 500, now)).toEqual({
+      collectedAmount: 5000,
+      status: 'active',
+      depositedAt: now.toISOString()
+    });
+  });
+
+  it('only adds to the collected amount while short', () => {
+    expect(collectionPatch(collecting, 200, now)).toEqual({
+      collectedAmount: 4700,
+      status: undefined,
+      depositedAt: undefined
+    });
+    expect(outstandingAmount({ requiredAmount: 5000, collectedAmount: 4700 })).toBe(300);
+  });
+});
+
+describe('createBond', () => {
+  it('requires an installment amount when collecting by installments', async () => {
+    await expect(createBond({ driverId: 'driver-1', requiredAmount: 5000, collectionMethod: 'installments' }, 'ops-1'))
+      .rejects.toThrow('invalid_bond_request');
+  });
+});
+
+describe('forfeitBond', () => {
+  it('requires an incident for incident-driven reasons', async () => {
+    await expect(forfeitBond('bond-1', { amount: 1000, reasonCode: 'vehicle_damage', note: 'Bumper' }, 'ops-1'))
+      .rejects.toThrow('incident_required');
+  });
+
+  it('rejects incidents involving another driver', async () => {
+    (findIncident as jest.Mock).mockResolvedValue({ id: 'inc-1', incident_code: 'INC-1', driver_id: 'driver-2' });
+    await expect(forfeitBond('bond-1', {
+      amount: 1000, reasonCode: 'vehicle_damage', incidentId: 'INC-1', note: 'Bumper'
+    }, 'ops-1')).rejects.toThrow('incident_driver_mismatch');
+    expect(postJournal).not.toHaveBeenCalled();
+  });
+
+  it('cannot take more than the bond holds', async () => {
+    await expect(forfeitBond('bond-1', { amount: 6000, reasonCode: 'other', note: 'x' }, 'ops-1'))
+      .rejects.toThrow('amount_exceeds_held');
+  });
+
+  it('moves the forfeited amount from bonds held to fee revenue', async () => {
+    (findIncident as jest.Mock).mockResolvedValue({ id: 'inc-1', incident_code: 'INC-1', driver_id: 'driver-1' });
+    await forfeitBond('bond-1', {
+      amount: 1500, reasonCode: 'vehicle_damage', incidentId: 'INC-1', note: 'Bumper'
+    }, 'ops-1');
+
+    const journal = (postJournal as jest.Mock).mock.calls[0][0];
+    expect(journal.sourceType).toBe('bond_forfeiture');
+    expect(journal.lines).toEqual([
+      { accountCode: '2200', driverId: 'driver-1', debit: 1500, credit: 0 },
+      { accountCode: '4100', driverId: 'driver-1', debit: 0, credit: 1500 }
+    ]);
+    expect(updateBond).toHaveBeenCalledWith('bond-1', { forfeitedAmount: 1500, status: undefined }, expect.anything());
+    expect(closeRecurringDeduction).not.toHaveBeenCalled();
+  });
+
+  it('closes the bond and stops collection when nothing is left', async () => {
+    await forfeitBond('bond-1', { amount: 5000, reasonCode: 'unpaid_obligations', note: 'Unpaid rental' }, 'ops-1');
+
+    expect(updateBond).toHaveBeenCalledWith('bond-1', { forfeitedAmount: 5000, status: 'forfeited' }, expect.anything());
+    expect(closeRecurringDeduction).toHaveBeenCalledWith('ded-1', expect.anything());
+  });
+});
+
+describe('applyBondInstallment', () => {
+  it('ignores bond deductions that are not tied to a bond account', async () => {
+    (getBondByDeduction as jest.Mock).mockResolvedValue(null);
+    await applyBondInstallment('legacy-ded', 500, 'settlement-1', jest.fn());
+    expect(updateBond).not.toHaveBeenCalled();
+  });
+});
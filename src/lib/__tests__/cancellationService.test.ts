@@ -0,0 +1,344 @@
+import {
+  claimChargeForPosting,
+  claimChargeForWaiver,
+  findApplicablePolicy,
+  getCharge,
+  insertCharge,
+  updateCharge
+} from '@/lib/repos/cancellationsRepo';
+import { assertBalanced, postJournal } from '@/lib/repos/ledgerRepo';
+import { getBookingPayment } from '@/lib/repos/paymentsRepo';
+import {
+  assessCancellation,
+  buildCancellationJournalLines,
+  buildWaiverJournalLines,
+  CancelledBooking,
+  postCancellationCharge,
+  recordCancellation,
+  waiveCancellationCharge
+} from '@/lib/services/cancellationService';
+import { capturePayment, refundPayment } from '@/lib/services/paymentService';
+import { CancellationCharge, CancellationContext, CancellationPolicy } from '@/types/cancellation';
+import { LEDGER_ACCOUNTS } from '@/types/settlement';
+
+jest.mock('@/lib/db', () => ({
+  query: jest.fn(),
+  transaction: jest.fn((fn: (q: jest.Mock) => unknown) => fn(jest.fn()))
+}));
+jest.mock('@/lib/repos/cancellationsRepo');
+jest.mock('@/lib/repos/paymentsRepo');
+jest.mock('@/lib/repos/ledgerRepo', () => ({
+  ...jest.requireActual('@/lib/repos/ledgerRepo'),
+  postJournal: jest.fn()
+}));
+jest.mock('@/lib/services/paymentService', () => ({
+  capturePayment: jest.fn(),
+  refundPayment: jest.fn()
+}));
+
+const policy: CancellationPolicy = {
+  id: 'policy-ncr',
+  name: 'NCR rides',
+  regionId: 'region-ncr',
+  serviceType: 'ride_4w',
+  riderGraceSeconds: 120,
+  driverLateGraceMinutes: 5,
+  noShowWaitMinutes: 5,
+  noShowFee: 50,
+  noShowDriverCompensation: 40,
+  feeRules: [
+    { cancelledBy: 'rider', fromStatus: 'en_route', fee: 50, driverCompensation: 40 },
+    { cancelledBy: 'driver', fromStatus: 'en_route', fee: 30, driverCompensation: 0 }
+  ],
+  isActive: true,
+  createdBy: 'ops-1',
+  createdAt: '2026-10-01T00:00:00Z',
+  updatedAt: '2026-10-01T00:00:00Z'
+};
+
+const now = new Date('2026-10-18T08:10:00Z');
+
+const context = (overrides: Partial<CancellationContext> = {}): CancellationContext => ({
+  cancelledBy: 'rider',
+  fromStatus: 'en_route',
+  noShow: false,
+  assignedAt: '2026-10-18T08:00:00Z',
+  acceptedAt: '2026-10-18T08:01:00Z',
+  arrivedAt: null,
+  estimatedPickupTime: '2026-10-18T08:12:00Z',
+  now,
+  ...overrides
+});
+
+const charge = (overrides: Partial<CancellationCharge> = {}): CancellationCharge => ({
+  id: 'charge-1',
+  chargeReference: 'CXL-20261018-ABC123',
+  bookingId: 'booking-1',
+  policyId: 'policy-ncr',
+  regionId: 'region-ncr',
+  customerId: 'cust-1',
+  driverId: 'driver-1',
+  cancelledBy: 'rider',
+  fromStatus: 'en_route',
+  outcome: 'fee',
+  riderFee: 50,
+  driverCompensation: 40,
+  driverPenalty: 0,
+  status: 'pending',
+  cancelledAt: '2026-10-18T08:10:00Z',
+  createdAt: '2026-10-18T08:10:00Z',
+  updatedAt: '2026-10-18T08:10:00Z',
+  ...overrides
+});
+
+describe('assessCancellation', () => {
+  it('charges a rider who cancels after the grace window, with a share for the driver', () => {
+    expect(assessCancellation(policy, context())).toMatchObject({
+      outcome: 'fee', riderFee: 50, driverCompensation: 40, graceEndsAt: '2026-10-18T08:03:00.000Z'
+    });
+  });
+
+  it('lets riders cancel free within the grace window or when the driver is late', () => {
+    expect(assessCancellation(policy, context({ acceptedAt: '2026-10-18T08:09:00Z' })).outcome).toBe('grace');
+    expect(assessCancellation(policy, context({ estimatedPickupTime: '2026-10-18T08:04:00Z' })).outcome)
+      .toBe('driver_late');
+  });
+
+  it('takes a penalty from drivers who cancel and never charges operators', () => {
+    expect(assessCancellation(policy, context({ cancelledBy: 'driver' }))).toMatchObject({
+      outcome: 'driver_penalty', riderFee: 0, driverPenalty: 30
+    });
+    expect(assessCancellation(policy, context({ cancelledBy: 'operator' })).outcome).toBe('free');
+  });
+
+  it('waives every fee for safety reasons', () => {
+    expect(assessCancellation(policy, context({ reason: 'unsafe_driving' }))).toMatchObject({
+      outcome: 'waived', riderFee: 0, driverCompensation: 0
+    });
+    expect(assessCancellation(policy, context({ cancelledBy: 'driver', reason: 'unsafe_passenger' })))
+      .toMatchObject({ outcome: 'waived', driverPenalty: 0 });
+  });
+
+  it('only accepts a no-show from a driver who waited out the timer at the pickup', () => {
+    const noShow = context({ cancelledBy: 'driver', noShow: true, fromStatus: 'arrived' });
+
+    expect(() => assessCancellation(policy, { ...noShow, arrivedAt: '2026-10-18T08:07:00Z' }))
+      .toThrow('no_show_wait_not_elapsed: 120s left to wait');
+    expect(() => assessCancellation(policy, { ...noShow, fromStatus: 'en_route' })).toThrow('no_show_not_arrived');
+    expect(() => assessCancellation(policy, { ...noShow, cancelledBy: 'rider', arrivedAt: '2026-10-18T08:00:00Z' }))
+      .toThrow('no_show_not_allowed');
+    expect(assessCancellation(policy, { ...noShow, arrivedAt: '2026-10-18T08:05:00Z' })).toMatchObject({
+      outcome: 'no_show', riderFee: 50, driverCompensation: 40, noShowAvailableAt: '2026-10-18T08:10:00.000Z'
+    });
+  });
+});
+
+describe('cancellation journals', () => {
+  it('credits the driver share to payables and keeps the rest as fee revenue', () => {
+    const lines = buildCancellationJournalLines(charge(), 'receivable');
+
+    expect(() => assertBalanced(lines)).not.toThrow();
+    expect(lines).toEqual([
+      expect.objectContaining({ accountCode: LEDGER_ACCOUNTS.ACCOUNTS_RECEIVABLE, debit: 50 }),
+      expect.objectContaining({ accountCode: LEDGER_ACCOUNTS.DRIVER_PAYABLES, driverId: 'driver-1', credit: 40 }),
+      expect.objectContaining({ accountCode: LEDGER_ACCOUNTS.FEE_REVENUE, credit: 10 })
+    ]);
+  });
+
+  it('leaves the driver their compensation when the rider fee is waived', () => {
+    const lines = buildWaiverJournalLines(charge(), 'prepaid');
+
+    expect(() => assertBalanced(lines)).not.toThrow();
+    expect(lines).toEqual([
+      expect.objectContaining({ accountCode: LEDGER_ACCOUNTS.CASH, credit: 50 }),
+      expect.objectContaining({ accountCode: LEDGER_ACCOUNTS.FEE_REVENUE, debit: 10 }),
+      expect.objectContaining({ accountCode: LEDGER_ACCOUNTS.OPERATING_EXPENSES, debit: 40 })
+    ]);
+    expect(lines.some(line => line.accountCode === LEDGER_ACCOUNTS.DRIVER_PAYABLES)).toBe(false);
+  });
+});
+
+describe('recordCancellation', () => {
+  const booking = (overrides: Partial<CancelledBooking> = {}): CancelledBooking => ({
+    id: 'booking-1',
+    region_id: 'region-ncr',
+    service_type: 'ride_4w',
+    customer_id: 'cust-1',
+    driver_id: 'driver-1',
+    status: 'en_route',
+    assigned_at: '2026-10-18T08:00:00Z',
+    accepted_at: '2026-10-18T08:01:00Z',
+    arrived_at: null,
+    actual_pickup_time: null,
+    estimated_pickup_time: '2026-10-18T08:12:00Z',
+    ...overrides
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (findApplicablePolicy as jest.Mock).mockResolvedValue(policy);
+    (insertCharge as jest.Mock).mockImplementation(async (row: { reference: string }) => ({
+      ...row, id: row.reference
+    }));
+  });
+
+  it('prices a second cancellation of a restarted booking as a new charge', async () => {
+    const q = jest.fn();
+    await recordCancellation(q, booking(), { cancelledBy: 'rider', noShow: false }, now);
+    const restarted = booking({ status: 'searching', driver_id: null, assigned_at: null, accepted_at: null });
+    await recordCancellation(q, restarted, {
+      cancelledBy: 'rider', noShow: false, reason: 'changed_plans'
+    }, new Date('2026-10-18T08:30:00Z'));
+
+    const [[first], [second]] = (insertCharge as jest.Mock).mock.calls;
+    expect(first).toMatchObject({ bookingId: 'booking-1', fromStatus: 'en_route', outcome: 'fee', riderFee: 50 });
+    expect(second).toMatchObject({
+      bookingId: 'booking-1', fromStatus: 'searching', outcome: 'free', riderFee: 0, reason: 'changed_plans'
+    });
+    expect(second.reference).not.toBe(first.reference);
+  });
+
+  it('inserts each charge rather than returning the booking\'s earlier one', async () => {
+    const repo = jest.requireActual('@/lib/repos/cancellationsRepo');
+    const q = jest.fn().mockResolvedValue({ rows: [{ id: 'charge-2', rider_fee: '0.00' }] });
+    await repo.insertCharge({
+      reference: 'CXL-20261018-DEF456', bookingId: 'booking-1', policyId: 'policy-ncr', regionId: 'region-ncr',
+      customerId: 'cust-1', driverId: null, cancelledBy: 'rider', fromStatus: 'searching', reason: null,
+      outcome: 'free', riderFee: 0, driverCompensation: 0, driverPenalty: 0
+    }, q);
+
+    expect(q.mock.calls[0][0]).not.toMatch(/ON CONFLICT/);
+  });
+});
+
+describe('postCancellationCharge', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (postJournal as jest.Mock).mockResolvedValue('journal-1');
+    (refundPayment as jest.Mock).mockResolvedValue({ id: 'refund-1' });
+    (claimChargeForPosting as jest.Mock).mockImplementation(async () => charge({ status: 'posting' }));
+  });
+
+  it('keeps the fee out of a prepaid payment and refunds the rest', async () => {
+    (getCharge as jest.Mock).mockResolvedValueOnce(charge()).mockResolvedValue(charge({ status: 'posting' }));
+    (getBookingPayment as jest.Mock).mockResolvedValue({
+      id: 'txn-1', status: 'processing', amount: 250, refundedAmount: 0
+    });
+    (capturePayment as jest.Mock).mockResolvedValue({
+      id: 'txn-1', status: 'completed', amount: 250, refundedAmount: 0
+    });
+
+    await postCancellationCharge('charge-1', 'driver-1');
+
+    expect(capturePayment).toHaveBeenCalledWith('txn-1');
+    expect(refundPayment).toHaveBeenCalledWith('txn-1', 200, 'Cancellation CXL-20261018-ABC123', 'driver-1');
+    expect(postJournal).toHaveBeenCalledWith(expect.objectContaining({
+      sourceType: 'cancellation_fee',
+      lines: expect.arrayContaining([expect.objectContaining({ accountCode: LEDGER_ACCOUNTS.CASH, debit: 50 })])
+    }), expect.any(Function));
+    expect(updateCharge).toHaveBeenCalledWith('charge-1', expect.objectContaining({
+      status: 'posted', collectionMethod: 'prepaid', paymentTransactionId: 'txn-1', journalId: 'journal-1'
+    }), expect.any(Function));
+  });
+
+  it('bills a cash rider and refunds nothing', async () => {
+    (getCharge as jest.Mock).mockResolvedValueOnce(charge()).mockResolvedValue(charge({ status: 'posting' }));
+    (getBookingPayment as jest.Mock).mockResolvedValue(null);
+
+    await postCancellationCharge('charge-1', 'driver-1');
+
+    expect(refundPayment).not.toHaveBeenCalled();
+    expect(updateCharge).toHaveBeenCalledWith('charge-1', expect.objectContaining({
+      status: 'posted', collectionMethod: 'receivable'
+    }), expect.any(Function));
+  });
+
+  it('marks the charge failed when the refund cannot be made', async () => {
+    (getCharge as jest.Mock).mockResolvedValue(charge({ riderFee: 0, driverCompensation: 0, outcome: 'grace' }));
+    (getBookingPayment as jest.Mock).mockResolvedValue({
+      id: 'txn-1', status: 'completed', amount: 250, refundedAmount: 0
+    });
+    (refundPayment as jest.Mock).mockRejectedValue(new Error('provider_error: timeout'));
+
+    await expect(postCancellationCharge('charge-1', 'ops-1')).rejects.toThrow('provider_error');
+    expect(updateCharge).toHaveBeenCalledWith('charge-1', {
+      status: 'failed', failureReason: 'provider_error: timeout'
+    }, expect.any(Function));
+    expect(postJournal).not.toHaveBeenCalled();
+  });
+
+  it('leaves a charge another post has claimed alone', async () => {
+    (getCharge as jest.Mock).mockResolvedValueOnce(charge()).mockResolvedValue(charge({ status: 'posting' }));
+    (claimChargeForPosting as jest.Mock).mockResolvedValue(null);
+
+    const result = await postCancellationCharge('charge-1', 'ops-1');
+
+    expect(result.status).toBe('posting');
+    expect(getBookingPayment).not.toHaveBeenCalled();
+    expect(refundPayment).not.toHaveBeenCalled();
+    expect(updateCharge).not.toHaveBeenCalled();
+  });
+});
+
+describe('waiveCancellationCharge', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (postJournal as jest.Mock).mockResolvedValue('journal-2');
+    (refundPayment as jest.Mock).mockResolvedValue({ id: 'refund-2' });
+  });
+
+  it('refunds the prepaid rider before reversing a posted fee', async () => {
+    const posted = charge({ status: 'posted', collectionMethod: 'prepaid', paymentTransactionId: 'txn-1' });
+    (claimChargeForWaiver as jest.Mock).mockResolvedValue({ ...posted, status: 'waiving' });
+    (getCharge as jest.Mock)
+      .mockResolvedValueOnce(posted)
+      .mockResolvedValueOnce({ ...posted, status: 'waiving' })
+      .mockResolvedValueOnce({ ...posted, status: 'waived' });
+
+    const result = await waiveCancellationCharge('charge-1', 'safety_concern', 'ops-1');
+
+    expect(result.status).toBe('waived');
+    expect(refundPayment).toHaveBeenCalledWith('txn-1', 50, 'Waived cancellation CXL-20261018-ABC123', 'ops-1');
+    expect(updateCharge).toHaveBeenCalledWith('charge-1', { waiverRefundId: 'refund-2' }, expect.any(Function));
+    expect(postJournal).toHaveBeenCalledWith(expect.objectContaining({ sourceType: 'cancellation_waiver' }),
+      expect.any(Function));
+    expect((refundPayment as jest.Mock).mock.invocationCallOrder[0])
+      .toBeLessThan((postJournal as jest.Mock).mock.invocationCallOrder[0]);
+  });
+
+  it('leaves the charge posted when the refund fails, so a retry can waive it', async () => {
+    const posted = charge({ status: 'posted', collectionMethod: 'prepaid', paymentTransactionId: 'txn-1' });
+    (claimChargeForWaiver as jest.Mock).mockResolvedValue({ ...posted, status: 'waiving' });
+    (getCharge as jest.Mock).mockResolvedValue(posted);
+    (refundPayment as jest.Mock).mockRejectedValue(new Error('provider_error: timeout'));
+
+    await expect(waiveCancellationCharge('charge-1', 'safety_concern', 'ops-1')).rejects.toThrow('provider_error');
+    expect(postJournal).not.toHaveBeenCalled();
+    expect(updateCharge).toHaveBeenCalledWith('charge-1', {
+      status: 'posted', failureReason: 'provider_error: timeout'
+    }, expect.any(Function));
+  });
+
+  it('finishes a waiver whose refund went out without refunding again', async () => {
+    const posted = charge({
+      status: 'posted', collectionMethod: 'prepaid', paymentTransactionId: 'txn-1', waiverRefundId: 'refund-2'
+    });
+    (claimChargeForWaiver as jest.Mock).mockResolvedValue({ ...posted, status: 'waiving' });
+    (getCharge as jest.Mock)
+      .mockResolvedValueOnce(posted)
+      .mockResolvedValueOnce({ ...posted, status: 'waiving' })
+      .mockResolvedValueOnce({ ...posted, status: 'waived' });
+
+    await waiveCancellationCharge('charge-1', 'safety_concern', 'ops-1');
+
+    expect(refundPayment).not.toHaveBeenCalled();
+    expect(postJournal).toHaveBeenCalledWith(expect.objectContaining({ sourceType: 'cancellation_waiver' }),
+      expect.any(Function));
+  });
+
+  it('refuses charges with nothing to waive', async () => {
+    (getCharge as jest.Mock).mockResolvedValue(charge({ riderFee: 0, driverCompensation: 0, outcome: 'grace' }));
+
+    await expect(waiveCancellationCharge('charge-1', 'goodwill', 'ops-1')).rejects.toThrow('charge_not_waivable');
+  });
+});
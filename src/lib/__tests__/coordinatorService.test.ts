@@ -0,0 +1,152 @@
+import {
+  findAvailableCoordinators,
+  getCoordinator,
+  getShift,
+  insertAssignment,
+  listOpenAssignments,
+  releaseAssignment,
+  updateShift
+} from '@/lib/repos/coordinatorsRepo';
+import { assignCoordinator, clockIn, clockOut } from '@/lib/services/coordinatorService';
+import { CoordinatorAssignment, CoordinatorShift, EmergencyCoordinator } from '@/types/emergencyCoordinator';
+
+jest.mock('@/lib/db', () => ({
+  query: jest.fn(),
+  transaction: jest.fn((fn: (q: jest.Mock) => unknown) => fn(jest.fn()))
+}));
+jest.mock('@/lib/repos/coordinatorsRepo');
+
+const coordinator = (overrides: Partial<EmergencyCoordinator> = {}): EmergencyCoordinator => ({
+  id: 'coord-1',
+  userId: 'ops-1',
+  name: 'Maria Santos',
+  role: 'emergency_coordinator',
+  contactNumber: '+639170000001',
+  regionId: 'region-cebu',
+  specializations: ['medical', 'general'],
+  maxCapacity: 3,
+  isActive: true,
+  onDuty: true,
+  currentShiftId: 'shift-1',
+  currentLoad: 0,
+  createdBy: 'admin-1',
+  createdAt: '2026-10-01T00:00:00Z',
+  updatedAt: '2026-10-01T00:00:00Z',
+  ...overrides
+});
+
+const shift = (overrides: Partial<CoordinatorShift> = {}): CoordinatorShift => ({
+  id: 'shift-1',
+  coordinatorId: 'coord-1',
+  startsAt: '2026-10-18T08:00:00Z',
+  endsAt: '2026-10-18T16:00:00Z',
+  status: 'scheduled',
+  createdBy: 'admin-1',
+  createdAt: '2026-10-17T00:00:00Z',
+  updatedAt: '2026-10-17T00:00:00Z',
+  ...overrides
+});
+
+const assignment = (overrides: Partial<CoordinatorAssignment> = {}): CoordinatorAssignment => ({
+  id: 'assign-1',
+  responseId: 'resp-1',
+  sosAlertId: 'sos-1',
+  coordinatorId: 'coord-1',
+  regionId: 'region-cebu',
+  specialization: 'medical',
+  assignedAt: '2026-10-18T09:00:00Z',
+  assignedBy: 'system',
+  ...overrides
+});
+
+const request = {
+  responseId: 'resp-1',
+  sosAlertId: 'sos-1',
+  regionId: 'region-cebu',
+  specialization: 'medical' as const,
+  assignedBy: 'system'
+};
+
+beforeEach(() => {
+  jest.clearAllMocks();
+});
+
+describe('assignCoordinator', () => {
+  it('skips a candidate who filled up before the lock and takes the next one', async () => {
+    (findAvailableCoordinators as jest.Mock).mockResolvedValue([coordinator(), coordinator({ id: 'coord-2' })]);
+    (getCoordinator as jest.Mock)
+      .mockResolvedValueOnce(coordinator({ currentLoad: 3 }))
+      .mockResolvedValueOnce(coordinator({ id: 'coord-2', name: 'Jose Cruz', currentLoad: 1 }));
+
+    const assigned = await assignCoordinator(request);
+
+    expect(assigned).toMatchObject({ id: 'coord-2', currentLoad: 2 });
+    expect(insertAssignment).toHaveBeenCalledTimes(1);
+    expect(insertAssignment).toHaveBeenCalledWith(
+      expect.objectContaining({ responseId: 'resp-1', coordinatorId: 'coord-2' }),
+      expect.any(Function)
+    );
+  });
+
+  it('returns null without assigning when nobody on duty covers the region', async () => {
+    (findAvailableCoordinators as jest.Mock).mockResolvedValue([]);
+
+    expect(await assignCoordinator(request)).toBeNull();
+    expect(insertAssignment).not.toHaveBeenCalled();
+  });
+});
+
+describe('clockIn', () => {
+  it('opens fifteen minutes before the shift starts', async () => {
+    (getShift as jest.Mock).mockResolvedValue(shift());
+    (getCoordinator as jest.Mock).mockResolvedValue(coordinator({ onDuty: false, currentShiftId: null }));
+
+    await expect(clockIn('shift-1', new Date('2026-10-18T07:40:00Z'))).rejects.toThrow('clock_in_too_early');
+    expect(updateShift).not.toHaveBeenCalled();
+
+    const started = await clockIn('shift-1', new Date('2026-10-18T07:50:00Z'));
+    expect(started).toMatchObject({ status: 'on_duty', clockedInAt: '2026-10-18T07:50:00.000Z' });
+  });
+});
+
+describe('clockOut', () => {
+  it('hands each open response to another coordinator with the handover notes', async () => {
+    (getShift as jest.Mock).mockResolvedValue(shift({ status: 'on_duty' }));
+    (listOpenAssignments as jest.Mock).mockResolvedValue([
+      assignment(),
+      assignment({ id: 'assign-2', responseId: 'resp-2', sosAlertId: 'sos-2', specialization: 'police' })
+    ]);
+    (findAvailableCoordinators as jest.Mock)
+      .mockResolvedValueOnce([coordinator({ id: 'coord-2', name: 'Jose Cruz' })])
+      .mockResolvedValueOnce([]);
+    (getCoordinator as jest.Mock).mockResolvedValue(coordinator({ id: 'coord-2', name: 'Jose Cruz' }));
+
+    const { shift: closed, handovers } = await clockOut('shift-1', 'Caller on resp-1 is hard of hearing', 'ops-1');
+
+    expect(closed.status).toBe('completed');
+    expect(releaseAssignment).toHaveBeenCalledWith(
+      'assign-1', 'off_shift', 'Caller on resp-1 is hard of hearing', expect.any(Function)
+    );
+    expect(findAvailableCoordinators).toHaveBeenCalledWith(
+      expect.objectContaining({ excludeCoordinatorIds: ['coord-1'], specialization: 'police' }),
+      expect.any(Function)
+    );
+    expect(insertAssignment).toHaveBeenCalledWith(expect.objectContaining({
+      responseId: 'resp-1',
+      coordinatorId: 'coord-2',
+      previousAssignmentId: 'assign-1',
+      handoverNotes: 'Caller on resp-1 is hard of hearing'
+    }), expect.any(Function));
+    expect(handovers.map(handover => [handover.responseId, handover.to?.id ?? null])).toEqual([
+      ['resp-1', 'coord-2'],
+      ['resp-2', null]
+    ]);
+  });
+
+  it('refuses to close a shift that was never started', async () => {
+    (getShift as jest.Mock).mockResolvedValue(shift());
+
+    await expect(clockOut('shift-1', null, 'ops-1')).rejects.toThrow('invalid_shift_state');
+    expect(listOpenAssignments).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,269 @@
+import type { DunningAccount, DunningInvoice } from '@/lib/repos/dunningRepo';
+import { composeDunningMessage } from '@/lib/services/dunningNotifier';
+import {
+  overrideActive,
+  runDunning,
+  selectReminderStep,
+  setAccountDunningOverride,
+  suspensionThresholdCrossed
+} from '@/lib/services/dunningService';
+import { isPastGracePeriod } from '@/lib/services/invoicingService';
+import type { DunningPolicy, DunningReminderStep } from '@/types/billing';
+
+const mockDeliver = jest.fn();
+const mockRecordNotice = jest.fn();
+const mockSuspendAccount = jest.fn();
+const mockReactivateAccount = jest.fn();
+const mockUpdateInvoice = jest.fn();
+const mockListDunningInvoices = jest.fn();
+const mockListDunningAccounts = jest.fn();
+const mockListSettledNoticeKeys = jest.fn();
+const mockGetAccount = jest.fn();
+
+jest.mock('@/lib/db', () => ({
+  query: jest.fn(),
+  transaction: jest.fn((fn: (q: unknown) => unknown) => fn(jest.fn()))
+}));
+
+jest.mock('@/lib/repos/dunningRepo', () => ({
+  insertDunningRun: jest.fn(async () => 'run-1'),
+  completeDunningRun: jest.fn(),
+  listDunningPolicies: jest.fn(async () => [policy]),
+  listDunningInvoices: (...args: unknown[]) => mockListDunningInvoices(...args),
+  listDunningAccounts: (...args: unknown[]) => mockListDunningAccounts(...args),
+  listSettledNoticeKeys: (...args: unknown[]) => mockListSettledNoticeKeys(...args),
+  recordNotice: (...args: unknown[]) => mockRecordNotice(...args),
+  suspendAccount: (...args: unknown[]) => mockSuspendAccount(...args),
+  reactivateAccount: (...args: unknown[]) => mockReactivateAccount(...args),
+  setDunningOverride: jest.fn()
+}));
+
+jest.mock('@/lib/repos/corporateAccountsRepo', () => ({
+  getAccount: (...args: unknown[]) => mockGetAccount(...args)
+}));
+
+jest.mock('@/lib/repos/invoicesRepo', () => ({
+  updateInvoice: (...args: unknown[]) => mockUpdateInvoice(...args),
+  insertInvoiceActivity: jest.fn()
+}));
+
+jest.mock('@/lib/services/invoicingService', () => ({
+  ...jest.requireActual('@/lib/services/invoicingService'),
+  assessLateFees: jest.fn(async () => ({ invoicesMarkedOverdue: 1, lateFeesAssessed: 1, totalLateFees: 19.8 })),
+  manilaToday: () => '2026-06-01'
+}));
+
+jest.mock('@/lib/services/billingDocumentService', () => ({
+  getInvoicePdf: jest.fn(async () => ({
+    fileName: 'INV-2026-000007.pdf',
+    contentType: 'application/pdf',
+    content: Buffer.from('%PDF-1.4')
+  }))
+}));
+
+jest.mock('@/lib/integrations/emailServices', () => ({
+  emailServices: { getInstance: jest.fn() },
+  createDefaultEmailConfig: jest.fn()
+}));
+
+jest.mock('@/lib/integrations/smsServices', () => ({
+  smsServices: { getInstance: jest.fn() },
+  createPhilippinesSMSConfig: jest.fn()
+}));
+
+jest.mock('@/lib/services/dunningNotifier', () => ({
+  ...jest.requireActual('@/lib/services/dunningNotifier'),
+  deliverDunningNotice: (...args: unknown[]) => mockDeliver(...args)
+}));
+
+const steps: DunningReminderStep[] = [
+  { key: 'upcoming', dayOffset: -3, channels: ['email'], template: 'upcoming' },
+  { key: 'due', dayOffset: 0, channels: ['email'], template: 'due' },
+  { key: 'overdue_7', dayOffset: 7, channels: ['email', 'sms'], template: 'overdue' },
+  { key: 'overdue_14', dayOffset: 14, channels: ['email', 'sms'], template: 'overdue' },
+  { key: 'final_notice', dayOffset: 25, channels: ['email', 'sms'], template: 'final_notice' }
+];
+
+const policy: DunningPolicy = {
+  id: 'policy-1',
+  name: 'Standard',
+  reminderSteps: steps,
+  suspendAfterDaysOverdue: 30,
+  suspendMinOverdueAmount: 1000,
+  isDefault: true,
+  isActive: true,
+  createdAt: new Date(),
+  updatedAt: new Date()
+};
+
+const dunningInvoice = (overrides: Partial<DunningInvoice> = {}): DunningInvoice => ({
+  id: 'inv-1',
+  invoiceNumber: 'INV-2026-000007',
+  accountId: 'acc-1',
+  companyName: 'Acme Logistics Corp.',
+  contactPerson: 'Ana Reyes',
+  contactEmail: 'ap@acme.ph',
+  contactPhone: '+639171234567',
+  status: 'overdue',
+  dueDate: '2026-05-01',
+  amountDue: 1339.8,
+  sentTo: ['billing@acme.ph'],
+  reminderCount: 1,
+  ...overrides
+});
+
+const dunningAccount = (overrides: Partial<DunningAccount> = {}): DunningAccount => ({
+  id: 'acc-1',
+  companyName: 'Acme Logistics Corp.',
+  contactPerson: 'Ana Reyes',
+  contactEmail: 'ap@acme.ph',
+  contactPhone: '+639171234567',
+  status: 'active',
+  oldestOverdueDueDate: '2026-05-01',
+  overdueAmount: 1339.8,
+  ...overrides
+});
+
+describe('reminder schedule', () => {
+  const open = { status: 'sent' as const, dueDate: '2026-05-01' };
+  const overdue = { status: 'overdue' as const, dueDate: '2026-05-01' };
+
+  it('sends the courtesy and due-today notices only on their side of the due date', () => {
+    expect(selectReminderStep(steps, open, '2026-04-27')).toBeNull();
+    expect(selectReminderStep(steps, open, '2026-04-28')?.key).toBe('upcoming');
+    expect(selectReminderStep(steps, open, '2026-05-01')?.key).toBe('due');
+    expect(selectReminderStep(steps, open, '2026-05-03')).toBeNull();
+  });
+
+  it('holds overdue reminders until the invoice is actually overdue', () => {
+    expect(selectReminderStep(steps, open, '2026-05-09')).toBeNull();
+    expect(selectReminderStep(steps, overdue, '2026-05-09')?.key).toBe('overdue_7');
+  });
+
+  it('catches up with the latest step reached rather than every missed one', () => {
+    expect(selectReminderStep(steps, overdue, '2026-05-20')?.key).toBe('overdue_14');
+    expect(selectReminderStep(steps, overdue, '2026-06-15')?.key).toBe('final_notice');
+  });
+
+  it('only moves invoices to overdue once the grace period has run out', () => {
+    expect(isPastGracePeriod({ dueDate: '2026-05-01' }, { gracePeriodDays: 5 }, '2026-05-06')).toBe(false);
+    expect(isPastGracePeriod({ dueDate: '2026-05-01' }, { gracePeriodDays: 5 }, '2026-05-07')).toBe(true);
+    expect(isPastGracePeriod({ dueDate: '2026-05-01' }, null, '2026-05-02')).toBe(true);
+  });
+});
+
+describe('suspension threshold', () => {
+  it('requires both the days overdue and the minimum balance', () => {
+    expect(suspensionThresholdCrossed(policy, dunningAccount(), '2026-05-30')).toBe(false);
+    expect(suspensionThresholdCrossed(policy, dunningAccount(), '2026-05-31')).toBe(true);
+    expect(suspensionThresholdCrossed(policy, dunningAccount({ overdueAmount: 999 }), '2026-06-30')).toBe(false);
+    expect(suspensionThresholdCrossed(
+      { ...policy, suspendAfterDaysOverdue: undefined },
+      dunningAccount(),
+      '2026-12-31'
+    )).toBe(false);
+  });
+
+  it('honours an override through its last day', () => {
+    expect(overrideActive({ overrideUntil: '2026-06-01' }, '2026-06-01')).toBe(true);
+    expect(overrideActive({ overrideUntil: '2026-06-01' }, '2026-06-02')).toBe(false);
+    expect(overrideActive({}, '2026-06-01')).toBe(false);
+  });
+});
+
+describe('runDunning', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockDeliver.mockResolvedValue({ status: 'sent', providerMessageId: 'msg-1' });
+    mockListSettledNoticeKeys.mockResolvedValue(new Map([['inv-1', new Set(['final_notice:email'])]]));
+  });
+
+  it('sends only the unsent channels of the current step and suspends past the threshold', async () => {
+    mockListDunningInvoices.mockResolvedValue([dunningInvoice()]);
+    mockListDunningAccounts.mockResolvedValue([dunningAccount()]);
+
+    const result = await runDunning({}, 'ops-1');
+
+    expect(mockDeliver).toHaveBeenCalledWith('sms', ['+639171234567'], expect.objectContaining({
+      sms: expect.stringContaining('FINAL NOTICE: invoice INV-2026-000007')
+    }), []);
+    expect(mockRecordNotice).toHaveBeenCalledWith(expect.objectContaining({
+      invoiceId: 'inv-1',
+      stepKey: 'final_notice',
+      channel: 'sms',
+      status: 'sent',
+      runId: 'run-1'
+    }));
+    expect(mockUpdateInvoice).toHaveBeenCalledWith('inv-1', expect.objectContaining({ reminderCount: 2 }), expect.anything());
+
+    expect(mockSuspendAccount).toHaveBeenCalledWith('acc-1', 'dunning', expect.anything());
+    expect(result).toEqual(expect.objectContaining({
+      asOf: '2026-06-01',
+      invoicesMarkedOverdue: 1,
+      remindersSent: 1,
+      remindersFailed: 0,
+      accountsSuspended: ['acc-1'],
+      accountsReactivated: []
+    }));
+  });
+
+  it('reactivates dunning-suspended accounts that are overridden or paid down, and counts failures', async () => {
+    mockDeliver.mockResolvedValue({ status: 'failed', error: 'provider_down' });
+    mockListDunningInvoices.mockResolvedValue([dunningInvoice({ id: 'inv-2' })]);
+    mockListDunningAccounts.mockResolvedValue([
+      dunningAccount({ id: 'acc-1', status: 'suspended', overrideUntil: '2026-06-30' }),
+      dunningAccount({ id: 'acc-2', status: 'suspended', overdueAmount: 0, oldestOverdueDueDate: undefined }),
+      dunningAccount({ id: 'acc-3', status: 'active', overrideUntil: '2026-06-30' })
+    ]);
+
+    const result = await runDunning({ asOf: '2026-06-01' }, 'ops-1');
+
+    expect(result.remindersFailed).toBe(2);
+    expect(mockUpdateInvoice).not.toHaveBeenCalled();
+    expect(mockSuspendAccount).not.toHaveBeenCalled();
+    expect(result.accountsReactivated).toEqual(['acc-1', 'acc-2']);
+  });
+});
+
+describe('account manager override', () => {
+  it('lifts a dunning suspension immediately', async () => {
+    mockDeliver.mockResolvedValue({ status: 'sent' });
+    mockGetAccount.mockResolvedValue({
+      id: 'acc-1',
+      companyName: 'Acme Logistics Corp.',
+      contactPerson: 'Ana Reyes',
+      contactEmail: 'ap@acme.ph',
+      contactPhone: '+639171234567',
+      status: 'suspended',
+      suspensionReason: 'dunning'
+    });
+
+    await setAccountDunningOverride('acc-1', { until: '2026-06-30', reason: 'Payment plan agreed' }, 'am-1');
+
+    expect(mockReactivateAccount).toHaveBeenCalledWith('acc-1', expect.anything());
+    expect(mockRecordNotice).toHaveBeenCalledWith(expect.objectContaining({ template: 'reactivated' }));
+  });
+
+  it('rejects overrides that end in the past', async () => {
+    await expect(setAccountDunningOverride('acc-1', { until: '2026-05-31', reason: 'x' }, 'am-1'))
+      .rejects.toThrow('invalid_dunning_override');
+  });
+});
+
+describe('dunning messages', () => {
+  it('fills the invoice details into the email and SMS copy', () => {
+    const message = composeDunningMessage('overdue', {
+      companyName: 'Acme Logistics Corp.',
+      contactPerson: 'Ana Reyes',
+      invoiceNumber: 'INV-2026-000007',
+      amountDue: 1339.8,
+      dueDate: '2026-05-01'
+    });
+    expect(message.subject).toBe('Overdue: invoice INV-2026-000007');
+    expect(message.text).toContain('Dear Ana Reyes,');
+    expect(message.text).toContain('due on May 1, 2026');
+    expect(message.sms).toBe(
+      'Xpress: Invoice INV-2026-000007 (due May 1, 2026) is overdue. Balance: PHP 1,339.80. Please settle to avoid late fees.'
+    );
+  });
+});
@@ -0,0 +1,100 @@
+// Unit Tests for the Fare Engine
+// Itemised lines, caps, surge, tolls, rounding and the earnings split
+
+import { computeFare, loadActivePricing, ProfilePricing, TripFacts } from '../pricing/fareEngine';
+import { PricingStore, withPricingStore } from '../pricing/pricingStore';
+
+jest.mock('../pricing/pricingStore', () => ({ withPricingStore: jest.fn() }));
+
+const pricing: ProfilePricing = {
+  profileId: 7,
+  components: [
+    { id: 1, key: 'base_fare', value_numeric: 45, publish: 1 },
+    { id: 2, key: 'included_km', value_numeric: 2, publish: 1 },
+    { id: 3, key: 'per_km', value_numeric: 15, publish: 1 },
+    { id: 4, key: 'per_min', value_numeric: 2, publish: 0 },
+    { id: 5, key: 'airport_surcharge', value_numeric: 150, publish: 1 },
+    { id: 6, key: 'booking_fee', value_numeric: 20, publish: 1 }
+  ],
+  revenueSplit: { driver_pct: 0.8, xpress_pct: 0.2 }
+};
+
+const trip: TripFacts = { distanceKm: 7, durationMin: 20, isAirport: false };
+
+describe('Fare Engine', () => {
+  it('itemises each component with the rule it came from', () => {
+    const fare = computeFare({ pricing, caps: {}, trip });
+
+    expect(fare.lines.map(line => [line.key, line.amount, line.rule, line.publish])).toEqual([
+      ['base_fare', 45, 'component:1', true],
+      ['per_km', 75, 'component:3', true],
+      ['per_min', 40, 'component:4', false],
+      ['booking_fee', 20, 'component:6', true]
+    ]);
+    expect(fare).toMatchObject({
+      engineVersion: 'fare-engine/1',
+      profileId: 7,
+      subtotal: 180,
+      total: 180,
+      driverEarnings: 128,
+      companyTake: 52,
+      capHits: []
+    });
+  });
+
+  it('surges the components and booking fee but passes tolls through to the driver', () => {
+    const fare = computeFare({
+      pricing,
+      caps: { max_surge_multiplier: 1.5, max_airport_surcharge: 100 },
+      trip: { ...trip, isAirport: true },
+      surge: { multiplier: 1.8, additiveFee: 10, rule: 'schedule:4', ruleId: 4 },
+      tolls: [{ id: 3, name: 'NAIAX', amount: 45 }]
+    });
+
+    const byKey = Object.fromEntries(fare.lines.map(line => [line.key, line]));
+    expect(byKey.airport_surcharge).toMatchObject({ amount: 100, rule: 'cap:max_airport_surcharge', ruleId: null });
+    expect(byKey.surge).toMatchObject({ amount: 150, rule: 'cap:max_surge_multiplier', meta: '1.5x + ₱10' });
+    expect(byKey.toll).toMatchObject({ amount: 45, rule: 'toll:3' });
+    expect(fare.capHits).toEqual(['max_airport_surcharge', 'max_surge_multiplier']);
+    // (280 * 1.5 + 10) + 45 tolls
+    expect(fare.total).toBe(475);
+    // (475 - 20 - 45) * 0.8 + 45
+    expect(fare.driverEarnings).toBe(373);
+  });
+
+  it('rounds the total to the region increment as its own line', () => {
+    const fare = computeFare({
+      pricing,
+      caps: { fare_rounding_increment: 5 },
+      trip: { ...trip, distanceKm: 7.33 },
+      surge: { multiplier: 1.2, rule: 'profile:2', ruleId: 2 }
+    });
+
+    // 45 + 79.95 + 40 + 20 = 184.95, surged 221.94
+    expect(fare.lines.find(line => line.key === 'surge')).toMatchObject({ amount: 36.99, rule: 'profile:2' });
+    expect(fare.lines[fare.lines.length - 1]).toMatchObject({ key: 'rounding', amount: -1.94, rule: 'rounding:5' });
+    expect(fare.total).toBe(220);
+  });
+
+  it('loads the active profile from the pricing store the profile routes edit', async () => {
+    const store: PricingStore = {
+      get: jest.fn()
+        .mockResolvedValueOnce({ id: 7, updated_at: '2026-03-01 09:00:00' })
+        .mockResolvedValueOnce({ revenue_split: '{"driver_pct":0.8,"xpress_pct":0.2}' }),
+      all: jest.fn()
+        .mockResolvedValueOnce(pricing.components)
+        .mockResolvedValueOnce([{ key: 'max_per_km', value_numeric: 20 }])
+    };
+    (withPricingStore as jest.Mock).mockImplementation(fn => fn(store));
+
+    const active = await loadActivePricing('NCR', 'tnvs');
+
+    expect(withPricingStore).toHaveBeenCalledTimes(1);
+    expect(store.get).toHaveBeenCalledWith(expect.stringContaining("status = 'active'"), ['NCR', 'tnvs']);
+    expect(active).toEqual({
+      pricing: { profileId: 7, components: pricing.components, revenueSplit: { driver_pct: 0.8, xpress_pct: 0.2 } },
+      caps: { max_per_km: 20 },
+      version: '7@2026-03-01 09:00:00'
+    });
+  });
+});
@@ -0,0 +1,154 @@
+import { ProfilePricing } from '@/lib/pricing/fareEngine';
+import { claimQuote, getQuote } from '@/lib/repos/fareQuotesRepo';
+import {
+  assessReconciliation,
+  redeemQuote,
+  signQuote,
+  verifyQuoteId
+} from '@/lib/services/fareQuoteService';
+import { DEFAULT_QUOTE_POLICY, FareQuote } from '@/types/fareQuote';
+
+jest.mock('@/lib/database', () => ({ getDb: jest.fn() }));
+jest.mock('@/lib/pricing/pricingStore', () => ({ withPricingStore: jest.fn() }));
+jest.mock('@/lib/db', () => ({
+  query: jest.fn(),
+  transaction: jest.fn((fn: (q: jest.Mock) => unknown) => fn(jest.fn()))
+}));
+jest.mock('@/lib/pricing/surgeResolver', () => ({ lookupSurge: jest.fn() }));
+jest.mock('@/lib/repos/fareQuotesRepo');
+
+const pricing: ProfilePricing = {
+  profileId: 7,
+  components: [
+    { id: 1, key: 'base_fare', value_numeric: 45 },
+    { id: 2, key: 'per_km', value_numeric: 15 },
+    { id: 3, key: 'per_min', value_numeric: 2 },
+    { id: 4, key: 'booking_fee', value_numeric: 20 }
+  ],
+  revenueSplit: { driver_pct: 0.8, xpress_pct: 0.2 }
+};
+
+const now = new Date('2026-03-02T08:00:00Z');
+
+// 10 km and 25 min: (45 + 150 + 50 + 20) * 1.2
+const quote: FareQuote = {
+  id: '3f6c2a9e-5b1d-4c7a-9e2f-8a1b2c3d4e5f',
+  regionId: 'NCR',
+  serviceType: 'ride_4w',
+  serviceKey: 'tnvs',
+  customerId: 'customer-1',
+  policyId: 'policy-1',
+  profileId: 7,
+  profileVersion: '7@2026-03-01 09:00:00',
+  pricing: { pricing, caps: {} },
+  surgeMultiplier: 1.2,
+  surgeAdditiveFee: 0,
+  surgeRule: 'schedule:4',
+  route: [{ latitude: 14.5547, longitude: 121.0244 }, { latitude: 14.5995, longitude: 120.9842 }],
+  estimatedDistanceKm: 10,
+  estimatedDurationMin: 25,
+  isAirport: false,
+  breakdown: [],
+  total: 318,
+  status: 'issued',
+  expiresAt: '2026-03-02T08:05:00.000Z',
+  createdAt: '2026-03-02T08:00:00.000Z'
+};
+
+const booking = {
+  customerId: 'customer-1',
+  regionId: 'NCR',
+  serviceType: 'ride_4w',
+  pickup: { latitude: 14.5548, longitude: 121.0245 },
+  dropoff: { latitude: 14.5995, longitude: 120.9842 }
+};
+
+describe('Fare Quote Service', () => {
+  beforeEach(() => jest.clearAllMocks());
+
+  describe('signed quote IDs', () => {
+    it('verifies an untouched quote until it expires', () => {
+      const quoteId = signQuote(quote);
+
+      expect(quoteId.startsWith(`${quote.id}.1772438700.`)).toBe(true);
+      expect(() => verifyQuoteId(quoteId, quote, now)).not.toThrow();
+      expect(() => verifyQuoteId(quoteId, quote, new Date('2026-03-02T08:05:00Z'))).toThrow(/^quote_expired/);
+    });
+
+    it('rejects a quote whose price or expiry was altered', () => {
+      const quoteId = signQuote(quote);
+      const [id, , signature] = quoteId.split('.');
+
+      expect(() => verifyQuoteId(quoteId, { ...quote, total: 250 }, now)).toThrow(/^invalid_quote/);
+      expect(() => verifyQuoteId(`${id}.1772439000.${signature}`, quote, now)).toThrow(/^invalid_quote/);
+      expect(() => verifyQuoteId('not-a-quote', quote, now)).toThrow('invalid_quote: malformed quote ID');
+    });
+  });
+
+  describe('assessReconciliation', () => {
+    const tolls = [{ id: 3, name: 'Skyway', amount: 45 }];
+
+    it('honours the quote within tolerance and passes actual tolls through', () => {
+      const result = assessReconciliation(quote, { distanceKm: 11, durationMin: 30 }, tolls, DEFAULT_QUOTE_POLICY);
+
+      expect(result).toMatchObject({ outcome: 'honoured', distanceDeviationPct: 10, durationDeviationPct: 20 });
+      expect(result.finalFare.total).toBe(363);
+      expect(result.fareDelta).toBe(0);
+      expect(result.finalFare.lines.find(line => line.key === 'surge')).toMatchObject({ rule: 'schedule:4', ruleId: 4 });
+    });
+
+    it('reprices from the actual trip past the distance tolerance', () => {
+      const result = assessReconciliation(quote, { distanceKm: 13, durationMin: 25 }, [], DEFAULT_QUOTE_POLICY);
+
+      // (45 + 195 + 50 + 20) * 1.2
+      expect(result).toMatchObject({ outcome: 'repriced', distanceDeviationPct: 30, fareDelta: 54 });
+      expect(result.finalFare.total).toBe(372);
+    });
+
+    it('reprices on time only when the policy sets a duration tolerance', () => {
+      const actual = { distanceKm: 10, durationMin: 40 };
+
+      expect(assessReconciliation(quote, actual, [], DEFAULT_QUOTE_POLICY).outcome).toBe('honoured');
+      expect(assessReconciliation(quote, actual, [], { ...DEFAULT_QUOTE_POLICY, durationTolerancePct: 50 }))
+        .toMatchObject({ outcome: 'repriced', durationDeviationPct: 60, fareDelta: 36 });
+    });
+
+    it('only reprices downwards when increases are not allowed', () => {
+      const policy = { ...DEFAULT_QUOTE_POLICY, allowIncrease: false };
+
+      expect(assessReconciliation(quote, { distanceKm: 13, durationMin: 25 }, [], policy))
+        .toMatchObject({ outcome: 'honoured', fareDelta: 0 });
+      expect(assessReconciliation(quote, { distanceKm: 7, durationMin: 25 }, [], policy))
+        .toMatchObject({ outcome: 'repriced', fareDelta: -54 });
+    });
+  });
+
+  describe('redeemQuote', () => {
+    it('claims a quote booked as it was quoted', async () => {
+      (getQuote as jest.Mock).mockResolvedValue(quote);
+      (claimQuote as jest.Mock).mockResolvedValue({ ...quote, status: 'booked' });
+
+      const claimed = await redeemQuote(signQuote(quote), booking, jest.fn(), now);
+
+      expect(claimed.status).toBe('booked');
+      expect(claimQuote).toHaveBeenCalledWith(quote.id, expect.any(Function));
+    });
+
+    it('refuses a booking that moves the dropoff', async () => {
+      (getQuote as jest.Mock).mockResolvedValue(quote);
+
+      await expect(redeemQuote(signQuote(quote), {
+        ...booking,
+        dropoff: { latitude: 14.6507, longitude: 121.0494 }
+      }, jest.fn(), now)).rejects.toThrow('quote_mismatch: booking dropoff differs from the quote');
+      expect(claimQuote).not.toHaveBeenCalled();
+    });
+
+    it('refuses a quote that already booked a ride', async () => {
+      (getQuote as jest.Mock).mockResolvedValue({ ...quote, status: 'booked', bookingId: 'booking-1' });
+      (claimQuote as jest.Mock).mockResolvedValue(null);
+
+      await expect(redeemQuote(signQuote(quote), booking, jest.fn(), now)).rejects.toThrow('quote_already_used');
+    });
+  });
+});
@@ -0,0 +1,171 @@
+import { driverSafetyMonitoring } from '@/lib/driverSafetyMonitoring';
+import {
+  getDriverStanding,
+  getIncident,
+  insertAuditEntry,
+  insertIncident,
+  linkSOSAlertToIncident,
+  listEvidence,
+  listStatements,
+  suspendDriver,
+  updateIncident
+} from '@/lib/repos/incidentsRepo';
+import { getSOSAlert } from '@/lib/repos/sosRepo';
+import {
+  advanceInvestigation,
+  closeIncident,
+  createIncident,
+  incidentSLA
+} from '@/lib/services/incidentService';
+import { IncidentCase } from '@/types/incident';
+
+jest.mock('@/lib/db', () => ({
+  query: jest.fn(),
+  transaction: jest.fn((fn: (q: jest.Mock) => unknown) => fn(jest.fn()))
+}));
+jest.mock('@/lib/repos/incidentsRepo');
+jest.mock('@/lib/repos/sosRepo');
+jest.mock('@/lib/driverSafetyMonitoring', () => ({
+  driverSafetyMonitoring: { calculateDriverSafetyProfile: jest.fn() }
+}));
+
+const incident = (overrides: Partial<IncidentCase> = {}): IncidentCase => ({
+  id: 'inc-1',
+  incidentCode: 'INC-2026-000042',
+  type: 'driver',
+  priority: 'high',
+  status: 'in_progress',
+  title: 'Driver conduct complaint',
+  description: 'Passenger reports aggressive driving on EDSA',
+  reporter: { type: 'customer', id: 'rider-1' },
+  driverId: 'driver-1',
+  bookingId: 'booking-1',
+  investigationStage: 'under_review',
+  investigationStartedAt: '2026-10-18T08:30:00Z',
+  acknowledgedAt: '2026-10-18T08:05:00Z',
+  slaResponseDueAt: '2026-10-18T08:15:00Z',
+  slaInvestigationDueAt: '2026-10-18T12:00:00Z',
+  slaClosureDueAt: '2026-11-01T08:00:00Z',
+  closureChecklist: [],
+  followUpRequired: false,
+  createdAt: '2026-10-18T08:00:00Z',
+  updatedAt: '2026-10-18T08:30:00Z',
+  ...overrides
+});
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  (getIncident as jest.Mock).mockResolvedValue(incident());
+  (listEvidence as jest.Mock).mockResolvedValue([]);
+  (listStatements as jest.Mock).mockResolvedValue([]);
+});
+
+describe('incidentSLA', () => {
+  it('stops each timer at its milestone and flags the ones missed', () => {
+    const sla = incidentSLA(incident({
+      acknowledgedAt: '2026-10-18T08:20:00Z',
+      investigationStartedAt: null
+    }), new Date('2026-10-18T13:00:00Z'));
+
+    expect(sla.breached).toEqual(['response', 'investigation']);
+    expect(sla.nextDueAt).toBe('2026-10-18T12:00:00.000Z');
+  });
+
+  it('reports nothing breached while every deadline is still ahead', () => {
+    expect(incidentSLA(incident(), new Date('2026-10-18T09:00:00Z')).breached).toEqual([]);
+  });
+});
+
+describe('createIncident', () => {
+  it('takes the parties and location from the SOS alert and links the alert back', async () => {
+    (getSOSAlert as jest.Mock).mockResolvedValue({
+      id: 'sos-1',
+      reporter: { id: 'rider-1', type: 'passenger', name: 'Ana Reyes', phone: '+639171234567' },
+      driverId: 'driver-1',
+      bookingId: 'booking-1',
+      regionId: 'region-ncr',
+      location: { latitude: 14.5547, longitude: 121.0244, address: 'Ayala Ave, Makati' }
+    });
+    (insertIncident as jest.Mock).mockResolvedValue('inc-1');
+
+    await createIncident({
+      type: 'safety',
+      priority: 'critical',
+      title: 'SOS follow-up',
+      description: 'Passenger triggered SOS during trip',
+      sosAlertId: 'sos-1'
+    }, 'ops-1', new Date('2026-10-18T08:00:00Z'));
+
+    expect(insertIncident).toHaveBeenCalledWith(expect.objectContaining({
+      reporterType: 'customer',
+      reporterId: 'rider-1',
+      driverId: 'driver-1',
+      bookingId: 'booking-1',
+      location: { latitude: 14.5547, longitude: 121.0244, address: 'Ayala Ave, Makati' },
+      slaResponseDueAt: '2026-10-18T08:05:00.000Z',
+      slaClosureDueAt: '2026-10-25T08:00:00.000Z'
+    }), expect.any(Function));
+    expect(linkSOSAlertToIncident).toHaveBeenCalledWith('sos-1', 'inc-1', expect.any(Function));
+  });
+});
+
+describe('advanceInvestigation', () => {
+  it('does not move an investigation back to an earlier stage', async () => {
+    await expect(advanceInvestigation('inc-1', 'gathering_evidence', 'ops-1'))
+      .rejects.toThrow('invalid_stage_transition');
+    expect(updateIncident).not.toHaveBeenCalled();
+  });
+});
+
+describe('closeIncident', () => {
+  it('refuses to close while required checklist items are open', async () => {
+    await expect(closeIncident('inc-1', {
+      outcomeCode: 'warning',
+      resolutionNotes: 'Warned about speeding',
+      checklist: [
+        { id: 'drv-3', label: 'Driver given 48 hours to respond', required: true, completed: false },
+        { id: 'drv-6', label: 'HR consulted', required: false, completed: false }
+      ]
+    }, 'ops-1')).rejects.toThrow('closure_checklist_incomplete: drv-3');
+  });
+
+  it('needs a driver on the incident for driver outcomes', async () => {
+    (getIncident as jest.Mock).mockResolvedValue(incident({ driverId: null }));
+
+    await expect(closeIncident('inc-1', { outcomeCode: 'warning', resolutionNotes: 'x' }, 'ops-1'))
+      .rejects.toThrow('invalid_incident_request');
+    expect(updateIncident).not.toHaveBeenCalled();
+  });
+
+  it('suspends the driver, records it in the audit trail and refreshes the safety profile', async () => {
+    (getDriverStanding as jest.Mock).mockResolvedValue({ status: 'active', isActive: true });
+
+    await closeIncident('inc-1', {
+      outcomeCode: 'suspension',
+      resolutionNotes: 'Dashcam confirms reckless driving',
+      suspensionDays: 7
+    }, 'ops-1', new Date('2026-10-20T10:00:00Z'));
+
+    expect(updateIncident).toHaveBeenCalledWith('inc-1', expect.objectContaining({
+      status: 'closed',
+      outcomeCode: 'suspension',
+      suspendedUntil: '2026-10-27T10:00:00.000Z',
+      closedBy: 'ops-1'
+    }), expect.any(Function));
+    expect(suspendDriver).toHaveBeenCalledWith('driver-1', {
+      incidentId: 'inc-1', until: '2026-10-27T10:00:00.000Z', deactivate: false
+    }, expect.any(Function));
+    expect(insertAuditEntry).toHaveBeenCalledWith(expect.objectContaining({
+      action: 'driver_status_changed',
+      changes: expect.objectContaining({ status: { from: 'active', to: 'suspended' } })
+    }), expect.any(Function));
+    expect(driverSafetyMonitoring.calculateDriverSafetyProfile).toHaveBeenCalledWith('driver-1');
+  });
+
+  it('leaves the driver status alone for a warning', async () => {
+    await closeIncident('inc-1', { outcomeCode: 'warning', resolutionNotes: 'Formal warning issued' }, 'ops-1');
+
+    expect(suspendDriver).not.toHaveBeenCalled();
+    expect(driverSafetyMonitoring.calculateDriverSafetyProfile).toHaveBeenCalledWith('driver-1');
+  });
+});
@@ -0,0 +1,192 @@
+import type { BillableTrip } from '@/lib/repos/invoicesRepo';
+import {
+  baseFeeCyclesInPeriod,
+  billingPeriodMonths,
+  computeAmountDue,
+  computeDueDate,
+  computeEarlyPaymentDiscount,
+  computeInvoiceCharges,
+  computeLateFee,
+  runBilling
+} from '@/lib/services/invoicingService';
+import type { Subscription } from '@/types/billing';
+
+const mockFindPeriodInvoice = jest.fn();
+const mockInsertInvoice = jest.fn();
+
+jest.mock('@/lib/db', () => ({
+  query: jest.fn(),
+  transaction: jest.fn((fn: (q: unknown) => unknown) => fn(jest.fn()))
+}));
+
+jest.mock('@/lib/repos/corporateAccountsRepo', () => ({
+  listBillableAccountIds: jest.fn(async () => [{ id: 'acc-1', companyName: 'Acme Logistics' }]),
+  getAccount: jest.fn(async () => ({ id: 'acc-1', paymentTermsId: undefined })),
+  getSubscriptionForPeriod: jest.fn(async () => null),
+  getPaymentTerms: jest.fn(async () => null),
+  refreshOutstandingBalance: jest.fn()
+}));
+
+jest.mock('@/lib/repos/invoicesRepo', () => ({
+  findPeriodInvoice: (...args: unknown[]) => mockFindPeriodInvoice(...args),
+  insertInvoice: (...args: unknown[]) => mockInsertInvoice(...args),
+  listUnbilledTrips: jest.fn(async () => []),
+  insertBillingRun: jest.fn(async () => 'run-1'),
+  nextDocumentNumber: jest.fn(async () => 'INV-2026-000001'),
+  insertLineItems: jest.fn(),
+  insertInvoicedTrips: jest.fn(),
+  insertInvoiceActivity: jest.fn()
+}));
+
+const trip = (n: number): BillableTrip => ({
+  bookingId: `booking-${n}`,
+  bookingReference: `XPR${String(n).padStart(5, '0')}`,
+  customerId: 'rider-1',
+  bookerName: 'Ana Reyes',
+  totalFare: 180,
+  completedAt: '2026-03-10T02:00:00.000Z',
+  pickupAddress: 'BGC, Taguig',
+  dropoffAddress: 'Makati CBD'
+});
+
+const subscription = (overrides: Partial<Subscription> = {}): Subscription => ({
+  id: 'sub-1',
+  corporateAccountId: 'acc-1',
+  planType: 'monthly',
+  planName: 'Business',
+  startDate: '2026-01-15',
+  endDate: '2026-12-31',
+  renewalDate: '2026-12-31',
+  pricePerRide: 200,
+  status: 'active',
+  autoRenew: true,
+  billingCycle: 'monthly',
+  nextBillingDate: '2026-12-31',
+  currentPeriodRides: 0,
+  currentPeriodAmount: 0,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  ...overrides
+});
+
+const terms = {
+  dueDays: 30,
+  gracePeriodDays: 5,
+  lateFeeType: 'percentage' as const,
+  lateFeeAmount: 1.5,
+  lateFeeCapPercentage: 4,
+  earlyPaymentDiscountDays: 10,
+  earlyPaymentDiscountPercentage: 2
+};
+
+describe('computeInvoiceCharges', () => {
+  it('bills metered fares plus VAT when the account has no subscription', () => {
+    const charges = computeInvoiceCharges([trip(1), trip(2)], null, '2026-03-01', '2026-03-31');
+
+    expect(charges.lineItems.map(l => l.amount)).toEqual([180, 180]);
+    expect(charges.tripIds).toEqual(['booking-1', 'booking-2']);
+    expect(charges).toMatchObject({ subtotal: 360, discountAmount: 0, taxAmount: 43.2, totalAmount: 403.2 });
+  });
+
+  it('applies included rides, the best discount and the base fee for the cycle starting in the period', () => {
+    const trips = Array.from({ length: 12 }, (_, i) => trip(i + 1));
+    const charges = computeInvoiceCharges(trips, subscription({
+      includedRides: 2,
+      baseFee: 1000,
+      discountPercentage: 5,
+      volumeDiscountTiers: [{ ridesFrom: 10, ridesTo: 49, discountPercentage: 10 }]
+    }), '2026-03-01', '2026-03-31');
+
+    // 10 billable rides at 200, 10% tier beats the flat 5%, base fee for the 15 March cycle
+    expect(charges.lineItems.filter(l => l.category === 'ride' && l.amount === 0)).toHaveLength(2);
+    expect(charges.lineItems.find(l => l.category === 'discount')?.amount).toBe(-200);
+    expect(charges.lineItems.find(l => l.category === 'fee')).toMatchObject({ quantity: 1, amount: 1000 });
+    expect(charges).toMatchObject({ subtotal: 3000, discountAmount: 200, taxAmount: 336, totalAmount: 3136 });
+  });
+
+  it('tops up to the monthly minimum, prorated for partial periods', () => {
+    const full = computeInvoiceCharges([trip(1)], subscription({ monthlyMinimum: 5000 }), '2026-03-01', '2026-03-31');
+    expect(full.lineItems[full.lineItems.length - 1]).toMatchObject({ category: 'fee', amount: 4800 });
+    expect(full.subtotal).toBe(5000);
+
+    const weekly = computeInvoiceCharges([], subscription({ monthlyMinimum: 3000 }), '2026-03-02', '2026-03-08');
+    expect(weekly.lineItems).toHaveLength(1);
+    expect(weekly.subtotal).toBe(700);
+  });
+
+  it('produces nothing when there is nothing to bill', () => {
+    expect(computeInvoiceCharges([], subscription(), '2026-03-01', '2026-03-31').lineItems).toEqual([]);
+  });
+});
+
+describe('billing period helpers', () => {
+  it('counts whole calendar months and prorates other periods by day', () => {
+    expect(billingPeriodMonths('2026-01-01', '2026-03-31')).toBe(3);
+    expect(billingPeriodMonths('2026-02-01', '2026-02-28')).toBe(1);
+    expect(billingPeriodMonths('2026-03-02', '2026-03-16')).toBe(0.5);
+  });
+
+  it('bills a quarterly base fee only on the invoice containing the cycle start', () => {
+    const quarterly = subscription({ startDate: '2026-01-01', billingCycle: 'quarterly' });
+    expect(baseFeeCyclesInPeriod(quarterly, '2026-01-01', '2026-01-31')).toBe(1);
+    expect(baseFeeCyclesInPeriod(quarterly, '2026-02-01', '2026-02-28')).toBe(0);
+    expect(baseFeeCyclesInPeriod(quarterly, '2026-04-01', '2026-04-30')).toBe(1);
+    expect(baseFeeCyclesInPeriod({ ...quarterly, cancelledDate: '2026-03-15' }, '2026-04-01', '2026-04-30')).toBe(0);
+  });
+});
+
+describe('payment terms', () => {
+  const invoice = { issueDate: '2026-04-01', dueDate: '2026-05-01', totalAmount: 10000, creditAmount: 0 };
+
+  it('derives the due date from the terms', () => {
+    expect(computeDueDate('2026-04-01', terms)).toBe('2026-05-01');
+    expect(computeDueDate('2026-04-01', null)).toBe('2026-05-01');
+  });
+
+  it('charges nothing inside the grace period, then accrues per period up to the cap', () => {
+    expect(computeLateFee(invoice, terms, '2026-05-06')).toBe(0);
+    expect(computeLateFee(invoice, terms, '2026-05-07')).toBe(150);
+    expect(computeLateFee(invoice, terms, '2026-06-06')).toBe(300);
+    expect(computeLateFee(invoice, terms, '2026-12-31')).toBe(400);
+    expect(computeLateFee({ ...invoice, creditAmount: 5000 }, terms, '2026-05-07')).toBe(75);
+  });
+
+  it('grants the early-payment discount only inside the window', () => {
+    expect(computeEarlyPaymentDiscount(invoice, terms, '2026-04-11')).toBe(200);
+    expect(computeEarlyPaymentDiscount(invoice, terms, '2026-04-12')).toBe(0);
+    expect(computeEarlyPaymentDiscount(invoice, null, '2026-04-02')).toBe(0);
+  });
+
+  it('nets fees, discounts, credit notes and payments into the amount due', () => {
+    expect(computeAmountDue({
+      totalAmount: 10000,
+      lateFeeAmount: 150,
+      earlyPaymentDiscount: 0,
+      creditAmount: 1200,
+      amountPaid: 3000
+    })).toBe(5950);
+    expect(computeAmountDue({ totalAmount: 100, creditAmount: 100, amountPaid: 0 })).toBe(0);
+  });
+});
+
+describe('runBilling', () => {
+  beforeEach(() => {
+    mockFindPeriodInvoice.mockReset();
+    mockInsertInvoice.mockReset();
+  });
+
+  it('skips an account whose period is already invoiced', async () => {
+    mockFindPeriodInvoice.mockResolvedValue({ id: 'inv-1', invoiceNumber: 'INV-2026-000001' });
+
+    const result = await runBilling({ periodStart: '2026-03-01', periodEnd: '2026-03-31' }, 'ops-1');
+
+    expect(mockInsertInvoice).not.toHaveBeenCalled();
+    expect(result).toMatchObject({ invoicesCreated: 0, accountsSkipped: 1 });
+    expect(result.accounts[0]).toMatchObject({ skipped: 'already_invoiced', invoiceNumber: 'INV-2026-000001' });
+  });
+
+  it('rejects an inverted period', async () => {
+    await expect(runBilling({ periodStart: '2026-04-01', periodEnd: '2026-03-31' }, 'ops-1'))
+      .rejects.toThrow('invalid_billing_period');
+  });
+});
@@ -0,0 +1,127 @@
+import { kalmanStep, KalmanState } from '@/lib/tracking/kalman';
+import { MapMatcher } from '@/lib/tracking/mapMatcher';
+import { buildRoadGraph, metresBetween, parseOsmXml, parseOverpassJson } from '@/lib/tracking/roadGraph';
+
+// Small extract around a corner in Makati: Ayala Ave north to the corner, Paseo east from it,
+// a one-way southbound service road 30 m east of Ayala, and a footway that is not drivable
+const EXTRACT = `<?xml version="1.0" encoding="UTF-8"?>
+<osm version="0.6">
+  <node id="1" lat="14.5500" lon="121.0200"/>
+  <node id="2" lat="14.5550" lon="121.0200"/>
+  <node id="3" lat="14.5550" lon="121.0250"/>
+  <node id="4" lat="14.5550" lon="121.0203"/>
+  <node id="5" lat="14.5500" lon="121.0203"/>
+  <node id="6" lat="14.5520" lon="121.0190"/>
+  <node id="7" lat="14.5520" lon="121.0199"/>
+  <way id="10">
+    <nd ref="1"/><nd ref="2"/>
+    <tag k="highway" v="primary"/><tag k="name" v="Ayala Avenue"/>
+  </way>
+  <way id="11">
+    <nd ref="2"/><nd ref="3"/>
+    <tag k="highway" v="secondary"/><tag k="name" v="Paseo de Roxas"/>
+  </way>
+  <way id="12">
+    <nd ref="4"/><nd ref="5"/>
+    <tag k="highway" v="service"/><tag k="oneway" v="yes"/>
+  </way>
+  <way id="13">
+    <nd ref="6"/><nd ref="7"/>
+    <tag k="highway" v="footway"/>
+  </way>
+</osm>`;
+
+const T0 = new Date('2026-10-18T08:00:00Z').getTime();
+const graph = () => {
+  const { nodes, ways } = parseOsmXml(EXTRACT);
+  return buildRoadGraph(nodes, ways);
+};
+
+describe('road graph', () => {
+  it('keeps drivable roads only and respects one-way tags', () => {
+    const roads = graph();
+
+    expect(roads.edges.map(edge => [edge.wayId, edge.oneway])).toEqual([
+      ['10', false], ['11', false], ['12', true]
+    ]);
+    expect(roads.outgoing.get('5')).toBeUndefined();
+    expect(roads.edges[0].lengthM).toBeCloseTo(552.7, 0);
+  });
+
+  it('reads Overpass JSON the same way', () => {
+    const { nodes, ways } = parseOverpassJson(JSON.stringify({
+      elements: [
+        { type: 'node', id: 1, lat: 14.55, lon: 121.02 },
+        { type: 'node', id: 2, lat: 14.555, lon: 121.02 },
+        { type: 'way', id: 10, nodes: [1, 2], tags: { highway: 'primary', oneway: '-1' } }
+      ]
+    }));
+
+    expect(buildRoadGraph(nodes, ways).edges[0]).toEqual(expect.objectContaining({ from: '2', to: '1', oneway: true }));
+  });
+});
+
+describe('kalmanStep', () => {
+  it('pulls a noisy stationary fix towards the running estimate', () => {
+    let state: KalmanState | null = null;
+    const offsets = [0, 0.0002, -0.0002, 0.0002, -0.0002, 0.0002];
+    offsets.forEach((offset, index) => {
+      state = kalmanStep(state, {
+        latitude: 14.55 + offset, longitude: 121.02, timestamp: T0 + index * 1000, accuracy: 20
+      });
+    });
+
+    expect(Math.abs(state!.latitude - 14.55)).toBeLessThan(0.00005);
+  });
+
+  it('starts over after a long gap', () => {
+    const first = kalmanStep(null, { latitude: 14.55, longitude: 121.02, timestamp: T0, accuracy: 10 });
+    const next = kalmanStep(first, { latitude: 14.56, longitude: 121.02, timestamp: T0 + 600_000, accuracy: 10 });
+
+    expect(next.latitude).toBe(14.56);
+  });
+});
+
+describe('MapMatcher', () => {
+  it('snaps a northbound driver onto the avenue rather than the southbound one-way', () => {
+    const matcher = new MapMatcher(graph());
+
+    // 20 m east of Ayala, 10 m west of the service road
+    const matched = matcher.match('driver-1', {
+      latitude: 14.552, longitude: 121.02018, timestamp: T0, accuracy: 15, speed: 30, bearing: 0
+    });
+
+    expect(matched).toEqual(expect.objectContaining({ snapped: true, roadName: 'Ayala Avenue' }));
+    expect(matched.longitude).toBeCloseTo(121.02, 6);
+  });
+
+  it('measures distance around the corner along the road, not across it', () => {
+    const matcher = new MapMatcher(graph());
+    const before = { latitude: 14.5545, longitude: 121.0200, timestamp: T0, accuracy: 5, speed: 30, bearing: 0 };
+    const after = {
+      latitude: 14.5550, longitude: 121.0205, timestamp: T0 + 15_000, accuracy: 5, speed: 30, bearing: 90
+    };
+
+    const first = matcher.match('driver-1', before);
+    const second = matcher.match('driver-1', after);
+
+    expect(first.distanceFromPreviousM).toBeNull();
+    expect(second.roadName).toBe('Paseo de Roxas');
+    const straight = metresBetween(first, second);
+    expect(second.distanceFromPreviousM!).toBeGreaterThan(straight + 20);
+    expect(second.distanceFromPreviousM!).toBeCloseTo(metresBetween(first, { latitude: 14.555, longitude: 121.02 })
+      + metresBetween({ latitude: 14.555, longitude: 121.02 }, second), 0);
+  });
+
+  it('leaves fixes far from any road unsnapped and only smooths without a graph', () => {
+    const offRoad = new MapMatcher(graph()).match('driver-1', {
+      latitude: 14.5520, longitude: 121.0230, timestamp: T0, accuracy: 10
+    });
+    const noGraph = new MapMatcher().match('driver-1', {
+      latitude: 14.5520, longitude: 121.02018, timestamp: T0, accuracy: 10
+    });
+
+    expect(offRoad.snapped).toBe(false);
+    expect(noGraph).toEqual(expect.objectContaining({ snapped: false, latitude: 14.552, longitude: 121.02018 }));
+  });
+});
@@ -0,0 +1,282 @@
+import {
+  getSandboxProvider,
+  isSandboxMode,
+  PaymentProvider,
+  signWebhookPayload,
+  verifyWebhookSignature
+} from '@/lib/payments';
+import type { StoredTransaction } from '@/lib/repos/paymentsRepo';
+import {
+  canTransitionPayment,
+  capturePayment,
+  handleWebhook,
+  initiatePayment,
+  refundPayment
+} from '@/lib/services/paymentService';
+import { PaymentStatus, Refund } from '@/types/payment';
+
+jest.mock('@/lib/db', () => ({
+  query: jest.fn(),
+  transaction: jest.fn((fn: (q: jest.Mock) => unknown) => fn(jest.fn()))
+}));
+
+// In-memory stand-in for the payments tables so the sandbox flow runs end to end
+jest.mock('@/lib/repos/paymentsRepo', () => {
+  const store = {
+    transactions: new Map<string, StoredTransaction>(),
+    refunds: new Map<string, Refund & { providerRefundReference?: string }>(),
+    webhookEvents: new Set<string>(),
+    events: [] as Array<{ transactionId: string; toStatus: PaymentStatus; source: string }>
+  };
+  const find = (idOrRef: string) =>
+    [...store.transactions.values()].find(t => t.id === idOrRef || t.transactionId === idOrRef) ?? null;
+  const copy = <T,>(value: T | null | undefined) => (value ? { ...value } : null);
+
+  return {
+    __store: store,
+    getTransactionByIdempotencyKey: jest.fn(async (method: string, key: string) =>
+      copy([...store.transactions.values()].find(
+        t => t.paymentMethod === method && (t.metadata as { key: string }).key === key
+      ))),
+    insertTransaction: jest.fn(async (txn: Record<string, unknown>) => {
+      const id = `txn-${store.transactions.size + 1}`;
+      const row = {
+        id,
+        transactionId: txn.reference,
+        referenceNumber: txn.referenceNumber ?? txn.reference,
+        amount: txn.amount,
+        currency: txn.currency,
+        status: 'pending',
+        paymentMethod: txn.paymentMethod,
+        paymentMethodId: txn.provider,
+        provider: txn.provider,
+        description: txn.description,
+        userId: txn.userId,
+        refundedAmount: 0,
+        requestHash: txn.requestHash,
+        metadata: { key: txn.idempotencyKey },
+        createdAt: '2026-03-01T00:00:00Z',
+        updatedAt: '2026-03-01T00:00:00Z'
+      } as StoredTransaction;
+      store.transactions.set(id, row);
+      return { ...row };
+    }),
+    attachProviderCheckout: jest.fn(async (id: string, providerReference: string, redirectUrl: string) => {
+      Object.assign(store.transactions.get(id)!, { providerReference, redirectUrl });
+    }),
+    getTransaction: jest.fn(async (idOrRef: string) => copy(find(idOrRef))),
+    getTransactionByProviderReference: jest.fn(async (_provider: string, ref: string) =>
+      copy([...store.transactions.values()].find(t => t.providerReference === ref))),
+    updateTransactionStatus: jest.fn(async (id: string, status: PaymentStatus, failureReason: string | null) => {
+      Object.assign(store.transactions.get(id)!, { status, failureReason: failureReason ?? undefined });
+    }),
+    addRefundedAmount: jest.fn(async (id: string, amount: number) => {
+      store.transactions.get(id)!.refundedAmount += amount;
+    }),
+    insertTransactionEvent: jest.fn(
+      async (transactionId: string, event: { toStatus: PaymentStatus; source: string }) => {
+        store.events.push({ transactionId, ...event });
+      }
+    ),
+    recordWebhookEvent: jest.fn(async (provider: string, event: { eventId: string }) => {
+      const key = `${provider}:${event.eventId}`;
+      if (store.webhookEvents.has(key)) {
+        return false;
+      }
+      store.webhookEvents.add(key);
+      return true;
+    }),
+    getCommittedRefundTotal: jest.fn(async (transactionId: string) =>
+      [...store.refunds.values()]
+        .filter(r => r.transactionId === transactionId && r.status !== 'failed')
+        .reduce((sum, r) => sum + r.amount, 0)),
+    insertRefund: jest.fn(async (refund: Record<string, unknown>) => {
+      const id = `rfn-${store.refunds.size + 1}`;
+      store.refunds.set(id, {
+        id,
+        refundId: refund.reference as string,
+        transactionId: refund.transactionId as string,
+        amount: refund.amount as number,
+        currency: 'PHP',
+        reason: refund.reason as string,
+        status: 'pending',
+        requestedBy: refund.requestedBy as string,
+        createdAt: '2026-03-01T00:00:00Z'
+      });
+      return id;
+    }),
+    getRefund: jest.fn(async (id: string) => copy(store.refunds.get(id))),
+    getPendingRefund: jest.fn(async (transactionId: string, match: { refundReference?: string }) =>
+      copy([...store.refunds.values()].find(r => r.transactionId === transactionId && r.status === 'pending'
+        && (!match.refundReference || r.refundId === match.refundReference)))),
+    setProviderRefundReference: jest.fn(async (id: string, providerRefundReference: string) => {
+      const refund = store.refunds.get(id)!;
+      refund.providerRefundReference = refund.providerRefundReference ?? providerRefundReference;
+    }),
+    updateRefund: jest.fn(async (id: string, update: { status: Refund['status'] }) => {
+      const refund = store.refunds.get(id)!;
+      if (refund.status !== 'pending') {
+        return false;
+      }
+      refund.status = update.status;
+      return true;
+    })
+  };
+});
+
+const request = {
+  amount: 250,
+  description: 'Trip BK-1001',
+  referenceNumber: 'BK-1001',
+  successUrl: 'https://ops.example.com/payments/callback?status=success',
+  failureUrl: 'https://ops.example.com/payments/callback?status=failed'
+};
+
+const sandbox = getSandboxProvider();
+
+describe('canTransitionPayment', () => {
+  it('only moves forward through the payment lifecycle', () => {
+    expect(canTransitionPayment('pending', 'processing')).toBe(true);
+    expect(canTransitionPayment('processing', 'completed')).toBe(true);
+    expect(canTransitionPayment('completed', 'refunded')).toBe(true);
+    expect(canTransitionPayment('completed', 'processing')).toBe(false);
+    expect(canTransitionPayment('failed', 'completed')).toBe(false);
+  });
+});
+
+describe('isSandboxMode', () => {
+  const env = process.env as Record<string, string | undefined>;
+  const saved = { ...env };
+  afterEach(() => {
+    Object.assign(env, saved);
+    ['PAYMENTS_MODE', 'PAYMENTS_SANDBOX_WEBHOOK_SECRET'].filter(key => !(key in saved)).forEach(key => delete env[key]);
+  });
+
+  it('defaults to the sandbox outside production', () => {
+    env.NODE_ENV = 'development';
+    delete env.PAYMENTS_MODE;
+    expect(isSandboxMode()).toBe(true);
+  });
+
+  it('fails closed in production unless the sandbox is asked for with its own secret', () => {
+    env.NODE_ENV = 'production';
+    delete env.PAYMENTS_MODE;
+    expect(() => isSandboxMode()).toThrow(/^payment_provider_not_configured/);
+
+    env.PAYMENTS_MODE = 'sandbox';
+    delete env.PAYMENTS_SANDBOX_WEBHOOK_SECRET;
+    expect(() => isSandboxMode()).toThrow(/^payment_provider_not_configured/);
+
+    env.PAYMENTS_SANDBOX_WEBHOOK_SECRET = 'private-secret';
+    expect(isSandboxMode()).toBe(true);
+
+    env.PAYMENTS_MODE = 'live';
+    expect(isSandboxMode()).toBe(false);
+  });
+});
+
+describe('webhook signatures', () => {
+  const now = Date.parse('2026-03-01T00:00:00Z');
+  const ts = now / 1000;
+
+  it('accepts a fresh signature over the raw body', () => {
+    const body = '{"id":"evt_1"}';
+    const signature = signWebhookPayload('secret', ts, body);
+    expect(() => verifyWebhookSignature('secret', body, signature, String(ts), now)).not.toThrow();
+  });
+
+  it('rejects tampered bodies and stale timestamps', () => {
+    const signature = signWebhookPayload('secret', ts, '{"amount":100}');
+    expect(() => verifyWebhookSignature('secret', '{"amount":999}', signature, String(ts), now))
+      .toThrow('invalid_webhook_signature');
+    expect(() => verifyWebhookSignature('secret', '{"amount":100}', signature, String(ts), now + 600_000))
+      .toThrow('invalid_webhook_signature');
+  });
+});
+
+describe('sandbox payment flow', () => {
+  it('returns the original transaction when an idempotency key is retried', async () => {
+    const first = await initiatePayment('gcash', request, 'operator-1', 'key-retry');
+    const second = await initiatePayment('gcash', request, 'operator-1', 'key-retry');
+
+    expect(first.replayed).toBe(false);
+    expect(second.replayed).toBe(true);
+    expect(second.transaction.id).toBe(first.transaction.id);
+    expect(first.transaction.redirectUrl).toContain('/api/payments/sandbox/checkout/SBX-');
+
+    await expect(initiatePayment('gcash', { ...request, amount: 300 }, 'operator-1', 'key-retry'))
+      .rejects.toThrow('idempotency_key_reused');
+  });
+
+  it('authorizes via webhook, captures, then refunds in two parts', async () => {
+    const { transaction } = await initiatePayment('paymaya', request, 'operator-1', 'key-capture');
+
+    const authorized = sandbox.completeCheckout(transaction.providerReference!, 'approve');
+    const outcome = await handleWebhook('paymaya', authorized.rawBody, authorized.headers);
+    expect(outcome).toMatchObject({ duplicate: false, applied: true, status: 'processing' });
+
+    const redelivered = await handleWebhook('paymaya', authorized.rawBody, authorized.headers);
+    expect(redelivered.duplicate).toBe(true);
+
+    const captured = await capturePayment(transaction.id);
+    expect(captured.status).toBe('completed');
+
+    const partial = await refundPayment(transaction.id, 100, 'customer_request', 'operator-2');
+    expect(partial.status).toBe('processed');
+    await expect(refundPayment(transaction.id, 200, 'customer_request', 'operator-2'))
+      .rejects.toThrow('refund_exceeds_payment');
+
+    await refundPayment(transaction.transactionId, 150, 'customer_request', 'operator-2');
+    const refunded = await capturePayment(transaction.id).catch((error: Error) => error);
+    expect(refunded).toBeInstanceOf(Error);
+    expect((refunded as Error).message).toBe('invalid_payment_transition');
+  });
+
+  it('settles a refund whose webhook arrives before the provider call returns', async () => {
+    const { transaction } = await initiatePayment('gcash', request, 'operator-1', 'key-early-refund');
+    const paid = sandbox.completeCheckout(transaction.providerReference!, 'approve', { autoCapture: true });
+    await handleWebhook('gcash', paid.rawBody, paid.headers);
+
+    const provider: PaymentProvider = sandbox;
+    jest.spyOn(provider, 'refund').mockImplementationOnce(async (providerReference, _amount, _reason, refundReference) => {
+      const early = sandbox.signEvent({
+        id: 'evt_refund_early',
+        type: 'refund.succeeded',
+        payment_id: providerReference,
+        refund_reference: refundReference,
+        created_at: '2026-03-01T00:00:00Z'
+      });
+      expect(await handleWebhook('gcash', early.rawBody, early.headers)).toMatchObject({ applied: true });
+      return { providerRefundReference: 'SBR-early', status: 'pending' as const };
+    });
+
+    const refund = await refundPayment(transaction.id, 250, 'customer_request', 'operator-2');
+    expect(refund.status).toBe('processed');
+    expect((await capturePayment(transaction.id).catch((error: Error) => error) as Error).message)
+      .toBe('invalid_payment_transition');
+  });
+
+  it('marks declined payments failed and ignores late success events', async () => {
+    const { transaction } = await initiatePayment('gcash', { ...request, amount: 120.13 }, 'operator-1', 'key-decline');
+    const declined = sandbox.completeCheckout(transaction.providerReference!, 'approve', { autoCapture: true });
+
+    const outcome = await handleWebhook('gcash', declined.rawBody, declined.headers);
+    expect(outcome.status).toBe('failed');
+
+    const late = sandbox.signEvent({
+      id: 'evt_late',
+      type: 'payment.succeeded',
+      payment_id: transaction.providerReference,
+      created_at: '2026-03-01T00:00:00Z'
+    });
+    expect(await handleWebhook('gcash', late.rawBody, late.headers)).toMatchObject({ applied: false, status: 'failed' });
+  });
+
+  it('rejects webhooks with a bad signature', async () => {
+    const { transaction } = await initiatePayment('gcash', request, 'operator-1', 'key-forged');
+    const delivery = sandbox.completeCheckout(transaction.providerReference!, 'approve', { autoCapture: true });
+    delivery.headers.set('x-sandbox-signature', 'ab'.repeat(32));
+
+    await expect(handleWebhook('gcash', delivery.rawBody, delivery.headers)).rejects.toThrow('invalid_webhook_signature');
+  });
+});
@@ -0,0 +1,117 @@
+import {
+  assertApprovalSatisfied,
+  buildPayoutExport,
+  canTransitionLine
+} from '@/lib/services/payoutService';
+import { PayoutBatch, PayoutLine } from '@/types/payout';
+
+jest.mock('@/lib/db', () => ({
+  query: jest.fn(),
+  transaction: jest.fn()
+}));
+
+const batch: PayoutBatch = {
+  id: 'batch-1',
+  reference: 'PB-20260202-BT-ABC123',
+  payoutMethod: 'bank_transfer',
+  status: 'pending_approval',
+  totalAmount: 1500.5,
+  lineCount: 2,
+  approvalRequestId: 'req_1',
+  createdBy: 'finance-clerk',
+  createdAt: '2026-02-02T00:00:00Z',
+  updatedAt: '2026-02-02T00:00:00Z'
+};
+
+const approval = (overrides: Record<string, unknown> = {}) => ({
+  request_id: 'req_1',
+  workflow_id: 4,
+  requester_id: 'finance-clerk',
+  status: 'approved' as const,
+  requested_action: JSON.stringify({ batch_id: 'batch-1', amount: 1500.5 }),
+  requested_at: '2026-02-02T01:00:00Z',
+  completed_at: '2026-02-02T02:00:00Z',
+  action: 'approve_payout_batch',
+  required_approvers: 2,
+  approver_ids: ['manager-a', 'executive-b'],
+  ...overrides
+});
+
+const now = new Date('2026-02-02T02:30:00Z');
+
+describe('assertApprovalSatisfied', () => {
+  it('accepts a dual-approved request for the same batch and amount', () => {
+    expect(() => assertApprovalSatisfied(batch, approval(), now)).not.toThrow();
+  });
+
+  it('requires an approval request', () => {
+    expect(() => assertApprovalSatisfied(batch, null, now)).toThrow('approval_required');
+  });
+
+  it('rejects pending requests', () => {
+    expect(() => assertApprovalSatisfied(batch, approval({ status: 'pending' }), now))
+      .toThrow('approval_not_approved');
+  });
+
+  it('rejects approvals for a different amount', () => {
+    const changed = approval({ requested_action: JSON.stringify({ batch_id: 'batch-1', amount: 1000 }) });
+    expect(() => assertApprovalSatisfied(batch, changed, now)).toThrow('approval_batch_mismatch');
+  });
+
+  it('does not count the batch creator as an approver', () => {
+    const selfApproved = approval({ approver_ids: ['finance-clerk', 'manager-a'] });
+    expect(() => assertApprovalSatisfied(batch, selfApproved, now)).toThrow('approval_insufficient_approvers');
+  });
+
+  it('rejects approvals older than the workflow TTL', () => {
+    const later = new Date('2026-02-02T04:00:00Z');
+    expect(() => assertApprovalSatisfied(batch, approval(), later)).toThrow('approval_expired');
+  });
+});
+
+describe('canTransitionLine', () => {
+  it('only allows retrying failed lines and never leaves reversed', () => {
+    expect(canTransitionLine('failed', 'queued')).toBe(true);
+    expect(canTransitionLine('sent', 'queued')).toBe(false);
+    expect(canTransitionLine('reversed', 'queued')).toBe(false);
+  });
+});
+
+describe('buildPayoutExport', () => {
+  const line = (overrides: Partial<PayoutLine>): PayoutLine => ({
+    id: 'line-1',
+    reference: 'PB-20260202-BT-ABC123-0001',
+    batchId: 'batch-1',
+    driverId: 'driver-1',
+    amount: 1000.5,
+    status: 'sent',
+    payoutMethod: 'bank_transfer',
+    accountName: 'Juan Dela Cruz',
+    accountNumber: '001234567890',
+    bankCode: 'BDO',
+    attemptCount: 1,
+    createdAt: '2026-02-02T00:00:00Z',
+    updatedAt: '2026-02-02T00:00:00Z',
+    ...overrides
+  });
+
+  it('writes a bank bulk-transfer CSV with quoted fields', () => {
+    const file = buildPayoutExport(batch, [line({ accountName: 'Santos, Maria' })]);
+    const rows = file.content.trim().split('\r\n');
+
+    expect(file.filename).toBe('PB-20260202-BT-ABC123-bank_transfer.csv');
+    expect(rows[0]).toBe('Beneficiary Name,Account Number,Bank Code,Amount,Currency,Reference,Remarks');
+    expect(rows[1]).toBe(
+      '"Santos, Maria",001234567890,BDO,1000.50,PHP,PB-20260202-BT-ABC123-0001,Xpress payout PB-20260202-BT-ABC123'
+    );
+  });
+
+  it('writes the GCash disbursement layout for gcash batches', () => {
+    const file = buildPayoutExport(
+      { ...batch, payoutMethod: 'gcash' },
+      [line({ payoutMethod: 'gcash', accountNumber: '09171234567', bankCode: null })]
+    );
+
+    expect(file.content.split('\r\n')[1]).toBe('09171234567,Juan Dela Cruz,1000.50,PB-20260202-BT-ABC123-0001');
+  });
+});
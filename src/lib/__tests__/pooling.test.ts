@@ -0,0 +1,90 @@
+// Unit Tests for Pooled Ride Planning and Fare Splitting
+
+import { PoolConstraints, RouteStop, planPoolInsertion } from '../matching/pooling';
+import { ProfilePricing } from '../pricing/fareEngine';
+import { splitPooledFare } from '../pricing/poolFares';
+
+jest.mock('@/lib/database', () => ({ getDb: jest.fn() }));
+jest.mock('@/lib/pricing/pricingStore', () => ({ withPricingStore: jest.fn() }));
+
+const constraints: PoolConstraints = {
+  maxDetourMinutes: 8,
+  maxDetourRatio: 0.5,
+  maxPickupEtaMinutes: 12,
+  seatCapacity: 3,
+  averageSpeedKmh: 25
+};
+
+// Points along the equator, where 0.01 degrees is about 1.1 km
+const stop = (id: string, stopType: RouteStop['stopType'], longitude: number, latitude = 0, seats = 1): RouteStop =>
+  ({ id, bookingId: id.split('-')[0], stopType, latitude, longitude, seats });
+
+const origin = { latitude: 0, longitude: 0 };
+
+const pricing: ProfilePricing = {
+  profileId: 1,
+  components: [
+    { id: 1, key: 'base_fare', value_numeric: 45 },
+    { id: 2, key: 'per_km', value_numeric: 15 }
+  ],
+  revenueSplit: { driver_pct: 0.8, xpress_pct: 0.2 }
+};
+
+describe('planPoolInsertion', () => {
+  it('picks up and drops off a rider on the way without adding time', () => {
+    const insertion = planPoolInsertion(
+      origin, [stop('a-drop', 'dropoff', 0.05)], 1,
+      stop('b-pick', 'pickup', 0.01), stop('b-drop', 'dropoff', 0.03), constraints
+    );
+
+    expect(insertion?.route.map(routeStop => routeStop.id)).toEqual(['b-pick', 'b-drop', 'a-drop']);
+    expect(insertion?.addedMinutes).toBeCloseTo(0, 5);
+    expect(insertion?.maxDelayMinutes).toBeCloseTo(0, 5);
+  });
+
+  it('rejects a rider who would delay the riders already on board too much', () => {
+    const insertion = planPoolInsertion(
+      origin, [stop('a-drop', 'dropoff', 0.05)], 1,
+      stop('b-pick', 'pickup', 0.01, 0.03), stop('b-drop', 'dropoff', 0.02, 0.03), constraints
+    );
+
+    expect(insertion).toBeNull();
+  });
+
+  it('waits for seats to free up before picking up', () => {
+    const insertion = planPoolInsertion(
+      origin, [stop('a-drop', 'dropoff', 0.05, 0, 2)], 2,
+      stop('b-pick', 'pickup', 0.06, 0, 2), stop('b-drop', 'dropoff', 0.08, 0, 2),
+      { ...constraints, maxPickupEtaMinutes: 20 }
+    );
+
+    expect(insertion?.route.map(routeStop => routeStop.id)).toEqual(['a-drop', 'b-pick', 'b-drop']);
+  });
+});
+
+describe('splitPooledFare', () => {
+  const riderA = { bookingId: 'a', pickup: origin, dropoff: { latitude: 0, longitude: 0.04 }, surgeMultiplier: 1 };
+  const riderB = {
+    bookingId: 'b',
+    pickup: { latitude: 0, longitude: 0.01 },
+    dropoff: { latitude: 0, longitude: 0.03 },
+    surgeMultiplier: 1
+  };
+
+  it('splits the driven route by each rider\'s direct distance', () => {
+    const route = [riderA.pickup, riderB.pickup, riderB.dropoff, riderA.dropoff];
+    const [shareA, shareB] = splitPooledFare(pricing, {}, [riderA, riderB], route);
+
+    expect(shareA.fare).toBeCloseTo(shareB.fare * 2, 1);
+    expect(shareA.fare + shareB.fare).toBeCloseTo(45 + 15 * 4.448, 0);
+    expect(shareA.fare).toBeLessThan(shareA.soloFare);
+    expect(shareB.fare).toBeLessThan(shareB.soloFare);
+  });
+
+  it('never charges more than riding alone', () => {
+    const detour = [riderA.pickup, { latitude: 0.05, longitude: 0.02 }, riderA.dropoff];
+    const [share] = splitPooledFare(pricing, {}, [riderA], detour);
+
+    expect(share.fare).toBe(share.soloFare);
+  });
+});
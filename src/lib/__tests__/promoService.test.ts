@@ -0,0 +1,254 @@
+import { riderIncentiveFraudDetector } from '@/lib/fraud/riderIncentiveFraud';
+import {
+  countCustomerRedemptions,
+  decrementPromoUsage,
+  getPromosByCodes,
+  getRedemption,
+  hasCompletedBooking,
+  incrementPromoUsage,
+  insertPromoAttempts,
+  insertRedemption,
+  listBookingRedemptions,
+  listPromoAttempts,
+  listRedemptionsByIds,
+  lockCustomerRedemptions,
+  reverseRedemption,
+  setAttemptFraudScore
+} from '@/lib/repos/promosRepo';
+import {
+  checkPromoEligibility,
+  evaluatePromos,
+  promoDiscount,
+  redeemPromos,
+  reversePromoRedemption
+} from '@/lib/services/promoService';
+import { Promo } from '@/types/promo';
+
+jest.mock('@/lib/db', () => ({
+  query: jest.fn(),
+  transaction: jest.fn((fn: (q: jest.Mock) => unknown) => fn(jest.fn()))
+}));
+jest.mock('@/lib/repos/promosRepo');
+jest.mock('@/lib/fraud/riderIncentiveFraud', () => ({
+  riderIncentiveFraudDetector: { analyzeRider: jest.fn() }
+}));
+
+const promo = (overrides: Partial<Promo> = {}): Promo => ({
+  id: 'promo-1',
+  code: 'WELCOME20',
+  name: 'New User Welcome',
+  discountType: 'percentage',
+  discountValue: 20,
+  maxDiscount: 100,
+  minOrderAmount: 100,
+  validFrom: '2026-01-01T00:00:00Z',
+  validTo: '2026-12-31T23:59:59Z',
+  usageLimit: 5000,
+  perUserLimit: 1,
+  usageCount: 10,
+  newUsersOnly: false,
+  serviceKeys: null,
+  regionIds: null,
+  zoneIds: null,
+  stackable: false,
+  isActive: true,
+  status: 'active',
+  createdBy: 'ops-1',
+  createdAt: '2026-01-01T00:00:00Z',
+  updatedAt: '2026-01-01T00:00:00Z',
+  ...overrides
+});
+
+const at = new Date('2026-10-10T08:00:00Z');
+const context = { orderAmount: 300, serviceKey: 'TNVS', regionId: 'NCR', zoneId: 'BGC', at };
+const newCustomer = { isNewUser: true, redemptions: {} };
+
+describe('promoDiscount', () => {
+  it('caps percentage discounts at the maximum', () => {
+    expect(promoDiscount(promo(), 300)).toBe(60);
+    expect(promoDiscount(promo(), 800)).toBe(100);
+  });
+
+  it('takes fixed discounts as they are', () => {
+    expect(promoDiscount(promo({ discountType: 'fixed', discountValue: 50, maxDiscount: null }), 300)).toBe(50);
+  });
+});
+
+describe('checkPromoEligibility', () => {
+  it('accepts a promo that fits the booking', () => {
+    expect(checkPromoEligibility(promo(), context, newCustomer)).toBeNull();
+  });
+
+  it('checks the validity window, pause and global limit', () => {
+    expect(checkPromoEligibility(promo({ validTo: '2026-10-01T00:00:00Z' }), context)).toBe('expired');
+    expect(checkPromoEligibility(promo({ validFrom: '2026-11-01T00:00:00Z' }), context)).toBe('not_started');
+    expect(checkPromoEligibility(promo({ isActive: false }), context)).toBe('inactive');
+    expect(checkPromoEligibility(promo({ usageCount: 5000 }), context)).toBe('usage_limit_reached');
+  });
+
+  it('checks service, region and zone targeting', () => {
+    expect(checkPromoEligibility(promo({ serviceKeys: ['MOTO'] }), context)).toBe('service_not_eligible');
+    expect(checkPromoEligibility(promo({ regionIds: ['CEB'] }), context)).toBe('region_not_eligible');
+    expect(checkPromoEligibility(promo({ zoneIds: ['MAKATI'] }), context)).toBe('zone_not_eligible');
+    expect(checkPromoEligibility(promo({ zoneIds: ['MAKATI'] }), { ...context, zoneId: undefined }))
+      .toBe('zone_not_eligible');
+    expect(checkPromoEligibility(promo({ minOrderAmount: 500 }), context)).toBe('min_order_not_met');
+  });
+
+  it('only checks customer rules when the customer is known', () => {
+    const newUsers = promo({ newUsersOnly: true });
+    expect(checkPromoEligibility(newUsers, context)).toBeNull();
+    expect(checkPromoEligibility(newUsers, context, { isNewUser: false, redemptions: {} })).toBe('new_users_only');
+    expect(checkPromoEligibility(promo(), context, { isNewUser: true, redemptions: { 'promo-1': 1 } }))
+      .toBe('user_limit_reached');
+  });
+});
+
+describe('evaluatePromos', () => {
+  const flat = promo({
+    id: 'promo-2', code: 'FLASH50', discountType: 'fixed', discountValue: 50, maxDiscount: null, stackable: true
+  });
+  const weekend = promo({ id: 'promo-3', code: 'WEEKEND25', discountValue: 25, maxDiscount: null, stackable: true });
+
+  it('reports unknown and duplicated codes', () => {
+    const result = evaluatePromos(['welcome20', 'NOPE', 'WELCOME20'], [promo()], context);
+    expect(result.applied.map(p => p.code)).toEqual(['WELCOME20']);
+    expect(result.rejected).toEqual([
+      { code: 'NOPE', reason: 'not_found' },
+      { code: 'WELCOME20', reason: 'duplicate_code' }
+    ]);
+    expect(result.finalAmount).toBe(240);
+  });
+
+  it('combines stackable promos, percentages first', () => {
+    const result = evaluatePromos(['FLASH50', 'WEEKEND25'], [flat, weekend], context);
+    expect(result.applied).toEqual([
+      { promoId: 'promo-3', code: 'WEEKEND25', name: 'New User Welcome', discountAmount: 75 },
+      { promoId: 'promo-2', code: 'FLASH50', name: 'New User Welcome', discountAmount: 50 }
+    ]);
+    expect(result.discount).toBe(125);
+    expect(result.rejected).toEqual([]);
+  });
+
+  it('keeps the better deal when a non-stackable promo is combined with others', () => {
+    const result = evaluatePromos(['WELCOME20', 'FLASH50'], [promo(), flat], context);
+    expect(result.applied.map(p => p.code)).toEqual(['WELCOME20']);
+    expect(result.rejected).toEqual([{ code: 'FLASH50', reason: 'not_stackable' }]);
+  });
+
+  it('never discounts below zero', () => {
+    const big = promo({
+      id: 'promo-4', code: 'BIG', discountType: 'fixed', discountValue: 500, maxDiscount: null,
+      minOrderAmount: null, stackable: true
+    });
+    const result = evaluatePromos(['BIG', 'FLASH50'], [big, flat], context);
+    expect(result.discount).toBe(300);
+    expect(result.finalAmount).toBe(0);
+  });
+});
+
+describe('redeemPromos', () => {
+  const request = { customerId: 'cust-1', codes: ['WELCOME20'], bookingId: 'booking-1', ...context };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (listBookingRedemptions as jest.Mock).mockResolvedValue([]);
+    (getPromosByCodes as jest.Mock).mockResolvedValue([promo()]);
+    (hasCompletedBooking as jest.Mock).mockResolvedValue(false);
+    (countCustomerRedemptions as jest.Mock).mockResolvedValue({});
+    (incrementPromoUsage as jest.Mock).mockResolvedValue(true);
+    (insertRedemption as jest.Mock).mockResolvedValue('red-1');
+    (listRedemptionsByIds as jest.Mock).mockResolvedValue([{ id: 'red-1' }]);
+    (insertPromoAttempts as jest.Mock).mockResolvedValue(['1']);
+    (listPromoAttempts as jest.Mock).mockResolvedValue([]);
+    (riderIncentiveFraudDetector.analyzeRider as jest.Mock).mockResolvedValue(null);
+  });
+
+  it('locks the customer and the promos before counting a redemption', async () => {
+    const result = await redeemPromos(request);
+
+    expect(result.redeemed).toBe(true);
+    expect(lockCustomerRedemptions).toHaveBeenCalledWith('cust-1', expect.anything());
+    expect(getPromosByCodes).toHaveBeenCalledWith(['WELCOME20'], expect.anything(), true);
+    expect(insertRedemption).toHaveBeenCalledWith(expect.objectContaining({
+      promoId: 'promo-1', bookingId: 'booking-1', discountAmount: 60
+    }), expect.anything());
+    expect(insertPromoAttempts).toHaveBeenCalledWith([expect.objectContaining({
+      code: 'WELCOME20', outcome: 'redeemed', discountAmount: 60
+    })]);
+  });
+
+  it('redeems nothing when any code is rejected', async () => {
+    (countCustomerRedemptions as jest.Mock).mockResolvedValue({ 'promo-1': 1 });
+    const result = await redeemPromos(request);
+
+    expect(result.redeemed).toBe(false);
+    expect(result.rejected).toEqual([{ code: 'WELCOME20', reason: 'user_limit_reached' }]);
+    expect(incrementPromoUsage).not.toHaveBeenCalled();
+    expect(insertRedemption).not.toHaveBeenCalled();
+    expect(insertPromoAttempts).toHaveBeenCalledWith([expect.objectContaining({ outcome: 'user_limit_reached' })]);
+  });
+
+  it('fails when the global limit is hit by a concurrent redemption', async () => {
+    (incrementPromoUsage as jest.Mock).mockResolvedValue(false);
+    await expect(redeemPromos(request)).rejects.toThrow('promo_rejected: usage_limit_reached');
+    expect(insertRedemption).not.toHaveBeenCalled();
+  });
+
+  it('returns the original redemption when the booking was already redeemed', async () => {
+    (listBookingRedemptions as jest.Mock).mockResolvedValue([
+      { id: 'red-1', promoId: 'promo-1', code: 'WELCOME20', discountAmount: 60, status: 'redeemed' }
+    ]);
+    const result = await redeemPromos(request);
+
+    expect(result).toMatchObject({ redeemed: true, discount: 60, finalAmount: 240 });
+    expect(lockCustomerRedemptions).not.toHaveBeenCalled();
+  });
+
+  it('returns the redemption a concurrent redeem committed while waiting for the lock', async () => {
+    (listBookingRedemptions as jest.Mock)
+      .mockResolvedValueOnce([])
+      .mockResolvedValueOnce([
+        { id: 'red-1', promoId: 'promo-1', code: 'WELCOME20', discountAmount: 60, status: 'redeemed' }
+      ]);
+    const result = await redeemPromos(request);
+
+    expect(result).toMatchObject({ redeemed: true, discount: 60, finalAmount: 240 });
+    expect(listBookingRedemptions).toHaveBeenLastCalledWith('booking-1', expect.anything());
+    expect((lockCustomerRedemptions as jest.Mock).mock.invocationCallOrder[0])
+      .toBeLessThan((listBookingRedemptions as jest.Mock).mock.invocationCallOrder[1]);
+    expect(incrementPromoUsage).not.toHaveBeenCalled();
+    expect(insertRedemption).not.toHaveBeenCalled();
+    expect(insertPromoAttempts).not.toHaveBeenCalled();
+  });
+
+  it('feeds the attempt log to rider incentive fraud detection', async () => {
+    (listPromoAttempts as jest.Mock).mockResolvedValue([
+      { promoCode: 'OLD10', outcome: 'expired', usedAt: '2026-10-01T00:00:00Z' },
+      { promoCode: 'GUESS', outcome: 'not_found', usedAt: '2026-10-02T00:00:00Z' }
+    ]);
+    (riderIncentiveFraudDetector.analyzeRider as jest.Mock).mockResolvedValue({
+      id: 'RIF_1', fraudScore: 72, severity: 'medium'
+    });
+    await redeemPromos(request);
+
+    const riderData = (riderIncentiveFraudDetector.analyzeRider as jest.Mock).mock.calls[0][1];
+    expect(riderData.promoUsage.map((usage: { status: string }) => usage.status)).toEqual(['expired', 'invalid']);
+    expect(setAttemptFraudScore).toHaveBeenCalledWith(['1'], 72);
+  });
+});
+
+describe('reversePromoRedemption', () => {
+  it('gives the use back to the promo', async () => {
+    (getRedemption as jest.Mock).mockResolvedValue({ id: 'red-1', promoId: 'promo-1', status: 'redeemed' });
+    await reversePromoRedemption('red-1', 'Booking cancelled', 'ops-1');
+
+    expect(reverseRedemption).toHaveBeenCalledWith('red-1', 'Booking cancelled', expect.anything());
+    expect(decrementPromoUsage).toHaveBeenCalledWith('promo-1', expect.anything());
+  });
+
+  it('cannot reverse twice', async () => {
+    (getRedemption as jest.Mock).mockResolvedValue({ id: 'red-1', promoId: 'promo-1', status: 'reversed' });
+    await expect(reversePromoRedemption('red-1', undefined, 'ops-1')).rejects.toThrow('invalid_redemption_state');
+  });
+});
@@ -0,0 +1,150 @@
+import { parseStatement, parseStatementDate } from '@/lib/payments/statementParser';
+import type { MatchCandidate } from '@/lib/repos/reconciliationRepo';
+import { canApplyReconciliationAction, matchStatement } from '@/lib/services/reconciliationService';
+
+jest.mock('@/lib/db', () => ({
+  query: jest.fn(),
+  transaction: jest.fn()
+}));
+
+const candidate = (overrides: Partial<MatchCandidate>): MatchCandidate => ({
+  id: 'txn-1',
+  transactionReference: 'TXN-GCASH-1767225600000-AB12CD',
+  providerReference: 'GC-0001',
+  paymentMethod: 'gcash',
+  provider: 'gcash',
+  status: 'completed',
+  amount: 250,
+  completedAt: '2026-03-01T02:00:00.000Z',
+  userId: 'rider-1',
+  matchedElsewhere: false,
+  flaggedMissing: false,
+  ...overrides
+});
+
+const period = { provider: 'gcash' as const, start: '2026-03-01T00:00:00.000Z', end: '2026-03-01T23:59:59.000Z' };
+
+describe('parseStatement', () => {
+  it('maps GCash headers, skips unsettled rows and reads Manila local times', () => {
+    const csv = [
+      'Transaction Date,Reference No.,Merchant Reference,Customer Name,Amount,Fee,Status',
+      '03/01/2026 10:00,GC-0001,TXN-GCASH-1767225600000-AB12CD,"Dela Cruz, Juan","1,250.00",25.00,SUCCESS',
+      '03/01/2026 11:00,GC-0002,,Maria,100.00,2.00,FAILED'
+    ].join('\r\n');
+
+    const { lines, skipped } = parseStatement(csv);
+
+    expect(lines).toEqual([{
+      lineNumber: 2,
+      transactionDate: '2026-03-01T02:00:00.000Z',
+      providerReference: 'GC-0001',
+      merchantReference: 'TXN-GCASH-1767225600000-AB12CD',
+      payerName: 'Dela Cruz, Juan',
+      amount: 1250,
+      fee: 25
+    }]);
+    expect(skipped).toEqual([{ lineNumber: 3, reason: 'status FAILED' }]);
+  });
+
+  it('pulls our reference out of bank descriptions and ignores debit rows', () => {
+    const csv = [
+      'Value Date,Description,Debit,Credit',
+      '2026-03-01,INSTAPAY TXN-PAYMAYA-1767225600000-ZZ99AA,,500.00',
+      '2026-03-01,SERVICE CHARGE,15.00,'
+    ].join('\n');
+
+    const { lines, skipped } = parseStatement(csv);
+    expect(lines[0].merchantReference).toBe('TXN-PAYMAYA-1767225600000-ZZ99AA');
+    expect(lines[0].amount).toBe(500);
+    expect(skipped).toEqual([{ lineNumber: 3, reason: 'not a credit' }]);
+  });
+
+  it('requires amount and date columns', () => {
+    expect(() => parseStatement('Reference,Note\nA,B')).toThrow('statement_columns_missing');
+  });
+
+  it('treats offset-less timestamps as Asia/Manila', () => {
+    expect(parseStatementDate('2026-03-01 08:00')).toBe('2026-03-01T00:00:00.000Z');
+    expect(parseStatementDate('2026-03-01T08:00:00Z')).toBe('2026-03-01T08:00:00.000Z');
+  });
+});
+
+describe('matchStatement', () => {
+  const line = (overrides: Record<string, unknown>) => ({
+    lineNumber: 2,
+    transactionDate: '2026-03-01T03:00:00.000Z',
+    amount: 250,
+    fee: 5,
+    ...overrides
+  });
+
+  it('reconciles on reference and flags amount mismatches', () => {
+    const results = matchStatement(
+      [line({ providerReference: 'GC-0001' }), line({ lineNumber: 3, merchantReference: 'TXN-B', amount: 99 })],
+      [candidate({}), candidate({ id: 'txn-2', transactionReference: 'TXN-B', providerReference: null, amount: 100 })],
+      period
+    );
+
+    expect(results.map(r => [r.status, r.matchMethod, r.discrepancyReason])).toEqual([
+      ['reconciled', 'reference', null],
+      ['discrepancy', 'reference', 'amount_mismatch']
+    ]);
+  });
+
+  it('falls back to a unique amount within the date tolerance', () => {
+    const results = matchStatement([line({})], [candidate({ providerReference: null })], period);
+    expect(results[0]).toMatchObject({ status: 'reconciled', matchMethod: 'amount_date', expectedAmount: 250 });
+  });
+
+  it('leaves ambiguous amount matches pending for review', () => {
+    const results = matchStatement(
+      [line({})],
+      [candidate({ providerReference: null }), candidate({ id: 'txn-2', transactionReference: 'TXN-B', providerReference: null })],
+      period
+    );
+    expect(results[0]).toMatchObject({ status: 'pending', discrepancyReason: 'ambiguous_match', candidate: null });
+    // Neither payment was claimed, so both remain visible as missing until someone picks one
+    expect(results.slice(1).map(r => r.discrepancyReason)).toEqual(['missing_from_statement', 'missing_from_statement']);
+  });
+
+  it('reports unknown lines and payments missing from the statement', () => {
+    const results = matchStatement(
+      [line({ amount: 75 })],
+      [candidate({ providerReference: null }), candidate({ id: 'txn-old', flaggedMissing: true })],
+      period
+    );
+
+    expect(results.map(r => [r.discrepancyReason, r.candidate?.id ?? null, r.actualAmount])).toEqual([
+      ['unknown_transaction', null, 75],
+      ['missing_from_statement', 'txn-1', 0]
+    ]);
+  });
+
+  it('matches other providers\' payments by reference only and never reports them missing', () => {
+    const paymaya = candidate({ id: 'txn-pm', transactionReference: 'TXN-PM', providerReference: null, provider: 'paymaya' });
+    const results = matchStatement(
+      [line({ merchantReference: 'TXN-PM' }), line({ lineNumber: 3 })],
+      [paymaya, candidate({ id: 'txn-pm-2', providerReference: null, provider: 'paymaya' })],
+      { ...period, provider: 'bank' }
+    );
+
+    expect(results.map(r => [r.status, r.candidate?.id ?? null, r.discrepancyReason])).toEqual([
+      ['reconciled', 'txn-pm', null],
+      ['discrepancy', null, 'unknown_transaction']
+    ]);
+  });
+
+  it('never matches a payment that an earlier statement already claimed', () => {
+    const results = matchStatement([line({ providerReference: 'GC-0001' })], [candidate({ matchedElsewhere: true })], period);
+    expect(results[0]).toMatchObject({ status: 'discrepancy', discrepancyReason: 'duplicate_statement_line' });
+  });
+});
+
+describe('canApplyReconciliationAction', () => {
+  it('only attaches payments to items that came from a statement line', () => {
+    expect(canApplyReconciliationAction('match', { status: 'pending', lineNumber: 4 })).toBe(true);
+    expect(canApplyReconciliationAction('match', { status: 'discrepancy', lineNumber: null })).toBe(false);
+    expect(canApplyReconciliationAction('reconcile', { status: 'discrepancy', lineNumber: null })).toBe(true);
+    expect(canApplyReconciliationAction('dispute', { status: 'reconciled', lineNumber: 4 })).toBe(false);
+  });
+});
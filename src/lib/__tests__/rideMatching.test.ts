@@ -0,0 +1,307 @@
+import { getDatabase } from '@/lib/database';
+import { redis } from '@/lib/redis';
+import { DEFAULT_MATCHING_CONFIG, RideMatchingEngine, RideOfferStatus, matchingConfigFromEnv } from '@/lib/rideMatching';
+import { getWebSocketManager } from '@/lib/websocket';
+
+jest.mock('@/lib/database', () => {
+  const db = { query: jest.fn(), transaction: jest.fn() };
+  return { getDatabase: () => db };
+});
+jest.mock('@/lib/redis', () => ({
+  redis: {
+    get: jest.fn(), setex: jest.fn(), lpush: jest.fn(), ltrim: jest.fn(), getCache: jest.fn(), setCache: jest.fn()
+  }
+}));
+jest.mock('@/lib/pricing/pricingStore', () => ({ withPricingStore: jest.fn() }));
+jest.mock('@/lib/websocket', () => ({ getWebSocketManager: jest.fn() }));
+
+type RideRequest = Parameters<RideMatchingEngine['matchRideToDriver']>[0];
+
+interface FakeOffer {
+  id: string;
+  booking_id: string;
+  driver_id: string;
+  match_id: string;
+  sequence: number;
+  status: RideOfferStatus;
+  matching_score: string;
+  distance_km: string;
+  eta_minutes: number;
+  offered_at: string;
+  expires_at: string;
+  responded_at: string | null;
+  decline_reason: string | null;
+}
+
+const db = getDatabase() as unknown as { query: jest.Mock; transaction: jest.Mock };
+const cache = redis as unknown as { get: jest.Mock; getCache: jest.Mock; setCache: jest.Mock };
+
+const ride: RideRequest = {
+  id: 'booking-1',
+  bookingReference: 'XPR-1001',
+  customerId: 'cust-1',
+  serviceType: 'ride_4w',
+  pickupLocation: { latitude: 14.5547, longitude: 121.0244, address: 'Ayala Ave, Makati' },
+  regionId: 'NCR',
+  surgeMultiplier: 1
+};
+
+const candidate = (id: string, distanceKm: number, rating: number) => ({
+  id,
+  driverCode: id.toUpperCase(),
+  name: `Driver ${id}`,
+  phone: '+639170000000',
+  rating,
+  totalTrips: 500,
+  acceptanceRate: 90,
+  services: ['ride_4w'],
+  location: { latitude: 14.5547, longitude: 121.0244, lastUpdated: new Date().toISOString() },
+  status: 'active',
+  isAvailable: true,
+  vehicle: {},
+  distanceKm,
+  estimatedArrival: 4,
+  matchingScore: 0
+});
+
+// In-memory stand-in for the bookings and ride_offers tables, dispatched on the SQL text
+let offers: FakeOffer[];
+let bookings: Record<string, { status: string; driver_id: string | null }>;
+
+const fakeQuery = async (sql: string, params: unknown[] = []) => {
+  const find = (id: unknown) => offers.find(offer => offer.id === id);
+  if (sql.includes('SELECT DISTINCT driver_id FROM ride_offers')) {
+    const offered = offers.filter(offer => offer.booking_id === params[0]);
+    return { rows: offered.map(offer => ({ driver_id: offer.driver_id })) };
+  }
+  if (sql.includes('expires_at <= NOW() AND (driver_id')) {
+    return { rows: [] };
+  }
+  if (sql.includes('FROM bookings b') && sql.includes('FOR UPDATE')) {
+    const pending = offers.some(offer => offer.booking_id === params[0] && offer.status === 'pending');
+    return { rows: [{ ...bookings[params[0] as string], has_pending_offer: pending }] };
+  }
+  if (sql.includes('LEFT JOIN driver_locations')) {
+    return { rows: [{ status: 'active', is_available: true, active_bookings: '0', has_pending_offer: false }] };
+  }
+  if (sql.includes('INSERT INTO ride_offers')) {
+    const offer: FakeOffer = {
+      id: `offer-${offers.length + 1}`,
+      booking_id: params[0] as string,
+      driver_id: params[1] as string,
+      match_id: params[2] as string,
+      sequence: params[3] as number,
+      status: 'pending',
+      matching_score: params[4] as string,
+      distance_km: params[5] as string,
+      eta_minutes: params[6] as number,
+      offered_at: new Date().toISOString(),
+      expires_at: new Date(Date.now() + 1000).toISOString(),
+      responded_at: null,
+      decline_reason: null
+    };
+    offers.push(offer);
+    return { rows: [offer] };
+  }
+  if (sql.includes('UPDATE ride_offers') && sql.includes("AND status = 'pending'")) {
+    const offer = find(params[0]);
+    if (!offer || offer.status !== 'pending') {
+      return { rows: [] };
+    }
+    Object.assign(offer, { status: params[1], decline_reason: params[2] });
+    return { rows: [offer] };
+  }
+  if (sql.includes('UPDATE ride_offers')) {
+    const offer = find(params[0]);
+    Object.assign(offer as FakeOffer, { status: params[1], decline_reason: params[2] });
+    return { rows: [offer] };
+  }
+  if (sql.includes('AS lapsed')) {
+    const offer = find(params[0]);
+    return { rows: offer && offer.driver_id === params[1] ? [{ ...offer, lapsed: false }] : [] };
+  }
+  if (sql.includes('active_bookings')) {
+    return { rows: [{ status: 'active', active_bookings: '0' }] };
+  }
+  if (sql.includes('UPDATE bookings')) {
+    const booking = bookings[params[1] as string];
+    if (booking.status !== 'searching' || booking.driver_id) {
+      return { rows: [] };
+    }
+    bookings[params[1] as string] = { status: 'accepted', driver_id: params[0] as string };
+    return { rows: [{ id: params[1] }] };
+  }
+  if (sql.includes('SELECT * FROM ride_offers WHERE id')) {
+    return { rows: [find(params[0])] };
+  }
+  return { rows: [] };
+};
+
+describe('RideMatchingEngine offer cascade', () => {
+  let engine: RideMatchingEngine;
+  let responses: Record<string, 'accept' | 'decline' | 'ignore' | 'offline'>;
+  const wsManager = {
+    onRideOfferResponse: jest.fn(),
+    sendRideOffer: jest.fn(),
+    closeRideOffer: jest.fn(),
+    broadcastRideOfferStatus: jest.fn(),
+    broadcastRideMatched: jest.fn(),
+    broadcastSystemPerformance: jest.fn()
+  };
+  const cacheStore = new Map<string, unknown>();
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    offers = [];
+    bookings = {
+      'booking-1': { status: 'searching', driver_id: null },
+      'booking-2': { status: 'searching', driver_id: null }
+    };
+    engine = new RideMatchingEngine({ ...DEFAULT_MATCHING_CONFIG, offerTimeoutSeconds: 0.02 });
+
+    db.query.mockImplementation(fakeQuery);
+    db.transaction.mockImplementation((fn: (client: { query: typeof fakeQuery }) => unknown) =>
+      fn({ query: fakeQuery }));
+    cache.get.mockResolvedValue(JSON.stringify([
+      candidate('d1', 0.4, 5),
+      candidate('d2', 0.8, 4.9),
+      candidate('d3', 1.2, 4.8)
+    ]));
+    (getWebSocketManager as jest.Mock).mockReturnValue(wsManager);
+    cacheStore.clear();
+    cache.getCache.mockImplementation(async (key: string) => cacheStore.get(key) ?? null);
+    cache.setCache.mockImplementation(async (key: string, value: unknown) => {
+      cacheStore.set(key, value);
+    });
+
+    // Drivers answer on the next tick, the way a socket response would arrive
+    wsManager.sendRideOffer.mockImplementation((offer: { offerId: string; driverId: string }) => {
+      const response = responses[offer.driverId];
+      if (response === 'offline') {
+        return false;
+      }
+      if (response === 'accept' || response === 'decline') {
+        setTimeout(() => engine.respondToOffer(offer.offerId, offer.driverId, response === 'accept'
+          ? { action: 'accept' }
+          : { action: 'decline', reason: 'too_far' }), 0);
+      }
+      return true;
+    });
+  });
+
+  it('falls through declines and timeouts to the driver who accepts', async () => {
+    responses = { d1: 'decline', d2: 'ignore', d3: 'accept' };
+    const result = await engine.matchRideToDriver(ride);
+
+    expect(result.success).toBe(true);
+    expect(result.assignedDriver?.id).toBe('d3');
+    expect(result.offers).toEqual([
+      { driverId: 'd1', offerId: 'offer-1', status: 'declined', reason: 'too_far' },
+      { driverId: 'd2', offerId: 'offer-2', status: 'expired', reason: 'no_response' },
+      { driverId: 'd3', offerId: 'offer-3', status: 'accepted', reason: undefined }
+    ]);
+    expect(bookings['booking-1']).toEqual({ status: 'accepted', driver_id: 'd3' });
+    expect(wsManager.closeRideOffer).toHaveBeenCalledWith(expect.objectContaining({ offerId: 'offer-2' }));
+    expect(wsManager.broadcastRideOfferStatus).toHaveBeenCalledTimes(3);
+    expect(wsManager.broadcastRideMatched).toHaveBeenCalledWith(expect.objectContaining({ driverId: 'd3' }));
+  });
+
+  it('leaves the booking searching and explains why when nobody accepts', async () => {
+    responses = { d1: 'decline', d2: 'offline', d3: 'ignore' };
+    const result = await engine.matchRideToDriver(ride);
+
+    expect(result.success).toBe(false);
+    expect(result.retryRecommended).toBe(true);
+    expect(result.failureReason).toBe('No driver accepted: 1 declined, 1 cancelled, 1 expired');
+    expect(offers.find(offer => offer.driver_id === 'd2')?.decline_reason).toBe('driver_offline');
+    expect(bookings['booking-1'].status).toBe('searching');
+  });
+
+  it('does not offer the ride again to drivers who already saw it', async () => {
+    responses = { d1: 'decline', d2: 'decline', d3: 'decline' };
+    await engine.matchRideToDriver(ride);
+    wsManager.sendRideOffer.mockClear();
+
+    const retry = await engine.matchRideToDriver(ride);
+
+    expect(wsManager.sendRideOffer).not.toHaveBeenCalled();
+    expect(retry.failureReason).toBe('No available drivers found in search area');
+  });
+
+  it('refuses answers to offers that were already settled', async () => {
+    responses = { d1: 'decline', d2: 'accept', d3: 'ignore' };
+    await engine.matchRideToDriver(ride);
+
+    await expect(engine.respondToOffer('offer-1', 'd1', { action: 'accept' })).rejects.toThrow('offer_not_pending');
+    await expect(engine.respondToOffer('offer-2', 'd1', { action: 'accept' })).rejects.toThrow('offer_not_found');
+  });
+
+  it('scores acceptance from the offer log before the daily performance rate', async () => {
+    cache.get.mockResolvedValue(null);
+    responses = {};
+    await engine.matchRideToDriver(ride);
+
+    const [sql, params] = db.query.mock.calls.find(([text]) => text.includes('SELECT DISTINCT ON (d.id)'));
+    expect(sql).toMatch(/FROM ride_offers ro[\s\S]*HAVING COUNT\(\*\) >= \$6[\s\S]*dp\.acceptance_rate/);
+    expect(params[5]).toBe(5);
+  });
+
+  it('solves a batch of requests together and records it against greedy assignment', async () => {
+    engine = new RideMatchingEngine({
+      ...DEFAULT_MATCHING_CONFIG, offerTimeoutSeconds: 0.02, matchingMode: 'batch', batchWindowMs: 10
+    });
+    responses = { d1: 'accept', d2: 'accept', d3: 'accept' };
+
+    const [first, second] = await Promise.all([
+      engine.matchRideToDriver(ride),
+      engine.matchRideToDriver({ ...ride, id: 'booking-2', bookingReference: 'XPR-1002' })
+    ]);
+
+    expect(first.assignedDriver?.id).toBe('d1');
+    expect(second.assignedDriver?.id).toBe('d2');
+    expect(first.batch).toMatchObject({ requests: 2, drivers: 3, optimal: { matched: 2 }, greedy: { matched: 2 } });
+    expect(second.batch?.batchId).toBe(first.batch?.batchId);
+    expect(bookings['booking-2']).toEqual({ status: 'accepted', driver_id: 'd2' });
+
+    const summary = await engine.getBatchMatchingSummary('NCR');
+    expect(summary).toMatchObject({ batches: 1, requests: 2, etaSavedMinutes: 0 });
+  });
+
+  it('batches only the regions switched to batch mode', async () => {
+    engine = new RideMatchingEngine({
+      ...matchingConfigFromEnv({ RIDE_MATCHING_MODE: 'greedy', RIDE_MATCHING_MODE_BY_REGION: 'NCR:batch' }),
+      offerTimeoutSeconds: 0.02,
+      batchWindowMs: 10
+    });
+    responses = { d1: 'accept', d2: 'accept', d3: 'accept' };
+
+    const [batched, greedy] = await Promise.all([
+      engine.matchRideToDriver(ride),
+      engine.matchRideToDriver({ ...ride, id: 'booking-2', bookingReference: 'XPR-1002', regionId: 'BORA' })
+    ]);
+
+    expect(batched.batch).toMatchObject({ requests: 1 });
+    expect(greedy.success).toBe(true);
+    expect(greedy.batch).toBeUndefined();
+  });
+});
+
+describe('matchingConfigFromEnv', () => {
+  it('defaults to greedy matching everywhere', () => {
+    expect(matchingConfigFromEnv({})).toMatchObject({ matchingMode: 'greedy', regionMatchingModes: {} });
+  });
+
+  it('reads the default mode and per-region overrides, skipping malformed entries', () => {
+    const config = matchingConfigFromEnv({
+      RIDE_MATCHING_MODE: 'batch',
+      RIDE_MATCHING_MODE_BY_REGION: 'NCR:greedy, CEB : batch,BORA:fifo,:batch,'
+    });
+
+    expect(config.matchingMode).toBe('batch');
+    expect(config.regionMatchingModes).toEqual({ NCR: 'greedy', CEB: 'batch' });
+  });
+
+  it('keeps greedy when the default mode is unknown', () => {
+    expect(matchingConfigFromEnv({ RIDE_MATCHING_MODE: 'optimal' }).matchingMode).toBe('greedy');
+  });
+});
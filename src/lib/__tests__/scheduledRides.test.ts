@@ -0,0 +1,164 @@
+import { getDatabase } from '@/lib/database';
+import {
+  computeDispatchAt,
+  dueLeadTime,
+  predictTravelMinutes,
+  scheduledRideDispatcher,
+  validateScheduledPickup
+} from '@/lib/scheduledRides';
+import { getWebSocketManager } from '@/lib/websocket';
+
+jest.mock('@/lib/database', () => {
+  const db = { query: jest.fn(), transaction: jest.fn() };
+  return { getDatabase: () => db };
+});
+jest.mock('@/lib/rideMatching', () => ({
+  DEFAULT_MATCHING_CONFIG: { serviceTypeCompatibility: { ride_4w: ['ride_4w'] } },
+  rideMatchingEngine: { matchRideToDriver: jest.fn() }
+}));
+jest.mock('@/lib/pricing/pricingStore', () => ({ withPricingStore: jest.fn() }));
+jest.mock('@/lib/websocket', () => ({ getWebSocketManager: jest.fn() }));
+
+const db = getDatabase() as unknown as { query: jest.Mock; transaction: jest.Mock };
+const ws = { broadcastScheduledRideStatus: jest.fn(), sendScheduledRideReminder: jest.fn() };
+
+// 10:00 in Manila, outside rush hour
+const now = new Date('2026-10-19T02:00:00Z');
+const minutesFromNow = (minutes: number) => new Date(now.getTime() + minutes * 60000).toISOString();
+
+const openRide = (overrides: Record<string, unknown> = {}) => ({
+  id: 'sched-1',
+  booking_id: 'booking-1',
+  booking_reference: 'XPS-1',
+  region_id: 'region-1',
+  service_type: 'ride_4w',
+  scheduled_pickup_time: minutesFromNow(60),
+  status: 'reserved',
+  reserved_driver_id: 'd1',
+  rematch_count: 0,
+  last_rematch_reason: null,
+  customer_id: 'cust-1',
+  pickup_address: 'NAIA Terminal 3',
+  pickup_latitude: '14.5086',
+  pickup_longitude: '121.0194',
+  booking_status: 'requested',
+  surge_multiplier: '1.0',
+  ...overrides
+});
+
+describe('scheduled ride timing', () => {
+  it('predicts slower travel in rush hour and faster at night', () => {
+    expect(predictTravelMinutes(10, now, 25)).toBe(24);
+    expect(predictTravelMinutes(10, new Date('2026-10-19T00:00:00Z'), 25)).toBe(39); // 08:00 Manila
+    expect(predictTravelMinutes(10, new Date('2026-10-19T16:00:00Z'), 25)).toBe(20); // 00:00 Manila
+  });
+
+  it('sets the driver off ahead of pickup by travel time plus buffer', () => {
+    expect(computeDispatchAt(new Date(minutesFromNow(60)), 24, 5).toISOString()).toBe(minutesFromNow(31));
+  });
+
+  it('sends the smallest lead time already reached and skips missed earlier ones', () => {
+    const pickup = new Date(minutesFromNow(40));
+    expect(dueLeadTime([60, 15], pickup, now)).toBe(60);
+    expect(dueLeadTime([60, 15], pickup, new Date(minutesFromNow(30)))).toBe(15);
+    expect(dueLeadTime([60, 15], new Date(minutesFromNow(90)), now)).toBeNull();
+    expect(dueLeadTime([60, 15], new Date(minutesFromNow(-1)), now)).toBeNull();
+  });
+
+  it('only accepts pickups inside the booking window', () => {
+    expect(validateScheduledPickup(new Date(minutesFromNow(10)), now)).toMatch(/at least 30 minutes/);
+    expect(validateScheduledPickup(new Date(minutesFromNow(60 * 24 * 8)), now)).toMatch(/at most 7 days/);
+    expect(validateScheduledPickup(new Date(minutesFromNow(12 * 60)), now)).toBeNull();
+  });
+});
+
+describe('scheduledRideDispatcher.runCycle', () => {
+  let scheduledRides: ReturnType<typeof openRide>[];
+  let notifications: string[];
+  let candidatesQuery: unknown[] | null;
+  let rematchReasons: string[];
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (getWebSocketManager as jest.Mock).mockReturnValue(ws);
+    ws.sendScheduledRideReminder.mockReturnValue(true);
+    notifications = [];
+    candidatesQuery = null;
+    rematchReasons = [];
+
+    db.query.mockImplementation(async (sql: string, params: unknown[] = []) => {
+      if (sql.includes("sr.status IN ('scheduled', 'reserved')") && sql.includes('ORDER BY')) {
+        return { rows: scheduledRides };
+      }
+      if (sql.includes('JOIN driver_locations dl ON dl.driver_id = d.id')) {
+        return { rows: [] }; // reserved driver stopped sending locations
+      }
+      if (sql.includes('rematch_count = rematch_count + 1')) {
+        rematchReasons.push(params[1] as string);
+        return { rows: [] };
+      }
+      if (sql.includes('SELECT DISTINCT ON (d.id)')) {
+        candidatesQuery = params;
+        return {
+          rows: [
+            { id: 'd3', status: 'busy', distance_km: '1.0' },
+            { id: 'd2', status: 'active', distance_km: '3.0' }
+          ]
+        };
+      }
+      if (sql.includes("SET status = 'reserved'")) {
+        Object.assign(scheduledRides[0], { status: 'reserved', reserved_driver_id: params[1] });
+        return { rows: [{ id: params[0] }] };
+      }
+      if (sql.includes("sr.status IN ('scheduled', 'reserved', 'dispatched')")) {
+        return {
+          rows: scheduledRides.map(ride => ({ ...ride, driver_id: null }))
+            .filter(ride => new Date(ride.scheduled_pickup_time) > now)
+        };
+      }
+      if (sql.includes('INSERT INTO scheduled_ride_notifications')) {
+        const key = `${params[1]}:${params[2]}:${params[3]}`;
+        if (notifications.includes(key)) {
+          return { rows: [] };
+        }
+        notifications.push(key);
+        return { rows: [{ id: key }] };
+      }
+      return { rows: [] };
+    });
+  });
+
+  it('re-matches a ride whose reserved driver went offline', async () => {
+    scheduledRides = [openRide()];
+
+    const result = await scheduledRideDispatcher.runCycle(now);
+
+    expect(result).toMatchObject({ rematched: 1, reserved: 1, dispatched: 0, onDemand: 0 });
+    expect(rematchReasons).toEqual(['driver_offline']);
+    expect(candidatesQuery?.[5]).toBe('d1'); // the dropped driver is not reserved again
+    // The closer driver is on a trip, so the free one is reserved
+    expect(scheduledRides[0]).toMatchObject({ status: 'reserved', reserved_driver_id: 'd2' });
+    expect(ws.broadcastScheduledRideStatus).toHaveBeenCalledWith(
+      expect.objectContaining({ status: 'scheduled', previousDriverId: 'd1', reason: 'driver_offline' })
+    );
+    expect(ws.broadcastScheduledRideStatus).toHaveBeenCalledWith(
+      expect.objectContaining({ status: 'reserved', driverId: 'd2' })
+    );
+  });
+
+  it('reminds rider and reserved driver once per lead time', async () => {
+    scheduledRides = [openRide({ scheduled_pickup_time: minutesFromNow(14), reserved_driver_id: 'd2' })];
+    db.query.mockImplementationOnce(async () => ({ rows: [] })); // no rides due for dispatch work
+
+    const first = await scheduledRideDispatcher.runCycle(now);
+    db.query.mockImplementationOnce(async () => ({ rows: [] }));
+    const second = await scheduledRideDispatcher.runCycle(now);
+
+    expect(first.remindersSent).toBe(2);
+    expect(second.remindersSent).toBe(0);
+    expect(notifications).toEqual(['rider:cust-1:15', 'driver:d2:20']);
+    expect(ws.sendScheduledRideReminder).toHaveBeenCalledWith('d2', expect.objectContaining({
+      recipient: 'driver', leadMinutes: 20, bookingReference: 'XPS-1'
+    }));
+  });
+});
@@ -0,0 +1,124 @@
+import { transaction } from '@/lib/db';
+import { assertBalanced, postJournal } from '@/lib/repos/ledgerRepo';
+import {
+  insertSettlement,
+  insertSettlementDeduction,
+  listActiveRecurringDeductions,
+  listUnsettledTrips,
+  lockDriverSettlement
+} from '@/lib/repos/settlementsRepo';
+import {
+  buildSettlementJournalLines,
+  computeSettlement,
+  generateDailySettlements
+} from '@/lib/services/settlementService';
+
+jest.mock('@/lib/db', () => ({
+  query: jest.fn(),
+  transaction: jest.fn()
+}));
+jest.mock('@/lib/repos/settlementsRepo');
+jest.mock('@/lib/repos/ledgerRepo', () => ({
+  ...jest.requireActual('@/lib/repos/ledgerRepo'),
+  postJournal: jest.fn()
+}));
+jest.mock('@/lib/services/bondService', () => ({ applyBondInstallment: jest.fn() }));
+
+const trip = (id: string, fare: number) => ({
+  booking_id: id,
+  booking_reference: `BK-${id}`,
+  driver_id: 'driver-1',
+  total_fare: String(fare),
+  completed_at: '2026-02-02T08:30:00Z'
+});
+
+const bondInstallment = (perSettlement: number, remaining: number) => ({
+  id: 'rd-1',
+  deduction_type: 'bond' as const,
+  credit_account_code: '2200',
+  description: 'Driver bond installment',
+  amount_per_settlement: String(perSettlement),
+  remaining_amount: String(remaining)
+});
+
+describe('computeSettlement', () => {
+  it('splits trip revenue into commission and driver net', () => {
+    const result = computeSettlement([trip('1', 250), trip('2', 180)], [], 0.2);
+
+    expect(result.totalRevenue).toBe(430);
+    expect(result.totalCommission).toBe(86);
+    expect(result.netAmount).toBe(344);
+    expect(result.trips[0]).toMatchObject({ revenue: 250, commission: 50, netAmount: 200 });
+    expect(result.commissionReason).toBe('Platform commission (20%)');
+  });
+
+  it('pays the fare engine driver share where the trip has one', () => {
+    const result = computeSettlement([{ ...trip('1', 475), driver_earnings: '373.00' }, trip('2', 100)], [], 0.2);
+
+    expect(result.trips[0]).toMatchObject({ revenue: 475, commission: 102, netAmount: 373 });
+    expect(result.trips[1]).toMatchObject({ commission: 20, netAmount: 80 });
+    // 122 taken from 575 collected, not the flat 20%
+    expect(result.commissionReason).toBe('Platform commission (21.2%)');
+  });
+
+  it('caps recurring deductions by the remaining balance', () => {
+    const result = computeSettlement([trip('1', 500)], [bondInstallment(150, 100)], 0.2);
+
+    expect(result.deductions).toHaveLength(1);
+    expect(result.deductions[0].amount).toBe(100);
+    expect(result.totalDeductions).toBe(200);
+    expect(result.netAmount).toBe(300);
+  });
+
+  it('never deducts more than the driver earned', () => {
+    const result = computeSettlement([trip('1', 100)], [bondInstallment(500, 5000)], 0.2);
+
+    expect(result.deductions[0].amount).toBe(80);
+    expect(result.netAmount).toBe(0);
+  });
+});
+
+describe('buildSettlementJournalLines', () => {
+  it('produces a balanced journal including deductions', () => {
+    const computation = computeSettlement([trip('1', 333.33), trip('2', 101.01)], [bondInstallment(50, 1000)], 0.2);
+    const lines = buildSettlementJournalLines('driver-1', computation);
+
+    expect(() => assertBalanced(lines)).not.toThrow();
+    expect(lines.find(line => line.accountCode === '2200')?.credit).toBe(50);
+  });
+});
+
+describe('assertBalanced', () => {
+  it('rejects unbalanced journals', () => {
+    expect(() => assertBalanced([
+      { accountCode: '1000', debit: 100, credit: 0 },
+      { accountCode: '2100', debit: 0, credit: 90 }
+    ])).toThrow('journal_not_balanced');
+  });
+});
+
+describe('generateDailySettlements', () => {
+  it('re-reads each driver\'s trips under the driver lock and skips trips another run settled', async () => {
+    const tx = jest.fn();
+    (transaction as jest.Mock).mockImplementation((fn: (q: jest.Mock) => unknown) => fn(tx));
+    (listUnsettledTrips as jest.Mock)
+      .mockResolvedValueOnce([trip('1', 250), { ...trip('2', 180), driver_id: 'driver-2' }])
+      .mockResolvedValueOnce([trip('1', 250)])
+      .mockResolvedValueOnce([]);
+    (listActiveRecurringDeductions as jest.Mock).mockResolvedValue([]);
+    (insertSettlement as jest.Mock).mockResolvedValue('settlement-1');
+    (postJournal as jest.Mock).mockResolvedValue('journal-1');
+
+    const result = await generateDailySettlements('2026-02-02');
+
+    expect(lockDriverSettlement).toHaveBeenNthCalledWith(1, 'driver-1', tx);
+    expect(lockDriverSettlement).toHaveBeenNthCalledWith(2, 'driver-2', tx);
+    expect(listUnsettledTrips).toHaveBeenNthCalledWith(2, '2026-02-02', 'driver-1', tx);
+    expect(listUnsettledTrips).toHaveBeenNthCalledWith(3, '2026-02-02', 'driver-2', tx);
+    expect(insertSettlement).toHaveBeenCalledTimes(1);
+    expect(insertSettlementDeduction).toHaveBeenCalledWith('settlement-1', 'driver-1', {
+      type: 'commission', amount: 50, reason: 'Platform commission (20%)'
+    }, tx);
+    expect(result).toMatchObject({ settlementsCreated: 1, tripsSettled: 1, driversSkipped: 1, totalNetAmount: 200 });
+  });
+});
@@ -0,0 +1,182 @@
+// Unit Tests for Pricing Simulation Engine
+// Replay of historical trips through candidate/baseline profiles
+
+import { ProfilePricing } from '../pricing/fareEngine';
+import {
+  pricingSimulationRunner,
+  priceTrip,
+  replayTrips,
+  summarizeReplay,
+  SimulationTrip
+} from '../pricing/simulationEngine';
+
+import { getDb } from '@/lib/database';
+import { query } from '@/lib/db';
+import { withPricingStore } from '@/lib/pricing/pricingStore';
+
+jest.mock('@/lib/database', () => ({ getDb: jest.fn() }));
+jest.mock('@/lib/db', () => ({ query: jest.fn() }));
+jest.mock('@/lib/pricing/pricingStore', () => ({ withPricingStore: jest.fn() }));
+
+const makeProfile = (profileId: number, perKm: number, bookingFee = 20): ProfilePricing => ({
+  profileId,
+  components: [
+    { id: 1, key: 'base_fare', value_numeric: 45 },
+    { id: 2, key: 'included_km', value_numeric: 2 },
+    { id: 3, key: 'per_km', value_numeric: perKm },
+    { id: 4, key: 'per_min', value_numeric: 2 },
+    { id: 5, key: 'booking_fee', value_numeric: bookingFee }
+  ],
+  revenueSplit: { driver_pct: 0.8, xpress_pct: 0.2 }
+});
+
+const makeTrip = (overrides: Partial<SimulationTrip> = {}): SimulationTrip => ({
+  bookingId: 'booking-1',
+  completedAt: '2025-09-01T08:15:00',
+  distanceKm: 7,
+  durationMin: 20,
+  surgeMultiplier: 1,
+  historicalFare: 200,
+  isAirport: false,
+  ...overrides
+});
+
+describe('Pricing Simulation Engine', () => {
+  describe('priceTrip', () => {
+    it('should price distance beyond included km plus time and booking fee', () => {
+      const result = priceTrip(makeProfile(1, 15), makeTrip(), {});
+
+      // 45 + (7 - 2) * 15 + 20 * 2 + 20
+      expect(result.fare).toBe(180);
+      expect(result.driverEarnings).toBe(128);
+      expect(result.capHits).toEqual([]);
+    });
+
+    it('should clamp surge and booking fee to compliance caps', () => {
+      const result = priceTrip(
+        makeProfile(1, 15, 80),
+        makeTrip({ surgeMultiplier: 3 }),
+        { max_surge_multiplier: 2, max_booking_fee: 69 }
+      );
+
+      expect(result.capHits).toEqual(['max_booking_fee', 'max_surge_multiplier']);
+      expect(result.fare).toBe((45 + 75 + 40 + 69) * 2);
+    });
+
+    it('should lift base fare to the regulator floor', () => {
+      const result = priceTrip(makeProfile(1, 15), makeTrip(), { min_base_fare: 50 });
+
+      expect(result.capHits).toContain('min_base_fare');
+      expect(result.fare).toBe(185);
+    });
+  });
+
+  describe('replayTrips', () => {
+    it('should compute per-trip deltas against a baseline profile', () => {
+      const replayed = replayTrips([makeTrip()], makeProfile(2, 18), makeProfile(1, 15), {});
+
+      expect(replayed[0].baselineFare).toBe(180);
+      expect(replayed[0].candidateFare).toBe(195);
+      expect(replayed[0].fareDelta).toBe(15);
+    });
+
+    it('should use the historical fare when no baseline profile is given', () => {
+      const replayed = replayTrips([makeTrip({ historicalFare: 210 })], makeProfile(2, 15), null, {});
+
+      expect(replayed[0].baselineFare).toBe(210);
+      expect(replayed[0].fareDelta).toBe(-30);
+    });
+  });
+
+  describe('summarizeReplay', () => {
+    it('should aggregate revenue, earnings and cap hits', () => {
+      const replayed = replayTrips(
+        [makeTrip(), makeTrip({ bookingId: 'booking-2', surgeMultiplier: 2.5 })],
+        makeProfile(2, 18),
+        makeProfile(1, 15),
+        { max_surge_multiplier: 2 }
+      );
+      const metrics = summarizeReplay(replayed);
+
+      expect(metrics.summary.total_trips_analyzed).toBe(2);
+      expect(metrics.summary.compliance_cap_hits).toBe(1);
+      expect(metrics.cap_hits_by_rule).toEqual({ max_surge_multiplier: 1 });
+      expect(metrics.summary.revenue_impact).toBeGreaterThan(0);
+      expect(metrics.time_breakdown).toHaveLength(1);
+      expect(metrics.time_breakdown[0].trip_count).toBe(2);
+    });
+
+    it('should return zeroed metrics for an empty sample', () => {
+      const metrics = summarizeReplay([]);
+
+      expect(metrics.summary.total_trips_analyzed).toBe(0);
+      expect(metrics.summary.revenue_impact).toBe(0);
+      expect(metrics.time_breakdown).toEqual([]);
+    });
+  });
+
+  describe('pricingSimulationRunner', () => {
+    it('should replay completed bookings read from PostgreSQL', async () => {
+      const profile = makeProfile(2, 15);
+      const store = {
+        get: jest.fn().mockResolvedValue({ revenue_split: JSON.stringify(profile.revenueSplit) }),
+        all: jest.fn(async (sql: string) => (sql.includes('pricing_components') ? profile.components : []))
+      };
+      (withPricingStore as jest.Mock).mockImplementation(fn => fn(store));
+      const db = {
+        get: jest.fn().mockResolvedValue({
+          id: 7,
+          profile_id: 2,
+          baseline_profile_id: null,
+          region_id: 'NCR',
+          service_key: 'ride_4w',
+          sample_window_start: '2025-09-01',
+          sample_window_end: '2025-09-30'
+        }),
+        run: jest.fn().mockResolvedValue({ lastID: 0, changes: 1 })
+      };
+      (getDb as jest.Mock).mockResolvedValue(db);
+      (query as jest.Mock).mockImplementation(async (sql: string, params: unknown[] = []) => {
+        // Bookings are in PostgreSQL: no SQLite placeholders or functions, and every $n has a param
+        expect(sql).not.toMatch(/\?|datetime\(|json_extract/);
+        const placeholders = new Set(Array.from(sql.matchAll(/\$(\d+)/g), match => Number(match[1])));
+        expect(Array.from(placeholders).sort((x, y) => x - y)).toEqual(params.map((_, i) => i + 1));
+        return {
+          rows: [{
+            id: 'booking-1',
+            total_fare: '200.00',
+            surge_multiplier: '1.00',
+            service_details: { distance_km: 7, duration_min: 20 },
+            actual_pickup_time: null,
+            completed_at: new Date('2025-09-01T08:15:00Z')
+          }]
+        };
+      });
+
+      await pricingSimulationRunner.run(7);
+
+      expect((query as jest.Mock).mock.calls[0][1]).toEqual(['NCR', 'ride_4w', '2025-09-01', '2025-09-30', 50000]);
+      const insert = db.run.mock.calls.find(([sql]) => sql.includes('INSERT INTO pricing_simulation_trips'));
+      expect(insert?.[1].slice(0, 3)).toEqual([7, 'booking-1', '2025-09-01T08:15:00.000Z']);
+      expect(insert?.[1][7]).toBe(180);
+      const completed = db.run.mock.calls.find(([sql]) => sql.includes("status = 'completed'"));
+      expect(completed?.[0]).not.toMatch(/datetime\(/);
+    });
+
+    it('should keep draining the queue when a failed run cannot be recorded', async () => {
+      const db = {
+        get: jest.fn().mockRejectedValue(new Error('database is locked')),
+        run: jest.fn().mockRejectedValue(new Error('database is locked'))
+      };
+      (getDb as jest.Mock).mockResolvedValue(db);
+
+      pricingSimulationRunner.enqueue(1);
+      pricingSimulationRunner.enqueue(2);
+      await new Promise(resolve => setTimeout(resolve, 0));
+
+      expect(db.get.mock.calls.map(([, params]) => params)).toEqual([[1], [2]]);
+      expect(db.run).toHaveBeenCalledTimes(2);
+      expect(pricingSimulationRunner.getQueueDepth()).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,177 @@
+import { emergencyResponseAutomation } from '@/lib/emergencyResponseAutomation';
+import { getSOSAlert } from '@/lib/repos/sosRepo';
+import {
+  acknowledgeSOS,
+  allowedSOSActions,
+  buildSOSTimeline,
+  escalateSOS,
+  resolveSOS,
+  triggerSOS
+} from '@/lib/services/sosService';
+import { sosAlertProcessor } from '@/lib/sosAlertProcessor';
+import { SOSAlertEvent, SOSAlertRecord } from '@/types/sos';
+
+jest.mock('@/lib/db', () => ({ query: jest.fn() }));
+jest.mock('@/lib/repos/sosRepo');
+jest.mock('@/lib/sosAlertProcessor', () => ({
+  sosAlertProcessor: {
+    processSOS: jest.fn(),
+    triggerPanicButton: jest.fn(),
+    acknowledgeSOS: jest.fn(),
+    escalateSOS: jest.fn(),
+    resolveSOS: jest.fn()
+  }
+}));
+jest.mock('@/lib/emergencyResponseAutomation', () => ({
+  emergencyResponseAutomation: {
+    getResponseForSOS: jest.fn(),
+    initiateEmergencyResponse: jest.fn(),
+    escalateResponse: jest.fn(),
+    updateEmergencyResponse: jest.fn(),
+    completeResponse: jest.fn()
+  }
+}));
+
+const alert = (overrides: Partial<SOSAlertRecord> = {}): SOSAlertRecord => ({
+  id: 'sos-1',
+  sosCode: 'SOS-081000-AB12',
+  status: 'dispatched',
+  emergencyType: 'security_threat',
+  severity: 9,
+  triggeredAt: '2026-10-18T08:10:00Z',
+  location: { latitude: 14.5547, longitude: 121.0244, accuracy: 8, address: 'Ayala Ave, Makati' },
+  regionId: 'region-ncr',
+  reporter: { id: 'rider-1', type: 'passenger', name: 'Ana Reyes', phone: '+639171234567' },
+  driverId: 'driver-1',
+  bookingId: 'booking-1',
+  attachments: [],
+  emergencyServicesNotified: ['police'],
+  emergencyReferenceNumbers: { police: 'PNP-001' },
+  escalationLevel: 0,
+  createdAt: '2026-10-18T08:10:00Z',
+  updatedAt: '2026-10-18T08:10:00Z',
+  ...overrides
+});
+
+const event = (overrides: Partial<SOSAlertEvent>): SOSAlertEvent => ({
+  id: 'event-1',
+  sosAlertId: 'sos-1',
+  eventType: 'triggered',
+  actor: 'rider-1',
+  data: {},
+  createdAt: '2026-10-18T08:10:00Z',
+  ...overrides
+});
+
+describe('allowedSOSActions', () => {
+  it('only offers acknowledge until an operator has taken the alert, and nothing once closed', () => {
+    expect(allowedSOSActions('dispatched')).toEqual(['acknowledge', 'escalate', 'resolve']);
+    expect(allowedSOSActions('acknowledged')).toEqual(['escalate', 'resolve']);
+    expect(allowedSOSActions('false_alarm')).toEqual([]);
+  });
+});
+
+describe('buildSOSTimeline', () => {
+  it('merges alert events with emergency response logs, oldest first', () => {
+    const timeline = buildSOSTimeline(alert(), [
+      event({ id: 'event-1', eventType: 'triggered', createdAt: '2026-10-18T08:10:00Z' }),
+      event({ id: 'event-2', eventType: 'escalated', actor: 'ops-1', createdAt: '2026-10-18T08:12:00Z' })
+    ], [{
+      responseId: 'resp-1',
+      responseCode: 'SEC-0001',
+      status: 'escalated',
+      entries: [
+        { id: 'log-2', timestamp: '2026-10-18T08:12:30Z', eventType: 'escalation', source: 'ops-1', message: 'Level 1' },
+        { id: 'log-1', timestamp: '2026-10-18T08:12:05Z', eventType: 'dispatch', source: 'system', message: 'Opened' }
+      ]
+    }]);
+
+    expect(timeline.entries.map(entry => entry.id)).toEqual(['event-1', 'event-2', 'log-1', 'log-2']);
+    expect(timeline.entries[2]).toMatchObject({ source: 'emergency_response', responseId: 'resp-1', actor: 'system' });
+  });
+
+  it('falls back to the alert itself for the trigger of alerts without events', () => {
+    const timeline = buildSOSTimeline(alert({ description: 'Driver took a detour' }), [], []);
+
+    expect(timeline.entries).toEqual([expect.objectContaining({
+      eventType: 'triggered', actor: 'rider-1', message: 'Driver took a detour', at: '2026-10-18T08:10:00.000Z'
+    })]);
+  });
+});
+
+describe('triggerSOS', () => {
+  it('stamps attachments from the app as unverified', async () => {
+    await triggerSOS({
+      reporterId: 'rider-1',
+      reporterType: 'passenger',
+      location: { latitude: 14.5547, longitude: 121.0244 },
+      attachments: [{ type: 'emergency_audio', url: 'https://files.example.com/a.m4a', filename: 'a.m4a' }]
+    });
+
+    expect(sosAlertProcessor.processSOS).toHaveBeenCalledWith(expect.objectContaining({
+      reporterId: 'rider-1',
+      attachments: [expect.objectContaining({
+        id: expect.any(String), type: 'emergency_audio', isVerified: false, priority: 5
+      })]
+    }));
+  });
+});
+
+describe('operator actions', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (emergencyResponseAutomation.getResponseForSOS as jest.Mock).mockReturnValue(null);
+  });
+
+  it('refuses to acknowledge an alert twice or once it is closed', async () => {
+    (getSOSAlert as jest.Mock).mockResolvedValue(alert({ status: 'acknowledged' }));
+    await expect(acknowledgeSOS('sos-1', 'ops-1')).rejects.toThrow('sos_already_acknowledged');
+
+    (getSOSAlert as jest.Mock).mockResolvedValue(alert({ status: 'resolved' }));
+    await expect(acknowledgeSOS('sos-1', 'ops-1')).rejects.toThrow('sos_closed');
+    expect(sosAlertProcessor.acknowledgeSOS).not.toHaveBeenCalled();
+  });
+
+  it('opens a coordinated response on the first escalation and raises it afterwards', async () => {
+    const response = { id: 'resp-1', status: 'dispatched', escalationLevel: 0 };
+    (getSOSAlert as jest.Mock).mockResolvedValue(alert());
+    (emergencyResponseAutomation.initiateEmergencyResponse as jest.Mock).mockResolvedValue(response);
+
+    const first = await escalateSOS('sos-1', 'ops-1', 'Reporter not answering');
+
+    expect(sosAlertProcessor.escalateSOS).toHaveBeenCalledWith('sos-1', 'ops-1', 'Reporter not answering');
+    expect(emergencyResponseAutomation.initiateEmergencyResponse).toHaveBeenCalledWith(expect.objectContaining({
+      id: 'sos-1', reporterId: 'rider-1', triggeredAt: new Date('2026-10-18T08:10:00Z')
+    }));
+    expect(emergencyResponseAutomation.escalateResponse).toHaveBeenCalledWith(response, 'Reporter not answering', 'ops-1');
+    expect(first.response).toBe(response);
+
+    (emergencyResponseAutomation.getResponseForSOS as jest.Mock).mockReturnValue(response);
+    await escalateSOS('sos-1', 'ops-2', 'Still no contact');
+
+    expect(emergencyResponseAutomation.initiateEmergencyResponse).toHaveBeenCalledTimes(1);
+    expect(emergencyResponseAutomation.escalateResponse).toHaveBeenLastCalledWith(response, 'Still no contact', 'ops-2');
+  });
+
+  it('keeps the alert escalated when the coordinated response cannot be opened', async () => {
+    (getSOSAlert as jest.Mock).mockResolvedValue(alert());
+    (emergencyResponseAutomation.initiateEmergencyResponse as jest.Mock).mockRejectedValue(new Error('db down'));
+
+    const result = await escalateSOS('sos-1', 'ops-1', 'Reporter not answering');
+
+    expect(sosAlertProcessor.escalateSOS).toHaveBeenCalled();
+    expect(result.response).toBeNull();
+  });
+
+  it('cancels the coordinated response when the alert was a false alarm', async () => {
+    (getSOSAlert as jest.Mock).mockResolvedValue(alert({ status: 'acknowledged' }));
+    (emergencyResponseAutomation.getResponseForSOS as jest.Mock).mockReturnValue({ id: 'resp-1' });
+
+    await resolveSOS('sos-1', 'ops-1', { notes: 'Pocket dial', falseAlarm: true });
+
+    expect(sosAlertProcessor.resolveSOS).toHaveBeenCalledWith('sos-1', 'ops-1', 'Pocket dial', true);
+    expect(emergencyResponseAutomation.completeResponse).toHaveBeenCalledWith('resp-1', {
+      status: 'cancelled', completedBy: 'ops-1', outcome: 'Pocket dial'
+    });
+  });
+});
@@ -0,0 +1,191 @@
+// Unit Tests for the Surge Engine
+// Signals to per-hex multipliers, smoothing, caps and shadow profiles
+
+import { latLngToCell } from 'h3-js';
+
+import {
+  aggregateSignals,
+  computeCellSurge,
+  computeProfileState,
+  runSurgeProfile,
+  smoothTowards,
+  CellSignals,
+  SurgeSignalRow
+} from '../pricing/surgeEngine';
+
+import { getDb } from '@/lib/database';
+import { SurgeProfileDTO } from '@/lib/pricing/surgeSchemas';
+
+jest.mock('@/lib/database', () => ({ getDb: jest.fn() }));
+
+const MAKATI = latLngToCell(14.5547, 121.0244, 8);
+const BGC = latLngToCell(14.5509, 121.0503, 8);
+const NOW = new Date('2026-10-18T10:00:00Z');
+
+const makeProfile = (overrides: Partial<SurgeProfileDTO> = {}): SurgeProfileDTO => ({
+  id: 7,
+  regionId: 'NCR',
+  serviceKey: 'tnvs',
+  name: 'NCR TNVS',
+  status: 'active',
+  modelVersion: 'v1',
+  maxMultiplier: 2,
+  additiveEnabled: false,
+  smoothingHalfLifeSec: 300,
+  updateIntervalSec: 300,
+  notes: null,
+  createdAt: '2026-10-01T00:00:00Z',
+  createdBy: null,
+  updatedAt: '2026-10-01T00:00:00Z',
+  updatedBy: null,
+  ...overrides
+});
+
+const makeCell = (overrides: Partial<CellSignals> = {}): CellSignals => ({
+  h3Index: MAKATI,
+  minutes: 10,
+  requests: 30,
+  searchers: 0,
+  cancels: 0,
+  avgActiveDrivers: 10,
+  avgEtaSec: 300,
+  weatherScore: 0,
+  trafficScore: 0,
+  eventScore: 0,
+  ...overrides
+});
+
+const signal = (minute: number, overrides: Partial<SurgeSignalRow> = {}): SurgeSignalRow => ({
+  h3_index: MAKATI,
+  ts_minute: `2026-10-18T09:5${minute}:00.000Z`,
+  req_count: 3,
+  searchers: 2,
+  active_drivers: 4,
+  avg_eta_sec: 240,
+  cancels: 0,
+  weather_score: null,
+  traffic_score: null,
+  event_score: null,
+  ...overrides
+});
+
+describe('Surge Engine', () => {
+  describe('aggregateSignals', () => {
+    it('sums demand, averages drivers and request-weights ETA per hex', () => {
+      const cells = aggregateSignals([
+        signal(0, { req_count: 1, avg_eta_sec: 600, weather_score: 0.4 }),
+        signal(1, { req_count: 3, avg_eta_sec: 200, active_drivers: 6, event_score: 0.9 }),
+        signal(2, { h3_index: BGC, req_count: 0, avg_eta_sec: null })
+      ]);
+
+      expect(cells.get(MAKATI)).toEqual(expect.objectContaining({
+        minutes: 2,
+        requests: 4,
+        searchers: 4,
+        avgActiveDrivers: 5,
+        avgEtaSec: 300,
+        weatherScore: 0.4,
+        eventScore: 0.9,
+        trafficScore: 0
+      }));
+      expect(cells.get(BGC)!.avgEtaSec).toBeNull();
+    });
+  });
+
+  describe('computeCellSurge', () => {
+    it('raises the multiplier with demand per driver and caps it at maxMultiplier', () => {
+      // 30 requests over 10 drivers: 1 + 0.25 * (3 - 1)
+      expect(computeCellSurge(makeCell(), makeProfile()).multiplier).toBeCloseTo(1.5);
+      expect(computeCellSurge(makeCell({ requests: 200 }), makeProfile()).multiplier).toBe(2);
+      expect(computeCellSurge(makeCell({ requests: 2, avgActiveDrivers: 0 }), makeProfile()).multiplier).toBe(1);
+    });
+
+    it('adds long ETAs and cancellations', () => {
+      const surge = computeCellSurge(makeCell({ requests: 10, cancels: 5, avgEtaSec: 720 }), makeProfile());
+
+      // balanced demand, + 0.2 * 50% cancelled, + 4 minutes over target * 0.05
+      expect(surge.multiplier).toBeCloseTo(1.3);
+    });
+
+    it('turns weather and events into a capped fee when the profile is additive', () => {
+      const stormy = makeCell({ requests: 10, weatherScore: 1, eventScore: 1, trafficScore: 1 });
+
+      expect(computeCellSurge(stormy, makeProfile())).toEqual({ multiplier: 1.75, additiveFee: 0 });
+      expect(computeCellSurge(stormy, makeProfile({ additiveEnabled: true }))).toEqual({
+        multiplier: 1,
+        additiveFee: 100
+      });
+    });
+
+    it('never surges taxi', () => {
+      expect(computeCellSurge(makeCell({ requests: 200 }), makeProfile({ serviceKey: 'taxi' }))).toEqual({
+        multiplier: 1,
+        additiveFee: 0
+      });
+    });
+  });
+
+  describe('computeProfileState', () => {
+    it('covers half the gap to the target per half-life', () => {
+      expect(smoothTowards(1, 2, 300, 300)).toBeCloseTo(1.5);
+      expect(smoothTowards(1, 2, 600, 300)).toBeCloseTo(1.75);
+      expect(smoothTowards(1.8, 1, 0, 300)).toBe(1.8);
+    });
+
+    it('smooths from the previous run and decays hexes that went quiet', () => {
+      const states = computeProfileState(
+        makeProfile(),
+        new Map([[MAKATI, makeCell()]]),
+        new Map([
+          [BGC, { multiplier: 1.6, additiveFee: 0, computedAt: '2026-10-18T09:55:00Z' }],
+          [MAKATI, { multiplier: 1.9, additiveFee: 0, computedAt: '2026-10-18T09:55:00Z' }]
+        ]),
+        NOW
+      );
+
+      expect(states).toEqual(expect.arrayContaining([
+        { h3Index: MAKATI, h3Res: 8, multiplier: 1.7, additiveFee: 0, targetMultiplier: 1.5 },
+        { h3Index: BGC, h3Res: 8, multiplier: 1.3, additiveFee: 0, targetMultiplier: 1 }
+      ]));
+    });
+
+    it('writes a closing row once a hex settles at 1.0 and nothing after', () => {
+      const settling = computeProfileState(
+        makeProfile(),
+        new Map(),
+        new Map([[BGC, { multiplier: 1.01, additiveFee: 0, computedAt: '2026-10-18T09:50:00Z' }]]),
+        NOW
+      );
+      const settled = computeProfileState(
+        makeProfile(),
+        new Map([[BGC, makeCell({ h3Index: BGC, requests: 1 })]]),
+        new Map([[BGC, { multiplier: 1, additiveFee: 0, computedAt: '2026-10-18T09:55:00Z' }]]),
+        NOW
+      );
+
+      expect(settling).toEqual([expect.objectContaining({ h3Index: BGC, multiplier: 1 })]);
+      expect(settled).toEqual([]);
+    });
+  });
+
+  describe('runSurgeProfile', () => {
+    it('ramps a new hex up from 1.0 and stores shadow results under the shadow source', async () => {
+      const db = {
+        all: jest.fn()
+          .mockResolvedValueOnce([signal(0, { req_count: 40 })])
+          .mockResolvedValueOnce([]),
+        run: jest.fn().mockResolvedValue({ lastID: 1, changes: 1 })
+      };
+      (getDb as jest.Mock).mockResolvedValue(db);
+
+      const written = await runSurgeProfile(makeProfile({ status: 'shadow' }), NOW);
+
+      expect(written).toBe(1);
+      expect(db.all.mock.calls[1][1]).toEqual([7, 'shadow', '2026-10-18T09:50:00.000Z']);
+      expect(db.run.mock.calls[0][1]).toEqual([
+        'NCR', 'tnvs', MAKATI, 8, 1.5, 0, 'shadow', 7,
+        '2026-10-18T10:00:00.000Z', '2026-10-18T10:10:00.000Z', '2026-10-18T10:00:00.000Z'
+      ]);
+    });
+  });
+});
@@ -0,0 +1,139 @@
+// Unit Tests for the Surge Resolver
+// Precedence across overrides, schedules and engine state, and candidate loading
+
+import { cellToParent, latLngToCell } from 'h3-js';
+
+import { loadSurgeCandidates, lookupSurge, resolveSurge, SurgeRuleCandidate } from '../pricing/surgeResolver';
+
+import { getDb } from '@/lib/database';
+
+jest.mock('@/lib/database', () => ({ getDb: jest.fn() }));
+
+const ARANETA_HEX = latLngToCell(14.6205, 121.0530, 8);
+const ARANETA_RES7 = cellToParent(ARANETA_HEX, 7);
+const AYALA_HEX = latLngToCell(14.5547, 121.0244, 8);
+const AT = '2026-10-18T10:00:00.000Z';
+
+const makeCandidate = (overrides: Partial<SurgeRuleCandidate> = {}): SurgeRuleCandidate => ({
+  rule: 'profile:1',
+  source: 'ml',
+  ruleId: 1,
+  scope: 'hex',
+  h3Index: ARANETA_HEX,
+  h3Res: 8,
+  multiplier: 1.4,
+  additiveFee: 0,
+  validFrom: '2026-10-18T09:59:00.000Z',
+  validUntil: '2026-10-18T10:01:00.000Z',
+  ...overrides
+});
+
+describe('Surge Resolver', () => {
+  describe('resolveSurge', () => {
+    it('ranks overrides over schedules over engine state and explains every candidate', () => {
+      const result = resolveSurge({ serviceKey: 'tnvs', originH3: ARANETA_HEX }, [
+        makeCandidate(),
+        makeCandidate({ rule: 'schedule:4', source: 'scheduled', ruleId: 4, multiplier: 2 }),
+        makeCandidate({
+          rule: 'override:9', source: 'manual', ruleId: 9, h3Index: ARANETA_RES7, h3Res: 7, multiplier: 1.2
+        })
+      ]);
+
+      expect(result).toMatchObject({ multiplier: 1.2, source: 'manual', ruleId: 9, rule: 'override:9', h3Res: 7 });
+      expect(result.candidates.map(c => [c.rule, c.outcome])).toEqual([
+        ['override:9', 'won'],
+        ['schedule:4', 'outranked'],
+        ['profile:1', 'outranked']
+      ]);
+      expect(result.candidates[1].reason).toBe('outranked by override:9');
+    });
+
+    it('prefers H3-set schedules over region-wide ones, then the finer hex', () => {
+      const result = resolveSurge({ serviceKey: 'tnvs', originH3: ARANETA_HEX }, [
+        makeCandidate({
+          rule: 'schedule:1', source: 'scheduled', ruleId: 1, scope: 'region', h3Index: null, multiplier: 3
+        }),
+        makeCandidate({ rule: 'schedule:2', source: 'scheduled', ruleId: 2, h3Index: ARANETA_RES7, h3Res: 7 }),
+        makeCandidate({ rule: 'schedule:3', source: 'scheduled', ruleId: 3, multiplier: 1.1, additiveFee: 50 })
+      ]);
+
+      expect(result).toMatchObject({ rule: 'schedule:3', multiplier: 1.1, additiveFee: 50 });
+    });
+
+    it('never surges taxi and falls back to the default without candidates', () => {
+      const taxi = resolveSurge({ serviceKey: 'taxi', originH3: ARANETA_HEX }, [makeCandidate()]);
+      expect(taxi).toMatchObject({ multiplier: 1, rule: 'taxi_exclusion' });
+      expect(taxi.candidates[0].outcome).toBe('excluded');
+
+      expect(resolveSurge({ serviceKey: 'tnvs', originH3: AYALA_HEX }, [])).toEqual({
+        multiplier: 1, additiveFee: 0, source: 'ml', h3Res: 8, rule: 'default', candidates: []
+      });
+    });
+  });
+
+  describe('loadSurgeCandidates', () => {
+    it('matches H3 sets against the origin and its parents and region-wide schedules by region', async () => {
+      const db = {
+        all: jest.fn()
+          .mockResolvedValueOnce([
+            {
+              id: 5, region_id: 'NCR', multiplier: 1.8, additive_fee: null, h3_set: JSON.stringify([AYALA_HEX]),
+              starts_at: '2026-10-18T09:00:00Z', ends_at: '2026-10-18T12:00:00Z'
+            }
+          ])
+          .mockResolvedValueOnce([
+            {
+              id: 7, region_id: 'NCR', multiplier: 1.5, additive_fee: 20, h3_set: JSON.stringify([ARANETA_RES7]),
+              starts_at: '2026-10-18T09:00:00Z', ends_at: '2026-10-18T12:00:00Z'
+            },
+            {
+              id: 8, region_id: 'NCR', multiplier: 1.3, additive_fee: null, h3_set: null,
+              starts_at: '2026-10-18T06:00:00Z', ends_at: '2026-10-18T18:00:00Z'
+            }
+          ])
+          .mockResolvedValueOnce([
+            {
+              id: 100, h3_index: ARANETA_HEX, h3_res: 8, multiplier: 1.2, additive_fee: 0, profile_id: 3,
+              valid_from: '2026-10-18T09:58:00Z', valid_until: '2026-10-18T10:02:00Z'
+            },
+            {
+              id: 101, h3_index: ARANETA_HEX, h3_res: 8, multiplier: 1.6, additive_fee: 0, profile_id: 3,
+              valid_from: '2026-10-18T09:59:00Z', valid_until: '2026-10-18T10:03:00Z'
+            }
+          ])
+      };
+      (getDb as jest.Mock).mockResolvedValue(db);
+
+      const candidates = await loadSurgeCandidates({
+        serviceKey: 'tnvs', originH3: ARANETA_HEX, timestamp: AT, regionId: 'NCR'
+      });
+
+      expect(candidates.map(c => [c.rule, c.scope, c.h3Res, c.multiplier])).toEqual([
+        ['schedule:7', 'hex', 7, 1.5],
+        ['schedule:8', 'region', 8, 1.3],
+        ['profile:3', 'hex', 8, 1.6]
+      ]);
+      const [, params] = db.all.mock.calls[2];
+      expect(params).toEqual(['tnvs', ARANETA_HEX, ARANETA_RES7, cellToParent(ARANETA_HEX, 6), AT, AT]);
+    });
+
+    it('leaves region-wide schedules out when the lookup names no region', async () => {
+      const db = {
+        all: jest.fn()
+          .mockResolvedValueOnce([])
+          .mockResolvedValueOnce([
+            {
+              id: 8, region_id: 'NCR', multiplier: 1.3, additive_fee: null, h3_set: null,
+              starts_at: '2026-10-18T06:00:00Z', ends_at: '2026-10-18T18:00:00Z'
+            }
+          ])
+          .mockResolvedValueOnce([])
+      };
+      (getDb as jest.Mock).mockResolvedValue(db);
+
+      const result = await lookupSurge({ serviceKey: 'tnvs', originH3: ARANETA_HEX, timestamp: AT });
+
+      expect(result).toEqual({ multiplier: 1, additiveFee: 0, source: 'ml', h3Res: 8, rule: 'default' });
+    });
+  });
+});
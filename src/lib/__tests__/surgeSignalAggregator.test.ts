@@ -0,0 +1,154 @@
+// Unit Tests for the Surge Signal Aggregator
+// Bucketing by hex and minute, event scores and historical backfill
+
+import { latLngToCell } from 'h3-js';
+
+import {
+  addDriverLocations,
+  addSignal,
+  backfillSurgeSignals,
+  scoreEvents,
+  toSignalRows,
+  SignalBucket
+} from '../pricing/surgeSignalAggregator';
+
+import { getDb } from '@/lib/database';
+import { query } from '@/lib/db';
+import { eventIngestionService, PricingEventWindow } from '@/lib/pricing/event-ingestion';
+
+jest.mock('@/lib/database', () => ({ getDb: jest.fn() }));
+jest.mock('@/lib/db', () => ({ query: jest.fn() }));
+jest.mock('@/lib/pricing/event-ingestion', () => ({
+  eventIngestionService: { getActiveEvents: jest.fn() }
+}));
+
+const AYALA = { latitude: 14.5547, longitude: 121.0244 };
+const ARANETA = { latitude: 14.6205, longitude: 121.0530 };
+const AYALA_HEX = latLngToCell(AYALA.latitude, AYALA.longitude, 8);
+const ARANETA_HEX = latLngToCell(ARANETA.latitude, ARANETA.longitude, 8);
+const T0 = new Date('2026-10-18T10:00:00Z').getTime();
+
+const makeEvent = (overrides: Partial<PricingEventWindow> = {}): PricingEventWindow => ({
+  id: 1,
+  eventType: 'concert',
+  severity: 'high',
+  coordinates: [ARANETA.latitude, ARANETA.longitude],
+  radiusKm: 2,
+  startsAt: '2026-10-18T09:00:00.000Z',
+  endsAt: '2026-10-18T12:00:00.000Z',
+  ...overrides
+});
+
+// Stands in for PostgreSQL: refuses SQLite placeholders and functions, and every $n must have a param
+const postgresQuery = (results: unknown[][]) => async (sql: string, params: unknown[] = []) => {
+  expect(sql).not.toMatch(/\?|datetime\(/);
+  const placeholders = new Set(Array.from(sql.matchAll(/\$(\d+)/g), match => Number(match[1])));
+  expect(Array.from(placeholders).sort((x, y) => x - y)).toEqual(params.map((_, i) => i + 1));
+  return { rows: results.shift() ?? [] };
+};
+
+describe('Surge Signal Aggregator', () => {
+  describe('bucketing', () => {
+    it('counts requests, searches, cancels and distinct available drivers per hex and minute', () => {
+      const buckets = new Map<string, SignalBucket>();
+      addSignal(buckets, 'request', { regionId: 'NCR', ...AYALA, timestamp: T0 + 5_000, etaSec: 300 });
+      addSignal(buckets, 'request', { regionId: 'NCR', ...AYALA, timestamp: T0 + 40_000, etaSec: 600 });
+      addSignal(buckets, 'search', { regionId: 'NCR', ...AYALA, timestamp: T0 + 50_000 });
+      addSignal(buckets, 'cancel', { regionId: 'NCR', ...AYALA, timestamp: T0 + 70_000 });
+      addDriverLocations(buckets, [
+        { driverId: 'd1', ...AYALA, status: 'active', isAvailable: true, timestamp: T0 + 1_000, regionId: 'NCR' },
+        { driverId: 'd1', ...AYALA, status: 'active', isAvailable: true, timestamp: T0 + 31_000, regionId: 'NCR' },
+        { driverId: 'd2', ...AYALA, status: 'busy', isAvailable: false, timestamp: T0 + 2_000, regionId: 'NCR' }
+      ]);
+
+      const rows = toSignalRows(buckets.values(), new Map());
+
+      expect(rows).toEqual([
+        {
+          regionId: 'NCR',
+          h3Index: AYALA_HEX,
+          tsMinute: '2026-10-18T10:00:00.000Z',
+          reqCount: 2,
+          searchers: 1,
+          activeDrivers: 1,
+          avgEtaSec: 450,
+          cancels: 0,
+          weatherScore: null,
+          trafficScore: null,
+          eventScore: null
+        },
+        expect.objectContaining({ tsMinute: '2026-10-18T10:01:00.000Z', reqCount: 0, cancels: 1, avgEtaSec: null })
+      ]);
+    });
+  });
+
+  describe('scoreEvents', () => {
+    it('applies events only within their radius and running time', () => {
+      const events = [
+        makeEvent(),
+        makeEvent({ id: 2, eventType: 'weather', severity: 'medium', coordinates: null, radiusKm: null }),
+        makeEvent({ id: 3, eventType: 'traffic_incident', startsAt: '2026-10-18T11:00:00.000Z' })
+      ];
+
+      expect(scoreEvents(events, ARANETA_HEX, T0)).toEqual({ weatherScore: 0.5, trafficScore: null, eventScore: 0.75 });
+      expect(scoreEvents(events, AYALA_HEX, T0)).toEqual({ weatherScore: 0.5, trafficScore: null, eventScore: null });
+      expect(scoreEvents(events, ARANETA_HEX, new Date('2026-10-18T11:30:00Z').getTime()).trafficScore).toBe(0.75);
+    });
+  });
+
+  describe('backfillSurgeSignals', () => {
+    it('rebuilds requests and cancellations from bookings and skips scheduled rides', async () => {
+      (query as jest.Mock).mockImplementation(postgresQuery([
+        [
+          {
+            created_at: '2026-10-18T10:00:10Z',
+            estimated_pickup_time: '2026-10-18T10:08:10Z',
+            cancelled_at: '2026-10-18T10:02:30Z',
+            pickup_latitude: ARANETA.latitude,
+            pickup_longitude: ARANETA.longitude,
+            scheduled: false
+          },
+          {
+            created_at: '2026-10-18T10:00:20Z',
+            estimated_pickup_time: null,
+            cancelled_at: null,
+            pickup_latitude: ARANETA.latitude,
+            pickup_longitude: ARANETA.longitude,
+            scheduled: true
+          }
+        ],
+        [
+          {
+            driver_id: 'd1', latitude: ARANETA.latitude, longitude: ARANETA.longitude,
+            driver_status: 'active', is_available: true, recorded_at: '2026-10-18T10:00:30Z'
+          }
+        ]
+      ]));
+      const db = { run: jest.fn().mockResolvedValue({ lastID: 0, changes: 2 }) };
+      (getDb as jest.Mock).mockResolvedValue(db);
+      (eventIngestionService.getActiveEvents as jest.Mock).mockResolvedValue([makeEvent()]);
+
+      const result = await backfillSurgeSignals('NCR', '2026-10-18T10:00:00Z', '2026-10-18T11:00:00Z');
+
+      expect(result.rows).toBe(2);
+      expect(query).toHaveBeenCalledTimes(2);
+      expect(eventIngestionService.getActiveEvents).toHaveBeenCalledWith(
+        'NCR', '2026-10-18T10:00:00.000Z', '2026-10-18T10:03:00.000Z'
+      );
+      const [sql, params] = db.run.mock.calls[0];
+      expect(sql).toContain('ON CONFLICT (h3_index, ts_minute) DO UPDATE');
+      expect(sql).not.toContain('searchers = ');
+      expect(params).toEqual([
+        'NCR', ARANETA_HEX, '2026-10-18T10:00:00.000Z', 1, 0, 1, 480, 0, null, null, 0.75,
+        'NCR', ARANETA_HEX, '2026-10-18T10:02:00.000Z', 0, 0, 0, null, 1, null, null, 0.75
+      ]);
+    });
+
+    it('rejects windows that are reversed or too long', async () => {
+      await expect(backfillSurgeSignals('NCR', '2026-10-18T11:00:00Z', '2026-10-18T10:00:00Z'))
+        .rejects.toThrow('invalid_backfill_window');
+      await expect(backfillSurgeSignals('NCR', '2026-10-01T00:00:00Z', '2026-10-18T00:00:00Z'))
+        .rejects.toThrow('invalid_backfill_window');
+    });
+  });
+});
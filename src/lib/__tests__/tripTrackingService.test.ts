@@ -0,0 +1,152 @@
+import {
+  getTripBooking,
+  insertSegments,
+  listLastSegments,
+  listSegments,
+  listTripBookingsForDrivers,
+  TripBooking
+} from '@/lib/repos/tripTrackingRepo';
+import { buildSegments, getTripReplay, recordBreadcrumbs } from '@/lib/services/tripTrackingService';
+import { decodePolyline, encodePolyline } from '@/lib/tracking/polyline';
+import { BreadcrumbPoint } from '@/types/tripTracking';
+
+jest.mock('@/lib/db', () => ({ query: jest.fn() }));
+jest.mock('@/lib/repos/tripTrackingRepo');
+
+const T0 = new Date('2026-10-18T08:00:00Z').getTime();
+
+const booking = (overrides: Partial<TripBooking> = {}): TripBooking => ({
+  bookingId: 'booking-1',
+  driverId: 'driver-1',
+  status: 'in_progress',
+  windowStart: '2026-10-18T07:55:00Z',
+  pickedUpAt: '2026-10-18T08:01:00Z',
+  endedAt: null,
+  ...overrides
+});
+
+// Heading north along Ayala Ave, roughly 111 m between points
+const point = (seconds: number, step: number, speedKmh: number | null = 30): BreadcrumbPoint => ({
+  latitude: 14.55 + step * 0.001,
+  longitude: 121.02,
+  timestamp: T0 + seconds * 1000,
+  speedKmh
+});
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  (insertSegments as jest.Mock).mockImplementation(async segments => segments.length);
+  (listLastSegments as jest.Mock).mockResolvedValue([]);
+});
+
+describe('polyline', () => {
+  it('matches the reference encoding and decodes back', () => {
+    const points = [
+      { latitude: 38.5, longitude: -120.2 },
+      { latitude: 40.7, longitude: -120.95 },
+      { latitude: 43.252, longitude: -126.453 }
+    ];
+
+    expect(encodePolyline(points)).toBe('_p~iF~ps|U_ulLnnqC_mqNvxq`@');
+    expect(decodePolyline('_p~iF~ps|U_ulLnnqC_mqNvxq`@')).toEqual(points);
+  });
+});
+
+describe('buildSegments', () => {
+  it('splits at minute and pickup boundaries and counts no distance across the pickup', () => {
+    const segments = buildSegments(booking(), [
+      point(50, 0),
+      point(55, 1),
+      point(60, 2),    // pickup at 08:01:00
+      point(65, 3),
+      point(125, 4),   // next minute
+      point(65, 3)     // duplicate
+    ], null, new Date(T0));
+
+    expect(segments.map(segment => [segment.phase, segment.minuteStart, segment.pointCount])).toEqual([
+      ['to_pickup', '2026-10-18T08:00:00.000Z', 2],
+      ['on_trip', '2026-10-18T08:01:00.000Z', 2],
+      ['on_trip', '2026-10-18T08:02:00.000Z', 1]
+    ]);
+    expect(segments[0].distanceM).toBeCloseTo(111.2, 0);
+    expect(segments[1].distanceM).toBeCloseTo(111.2, 0);
+    expect(segments[1].timeOffsetsMs).toEqual([0, 5000]);
+    expect(segments[2].distanceM).toBeCloseTo(111.2, 0);
+  });
+
+  it('carries distance on from the last stored point and ignores points outside the booking', () => {
+    const segments = buildSegments(
+      booking({ endedAt: '2026-10-18T08:03:00Z' }),
+      [point(170, 3), point(200, 4)],
+      { point: point(160, 2), phase: 'on_trip' }
+    );
+
+    expect(segments).toHaveLength(1);
+    expect(segments[0].pointCount).toBe(1);
+    expect(segments[0].distanceM).toBeCloseTo(111.2, 0);
+  });
+
+  it('uses the map-matched road distance where the point has one', () => {
+    const segments = buildSegments(booking(), [
+      point(70, 0),
+      { ...point(75, 1), distanceFromPreviousM: 180 }
+    ], null);
+
+    expect(segments[0].distanceM).toBe(180);
+  });
+});
+
+describe('recordBreadcrumbs', () => {
+  it('stores points only for drivers on a booking, once per pooled booking', async () => {
+    (listTripBookingsForDrivers as jest.Mock).mockResolvedValue([
+      booking(),
+      booking({ bookingId: 'booking-2', pickedUpAt: null })
+    ]);
+
+    const written = await recordBreadcrumbs(new Map([
+      ['driver-1', [point(70, 0), point(75, 1)]],
+      ['driver-2', [point(70, 0)]]
+    ]), new Date(T0 + 120_000));
+
+    expect(written).toBe(2);
+    expect(insertSegments).toHaveBeenCalledWith([
+      expect.objectContaining({ bookingId: 'booking-1', phase: 'on_trip', pointCount: 2 }),
+      expect.objectContaining({ bookingId: 'booking-2', phase: 'to_pickup', pointCount: 2 })
+    ]);
+  });
+});
+
+describe('getTripReplay', () => {
+  it('returns the full path with timestamps, speeds, trip distance and gaps', async () => {
+    (getTripBooking as jest.Mock).mockResolvedValue(booking());
+    const segments = buildSegments(booking(), [
+      point(50, 0, null), point(55, 1), point(60, 2, 25), point(125, 3, 40)
+    ], null);
+    (listSegments as jest.Mock).mockResolvedValue(segments.map((segment, index) => ({
+      ...segment, id: `segment-${index}`
+    })));
+
+    const replay = await getTripReplay('booking-1');
+
+    expect(replay.points.map(entry => [entry.timestamp, entry.speedKmh, entry.phase])).toEqual([
+      ['2026-10-18T08:00:50.000Z', null, 'to_pickup'],
+      ['2026-10-18T08:00:55.000Z', 30, 'to_pickup'],
+      ['2026-10-18T08:01:00.000Z', 25, 'on_trip'],
+      ['2026-10-18T08:02:05.000Z', 40, 'on_trip']
+    ]);
+    expect(replay.points[3]).toEqual(expect.objectContaining({ latitude: 14.553, longitude: 121.02 }));
+    expect(replay.summary.toPickupDistanceKm).toBeCloseTo(0.111, 3);
+    expect(replay.summary.tripDistanceKm).toBeCloseTo(0.111, 3);
+    expect(replay.summary.maxSpeedKmh).toBe(40);
+    expect(replay.gaps).toEqual([
+      { from: '2026-10-18T08:01:00.000Z', to: '2026-10-18T08:02:05.000Z', seconds: 65 }
+    ]);
+    expect(decodePolyline(replay.polyline)).toHaveLength(4);
+  });
+
+  it('reports an unknown ride', async () => {
+    (getTripBooking as jest.Mock).mockResolvedValue(null);
+
+    await expect(getTripReplay('missing')).rejects.toThrow('ride_not_found');
+  });
+});
@@ -368,6 +368,44 @@ export const billingApi = {
       action: 'send' | 'mark_paid' | 'void' | 'send_reminder';
       metadata?: any;
     }) => apiClient.post('/billing/invoices/bulk', action),
+
+    // Issue a credit note against an invoice
+    issueCreditNote: (id: string, creditNote: { amount: number; reason: string }) =>
+      apiClient.post(`/billing/invoices/${id}/credit-notes`, creditNote),
+
+    // Mark overdue invoices and assess late fees as of a date (defaults to today)
+    assessLateFees: (asOf?: string) => apiClient.post('/billing/invoices/late-fees', { asOf }),
+
+    // Stored invoice and official receipt PDFs; each entry carries its downloadUrl
+    getDocuments: (id: string) => apiClient.get(`/billing/invoices/${id}/documents`),
+
+    // URL of the invoice PDF (rendered with a DRAFT watermark while the invoice is a draft)
+    pdfUrl: (id: string, download = false) =>
+      `/api/billing/invoices/${id}/pdf${download ? '?download=true' : ''}`,
+  },
+
+  // Billing runs
+  runs: {
+    // Invoice corporate accounts for a billing period; re-running a period is a no-op
+    create: (run: {
+      periodStart: string;
+      periodEnd: string;
+      issueDate?: string;
+      accountIds?: string[];
+      frequency?: 'weekly' | 'monthly' | 'quarterly';
+    }) => apiClient.post('/billing/runs', run),
+  },
+
+  // Dunning
+  dunning: {
+    // Run overdue marking, late fees, reminders and suspensions now; re-running a date is a no-op
+    run: (asOf?: string) => apiClient.post('/billing/dunning/runs', asOf ? { asOf } : {}),
+
+    // Exempt an account from automatic suspension until a date (account managers only)
+    setOverride: (accountId: string, override: { until: string; reason: string }) =>
+      apiClient.put(`/billing/accounts/${accountId}/dunning-override`, override),
+
+    clearOverride: (accountId: string) => apiClient.delete(`/billing/accounts/${accountId}/dunning-override`),
   },
 
   // Corporate Accounts
@@ -77,6 +77,21 @@ export const WORKFLOW_DEFINITIONS: Record<string, WorkflowDefinition> = {
     dual_approval_required: true,
     mfa_required_for_approval: true
   },
+
+  'approve_bond_refund': {
+    action: 'approve_bond_refund',
+    display_name: 'Approve Bond Refund',
+    description: 'Return a driver\'s held bond to their payable balance',
+    required_roles: ['regional_manager', 'executive'],
+    required_permissions: ['approve_requests'],
+    required_level: 40,
+    auto_grant_permissions: ['view_financial_reports'],
+    default_ttl_seconds: 3600, // 1 hour
+    max_ttl_seconds: 7200, // 2 hours
+    sensitivity_level: 'high',
+    dual_approval_required: false,
+    mfa_required_for_approval: true
+  },
   
   // User Management Workflows
   'manage_users': {
@@ -321,6 +336,16 @@ export function validateApprovalRequest(
           errors.push('amount must be a positive number for payout batch approval');
         }
         break;
+
+      case 'approve_bond_refund':
+        if (!requestBody.requested_action.bond_id) {
+          errors.push('bond_id is required for bond refund approval');
+        }
+        if (typeof requestBody.requested_action.amount !== 'number' ||
+            requestBody.requested_action.amount <= 0) {
+          errors.push('amount must be a positive number for bond refund approval');
+        }
+        break;
         
       case 'cross_region_override':
         if (!requestBody.requested_action.source_region || !requestBody.requested_action.target_region) {
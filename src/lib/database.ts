@@ -299,6 +299,37 @@ export const getDatabaseAdapter = (): DatabaseAdapter => {
   return getDatabase();
 };
 
+// SQLite-style accessor used by the pricing, surge and zones modules
+export interface RunResult {
+  lastID: number;
+  changes: number;
+}
+
+export interface SqliteStyleDatabase {
+  get<T = Record<string, unknown>>(sql: string, params?: unknown[]): Promise<T | undefined>;
+  all<T = Record<string, unknown>>(sql: string, params?: unknown[]): Promise<T[]>;
+  run(sql: string, params?: unknown[]): Promise<RunResult>;
+}
+
+export const getDb = async (): Promise<SqliteStyleDatabase> => {
+  const adapter = getDatabase();
+
+  return {
+    async get<T = Record<string, unknown>>(sql: string, params: unknown[] = []) {
+      const result = await adapter.query(sql, params);
+      return result.rows[0] as T | undefined;
+    },
+    async all<T = Record<string, unknown>>(sql: string, params: unknown[] = []) {
+      const result = await adapter.query(sql, params);
+      return result.rows as T[];
+    },
+    async run(sql: string, params: unknown[] = []) {
+      const result = await adapter.query(sql, params);
+      return { lastID: result.oid, changes: result.rowCount || 0 };
+    }
+  };
+};
+
 // Legacy method for backward compatibility
 export const getLegacyDatabase = (): DatabasePool | MockDatabasePool => {
   if (!legacyDbInstance) {
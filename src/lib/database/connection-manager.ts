@@ -479,7 +479,7 @@ export class SQLiteAdapter implements DatabaseAdapter {
               rows: [],
               rowCount: this.changes,
               command: sql.trim().toUpperCase().split(' ')[0] as string,
-              oid: 0,
+              oid: this.lastID, // rowid of the last inserted row, read by getDb().run()
               fields: []
             });
           }
@@ -1,4 +1,4 @@
-import { getDatabase } from './database/connection-manager';
+import { getDatabase, TransactionContext } from './database/connection-manager';
 
 // Get database adapter (SQLite or PostgreSQL based on environment)  
 let db: any = null;
@@ -18,14 +18,16 @@ export async function query<T = any>(sql: string, params?: any[]): Promise<{ row
   return { rows: result.rows as T[] };
 }
 
+// Query function bound to an open transaction, for repos called from inside one
+export function transactionQuery(tx: Pick<TransactionContext, 'query'>): typeof query {
+  return async <R>(sql: string, params?: unknown[]): Promise<{ rows: R[] }> => {
+    const result = await tx.query(sql, params);
+    return { rows: result.rows as R[] };
+  };
+}
+
 // Helper for transactions
 export async function transaction<T>(fn: (query: typeof query) => Promise<T>): Promise<T> {
   const database = await getDB();
-  return database.transaction(async (tx) => {
-    const txQuery = async <R = any>(sql: string, params?: any[]): Promise<{ rows: R[] }> => {
-      const result = await tx.query(sql, params);
-      return { rows: result.rows as R[] };
-    };
-    return fn(txQuery);
-  });
+  return database.transaction(async (tx: TransactionContext) => fn(transactionQuery(tx)));
 }
\ No newline at end of file
@@ -0,0 +1,416 @@
+// Layouts for BIR-compliant billing documents: the service invoice issued when an invoice is
+// sent and the official receipt issued for each payment. Both carry the seller's registered
+// name, address and VAT REG TIN, the buyer's TIN, the document serial number and the VAT breakdown.
+
+import { format, parseISO } from 'date-fns';
+
+import { PdfDocument, PdfFont, PdfColor, wrapText } from '@/lib/documents/pdfWriter';
+import { SellerProfile, formatTin } from '@/lib/documents/sellerProfile';
+import { BillingAddress, CorporateAccount, Invoice, InvoiceLineItem, PaymentHistory } from '@/types/billing';
+
+export type DocumentBuyer = Pick<CorporateAccount, 'companyName' | 'taxId' | 'billingAddress' | 'accountNumber'>;
+
+export interface InvoiceDocumentInput {
+  invoice: Invoice;
+  buyer: DocumentBuyer;
+  seller: SellerProfile;
+  draft?: boolean;
+  generatedAt?: Date;
+}
+
+export interface ReceiptDocumentInput {
+  receiptNumber: string;
+  payment: PaymentHistory;
+  invoice: Invoice;
+  buyer: DocumentBuyer;
+  seller: SellerProfile;
+  generatedAt?: Date;
+}
+
+export interface VatBreakdown {
+  vatableSales: number;
+  vatExemptSales: number;
+  zeroRatedSales: number;
+  vatAmount: number;
+  totalAmount: number;
+}
+
+const LEFT = 40;
+const RIGHT = 555;
+const CONTENT_BOTTOM = 740;
+const FOOTER_Y = 800;
+const GRAY: PdfColor = [0.4, 0.4, 0.4];
+const RULE: PdfColor = [0.75, 0.75, 0.75];
+const HEADER_FILL: PdfColor = [0.92, 0.92, 0.92];
+const WATERMARK: PdfColor = [0.88, 0.88, 0.88];
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+export function formatAmount(value: number): string {
+  const [whole, cents] = Math.abs(value).toFixed(2).split('.');
+  const grouped = whole.replace(/\B(?=(\d{3})+(?!\d))/g, ',');
+  return `${value < 0 ? '-' : ''}${grouped}.${cents}`;
+}
+
+const formatDate = (date: string) => format(parseISO(date), 'MMMM d, yyyy');
+
+export const formatAddress = (address: BillingAddress) =>
+  [address.street, address.barangay, address.city, address.province, address.postalCode, address.country]
+    .filter(Boolean)
+    .join(', ');
+
+const ONES = [
+  '', 'One', 'Two', 'Three', 'Four', 'Five', 'Six', 'Seven', 'Eight', 'Nine', 'Ten',
+  'Eleven', 'Twelve', 'Thirteen', 'Fourteen', 'Fifteen', 'Sixteen', 'Seventeen', 'Eighteen', 'Nineteen'
+];
+const TENS = ['', '', 'Twenty', 'Thirty', 'Forty', 'Fifty', 'Sixty', 'Seventy', 'Eighty', 'Ninety'];
+const SCALES = ['', 'Thousand', 'Million', 'Billion'];
+
+function hundredsInWords(n: number): string {
+  const words: string[] = [];
+  if (n >= 100) {
+    words.push(`${ONES[Math.floor(n / 100)]} Hundred`);
+    n %= 100;
+  }
+  if (n >= 20) {
+    words.push(n % 10 ? `${TENS[Math.floor(n / 10)]}-${ONES[n % 10]}` : TENS[Math.floor(n / 10)]);
+  } else if (n > 0) {
+    words.push(ONES[n]);
+  }
+  return words.join(' ');
+}
+
+/** Amount in words as written on Philippine receipts, e.g. "One Thousand Pesos and 50/100". */
+export function amountInWords(amount: number): string {
+  const centavos = Math.round(amount * 100) % 100;
+  let pesos = Math.floor(Math.round(amount * 100) / 100);
+  if (pesos === 0) {
+    return `Zero Pesos and ${String(centavos).padStart(2, '0')}/100`;
+  }
+
+  const groups: string[] = [];
+  for (let scale = 0; pesos > 0 && scale < SCALES.length; scale++) {
+    const chunk = pesos % 1000;
+    if (chunk) {
+      groups.unshift([hundredsInWords(chunk), SCALES[scale]].filter(Boolean).join(' '));
+    }
+    pesos = Math.floor(pesos / 1000);
+  }
+  const unit = amount >= 1 && amount < 2 ? 'Peso' : 'Pesos';
+  return `${groups.join(' ')} ${unit} and ${String(centavos).padStart(2, '0')}/100`;
+}
+
+/**
+ * Splits the invoice into the BIR sales buckets. Lines carry their VAT rate; zero-rated
+ * lines are flagged with metadata.vatTreatment = 'zero_rated', other 0% lines are exempt.
+ * Discount lines are negative, so each bucket is already net of discounts.
+ */
+export function buildVatBreakdown(invoice: Pick<Invoice, 'lineItems' | 'taxAmount' | 'totalAmount'>): VatBreakdown {
+  const bucket = (predicate: (line: InvoiceLineItem) => boolean) =>
+    round2(invoice.lineItems.filter(predicate).reduce((sum, line) => sum + line.amount, 0));
+  const zeroRated = (line: InvoiceLineItem) => line.metadata?.vatTreatment === 'zero_rated';
+
+  return {
+    vatableSales: bucket(line => line.taxRate > 0),
+    vatExemptSales: bucket(line => line.taxRate === 0 && !zeroRated(line)),
+    zeroRatedSales: bucket(line => line.taxRate === 0 && zeroRated(line)),
+    vatAmount: invoice.taxAmount,
+    totalAmount: invoice.totalAmount
+  };
+}
+
+/** The share of each bucket covered by a partial payment, for the official receipt. */
+export function prorateVatBreakdown(breakdown: VatBreakdown, amount: number): VatBreakdown {
+  if (breakdown.totalAmount <= 0) {
+    return { vatableSales: 0, vatExemptSales: 0, zeroRatedSales: 0, vatAmount: 0, totalAmount: amount };
+  }
+  const ratio = amount / breakdown.totalAmount;
+  const vatAmount = round2(breakdown.vatAmount * ratio);
+  const vatExemptSales = round2(breakdown.vatExemptSales * ratio);
+  const zeroRatedSales = round2(breakdown.zeroRatedSales * ratio);
+  return {
+    // The vatable bucket absorbs rounding so the buckets always add up to the amount received
+    vatableSales: round2(amount - vatAmount - vatExemptSales - zeroRatedSales),
+    vatExemptSales,
+    zeroRatedSales,
+    vatAmount,
+    totalAmount: amount
+  };
+}
+
+// ============================================================================
+// SHARED LAYOUT
+// ============================================================================
+
+interface Stamp {
+  text: string;
+  size: number;
+}
+
+function stampsFor(seller: SellerProfile, draft: boolean): Stamp[] {
+  const stamps: Stamp[] = [];
+  if (draft) {
+    stamps.push({ text: 'DRAFT', size: 96 });
+  }
+  if (seller.specimen) {
+    stamps.push({ text: 'SPECIMEN - NOT VALID FOR TAX PURPOSES', size: 30 });
+  }
+  return stamps;
+}
+
+function drawStamps(doc: PdfDocument, stamps: Stamp[]): void {
+  stamps.forEach((stamp, i) => {
+    doc.text(doc.width / 2, 460 + i * 90, stamp.text, {
+      size: stamp.size,
+      font: 'bold',
+      align: 'center',
+      color: WATERMARK,
+      rotate: 35
+    });
+  });
+}
+
+/** Seller block on the left, document title and serial number on the right. Returns the next y. */
+function drawSellerHeader(
+  doc: PdfDocument,
+  seller: SellerProfile,
+  title: string,
+  number: string,
+  date: string
+): number {
+  doc.text(RIGHT, 52, title, { size: 16, font: 'bold', align: 'right' });
+  doc.text(RIGHT, 70, `No. ${number}`, { size: 11, font: 'bold', align: 'right' });
+  doc.text(RIGHT, 84, `Date: ${formatDate(date)}`, { size: 9, align: 'right' });
+
+  let y = 52;
+  for (const line of wrapText(seller.registeredName, 300, 13, 'bold')) {
+    doc.text(LEFT, y, line, { size: 13, font: 'bold' });
+    y += 15;
+  }
+  if (seller.businessStyle) {
+    doc.text(LEFT, y, seller.businessStyle, { size: 9 });
+    y += 12;
+  }
+  for (const line of wrapText(seller.address, 300, 9)) {
+    doc.text(LEFT, y, line, { size: 9 });
+    y += 12;
+  }
+  doc.text(LEFT, y, `${seller.vatRegistered ? 'VAT REG TIN' : 'NON-VAT REG TIN'}: ${formatTin(seller.tin)}`, {
+    size: 9,
+    font: 'bold'
+  });
+
+  y = Math.max(y + 14, 100);
+  doc.line(LEFT, y, RIGHT, y, 1);
+  return y + 18;
+}
+
+/** Buyer block, as BIR requires it on both documents. Returns the next y. */
+function drawBuyer(doc: PdfDocument, label: string, buyer: DocumentBuyer, y: number): number {
+  doc.text(LEFT, y, label, { size: 8, color: GRAY });
+  y += 14;
+  doc.text(LEFT, y, buyer.companyName, { size: 11, font: 'bold' });
+  y += 14;
+  doc.text(LEFT, y, `TIN: ${buyer.taxId ? formatTin(buyer.taxId) : 'Not provided'}`, { size: 9 });
+  y += 12;
+  for (const line of wrapText(`Address: ${formatAddress(buyer.billingAddress)}`, 300, 9)) {
+    doc.text(LEFT, y, line, { size: 9 });
+    y += 12;
+  }
+  if (buyer.accountNumber) {
+    doc.text(LEFT, y, `Account No.: ${buyer.accountNumber}`, { size: 9 });
+    y += 12;
+  }
+  return y;
+}
+
+function drawAmountRows(
+  doc: PdfDocument,
+  rows: { label: string; amount: number; font?: PdfFont; rule?: boolean }[],
+  y: number,
+  labelX = 360
+): number {
+  for (const row of rows) {
+    if (row.rule) {
+      doc.line(labelX, y - 9, RIGHT, y - 9, 0.75);
+      y += 4;
+    }
+    doc.text(labelX, y, row.label, { size: 9, font: row.font });
+    doc.text(RIGHT, y, formatAmount(row.amount), { size: 9, font: row.font, align: 'right' });
+    y += 14;
+  }
+  return y;
+}
+
+function vatRows(breakdown: VatBreakdown, totalLabel: string) {
+  return [
+    { label: 'VATable Sales', amount: breakdown.vatableSales },
+    { label: 'VAT-Exempt Sales', amount: breakdown.vatExemptSales },
+    { label: 'Zero-Rated Sales', amount: breakdown.zeroRatedSales },
+    { label: 'VAT Amount (12%)', amount: breakdown.vatAmount },
+    { label: totalLabel, amount: breakdown.totalAmount, font: 'bold' as const, rule: true }
+  ];
+}
+
+/** Permit details and page numbers on every page, once the page count is known. */
+function drawFooters(doc: PdfDocument, seller: SellerProfile, number: string): void {
+  const permit = [
+    seller.acknowledgmentCertificate && `Acknowledgment Certificate No.: ${seller.acknowledgmentCertificate}`,
+    seller.permitNumber && `Permit No.: ${seller.permitNumber}`,
+    seller.permitDateIssued && `Date Issued: ${seller.permitDateIssued}`
+  ].filter(Boolean).join('   ');
+
+  for (let page = 0; page < doc.pageCount; page++) {
+    doc.setPage(page);
+    doc.line(LEFT, FOOTER_Y - 12, RIGHT, FOOTER_Y - 12, 0.5, RULE);
+    if (permit) {
+      doc.text(LEFT, FOOTER_Y, permit, { size: 7, color: GRAY });
+    }
+    doc.text(RIGHT, FOOTER_Y, `${number}  -  Page ${page + 1} of ${doc.pageCount}`, {
+      size: 7,
+      color: GRAY,
+      align: 'right'
+    });
+  }
+}
+
+// ============================================================================
+// INVOICE
+// ============================================================================
+
+const COLUMNS = { description: LEFT + 6, quantity: 390, unitPrice: 470, amount: RIGHT - 6 };
+const DESCRIPTION_WIDTH = 290;
+
+function drawLineItemHeader(doc: PdfDocument, y: number): number {
+  doc.rect(LEFT, y, RIGHT - LEFT, 18, { fill: HEADER_FILL });
+  doc.text(COLUMNS.description, y + 12, 'Description', { size: 8, font: 'bold' });
+  doc.text(COLUMNS.quantity, y + 12, 'Qty', { size: 8, font: 'bold', align: 'right' });
+  doc.text(COLUMNS.unitPrice, y + 12, 'Unit Price', { size: 8, font: 'bold', align: 'right' });
+  doc.text(COLUMNS.amount, y + 12, 'Amount', { size: 8, font: 'bold', align: 'right' });
+  return y + 30;
+}
+
+export function renderInvoicePdf(input: InvoiceDocumentInput): Uint8Array {
+  const { invoice, buyer, seller } = input;
+  const stamps = stampsFor(seller, input.draft ?? invoice.status === 'draft');
+  const doc = new PdfDocument({
+    title: `Service Invoice ${invoice.invoiceNumber}`,
+    author: seller.registeredName,
+    creationDate: input.generatedAt
+  });
+
+  const newPage = () => {
+    doc.addPage();
+    drawStamps(doc, stamps);
+    doc.text(LEFT, 52, `${seller.registeredName} - Service Invoice No. ${invoice.invoiceNumber} (continued)`, {
+      size: 9,
+      font: 'bold'
+    });
+    doc.line(LEFT, 62, RIGHT, 62, 1);
+    return drawLineItemHeader(doc, 76);
+  };
+
+  drawStamps(doc, stamps);
+  let y = drawSellerHeader(doc, seller, 'SERVICE INVOICE', invoice.invoiceNumber, invoice.issueDate);
+  const buyerTop = y;
+  y = drawBuyer(doc, 'BILLED TO', buyer, y);
+
+  let infoY = buyerTop + 14;
+  for (const [label, value] of [
+    ['Due Date', formatDate(invoice.dueDate)],
+    ['Billing Period', `${formatDate(invoice.billingPeriodStart)} - ${formatDate(invoice.billingPeriodEnd)}`]
+  ]) {
+    doc.text(RIGHT, infoY, `${label}: ${value}`, { size: 9, align: 'right' });
+    infoY += 12;
+  }
+
+  y = drawLineItemHeader(doc, Math.max(y, infoY) + 12);
+  for (const item of invoice.lineItems) {
+    const lines = wrapText(item.description, DESCRIPTION_WIDTH, 9);
+    if (y + lines.length * 12 > CONTENT_BOTTOM) {
+      y = newPage();
+    }
+    doc.text(COLUMNS.quantity, y, String(item.quantity), { size: 9, align: 'right' });
+    doc.text(COLUMNS.unitPrice, y, formatAmount(item.unitPrice), { size: 9, align: 'right' });
+    doc.text(COLUMNS.amount, y, formatAmount(item.amount), { size: 9, align: 'right' });
+    for (const line of lines) {
+      doc.text(COLUMNS.description, y, line, { size: 9 });
+      y += 12;
+    }
+    y += 3;
+  }
+
+  const breakdown = buildVatBreakdown(invoice);
+  const totals = [
+    { label: 'Total Sales', amount: invoice.subtotal },
+    { label: 'Less: Discount', amount: -invoice.discountAmount },
+    ...vatRows(breakdown, 'TOTAL AMOUNT DUE')
+  ];
+  if (y + totals.length * 14 + 40 > CONTENT_BOTTOM) {
+    y = newPage();
+  }
+  doc.line(LEFT, y, RIGHT, y, 0.5, RULE);
+  y = drawAmountRows(doc, totals, y + 16);
+
+  if (invoice.notes || invoice.termsAndConditions) {
+    y += 10;
+    for (const line of wrapText([invoice.notes, invoice.termsAndConditions].filter(Boolean).join('\n'), 515, 8)) {
+      if (y > CONTENT_BOTTOM) {
+        y = newPage();
+      }
+      doc.text(LEFT, y, line, { size: 8, color: GRAY });
+      y += 11;
+    }
+  }
+
+  drawFooters(doc, seller, invoice.invoiceNumber);
+  return doc.toBytes();
+}
+
+// ============================================================================
+// OFFICIAL RECEIPT
+// ============================================================================
+
+export function renderOfficialReceiptPdf(input: ReceiptDocumentInput): Uint8Array {
+  const { payment, invoice, buyer, seller, receiptNumber } = input;
+  const doc = new PdfDocument({
+    title: `Official Receipt ${receiptNumber}`,
+    author: seller.registeredName,
+    creationDate: input.generatedAt
+  });
+
+  drawStamps(doc, stampsFor(seller, false));
+  let y = drawSellerHeader(doc, seller, 'OFFICIAL RECEIPT', receiptNumber, payment.paymentDate);
+  y = drawBuyer(doc, 'RECEIVED FROM', buyer, y) + 14;
+
+  doc.text(LEFT, y, 'the sum of', { size: 9, color: GRAY });
+  y += 14;
+  for (const line of wrapText(amountInWords(payment.amount), 515, 11, 'bold')) {
+    doc.text(LEFT, y, line, { size: 11, font: 'bold' });
+    y += 14;
+  }
+  doc.text(LEFT, y, `(PHP ${formatAmount(payment.amount)})`, { size: 11, font: 'bold' });
+  y += 20;
+  doc.text(LEFT, y, `in full or partial payment of Service Invoice No. ${invoice.invoiceNumber} dated ` +
+    `${formatDate(invoice.issueDate)}`, { size: 9 });
+  y += 24;
+
+  doc.rect(LEFT, y, RIGHT - LEFT, 18, { fill: HEADER_FILL });
+  doc.text(COLUMNS.description, y + 12, 'Form of Payment', { size: 8, font: 'bold' });
+  doc.text(250, y + 12, 'Reference No.', { size: 8, font: 'bold' });
+  doc.text(COLUMNS.amount, y + 12, 'Amount', { size: 8, font: 'bold', align: 'right' });
+  y += 30;
+  doc.text(COLUMNS.description, y, payment.paymentMethod.replace(/_/g, ' ').toUpperCase(), { size: 9 });
+  doc.text(250, y, payment.referenceNumber || '-', { size: 9 });
+  doc.text(COLUMNS.amount, y, formatAmount(payment.amount), { size: 9, align: 'right' });
+  y += 16;
+  doc.line(LEFT, y, RIGHT, y, 0.5, RULE);
+
+  y = drawAmountRows(doc, vatRows(prorateVatBreakdown(buildVatBreakdown(invoice), payment.amount), 'TOTAL'), y + 16);
+
+  y += 16;
+  doc.text(LEFT, y, 'THIS DOCUMENT IS NOT VALID FOR CLAIM OF INPUT TAX.', { size: 9, font: 'bold' });
+
+  drawFooters(doc, seller, receiptNumber);
+  return doc.toBytes();
+}
@@ -0,0 +1,264 @@
+// Minimal PDF 1.4 writer for generated business documents.
+// Text uses the standard Helvetica faces with WinAnsi encoding, so no fonts are embedded and
+// the output works in both the server and the browser (no Node APIs).
+
+export type PdfFont = 'regular' | 'bold';
+export type PdfAlign = 'left' | 'center' | 'right';
+export type PdfColor = [number, number, number]; // RGB, 0-1
+
+export interface PdfTextOptions {
+  size?: number;
+  font?: PdfFont;
+  align?: PdfAlign;
+  color?: PdfColor;
+  rotate?: number; // degrees, counter-clockwise, about the anchor point
+}
+
+export interface PdfDocumentOptions {
+  width?: number;
+  height?: number;
+  title?: string;
+  author?: string;
+  creationDate?: Date; // fixed date for reproducible output
+}
+
+// A4 in points
+export const A4_WIDTH = 595.28;
+export const A4_HEIGHT = 841.89;
+
+const FONT_RESOURCES: Record<PdfFont, string> = { regular: 'F1', bold: 'F2' };
+
+// Advance widths (1/1000 em) for WinAnsi 32-126, from the Adobe core font metrics
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584
+];
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+  975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+  333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+  611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584
+];
+
+const fmt = (value: number) => (Math.round(value * 100) / 100).toString();
+
+/** Maps text to WinAnsi; characters outside Latin-1 (e.g. the peso sign) become '?'. */
+function toWinAnsi(text: string): string {
+  let out = '';
+  for (const ch of text.normalize('NFC')) {
+    const code = ch.codePointAt(0)!;
+    if (code === 0x2013 || code === 0x2014) {
+      out += '-';
+    } else if (code === 0x2018 || code === 0x2019) {
+      out += "'";
+    } else if (code === 0x201c || code === 0x201d) {
+      out += '"';
+    } else if ((code >= 32 && code <= 126) || (code >= 160 && code <= 255)) {
+      out += ch;
+    } else {
+      out += '?';
+    }
+  }
+  return out;
+}
+
+function escapePdfString(text: string): string {
+  let out = '';
+  for (const ch of text) {
+    const code = ch.charCodeAt(0);
+    if (ch === '\\' || ch === '(' || ch === ')') {
+      out += `\\${ch}`;
+    } else if (code > 126) {
+      out += `\\${code.toString(8).padStart(3, '0')}`;
+    } else {
+      out += ch;
+    }
+  }
+  return out;
+}
+
+export function textWidth(text: string, size: number, font: PdfFont = 'regular'): number {
+  const widths = font === 'bold' ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS;
+  let units = 0;
+  for (const ch of toWinAnsi(text)) {
+    const code = ch.charCodeAt(0);
+    units += code >= 32 && code <= 126 ? widths[code - 32] : 556;
+  }
+  return (units * size) / 1000;
+}
+
+/** Greedy word wrap; words longer than the line are split by character. */
+export function wrapText(text: string, maxWidth: number, size: number, font: PdfFont = 'regular'): string[] {
+  const lines: string[] = [];
+  for (const paragraph of text.split('\n')) {
+    let line = '';
+    for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+      const candidate = line ? `${line} ${word}` : word;
+      if (textWidth(candidate, size, font) <= maxWidth) {
+        line = candidate;
+        continue;
+      }
+      if (line) {
+        lines.push(line);
+      }
+      line = word;
+      while (textWidth(line, size, font) > maxWidth && line.length > 1) {
+        let cut = line.length - 1;
+        while (cut > 1 && textWidth(line.slice(0, cut), size, font) > maxWidth) {
+          cut--;
+        }
+        lines.push(line.slice(0, cut));
+        line = line.slice(cut);
+      }
+    }
+    lines.push(line);
+  }
+  return lines;
+}
+
+function pdfDate(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `D:${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}` +
+    `${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z`;
+}
+
+/**
+ * Page-oriented drawing surface. Coordinates are in points from the top-left corner
+ * of the page; text is positioned by its baseline. Pages can be revisited after layout,
+ * e.g. to stamp "Page n of m" footers once the page count is known.
+ */
+export class PdfDocument {
+  readonly width: number;
+  readonly height: number;
+  private readonly pages: string[][] = [];
+  private current = -1;
+
+  constructor(private readonly options: PdfDocumentOptions = {}) {
+    this.width = options.width ?? A4_WIDTH;
+    this.height = options.height ?? A4_HEIGHT;
+    this.addPage();
+  }
+
+  get pageCount(): number {
+    return this.pages.length;
+  }
+
+  addPage(): number {
+    this.pages.push([]);
+    this.current = this.pages.length - 1;
+    return this.current;
+  }
+
+  setPage(index: number): void {
+    if (index < 0 || index >= this.pages.length) {
+      throw new Error(`pdf_page_out_of_range: ${index}`);
+    }
+    this.current = index;
+  }
+
+  text(x: number, y: number, text: string, options: PdfTextOptions = {}): void {
+    const size = options.size ?? 10;
+    const font = options.font ?? 'regular';
+    const encoded = toWinAnsi(text);
+    const width = textWidth(encoded, size, font);
+    const offset = options.align === 'right' ? width : options.align === 'center' ? width / 2 : 0;
+    const [r, g, b] = options.color ?? [0, 0, 0];
+    const baseline = this.height - y;
+
+    let matrix: string;
+    if (options.rotate) {
+      const radians = (options.rotate * Math.PI) / 180;
+      const cos = Math.cos(radians);
+      const sin = Math.sin(radians);
+      matrix = `${fmt(cos)} ${fmt(sin)} ${fmt(-sin)} ${fmt(cos)} ` +
+        `${fmt(x - offset * cos)} ${fmt(baseline - offset * sin)} Tm`;
+    } else {
+      matrix = `1 0 0 1 ${fmt(x - offset)} ${fmt(baseline)} Tm`;
+    }
+
+    this.pages[this.current].push(
+      `BT ${fmt(r)} ${fmt(g)} ${fmt(b)} rg /${FONT_RESOURCES[font]} ${fmt(size)} Tf ${matrix} ` +
+      `(${escapePdfString(encoded)}) Tj ET`
+    );
+  }
+
+  line(x1: number, y1: number, x2: number, y2: number, width = 0.5, color: PdfColor = [0, 0, 0]): void {
+    const [r, g, b] = color;
+    this.pages[this.current].push(
+      `${fmt(r)} ${fmt(g)} ${fmt(b)} RG ${fmt(width)} w ` +
+      `${fmt(x1)} ${fmt(this.height - y1)} m ${fmt(x2)} ${fmt(this.height - y2)} l S`
+    );
+  }
+
+  rect(x: number, y: number, w: number, h: number, options: { fill?: PdfColor; stroke?: PdfColor } = {}): void {
+    const ops: string[] = [];
+    if (options.fill) {
+      ops.push(`${options.fill.map(fmt).join(' ')} rg`);
+    }
+    if (options.stroke) {
+      ops.push(`${options.stroke.map(fmt).join(' ')} RG 0.5 w`);
+    }
+    const paint = options.fill && options.stroke ? 'B' : options.fill ? 'f' : 'S';
+    ops.push(`${fmt(x)} ${fmt(this.height - y - h)} ${fmt(w)} ${fmt(h)} re ${paint}`);
+    this.pages[this.current].push(ops.join(' '));
+  }
+
+  /** Serialises the document. Every emitted character is a single byte (WinAnsi). */
+  toBytes(): Uint8Array {
+    const objects: string[] = [];
+    const pageCount = this.pages.length;
+    const firstPageObject = 5;
+    const kids = this.pages.map((_, i) => `${firstPageObject + i * 2} 0 R`).join(' ');
+
+    objects.push('<< /Type /Catalog /Pages 2 0 R >>');
+    objects.push(`<< /Type /Pages /Kids [${kids}] /Count ${pageCount} >>`);
+    objects.push('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>');
+    objects.push('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>');
+    for (const [i, ops] of this.pages.entries()) {
+      const content = ops.join('\n');
+      objects.push(
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${fmt(this.width)} ${fmt(this.height)}] ` +
+        `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${firstPageObject + i * 2 + 1} 0 R >>`
+      );
+      objects.push(`<< /Length ${content.length} >>\nstream\n${content}\nendstream`);
+    }
+
+    const info = [`/Producer (${escapePdfString('Xpress Ops Tower')})`];
+    if (this.options.title) {
+      info.push(`/Title (${escapePdfString(toWinAnsi(this.options.title))})`);
+    }
+    if (this.options.author) {
+      info.push(`/Author (${escapePdfString(toWinAnsi(this.options.author))})`);
+    }
+    info.push(`/CreationDate (${pdfDate(this.options.creationDate ?? new Date())})`);
+    objects.push(`<< ${info.join(' ')} >>`);
+    const infoObject = objects.length;
+
+    let out = '%PDF-1.4\n%âãÏÓ\n';
+    const offsets: number[] = [];
+    objects.forEach((body, i) => {
+      offsets.push(out.length);
+      out += `${i + 1} 0 obj\n${body}\nendobj\n`;
+    });
+
+    const xrefOffset = out.length;
+    out += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+    for (const offset of offsets) {
+      out += `${String(offset).padStart(10, '0')} 00000 n \n`;
+    }
+    out += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info ${infoObject} 0 R >>\n`;
+    out += `startxref\n${xrefOffset}\n%%EOF\n`;
+
+    const bytes = new Uint8Array(out.length);
+    for (let i = 0; i < out.length; i++) {
+      bytes[i] = out.charCodeAt(i) & 0xff;
+    }
+    return bytes;
+  }
+}
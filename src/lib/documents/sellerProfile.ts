@@ -0,0 +1,59 @@
+// Registered seller details printed on every BIR invoice and official receipt.
+// Outside production a missing profile falls back to a specimen, and documents rendered with
+// it are stamped as not valid for tax purposes.
+
+export interface SellerProfile {
+  registeredName: string;
+  businessStyle?: string;
+  tin: string;                    // 12 or 14 digits: TIN + branch code
+  address: string;
+  vatRegistered: boolean;
+  // CAS / e-invoicing permit printed in the document footer
+  permitNumber?: string;
+  permitDateIssued?: string;
+  acknowledgmentCertificate?: string;
+  specimen: boolean;
+}
+
+const SPECIMEN_PROFILE: SellerProfile = {
+  registeredName: 'SPECIMEN SELLER (CONFIGURE BIR_REGISTERED_NAME)',
+  tin: '000000000000',
+  address: 'Configure BIR_REGISTERED_ADDRESS',
+  vatRegistered: true,
+  specimen: true
+};
+
+export function getSellerProfile(): SellerProfile {
+  const registeredName = process.env.BIR_REGISTERED_NAME || '';
+  const tin = (process.env.BIR_TIN || '').replace(/\D/g, '');
+  const address = process.env.BIR_REGISTERED_ADDRESS || '';
+
+  if (!registeredName || !address || (tin.length !== 12 && tin.length !== 14)) {
+    if (process.env.NODE_ENV === 'production') {
+      throw new Error('seller_profile_not_configured');
+    }
+    return SPECIMEN_PROFILE;
+  }
+
+  return {
+    registeredName,
+    businessStyle: process.env.BIR_BUSINESS_STYLE || undefined,
+    tin,
+    address,
+    vatRegistered: process.env.BIR_VAT_REGISTERED !== 'false',
+    permitNumber: process.env.BIR_PERMIT_NUMBER || undefined,
+    permitDateIssued: process.env.BIR_PERMIT_DATE_ISSUED || undefined,
+    acknowledgmentCertificate: process.env.BIR_ACKNOWLEDGMENT_CERTIFICATE || undefined,
+    specimen: false
+  };
+}
+
+/** 000-000-000-00000 display format; the branch code is padded to five digits. */
+export function formatTin(tin: string | undefined): string {
+  const digits = (tin || '').replace(/\D/g, '');
+  if (digits.length < 9) {
+    return tin || '';
+  }
+  const branch = digits.slice(9).padStart(5, '0');
+  return `${digits.slice(0, 3)}-${digits.slice(3, 6)}-${digits.slice(6, 9)}-${branch}`;
+}
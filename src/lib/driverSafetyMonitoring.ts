@@ -8,6 +8,7 @@ import { emergencyAlertService } from './emergencyAlerts';
 import { sosAlertProcessor } from './sosAlertProcessor';
 import { getWebSocketManager } from './websocket';
 import { logger } from '@/lib/security/productionLogger';
+import { DRIVER_VIOLATION_OUTCOMES } from '@/types/incident';
 
 export interface DriverSafetyProfile {
   driverId: string;
@@ -504,14 +505,21 @@ class DriverSafetyMonitoringSystem {
     
     const recentIncidents = incidents.filter(i => new Date(i.created_at) >= thirtyDaysAgo);
     
+    // Closed cases count by their outcome: unfounded reports as false alarms, formal actions as violations
+    type IncidentOutcome = { status: string; sos_status?: string; incident_type: string; outcome_code?: string };
+    const isFalseAlarm = (i: IncidentOutcome) =>
+      i.status === 'false_alarm' || i.sos_status === 'false_alarm' || i.outcome_code === 'unfounded';
+    const isViolation = (i: IncidentOutcome) =>
+      i.incident_type.includes('violation') || (DRIVER_VIOLATION_OUTCOMES as string[]).includes(i.outcome_code ?? '');
+    
     return {
       total: incidents.length,
-      falseAlarms: incidents.filter(i => i.status === 'false_alarm' || i.sos_status === 'false_alarm').length,
-      resolved: incidents.filter(i => i.status === 'resolved').length,
+      falseAlarms: incidents.filter(isFalseAlarm).length,
+      resolved: incidents.filter(i => i.status === 'resolved' || (i.status === 'closed' && !isFalseAlarm(i))).length,
       escalated: incidents.filter(i => i.status === 'escalated').length,
       recent30Days: recentIncidents.length,
-      recentFalseAlarms: recentIncidents.filter(i => i.status === 'false_alarm' || i.sos_status === 'false_alarm').length,
-      recentViolations: recentIncidents.filter(i => i.incident_type.includes('violation')).length,
+      recentFalseAlarms: recentIncidents.filter(isFalseAlarm).length,
+      recentViolations: recentIncidents.filter(isViolation).length,
       incidents
     };
   }
@@ -0,0 +1,61 @@
+// Corporate Billing Dunning Scheduler
+// Runs the daily dunning pass (overdue marking, late fees, reminders, suspensions) on a cron schedule
+
+import cron, { ScheduledTask } from 'node-cron';
+
+import { logger } from '@/lib/security/productionLogger';
+import { runDunning } from '@/lib/services/dunningService';
+
+const SCHEDULER_USER = 'system:dunning';
+
+class DunningSchedulerService {
+  private task: ScheduledTask | null = null;
+  private readonly schedule = process.env.DUNNING_SCHEDULE || '0 9 * * *';
+  private readonly timezone = process.env.DUNNING_TIMEZONE || 'Asia/Manila';
+
+  // Start the daily dunning run
+  start(): void {
+    if (this.task) {
+      logger.info('Dunning scheduler is already running');
+      return;
+    }
+    if (process.env.DUNNING_ENABLED === 'false') {
+      logger.info('Dunning scheduler disabled by DUNNING_ENABLED');
+      return;
+    }
+    if (!cron.validate(this.schedule)) {
+      logger.error(`Invalid DUNNING_SCHEDULE "${this.schedule}"; dunning scheduler not started`);
+      return;
+    }
+
+    logger.info(`Scheduling dunning runs at "${this.schedule}" (${this.timezone})`);
+    this.task = cron.schedule(this.schedule, () => this.run(), {
+      name: 'dunning',
+      timezone: this.timezone,
+      noOverlap: true
+    });
+  }
+
+  // Stop the scheduler
+  stop(): void {
+    if (!this.task) {
+      return;
+    }
+
+    logger.info('Stopping dunning scheduler');
+    this.task.stop();
+    this.task = null;
+  }
+
+  private async run(): Promise<void> {
+    try {
+      await runDunning({}, SCHEDULER_USER);
+    } catch (error) {
+      logger.error('Scheduled dunning run failed', {
+        error: error instanceof Error ? error.message : String(error)
+      }, { component: 'DunningScheduler', action: 'run' });
+    }
+  }
+}
+
+export const dunningScheduler = new DunningSchedulerService();
@@ -10,6 +10,19 @@ import { db } from './database';
 import { getWebSocketManager } from './websocket';
 import { logger } from './security/productionLogger';
 
+import {
+  assignCoordinator as assignResponseCoordinator,
+  closeOverdueShifts,
+  releaseResponseCoordinator
+} from '@/lib/services/coordinatorService';
+import {
+  CoordinatorHandover,
+  CoordinatorSpecialization,
+  EmergencyCoordinator
+} from '@/types/emergencyCoordinator';
+
+export type { EmergencyCoordinator } from '@/types/emergencyCoordinator';
+
 export interface EmergencyResponse {
   id: string;
   sosAlertId: string;
@@ -90,17 +103,6 @@ export interface EmergencyResponseAttachment {
   verified: boolean;
 }
 
-export interface EmergencyCoordinator {
-  id: string;
-  name: string;
-  role: 'operator' | 'supervisor' | 'emergency_coordinator';
-  contactNumber: string;
-  specializations: string[];
-  currentLoad: number; // number of active emergencies
-  maxCapacity: number;
-  regionId?: string;
-}
-
 export type EmergencyResponseType = 
   | 'medical_emergency'     // Ambulance, hospital coordination
   | 'police_response'       // Police dispatch and investigation
@@ -126,20 +128,20 @@ class EmergencyResponseAutomation {
   private static instance: EmergencyResponseAutomation;
   private emergencyServices;
   private activeResponses = new Map<string, EmergencyResponse>();
-  private availableCoordinators: EmergencyCoordinator[] = [];
   
   // Performance targets
   private readonly DISPATCH_TARGET_MS = 3000; // 3 seconds
   private readonly ACKNOWLEDGMENT_TARGET_MS = 60000; // 60 seconds
   private readonly ARRIVAL_TARGET_MS = 900000; // 15 minutes
+  private readonly SHIFT_CHECK_INTERVAL_MS = 60000; // 1 minute
   
   constructor() {
     this.emergencyServices = philippinesEmergencyServices.getInstance(
       createPhilippinesEmergencyConfig()
     );
     
-    this.initializeCoordinators();
     this.startResponseMonitoring();
+    this.startShiftMonitoring();
     this.setupEmergencyChannels();
     this.startPerformanceTracking();
   }
@@ -317,11 +319,11 @@ class EmergencyResponseAutomation {
   /**
    * Escalate emergency response
    */
-  async escalateResponse(response: EmergencyResponse, reason: string): Promise<void> {
+  async escalateResponse(response: EmergencyResponse, reason: string, escalatedBy = 'system'): Promise<void> {
     response.escalationLevel++;
     response.status = 'escalated';
     
-    this.addResponseLog(response, 'escalation', 'system', 
+    this.addResponseLog(response, 'escalation', escalatedBy, 
       `Response escalated to level ${response.escalationLevel}: ${reason}`);
     
     // Notify higher-level coordinators
@@ -332,6 +334,11 @@ class EmergencyResponseAutomation {
       await this.involveExternalAuthorities(response);
     }
     
+    await Promise.all([
+      this.updateResponseInCache(response),
+      this.saveEmergencyResponseToDatabase(response)
+    ]);
+    
     await this.broadcastEmergencyResponse(response, 'escalated');
     
     logger.info(`⚠️ Emergency response ${response.responseCode} escalated to level ${response.escalationLevel}`);
@@ -367,7 +374,7 @@ class EmergencyResponseAutomation {
     
     // Update coordinator availability
     if (response.coordinatingOperator) {
-      await this.releaseCoordinator(response.coordinatingOperator);
+      await this.releaseCoordinator(response);
     }
     
     // Create completion record
@@ -399,6 +406,13 @@ class EmergencyResponseAutomation {
     return this.activeResponses.get(responseId) || null;
   }
 
+  /**
+   * Get the active emergency response coordinating an SOS alert
+   */
+  getResponseForSOS(sosAlertId: string): EmergencyResponse | null {
+    return Array.from(this.activeResponses.values()).find(r => r.sosAlertId === sosAlertId) || null;
+  }
+
   // Private helper methods
 
   private async dispatchEmergencyServices(
@@ -461,21 +475,51 @@ class EmergencyResponseAutomation {
   }
 
   private async assignCoordinator(response: EmergencyResponse): Promise<EmergencyCoordinator | null> {
-    // Find available coordinator with appropriate specialization
-    const availableCoordinators = this.availableCoordinators
-      .filter(c => c.currentLoad < c.maxCapacity)
-      .filter(c => !c.regionId || c.regionId === response.regionId)
-      .sort((a, b) => a.currentLoad - b.currentLoad);
-    
-    if (availableCoordinators.length === 0) {
-      logger.warn('No available emergency coordinators');
+    // Find the least loaded on-duty coordinator covering the region, preferring the right specialization
+    try {
+      const coordinator = await assignResponseCoordinator({
+        responseId: response.id,
+        sosAlertId: response.sosAlertId,
+        regionId: response.regionId === 'default-region' ? null : response.regionId,
+        specialization: this.mapResponseToSpecialization(response.responseType),
+        assignedBy: 'system'
+      });
+
+      if (!coordinator) {
+        logger.warn(`No available emergency coordinators for ${response.responseCode} in ${response.regionId}`);
+      }
+      return coordinator;
+    } catch (error) {
+      logger.error(`Failed to assign coordinator to ${response.responseCode}:`, error);
       return null;
     }
-    
-    const coordinator = availableCoordinators[0];
-    coordinator.currentLoad++;
-    
-    return coordinator;
+  }
+
+  /**
+   * Apply coordinator handovers to the live responses they moved, escalating any
+   * response left without a coordinator
+   */
+  async applyCoordinatorHandovers(handovers: CoordinatorHandover[]): Promise<void> {
+    for (const handover of handovers) {
+      const response = this.activeResponses.get(handover.responseId);
+      if (!response) {
+        continue;
+      }
+
+      const reason = handover.reason === 'off_shift' ? 'went off shift' : 'handed over';
+      if (handover.to) {
+        response.coordinatingOperator = handover.to.id;
+        this.addResponseLog(response, 'update', 'system',
+          `Coordinator ${handover.fromCoordinatorId} ${reason}; ${handover.to.name} took over`,
+          { handoverNotes: handover.handoverNotes ?? null, previousCoordinator: handover.fromCoordinatorId });
+        await this.updateResponseInCache(response);
+        await this.updateEmergencyResponseInDatabase(response);
+        await this.broadcastEmergencyResponse(response, 'coordinator_changed');
+      } else {
+        response.coordinatingOperator = undefined;
+        await this.escalateResponse(response, `Coordinator ${reason} and no replacement is on duty`);
+      }
+    }
   }
 
   private addResponseLog(
@@ -555,6 +599,19 @@ class EmergencyResponseAutomation {
     return `${prefix}-${timestamp}-${random}`;
   }
 
+  private mapResponseToSpecialization(responseType: EmergencyResponseType): CoordinatorSpecialization {
+    const mapping: Partial<Record<EmergencyResponseType, CoordinatorSpecialization>> = {
+      'medical_emergency': 'medical',
+      'police_response': 'police',
+      'fire_response': 'fire',
+      'rescue_operation': 'rescue',
+      'traffic_management': 'traffic',
+      'crisis_intervention': 'security'
+    };
+    
+    return mapping[responseType] ?? 'general';
+  }
+
   private mapSOSToResponseType(sosType: SOSEmergencyType): EmergencyResponseType {
     const mapping = {
       'medical_emergency': 'medical_emergency',
@@ -634,10 +691,10 @@ class EmergencyResponseAutomation {
   }
 
   private async updateResponseInCache(response: EmergencyResponse): Promise<void> {
-    await redis.setex(
+    await redis.setCache(
       `emergency:response:${response.id}`,
-      86400, // 24 hours
-      JSON.stringify(response)
+      response,
+      86400 // 24 hours
     );
   }
 
@@ -674,11 +731,12 @@ class EmergencyResponseAutomation {
           emergency_services, primary_responder, response_log, dispatch_time_ms,
           created_at
         ) VALUES (
-          $1, $2, $3, $4, $5, $6, $7, ST_Point($8, $9), $10, $11, $12, $13,
+          $1, $2, $3, $4, $5, $6, $7, ST_SetSRID(ST_Point($8, $9), 4326), $10, $11, $12, $13,
           $14, $15, $16, $17, $18, $19, $20, $21, $22, NOW()
         )
         ON CONFLICT (id) DO UPDATE SET
           status = $16,
+          escalation_level = $17,
           response_log = $21,
           emergency_services = $19,
           primary_responder = $20,
@@ -726,8 +784,10 @@ class EmergencyResponseAutomation {
           arrival_time_ms = $6,
           resolution_time_ms = $7,
           response_log = $8,
+          escalation_level = $9,
+          coordinating_operator = $10,
           updated_at = NOW()
-        WHERE id = $9
+        WHERE id = $11
       `, [
         response.status,
         response.acknowledgedAt,
@@ -737,6 +797,8 @@ class EmergencyResponseAutomation {
         response.arrivalTime,
         response.resolutionTime,
         JSON.stringify(response.responseLog),
+        response.escalationLevel,
+        response.coordinatingOperator ?? null,
         response.id
       ]);
     } catch (error) {
@@ -744,32 +806,6 @@ class EmergencyResponseAutomation {
     }
   }
 
-  private initializeCoordinators(): void {
-    // Initialize emergency coordinators (would come from database in real implementation)
-    this.availableCoordinators = [
-      {
-        id: 'coord_001',
-        name: 'Emergency Coordinator 1',
-        role: 'emergency_coordinator',
-        contactNumber: '+63-917-555-0101',
-        specializations: ['medical', 'general'],
-        currentLoad: 0,
-        maxCapacity: 5,
-        regionId: 'metro_manila'
-      },
-      {
-        id: 'coord_002',
-        name: 'Emergency Coordinator 2',
-        role: 'emergency_coordinator',
-        contactNumber: '+63-917-555-0102',
-        specializations: ['police', 'security'],
-        currentLoad: 0,
-        maxCapacity: 5,
-        regionId: 'metro_manila'
-      }
-    ];
-  }
-
   private startResponseMonitoring(): void {
     setInterval(async () => {
       for (const [responseId, response] of this.activeResponses) {
@@ -778,6 +814,31 @@ class EmergencyResponseAutomation {
     }, 30000); // Check every 30 seconds
   }
 
+  private startShiftMonitoring(): void {
+    setInterval(async () => {
+      try {
+        // Coordinators who stayed on past their shift hand their responses over
+        await this.applyCoordinatorHandovers(await closeOverdueShifts());
+
+        // Responses opened while nobody was on duty get a coordinator once someone clocks in
+        for (const response of this.activeResponses.values()) {
+          if (response.coordinatingOperator) {
+            continue;
+          }
+          const coordinator = await this.assignCoordinator(response);
+          if (coordinator) {
+            response.coordinatingOperator = coordinator.id;
+            this.addResponseLog(response, 'update', 'system', `Emergency coordinator ${coordinator.name} assigned`);
+            await this.updateResponseInCache(response);
+            await this.updateEmergencyResponseInDatabase(response);
+          }
+        }
+      } catch (error) {
+        logger.error('Coordinator shift check failed:', error);
+      }
+    }, this.SHIFT_CHECK_INTERVAL_MS);
+  }
+
   private setupEmergencyChannels(): void {
     redis.subscribe(['emergency:response_update'], (channel, message) => {
       // Handle external response updates
@@ -786,10 +847,11 @@ class EmergencyResponseAutomation {
   }
 
   private startPerformanceTracking(): void {
-    setInterval(() => {
+    setInterval(async () => {
       const metrics = {
         activeResponses: this.activeResponses.size,
-        availableCoordinators: this.availableCoordinators.filter(c => c.currentLoad < c.maxCapacity).length,
+        unassignedResponses: [...this.activeResponses.values()].filter(r => !r.coordinatingOperator).length,
+        availableCoordinators: await this.countAvailableCoordinators(),
         timestamp: new Date().toISOString()
       };
       
@@ -812,10 +874,30 @@ class EmergencyResponseAutomation {
     }
   }
 
-  private async releaseCoordinator(coordinatorId: string): Promise<void> {
-    const coordinator = this.availableCoordinators.find(c => c.id === coordinatorId);
-    if (coordinator) {
-      coordinator.currentLoad = Math.max(0, coordinator.currentLoad - 1);
+  private async releaseCoordinator(response: EmergencyResponse): Promise<void> {
+    try {
+      await releaseResponseCoordinator(response.id, 'completed');
+    } catch (error) {
+      logger.warn(`Failed to release coordinator of ${response.responseCode}:`, error);
+    }
+  }
+
+  private async countAvailableCoordinators(): Promise<number | null> {
+    try {
+      const result = await db.query(`
+        SELECT COUNT(*)::int AS available
+        FROM emergency_coordinators c
+        JOIN emergency_coordinator_shifts s ON s.coordinator_id = c.id AND s.status = 'on_duty'
+        WHERE c.is_active
+          AND c.max_capacity > (
+            SELECT COUNT(*) FROM emergency_coordinator_assignments a
+            WHERE a.coordinator_id = c.id AND a.released_at IS NULL
+          )
+      `);
+      return result.rows[0]?.available ?? 0;
+    } catch (error) {
+      logger.warn('Failed to count available coordinators:', error);
+      return null;
     }
   }
 
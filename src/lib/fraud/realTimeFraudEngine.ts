@@ -8,6 +8,7 @@ import { dataProtectionLogger } from '../compliance/dataProtectionLogger';
 import { metricsCollector } from '../monitoring/metricsCollector';
 import { FraudAlert, FraudAlertType, FraudMonitor } from '@/types/fraudDetection';
 import { logger } from '../security/productionLogger';
+import { getRiderPromoUsage } from '../services/promoService';
 
 export interface FraudEventData {
   eventType: 'ride_request' | 'ride_start' | 'ride_end' | 'payment' | 'login' | 'registration' | 'gps_update';
@@ -410,15 +411,21 @@ class RealTimeFraudEngine {
   }
 
   /**
-   * Get rider data (mock implementation)
+   * Get rider data (rides and referrals are still mocked; promo usage comes from the redemption log)
    */
   private async getRiderData(riderId: string): Promise<any> {
-    // In production, this would fetch from database
+    let promoUsage: Awaited<ReturnType<typeof getRiderPromoUsage>> = [];
+    try {
+      promoUsage = await getRiderPromoUsage(riderId);
+    } catch (error) {
+      logger.warn('Failed to load rider promo usage', { riderId, error });
+    }
+
     return {
       id: riderId,
       createdAt: new Date(Date.now() - 30 * 24 * 60 * 60 * 1000), // 30 days ago
       rides: [],
-      promoUsage: [],
+      promoUsage,
       referrals: [],
       totalRides: 0
     };
@@ -1,7 +1,10 @@
 // Location Data Batching System for High-Performance Real-time Updates
 // Optimized for 10,000+ concurrent drivers with intelligent batching strategies
 
+import { surgeSignalAggregator } from './pricing/surgeSignalAggregator';
 import { redis } from './redis';
+import { getMapMatcher } from './tracking/mapMatcher';
+import { tripBreadcrumbRecorder } from './tripBreadcrumbRecorder';
 import { getWebSocketManager } from './websocket';
 import { logger } from '@/lib/security/productionLogger';
 
@@ -30,6 +33,8 @@ export interface LocationUpdate {
   address?: string;
   regionId: string;
   priority?: 'normal' | 'high' | 'emergency';
+  snappedToRoad?: boolean;
+  distanceFromPreviousM?: number | null; // along the road from the driver's previous update
 }
 
 export interface BatchingConfig {
@@ -84,7 +89,13 @@ export class LocationBatchingService {
   /**
    * Add a location update to the batching queue
    */
-  async addLocationUpdate(update: LocationUpdate): Promise<void> {
+  async addLocationUpdate(rawUpdate: LocationUpdate): Promise<void> {
+    // Smooth and snap to the road before the point is stored or broadcast
+    const update = this.matchToRoad(rawUpdate);
+
+    // Keep every point for the trip path; the batch below only keeps each driver's latest
+    tripBreadcrumbRecorder.record(update);
+
     const batchKey = this.getBatchKey(update);
     
     // Get or create batch for this key
@@ -134,6 +145,32 @@ export class LocationBatchingService {
     return { ...this.metrics };
   }
 
+  /**
+   * Kalman-smoothed position snapped to the road graph, with the distance driven since the
+   * driver's previous update
+   */
+  private matchToRoad(update: LocationUpdate): LocationUpdate {
+    if (process.env.MAP_MATCHING_ENABLED === 'false') {
+      return update;
+    }
+
+    const matched = getMapMatcher().match(update.driverId, {
+      latitude: update.latitude,
+      longitude: update.longitude,
+      timestamp: update.timestamp,
+      accuracy: update.accuracy,
+      speed: update.speed,
+      bearing: update.bearing
+    });
+    return {
+      ...update,
+      latitude: matched.latitude,
+      longitude: matched.longitude,
+      snappedToRoad: matched.snapped,
+      distanceFromPreviousM: matched.distanceFromPreviousM
+    };
+  }
+
   /**
    * Generate batch key for grouping updates
    */
@@ -430,6 +467,9 @@ export class LocationBatchingService {
    * Trigger dependent processes (analytics, alerts, etc.)
    */
   private async triggerDependentProcesses(batch: LocationBatch): Promise<void> {
+    // Count available drivers per hex and minute for surge pricing
+    surgeSignalAggregator.recordDriverLocations(batch.updates);
+
     // Update demand heatmap data
     await this.updateDemandHeatmap(batch);
     
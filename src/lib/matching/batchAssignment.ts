@@ -0,0 +1,68 @@
+// Batch assignment planning for ride matching
+// Assigns a window of ride requests to drivers together instead of first come, first served
+
+import { solveAssignment } from './hungarian';
+
+// The parts of a scored driver candidate the planner needs
+export interface BatchCandidate {
+  id: string;
+  matchingScore: number; // 0-100, from the matching engine's scoring weights
+  estimatedArrival: number; // pickup ETA in minutes
+}
+
+export interface AssignmentTotals {
+  matched: number;
+  totalEtaMinutes: number;
+  totalScore: number;
+}
+
+export interface BatchAssignmentPlan<T extends BatchCandidate> {
+  assignments: (T | null)[]; // per request, in request order
+  optimal: AssignmentTotals;
+  greedy: AssignmentTotals; // what first-come assignment would have achieved on the same batch
+}
+
+const totals = (assignments: (BatchCandidate | null)[]): AssignmentTotals =>
+  assignments.reduce<AssignmentTotals>((sum, candidate) => candidate
+    ? {
+      matched: sum.matched + 1,
+      totalEtaMinutes: sum.totalEtaMinutes + candidate.estimatedArrival,
+      totalScore: Math.round((sum.totalScore + candidate.matchingScore) * 100) / 100
+    }
+    : sum, { matched: 0, totalEtaMinutes: 0, totalScore: 0 });
+
+// Requests in arrival order each take their best-ranked driver that is still free
+export function greedyAssignment<T extends BatchCandidate>(rankings: T[][]): (T | null)[] {
+  const taken = new Set<string>();
+  return rankings.map(ranked => {
+    const best = ranked.find(candidate => !taken.has(candidate.id)) ?? null;
+    if (best) {
+      taken.add(best.id);
+    }
+    return best;
+  });
+}
+
+/**
+ * Solves the batch as a bipartite assignment. Each request's ranking lists the drivers
+ * it may get with their score for that request; the plan serves as many requests as
+ * possible and, among those plans, maximises the summed matching score.
+ */
+export function planBatchAssignment<T extends BatchCandidate>(rankings: T[][]): BatchAssignmentPlan<T> {
+  const driverIds = Array.from(new Set(rankings.flatMap(ranked => ranked.map(candidate => candidate.id))));
+  const byRequest = rankings.map(ranked => new Map(ranked.map(candidate => [candidate.id, candidate])));
+
+  const cost = byRequest.map(candidates => driverIds.map(driverId => {
+    const candidate = candidates.get(driverId);
+    return candidate ? 100 - candidate.matchingScore : Infinity;
+  }));
+
+  const assignments = solveAssignment(cost).map((column, index) =>
+    column < 0 ? null : byRequest[index].get(driverIds[column]) ?? null);
+
+  return {
+    assignments,
+    optimal: totals(assignments),
+    greedy: totals(greedyAssignment(rankings))
+  };
+}
@@ -0,0 +1,91 @@
+// Minimum-cost bipartite assignment (Hungarian algorithm)
+// Used by batched ride matching to assign a window of requests to drivers at once
+
+/**
+ * Assigns each row to at most one column so the summed cost is minimal.
+ * The matrix may be rectangular; pairs with a non-finite cost are never assigned.
+ * Returns the column chosen for every row, or -1 when the row stays unassigned.
+ */
+export function solveAssignment(cost: number[][]): number[] {
+  const rows = cost.length;
+  const cols = rows > 0 ? Math.max(...cost.map(row => row.length)) : 0;
+  if (rows === 0 || cols === 0) {
+    return new Array(rows).fill(-1);
+  }
+
+  // Infeasible pairs and padding cost more than leaving every row unassigned
+  const finite = cost.flat().filter(Number.isFinite);
+  const maxCost = finite.length > 0 ? Math.max(...finite.map(Math.abs)) : 0;
+  const unassigned = (maxCost + 1) * (rows + 1);
+  const forbidden = unassigned * (rows + 1);
+
+  // Square matrix: dummy columns let rows stay unassigned, dummy rows absorb spare columns
+  const n = Math.max(rows, cols) + rows;
+  const at = (i: number, j: number): number => {
+    if (i >= rows) {
+      return 0;
+    }
+    if (j >= cols) {
+      return unassigned;
+    }
+    const value = cost[i][j];
+    return value !== undefined && Number.isFinite(value) ? value : forbidden;
+  };
+
+  // Shortest augmenting path with potentials, O(n^3); arrays are 1-based with 0 as the sentinel
+  const u = new Array(n + 1).fill(0);
+  const v = new Array(n + 1).fill(0);
+  const match = new Array(n + 1).fill(0); // column -> row
+  const way = new Array(n + 1).fill(0);
+
+  for (let i = 1; i <= n; i++) {
+    match[0] = i;
+    let j0 = 0;
+    const minv = new Array(n + 1).fill(Infinity);
+    const used = new Array(n + 1).fill(false);
+
+    do {
+      used[j0] = true;
+      const i0 = match[j0];
+      let delta = Infinity;
+      let j1 = 0;
+      for (let j = 1; j <= n; j++) {
+        if (!used[j]) {
+          const reduced = at(i0 - 1, j - 1) - u[i0] - v[j];
+          if (reduced < minv[j]) {
+            minv[j] = reduced;
+            way[j] = j0;
+          }
+          if (minv[j] < delta) {
+            delta = minv[j];
+            j1 = j;
+          }
+        }
+      }
+      for (let j = 0; j <= n; j++) {
+        if (used[j]) {
+          u[match[j]] += delta;
+          v[j] -= delta;
+        } else {
+          minv[j] -= delta;
+        }
+      }
+      j0 = j1;
+    } while (match[j0] !== 0);
+
+    do {
+      const j1 = way[j0];
+      match[j0] = match[j1];
+      j0 = j1;
+    } while (j0 !== 0);
+  }
+
+  const assignment = new Array(rows).fill(-1);
+  for (let j = 1; j <= n; j++) {
+    const row = match[j] - 1;
+    if (row >= 0 && row < rows && j - 1 < cols && at(row, j - 1) < forbidden) {
+      assignment[row] = j - 1;
+    }
+  }
+  return assignment;
+}
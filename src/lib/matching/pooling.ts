@@ -0,0 +1,135 @@
+// Pooled ride planning
+// Decides where a new rider's pickup and dropoff fit into a driver's remaining route
+
+export interface GeoPoint {
+  latitude: number;
+  longitude: number;
+}
+
+export interface RouteStop extends GeoPoint {
+  id: string;
+  bookingId: string;
+  stopType: 'pickup' | 'waypoint' | 'dropoff';
+  seats: number; // seats taken by the stop's booking
+}
+
+export interface PoolConstraints {
+  maxDetourMinutes: number; // extra time any stop already on the route may be pushed back
+  maxDetourRatio: number; // new rider's in-vehicle time over riding direct, 0.5 allows +50%
+  maxPickupEtaMinutes: number;
+  seatCapacity: number;
+  averageSpeedKmh: number;
+}
+
+export interface PoolInsertion {
+  route: RouteStop[]; // remaining route with the new rider's stops in place
+  addedMinutes: number; // extra driving time for the whole remaining route
+  pickupEtaMinutes: number;
+  maxDelayMinutes: number; // largest delay pushed onto a stop already on the route
+}
+
+export const DEFAULT_POOL_SPEED_KMH = 25;
+
+export function distanceKm(from: GeoPoint, to: GeoPoint): number {
+  const R = 6371;
+  const dLat = (to.latitude - from.latitude) * Math.PI / 180;
+  const dLon = (to.longitude - from.longitude) * Math.PI / 180;
+  const a = Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+    Math.cos(from.latitude * Math.PI / 180) * Math.cos(to.latitude * Math.PI / 180) *
+    Math.sin(dLon / 2) * Math.sin(dLon / 2);
+  return R * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+}
+
+export function travelMinutes(from: GeoPoint, to: GeoPoint, speedKmh: number = DEFAULT_POOL_SPEED_KMH): number {
+  return (distanceKm(from, to) / speedKmh) * 60;
+}
+
+// Driving distance along a route, stop to stop
+export function routeDistanceKm(points: GeoPoint[]): number {
+  return points.slice(1).reduce((sum, point, index) => sum + distanceKm(points[index], point), 0);
+}
+
+// Minutes from the start until each stop is reached
+function arrivalMinutes(start: GeoPoint, route: RouteStop[], speedKmh: number): number[] {
+  let elapsed = 0;
+  let previous = start;
+  return route.map(stop => {
+    elapsed += travelMinutes(previous, stop, speedKmh);
+    previous = stop;
+    return elapsed;
+  });
+}
+
+// Seats in use never exceed capacity at any point of the route
+function fitsSeats(route: RouteStop[], onboardSeats: number, capacity: number): boolean {
+  let load = onboardSeats;
+  for (const stop of route) {
+    if (stop.stopType === 'pickup') {
+      load += stop.seats;
+    } else if (stop.stopType === 'dropoff') {
+      load -= stop.seats;
+    }
+    if (load > capacity) {
+      return false;
+    }
+  }
+  return true;
+}
+
+/**
+ * Tries every pickup/dropoff position in the driver's remaining route and returns the
+ * cheapest insertion that keeps every constraint, or null when the rider does not fit.
+ * `onboardSeats` are the seats of riders already in the car, whose pickups are done.
+ */
+export function planPoolInsertion(
+  driverLocation: GeoPoint,
+  remaining: RouteStop[],
+  onboardSeats: number,
+  pickup: RouteStop,
+  dropoff: RouteStop,
+  constraints: PoolConstraints
+): PoolInsertion | null {
+  const speed = constraints.averageSpeedKmh;
+  const baseline = arrivalMinutes(driverLocation, remaining, speed);
+  const baselineTotal = baseline.length > 0 ? baseline[baseline.length - 1] : 0;
+  const directMinutes = travelMinutes(pickup, dropoff, speed);
+
+  let best: PoolInsertion | null = null;
+
+  for (let i = 0; i <= remaining.length; i++) {
+    for (let j = i; j <= remaining.length; j++) {
+      const route = [
+        ...remaining.slice(0, i),
+        pickup,
+        ...remaining.slice(i, j),
+        dropoff,
+        ...remaining.slice(j)
+      ];
+      if (!fitsSeats(route, onboardSeats, constraints.seatCapacity)) {
+        continue;
+      }
+
+      const arrivals = arrivalMinutes(driverLocation, route, speed);
+      const pickupEta = arrivals[i];
+      const inVehicle = arrivals[j + 1] - pickupEta;
+      if (pickupEta > constraints.maxPickupEtaMinutes || inVehicle > directMinutes * (1 + constraints.maxDetourRatio)) {
+        continue;
+      }
+
+      // Existing stops keep their order, so each one's delay is its new arrival minus the old
+      const existingArrivals = arrivals.filter((_, index) => index !== i && index !== j + 1);
+      const maxDelay = Math.max(0, ...existingArrivals.map((arrival, index) => arrival - baseline[index]));
+      if (maxDelay > constraints.maxDetourMinutes) {
+        continue;
+      }
+
+      const addedMinutes = arrivals[arrivals.length - 1] - baselineTotal;
+      if (!best || addedMinutes < best.addedMinutes ||
+        (addedMinutes === best.addedMinutes && pickupEta < best.pickupEtaMinutes)) {
+        best = { route, addedMinutes, pickupEtaMinutes: pickupEta, maxDelayMinutes: maxDelay };
+      }
+    }
+  }
+
+  return best;
+}
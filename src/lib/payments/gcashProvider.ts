@@ -0,0 +1,119 @@
+// GCash merchant payments adapter
+// Requests are authenticated with the merchant client id and an HMAC of the body.
+
+import crypto from 'crypto';
+
+import {
+  CapturePaymentResult,
+  InitiatePaymentInput,
+  InitiatePaymentResult,
+  parseWebhookJson,
+  PaymentProvider,
+  PaymentWebhookEvent,
+  PaymentWebhookEventType,
+  RefundPaymentResult,
+  verifyWebhookSignature
+} from './provider';
+import { providerRequest } from './providerHttp';
+
+export interface GCashConfig {
+  baseUrl: string;
+  merchantId: string;
+  clientId: string;
+  clientSecret: string;
+  webhookSecret: string;
+}
+
+const EVENT_TYPES: Record<string, PaymentWebhookEventType> = {
+  'payment.authorized': 'payment.authorized',
+  'payment.paid': 'payment.succeeded',
+  'payment.failed': 'payment.failed',
+  'payment.expired': 'payment.cancelled',
+  'refund.succeeded': 'refund.succeeded',
+  'refund.failed': 'refund.failed'
+};
+
+export class GCashProvider implements PaymentProvider {
+  readonly name = 'gcash' as const;
+
+  constructor(private readonly config: GCashConfig) {}
+
+  private async call<T>(path: string, body: Record<string, unknown>): Promise<T> {
+    const timestamp = Math.floor(Date.now() / 1000);
+    const payload = JSON.stringify(body);
+    const signature = crypto.createHmac('sha256', this.config.clientSecret)
+      .update(`${timestamp}.${payload}`)
+      .digest('hex');
+
+    return providerRequest<T>('gcash', `${this.config.baseUrl}${path}`, {
+      method: 'POST',
+      headers: {
+        'Client-Id': this.config.clientId,
+        'Request-Time': String(timestamp),
+        Signature: signature
+      },
+      body
+    });
+  }
+
+  async initiate(input: InitiatePaymentInput): Promise<InitiatePaymentResult> {
+    const response = await this.call<{ paymentId: string; checkoutUrl: string }>('/v1/payments', {
+      merchantId: this.config.merchantId,
+      merchantReference: input.reference,
+      amount: { value: input.amount.toFixed(2), currency: input.currency },
+      description: input.description,
+      captureMode: 'MANUAL',
+      redirectUrls: { success: input.successUrl, failure: input.failureUrl }
+    });
+    return { providerReference: response.paymentId, redirectUrl: response.checkoutUrl };
+  }
+
+  async capture(providerReference: string, amount: number): Promise<CapturePaymentResult> {
+    const response = await this.call<{ status: string; reason?: string }>(
+      `/v1/payments/${encodeURIComponent(providerReference)}/capture`,
+      { amount: { value: amount.toFixed(2), currency: 'PHP' } }
+    );
+    return response.status === 'SUCCESS'
+      ? { status: 'completed' }
+      : { status: 'failed', failureReason: response.reason || response.status };
+  }
+
+  async refund(
+    providerReference: string,
+    amount: number,
+    reason: string,
+    refundReference: string
+  ): Promise<RefundPaymentResult> {
+    const response = await this.call<{ refundId: string; status: string; reason?: string }>(
+      `/v1/payments/${encodeURIComponent(providerReference)}/refunds`,
+      { refundReference, amount: { value: amount.toFixed(2), currency: 'PHP' }, reason }
+    );
+    const status = response.status === 'SUCCESS' ? 'processed' : response.status === 'FAILED' ? 'failed' : 'pending';
+    return { providerRefundReference: response.refundId, status, failureReason: response.reason };
+  }
+
+  verifyWebhook(rawBody: string, headers: Headers): PaymentWebhookEvent {
+    verifyWebhookSignature(
+      this.config.webhookSecret,
+      rawBody,
+      headers.get('x-gcash-signature'),
+      headers.get('x-gcash-timestamp')
+    );
+    const payload = parseWebhookJson(rawBody);
+    const type = EVENT_TYPES[String(payload.eventType)];
+    if (!type) {
+      throw new Error('unsupported_webhook_event');
+    }
+    return {
+      eventId: String(payload.eventId),
+      type,
+      providerReference: String(payload.paymentId),
+      providerRefundReference: payload.refundId ? String(payload.refundId) : undefined,
+      refundReference: payload.refundReference ? String(payload.refundReference) : undefined,
+      amount: payload.amount !== undefined ? Number(payload.amount) : undefined,
+      failureReason: typeof payload.reason === 'string' ? payload.reason : undefined,
+      occurredAt: String(payload.eventTime ?? new Date().toISOString()),
+      payload
+    };
+  }
+}
@@ -0,0 +1,65 @@
+// Payment provider registry
+// PAYMENTS_MODE=live selects the real GCash / PayMaya adapters; anything else uses the sandbox.
+// Production never falls back to the sandbox: it has to be asked for with PAYMENTS_MODE=sandbox
+// and given its own webhook secret, or every wallet payment fails.
+
+import { GCashProvider } from './gcashProvider';
+import { PayMayaProvider } from './paymayaProvider';
+import { PaymentProvider, WalletPaymentMethod } from './provider';
+import { SandboxPaymentProvider } from './sandboxProvider';
+
+export * from './provider';
+export { SandboxPaymentProvider } from './sandboxProvider';
+
+// Keep one sandbox across hot reloads so pending checkouts survive recompiles
+declare global {
+  // eslint-disable-next-line no-var
+  var __payments_sandbox: SandboxPaymentProvider | undefined;
+}
+
+export function isSandboxMode(): boolean {
+  if (process.env.PAYMENTS_MODE === 'live') {
+    return false;
+  }
+  if (
+    process.env.NODE_ENV === 'production' &&
+    (process.env.PAYMENTS_MODE !== 'sandbox' || !process.env.PAYMENTS_SANDBOX_WEBHOOK_SECRET)
+  ) {
+    throw new Error('payment_provider_not_configured: production needs PAYMENTS_MODE=live, '
+      + 'or PAYMENTS_MODE=sandbox with PAYMENTS_SANDBOX_WEBHOOK_SECRET');
+  }
+  return true;
+}
+
+export function getSandboxProvider(): SandboxPaymentProvider {
+  if (!globalThis.__payments_sandbox) {
+    globalThis.__payments_sandbox = new SandboxPaymentProvider();
+  }
+  return globalThis.__payments_sandbox;
+}
+
+function requireEnv(...names: string[]): string[] {
+  const values = names.map(name => process.env[name] || '');
+  if (values.some(value => !value)) {
+    throw new Error('payment_provider_not_configured');
+  }
+  return values;
+}
+
+export function getPaymentProvider(method: WalletPaymentMethod): PaymentProvider {
+  if (isSandboxMode()) {
+    return getSandboxProvider();
+  }
+
+  if (method === 'gcash') {
+    const [baseUrl, merchantId, clientId, clientSecret, webhookSecret] = requireEnv(
+      'GCASH_API_BASE_URL', 'GCASH_MERCHANT_ID', 'GCASH_CLIENT_ID', 'GCASH_CLIENT_SECRET', 'GCASH_WEBHOOK_SECRET'
+    );
+    return new GCashProvider({ baseUrl, merchantId, clientId, clientSecret, webhookSecret });
+  }
+
+  const [baseUrl, publicKey, secretKey, webhookSecret] = requireEnv(
+    'PAYMAYA_API_BASE_URL', 'PAYMAYA_PUBLIC_KEY', 'PAYMAYA_SECRET_KEY', 'PAYMAYA_WEBHOOK_SECRET'
+  );
+  return new PayMayaProvider({ baseUrl, publicKey, secretKey, webhookSecret });
+}
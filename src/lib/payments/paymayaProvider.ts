@@ -0,0 +1,121 @@
+// PayMaya (Maya) Checkout adapter
+// Checkout is created with the public key; capture and refunds use the secret key.
+
+import {
+  CapturePaymentResult,
+  InitiatePaymentInput,
+  InitiatePaymentResult,
+  parseWebhookJson,
+  PaymentProvider,
+  PaymentWebhookEvent,
+  PaymentWebhookEventType,
+  RefundPaymentResult,
+  verifyWebhookSignature
+} from './provider';
+import { providerRequest } from './providerHttp';
+
+export interface PayMayaConfig {
+  baseUrl: string;
+  publicKey: string;
+  secretKey: string;
+  webhookSecret: string;
+}
+
+// Maya payment statuses mapped onto our webhook event types
+const STATUS_EVENTS: Record<string, PaymentWebhookEventType> = {
+  AUTHORIZED: 'payment.authorized',
+  PAYMENT_SUCCESS: 'payment.succeeded',
+  PAYMENT_FAILED: 'payment.failed',
+  PAYMENT_EXPIRED: 'payment.cancelled',
+  PAYMENT_CANCELLED: 'payment.cancelled',
+  REFUNDED: 'refund.succeeded'
+};
+
+export class PayMayaProvider implements PaymentProvider {
+  readonly name = 'paymaya' as const;
+
+  constructor(private readonly config: PayMayaConfig) {}
+
+  private auth(key: string) {
+    return `Basic ${Buffer.from(`${key}:`).toString('base64')}`;
+  }
+
+  async initiate(input: InitiatePaymentInput): Promise<InitiatePaymentResult> {
+    const response = await providerRequest<{ checkoutId: string; redirectUrl: string }>(
+      'paymaya',
+      `${this.config.baseUrl}/checkout/v1/checkouts`,
+      {
+        method: 'POST',
+        headers: { Authorization: this.auth(this.config.publicKey) },
+        body: {
+          totalAmount: { value: input.amount, currency: input.currency },
+          requestReferenceNumber: input.reference,
+          buyer: input.customer
+            ? { firstName: input.customer.name, contact: { phone: input.customer.phone, email: input.customer.email } }
+            : undefined,
+          items: [{ name: input.description, quantity: 1, totalAmount: { value: input.amount } }],
+          redirectUrl: { success: input.successUrl, failure: input.failureUrl, cancel: input.failureUrl },
+          authorizationType: 'NORMAL'
+        }
+      }
+    );
+    return { providerReference: response.checkoutId, redirectUrl: response.redirectUrl };
+  }
+
+  async capture(providerReference: string, amount: number): Promise<CapturePaymentResult> {
+    const response = await providerRequest<{ status: string; errorMessage?: string }>(
+      'paymaya',
+      `${this.config.baseUrl}/payments/v1/payments/${encodeURIComponent(providerReference)}/capture`,
+      {
+        method: 'POST',
+        headers: { Authorization: this.auth(this.config.secretKey) },
+        body: { captureAmount: { amount, currency: 'PHP' } }
+      }
+    );
+    return response.status === 'CAPTURED' || response.status === 'PAYMENT_SUCCESS'
+      ? { status: 'completed' }
+      : { status: 'failed', failureReason: response.errorMessage || response.status };
+  }
+
+  async refund(
+    providerReference: string,
+    amount: number,
+    reason: string,
+    refundReference: string
+  ): Promise<RefundPaymentResult> {
+    const response = await providerRequest<{ id: string; status: string }>(
+      'paymaya',
+      `${this.config.baseUrl}/payments/v1/payments/${encodeURIComponent(providerReference)}/refunds`,
+      {
+        method: 'POST',
+        headers: { Authorization: this.auth(this.config.secretKey), 'Request-Reference-No': refundReference },
+        body: { totalAmount: { amount, currency: 'PHP' }, reason }
+      }
+    );
+    const status = response.status === 'SUCCESS' ? 'processed' : response.status === 'FAILED' ? 'failed' : 'pending';
+    return { providerRefundReference: response.id, status };
+  }
+
+  verifyWebhook(rawBody: string, headers: Headers): PaymentWebhookEvent {
+    verifyWebhookSignature(
+      this.config.webhookSecret,
+      rawBody,
+      headers.get('x-maya-signature'),
+      headers.get('x-maya-timestamp')
+    );
+    const payload = parseWebhookJson(rawBody);
+    const type = STATUS_EVENTS[String(payload.status)];
+    if (!type) {
+      throw new Error('unsupported_webhook_event');
+    }
+    return {
+      eventId: `${payload.id}:${payload.status}`,
+      type,
+      providerReference: String(payload.checkoutId ?? payload.id),
+      amount: payload.amount !== undefined ? Number(payload.amount) : undefined,
+      failureReason: typeof payload.errorMessage === 'string' ? payload.errorMessage : undefined,
+      occurredAt: String(payload.updatedAt ?? new Date().toISOString()),
+      payload
+    };
+  }
+}
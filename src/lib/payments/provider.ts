@@ -0,0 +1,113 @@
+// Payment Provider abstraction
+// Every wallet rail (GCash, PayMaya, the local sandbox) implements the same four operations
+
+import crypto from 'crypto';
+
+export type PaymentProviderName = 'gcash' | 'paymaya' | 'sandbox';
+
+// The wallet a rider pays with; the sandbox stands in for either one
+export type WalletPaymentMethod = 'gcash' | 'paymaya';
+
+export interface InitiatePaymentInput {
+  reference: string;                    // our transaction reference, echoed back by the provider
+  amount: number;
+  currency: string;
+  description: string;
+  successUrl: string;
+  failureUrl: string;
+  customer?: { name?: string; phone?: string; email?: string };
+}
+
+export interface InitiatePaymentResult {
+  providerReference: string;
+  redirectUrl: string;
+}
+
+export interface CapturePaymentResult {
+  status: 'completed' | 'failed';
+  failureReason?: string;
+}
+
+export interface RefundPaymentResult {
+  providerRefundReference: string;
+  status: 'processed' | 'pending' | 'failed';
+  failureReason?: string;
+}
+
+export type PaymentWebhookEventType =
+  | 'payment.authorized'                // payer approved, funds held until capture
+  | 'payment.succeeded'
+  | 'payment.failed'
+  | 'payment.cancelled'
+  | 'refund.succeeded'
+  | 'refund.failed';
+
+export interface PaymentWebhookEvent {
+  eventId: string;
+  type: PaymentWebhookEventType;
+  providerReference: string;
+  providerRefundReference?: string;
+  refundReference?: string;             // our RFN- reference, when the provider echoes it back
+  amount?: number;
+  failureReason?: string;
+  occurredAt: string;
+  payload: Record<string, unknown>;
+}
+
+export interface PaymentProvider {
+  readonly name: PaymentProviderName;
+  initiate(input: InitiatePaymentInput): Promise<InitiatePaymentResult>;
+  capture(providerReference: string, amount: number): Promise<CapturePaymentResult>;
+  refund(
+    providerReference: string,
+    amount: number,
+    reason: string,
+    refundReference: string
+  ): Promise<RefundPaymentResult>;
+  /** Parses a webhook delivery, throwing 'invalid_webhook_signature' unless it is authentic and fresh. */
+  verifyWebhook(rawBody: string, headers: Headers): PaymentWebhookEvent;
+}
+
+// ============================================================================
+// WEBHOOK SIGNATURES
+// ============================================================================
+
+const SIGNATURE_TOLERANCE_SECONDS = 300;
+
+export function signWebhookPayload(secret: string, timestamp: number, rawBody: string): string {
+  return crypto.createHmac('sha256', secret).update(`${timestamp}.${rawBody}`).digest('hex');
+}
+
+/**
+ * Verifies an HMAC-SHA256 signature over `${timestamp}.${body}` and rejects
+ * deliveries outside the replay window.
+ */
+export function verifyWebhookSignature(
+  secret: string,
+  rawBody: string,
+  signature: string | null,
+  timestampHeader: string | null,
+  now: number = Date.now()
+): void {
+  const timestamp = Number(timestampHeader);
+  if (!signature || !Number.isFinite(timestamp)) {
+    throw new Error('invalid_webhook_signature');
+  }
+  if (Math.abs(now / 1000 - timestamp) > SIGNATURE_TOLERANCE_SECONDS) {
+    throw new Error('invalid_webhook_signature');
+  }
+
+  const expected = Buffer.from(signWebhookPayload(secret, timestamp, rawBody), 'hex');
+  const received = Buffer.from(signature, 'hex');
+  if (expected.length !== received.length || !crypto.timingSafeEqual(expected, received)) {
+    throw new Error('invalid_webhook_signature');
+  }
+}
+
+export function parseWebhookJson(rawBody: string): Record<string, unknown> {
+  try {
+    return JSON.parse(rawBody);
+  } catch {
+    throw new Error('invalid_webhook_payload');
+  }
+}
@@ -0,0 +1,42 @@
+// Shared HTTP client for live payment provider adapters
+
+import { PaymentProviderName } from './provider';
+
+import { logger } from '@/lib/security/productionLogger';
+
+const PROVIDER_TIMEOUT_MS = 15000;
+
+export async function providerRequest<T>(
+  provider: PaymentProviderName,
+  url: string,
+  options: { method: 'GET' | 'POST'; headers?: Record<string, string>; body?: unknown }
+): Promise<T> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), PROVIDER_TIMEOUT_MS);
+
+  try {
+    const response = await fetch(url, {
+      method: options.method,
+      headers: { 'Content-Type': 'application/json', Accept: 'application/json', ...options.headers },
+      body: options.body === undefined ? undefined : JSON.stringify(options.body),
+      signal: controller.signal
+    });
+
+    const text = await response.text();
+    if (!response.ok) {
+      logger.error('Payment provider request failed', { provider, url, status: response.status, body: text }, {
+        component: 'PaymentProvider',
+        action: 'providerRequest'
+      });
+      throw new Error(`provider_error: ${provider} responded ${response.status}`);
+    }
+    return (text ? JSON.parse(text) : {}) as T;
+  } catch (error) {
+    if ((error as Error).name === 'AbortError') {
+      throw new Error(`provider_error: ${provider} timed out`);
+    }
+    throw error;
+  } finally {
+    clearTimeout(timer);
+  }
+}
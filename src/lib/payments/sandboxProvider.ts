@@ -0,0 +1,180 @@
+// Local sandbox payment provider
+// Stands in for GCash / PayMaya in development and tests: no network, deterministic
+// references, and webhooks signed exactly like the live adapters expect.
+
+import { randomUUID } from 'crypto';
+
+import {
+  CapturePaymentResult,
+  InitiatePaymentInput,
+  InitiatePaymentResult,
+  parseWebhookJson,
+  PaymentProvider,
+  PaymentWebhookEvent,
+  PaymentWebhookEventType,
+  RefundPaymentResult,
+  signWebhookPayload,
+  verifyWebhookSignature
+} from './provider';
+
+export const SANDBOX_SIGNATURE_HEADER = 'x-sandbox-signature';
+export const SANDBOX_TIMESTAMP_HEADER = 'x-sandbox-timestamp';
+
+// Amounts ending in these centavos make the sandbox decline, so failure paths can be exercised
+export const SANDBOX_DECLINE_CENTAVOS = 13;
+
+const SANDBOX_EVENT_TYPES: PaymentWebhookEventType[] = [
+  'payment.authorized', 'payment.succeeded', 'payment.failed', 'payment.cancelled', 'refund.succeeded', 'refund.failed'
+];
+
+interface SandboxPayment {
+  reference: string;
+  amount: number;
+  status: 'pending' | 'authorized' | 'captured' | 'failed' | 'cancelled';
+  refunded: number;
+}
+
+// The published dev default is only for local use; production must configure its own
+function sandboxWebhookSecret(): string {
+  if (process.env.PAYMENTS_SANDBOX_WEBHOOK_SECRET) {
+    return process.env.PAYMENTS_SANDBOX_WEBHOOK_SECRET;
+  }
+  if (process.env.NODE_ENV === 'production') {
+    throw new Error('PAYMENTS_SANDBOX_WEBHOOK_SECRET environment variable is required in production');
+  }
+  return 'sandbox-webhook-secret';
+}
+
+export interface SandboxWebhookDelivery {
+  rawBody: string;
+  headers: Headers;
+}
+
+export class SandboxPaymentProvider implements PaymentProvider {
+  readonly name = 'sandbox' as const;
+  private payments = new Map<string, SandboxPayment>();
+
+  constructor(
+    private readonly webhookSecret: string = sandboxWebhookSecret(),
+    private readonly baseUrl: string = process.env.PAYMENTS_SANDBOX_BASE_URL || 'http://localhost:4000'
+  ) {}
+
+  async initiate(input: InitiatePaymentInput): Promise<InitiatePaymentResult> {
+    const providerReference = `SBX-${randomUUID()}`;
+    this.payments.set(providerReference, {
+      reference: input.reference,
+      amount: input.amount,
+      status: 'pending',
+      refunded: 0
+    });
+    return {
+      providerReference,
+      redirectUrl: `${this.baseUrl}/api/payments/sandbox/checkout/${providerReference}`
+    };
+  }
+
+  async capture(providerReference: string, amount: number): Promise<CapturePaymentResult> {
+    const payment = this.payments.get(providerReference);
+    if (!payment || payment.status !== 'authorized') {
+      return { status: 'failed', failureReason: 'payment_not_authorized' };
+    }
+    if (amount > payment.amount) {
+      return { status: 'failed', failureReason: 'capture_exceeds_authorization' };
+    }
+    payment.status = 'captured';
+    return { status: 'completed' };
+  }
+
+  async refund(providerReference: string, amount: number): Promise<RefundPaymentResult> {
+    const payment = this.payments.get(providerReference);
+    const providerRefundReference = `SBR-${randomUUID()}`;
+    if (!payment || payment.status !== 'captured') {
+      return { providerRefundReference, status: 'failed', failureReason: 'payment_not_captured' };
+    }
+    if (payment.refunded + amount > payment.amount) {
+      return { providerRefundReference, status: 'failed', failureReason: 'refund_exceeds_payment' };
+    }
+    payment.refunded += amount;
+    return { providerRefundReference, status: 'processed' };
+  }
+
+  verifyWebhook(rawBody: string, headers: Headers): PaymentWebhookEvent {
+    verifyWebhookSignature(
+      this.webhookSecret,
+      rawBody,
+      headers.get(SANDBOX_SIGNATURE_HEADER),
+      headers.get(SANDBOX_TIMESTAMP_HEADER)
+    );
+    const payload = parseWebhookJson(rawBody);
+    const type = payload.type as PaymentWebhookEventType;
+    if (!SANDBOX_EVENT_TYPES.includes(type)) {
+      throw new Error('unsupported_webhook_event');
+    }
+    return {
+      eventId: String(payload.id),
+      type,
+      providerReference: String(payload.payment_id),
+      providerRefundReference: typeof payload.refund_id === 'string' ? payload.refund_id : undefined,
+      refundReference: typeof payload.refund_reference === 'string' ? payload.refund_reference : undefined,
+      amount: typeof payload.amount === 'number' ? payload.amount : undefined,
+      failureReason: typeof payload.failure_reason === 'string' ? payload.failure_reason : undefined,
+      occurredAt: String(payload.created_at),
+      payload
+    };
+  }
+
+  /**
+   * Simulates the payer finishing (or abandoning) checkout and returns the signed
+   * webhook the provider would deliver. With autoCapture the payment settles at once.
+   */
+  completeCheckout(
+    providerReference: string,
+    outcome: 'approve' | 'decline' | 'cancel',
+    options: { autoCapture?: boolean } = {}
+  ): SandboxWebhookDelivery {
+    const payment = this.payments.get(providerReference);
+    if (!payment || payment.status !== 'pending') {
+      throw new Error('sandbox_payment_not_pending');
+    }
+
+    const declined = outcome === 'decline' ||
+      Math.round(payment.amount * 100) % 100 === SANDBOX_DECLINE_CENTAVOS;
+    let type: PaymentWebhookEventType;
+    if (outcome === 'cancel') {
+      payment.status = 'cancelled';
+      type = 'payment.cancelled';
+    } else if (declined) {
+      payment.status = 'failed';
+      type = 'payment.failed';
+    } else if (options.autoCapture) {
+      payment.status = 'captured';
+      type = 'payment.succeeded';
+    } else {
+      payment.status = 'authorized';
+      type = 'payment.authorized';
+    }
+
+    return this.signEvent({
+      id: `evt_${randomUUID()}`,
+      type,
+      payment_id: providerReference,
+      reference: payment.reference,
+      amount: payment.amount,
+      failure_reason: type === 'payment.failed' ? 'insufficient_balance' : undefined,
+      created_at: new Date().toISOString()
+    });
+  }
+
+  signEvent(
+    payload: Record<string, unknown>,
+    timestamp: number = Math.floor(Date.now() / 1000)
+  ): SandboxWebhookDelivery {
+    const rawBody = JSON.stringify(payload);
+    const headers = new Headers({
+      'content-type': 'application/json',
+      [SANDBOX_SIGNATURE_HEADER]: signWebhookPayload(this.webhookSecret, timestamp, rawBody),
+      [SANDBOX_TIMESTAMP_HEADER]: String(timestamp)
+    });
+    return { rawBody, headers };
+  }
+}
@@ -0,0 +1,202 @@
+// Provider settlement statement parser
+// GCash, PayMaya and bank exports name their columns differently; headers are matched by alias.
+
+import { StatementLine } from '@/types/billing';
+
+type StatementField =
+  | 'transactionDate'
+  | 'providerReference'
+  | 'merchantReference'
+  | 'payerName'
+  | 'amount'
+  | 'fee'
+  | 'status'
+  | 'description';
+
+// Normalised header (lowercase, alphanumerics only) -> field
+const HEADER_ALIASES: Record<StatementField, string[]> = {
+  transactionDate: ['transactiondate', 'date', 'createdat', 'valuedate', 'postingdate', 'datetime', 'paymentdate'],
+  providerReference: ['referenceno', 'referencenumber', 'paymentid', 'providerreference', 'reference', 'gcashreference'],
+  merchantReference: ['merchantreference', 'requestreferencenumber', 'merchantrefno', 'externalreference', 'orderid'],
+  payerName: ['payer', 'payername', 'customername', 'accountname', 'sendername', 'name'],
+  amount: ['amount', 'grossamount', 'totalamount', 'credit', 'creditamount'],
+  fee: ['fee', 'fees', 'mdr', 'servicefee', 'transactionfee'],
+  status: ['status', 'paymentstatus'],
+  description: ['description', 'remarks', 'particulars', 'narrative']
+};
+
+const SETTLED_STATUSES = ['success', 'successful', 'completed', 'paid', 'settled', 'captured', 'payment_success'];
+
+// Our own transaction references, as they appear in free-text bank descriptions
+const TRANSACTION_REFERENCE_PATTERN = /TXN-[A-Z]+-\d+-[A-Z0-9]{6}/i;
+
+export interface SkippedStatementLine {
+  lineNumber: number;
+  reason: string;
+}
+
+export interface ParsedStatement {
+  lines: StatementLine[];
+  skipped: SkippedStatementLine[];
+}
+
+/** RFC 4180 CSV: quoted fields, doubled quotes, CRLF or LF line endings. */
+export function parseCsv(content: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const ch = content[i];
+    if (quoted) {
+      if (ch === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === ',') {
+      row.push(field);
+      field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && content[i + 1] === '\n') {
+        i++;
+      }
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += ch;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter(r => r.some(cell => cell.trim() !== ''));
+}
+
+export function parseStatementAmount(value: string | undefined): number | null {
+  if (!value || !value.trim()) {
+    return null;
+  }
+  const trimmed = value.trim();
+  const negative = /^\(.*\)$/.test(trimmed) || trimmed.startsWith('-');
+  const numeric = Number(trimmed.replace(/[^0-9.]/g, ''));
+  if (!Number.isFinite(numeric)) {
+    return null;
+  }
+  return negative ? -numeric : numeric;
+}
+
+/**
+ * Statement timestamps without an offset are Manila local time.
+ * Accepts ISO dates, 'YYYY-MM-DD HH:mm[:ss]' and 'MM/DD/YYYY[ HH:mm[:ss]]'.
+ */
+export function parseStatementDate(value: string | undefined): string | null {
+  if (!value || !value.trim()) {
+    return null;
+  }
+  const trimmed = value.trim();
+
+  const us = trimmed.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})(?:\s+(\d{1,2}):(\d{2})(?::(\d{2}))?)?$/);
+  if (us) {
+    const [, month, day, year, hour = '0', minute = '0', second = '0'] = us;
+    const local = `${year}-${month.padStart(2, '0')}-${day.padStart(2, '0')}T` +
+      `${hour.padStart(2, '0')}:${minute}:${second.padStart(2, '0')}+08:00`;
+    return new Date(local).toISOString();
+  }
+
+  const local = trimmed.match(/^(\d{4}-\d{2}-\d{2})(?:[ T](\d{2}:\d{2}(?::\d{2})?))?$/);
+  if (local) {
+    const time = local[2] ? (local[2].length === 5 ? `${local[2]}:00` : local[2]) : '00:00:00';
+    return new Date(`${local[1]}T${time}+08:00`).toISOString();
+  }
+
+  const parsed = Date.parse(trimmed);
+  return Number.isNaN(parsed) ? null : new Date(parsed).toISOString();
+}
+
+function resolveColumns(header: string[]): Partial<Record<StatementField, number>> {
+  const columns: Partial<Record<StatementField, number>> = {};
+  const normalised = header.map(h => h.toLowerCase().replace(/[^a-z0-9]/g, ''));
+  for (const field of Object.keys(HEADER_ALIASES) as StatementField[]) {
+    // Aliases are tried in order and each column is claimed by at most one field
+    for (const alias of HEADER_ALIASES[field]) {
+      const index = normalised.indexOf(alias);
+      if (index >= 0 && !Object.values(columns).includes(index)) {
+        columns[field] = index;
+        break;
+      }
+    }
+  }
+  return columns;
+}
+
+/**
+ * Parses a provider statement into settled payment lines. Rows that are not settled
+ * payments (failed, reversed, debits) are reported as skipped rather than dropped silently.
+ */
+export function parseStatement(content: string): ParsedStatement {
+  const rows = parseCsv(content.replace(/^\uFEFF/, ''));
+  if (rows.length === 0) {
+    throw new Error('statement_empty');
+  }
+
+  const columns = resolveColumns(rows[0]);
+  if (columns.amount === undefined || columns.transactionDate === undefined) {
+    throw new Error('statement_columns_missing: amount and date columns are required');
+  }
+
+  const lines: StatementLine[] = [];
+  const skipped: SkippedStatementLine[] = [];
+  const cell = (row: string[], field: StatementField) => {
+    const index = columns[field];
+    const value = index === undefined ? undefined : row[index]?.trim();
+    return value ? value : undefined;
+  };
+
+  rows.slice(1).forEach((row, i) => {
+    const lineNumber = i + 2; // 1-based, header is line 1
+    const status = cell(row, 'status');
+    if (status && !SETTLED_STATUSES.includes(status.toLowerCase())) {
+      skipped.push({ lineNumber, reason: `status ${status}` });
+      return;
+    }
+
+    const amountText = cell(row, 'amount');
+    const amount = parseStatementAmount(amountText);
+    const transactionDate = parseStatementDate(cell(row, 'transactionDate'));
+    if (amountText !== undefined && (amount === null || transactionDate === null)) {
+      skipped.push({ lineNumber, reason: 'unreadable amount or date' });
+      return;
+    }
+    // Bank exports leave the credit column empty on debit rows
+    if (amount === null || transactionDate === null || amount <= 0) {
+      skipped.push({ lineNumber, reason: 'not a credit' });
+      return;
+    }
+
+    const description = cell(row, 'description');
+    const merchantReference = cell(row, 'merchantReference') ??
+      description?.match(TRANSACTION_REFERENCE_PATTERN)?.[0]?.toUpperCase();
+
+    lines.push({
+      lineNumber,
+      transactionDate,
+      providerReference: cell(row, 'providerReference'),
+      merchantReference,
+      payerName: cell(row, 'payerName'),
+      amount,
+      fee: Math.abs(parseStatementAmount(cell(row, 'fee')) ?? 0)
+    });
+  });
+
+  return { lines, skipped };
+}
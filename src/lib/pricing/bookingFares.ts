@@ -0,0 +1,155 @@
+// Booking Fares
+// Prices a completed booking through the fare engine from what the trip actually did,
+// and records the itemised breakdown that invoices and driver settlements read back.
+// A booking made on an upfront quote is instead reconciled against that quote.
+
+import {
+  FareBreakdown,
+  FareBreakdownLine,
+  FareToll,
+  PRICING_SERVICE_KEYS,
+  computeFare,
+  loadActivePricing
+} from '@/lib/pricing/fareEngine';
+import { getQuoteForBooking } from '@/lib/repos/fareQuotesRepo';
+import { QueryFn } from '@/lib/repos/ledgerRepo';
+import { logger } from '@/lib/security/productionLogger';
+import { reconcileQuotedBooking } from '@/lib/services/fareQuoteService';
+import { getRecordedTripDistanceKm } from '@/lib/services/tripTrackingService';
+
+export interface CompletedBooking {
+  id: string;
+  region_id: string;
+  service_type: string;
+  service_details?: Record<string, unknown> | string | null;
+  surge_multiplier?: string | number | null;
+  actual_pickup_time?: string | Date | null;
+  estimated_distance?: string | number | null;
+  estimated_duration?: string | number | null;
+}
+
+const round2 = (value: number): number => Math.round(value * 100) / 100;
+
+const serviceDetails = (booking: Pick<CompletedBooking, 'service_details'>): Record<string, unknown> =>
+  typeof booking.service_details === 'string'
+    ? JSON.parse(booking.service_details || '{}')
+    : (booking.service_details || {});
+
+export function pricingServiceKey(booking: Pick<CompletedBooking, 'service_type' | 'service_details'>): string | null {
+  const details = serviceDetails(booking);
+  return (details.service_key as string | undefined) ?? PRICING_SERVICE_KEYS[booking.service_type] ?? null;
+}
+
+const lineTotal = (lines: FareBreakdownLine[], keys: string[]): number =>
+  round2(lines.filter(line => keys.includes(line.key)).reduce((sum, line) => sum + line.amount, 0));
+
+/**
+ * Prices the booking with its region's active profile: recorded on-trip distance (the
+ * estimate when no breadcrumbs were kept), time from pickup to now, the surge locked at
+ * booking and the tolls applied to the trip. A quoted booking keeps its quoted fare unless
+ * the trip strayed past the quote's tolerance. Returns null when no profile applies.
+ */
+export async function priceCompletedBooking(
+  q: QueryFn,
+  booking: CompletedBooking,
+  completedAt: Date = new Date()
+): Promise<FareBreakdown | null> {
+  const distanceKm = round2(await getRecordedTripDistanceKm(booking.id) || Number(booking.estimated_distance) || 0);
+  const durationMin = booking.actual_pickup_time
+    ? round2(Math.max(0, completedAt.getTime() - new Date(booking.actual_pickup_time).getTime()) / 60000)
+    : Number(booking.estimated_duration) || 0;
+
+  const { rows } = await q<FareToll>(`
+    SELECT tt.toll_id AS id, t.name, tt.amount
+    FROM trip_tolls tt
+    JOIN tolls t ON t.id = tt.toll_id
+    WHERE tt.trip_id = $1
+    ORDER BY tt.applied_at
+  `, [booking.id]);
+  const tolls = rows.map(toll => ({ ...toll, amount: Number(toll.amount) }));
+
+  const quote = await getQuoteForBooking(booking.id, q);
+  if (quote) {
+    const { finalFare } = await reconcileQuotedBooking(q, quote, { distanceKm, durationMin }, tolls);
+    await recordBookingFare(q, booking.id, finalFare, distanceKm, durationMin);
+    return finalFare;
+  }
+
+  const serviceKey = pricingServiceKey(booking);
+  const active = serviceKey ? await loadActivePricing(String(booking.region_id), serviceKey) : null;
+  if (!active) {
+    logger.warn('No active pricing profile; booking fare left to the client', {
+      bookingId: booking.id,
+      regionId: booking.region_id,
+      serviceKey
+    }, { component: 'BookingFares', action: 'priceCompletedBooking' });
+    return null;
+  }
+
+  const breakdown = computeFare({
+    ...active,
+    trip: { distanceKm, durationMin, isAirport: Boolean(serviceDetails(booking).is_airport) },
+    surge: { multiplier: Number(booking.surge_multiplier) || 1 },
+    tolls
+  });
+
+  await recordBookingFare(q, booking.id, breakdown, distanceKm, durationMin);
+  return breakdown;
+}
+
+// Writes the breakdown and copies its totals onto the booking's fare columns
+export async function recordBookingFare(
+  q: QueryFn,
+  bookingId: string,
+  breakdown: FareBreakdown,
+  distanceKm: number,
+  durationMin: number
+): Promise<void> {
+  const { lines } = breakdown;
+  await q(`
+    UPDATE bookings
+    SET base_fare = $2, distance_fare = $3, time_fare = $4, surge_multiplier = $5, surge_fare = $6,
+        tolls = $7, total_fare = $8, actual_distance = $9, actual_duration = $10, updated_at = NOW()
+    WHERE id = $1
+  `, [
+    bookingId,
+    lineTotal(lines, ['base_fare', 'flagdown', 'flat_fare']),
+    lineTotal(lines, ['per_km']),
+    lineTotal(lines, ['per_min']),
+    breakdown.surgeMultiplier,
+    breakdown.surgeAmount,
+    breakdown.tollsAmount,
+    breakdown.total,
+    distanceKm,
+    Math.round(durationMin)
+  ]);
+
+  await q(`
+    INSERT INTO booking_fares (
+      booking_id, profile_id, engine_version, distance_km, duration_min, surge_multiplier, lines, cap_hits,
+      subtotal, surge_amount, tolls_amount, total, driver_earnings, company_take
+    ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14)
+    ON CONFLICT (booking_id) DO UPDATE SET
+      profile_id = EXCLUDED.profile_id, engine_version = EXCLUDED.engine_version,
+      distance_km = EXCLUDED.distance_km, duration_min = EXCLUDED.duration_min,
+      surge_multiplier = EXCLUDED.surge_multiplier, lines = EXCLUDED.lines, cap_hits = EXCLUDED.cap_hits,
+      subtotal = EXCLUDED.subtotal, surge_amount = EXCLUDED.surge_amount, tolls_amount = EXCLUDED.tolls_amount,
+      total = EXCLUDED.total, driver_earnings = EXCLUDED.driver_earnings, company_take = EXCLUDED.company_take,
+      priced_at = NOW()
+  `, [
+    bookingId,
+    breakdown.profileId,
+    breakdown.engineVersion,
+    distanceKm,
+    durationMin,
+    breakdown.surgeMultiplier,
+    JSON.stringify(lines),
+    JSON.stringify(breakdown.capHits),
+    breakdown.subtotal,
+    breakdown.surgeAmount,
+    breakdown.tollsAmount,
+    breakdown.total,
+    breakdown.driverEarnings,
+    breakdown.companyTake
+  ]);
+}
@@ -1,5 +1,30 @@
 import { getDb } from '@/lib/database';
 
+// An ingested pricing event and when it applies, for joining onto surge signals
+export interface PricingEventWindow {
+  id: number;
+  eventType: string;
+  severity: 'low' | 'medium' | 'high' | 'critical';
+  coordinates: [number, number] | null;               // [lat, lng]; null = region-wide
+  radiusKm: number | null;
+  startsAt: string;
+  endsAt: string;
+}
+
+interface PricingEventWindowRow {
+  id: number;
+  event_type: string;
+  severity: PricingEventWindow['severity'];
+  coordinates: string | null;
+  radius_km: number | null;
+  start_time: string | null;
+  end_time: string | null;
+  created_at: string;
+}
+
+// Events ingested without an end time are treated as lasting this long
+export const DEFAULT_EVENT_DURATION_MINUTES = 60;
+
 // External data polling service for automated event ingestion
 export class EventIngestionService {
   private pollingIntervals: Map<string, NodeJS.Timeout> = new Map();
@@ -320,6 +345,37 @@ export class EventIngestionService {
     return coordinates[regionId] || [14.5547, 121.0244];
   }
 
+  // Events in the region that apply at any point between from and to
+  async getActiveEvents(regionId: string, from: string, to: string): Promise<PricingEventWindow[]> {
+    const db = await getDb();
+    const openEndedSince = new Date(new Date(from).getTime() - DEFAULT_EVENT_DURATION_MINUTES * 60_000).toISOString();
+    const rows = await db.all<PricingEventWindowRow>(`
+      SELECT id, event_type, severity, coordinates, radius_km, start_time, end_time, created_at
+      FROM pricing_events
+      WHERE region_id = ?
+        AND datetime(COALESCE(start_time, created_at)) < datetime(?)
+        AND (
+          (end_time IS NOT NULL AND datetime(end_time) >= datetime(?))
+          OR (end_time IS NULL AND datetime(COALESCE(start_time, created_at)) >= datetime(?))
+        )
+    `, [regionId, to, from, openEndedSince]);
+
+    return rows.map(row => {
+      const startsAt = new Date(row.start_time ?? row.created_at);
+      return {
+        id: Number(row.id),
+        eventType: row.event_type,
+        severity: row.severity,
+        coordinates: row.coordinates ? JSON.parse(row.coordinates) : null,
+        radiusKm: row.radius_km !== null ? Number(row.radius_km) : null,
+        startsAt: startsAt.toISOString(),
+        endsAt: row.end_time
+          ? new Date(row.end_time).toISOString()
+          : new Date(startsAt.getTime() + DEFAULT_EVENT_DURATION_MINUTES * 60_000).toISOString()
+      };
+    });
+  }
+
   async logPollingError(sourceId: number, error: any) {
     try {
       const db = await getDb();
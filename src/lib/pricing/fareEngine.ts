@@ -0,0 +1,345 @@
+// Fare Engine
+// The one place a fare is computed. Preview, booking completion, pooled splits, simulations,
+// invoices and driver settlements all price through computeFare, so a trip's fare and its
+// split never differ between screens.
+//
+// Order of application:
+//   1. Components in sort order: base fare (or flagdown), flat fare, distance beyond the
+//      included km, time, airport surcharge on airport trips, booking fee.
+//   2. Surge: the multiplier applies to everything above, booking fee included; any
+//      additive fee is added on top unsurged.
+//   3. Tolls are passed through at cost and never surged.
+//   4. Every line is rounded half-up to the centavo. When the region sets a rounding
+//      increment the total is rounded to it and the difference is its own line.
+// Regulator caps from pricing_compliance_rules clamp the line they govern; each clamp is
+// reported as a cap hit and the line names the cap as its rule.
+
+import { PricingStore, withPricingStore } from '@/lib/pricing/pricingStore';
+
+export const FARE_ENGINE_VERSION = 'fare-engine/1';
+
+// Pricing profiles are keyed by regulator service; bookings by the product that was ordered
+export const PRICING_SERVICE_KEYS: Record<string, string> = {
+  ride_4w: 'tnvs',
+  ride_pool: 'tnvs'
+};
+
+export interface FareComponentRow {
+  id: number;
+  key: string;
+  value_numeric: number | null;
+  publish?: boolean | number;
+}
+
+export interface RevenueSplit {
+  driver_pct?: number;
+  xpress_pct?: number;
+  booking_fee_to?: string;
+  tolls_to?: string;
+}
+
+export interface ProfilePricing {
+  profileId: number;
+  components: FareComponentRow[];
+  revenueSplit: RevenueSplit;
+}
+
+// Compliance caps keyed by pricing_compliance_rules.key
+export type ComplianceCaps = Record<string, number>;
+
+// Surge as resolved by the surge lookup; rule names the override, schedule or profile that won
+export interface FareSurge {
+  multiplier: number;
+  additiveFee?: number;
+  rule?: string;
+  ruleId?: number | null;
+}
+
+export interface FareToll {
+  id: number;
+  name: string;
+  amount: number;
+}
+
+export interface TripFacts {
+  distanceKm: number;
+  durationMin: number;
+  isAirport: boolean;
+}
+
+export interface FareInput {
+  pricing: ProfilePricing;
+  caps: ComplianceCaps;
+  trip: TripFacts;
+  surge?: FareSurge | null;
+  tolls?: FareToll[];
+}
+
+export type FareLineKey =
+  | 'base_fare' | 'flagdown' | 'flat_fare' | 'per_km' | 'per_min' | 'airport_surcharge' | 'booking_fee'
+  | 'surge' | 'toll' | 'rounding';
+
+export interface FareBreakdownLine {
+  key: FareLineKey;
+  label: string;
+  amount: number;
+  meta?: string;
+  publish: boolean;
+  // e.g. 'component:12', 'cap:max_booking_fee', 'override:4', 'toll:3', 'rounding:1'
+  rule: string;
+  ruleId: number | null;
+}
+
+export interface FareBreakdown {
+  engineVersion: string;
+  profileId: number;
+  lines: FareBreakdownLine[];
+  subtotal: number;               // components before surge, booking fee included
+  surgeMultiplier: number;        // as applied, after the cap
+  surgeAmount: number;
+  tollsAmount: number;
+  total: number;
+  driverEarnings: number;
+  companyTake: number;
+  capHits: string[];
+}
+
+// Rounds to the centavo, the way every fare amount is charged
+export const round2 = (value: number): number => Math.round((value + Number.EPSILON) * 100) / 100;
+
+const LABELS: Record<FareLineKey, string> = {
+  base_fare: 'Base Fare',
+  flagdown: 'Flagdown',
+  flat_fare: 'Flat Fare',
+  per_km: 'Distance',
+  per_min: 'Time',
+  airport_surcharge: 'Airport Surcharge',
+  booking_fee: 'Booking Fee',
+  surge: 'Surge',
+  toll: 'Toll',
+  rounding: 'Rounding'
+};
+
+export const componentValue = (components: FareComponentRow[], key: string): number =>
+  components.find(c => c.key === key)?.value_numeric || 0;
+
+/**
+ * Splits a fare between driver and company. The booking fee is the company's; tolls go
+ * to the driver as a reimbursement unless the policy routes them to Xpress.
+ */
+export function splitEarnings(
+  total: number,
+  bookingFee: number,
+  tollsAmount: number,
+  split: RevenueSplit
+): { driverEarnings: number; companyTake: number } {
+  const tollsToDriver = split.tolls_to !== 'xpress';
+  const shareable = Math.max(0, total - bookingFee - tollsAmount);
+  return {
+    driverEarnings: round2(shareable * (split.driver_pct || 0) + (tollsToDriver ? tollsAmount : 0)),
+    companyTake: round2(shareable * (split.xpress_pct || 0) + bookingFee + (tollsToDriver ? 0 : tollsAmount))
+  };
+}
+
+/** Prices one trip under a profile. Deterministic: the same input always gives the same lines. */
+export function computeFare(input: FareInput): FareBreakdown {
+  const { pricing, caps, trip } = input;
+  const { components } = pricing;
+  const lines: FareBreakdownLine[] = [];
+  const capHits: string[] = [];
+
+  const push = (key: FareLineKey, component: FareComponentRow, amount: number, meta?: string, cap?: string) => {
+    if (cap) {
+      capHits.push(cap);
+    }
+    lines.push({
+      key,
+      label: LABELS[key],
+      amount: round2(amount),
+      meta,
+      publish: component.publish === undefined ? true : Boolean(component.publish),
+      rule: cap ? `cap:${cap}` : `component:${component.id}`,
+      ruleId: cap ? null : component.id
+    });
+  };
+  const find = (key: string) => components.find(c => c.key === key && (c.value_numeric || 0) > 0);
+
+  const base = find('base_fare') ?? find('flagdown');
+  if (base) {
+    const value = base.value_numeric || 0;
+    const floored = caps.min_base_fare !== undefined && value < caps.min_base_fare;
+    push(base.key as FareLineKey, base, floored ? caps.min_base_fare : value, undefined,
+      floored ? 'min_base_fare' : undefined);
+  }
+
+  const flat = find('flat_fare');
+  if (flat) {
+    const value = flat.value_numeric || 0;
+    const capped = caps.max_flat_fare !== undefined && value > caps.max_flat_fare;
+    push('flat_fare', flat, capped ? caps.max_flat_fare : value, undefined, capped ? 'max_flat_fare' : undefined);
+  }
+
+  const perKm = find('per_km');
+  if (perKm) {
+    const rate = perKm.value_numeric || 0;
+    const billableKm = Math.max(0, trip.distanceKm - componentValue(components, 'included_km'));
+    push('per_km', perKm, rate * billableKm, `${billableKm.toFixed(1)} km @ ₱${rate}/km`);
+  }
+
+  const perMin = find('per_min');
+  if (perMin) {
+    const rate = perMin.value_numeric || 0;
+    push('per_min', perMin, rate * trip.durationMin, `${trip.durationMin.toFixed(0)} min @ ₱${rate}/min`);
+  }
+
+  const airport = trip.isAirport ? find('airport_surcharge') : undefined;
+  if (airport) {
+    const value = airport.value_numeric || 0;
+    const capped = caps.max_airport_surcharge !== undefined && value > caps.max_airport_surcharge;
+    push('airport_surcharge', airport, capped ? caps.max_airport_surcharge : value, undefined,
+      capped ? 'max_airport_surcharge' : undefined);
+  }
+
+  let bookingFee = 0;
+  const fee = find('booking_fee');
+  if (fee) {
+    const value = fee.value_numeric || 0;
+    const capped = caps.max_booking_fee !== undefined && value > caps.max_booking_fee;
+    bookingFee = capped ? caps.max_booking_fee : value;
+    push('booking_fee', fee, bookingFee, undefined, capped ? 'max_booking_fee' : undefined);
+    bookingFee = round2(bookingFee);
+  }
+
+  const subtotal = round2(lines.reduce((sum, line) => sum + line.amount, 0));
+
+  let surgeMultiplier = Math.max(1, input.surge?.multiplier ?? 1);
+  const surgeCapped = caps.max_surge_multiplier !== undefined && surgeMultiplier > caps.max_surge_multiplier;
+  if (surgeCapped) {
+    surgeMultiplier = Math.max(1, caps.max_surge_multiplier);
+    capHits.push('max_surge_multiplier');
+  }
+  const additiveFee = input.surge?.additiveFee || 0;
+  const surgeAmount = round2(subtotal * (surgeMultiplier - 1) + additiveFee);
+  if (surgeAmount > 0) {
+    lines.push({
+      key: 'surge',
+      label: LABELS.surge,
+      amount: surgeAmount,
+      meta: additiveFee > 0 ? `${surgeMultiplier}x + ₱${additiveFee}` : `${surgeMultiplier}x`,
+      publish: true,
+      rule: surgeCapped ? 'cap:max_surge_multiplier' : input.surge?.rule ?? 'surge',
+      ruleId: surgeCapped ? null : input.surge?.ruleId ?? null
+    });
+  }
+
+  const tolls = input.tolls ?? [];
+  tolls.forEach(toll => lines.push({
+    key: 'toll',
+    label: LABELS.toll,
+    amount: round2(toll.amount),
+    meta: toll.name,
+    publish: true,
+    rule: `toll:${toll.id}`,
+    ruleId: toll.id
+  }));
+  const tollsAmount = round2(tolls.reduce((sum, toll) => sum + round2(toll.amount), 0));
+
+  let total = round2(lines.reduce((sum, line) => sum + line.amount, 0));
+  const increment = caps.fare_rounding_increment;
+  if (increment && increment > 0) {
+    const rounded = round2(Math.round(total / increment) * increment);
+    if (rounded !== total) {
+      lines.push({
+        key: 'rounding',
+        label: LABELS.rounding,
+        amount: round2(rounded - total),
+        meta: `to the nearest ₱${increment}`,
+        publish: true,
+        rule: `rounding:${increment}`,
+        ruleId: null
+      });
+      total = rounded;
+    }
+  }
+
+  return {
+    engineVersion: FARE_ENGINE_VERSION,
+    profileId: pricing.profileId,
+    lines,
+    subtotal,
+    surgeMultiplier,
+    surgeAmount,
+    tollsAmount,
+    total,
+    ...splitEarnings(total, bookingFee, tollsAmount, pricing.revenueSplit),
+    capHits
+  };
+}
+
+// ============================================================================
+// LOADING
+// ============================================================================
+
+export async function loadProfilePricing(profileId: number): Promise<ProfilePricing> {
+  return withPricingStore(store => readProfilePricing(store, profileId));
+}
+
+export async function loadComplianceCaps(regionId: string, serviceKey: string): Promise<ComplianceCaps> {
+  return withPricingStore(store => readComplianceCaps(store, regionId, serviceKey));
+}
+
+/**
+ * The region's active profile for a service with its caps, or null when it has none.
+ * version identifies the profile as it stood, changing whenever the profile is edited.
+ */
+export async function loadActivePricing(
+  regionId: string,
+  serviceKey: string
+): Promise<{ pricing: ProfilePricing; caps: ComplianceCaps; version: string } | null> {
+  return withPricingStore(async store => {
+    const profile = await store.get<{ id: number; updated_at: string | null }>(`
+      SELECT id, updated_at FROM pricing_profiles
+      WHERE region_id = ? AND service_key = ? AND status = 'active'
+      ORDER BY effective_at DESC
+      LIMIT 1
+    `, [regionId, serviceKey]);
+    if (!profile) {
+      return null;
+    }
+
+    return {
+      pricing: await readProfilePricing(store, profile.id),
+      caps: await readComplianceCaps(store, regionId, serviceKey),
+      version: `${profile.id}@${profile.updated_at ?? ''}`
+    };
+  });
+}
+
+async function readProfilePricing(store: PricingStore, profileId: number): Promise<ProfilePricing> {
+  const components = await store.all<FareComponentRow>(
+    'SELECT id, key, value_numeric, publish FROM pricing_components WHERE profile_id = ? ORDER BY sort_order',
+    [profileId]
+  );
+  const policy = await store.get<{ revenue_split: string }>(
+    'SELECT revenue_split FROM pricing_earnings_policies WHERE profile_id = ?',
+    [profileId]
+  );
+
+  return {
+    profileId,
+    components,
+    revenueSplit: JSON.parse(policy?.revenue_split || '{}')
+  };
+}
+
+async function readComplianceCaps(
+  store: PricingStore,
+  regionId: string,
+  serviceKey: string
+): Promise<ComplianceCaps> {
+  const rules = await store.all<{ key: string; value_numeric: number }>(
+    'SELECT key, value_numeric FROM pricing_compliance_rules WHERE region_id = ? AND service_key = ?',
+    [regionId, serviceKey]
+  );
+  return Object.fromEntries(rules.map(rule => [rule.key, rule.value_numeric]));
+}
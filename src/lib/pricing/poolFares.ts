@@ -0,0 +1,62 @@
+// Pooled Ride Fares
+// Splits a pool trip's fare between its riders using the region's active pricing profile
+
+import { DEFAULT_POOL_SPEED_KMH, GeoPoint, distanceKm, routeDistanceKm } from '@/lib/matching/pooling';
+import { ComplianceCaps, ProfilePricing, computeFare, loadActivePricing } from '@/lib/pricing/fareEngine';
+import { PoolFareShare } from '@/types/fleet';
+
+// Pooled rides are 4-wheel TNVS trips and are priced with that service's profile
+export const POOL_PRICING_SERVICE_KEY = 'tnvs';
+
+export interface PooledRider {
+  bookingId: string;
+  pickup: GeoPoint;
+  dropoff: GeoPoint;
+  surgeMultiplier: number;
+}
+
+const round2 = (value: number): number => Math.round(value * 100) / 100;
+
+const minutesFor = (km: number): number => (km / DEFAULT_POOL_SPEED_KMH) * 60;
+
+/**
+ * Prices the driven route once and splits it by how far each rider would have gone
+ * direct, each with their own surge. A rider never pays more than riding alone.
+ */
+export function splitPooledFare(
+  pricing: ProfilePricing,
+  caps: ComplianceCaps,
+  riders: PooledRider[],
+  route: GeoPoint[]
+): PoolFareShare[] {
+  const routeKm = routeDistanceKm(route);
+  const routeFare = computeFare({
+    pricing,
+    caps,
+    trip: { distanceKm: routeKm, durationMin: minutesFor(routeKm), isAirport: false }
+  }).total;
+
+  const directKm = riders.map(rider => distanceKm(rider.pickup, rider.dropoff));
+  const totalDirectKm = directKm.reduce((sum, km) => sum + km, 0);
+
+  return riders.map((rider, index) => {
+    const soloFare = computeFare({
+      pricing,
+      caps,
+      trip: { distanceKm: directKm[index], durationMin: minutesFor(directKm[index]), isAirport: false },
+      surge: { multiplier: rider.surgeMultiplier }
+    }).total;
+
+    const weight = totalDirectKm > 0 ? directKm[index] / totalDirectKm : 1 / riders.length;
+    const share = routeFare * weight * Math.max(1, rider.surgeMultiplier);
+
+    return { bookingId: rider.bookingId, soloFare, fare: round2(Math.min(soloFare, share)) };
+  });
+}
+
+// Active pool pricing for a region, or null when the region has no active profile
+export async function loadPoolPricing(
+  regionId: string
+): Promise<{ pricing: ProfilePricing; caps: ComplianceCaps } | null> {
+  return await loadActivePricing(regionId, POOL_PRICING_SERVICE_KEY);
+}
@@ -0,0 +1,36 @@
+// Pricing profile store
+// Profiles, components, earnings policies and compliance rules live in xpress_ops.db, which the
+// /api/pricing/profiles routes edit directly. Fares read from here so they price what ops last saved.
+
+import path from 'path';
+
+import sqlite3 from 'sqlite3';
+
+const DB_PATH = path.join(process.cwd(), 'xpress_ops.db');
+
+export interface PricingStore {
+  get<T>(sql: string, params?: unknown[]): Promise<T | undefined>;
+  all<T>(sql: string, params?: unknown[]): Promise<T[]>;
+}
+
+/**
+ * Runs fn against a fresh connection to the pricing store, closing it afterwards.
+ * SQL is SQLite with ? placeholders, the same dialect the profile routes write with.
+ */
+export async function withPricingStore<T>(fn: (store: PricingStore) => Promise<T>): Promise<T> {
+  const db = new sqlite3.Database(DB_PATH);
+  const store: PricingStore = {
+    get: <R>(sql: string, params: unknown[] = []) => new Promise<R | undefined>((resolve, reject) => {
+      db.get(sql, params, (err, row) => (err ? reject(err) : resolve(row as R | undefined)));
+    }),
+    all: <R>(sql: string, params: unknown[] = []) => new Promise<R[]>((resolve, reject) => {
+      db.all(sql, params, (err, rows) => (err ? reject(err) : resolve(rows as R[])));
+    })
+  };
+
+  try {
+    return await fn(store);
+  } finally {
+    db.close();
+  }
+}
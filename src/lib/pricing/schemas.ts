@@ -133,6 +133,10 @@ export const PreviewRequest = z.object({
   origin: LatLon,
   destination: LatLon,
   timestamp: z.string(),
+  promoCodes: z.array(z.string().min(1).max(40)).max(5).optional(),
+  customerId: z.string().uuid().optional(),   // enables per-user and new-user promo rules
+  zoneId: z.string().optional(),
+  tollIds: z.array(z.number().int()).max(10).optional(),   // tolls on the route, priced as a real trip would be
 });
 export type PreviewRequest = z.infer<typeof PreviewRequest>;
 
@@ -142,6 +146,7 @@ export const FareLine = z.object({
   meta: z.string().optional(),
   publish: z.boolean().default(true),
   ruleId: z.number().int().optional(),
+  rule: z.string().optional(),      // fare engine rule, e.g. 'component:12' or 'cap:max_booking_fee'
 });
 export type FareLine = z.infer<typeof FareLine>;
 
@@ -151,6 +156,9 @@ export const PreviewResponse = z.object({
   driverEarnings: z.number(),
   companyTake: z.number(),
   notes: z.array(z.string()).default([]),
+  promoDiscount: z.number().optional(),
+  promos: z.array(z.object({ code: z.string(), name: z.string(), discountAmount: z.number() })).optional(),
+  rejectedPromos: z.array(z.object({ code: z.string(), reason: z.string() })).optional(),
 });
 export type PreviewResponse = z.infer<typeof PreviewResponse>;
 
@@ -0,0 +1,404 @@
+// Pricing Simulation Engine
+// Replays historical bookings through a candidate and a baseline pricing profile
+// and records per-trip fare deltas, revenue, driver earnings and compliance-cap hits
+
+import { getDb } from '@/lib/database';
+import { query } from '@/lib/db';
+import {
+  ComplianceCaps,
+  ProfilePricing,
+  componentValue,
+  computeFare,
+  loadComplianceCaps,
+  loadProfilePricing,
+  splitEarnings
+} from '@/lib/pricing/fareEngine';
+import { logger } from '@/lib/security/productionLogger';
+
+export interface SimulationTrip {
+  bookingId: string;
+  completedAt: string;
+  distanceKm: number;
+  durationMin: number;
+  surgeMultiplier: number;
+  historicalFare: number;
+  isAirport: boolean;
+}
+
+export interface TripFare {
+  fare: number;
+  driverEarnings: number;
+  capHits: string[];
+}
+
+export interface ReplayedTrip {
+  bookingId: string;
+  completedAt: string;
+  distanceKm: number;
+  durationMin: number;
+  surgeMultiplier: number;
+  baselineFare: number;
+  candidateFare: number;
+  fareDelta: number;
+  baselineDriverEarnings: number;
+  candidateDriverEarnings: number;
+  capHits: string[];
+}
+
+export interface SimulationMetrics {
+  summary: {
+    total_trips_analyzed: number;
+    baseline_revenue: number;
+    candidate_revenue: number;
+    revenue_impact: number;             // % change in total revenue
+    avg_fare_change: number;            // mean per-trip % change
+    avg_fare_delta: number;             // mean per-trip PHP change
+    baseline_driver_earnings: number;
+    candidate_driver_earnings: number;
+    driver_earnings_change: number;     // % change in total driver earnings
+    compliance_cap_hits: number;        // trips where at least one cap clamped the fare
+    trips_with_higher_fare: number;
+    trips_with_lower_fare: number;
+  };
+  cap_hits_by_rule: Record<string, number>;
+  time_breakdown: Array<{
+    hour: string;
+    trip_count: number;
+    fare_change_pct: number;
+    revenue_delta: number;
+  }>;
+}
+
+interface SimulationRow {
+  profile_id: number;
+  baseline_profile_id: number | null;
+  region_id: string;
+  service_key: string;
+  sample_window_start: string;
+  sample_window_end: string;
+}
+
+interface HistoricalBookingRow {
+  id: string | number;
+  total_fare: string | number | null;
+  surge_multiplier: string | number | null;
+  service_details: string | Record<string, unknown> | null;
+  actual_pickup_time: string | Date | null;
+  completed_at: string | Date;
+}
+
+const SAMPLE_LIMIT = 50000;
+const INSERT_CHUNK_SIZE = 200;
+
+const round2 = (value: number): number => Math.round(value * 100) / 100;
+
+const pctChange = (from: number, to: number): number =>
+  from === 0 ? 0 : round2(((to - from) / from) * 100);
+
+/** Price a single historical trip under a profile through the fare engine. */
+export function priceTrip(pricing: ProfilePricing, trip: SimulationTrip, caps: ComplianceCaps): TripFare {
+  const breakdown = computeFare({
+    pricing,
+    caps,
+    trip,
+    surge: { multiplier: trip.surgeMultiplier }
+  });
+  return { fare: breakdown.total, driverEarnings: breakdown.driverEarnings, capHits: breakdown.capHits };
+}
+
+/**
+ * Replay trips through the candidate profile. Without a baseline profile the
+ * historical fare is used as the baseline, split with the candidate's policy.
+ */
+export function replayTrips(
+  trips: SimulationTrip[],
+  candidate: ProfilePricing,
+  baseline: ProfilePricing | null,
+  caps: ComplianceCaps
+): ReplayedTrip[] {
+  return trips.map(trip => {
+    const candidateFare = priceTrip(candidate, trip, caps);
+
+    let baselineFare: number;
+    let baselineDriverEarnings: number;
+    if (baseline) {
+      const result = priceTrip(baseline, trip, caps);
+      baselineFare = result.fare;
+      baselineDriverEarnings = result.driverEarnings;
+    } else {
+      baselineFare = round2(trip.historicalFare);
+      baselineDriverEarnings = splitEarnings(
+        baselineFare, componentValue(candidate.components, 'booking_fee'), 0, candidate.revenueSplit
+      ).driverEarnings;
+    }
+
+    return {
+      bookingId: trip.bookingId,
+      completedAt: trip.completedAt,
+      distanceKm: trip.distanceKm,
+      durationMin: trip.durationMin,
+      surgeMultiplier: trip.surgeMultiplier,
+      baselineFare,
+      candidateFare: candidateFare.fare,
+      fareDelta: round2(candidateFare.fare - baselineFare),
+      baselineDriverEarnings,
+      candidateDriverEarnings: candidateFare.driverEarnings,
+      capHits: candidateFare.capHits
+    };
+  });
+}
+
+export function summarizeReplay(replayed: ReplayedTrip[]): SimulationMetrics {
+  let baselineRevenue = 0;
+  let candidateRevenue = 0;
+  let baselineEarnings = 0;
+  let candidateEarnings = 0;
+  let pctSum = 0;
+  let deltaSum = 0;
+  let capHitTrips = 0;
+  let higher = 0;
+  let lower = 0;
+  const capHitsByRule: Record<string, number> = {};
+  const byHour = new Map<number, { count: number; baseline: number; candidate: number }>();
+
+  for (const trip of replayed) {
+    baselineRevenue += trip.baselineFare;
+    candidateRevenue += trip.candidateFare;
+    baselineEarnings += trip.baselineDriverEarnings;
+    candidateEarnings += trip.candidateDriverEarnings;
+    pctSum += pctChange(trip.baselineFare, trip.candidateFare);
+    deltaSum += trip.fareDelta;
+
+    if (trip.fareDelta > 0) {
+      higher++;
+    } else if (trip.fareDelta < 0) {
+      lower++;
+    }
+
+    if (trip.capHits.length > 0) {
+      capHitTrips++;
+      for (const rule of trip.capHits) {
+        capHitsByRule[rule] = (capHitsByRule[rule] || 0) + 1;
+      }
+    }
+
+    const hour = new Date(trip.completedAt).getHours();
+    const bucket = byHour.get(hour) || { count: 0, baseline: 0, candidate: 0 };
+    bucket.count++;
+    bucket.baseline += trip.baselineFare;
+    bucket.candidate += trip.candidateFare;
+    byHour.set(hour, bucket);
+  }
+
+  const count = replayed.length;
+  const pad = (h: number) => String(h).padStart(2, '0');
+
+  return {
+    summary: {
+      total_trips_analyzed: count,
+      baseline_revenue: round2(baselineRevenue),
+      candidate_revenue: round2(candidateRevenue),
+      revenue_impact: pctChange(baselineRevenue, candidateRevenue),
+      avg_fare_change: count ? round2(pctSum / count) : 0,
+      avg_fare_delta: count ? round2(deltaSum / count) : 0,
+      baseline_driver_earnings: round2(baselineEarnings),
+      candidate_driver_earnings: round2(candidateEarnings),
+      driver_earnings_change: pctChange(baselineEarnings, candidateEarnings),
+      compliance_cap_hits: capHitTrips,
+      trips_with_higher_fare: higher,
+      trips_with_lower_fare: lower
+    },
+    cap_hits_by_rule: capHitsByRule,
+    time_breakdown: Array.from(byHour.entries())
+      .sort(([a], [b]) => a - b)
+      .map(([hour, bucket]) => ({
+        hour: `${pad(hour)}:00-${pad((hour + 1) % 24)}:00`,
+        trip_count: bucket.count,
+        fare_change_pct: pctChange(bucket.baseline, bucket.candidate),
+        revenue_delta: round2(bucket.candidate - bucket.baseline)
+      }))
+  };
+}
+
+class PricingSimulationRunner {
+  private queue: number[] = [];
+  private isProcessing = false;
+
+  // Queue a simulation; jobs run one at a time in the order they were requested
+  enqueue(simulationId: number): void {
+    if (this.queue.includes(simulationId)) {
+      return;
+    }
+    this.queue.push(simulationId);
+    this.drain().catch(error => {
+      logger.error('Pricing simulation queue stopped', {
+        simulationId,
+        error: (error as Error).message
+      }, { component: 'PricingSimulationRunner', action: 'enqueue' });
+    });
+  }
+
+  getQueueDepth(): number {
+    return this.queue.length;
+  }
+
+  private async drain(): Promise<void> {
+    if (this.isProcessing) {
+      return;
+    }
+    this.isProcessing = true;
+
+    try {
+      while (this.queue.length > 0) {
+        const simulationId = this.queue.shift()!;
+        await this.run(simulationId);
+      }
+    } finally {
+      this.isProcessing = false;
+    }
+  }
+
+  async run(simulationId: number): Promise<void> {
+    const db = await getDb();
+    const startTime = Date.now();
+
+    try {
+      const simulation = await db.get<SimulationRow>(
+        'SELECT * FROM pricing_simulations WHERE id = ?',
+        [simulationId]
+      );
+      if (!simulation) {
+        logger.warn('Pricing simulation not found', { simulationId }, { component: 'PricingSimulationRunner', action: 'run' });
+        return;
+      }
+
+      await db.run(`UPDATE pricing_simulations SET status = 'running' WHERE id = ?`, [simulationId]);
+
+      const candidate = await loadProfilePricing(simulation.profile_id);
+      const baseline = simulation.baseline_profile_id
+        ? await loadProfilePricing(simulation.baseline_profile_id)
+        : null;
+      const caps = await loadComplianceCaps(simulation.region_id, simulation.service_key);
+      const trips = await this.loadHistoricalTrips(
+        simulation.region_id,
+        simulation.service_key,
+        simulation.sample_window_start,
+        simulation.sample_window_end
+      );
+
+      const replayed = replayTrips(trips, candidate, baseline, caps);
+      await this.storeTrips(simulationId, replayed);
+
+      const metrics = summarizeReplay(replayed);
+      await db.run(`
+        UPDATE pricing_simulations
+        SET status = 'completed', metrics = ?, completed_at = ?
+        WHERE id = ?
+      `, [JSON.stringify(metrics), new Date().toISOString(), simulationId]);
+
+      logger.info('Pricing simulation completed', {
+        simulationId,
+        trips: replayed.length,
+        durationMs: Date.now() - startTime
+      }, { component: 'PricingSimulationRunner', action: 'run' });
+
+    } catch (error) {
+      logger.error('Pricing simulation failed', {
+        simulationId,
+        error: (error as Error).message
+      }, { component: 'PricingSimulationRunner', action: 'run' });
+
+      // A store that is down for the run is likely down for this too; keep draining the queue
+      try {
+        await db.run(`
+          UPDATE pricing_simulations
+          SET status = 'failed', metrics = ?, completed_at = ?
+          WHERE id = ?
+        `, [JSON.stringify({ error: (error as Error).message }), new Date().toISOString(), simulationId]);
+      } catch (updateError) {
+        logger.error('Pricing simulation could not be marked failed', {
+          simulationId,
+          error: (updateError as Error).message
+        }, { component: 'PricingSimulationRunner', action: 'run' });
+      }
+    }
+  }
+
+  private async loadHistoricalTrips(
+    regionId: string,
+    serviceKey: string,
+    windowStart: string,
+    windowEnd: string
+  ): Promise<SimulationTrip[]> {
+    // Bookings live in PostgreSQL, unlike the simulation tables the runner writes to
+    const { rows } = await query<HistoricalBookingRow>(`
+      SELECT id, total_fare, surge_multiplier, service_details, actual_pickup_time, completed_at
+      FROM bookings
+      WHERE status = 'completed'
+        AND region_id = $1
+        AND COALESCE(service_details->>'service_key', service_type) = $2
+        AND completed_at >= $3::timestamptz
+        AND completed_at <= $4::timestamptz
+      ORDER BY completed_at
+      LIMIT $5
+    `, [regionId, serviceKey, windowStart, windowEnd, SAMPLE_LIMIT]);
+
+    return rows.map(row => {
+      const details = typeof row.service_details === 'string'
+        ? JSON.parse(row.service_details || '{}')
+        : (row.service_details || {});
+
+      let durationMin = Number(details.duration_min) || 0;
+      if (!durationMin && row.actual_pickup_time) {
+        const elapsedMs = new Date(row.completed_at).getTime() - new Date(row.actual_pickup_time).getTime();
+        durationMin = Math.max(0, elapsedMs / 60000);
+      }
+
+      return {
+        bookingId: String(row.id),
+        completedAt: new Date(row.completed_at).toISOString(),
+        distanceKm: Number(details.distance_km) || 0,
+        durationMin: round2(durationMin),
+        surgeMultiplier: Number(row.surge_multiplier) || 1,
+        historicalFare: Number(row.total_fare) || 0,
+        isAirport: Boolean(details.is_airport)
+      };
+    });
+  }
+
+  private async storeTrips(simulationId: number, replayed: ReplayedTrip[]): Promise<void> {
+    const db = await getDb();
+
+    // Re-running a simulation replaces its previous breakdown
+    await db.run('DELETE FROM pricing_simulation_trips WHERE simulation_id = ?', [simulationId]);
+
+    for (let i = 0; i < replayed.length; i += INSERT_CHUNK_SIZE) {
+      const chunk = replayed.slice(i, i + INSERT_CHUNK_SIZE);
+      const placeholders = chunk.map(() => '(?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)').join(', ');
+      const params = chunk.flatMap(trip => [
+        simulationId,
+        trip.bookingId,
+        trip.completedAt,
+        trip.distanceKm,
+        trip.durationMin,
+        trip.surgeMultiplier,
+        trip.baselineFare,
+        trip.candidateFare,
+        trip.fareDelta,
+        trip.baselineDriverEarnings,
+        trip.candidateDriverEarnings,
+        JSON.stringify(trip.capHits)
+      ]);
+
+      await db.run(`
+        INSERT INTO pricing_simulation_trips (
+          simulation_id, booking_id, trip_completed_at, distance_km, duration_min, surge_multiplier,
+          baseline_fare, candidate_fare, fare_delta,
+          baseline_driver_earnings, candidate_driver_earnings, cap_hits
+        ) VALUES ${placeholders}
+      `, params);
+    }
+  }
+}
+
+export const pricingSimulationRunner = new PricingSimulationRunner();
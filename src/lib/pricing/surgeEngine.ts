@@ -0,0 +1,419 @@
+// Surge Engine
+// Turns per-hex demand/supply signals into surge_hex_state rows for every active and shadow
+// surge profile. Each profile is recomputed every updateIntervalSec: the raw multiplier from
+// the last few minutes of surge_signals is smoothed towards the previous value with the
+// profile's half-life, capped at maxMultiplier and written with a short validity window.
+// Shadow profiles store their rows under source 'shadow', which lookup ignores.
+
+import { getResolution } from 'h3-js';
+import cron, { ScheduledTask } from 'node-cron';
+
+import { getDb } from '@/lib/database';
+import { SurgeProfileDTO } from '@/lib/pricing/surgeSchemas';
+import { logger } from '@/lib/security/productionLogger';
+
+export interface SurgeSignalRow {
+  h3_index: string;
+  ts_minute: string;
+  req_count: number;
+  searchers: number;
+  active_drivers: number;
+  avg_eta_sec: number | null;
+  cancels: number;
+  weather_score: number | null;
+  traffic_score: number | null;
+  event_score: number | null;
+}
+
+// One hex's signals summed over the engine window
+export interface CellSignals {
+  h3Index: string;
+  minutes: number;
+  requests: number;
+  searchers: number;
+  cancels: number;
+  avgActiveDrivers: number;
+  avgEtaSec: number | null;
+  weatherScore: number;
+  trafficScore: number;
+  eventScore: number;
+}
+
+export interface CellSurge {
+  multiplier: number;
+  additiveFee: number;
+}
+
+export interface PreviousCellState extends CellSurge {
+  computedAt: string;
+}
+
+export interface ComputedHexState extends CellSurge {
+  h3Index: string;
+  h3Res: number;
+  targetMultiplier: number;
+}
+
+// Minutes of signals behind each computation
+const SIGNAL_WINDOW_MINUTES = 10;
+
+// Searchers who have not booked count as half a request
+const SEARCHER_WEIGHT = 0.5;
+
+// Below this much demand in the window a hex is too quiet to surge on supply alone
+const MIN_DEMAND = 3;
+
+// Each request per available driver above balance adds this much to the multiplier
+const DEMAND_SENSITIVITY = 0.25;
+
+// Pickup ETAs beyond the target add to the multiplier per extra minute, up to the cap
+const TARGET_ETA_SEC = 480;
+const ETA_STEP_PER_MINUTE = 0.05;
+const MAX_ETA_BOOST = 0.3;
+
+// Share of requests cancelled adds to the multiplier, up to the cap
+const CANCEL_WEIGHT = 0.2;
+
+// Weather, traffic and event scores (0..1) as multiplier steps, or as pesos when the
+// profile prices them additively; the fee stays within the surge validation limit
+const EXTERNAL_MULTIPLIER_WEIGHTS = { weather: 0.3, traffic: 0.15, event: 0.3 };
+const EXTERNAL_FEE_WEIGHTS = { weather: 40, traffic: 20, event: 40 };
+const MAX_ADDITIVE_FEE = 100;
+
+// Rows outlive one interval so a late tick does not drop the hex back to 1.0
+const VALIDITY_INTERVALS = 2;
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+// ============================================================================
+// COMPUTATION
+// ============================================================================
+
+export function aggregateSignals(rows: SurgeSignalRow[]): Map<string, CellSignals> {
+  const grouped = new Map<string, SurgeSignalRow[]>();
+  rows.forEach(row => grouped.set(row.h3_index, [...(grouped.get(row.h3_index) ?? []), row]));
+
+  const cells = new Map<string, CellSignals>();
+  grouped.forEach((cellRows, h3Index) => {
+    const sum = (pick: (row: SurgeSignalRow) => number | null) =>
+      cellRows.reduce((total, row) => total + (Number(pick(row)) || 0), 0);
+    const max = (pick: (row: SurgeSignalRow) => number | null) =>
+      Math.max(0, ...cellRows.map(row => Number(pick(row)) || 0));
+    const requests = sum(row => row.req_count);
+
+    // ETA averaged over requests where there were any, else over the minutes that have one
+    const withEta = cellRows.filter(row => row.avg_eta_sec !== null);
+    const etaWeight = (row: SurgeSignalRow) => (requests > 0 ? Number(row.req_count) : 1);
+    const etaWeights = withEta.reduce((total, row) => total + etaWeight(row), 0);
+
+    cells.set(h3Index, {
+      h3Index,
+      minutes: cellRows.length,
+      requests,
+      searchers: sum(row => row.searchers),
+      cancels: sum(row => row.cancels),
+      avgActiveDrivers: sum(row => row.active_drivers) / cellRows.length,
+      avgEtaSec: etaWeights > 0
+        ? withEta.reduce((total, row) => total + Number(row.avg_eta_sec) * etaWeight(row), 0) / etaWeights
+        : null,
+      weatherScore: max(row => row.weather_score),
+      trafficScore: max(row => row.traffic_score),
+      eventScore: max(row => row.event_score)
+    });
+  });
+  return cells;
+}
+
+/**
+ * Target surge for one hex before smoothing. Demand is requests plus weighted searchers
+ * against the average number of available drivers; long ETAs and cancellations add on
+ * top. Weather, traffic and event scores add to the multiplier, or become an additive
+ * fee when the profile has additiveEnabled. Taxi is never surged.
+ */
+export function computeCellSurge(cell: CellSignals, profile: SurgeProfileDTO): CellSurge {
+  if (profile.serviceKey === 'taxi') {
+    return { multiplier: 1, additiveFee: 0 };
+  }
+
+  const demand = cell.requests + SEARCHER_WEIGHT * cell.searchers;
+  let multiplier = 1;
+
+  if (demand >= MIN_DEMAND) {
+    const ratio = demand / Math.max(cell.avgActiveDrivers, 1);
+    multiplier += DEMAND_SENSITIVITY * Math.max(0, ratio - 1);
+    multiplier += CANCEL_WEIGHT * Math.min(1, cell.cancels / Math.max(cell.requests, 1));
+  }
+  if (cell.avgEtaSec !== null && cell.avgEtaSec > TARGET_ETA_SEC) {
+    multiplier += Math.min(MAX_ETA_BOOST, (cell.avgEtaSec - TARGET_ETA_SEC) / 60 * ETA_STEP_PER_MINUTE);
+  }
+
+  const external = (weights: { weather: number; traffic: number; event: number }) =>
+    weights.weather * cell.weatherScore + weights.traffic * cell.trafficScore + weights.event * cell.eventScore;
+
+  let additiveFee = 0;
+  if (profile.additiveEnabled) {
+    additiveFee = Math.min(MAX_ADDITIVE_FEE, external(EXTERNAL_FEE_WEIGHTS));
+  } else {
+    multiplier += external(EXTERNAL_MULTIPLIER_WEIGHTS);
+  }
+
+  return {
+    multiplier: Math.min(profile.maxMultiplier, Math.max(1, multiplier)),
+    additiveFee
+  };
+}
+
+// Moves `previous` towards `target`, covering half the gap every halfLifeSec
+export function smoothTowards(previous: number, target: number, elapsedSec: number, halfLifeSec: number): number {
+  const weight = 1 - Math.pow(0.5, Math.max(0, elapsedSec) / halfLifeSec);
+  return previous + (target - previous) * weight;
+}
+
+/**
+ * Surge state for every hex the profile has signals for or was surging last time. Hexes
+ * without signals decay back to 1.0; a hex settling at 1.0 gets one last row so its
+ * previous surge does not linger, then drops out.
+ */
+export function computeProfileState(
+  profile: SurgeProfileDTO,
+  cells: Map<string, CellSignals>,
+  previous: Map<string, PreviousCellState>,
+  now: Date = new Date()
+): ComputedHexState[] {
+  if (profile.serviceKey === 'taxi') {
+    return [];
+  }
+
+  const h3Indexes = new Set([...Array.from(cells.keys()), ...Array.from(previous.keys())]);
+  const states: ComputedHexState[] = [];
+
+  h3Indexes.forEach(h3Index => {
+    const cell = cells.get(h3Index);
+    const target = cell ? computeCellSurge(cell, profile) : { multiplier: 1, additiveFee: 0 };
+    const last = previous.get(h3Index);
+    const elapsedSec = last
+      ? (now.getTime() - new Date(last.computedAt).getTime()) / 1000
+      : profile.updateIntervalSec;
+    const from = last ?? { multiplier: 1, additiveFee: 0 };
+
+    const multiplier = Math.min(profile.maxMultiplier, Math.max(1, round2(
+      smoothTowards(from.multiplier, target.multiplier, elapsedSec, profile.smoothingHalfLifeSec)
+    )));
+    const additiveFee = profile.additiveEnabled
+      ? Math.round(smoothTowards(from.additiveFee, target.additiveFee, elapsedSec, profile.smoothingHalfLifeSec))
+      : 0;
+
+    const surging = multiplier > 1 || additiveFee > 0;
+    const wasSurging = last !== undefined && (last.multiplier > 1 || last.additiveFee > 0);
+    if (!surging && !wasSurging) {
+      return;
+    }
+
+    states.push({
+      h3Index,
+      h3Res: getResolution(h3Index),
+      multiplier,
+      additiveFee,
+      targetMultiplier: round2(target.multiplier)
+    });
+  });
+
+  return states.sort((a, b) => a.h3Index.localeCompare(b.h3Index));
+}
+
+// ============================================================================
+// PERSISTENCE
+// ============================================================================
+
+export function mapSurgeProfile(row: Record<string, unknown>): SurgeProfileDTO {
+  return {
+    id: Number(row.id),
+    regionId: String(row.region_id),
+    serviceKey: row.service_key as SurgeProfileDTO['serviceKey'],
+    name: String(row.name),
+    status: row.status as SurgeProfileDTO['status'],
+    modelVersion: String(row.model_version),
+    maxMultiplier: Number(row.max_multiplier),
+    additiveEnabled: Boolean(Number(row.additive_enabled)),
+    smoothingHalfLifeSec: Number(row.smoothing_half_life_sec),
+    updateIntervalSec: Number(row.update_interval_sec),
+    notes: (row.notes as string | null) ?? null,
+    createdAt: String(row.created_at),
+    createdBy: (row.created_by as string | null) ?? null,
+    updatedAt: String(row.updated_at),
+    updatedBy: (row.updated_by as string | null) ?? null
+  };
+}
+
+async function loadRunnableProfiles(): Promise<SurgeProfileDTO[]> {
+  const db = await getDb();
+  const rows = await db.all(`
+    SELECT * FROM surge_profiles
+    WHERE status IN ('active', 'shadow') AND service_key != 'taxi'
+    ORDER BY id
+  `);
+  return rows.map(mapSurgeProfile);
+}
+
+async function loadSignals(regionId: string, now: Date): Promise<SurgeSignalRow[]> {
+  const db = await getDb();
+  const windowStart = new Date(now.getTime() - SIGNAL_WINDOW_MINUTES * 60_000).toISOString();
+  return db.all<SurgeSignalRow>(`
+    SELECT h3_index, ts_minute, req_count, searchers, active_drivers, avg_eta_sec, cancels,
+           weather_score, traffic_score, event_score
+    FROM surge_signals
+    WHERE region_id = ?
+      AND datetime(ts_minute) >= datetime(?)
+      AND datetime(ts_minute) < datetime(?)
+  `, [regionId, windowStart, now.toISOString()]);
+}
+
+// Latest row per hex from the profile's previous runs that could still be smoothed from
+async function loadPreviousState(profile: SurgeProfileDTO, now: Date): Promise<Map<string, PreviousCellState>> {
+  const db = await getDb();
+  const since = new Date(now.getTime() - profile.updateIntervalSec * VALIDITY_INTERVALS * 1000).toISOString();
+  const rows = await db.all<{ h3_index: string; multiplier: number; additive_fee: number | null; computed_at: string }>(`
+    SELECT h3_index, multiplier, additive_fee, computed_at
+    FROM surge_hex_state
+    WHERE profile_id = ?
+      AND source = ?
+      AND datetime(computed_at) >= datetime(?)
+    ORDER BY computed_at
+  `, [profile.id, sourceFor(profile), since]);
+
+  const previous = new Map<string, PreviousCellState>();
+  rows.forEach(row => previous.set(row.h3_index, {
+    multiplier: Number(row.multiplier),
+    additiveFee: Number(row.additive_fee) || 0,
+    computedAt: row.computed_at
+  }));
+  return previous;
+}
+
+function sourceFor(profile: SurgeProfileDTO): 'ml' | 'shadow' {
+  return profile.status === 'shadow' ? 'shadow' : 'ml';
+}
+
+const INSERT_CHUNK_SIZE = 200;
+
+async function storeState(profile: SurgeProfileDTO, states: ComputedHexState[], now: Date): Promise<void> {
+  const db = await getDb();
+  const validFrom = now.toISOString();
+  const validUntil = new Date(now.getTime() + profile.updateIntervalSec * VALIDITY_INTERVALS * 1000).toISOString();
+
+  for (let i = 0; i < states.length; i += INSERT_CHUNK_SIZE) {
+    const chunk = states.slice(i, i + INSERT_CHUNK_SIZE);
+    const placeholders = chunk.map(() => '(?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)').join(', ');
+    const params = chunk.flatMap(state => [
+      profile.regionId,
+      profile.serviceKey,
+      state.h3Index,
+      state.h3Res,
+      state.multiplier,
+      state.additiveFee,
+      sourceFor(profile),
+      profile.id,
+      validFrom,
+      validUntil,
+      validFrom
+    ]);
+
+    await db.run(`
+      INSERT INTO surge_hex_state (
+        region_id, service_key, h3_index, h3_res, multiplier, additive_fee,
+        source, profile_id, valid_from, valid_until, computed_at
+      ) VALUES ${placeholders}
+    `, params);
+  }
+}
+
+// Computes and stores one profile's surge state; returns the hexes written
+export async function runSurgeProfile(profile: SurgeProfileDTO, now: Date = new Date()): Promise<number> {
+  const cells = aggregateSignals(await loadSignals(profile.regionId, now));
+  const previous = await loadPreviousState(profile, now);
+  const states = computeProfileState(profile, cells, previous, now);
+  await storeState(profile, states, now);
+  return states.length;
+}
+
+// ============================================================================
+// SCHEDULER
+// ============================================================================
+
+class SurgeEngine {
+  private task: ScheduledTask | null = null;
+  private lastRunAt = new Map<number, number>();
+  private readonly schedule = process.env.SURGE_ENGINE_SCHEDULE || '* * * * *';
+  private readonly timezone = process.env.SURGE_ENGINE_TIMEZONE || 'Asia/Manila';
+
+  // Start checking every schedule tick for profiles whose update interval is up
+  start(): void {
+    if (this.task) {
+      logger.info('Surge engine is already running');
+      return;
+    }
+    if (process.env.SURGE_ENGINE_ENABLED === 'false') {
+      logger.info('Surge engine disabled by SURGE_ENGINE_ENABLED');
+      return;
+    }
+    if (!cron.validate(this.schedule)) {
+      logger.error(`Invalid SURGE_ENGINE_SCHEDULE "${this.schedule}"; surge engine not started`);
+      return;
+    }
+
+    logger.info(`Checking surge profiles at "${this.schedule}" (${this.timezone})`);
+    this.task = cron.schedule(this.schedule, () => this.tick(), {
+      name: 'surge-engine',
+      timezone: this.timezone,
+      noOverlap: true
+    });
+  }
+
+  // Stop the engine
+  stop(): void {
+    if (!this.task) {
+      return;
+    }
+
+    logger.info('Stopping surge engine');
+    this.task.stop();
+    this.task = null;
+  }
+
+  // Runs every active and shadow profile that is due; a failing profile does not hold up the rest
+  async tick(now: Date = new Date()): Promise<void> {
+    let profiles: SurgeProfileDTO[];
+    try {
+      profiles = await loadRunnableProfiles();
+    } catch (error) {
+      logger.error('Failed to load surge profiles', {
+        error: error instanceof Error ? error.message : String(error)
+      }, { component: 'SurgeEngine', action: 'tick' });
+      return;
+    }
+
+    for (const profile of profiles) {
+      const lastRunAt = this.lastRunAt.get(profile.id);
+      if (lastRunAt !== undefined && now.getTime() - lastRunAt < profile.updateIntervalSec * 1000) {
+        continue;
+      }
+
+      try {
+        const hexes = await runSurgeProfile(profile, now);
+        this.lastRunAt.set(profile.id, now.getTime());
+        logger.debug('Surge profile computed', {
+          profileId: profile.id,
+          status: profile.status,
+          hexes
+        }, { component: 'SurgeEngine', action: 'tick' });
+      } catch (error) {
+        logger.error('Surge profile computation failed', {
+          profileId: profile.id,
+          error: error instanceof Error ? error.message : String(error)
+        }, { component: 'SurgeEngine', action: 'tick' });
+      }
+    }
+  }
+}
+
+export const surgeEngine = new SurgeEngine();
@@ -0,0 +1,244 @@
+// Surge Resolver
+// Decides the surge for a pickup hex at a point in time from every rule that could apply.
+//
+// Precedence, highest first:
+//   1. Taxi is never surged; every other rule is excluded.
+//   2. Manual overrides (approved, inside their window) whose H3 set holds the origin hex
+//      or one of its parents.
+//   3. Surge schedules (approved or active, inside their window): H3-set schedules before
+//      region-wide ones, which need the lookup to name its region.
+//   4. Surge engine state ('ml' rows in surge_hex_state; shadow rows never apply).
+//   5. No surge: 1.0 and no additive fee.
+// Within a tier the rule on the finest hex wins. Overrides and schedules then go to the
+// higher multiplier, engine state to the newest row; the lowest ID breaks any tie left.
+//
+// Overrides and schedules are read from their own tables so approval-gated and region-wide
+// rules apply without being copied into surge_hex_state; the 'manual' and 'scheduled' rows
+// there are kept for the heatmap only.
+
+import { cellToParent, getResolution } from 'h3-js';
+
+import { getDb } from '@/lib/database';
+import { SurgeCandidateDTO, SurgeLookupRequest, SurgeLookupResponse } from '@/lib/pricing/surgeSchemas';
+
+export type SurgeRuleCandidate = Omit<SurgeCandidateDTO, 'outcome' | 'reason'>;
+
+// Coarsest parent of the origin hex that rules are matched on
+const MIN_LOOKUP_RES = 6;
+
+const TIER: Record<string, number> = { manual: 0, scheduled: 1, ml: 2 };
+
+const TIER_NAMES: Record<string, string> = {
+  manual: 'manual override',
+  scheduled: 'surge schedule',
+  ml: 'surge engine state'
+};
+
+// The origin hex followed by its parents, finest first
+export function originCells(originH3: string): string[] {
+  const cells = [originH3];
+  for (let res = getResolution(originH3) - 1; res >= MIN_LOOKUP_RES; res--) {
+    cells.push(cellToParent(originH3, res));
+  }
+  return cells;
+}
+
+function compareCandidates(a: SurgeRuleCandidate, b: SurgeRuleCandidate): number {
+  return TIER[a.source] - TIER[b.source]
+    || (a.scope === b.scope ? 0 : a.scope === 'hex' ? -1 : 1)
+    || b.h3Res - a.h3Res
+    || (a.source === 'ml'
+      ? new Date(b.validFrom).getTime() - new Date(a.validFrom).getTime()
+      : b.multiplier - a.multiplier)
+    || (a.ruleId ?? 0) - (b.ruleId ?? 0);
+}
+
+/**
+ * Applies the precedence above to the candidates found for a lookup. The winner's rule
+ * and every candidate's outcome are returned; callers drop the list unless explaining.
+ */
+export function resolveSurge(
+  request: Pick<SurgeLookupRequest, 'serviceKey' | 'originH3'>,
+  candidates: SurgeRuleCandidate[]
+): SurgeLookupResponse & { candidates: SurgeCandidateDTO[] } {
+  const originRes = getResolution(request.originH3);
+
+  if (request.serviceKey === 'taxi') {
+    return {
+      multiplier: 1.0,
+      additiveFee: 0,
+      source: 'ml',
+      h3Res: originRes,
+      rule: 'taxi_exclusion',
+      candidates: candidates.map(candidate => ({
+        ...candidate,
+        outcome: 'excluded',
+        reason: 'taxi fares are never surged'
+      }))
+    };
+  }
+
+  const ranked = [...candidates].sort(compareCandidates);
+  const winner = ranked[0];
+  const explained: SurgeCandidateDTO[] = ranked.map((candidate, index) => ({
+    ...candidate,
+    outcome: index === 0 ? 'won' : 'outranked',
+    reason: index === 0
+      ? `highest precedence: ${TIER_NAMES[candidate.source]}`
+      : `outranked by ${winner.rule}`
+  }));
+
+  if (!winner) {
+    return { multiplier: 1.0, additiveFee: 0, source: 'ml', h3Res: originRes, rule: 'default', candidates: [] };
+  }
+  return {
+    multiplier: winner.multiplier,
+    additiveFee: winner.additiveFee,
+    source: winner.source,
+    h3Res: winner.h3Res,
+    ruleId: winner.ruleId ?? undefined,
+    rule: winner.rule,
+    candidates: explained
+  };
+}
+
+// ============================================================================
+// CANDIDATES
+// ============================================================================
+
+interface RuleRow {
+  id: number;
+  region_id: string;
+  multiplier: number;
+  additive_fee: number | null;
+  h3_set: string | null;
+  starts_at: string;
+  ends_at: string;
+}
+
+// Finest origin cell in the rule's H3 set, if any
+function matchH3Set(h3Set: string, cells: string[]): string | null {
+  const set = new Set<string>(JSON.parse(h3Set));
+  return cells.find(cell => set.has(cell)) ?? null;
+}
+
+function ruleCandidate(
+  row: RuleRow,
+  source: 'manual' | 'scheduled',
+  matched: string | null,
+  originRes: number
+): SurgeRuleCandidate {
+  return {
+    rule: `${source === 'manual' ? 'override' : 'schedule'}:${row.id}`,
+    source,
+    ruleId: Number(row.id),
+    scope: matched ? 'hex' : 'region',
+    h3Index: matched,
+    h3Res: matched ? getResolution(matched) : originRes,
+    multiplier: Number(row.multiplier),
+    additiveFee: Number(row.additive_fee) || 0,
+    validFrom: row.starts_at,
+    validUntil: row.ends_at
+  };
+}
+
+// Every override, schedule and engine row that covers the origin at the lookup time
+export async function loadSurgeCandidates(
+  request: Pick<SurgeLookupRequest, 'serviceKey' | 'originH3' | 'timestamp' | 'regionId'>
+): Promise<SurgeRuleCandidate[]> {
+  const db = await getDb();
+  const cells = originCells(request.originH3);
+  const originRes = getResolution(request.originH3);
+  const { serviceKey, timestamp } = request;
+
+  const overrides = await db.all<RuleRow>(`
+    SELECT id, region_id, multiplier, additive_fee, h3_set, starts_at, ends_at
+    FROM surge_overrides
+    WHERE service_key = ?
+      AND status = 'approved'
+      AND datetime(starts_at) <= datetime(?)
+      AND datetime(ends_at) > datetime(?)
+  `, [serviceKey, timestamp, timestamp]);
+
+  const schedules = await db.all<RuleRow>(`
+    SELECT id, region_id, multiplier, additive_fee, h3_set, starts_at, ends_at
+    FROM surge_schedules
+    WHERE service_key = ?
+      AND status IN ('approved', 'active')
+      AND datetime(starts_at) <= datetime(?)
+      AND datetime(ends_at) > datetime(?)
+  `, [serviceKey, timestamp, timestamp]);
+
+  const engineRows = await db.all<{
+    id: number;
+    h3_index: string;
+    h3_res: number;
+    multiplier: number;
+    additive_fee: number | null;
+    profile_id: number | null;
+    valid_from: string;
+    valid_until: string | null;
+  }>(`
+    SELECT id, h3_index, h3_res, multiplier, additive_fee, profile_id, valid_from, valid_until
+    FROM surge_hex_state
+    WHERE service_key = ?
+      AND source = 'ml'
+      AND h3_index IN (${cells.map(() => '?').join(', ')})
+      AND datetime(valid_from) <= datetime(?)
+      AND (valid_until IS NULL OR datetime(valid_until) > datetime(?))
+  `, [serviceKey, ...cells, timestamp, timestamp]);
+
+  const candidates: SurgeRuleCandidate[] = [];
+
+  overrides.forEach(row => {
+    const matched = matchH3Set(row.h3_set ?? '[]', cells);
+    if (matched) {
+      candidates.push(ruleCandidate(row, 'manual', matched, originRes));
+    }
+  });
+
+  schedules.forEach(row => {
+    if (row.h3_set) {
+      const matched = matchH3Set(row.h3_set, cells);
+      if (matched) {
+        candidates.push(ruleCandidate(row, 'scheduled', matched, originRes));
+      }
+    } else if (request.regionId && row.region_id === request.regionId) {
+      candidates.push(ruleCandidate(row, 'scheduled', null, originRes));
+    }
+  });
+
+  // Only the newest row per profile and hex is still that profile's view of the hex
+  const latest = new Map<string, (typeof engineRows)[number]>();
+  engineRows.forEach(row => {
+    const key = `${row.profile_id}|${row.h3_index}`;
+    const current = latest.get(key);
+    if (!current || new Date(row.valid_from) > new Date(current.valid_from)) {
+      latest.set(key, row);
+    }
+  });
+  latest.forEach(row => candidates.push({
+    rule: row.profile_id !== null ? `profile:${row.profile_id}` : `hex_state:${row.id}`,
+    source: 'ml',
+    ruleId: row.profile_id !== null ? Number(row.profile_id) : null,
+    scope: 'hex',
+    h3Index: row.h3_index,
+    h3Res: Number(row.h3_res),
+    multiplier: Number(row.multiplier),
+    additiveFee: Number(row.additive_fee) || 0,
+    validFrom: row.valid_from,
+    validUntil: row.valid_until
+  }));
+
+  return candidates;
+}
+
+export async function lookupSurge(
+  request: Pick<SurgeLookupRequest, 'serviceKey' | 'originH3' | 'timestamp' | 'regionId' | 'explain'>
+): Promise<SurgeLookupResponse> {
+  const candidates = request.serviceKey === 'taxi' && !request.explain
+    ? []
+    : await loadSurgeCandidates(request);
+  const { candidates: explained, ...result } = resolveSurge(request, candidates);
+  return request.explain ? { ...result, candidates: explained } : result;
+}
@@ -129,6 +129,13 @@ export const SurgeSignalDTO = z.object({
 });
 export type SurgeSignalDTO = z.infer<typeof SurgeSignalDTO>;
 
+export const BackfillSurgeSignalsRequest = z.object({
+  regionId: z.string(),
+  from: z.string().datetime(),
+  to: z.string().datetime(),
+});
+export type BackfillSurgeSignalsRequest = z.infer<typeof BackfillSurgeSignalsRequest>;
+
 export const SurgeHexMetaDTO = z.object({
   regionId: z.string(),
   h3Index: z.string(),
@@ -143,14 +150,38 @@ export const SurgeLookupRequest = z.object({
   serviceKey: ServiceKey,
   originH3: z.string(),
   timestamp: z.string().datetime(),
+  // Region of the origin; region-wide schedules only apply when it is given
+  regionId: z.string().optional(),
+  // Set by rider apps checking a price so the lookup counts as a searcher in surge signals
+  riderSearch: z.boolean().optional(),
+  // Also return every candidate rule considered
+  explain: z.boolean().optional(),
 });
 export type SurgeLookupRequest = z.infer<typeof SurgeLookupRequest>;
 
+export const SurgeCandidateDTO = z.object({
+  rule: z.string(),                                   // 'override:12', 'schedule:4', 'profile:7'
+  source: SurgeSource,
+  ruleId: z.number().int().nullable(),
+  scope: z.enum(["hex","region"]),
+  h3Index: z.string().nullable(),                     // hex the rule matched on; null for region-wide
+  h3Res: z.number().int(),
+  multiplier: z.number(),
+  additiveFee: z.number(),
+  validFrom: z.string(),
+  validUntil: z.string().nullable(),
+  outcome: z.enum(["won","outranked","excluded"]),
+  reason: z.string(),
+});
+export type SurgeCandidateDTO = z.infer<typeof SurgeCandidateDTO>;
+
 export const SurgeLookupResponse = z.object({
   multiplier: z.number(),
   additiveFee: z.number(),
   source: SurgeSource,
   h3Res: z.number().int(),
   ruleId: z.number().int().optional(),
+  rule: z.string(),                                   // winning candidate, 'taxi_exclusion' or 'default'
+  candidates: z.array(SurgeCandidateDTO).optional(),
 });
 export type SurgeLookupResponse = z.infer<typeof SurgeLookupResponse>;
\ No newline at end of file
@@ -0,0 +1,480 @@
+// Surge Signal Aggregator
+// Buckets ride requests, rider searches, cancellations and available drivers by region,
+// H3 hex and minute, joins weather/traffic/event scores from ingested pricing events and
+// writes the result to surge_signals for the surge engine. Live buckets are written once
+// their minute is over; past windows can be rebuilt from historical bookings.
+
+import { cellToLatLng, latLngToCell } from 'h3-js';
+
+import { getDb } from '@/lib/database';
+import { query } from '@/lib/db';
+import type { LocationUpdate } from '@/lib/locationBatching';
+import { distanceKm } from '@/lib/matching/pooling';
+import { eventIngestionService, PricingEventWindow } from '@/lib/pricing/event-ingestion';
+import { logger } from '@/lib/security/productionLogger';
+
+export interface SignalEvent {
+  regionId: string;
+  latitude: number;
+  longitude: number;
+  timestamp: number;                   // ms since epoch
+}
+
+export interface SignalBucket {
+  regionId: string;
+  h3Index: string;
+  minute: number;                      // ms since epoch, start of the minute
+  requests: number;
+  searchers: number;
+  cancels: number;
+  drivers: Set<string>;
+  etaTotalSec: number;
+  etaCount: number;
+}
+
+export interface EventScores {
+  weatherScore: number | null;
+  trafficScore: number | null;
+  eventScore: number | null;
+}
+
+export interface SurgeSignalInsert extends EventScores {
+  regionId: string;
+  h3Index: string;
+  tsMinute: string;
+  reqCount: number;
+  searchers: number;
+  activeDrivers: number;
+  avgEtaSec: number | null;
+  cancels: number;
+}
+
+export interface BackfillResult {
+  regionId: string;
+  from: string;
+  to: string;
+  rows: number;
+}
+
+interface BackfillBookingRow {
+  created_at: string | Date;
+  estimated_pickup_time: string | Date | null;
+  cancelled_at: string | Date | null;
+  pickup_latitude: string | number;
+  pickup_longitude: string | number;
+  scheduled: boolean;
+}
+
+interface BackfillLocationRow {
+  driver_id: string;
+  latitude: string | number;
+  longitude: string | number;
+  driver_status: LocationUpdate['status'];
+  is_available: boolean;
+  recorded_at: string | Date;
+}
+
+const SURGE_SIGNAL_ERROR_STATUS: Record<string, number> = {
+  invalid_backfill_window: 400
+};
+
+export function surgeSignalErrorStatus(error: unknown): number | null {
+  const code = error instanceof Error ? error.message.split(':')[0] : '';
+  return SURGE_SIGNAL_ERROR_STATUS[code] ?? null;
+}
+
+// Same resolution manual overrides are written at
+export const SURGE_SIGNAL_H3_RES = 8;
+
+const FLUSH_INTERVAL_MS = 15_000;
+
+// Location batches and status changes arriving this late still land in their own minute
+const LATE_ARRIVAL_GRACE_MS = 30_000;
+
+const MAX_BACKFILL_DAYS = 7;
+
+const SEVERITY_SCORES: Record<PricingEventWindow['severity'], number> = {
+  low: 0.25,
+  medium: 0.5,
+  high: 0.75,
+  critical: 1
+};
+
+const INSERT_CHUNK_SIZE = 200;
+
+// ============================================================================
+// BUCKETING
+// ============================================================================
+
+type SignalKind = 'request' | 'search' | 'cancel';
+
+function bucketFor(buckets: Map<string, SignalBucket>, event: SignalEvent): SignalBucket {
+  const h3Index = latLngToCell(event.latitude, event.longitude, SURGE_SIGNAL_H3_RES);
+  const minute = Math.floor(event.timestamp / 60_000) * 60_000;
+  const key = `${event.regionId}|${h3Index}|${minute}`;
+
+  let bucket = buckets.get(key);
+  if (!bucket) {
+    bucket = {
+      regionId: event.regionId,
+      h3Index,
+      minute,
+      requests: 0,
+      searchers: 0,
+      cancels: 0,
+      drivers: new Set(),
+      etaTotalSec: 0,
+      etaCount: 0
+    };
+    buckets.set(key, bucket);
+  }
+  return bucket;
+}
+
+export function addSignal(
+  buckets: Map<string, SignalBucket>,
+  kind: SignalKind,
+  event: SignalEvent & { etaSec?: number | null }
+): void {
+  const bucket = bucketFor(buckets, event);
+  if (kind === 'request') {
+    bucket.requests++;
+    if (event.etaSec !== undefined && event.etaSec !== null) {
+      bucket.etaTotalSec += Math.max(0, event.etaSec);
+      bucket.etaCount++;
+    }
+  } else if (kind === 'search') {
+    bucket.searchers++;
+  } else {
+    bucket.cancels++;
+  }
+}
+
+// Only drivers online and free to take a ride count as supply
+export function addDriverLocations(buckets: Map<string, SignalBucket>, updates: LocationUpdate[]): void {
+  updates
+    .filter(update => update.status === 'active' && update.isAvailable)
+    .forEach(update => bucketFor(buckets, update).drivers.add(update.driverId));
+}
+
+/**
+ * Weather, traffic and event scores (0..1) for a hex in a given minute: the most severe
+ * matching event of each kind that is running then and covers the hex centre. Events
+ * without coordinates cover the whole region. Null where nothing applies.
+ */
+export function scoreEvents(events: PricingEventWindow[], h3Index: string, minute: number): EventScores {
+  const [latitude, longitude] = cellToLatLng(h3Index);
+  const scores: EventScores = { weatherScore: null, trafficScore: null, eventScore: null };
+
+  for (const event of events) {
+    if (new Date(event.startsAt).getTime() >= minute + 60_000 || new Date(event.endsAt).getTime() < minute) {
+      continue;
+    }
+    if (event.coordinates && event.radiusKm !== null) {
+      const [eventLatitude, eventLongitude] = event.coordinates;
+      const awayKm = distanceKm({ latitude, longitude }, { latitude: eventLatitude, longitude: eventLongitude });
+      if (awayKm > event.radiusKm) {
+        continue;
+      }
+    }
+
+    const field: keyof EventScores = event.eventType === 'weather'
+      ? 'weatherScore'
+      : event.eventType === 'traffic_incident' ? 'trafficScore' : 'eventScore';
+    scores[field] = Math.max(scores[field] ?? 0, SEVERITY_SCORES[event.severity] ?? 0);
+  }
+  return scores;
+}
+
+export function toSignalRows(
+  buckets: Iterable<SignalBucket>,
+  eventsByRegion: Map<string, PricingEventWindow[]>
+): SurgeSignalInsert[] {
+  return Array.from(buckets)
+    .sort((a, b) => a.minute - b.minute || a.h3Index.localeCompare(b.h3Index))
+    .map(bucket => ({
+      regionId: bucket.regionId,
+      h3Index: bucket.h3Index,
+      tsMinute: new Date(bucket.minute).toISOString(),
+      reqCount: bucket.requests,
+      searchers: bucket.searchers,
+      activeDrivers: bucket.drivers.size,
+      avgEtaSec: bucket.etaCount > 0 ? Math.round(bucket.etaTotalSec / bucket.etaCount) : null,
+      cancels: bucket.cancels,
+      ...scoreEvents(eventsByRegion.get(bucket.regionId) ?? [], bucket.h3Index, bucket.minute)
+    }));
+}
+
+// ============================================================================
+// PERSISTENCE
+// ============================================================================
+
+async function loadEventsByRegion(buckets: SignalBucket[]): Promise<Map<string, PricingEventWindow[]>> {
+  const eventsByRegion = new Map<string, PricingEventWindow[]>();
+  for (const regionId of Array.from(new Set(buckets.map(bucket => bucket.regionId)))) {
+    const minutes = buckets.filter(bucket => bucket.regionId === regionId).map(bucket => bucket.minute);
+    const first = minutes.reduce((min, minute) => Math.min(min, minute), Infinity);
+    const last = minutes.reduce((max, minute) => Math.max(max, minute), -Infinity);
+    eventsByRegion.set(regionId, await eventIngestionService.getActiveEvents(
+      regionId,
+      new Date(first).toISOString(),
+      new Date(last + 60_000).toISOString()
+    ));
+  }
+  return eventsByRegion;
+}
+
+/**
+ * Upserts signal rows. Live flushes add to whatever a minute already has, since late
+ * arrivals for a minute are flushed after it; the driver count keeps the larger figure
+ * because a late batch carries only some of that minute's drivers. Backfills replace the
+ * rows they rebuild but keep searchers, which only the live path records.
+ */
+async function writeSignals(rows: SurgeSignalInsert[], mode: 'accumulate' | 'replace'): Promise<void> {
+  const db = await getDb();
+  const onConflict = mode === 'accumulate'
+    ? `
+      req_count = surge_signals.req_count + excluded.req_count,
+      searchers = surge_signals.searchers + excluded.searchers,
+      active_drivers = CASE
+        WHEN excluded.active_drivers > surge_signals.active_drivers THEN excluded.active_drivers
+        ELSE surge_signals.active_drivers
+      END,
+      avg_eta_sec = CASE
+        WHEN excluded.avg_eta_sec IS NULL THEN surge_signals.avg_eta_sec
+        WHEN surge_signals.avg_eta_sec IS NULL THEN excluded.avg_eta_sec
+        ELSE (surge_signals.avg_eta_sec * surge_signals.req_count + excluded.avg_eta_sec * excluded.req_count)
+          / (surge_signals.req_count + excluded.req_count)
+      END,
+      cancels = surge_signals.cancels + excluded.cancels`
+    : `
+      req_count = excluded.req_count,
+      active_drivers = excluded.active_drivers,
+      avg_eta_sec = excluded.avg_eta_sec,
+      cancels = excluded.cancels`;
+
+  for (let i = 0; i < rows.length; i += INSERT_CHUNK_SIZE) {
+    const chunk = rows.slice(i, i + INSERT_CHUNK_SIZE);
+    const placeholders = chunk.map(() => '(?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)').join(', ');
+    const params = chunk.flatMap(row => [
+      row.regionId,
+      row.h3Index,
+      row.tsMinute,
+      row.reqCount,
+      row.searchers,
+      row.activeDrivers,
+      row.avgEtaSec,
+      row.cancels,
+      row.weatherScore,
+      row.trafficScore,
+      row.eventScore
+    ]);
+
+    await db.run(`
+      INSERT INTO surge_signals (
+        region_id, h3_index, ts_minute, req_count, searchers, active_drivers,
+        avg_eta_sec, cancels, weather_score, traffic_score, event_score
+      ) VALUES ${placeholders}
+      ON CONFLICT (h3_index, ts_minute) DO UPDATE SET ${onConflict},
+        weather_score = excluded.weather_score,
+        traffic_score = excluded.traffic_score,
+        event_score = excluded.event_score
+    `, params);
+  }
+}
+
+// ============================================================================
+// BACKFILL
+// ============================================================================
+
+/**
+ * Rebuilds surge_signals for a past window of a region from bookings (requests, pickup
+ * ETAs and cancellations), driver_locations while it still holds the window, and the
+ * pricing events that applied. Safe to re-run over the same window.
+ */
+export async function backfillSurgeSignals(regionId: string, from: string, to: string): Promise<BackfillResult> {
+  const fromMs = new Date(from).getTime();
+  const toMs = new Date(to).getTime();
+  if (!(fromMs < toMs) || toMs - fromMs > MAX_BACKFILL_DAYS * 86_400_000) {
+    throw new Error(`invalid_backfill_window: from must be before to and at most ${MAX_BACKFILL_DAYS} days apart`);
+  }
+
+  const buckets = new Map<string, SignalBucket>();
+
+  // Bookings and driver locations live in the main PostgreSQL database
+  const { rows: bookings } = await query<BackfillBookingRow>(`
+    SELECT b.created_at, b.estimated_pickup_time, b.cancelled_at,
+           ST_Y(b.pickup_location) AS pickup_latitude, ST_X(b.pickup_location) AS pickup_longitude,
+           EXISTS (SELECT 1 FROM scheduled_rides sr WHERE sr.booking_id = b.id) AS scheduled
+    FROM bookings b
+    WHERE b.region_id = $1
+      AND (
+        (b.created_at >= $2::timestamptz AND b.created_at < $3::timestamptz)
+        OR (b.cancelled_at >= $2::timestamptz AND b.cancelled_at < $3::timestamptz)
+      )
+  `, [regionId, from, to]);
+
+  for (const booking of bookings) {
+    const point = {
+      regionId,
+      latitude: Number(booking.pickup_latitude),
+      longitude: Number(booking.pickup_longitude)
+    };
+    const createdAt = new Date(booking.created_at).getTime();
+
+    // Future pickups are not demand at the time they were booked
+    if (!booking.scheduled && createdAt >= fromMs && createdAt < toMs) {
+      addSignal(buckets, 'request', {
+        ...point,
+        timestamp: createdAt,
+        etaSec: booking.estimated_pickup_time
+          ? (new Date(booking.estimated_pickup_time).getTime() - createdAt) / 1000
+          : null
+      });
+    }
+    const cancelledAt = booking.cancelled_at ? new Date(booking.cancelled_at).getTime() : null;
+    if (cancelledAt !== null && cancelledAt >= fromMs && cancelledAt < toMs) {
+      addSignal(buckets, 'cancel', { ...point, timestamp: cancelledAt });
+    }
+  }
+
+  const { rows: locations } = await query<BackfillLocationRow>(`
+    SELECT driver_id, ST_Y(location) AS latitude, ST_X(location) AS longitude,
+           driver_status, is_available, recorded_at
+    FROM driver_locations
+    WHERE region_id = $1
+      AND recorded_at >= $2::timestamptz
+      AND recorded_at < $3::timestamptz
+  `, [regionId, from, to]);
+
+  addDriverLocations(buckets, locations.map(location => ({
+    driverId: String(location.driver_id),
+    latitude: Number(location.latitude),
+    longitude: Number(location.longitude),
+    status: location.driver_status,
+    isAvailable: Boolean(location.is_available),
+    timestamp: new Date(location.recorded_at).getTime(),
+    regionId
+  })));
+
+  const all = Array.from(buckets.values());
+  const rows = toSignalRows(all, await loadEventsByRegion(all));
+  await writeSignals(rows, 'replace');
+
+  logger.info('Surge signals backfilled', {
+    regionId,
+    from,
+    to,
+    rows: rows.length
+  }, { component: 'SurgeSignalAggregator', action: 'backfill' });
+
+  return { regionId, from, to, rows: rows.length };
+}
+
+// ============================================================================
+// LIVE AGGREGATION
+// ============================================================================
+
+class SurgeSignalAggregator {
+  private buckets = new Map<string, SignalBucket>();
+  private flushTimer: NodeJS.Timeout | null = null;
+  private flushing = false;
+
+  recordRequest(event: SignalEvent & { etaSec?: number | null }): void {
+    this.record(() => addSignal(this.buckets, 'request', event));
+  }
+
+  recordSearch(event: SignalEvent): void {
+    this.record(() => addSignal(this.buckets, 'search', event));
+  }
+
+  recordCancellation(event: SignalEvent): void {
+    this.record(() => addSignal(this.buckets, 'cancel', event));
+  }
+
+  recordDriverLocations(updates: LocationUpdate[]): void {
+    this.record(() => addDriverLocations(this.buckets, updates));
+  }
+
+  // Stop flushing on a timer and write out everything still buffered
+  async stop(): Promise<void> {
+    if (this.flushTimer) {
+      clearInterval(this.flushTimer);
+      this.flushTimer = null;
+    }
+    await this.flush(Infinity);
+  }
+
+  /**
+   * Writes out buckets for minutes that are over, allowing for late arrivals. Buckets
+   * that fail to store are merged back in for the next flush.
+   */
+  async flush(
+    before: number = Math.floor((Date.now() - LATE_ARRIVAL_GRACE_MS) / 60_000) * 60_000
+  ): Promise<void> {
+    if (this.flushing) {
+      return;
+    }
+    this.flushing = true;
+
+    const due: SignalBucket[] = [];
+    this.buckets.forEach((bucket, key) => {
+      if (bucket.minute < before) {
+        due.push(bucket);
+        this.buckets.delete(key);
+      }
+    });
+
+    try {
+      if (due.length > 0) {
+        await writeSignals(toSignalRows(due, await loadEventsByRegion(due)), 'accumulate');
+      }
+    } catch (error) {
+      logger.error('Failed to store surge signals', {
+        buckets: due.length,
+        error: error instanceof Error ? error.message : String(error)
+      }, { component: 'SurgeSignalAggregator', action: 'flush' });
+      due.forEach(bucket => this.mergeBack(bucket));
+    } finally {
+      this.flushing = false;
+    }
+  }
+
+  private record(add: () => void): void {
+    if (process.env.SURGE_SIGNALS_ENABLED === 'false') {
+      return;
+    }
+    try {
+      add();
+    } catch (error) {
+      // A bad coordinate must not break the booking or location flow that reported it
+      logger.warn('Surge signal not recorded', {
+        error: error instanceof Error ? error.message : String(error)
+      }, { component: 'SurgeSignalAggregator', action: 'record' });
+      return;
+    }
+
+    // Route handlers record without the server having started anything
+    if (!this.flushTimer) {
+      this.flushTimer = setInterval(() => this.flush(), FLUSH_INTERVAL_MS);
+      this.flushTimer.unref?.();
+    }
+  }
+
+  private mergeBack(bucket: SignalBucket): void {
+    const key = `${bucket.regionId}|${bucket.h3Index}|${bucket.minute}`;
+    const current = this.buckets.get(key);
+    if (!current) {
+      this.buckets.set(key, bucket);
+      return;
+    }
+    current.requests += bucket.requests;
+    current.searchers += bucket.searchers;
+    current.cancels += bucket.cancels;
+    current.etaTotalSec += bucket.etaTotalSec;
+    current.etaCount += bucket.etaCount;
+    bucket.drivers.forEach(driverId => current.drivers.add(driverId));
+  }
+}
+
+export const surgeSignalAggregator = new SurgeSignalAggregator();
@@ -0,0 +1,191 @@
+// File renderers for generated reports: PDF (via the shared PDF writer), Excel (SpreadsheetML
+// 2003, one worksheet per section) and CSV. Browser-safe, as the reporting engine runs client-side.
+
+import { PdfDocument, textWidth } from '../documents/pdfWriter';
+
+import type { GeneratedReport, ReportSection } from './reportingEngine';
+
+export type ReportExportFormat = 'pdf' | 'excel' | 'csv';
+
+export interface ReportExportFile {
+  fileName: string;
+  contentType: string;
+  content: Uint8Array;
+}
+
+type Cell = string | number | boolean;
+
+interface SectionTable {
+  title: string;
+  columns: string[];
+  rows: Cell[][];
+}
+
+/** Normalises every section shape into a table: key/value summaries, row arrays and metric cards. */
+export function sectionToTable(section: ReportSection): SectionTable {
+  const content = section.content;
+  if (Array.isArray(content)) {
+    const columns = Array.from(new Set(content.flatMap(row => Object.keys(row))));
+    return { title: section.title, columns, rows: content.map(row => columns.map(column => row[column] ?? '')) };
+  }
+  if ('value' in content && 'trend' in content && Object.keys(content).length === 2) {
+    return { title: section.title, columns: ['Value', 'Trend'], rows: [[content.value, content.trend]] };
+  }
+  return { title: section.title, columns: ['Metric', 'Value'], rows: Object.entries(content) };
+}
+
+const slug = (value: string) => value.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+
+const formatCell = (value: Cell) =>
+  typeof value === 'number' && !Number.isInteger(value) ? String(Math.round(value * 10000) / 10000) : String(value);
+
+function encodeUtf8(text: string): Uint8Array {
+  return new TextEncoder().encode(text);
+}
+
+// ============================================================================
+// CSV
+// ============================================================================
+
+const csvField = (value: Cell) => {
+  const text = formatCell(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export function renderReportCsv(report: GeneratedReport): string {
+  const lines: string[] = [csvField(report.title), `Generated At,${new Date(report.generatedAt).toISOString()}`, ''];
+  for (const table of report.data.map(sectionToTable)) {
+    lines.push(csvField(table.title), table.columns.map(csvField).join(','));
+    lines.push(...table.rows.map(row => row.map(csvField).join(',')), '');
+  }
+  return lines.join('\r\n');
+}
+
+// ============================================================================
+// EXCEL (SpreadsheetML)
+// ============================================================================
+
+const xmlEscape = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+function xmlCell(value: Cell, style?: string): string {
+  const type = typeof value === 'number' ? 'Number' : typeof value === 'boolean' ? 'Boolean' : 'String';
+  const data = typeof value === 'boolean' ? (value ? '1' : '0') : xmlEscape(formatCell(value));
+  return `<Cell${style ? ` ss:StyleID="${style}"` : ''}><Data ss:Type="${type}">${data}</Data></Cell>`;
+}
+
+export function renderReportExcel(report: GeneratedReport): string {
+  const usedNames = new Set<string>();
+  const worksheets = report.data.map(sectionToTable).map((table, index) => {
+    // Worksheet names are limited to 31 characters, unique, and cannot contain []:*?/\
+    let name = table.title.replace(/[[\]:*?/\\]/g, ' ').slice(0, 31).trim() || `Sheet ${index + 1}`;
+    if (usedNames.has(name)) {
+      name = `${name.slice(0, 27)} ${index + 1}`;
+    }
+    usedNames.add(name);
+
+    const rows = [
+      `<Row>${table.columns.map(column => xmlCell(column, 'header')).join('')}</Row>`,
+      ...table.rows.map(row => `<Row>${row.map(value => xmlCell(value)).join('')}</Row>`)
+    ];
+    return `<Worksheet ss:Name="${xmlEscape(name)}"><Table>${rows.join('')}</Table></Worksheet>`;
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<?mso-application progid="Excel.Sheet"?>',
+    '<Workbook xmlns="urn:schemas-microsoft-com:office:spreadsheet" ' +
+      'xmlns:ss="urn:schemas-microsoft-com:office:spreadsheet">',
+    '<Styles><Style ss:ID="header"><Font ss:Bold="1"/></Style></Styles>',
+    ...worksheets,
+    '</Workbook>'
+  ].join('\n');
+}
+
+// ============================================================================
+// PDF
+// ============================================================================
+
+const LEFT = 40;
+const RIGHT = 555;
+const BOTTOM = 790;
+
+function fitText(text: string, width: number, size: number): string {
+  if (textWidth(text, size) <= width) {
+    return text;
+  }
+  let cut = text.length;
+  while (cut > 1 && textWidth(`${text.slice(0, cut)}...`, size) > width) {
+    cut--;
+  }
+  return `${text.slice(0, cut)}...`;
+}
+
+export function renderReportPdf(report: GeneratedReport): Uint8Array {
+  const doc = new PdfDocument({ title: report.title, creationDate: new Date(report.generatedAt) });
+  let y = 56;
+
+  doc.text(LEFT, y, report.title, { size: 16, font: 'bold' });
+  y += 18;
+  doc.text(LEFT, y, `Generated ${new Date(report.generatedAt).toISOString()}`, { size: 9, color: [0.4, 0.4, 0.4] });
+  const parameters = Object.entries(report.parameters).map(([key, value]) => `${key}: ${value}`).join('   ');
+  if (parameters) {
+    y += 12;
+    doc.text(LEFT, y, fitText(parameters, RIGHT - LEFT, 9), { size: 9, color: [0.4, 0.4, 0.4] });
+  }
+  y += 24;
+
+  for (const table of report.data.map(sectionToTable)) {
+    if (y + 60 > BOTTOM) {
+      doc.addPage();
+      y = 56;
+    }
+    doc.text(LEFT, y, table.title, { size: 12, font: 'bold' });
+    y += 10;
+
+    const columnWidth = (RIGHT - LEFT) / Math.max(table.columns.length, 1);
+    const drawHeader = () => {
+      doc.rect(LEFT, y, RIGHT - LEFT, 16, { fill: [0.92, 0.92, 0.92] });
+      table.columns.forEach((column, i) => {
+        doc.text(LEFT + 4 + i * columnWidth, y + 11, fitText(column, columnWidth - 8, 8), { size: 8, font: 'bold' });
+      });
+      y += 28;
+    };
+    drawHeader();
+
+    for (const row of table.rows) {
+      if (y > BOTTOM) {
+        doc.addPage();
+        y = 56;
+        drawHeader();
+      }
+      row.forEach((value, i) => {
+        doc.text(LEFT + 4 + i * columnWidth, y, fitText(formatCell(value), columnWidth - 8, 8), { size: 8 });
+      });
+      y += 12;
+    }
+    y += 18;
+  }
+
+  for (let page = 0; page < doc.pageCount; page++) {
+    doc.setPage(page);
+    doc.text(RIGHT, 815, `Page ${page + 1} of ${doc.pageCount}`, { size: 7, align: 'right', color: [0.4, 0.4, 0.4] });
+  }
+  return doc.toBytes();
+}
+
+export function renderReportExport(report: GeneratedReport, format: ReportExportFormat): ReportExportFile {
+  const baseName = `${slug(report.title) || 'report'}-${report.id}`;
+  switch (format) {
+    case 'pdf':
+      return { fileName: `${baseName}.pdf`, contentType: 'application/pdf', content: renderReportPdf(report) };
+    case 'excel':
+      return {
+        fileName: `${baseName}.xls`,
+        contentType: 'application/vnd.ms-excel',
+        content: encodeUtf8(renderReportExcel(report))
+      };
+    case 'csv':
+      return { fileName: `${baseName}.csv`, contentType: 'text/csv', content: encodeUtf8(renderReportCsv(report)) };
+  }
+}
@@ -5,6 +5,8 @@ import { anomalyDetectionEngine } from '../ml/anomalyDetection';
 import { monitoringSystem } from '../scaling/monitoringSystem';
 import { logger } from '../security/productionLogger';
 
+import { ReportExportFile, ReportExportFormat, renderReportExport } from './reportExport';
+
 interface ReportTemplate {
   id: string;
   name: string;
@@ -62,6 +64,7 @@ interface GeneratedReport {
     excel?: string;
     csv?: string;
   };
+  exportFiles?: Partial<Record<ReportExportFormat, ReportExportFile>>;
 }
 
 interface ReportSection {
@@ -898,26 +901,45 @@ class ReportingEngine {
     }
   }
 
-  async exportReport(reportId: string, format: 'pdf' | 'excel' | 'csv'): Promise<string> {
+  /**
+   * Renders the report to a file and returns a URL for it: an object URL in the browser,
+   * a data URL elsewhere. The file itself stays available through getExportFile.
+   */
+  async exportReport(reportId: string, format: ReportExportFormat): Promise<string> {
     const report = this.generatedReports.get(reportId);
     if (!report) {
       throw new Error(`Report not found: ${reportId}`);
     }
 
-    // In a real implementation, this would generate the actual file
-    const exportUrl = `/api/reports/${reportId}/export/${format}`;
-    
-    // Update report with export URL
-    if (!report.exportUrls) {
-      report.exportUrls = {};
+    const file = renderReportExport(report, format);
+    const previousUrl = report.exportUrls?.[format];
+    if (previousUrl?.startsWith('blob:')) {
+      URL.revokeObjectURL(previousUrl);
     }
-    report.exportUrls[format] = exportUrl;
-    
+
+    let exportUrl: string;
+    if (typeof Blob !== 'undefined' && typeof URL.createObjectURL === 'function') {
+      exportUrl = URL.createObjectURL(new Blob([new Uint8Array(file.content)], { type: file.contentType }));
+    } else {
+      let binary = '';
+      file.content.forEach(byte => {
+        binary += String.fromCharCode(byte);
+      });
+      exportUrl = `data:${file.contentType};base64,${btoa(binary)}`;
+    }
+
+    report.exportUrls = { ...report.exportUrls, [format]: exportUrl };
+    report.exportFiles = { ...report.exportFiles, [format]: file };
     this.generatedReports.set(reportId, report);
-    
+
+    logger.info(`Report exported: ${reportId} as ${format} (${file.content.length} bytes)`);
     return exportUrl;
   }
 
+  getExportFile(reportId: string, format: ReportExportFormat): ReportExportFile | null {
+    return this.generatedReports.get(reportId)?.exportFiles?.[format] ?? null;
+  }
+
   getReportingStats(): {
     totalReports: number;
     templatesActive: number;
@@ -0,0 +1,55 @@
+import { randomUUID } from 'crypto';
+
+import { query } from '@/lib/db';
+import { QueryFn } from '@/lib/repos/ledgerRepo';
+import { ApprovalRequest } from '@/types/approval';
+
+export interface ApprovalRequestWithApprovers extends ApprovalRequest {
+  action: string;
+  required_approvers: number;
+  approver_ids: string[];
+}
+
+export async function createApprovalRequest(
+  action: string,
+  requesterId: string,
+  justification: string,
+  requestedAction: Record<string, unknown>,
+  ttlSeconds: number,
+  q: QueryFn = query
+): Promise<ApprovalRequest> {
+  const { rows: workflows } = await q<{ workflow_id: number }>(`
+    SELECT workflow_id FROM approval_workflows WHERE action = $1 AND is_active
+  `, [action]);
+  if (!workflows[0]) {
+    throw new Error('workflow_not_found');
+  }
+
+  const requestId = `req_${randomUUID()}`;
+  const { rows } = await q<ApprovalRequest>(`
+    INSERT INTO approval_requests (request_id, workflow_id, requester_id, status, justification, requested_action, expires_at)
+    VALUES ($1,$2,$3,'pending',$4,$5, now() + ($6 || ' seconds')::interval)
+    RETURNING *
+  `, [requestId, workflows[0].workflow_id, requesterId, justification, JSON.stringify(requestedAction), ttlSeconds]);
+  return rows[0];
+}
+
+// Request plus the distinct users who approved it; rejections are not counted
+export async function getApprovalRequestWithApprovers(
+  requestId: string,
+  q: QueryFn = query
+): Promise<ApprovalRequestWithApprovers | null> {
+  const { rows } = await q<ApprovalRequestWithApprovers>(`
+    SELECT ar.*, aw.action, aw.required_approvers,
+           COALESCE(
+             ARRAY_AGG(DISTINCT resp.approver_id) FILTER (WHERE resp.decision = 'approve'),
+             '{}'
+           ) AS approver_ids
+    FROM approval_requests ar
+    JOIN approval_workflows aw ON aw.workflow_id = ar.workflow_id
+    LEFT JOIN approval_responses resp ON resp.request_id = ar.request_id
+    WHERE ar.request_id = $1
+    GROUP BY ar.request_id, aw.action, aw.required_approvers
+  `, [requestId]);
+  return rows[0] || null;
+}
@@ -0,0 +1,102 @@
+import { query } from '@/lib/db';
+import { QueryFn } from '@/lib/repos/ledgerRepo';
+import { BillingDocument, BillingDocumentType } from '@/types/billing';
+
+export interface NewBillingDocument {
+  documentType: BillingDocumentType;
+  documentNumber: string;
+  invoiceId: string;
+  paymentId?: string;
+  fileName: string;
+  contentType: string;
+  content: Buffer;
+  sha256: string;
+  generatedBy: string;
+}
+
+interface BillingDocumentRow {
+  id: string;
+  document_type: BillingDocumentType;
+  document_number: string;
+  invoice_id: string;
+  payment_id: string | null;
+  file_name: string;
+  content_type: string;
+  sha256: string;
+  byte_size: number;
+  generated_by: string;
+  created_at: string | Date;
+}
+
+// Everything except the content, which only the download route reads
+const DOCUMENT_COLUMNS = `
+  id, document_type, document_number, invoice_id, payment_id, file_name, content_type,
+  sha256, byte_size, generated_by, created_at
+`;
+
+export const documentDownloadUrl = (id: string) => `/api/billing/documents/${id}`;
+
+const mapDocument = (row: BillingDocumentRow): BillingDocument => ({
+  id: row.id,
+  documentType: row.document_type,
+  documentNumber: row.document_number,
+  invoiceId: row.invoice_id,
+  paymentId: row.payment_id ?? undefined,
+  fileName: row.file_name,
+  contentType: row.content_type,
+  sha256: row.sha256,
+  byteSize: row.byte_size,
+  downloadUrl: documentDownloadUrl(row.id),
+  generatedBy: row.generated_by,
+  createdAt: new Date(row.created_at).toISOString()
+});
+
+export async function insertDocument(document: NewBillingDocument, q: QueryFn = query): Promise<BillingDocument> {
+  const { rows } = await q<BillingDocumentRow>(`
+    INSERT INTO billing_documents
+      (document_type, document_number, invoice_id, payment_id, file_name, content_type, content, sha256,
+       byte_size, generated_by)
+    VALUES ($1,$2,$3,$4,$5,$6,$7,$8,$9,$10)
+    RETURNING ${DOCUMENT_COLUMNS}
+  `, [
+    document.documentType,
+    document.documentNumber,
+    document.invoiceId,
+    document.paymentId ?? null,
+    document.fileName,
+    document.contentType,
+    document.content,
+    document.sha256,
+    document.content.length,
+    document.generatedBy
+  ]);
+  return mapDocument(rows[0]);
+}
+
+export async function findDocument(
+  documentType: BillingDocumentType,
+  documentNumber: string,
+  q: QueryFn = query
+): Promise<BillingDocument | null> {
+  const { rows } = await q<BillingDocumentRow>(`
+    SELECT ${DOCUMENT_COLUMNS} FROM billing_documents WHERE document_type = $1 AND document_number = $2
+  `, [documentType, documentNumber]);
+  return rows[0] ? mapDocument(rows[0]) : null;
+}
+
+export async function getDocumentContent(
+  id: string,
+  q: QueryFn = query
+): Promise<{ document: BillingDocument; content: Buffer } | null> {
+  const { rows } = await q<BillingDocumentRow & { content: Buffer }>(`
+    SELECT ${DOCUMENT_COLUMNS}, content FROM billing_documents WHERE id = $1
+  `, [id]);
+  return rows[0] ? { document: mapDocument(rows[0]), content: rows[0].content } : null;
+}
+
+export async function listInvoiceDocuments(invoiceId: string, q: QueryFn = query): Promise<BillingDocument[]> {
+  const { rows } = await q<BillingDocumentRow>(`
+    SELECT ${DOCUMENT_COLUMNS} FROM billing_documents WHERE invoice_id = $1 ORDER BY created_at, document_number
+  `, [invoiceId]);
+  return rows.map(mapDocument);
+}
@@ -0,0 +1,401 @@
+import { query } from '@/lib/db';
+import { QueryFn } from '@/lib/repos/ledgerRepo';
+import {
+  BondCollectionMethod,
+  BondEvent,
+  BondEventType,
+  BondFilters,
+  BondForfeitReason,
+  BondRefund,
+  BondRefundStatus,
+  BondStatus,
+  DriverBond
+} from '@/types/bond';
+import { LEDGER_ACCOUNTS } from '@/types/settlement';
+
+export type BondPatch = Partial<{
+  status: BondStatus;
+  collectedAmount: number;
+  forfeitedAmount: number;
+  refundedAmount: number;
+  recurringDeductionId: string;
+  depositedAt: string;
+  releasedAt: string;
+}>;
+
+export interface BondIncident {
+  id: string;
+  incident_code: string;
+  driver_id: string | null;
+}
+
+export interface BondHeldBalance {
+  driver_id: string;
+  driver_name: string | null;
+  bond_held: string;
+  ledger_held: string;
+}
+
+interface BondRow {
+  id: string;
+  bond_reference: string;
+  driver_id: string;
+  driver_name?: string;
+  status: BondStatus;
+  collection_method: BondCollectionMethod;
+  required_amount: string;
+  collected_amount: string;
+  forfeited_amount: string;
+  refunded_amount: string;
+  installment_amount: string | null;
+  recurring_deduction_id: string | null;
+  deposited_at: string | null;
+  released_at: string | null;
+  notes: string | null;
+  latest_refund_status?: BondRefundStatus | null;
+  latest_forfeit_reason?: BondForfeitReason | null;
+  created_by: string;
+  created_at: string;
+  updated_at: string;
+}
+
+interface EventRow {
+  id: string;
+  event_type: BondEventType;
+  amount: string;
+  reason_code: BondForfeitReason | null;
+  incident_id: string | null;
+  journal_id: string | null;
+  settlement_id: string | null;
+  actor_id: string;
+  note: string | null;
+  created_at: string;
+}
+
+interface RefundRow {
+  id: string;
+  bond_id: string;
+  driver_id: string;
+  amount: string;
+  status: BondRefundStatus;
+  approval_request_id: string | null;
+  justification: string;
+  requested_by: string;
+  decided_by: string | null;
+  decided_at: string | null;
+  decision_note: string | null;
+  journal_id: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+const mapBond = (row: BondRow): DriverBond => ({
+  id: row.id,
+  reference: row.bond_reference,
+  driverId: row.driver_id,
+  driverName: row.driver_name,
+  status: row.status,
+  collectionMethod: row.collection_method,
+  requiredAmount: Number(row.required_amount),
+  collectedAmount: Number(row.collected_amount),
+  forfeitedAmount: Number(row.forfeited_amount),
+  refundedAmount: Number(row.refunded_amount),
+  heldAmount: round2(Number(row.collected_amount) - Number(row.forfeited_amount) - Number(row.refunded_amount)),
+  installmentAmount: row.installment_amount === null ? null : Number(row.installment_amount),
+  recurringDeductionId: row.recurring_deduction_id,
+  depositedAt: row.deposited_at,
+  releasedAt: row.released_at,
+  notes: row.notes,
+  latestRefundStatus: row.latest_refund_status ?? null,
+  latestForfeitReason: row.latest_forfeit_reason ?? null,
+  createdBy: row.created_by,
+  createdAt: row.created_at,
+  updatedAt: row.updated_at
+});
+
+const mapEvent = (row: EventRow): BondEvent => ({
+  id: String(row.id),
+  eventType: row.event_type,
+  amount: Number(row.amount),
+  reasonCode: row.reason_code,
+  incidentId: row.incident_id,
+  journalId: row.journal_id,
+  settlementId: row.settlement_id,
+  actorId: row.actor_id,
+  note: row.note,
+  createdAt: row.created_at
+});
+
+const mapRefund = (row: RefundRow): BondRefund => ({
+  id: row.id,
+  bondId: row.bond_id,
+  driverId: row.driver_id,
+  amount: Number(row.amount),
+  status: row.status,
+  approvalRequestId: row.approval_request_id,
+  justification: row.justification,
+  requestedBy: row.requested_by,
+  decidedBy: row.decided_by,
+  decidedAt: row.decided_at,
+  decisionNote: row.decision_note,
+  journalId: row.journal_id,
+  createdAt: row.created_at,
+  updatedAt: row.updated_at
+});
+
+const BOND_SELECT = `
+  SELECT b.*,
+         d.first_name || ' ' || d.last_name AS driver_name,
+         (SELECT r.status FROM driver_bond_refunds r
+           WHERE r.bond_id = b.id ORDER BY r.created_at DESC LIMIT 1) AS latest_refund_status,
+         (SELECT e.reason_code FROM driver_bond_events e
+           WHERE e.bond_id = b.id AND e.event_type = 'forfeiture'
+           ORDER BY e.created_at DESC, e.id DESC LIMIT 1) AS latest_forfeit_reason
+  FROM driver_bonds b
+  JOIN drivers d ON d.id = b.driver_id
+`;
+
+// ============================================================================
+// BONDS
+// ============================================================================
+
+export async function insertBond(
+  bond: {
+    reference: string;
+    driverId: string;
+    collectionMethod: BondCollectionMethod;
+    requiredAmount: number;
+    installmentAmount: number | null;
+    notes: string | null;
+    createdBy: string;
+  },
+  q: QueryFn
+): Promise<string> {
+  const { rows } = await q<{ id: string }>(`
+    INSERT INTO driver_bonds
+      (bond_reference, driver_id, collection_method, required_amount, installment_amount, notes, created_by)
+    VALUES ($1,$2,$3,$4,$5,$6,$7)
+    RETURNING id
+  `, [
+    bond.reference, bond.driverId, bond.collectionMethod, bond.requiredAmount, bond.installmentAmount,
+    bond.notes, bond.createdBy
+  ]);
+  return rows[0].id;
+}
+
+export async function getBond(id: string, q: QueryFn = query, forUpdate = false): Promise<DriverBond | null> {
+  const { rows } = await q<BondRow>(`
+    ${BOND_SELECT}
+    WHERE b.id = $1
+    ${forUpdate ? 'FOR UPDATE OF b' : ''}
+  `, [id]);
+  return rows[0] ? mapBond(rows[0]) : null;
+}
+
+export async function getOpenBondForDriver(driverId: string, q: QueryFn = query): Promise<DriverBond | null> {
+  const { rows } = await q<BondRow>(`
+    ${BOND_SELECT}
+    WHERE b.driver_id = $1 AND b.status IN ('collecting', 'active')
+  `, [driverId]);
+  return rows[0] ? mapBond(rows[0]) : null;
+}
+
+// The bond a recurring settlement deduction is collecting for, locked for the settlement run
+export async function getBondByDeduction(recurringDeductionId: string, q: QueryFn): Promise<DriverBond | null> {
+  const { rows } = await q<BondRow>(`
+    ${BOND_SELECT}
+    WHERE b.recurring_deduction_id = $1
+    FOR UPDATE OF b
+  `, [recurringDeductionId]);
+  return rows[0] ? mapBond(rows[0]) : null;
+}
+
+export async function listBonds(filters: BondFilters): Promise<{ bonds: DriverBond[]; total: number }> {
+  const params = [filters.driverId ?? null, filters.status ?? null];
+  const where = `
+    WHERE ($1::uuid IS NULL OR b.driver_id = $1)
+      AND ($2::text IS NULL OR b.status = $2)
+  `;
+
+  const countResult = await query<{ total: string }>(`
+    SELECT COUNT(*) AS total FROM driver_bonds b ${where}
+  `, params);
+
+  const { rows } = await query<BondRow>(`
+    ${BOND_SELECT}
+    ${where}
+    ORDER BY b.created_at DESC
+    LIMIT $3 OFFSET $4
+  `, [...params, filters.limit, (filters.page - 1) * filters.limit]);
+
+  return {
+    bonds: rows.map(mapBond),
+    total: parseInt(countResult.rows[0]?.total || '0')
+  };
+}
+
+export async function updateBond(id: string, patch: BondPatch, q: QueryFn): Promise<void> {
+  const columns: Record<keyof BondPatch, string> = {
+    status: 'status',
+    collectedAmount: 'collected_amount',
+    forfeitedAmount: 'forfeited_amount',
+    refundedAmount: 'refunded_amount',
+    recurringDeductionId: 'recurring_deduction_id',
+    depositedAt: 'deposited_at',
+    releasedAt: 'released_at'
+  };
+  const entries = (Object.keys(patch) as (keyof BondPatch)[]).filter(key => patch[key] !== undefined);
+  if (entries.length === 0) {
+    return;
+  }
+  const assignments = entries.map((key, i) => `${columns[key]} = $${i + 2}`);
+  await q(`
+    UPDATE driver_bonds SET ${assignments.join(', ')}, updated_at = now() WHERE id = $1
+  `, [id, ...entries.map(key => patch[key])]);
+}
+
+// ============================================================================
+// EVENTS
+// ============================================================================
+
+export async function insertBondEvent(
+  bondId: string,
+  event: {
+    eventType: BondEventType;
+    amount?: number;
+    reasonCode?: BondForfeitReason | null;
+    incidentId?: string | null;
+    journalId?: string | null;
+    settlementId?: string | null;
+    actorId: string;
+    note?: string | null;
+  },
+  q: QueryFn
+): Promise<void> {
+  await q(`
+    INSERT INTO driver_bond_events
+      (bond_id, event_type, amount, reason_code, incident_id, journal_id, settlement_id, actor_id, note)
+    VALUES ($1,$2,$3,$4,$5,$6,$7,$8,$9)
+  `, [
+    bondId, event.eventType, event.amount ?? 0, event.reasonCode ?? null, event.incidentId ?? null,
+    event.journalId ?? null, event.settlementId ?? null, event.actorId, event.note ?? null
+  ]);
+}
+
+export async function listBondEvents(bondId: string): Promise<BondEvent[]> {
+  const { rows } = await query<EventRow>(`
+    SELECT * FROM driver_bond_events WHERE bond_id = $1 ORDER BY created_at, id
+  `, [bondId]);
+  return rows.map(mapEvent);
+}
+
+// Incident referenced by a forfeiture, by id or by its human-readable code
+export async function findIncident(reference: string, q: QueryFn = query): Promise<BondIncident | null> {
+  const { rows } = await q<BondIncident>(`
+    SELECT id, incident_code, driver_id FROM incidents
+    WHERE id::text = $1 OR incident_code = $1
+    LIMIT 1
+  `, [reference]);
+  return rows[0] || null;
+}
+
+// ============================================================================
+// REFUNDS
+// ============================================================================
+
+export async function insertBondRefund(
+  refund: {
+    bondId: string;
+    driverId: string;
+    amount: number;
+    approvalRequestId: string;
+    justification: string;
+    requestedBy: string;
+  },
+  q: QueryFn
+): Promise<BondRefund> {
+  const { rows } = await q<RefundRow>(`
+    INSERT INTO driver_bond_refunds (bond_id, driver_id, amount, approval_request_id, justification, requested_by)
+    VALUES ($1,$2,$3,$4,$5,$6)
+    RETURNING *
+  `, [
+    refund.bondId, refund.driverId, refund.amount, refund.approvalRequestId, refund.justification,
+    refund.requestedBy
+  ]);
+  return mapRefund(rows[0]);
+}
+
+export async function getBondRefund(id: string, q: QueryFn = query, forUpdate = false): Promise<BondRefund | null> {
+  const { rows } = await q<RefundRow>(`
+    SELECT * FROM driver_bond_refunds WHERE id = $1 ${forUpdate ? 'FOR UPDATE' : ''}
+  `, [id]);
+  return rows[0] ? mapRefund(rows[0]) : null;
+}
+
+export async function getPendingBondRefund(bondId: string, q: QueryFn = query): Promise<BondRefund | null> {
+  const { rows } = await q<RefundRow>(`
+    SELECT * FROM driver_bond_refunds WHERE bond_id = $1 AND status = 'pending_approval'
+  `, [bondId]);
+  return rows[0] ? mapRefund(rows[0]) : null;
+}
+
+export async function listBondRefunds(bondId: string): Promise<BondRefund[]> {
+  const { rows } = await query<RefundRow>(`
+    SELECT * FROM driver_bond_refunds WHERE bond_id = $1 ORDER BY created_at DESC
+  `, [bondId]);
+  return rows.map(mapRefund);
+}
+
+export async function closeBondRefund(
+  id: string,
+  close: {
+    status: Exclude<BondRefundStatus, 'pending_approval'>;
+    decidedBy: string;
+    decisionNote?: string | null;
+    journalId?: string | null;
+  },
+  q: QueryFn
+): Promise<BondRefund> {
+  const { rows } = await q<RefundRow>(`
+    UPDATE driver_bond_refunds
+       SET status = $2, decided_by = $3, decided_at = now(), decision_note = $4, journal_id = $5, updated_at = now()
+     WHERE id = $1
+     RETURNING *
+  `, [id, close.status, close.decidedBy, close.decisionNote ?? null, close.journalId ?? null]);
+  return mapRefund(rows[0]);
+}
+
+// ============================================================================
+// RECONCILIATION
+// ============================================================================
+
+/**
+ * Per driver, what the bond records say is held next to the driver's balance in
+ * Driver Bonds Held (2200). Drivers with a ledger balance but no bond are included.
+ */
+export async function listBondHeldBalances(q: QueryFn = query): Promise<BondHeldBalance[]> {
+  const { rows } = await q<BondHeldBalance>(`
+    WITH bonds AS (
+      SELECT driver_id, SUM(collected_amount - forfeited_amount - refunded_amount) AS held
+      FROM driver_bonds
+      GROUP BY driver_id
+    ),
+    ledger AS (
+      SELECT driver_id, SUM(credit - debit) AS held
+      FROM ledger_entries
+      WHERE account_code = $1 AND driver_id IS NOT NULL
+      GROUP BY driver_id
+    )
+    SELECT COALESCE(b.driver_id, l.driver_id) AS driver_id,
+           d.first_name || ' ' || d.last_name AS driver_name,
+           COALESCE(b.held, 0) AS bond_held,
+           COALESCE(l.held, 0) AS ledger_held
+    FROM bonds b
+    FULL OUTER JOIN ledger l ON l.driver_id = b.driver_id
+    LEFT JOIN drivers d ON d.id = COALESCE(b.driver_id, l.driver_id)
+    ORDER BY 1
+  `, [LEDGER_ACCOUNTS.DRIVER_BONDS_HELD]);
+  return rows;
+}
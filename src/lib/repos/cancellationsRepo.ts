@@ -0,0 +1,393 @@
+import { query } from '@/lib/db';
+import { QueryFn } from '@/lib/repos/ledgerRepo';
+import {
+  CancellationCharge,
+  CancellationChargeFilters,
+  CancellationChargeStatus,
+  CancellationCollectionMethod,
+  CancellationFeeRule,
+  CancellationOutcome,
+  CancellationPolicy,
+  CancellationPolicyFilters,
+  CancellingParty,
+  CreateCancellationPolicyRequest
+} from '@/types/cancellation';
+
+// A poster or waiver holds a charge this long before another may assume it crashed
+const POSTING_CLAIM_TIMEOUT_MINUTES = 15;
+
+export type CancellationPolicyPatch = Partial<{
+  name: string;
+  riderGraceSeconds: number;
+  driverLateGraceMinutes: number;
+  noShowWaitMinutes: number;
+  noShowFee: number;
+  noShowDriverCompensation: number;
+  feeRules: CancellationFeeRule[];
+  isActive: boolean;
+}>;
+
+export type CancellationChargePatch = Partial<{
+  status: CancellationChargeStatus;
+  collectionMethod: CancellationCollectionMethod;
+  paymentTransactionId: string;
+  refundId: string;
+  journalId: string;
+  waiverJournalId: string;
+  waiverRefundId: string;
+  waiverReason: string;
+  waivedBy: string;
+  failureReason: string | null;
+  postedAt: string;
+  waivedAt: string;
+}>;
+
+interface PolicyRow {
+  id: string;
+  name: string;
+  region_id: string | null;
+  service_type: string | null;
+  rider_grace_seconds: number;
+  driver_late_grace_minutes: number;
+  no_show_wait_minutes: number;
+  no_show_fee: string;
+  no_show_driver_compensation: string;
+  fee_rules: CancellationFeeRule[];
+  is_active: boolean;
+  created_by: string;
+  created_at: string;
+  updated_at: string;
+}
+
+interface ChargeRow {
+  id: string;
+  charge_reference: string;
+  booking_id: string;
+  policy_id: string | null;
+  region_id: string;
+  customer_id: string;
+  driver_id: string | null;
+  cancelled_by: CancellingParty;
+  from_status: string;
+  reason: string | null;
+  outcome: CancellationOutcome;
+  rider_fee: string;
+  driver_compensation: string;
+  driver_penalty: string;
+  status: CancellationChargeStatus;
+  collection_method: CancellationCollectionMethod | null;
+  payment_transaction_id: string | null;
+  refund_id: string | null;
+  journal_id: string | null;
+  waiver_journal_id: string | null;
+  waiver_refund_id: string | null;
+  waiver_reason: string | null;
+  waived_by: string | null;
+  failure_reason: string | null;
+  cancelled_at: string;
+  posted_at: string | null;
+  waived_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+const mapPolicy = (row: PolicyRow): CancellationPolicy => ({
+  id: row.id,
+  name: row.name,
+  regionId: row.region_id,
+  serviceType: row.service_type,
+  riderGraceSeconds: row.rider_grace_seconds,
+  driverLateGraceMinutes: row.driver_late_grace_minutes,
+  noShowWaitMinutes: row.no_show_wait_minutes,
+  noShowFee: Number(row.no_show_fee),
+  noShowDriverCompensation: Number(row.no_show_driver_compensation),
+  feeRules: (row.fee_rules ?? []).map(rule => ({
+    ...rule,
+    fee: Number(rule.fee),
+    driverCompensation: Number(rule.driverCompensation ?? 0)
+  })),
+  isActive: row.is_active,
+  createdBy: row.created_by,
+  createdAt: row.created_at,
+  updatedAt: row.updated_at
+});
+
+const mapCharge = (row: ChargeRow): CancellationCharge => ({
+  id: row.id,
+  chargeReference: row.charge_reference,
+  bookingId: row.booking_id,
+  policyId: row.policy_id,
+  regionId: row.region_id,
+  customerId: row.customer_id,
+  driverId: row.driver_id,
+  cancelledBy: row.cancelled_by,
+  fromStatus: row.from_status,
+  reason: row.reason,
+  outcome: row.outcome,
+  riderFee: Number(row.rider_fee),
+  driverCompensation: Number(row.driver_compensation),
+  driverPenalty: Number(row.driver_penalty),
+  status: row.status,
+  collectionMethod: row.collection_method,
+  paymentTransactionId: row.payment_transaction_id,
+  refundId: row.refund_id,
+  journalId: row.journal_id,
+  waiverJournalId: row.waiver_journal_id,
+  waiverRefundId: row.waiver_refund_id,
+  waiverReason: row.waiver_reason,
+  waivedBy: row.waived_by,
+  failureReason: row.failure_reason,
+  cancelledAt: row.cancelled_at,
+  postedAt: row.posted_at,
+  waivedAt: row.waived_at,
+  createdAt: row.created_at,
+  updatedAt: row.updated_at
+});
+
+// ============================================================================
+// POLICIES
+// ============================================================================
+
+export async function insertPolicy(
+  policy: CreateCancellationPolicyRequest & { createdBy: string },
+  q: QueryFn = query
+): Promise<CancellationPolicy> {
+  const { rows } = await q<PolicyRow>(`
+    INSERT INTO cancellation_policies
+      (name, region_id, service_type, rider_grace_seconds, driver_late_grace_minutes,
+       no_show_wait_minutes, no_show_fee, no_show_driver_compensation, fee_rules, created_by)
+    VALUES ($1,$2,$3,COALESCE($4, 120),COALESCE($5, 5),COALESCE($6, 5),COALESCE($7, 0),COALESCE($8, 0),$9,$10)
+    RETURNING *
+  `, [
+    policy.name, policy.regionId ?? null, policy.serviceType ?? null, policy.riderGraceSeconds ?? null,
+    policy.driverLateGraceMinutes ?? null, policy.noShowWaitMinutes ?? null, policy.noShowFee ?? null,
+    policy.noShowDriverCompensation ?? null, JSON.stringify(policy.feeRules ?? []), policy.createdBy
+  ]);
+  return mapPolicy(rows[0]);
+}
+
+export async function getPolicy(id: string, q: QueryFn = query, forUpdate = false): Promise<CancellationPolicy | null> {
+  const { rows } = await q<PolicyRow>(`
+    SELECT * FROM cancellation_policies WHERE id = $1 ${forUpdate ? 'FOR UPDATE' : ''}
+  `, [id]);
+  return rows[0] ? mapPolicy(rows[0]) : null;
+}
+
+// The active policy in the same scope, if any; scopes with NULL region or service match each other
+export async function getActivePolicyInScope(
+  regionId: string | null,
+  serviceType: string | null,
+  q: QueryFn = query
+): Promise<CancellationPolicy | null> {
+  const { rows } = await q<PolicyRow>(`
+    SELECT * FROM cancellation_policies
+    WHERE is_active
+      AND region_id IS NOT DISTINCT FROM $1
+      AND service_type::text IS NOT DISTINCT FROM $2
+  `, [regionId, serviceType]);
+  return rows[0] ? mapPolicy(rows[0]) : null;
+}
+
+/**
+ * The active policy for a booking: a policy for its region and service wins over one
+ * for its region alone, which wins over one for its service alone, then the default.
+ */
+export async function findApplicablePolicy(
+  regionId: string,
+  serviceType: string,
+  q: QueryFn = query
+): Promise<CancellationPolicy | null> {
+  const { rows } = await q<PolicyRow>(`
+    SELECT * FROM cancellation_policies
+    WHERE is_active
+      AND (region_id IS NULL OR region_id = $1)
+      AND (service_type IS NULL OR service_type::text = $2)
+    ORDER BY (region_id IS NULL), (service_type IS NULL)
+    LIMIT 1
+  `, [regionId, serviceType]);
+  return rows[0] ? mapPolicy(rows[0]) : null;
+}
+
+export async function listPolicies(filters: CancellationPolicyFilters): Promise<CancellationPolicy[]> {
+  const { rows } = await query<PolicyRow>(`
+    SELECT * FROM cancellation_policies
+    WHERE ($1::uuid IS NULL OR region_id = $1)
+      AND ($2::text IS NULL OR service_type::text = $2)
+      AND ($3::boolean IS NULL OR is_active = $3)
+    ORDER BY region_id NULLS FIRST, service_type NULLS FIRST, created_at DESC
+  `, [filters.regionId ?? null, filters.serviceType ?? null, filters.isActive ?? null]);
+  return rows.map(mapPolicy);
+}
+
+export async function updatePolicy(id: string, patch: CancellationPolicyPatch, q: QueryFn = query): Promise<void> {
+  const columns: Record<keyof CancellationPolicyPatch, string> = {
+    name: 'name',
+    riderGraceSeconds: 'rider_grace_seconds',
+    driverLateGraceMinutes: 'driver_late_grace_minutes',
+    noShowWaitMinutes: 'no_show_wait_minutes',
+    noShowFee: 'no_show_fee',
+    noShowDriverCompensation: 'no_show_driver_compensation',
+    feeRules: 'fee_rules',
+    isActive: 'is_active'
+  };
+  const entries = (Object.keys(patch) as (keyof CancellationPolicyPatch)[]).filter(key => patch[key] !== undefined);
+  if (entries.length === 0) {
+    return;
+  }
+  const assignments = entries.map((key, i) => `${columns[key]} = $${i + 2}`);
+  await q(`
+    UPDATE cancellation_policies SET ${assignments.join(', ')}, updated_at = now() WHERE id = $1
+  `, [id, ...entries.map(key => (key === 'feeRules' ? JSON.stringify(patch[key]) : patch[key]))]);
+}
+
+// ============================================================================
+// CHARGES
+// ============================================================================
+
+/**
+ * Records the charge for one cancellation of a booking. A booking that restarts its search
+ * and is cancelled again gets a new charge, priced from the status it was in that time.
+ */
+export async function insertCharge(
+  charge: {
+    reference: string;
+    bookingId: string;
+    policyId: string | null;
+    regionId: string;
+    customerId: string;
+    driverId: string | null;
+    cancelledBy: CancellingParty;
+    fromStatus: string;
+    reason: string | null;
+    outcome: CancellationOutcome;
+    riderFee: number;
+    driverCompensation: number;
+    driverPenalty: number;
+  },
+  q: QueryFn = query
+): Promise<CancellationCharge> {
+  const { rows } = await q<ChargeRow>(`
+    INSERT INTO cancellation_charges
+      (charge_reference, booking_id, policy_id, region_id, customer_id, driver_id, cancelled_by, from_status,
+       reason, outcome, rider_fee, driver_compensation, driver_penalty)
+    VALUES ($1,$2,$3,$4,$5,$6,$7,$8,$9,$10,$11,$12,$13)
+    RETURNING *
+  `, [
+    charge.reference, charge.bookingId, charge.policyId, charge.regionId, charge.customerId, charge.driverId,
+    charge.cancelledBy, charge.fromStatus, charge.reason, charge.outcome, charge.riderFee,
+    charge.driverCompensation, charge.driverPenalty
+  ]);
+  return mapCharge(rows[0]);
+}
+
+// Accepts either the row id or the CXL- reference
+export async function getCharge(
+  idOrReference: string,
+  q: QueryFn = query,
+  forUpdate = false
+): Promise<CancellationCharge | null> {
+  const { rows } = await q<ChargeRow>(`
+    SELECT * FROM cancellation_charges
+    WHERE id::text = $1 OR charge_reference = $1
+    ${forUpdate ? 'FOR UPDATE' : ''}
+  `, [idOrReference]);
+  return rows[0] ? mapCharge(rows[0]) : null;
+}
+
+/**
+ * Claims a pending or failed charge for posting, or takes over a claim abandoned for longer
+ * than POSTING_CLAIM_TIMEOUT_MINUTES. Null when another poster holds it or it is settled.
+ */
+export async function claimChargeForPosting(id: string, q: QueryFn = query): Promise<CancellationCharge | null> {
+  const { rows } = await q<ChargeRow>(`
+    UPDATE cancellation_charges SET status = 'posting', updated_at = now()
+    WHERE id = $1
+      AND (status IN ('pending', 'failed')
+        OR (status = 'posting' AND updated_at < now() - make_interval(mins => $2)))
+    RETURNING *
+  `, [id, POSTING_CLAIM_TIMEOUT_MINUTES]);
+  return rows[0] ? mapCharge(rows[0]) : null;
+}
+
+/**
+ * Claims a posted charge for waiving, or takes over a waiver abandoned for longer than
+ * POSTING_CLAIM_TIMEOUT_MINUTES. Null when another waiver holds it or it is not posted.
+ */
+export async function claimChargeForWaiver(id: string, q: QueryFn = query): Promise<CancellationCharge | null> {
+  const { rows } = await q<ChargeRow>(`
+    UPDATE cancellation_charges SET status = 'waiving', updated_at = now()
+    WHERE id = $1
+      AND (status = 'posted'
+        OR (status = 'waiving' AND updated_at < now() - make_interval(mins => $2)))
+    RETURNING *
+  `, [id, POSTING_CLAIM_TIMEOUT_MINUTES]);
+  return rows[0] ? mapCharge(rows[0]) : null;
+}
+
+// A booking restarted after a cancellation has one charge per cancellation; this is the latest
+export async function getChargeByBooking(bookingId: string, q: QueryFn = query): Promise<CancellationCharge | null> {
+  const { rows } = await q<ChargeRow>(`
+    SELECT * FROM cancellation_charges WHERE booking_id = $1 ORDER BY cancelled_at DESC LIMIT 1
+  `, [bookingId]);
+  return rows[0] ? mapCharge(rows[0]) : null;
+}
+
+export async function listCharges(
+  filters: CancellationChargeFilters
+): Promise<{ charges: CancellationCharge[]; total: number }> {
+  const params = [
+    filters.status ?? null,
+    filters.outcome ?? null,
+    filters.regionId ?? null,
+    filters.customerId ?? null,
+    filters.driverId ?? null
+  ];
+  const where = `
+    WHERE ($1::text IS NULL OR status = $1)
+      AND ($2::text IS NULL OR outcome = $2)
+      AND ($3::uuid IS NULL OR region_id = $3)
+      AND ($4::uuid IS NULL OR customer_id = $4)
+      AND ($5::uuid IS NULL OR driver_id = $5)
+  `;
+
+  const countResult = await query<{ total: string }>(`
+    SELECT COUNT(*) AS total FROM cancellation_charges ${where}
+  `, params);
+
+  const { rows } = await query<ChargeRow>(`
+    SELECT * FROM cancellation_charges
+    ${where}
+    ORDER BY cancelled_at DESC
+    LIMIT $6 OFFSET $7
+  `, [...params, filters.limit, (filters.page - 1) * filters.limit]);
+
+  return {
+    charges: rows.map(mapCharge),
+    total: parseInt(countResult.rows[0]?.total || '0')
+  };
+}
+
+export async function updateCharge(id: string, patch: CancellationChargePatch, q: QueryFn): Promise<void> {
+  const columns: Record<keyof CancellationChargePatch, string> = {
+    status: 'status',
+    collectionMethod: 'collection_method',
+    paymentTransactionId: 'payment_transaction_id',
+    refundId: 'refund_id',
+    journalId: 'journal_id',
+    waiverJournalId: 'waiver_journal_id',
+    waiverRefundId: 'waiver_refund_id',
+    waiverReason: 'waiver_reason',
+    waivedBy: 'waived_by',
+    failureReason: 'failure_reason',
+    postedAt: 'posted_at',
+    waivedAt: 'waived_at'
+  };
+  const entries = (Object.keys(patch) as (keyof CancellationChargePatch)[]).filter(key => patch[key] !== undefined);
+  if (entries.length === 0) {
+    return;
+  }
+  const assignments = entries.map((key, i) => `${columns[key]} = $${i + 2}`);
+  await q(`
+    UPDATE cancellation_charges SET ${assignments.join(', ')}, updated_at = now() WHERE id = $1
+  `, [id, ...entries.map(key => patch[key])]);
+}
@@ -0,0 +1,384 @@
+import { query } from '@/lib/db';
+import { QueryFn } from '@/lib/repos/ledgerRepo';
+import {
+  AssignmentReleaseReason,
+  CoordinatorAssignment,
+  CoordinatorFilters,
+  CoordinatorRole,
+  CoordinatorShift,
+  CoordinatorShiftStatus,
+  CoordinatorSpecialization,
+  CreateCoordinatorRequest,
+  EmergencyCoordinator
+} from '@/types/emergencyCoordinator';
+
+export type CoordinatorPatch = Partial<{
+  name: string;
+  role: CoordinatorRole;
+  contactNumber: string;
+  regionId: string | null;
+  specializations: CoordinatorSpecialization[];
+  maxCapacity: number;
+  isActive: boolean;
+}>;
+
+export type CoordinatorShiftPatch = Partial<{
+  status: CoordinatorShiftStatus;
+  clockedInAt: string;
+  clockedOutAt: string;
+  handoverNotes: string | null;
+}>;
+
+interface CoordinatorRow {
+  id: string;
+  user_id: string | null;
+  name: string;
+  role: CoordinatorRole;
+  contact_number: string;
+  region_id: string | null;
+  specializations: CoordinatorSpecialization[];
+  max_capacity: number;
+  is_active: boolean;
+  current_shift_id: string | null;
+  current_load: string;
+  created_by: string;
+  created_at: string;
+  updated_at: string;
+}
+
+interface ShiftRow {
+  id: string;
+  coordinator_id: string;
+  starts_at: string;
+  ends_at: string;
+  status: CoordinatorShiftStatus;
+  clocked_in_at: string | null;
+  clocked_out_at: string | null;
+  handover_notes: string | null;
+  created_by: string;
+  created_at: string;
+  updated_at: string;
+}
+
+interface AssignmentRow {
+  id: string;
+  response_id: string;
+  sos_alert_id: string;
+  coordinator_id: string;
+  region_id: string | null;
+  specialization: CoordinatorSpecialization;
+  assigned_at: string;
+  assigned_by: string;
+  released_at: string | null;
+  release_reason: AssignmentReleaseReason | null;
+  handover_notes: string | null;
+  previous_assignment_id: string | null;
+}
+
+// On-duty shift and open assignments come along with every coordinator read
+const COORDINATOR_SELECT = `
+  SELECT c.*, s.id AS current_shift_id,
+    (SELECT COUNT(*) FROM emergency_coordinator_assignments a
+     WHERE a.coordinator_id = c.id AND a.released_at IS NULL) AS current_load
+  FROM emergency_coordinators c
+  LEFT JOIN emergency_coordinator_shifts s ON s.coordinator_id = c.id AND s.status = 'on_duty'
+`;
+
+const mapCoordinator = (row: CoordinatorRow): EmergencyCoordinator => ({
+  id: row.id,
+  userId: row.user_id,
+  name: row.name,
+  role: row.role,
+  contactNumber: row.contact_number,
+  regionId: row.region_id,
+  specializations: row.specializations ?? [],
+  maxCapacity: row.max_capacity,
+  isActive: row.is_active,
+  onDuty: row.current_shift_id !== null,
+  currentShiftId: row.current_shift_id,
+  currentLoad: parseInt(row.current_load || '0'),
+  createdBy: row.created_by,
+  createdAt: row.created_at,
+  updatedAt: row.updated_at
+});
+
+const mapShift = (row: ShiftRow): CoordinatorShift => ({
+  id: row.id,
+  coordinatorId: row.coordinator_id,
+  startsAt: row.starts_at,
+  endsAt: row.ends_at,
+  status: row.status,
+  clockedInAt: row.clocked_in_at,
+  clockedOutAt: row.clocked_out_at,
+  handoverNotes: row.handover_notes,
+  createdBy: row.created_by,
+  createdAt: row.created_at,
+  updatedAt: row.updated_at
+});
+
+const mapAssignment = (row: AssignmentRow): CoordinatorAssignment => ({
+  id: row.id,
+  responseId: row.response_id,
+  sosAlertId: row.sos_alert_id,
+  coordinatorId: row.coordinator_id,
+  regionId: row.region_id,
+  specialization: row.specialization,
+  assignedAt: row.assigned_at,
+  assignedBy: row.assigned_by,
+  releasedAt: row.released_at,
+  releaseReason: row.release_reason,
+  handoverNotes: row.handover_notes,
+  previousAssignmentId: row.previous_assignment_id
+});
+
+// ============================================================================
+// COORDINATORS
+// ============================================================================
+
+export async function insertCoordinator(
+  coordinator: CreateCoordinatorRequest & { createdBy: string },
+  q: QueryFn = query
+): Promise<string> {
+  const { rows } = await q<{ id: string }>(`
+    INSERT INTO emergency_coordinators
+      (user_id, name, role, contact_number, region_id, specializations, max_capacity, created_by)
+    VALUES ($1,$2,COALESCE($3, 'emergency_coordinator'),$4,$5,COALESCE($6, ARRAY['general']),COALESCE($7, 5),$8)
+    RETURNING id
+  `, [
+    coordinator.userId ?? null, coordinator.name, coordinator.role ?? null, coordinator.contactNumber,
+    coordinator.regionId ?? null, coordinator.specializations ?? null, coordinator.maxCapacity ?? null,
+    coordinator.createdBy
+  ]);
+  return rows[0].id;
+}
+
+/**
+ * With forUpdate the coordinator row is locked, which serializes assignments to the
+ * same coordinator so two responses cannot both take their last free slot.
+ */
+export async function getCoordinator(
+  id: string,
+  q: QueryFn = query,
+  forUpdate = false
+): Promise<EmergencyCoordinator | null> {
+  const { rows } = await q<CoordinatorRow>(`
+    ${COORDINATOR_SELECT}
+    WHERE c.id = $1
+    ${forUpdate ? 'FOR UPDATE OF c' : ''}
+  `, [id]);
+  return rows[0] ? mapCoordinator(rows[0]) : null;
+}
+
+export async function getCoordinatorByUser(userId: string, q: QueryFn = query): Promise<EmergencyCoordinator | null> {
+  const { rows } = await q<CoordinatorRow>(`${COORDINATOR_SELECT} WHERE c.user_id = $1`, [userId]);
+  return rows[0] ? mapCoordinator(rows[0]) : null;
+}
+
+export async function listCoordinators(filters: CoordinatorFilters): Promise<EmergencyCoordinator[]> {
+  const { rows } = await query<CoordinatorRow>(`
+    ${COORDINATOR_SELECT}
+    WHERE ($1::uuid IS NULL OR c.region_id = $1 OR c.region_id IS NULL)
+      AND ($2::boolean IS NULL OR (s.id IS NOT NULL) = $2)
+      AND ($3::boolean IS NULL OR c.is_active = $3)
+    ORDER BY c.region_id NULLS LAST, c.name
+  `, [filters.regionId ?? null, filters.onDuty ?? null, filters.isActive ?? null]);
+  return rows.map(mapCoordinator);
+}
+
+/**
+ * On-duty coordinators with a free slot who cover the region, best first: the right
+ * specialization, then a regional coordinator over a national one, then the lightest
+ * caseload relative to capacity. An unknown region is covered by everyone.
+ */
+export async function findAvailableCoordinators(
+  criteria: {
+    regionId?: string | null;
+    specialization: CoordinatorSpecialization;
+    excludeCoordinatorIds?: string[];
+  },
+  q: QueryFn = query
+): Promise<EmergencyCoordinator[]> {
+  const { rows } = await q<CoordinatorRow>(`
+    SELECT * FROM (${COORDINATOR_SELECT}) available
+    WHERE is_active
+      AND current_shift_id IS NOT NULL
+      AND current_load < max_capacity
+      AND ($1::text IS NULL OR region_id IS NULL OR region_id::text = $1)
+      AND NOT (id::text = ANY($3::text[]))
+    ORDER BY ($2 = ANY(specializations)) DESC, (region_id IS NULL), current_load::float / max_capacity, name
+  `, [criteria.regionId ?? null, criteria.specialization, criteria.excludeCoordinatorIds ?? []]);
+  return rows.map(mapCoordinator);
+}
+
+export async function updateCoordinator(id: string, patch: CoordinatorPatch, q: QueryFn = query): Promise<void> {
+  const columns: Record<keyof CoordinatorPatch, string> = {
+    name: 'name',
+    role: 'role',
+    contactNumber: 'contact_number',
+    regionId: 'region_id',
+    specializations: 'specializations',
+    maxCapacity: 'max_capacity',
+    isActive: 'is_active'
+  };
+  const entries = (Object.keys(patch) as (keyof CoordinatorPatch)[]).filter(key => patch[key] !== undefined);
+  if (entries.length === 0) {
+    return;
+  }
+  const assignments = entries.map((key, i) => `${columns[key]} = $${i + 2}`);
+  await q(`
+    UPDATE emergency_coordinators SET ${assignments.join(', ')}, updated_at = now() WHERE id = $1
+  `, [id, ...entries.map(key => patch[key])]);
+}
+
+// ============================================================================
+// SHIFTS
+// ============================================================================
+
+export async function insertShift(
+  shift: { coordinatorId: string; startsAt: string; endsAt: string; createdBy: string },
+  q: QueryFn = query
+): Promise<CoordinatorShift> {
+  const { rows } = await q<ShiftRow>(`
+    INSERT INTO emergency_coordinator_shifts (coordinator_id, starts_at, ends_at, created_by)
+    VALUES ($1,$2,$3,$4)
+    RETURNING *
+  `, [shift.coordinatorId, shift.startsAt, shift.endsAt, shift.createdBy]);
+  return mapShift(rows[0]);
+}
+
+export async function getShift(id: string, q: QueryFn = query, forUpdate = false): Promise<CoordinatorShift | null> {
+  const { rows } = await q<ShiftRow>(`
+    SELECT * FROM emergency_coordinator_shifts WHERE id = $1 ${forUpdate ? 'FOR UPDATE' : ''}
+  `, [id]);
+  return rows[0] ? mapShift(rows[0]) : null;
+}
+
+export async function listShifts(
+  coordinatorId: string,
+  range: { from?: string; to?: string } = {}
+): Promise<CoordinatorShift[]> {
+  const { rows } = await query<ShiftRow>(`
+    SELECT * FROM emergency_coordinator_shifts
+    WHERE coordinator_id = $1
+      AND ($2::timestamptz IS NULL OR ends_at >= $2)
+      AND ($3::timestamptz IS NULL OR starts_at < $3)
+    ORDER BY starts_at
+  `, [coordinatorId, range.from ?? null, range.to ?? null]);
+  return rows.map(mapShift);
+}
+
+// Scheduled or running shifts of the coordinator that overlap the given window
+export async function hasOverlappingShift(
+  coordinatorId: string,
+  startsAt: string,
+  endsAt: string,
+  q: QueryFn = query
+): Promise<boolean> {
+  const { rows } = await q(`
+    SELECT 1 FROM emergency_coordinator_shifts
+    WHERE coordinator_id = $1
+      AND status IN ('scheduled', 'on_duty')
+      AND starts_at < $3 AND ends_at > $2
+    LIMIT 1
+  `, [coordinatorId, startsAt, endsAt]);
+  return rows.length > 0;
+}
+
+// On-duty shifts whose end has passed without the coordinator clocking out
+export async function listOverdueShifts(now: Date, q: QueryFn = query): Promise<CoordinatorShift[]> {
+  const { rows } = await q<ShiftRow>(`
+    SELECT * FROM emergency_coordinator_shifts WHERE status = 'on_duty' AND ends_at <= $1 ORDER BY ends_at
+  `, [now.toISOString()]);
+  return rows.map(mapShift);
+}
+
+export async function updateShift(id: string, patch: CoordinatorShiftPatch, q: QueryFn = query): Promise<void> {
+  const columns: Record<keyof CoordinatorShiftPatch, string> = {
+    status: 'status',
+    clockedInAt: 'clocked_in_at',
+    clockedOutAt: 'clocked_out_at',
+    handoverNotes: 'handover_notes'
+  };
+  const entries = (Object.keys(patch) as (keyof CoordinatorShiftPatch)[]).filter(key => patch[key] !== undefined);
+  if (entries.length === 0) {
+    return;
+  }
+  const assignments = entries.map((key, i) => `${columns[key]} = $${i + 2}`);
+  await q(`
+    UPDATE emergency_coordinator_shifts SET ${assignments.join(', ')}, updated_at = now() WHERE id = $1
+  `, [id, ...entries.map(key => patch[key])]);
+}
+
+// ============================================================================
+// ASSIGNMENTS
+// ============================================================================
+
+export async function insertAssignment(
+  assignment: {
+    responseId: string;
+    sosAlertId: string;
+    coordinatorId: string;
+    regionId?: string | null;
+    specialization: CoordinatorSpecialization;
+    assignedBy: string;
+    handoverNotes?: string | null;
+    previousAssignmentId?: string | null;
+  },
+  q: QueryFn = query
+): Promise<CoordinatorAssignment> {
+  const { rows } = await q<AssignmentRow>(`
+    INSERT INTO emergency_coordinator_assignments
+      (response_id, sos_alert_id, coordinator_id, region_id, specialization, assigned_by,
+       handover_notes, previous_assignment_id)
+    VALUES ($1,$2,$3,$4,$5,$6,$7,$8)
+    RETURNING *
+  `, [
+    assignment.responseId, assignment.sosAlertId, assignment.coordinatorId, assignment.regionId ?? null,
+    assignment.specialization, assignment.assignedBy, assignment.handoverNotes ?? null,
+    assignment.previousAssignmentId ?? null
+  ]);
+  return mapAssignment(rows[0]);
+}
+
+export async function getOpenAssignment(
+  responseId: string,
+  q: QueryFn = query,
+  forUpdate = false
+): Promise<CoordinatorAssignment | null> {
+  const { rows } = await q<AssignmentRow>(`
+    SELECT * FROM emergency_coordinator_assignments
+    WHERE response_id = $1 AND released_at IS NULL
+    ${forUpdate ? 'FOR UPDATE' : ''}
+  `, [responseId]);
+  return rows[0] ? mapAssignment(rows[0]) : null;
+}
+
+export async function listOpenAssignments(coordinatorId: string, q: QueryFn = query): Promise<CoordinatorAssignment[]> {
+  const { rows } = await q<AssignmentRow>(`
+    SELECT * FROM emergency_coordinator_assignments
+    WHERE coordinator_id = $1 AND released_at IS NULL
+    ORDER BY assigned_at
+    FOR UPDATE
+  `, [coordinatorId]);
+  return rows.map(mapAssignment);
+}
+
+export async function listAssignmentHistory(responseId: string): Promise<CoordinatorAssignment[]> {
+  const { rows } = await query<AssignmentRow>(`
+    SELECT * FROM emergency_coordinator_assignments WHERE response_id = $1 ORDER BY assigned_at
+  `, [responseId]);
+  return rows.map(mapAssignment);
+}
+
+export async function releaseAssignment(
+  id: string,
+  reason: AssignmentReleaseReason,
+  handoverNotes: string | null,
+  q: QueryFn = query
+): Promise<void> {
+  await q(`
+    UPDATE emergency_coordinator_assignments
+    SET released_at = now(), release_reason = $2, handover_notes = COALESCE($3, handover_notes)
+    WHERE id = $1 AND released_at IS NULL
+  `, [id, reason, handoverNotes]);
+}
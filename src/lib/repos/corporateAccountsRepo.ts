@@ -0,0 +1,458 @@
+import { randomBytes } from 'crypto';
+
+import { format } from 'date-fns';
+
+import { query } from '@/lib/db';
+import { QueryFn } from '@/lib/repos/ledgerRepo';
+import {
+  AuthorizedBooker,
+  BillingAddress,
+  CorporateAccount,
+  CorporateAccountStatus,
+  CreateAccountRequest,
+  CreateSubscriptionRequest,
+  PaymentTerms,
+  Subscription,
+  SubscriptionPlanType,
+  SubscriptionStatus
+} from '@/types/billing';
+
+export interface AccountListFilters {
+  page: number;
+  limit: number;
+  status?: CorporateAccountStatus[];
+  search?: string;
+  hasOutstanding?: boolean;
+}
+
+export interface SubscriptionListFilters {
+  page: number;
+  limit: number;
+  accountId?: string;
+  status?: SubscriptionStatus[];
+}
+
+interface AccountRow {
+  id: string;
+  account_number: string;
+  company_name: string;
+  registration_number: string | null;
+  tax_id: string | null;
+  billing_address: BillingAddress;
+  contact_email: string;
+  contact_phone: string;
+  contact_person: string;
+  credit_limit: string;
+  outstanding_balance: string;
+  status: CorporateAccountStatus;
+  payment_terms_id: string | null;
+  subscription_id: string | null;
+  currency: string;
+  auto_invoicing: boolean;
+  invoice_frequency: 'weekly' | 'monthly' | 'quarterly';
+  billing_day: number | null;
+  notes: string | null;
+  tags: string[];
+  dunning_policy_id: string | null;
+  suspended_at: string | null;
+  suspension_reason: 'dunning' | 'manual' | null;
+  dunning_override_until: string | Date | null;
+  dunning_override_reason: string | null;
+  dunning_override_by: string | null;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+interface BookerRow {
+  id: string;
+  customer_id: string;
+  name: string;
+  email: string;
+  phone: string;
+  role: string;
+  added_at: string;
+  removed_at: string | null;
+  suspended_at: string | null;
+}
+
+interface SubscriptionRow {
+  id: string;
+  account_id: string;
+  plan_type: SubscriptionPlanType;
+  plan_name: string;
+  start_date: string | Date;
+  end_date: string | Date;
+  cancelled_date: string | Date | null;
+  price_per_ride: string;
+  monthly_minimum: string | null;
+  included_rides: number | null;
+  base_fee: string | null;
+  discount_percentage: string | null;
+  volume_discount_tiers: Subscription['volumeDiscountTiers'];
+  status: SubscriptionStatus;
+  auto_renew: boolean;
+  notes: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+interface PaymentTermsRow {
+  id: string;
+  name: string;
+  description: string | null;
+  due_days: number;
+  grace_period_days: number;
+  late_fee_type: 'percentage' | 'fixed';
+  late_fee_amount: string;
+  late_fee_cap_percentage: string | null;
+  early_payment_discount_days: number | null;
+  early_payment_discount_percentage: string | null;
+  is_default: boolean;
+  is_active: boolean;
+  terms_and_conditions: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+const optionalNumber = (value: string | null) => (value === null ? undefined : Number(value));
+
+// DATE columns come back as either 'YYYY-MM-DD' or a local-midnight Date, depending on the driver's type parsers
+export const toDateString = (value: string | Date) =>
+  (value instanceof Date ? format(value, 'yyyy-MM-dd') : String(value).slice(0, 10));
+
+const mapBooker = (row: BookerRow): AuthorizedBooker => ({
+  id: row.id,
+  customerId: row.customer_id,
+  name: row.name,
+  email: row.email,
+  phone: row.phone,
+  role: row.role,
+  isActive: row.removed_at === null && row.suspended_at === null,
+  addedDate: row.added_at,
+  suspendedAt: row.suspended_at ? new Date(row.suspended_at).toISOString() : undefined
+});
+
+function mapAccount(row: AccountRow, bookers: BookerRow[] = []): CorporateAccount {
+  const creditLimit = Number(row.credit_limit);
+  const outstandingBalance = Number(row.outstanding_balance);
+  return {
+    id: row.id,
+    accountNumber: row.account_number,
+    companyName: row.company_name,
+    registrationNumber: row.registration_number ?? undefined,
+    taxId: row.tax_id ?? undefined,
+    billingAddress: row.billing_address,
+    contactEmail: row.contact_email,
+    contactPhone: row.contact_phone,
+    contactPerson: row.contact_person,
+    creditLimit,
+    outstandingBalance,
+    availableCredit: Math.max(0, Math.round((creditLimit - outstandingBalance) * 100) / 100),
+    status: row.status,
+    suspendedAt: row.suspended_at ? new Date(row.suspended_at).toISOString() : undefined,
+    suspensionReason: row.suspension_reason ?? undefined,
+    dunningOverride: row.dunning_override_until ? {
+      until: toDateString(row.dunning_override_until),
+      reason: row.dunning_override_reason ?? '',
+      setBy: row.dunning_override_by ?? ''
+    } : undefined,
+    paymentTermsId: row.payment_terms_id ?? undefined,
+    subscriptionId: row.subscription_id ?? undefined,
+    dunningPolicyId: row.dunning_policy_id ?? undefined,
+    authorizedBookers: bookers.map(mapBooker),
+    currency: row.currency,
+    autoInvoicing: row.auto_invoicing,
+    invoiceFrequency: row.invoice_frequency,
+    billingDay: row.billing_day ?? undefined,
+    notes: row.notes ?? undefined,
+    tags: row.tags,
+    createdBy: row.created_by ?? undefined,
+    createdAt: new Date(row.created_at),
+    updatedAt: new Date(row.updated_at)
+  };
+}
+
+const mapSubscription = (row: SubscriptionRow): Subscription => ({
+  id: row.id,
+  corporateAccountId: row.account_id,
+  planType: row.plan_type,
+  planName: row.plan_name,
+  startDate: toDateString(row.start_date),
+  endDate: toDateString(row.end_date),
+  renewalDate: toDateString(row.end_date),
+  cancelledDate: row.cancelled_date ? toDateString(row.cancelled_date) : undefined,
+  pricePerRide: Number(row.price_per_ride),
+  monthlyMinimum: optionalNumber(row.monthly_minimum),
+  includedRides: row.included_rides ?? undefined,
+  baseFee: optionalNumber(row.base_fee),
+  discountPercentage: optionalNumber(row.discount_percentage),
+  volumeDiscountTiers: row.volume_discount_tiers ?? [],
+  status: row.status,
+  autoRenew: row.auto_renew,
+  billingCycle: row.plan_type,
+  nextBillingDate: toDateString(row.end_date),
+  currentPeriodRides: 0,
+  currentPeriodAmount: 0,
+  notes: row.notes ?? undefined,
+  createdAt: new Date(row.created_at),
+  updatedAt: new Date(row.updated_at)
+});
+
+const mapPaymentTerms = (row: PaymentTermsRow): PaymentTerms => ({
+  id: row.id,
+  name: row.name,
+  description: row.description ?? undefined,
+  dueDays: row.due_days,
+  gracePeriodDays: row.grace_period_days,
+  lateFeeType: row.late_fee_type,
+  lateFeeAmount: Number(row.late_fee_amount),
+  lateFeeCapPercentage: optionalNumber(row.late_fee_cap_percentage),
+  earlyPaymentDiscountDays: row.early_payment_discount_days ?? undefined,
+  earlyPaymentDiscountPercentage: optionalNumber(row.early_payment_discount_percentage),
+  isDefault: row.is_default,
+  isActive: row.is_active,
+  termsAndConditions: row.terms_and_conditions ?? undefined,
+  createdAt: new Date(row.created_at),
+  updatedAt: new Date(row.updated_at)
+});
+
+// The subscription currently attached to an account is the latest one still running
+const ACCOUNT_SELECT = `
+  SELECT ca.*,
+         (SELECT cs.id FROM corporate_subscriptions cs
+           WHERE cs.account_id = ca.id AND cs.status IN ('active', 'paused')
+           ORDER BY cs.start_date DESC LIMIT 1) AS subscription_id
+  FROM corporate_accounts ca
+`;
+
+// ============================================================================
+// ACCOUNTS
+// ============================================================================
+
+export async function insertAccount(
+  request: CreateAccountRequest,
+  createdBy: string,
+  q: QueryFn = query
+): Promise<string> {
+  const accountNumber = `CA-${new Date().getFullYear()}-${randomBytes(3).toString('hex').toUpperCase()}`;
+  const { rows } = await q<{ id: string }>(`
+    INSERT INTO corporate_accounts (
+      account_number, company_name, registration_number, tax_id, billing_address,
+      contact_email, contact_phone, contact_person, credit_limit, payment_terms_id,
+      auto_invoicing, invoice_frequency, created_by
+    ) VALUES ($1,$2,$3,$4,$5,$6,$7,$8,$9,$10,$11,$12,$13)
+    RETURNING id
+  `, [
+    accountNumber,
+    request.companyName,
+    request.registrationNumber ?? null,
+    request.taxId ?? null,
+    JSON.stringify(request.billingAddress),
+    request.contactEmail,
+    request.contactPhone,
+    request.contactPerson,
+    request.creditLimit,
+    request.paymentTermsId ?? null,
+    request.autoInvoicing ?? true,
+    request.invoiceFrequency ?? 'monthly',
+    createdBy
+  ]);
+  return rows[0].id;
+}
+
+export async function insertBooker(
+  accountId: string,
+  booker: NonNullable<CreateAccountRequest['authorizedBookers']>[number],
+  q: QueryFn = query
+): Promise<void> {
+  await q(`
+    INSERT INTO corporate_authorized_bookers (account_id, customer_id, name, email, phone, role)
+    VALUES ($1,$2,$3,$4,$5,$6)
+  `, [accountId, booker.customerId, booker.name, booker.email, booker.phone, booker.role]);
+}
+
+export async function getAccount(
+  id: string,
+  q: QueryFn = query,
+  forUpdate = false
+): Promise<CorporateAccount | null> {
+  const { rows } = await q<AccountRow>(`
+    ${ACCOUNT_SELECT}
+    WHERE ca.id = $1
+    ${forUpdate ? 'FOR UPDATE OF ca' : ''}
+  `, [id]);
+  if (rows.length === 0) {
+    return null;
+  }
+  const bookers = await q<BookerRow>(`
+    SELECT * FROM corporate_authorized_bookers WHERE account_id = $1 ORDER BY added_at
+  `, [id]);
+  return mapAccount(rows[0], bookers.rows);
+}
+
+export async function listAccounts(
+  filters: AccountListFilters
+): Promise<{ accounts: CorporateAccount[]; total: number }> {
+  const params = [
+    filters.status?.length ? filters.status : null,
+    filters.search ? `%${filters.search}%` : null,
+    filters.hasOutstanding ?? null
+  ];
+  const where = `
+    WHERE ($1::text[] IS NULL OR ca.status = ANY($1))
+      AND ($2::text IS NULL OR ca.company_name ILIKE $2 OR ca.account_number ILIKE $2)
+      AND ($3::boolean IS NULL OR (ca.outstanding_balance > 0) = $3)
+  `;
+
+  const countResult = await query<{ total: string }>(`
+    SELECT COUNT(*) AS total FROM corporate_accounts ca ${where}
+  `, params);
+
+  const { rows } = await query<AccountRow>(`
+    ${ACCOUNT_SELECT}
+    ${where}
+    ORDER BY ca.company_name
+    LIMIT $4 OFFSET $5
+  `, [...params, filters.limit, (filters.page - 1) * filters.limit]);
+
+  return {
+    accounts: rows.map(row => mapAccount(row)),
+    total: parseInt(countResult.rows[0]?.total || '0')
+  };
+}
+
+// Accounts a billing run should consider: the listed ones, or every auto-invoiced account
+export async function listBillableAccountIds(
+  filters: { accountIds?: string[]; frequency?: CorporateAccount['invoiceFrequency'] }
+): Promise<{ id: string; companyName: string }[]> {
+  const { rows } = await query<{ id: string; company_name: string }>(`
+    SELECT id, company_name FROM corporate_accounts
+    WHERE (($1::uuid[] IS NULL AND auto_invoicing) OR id = ANY($1))
+      AND ($2::text IS NULL OR invoice_frequency = $2)
+    ORDER BY company_name
+  `, [filters.accountIds?.length ? filters.accountIds : null, filters.frequency ?? null]);
+  return rows.map(row => ({ id: row.id, companyName: row.company_name }));
+}
+
+// Outstanding balance is derived from the account's issued, unpaid invoices
+export async function refreshOutstandingBalance(accountId: string, q: QueryFn = query): Promise<void> {
+  await q(`
+    UPDATE corporate_accounts
+       SET outstanding_balance = COALESCE((
+             SELECT SUM(amount_due) FROM invoices
+             WHERE corporate_account_id = $1 AND status IN ('sent', 'overdue')
+           ), 0),
+           updated_at = now()
+     WHERE id = $1
+  `, [accountId]);
+}
+
+// ============================================================================
+// SUBSCRIPTIONS
+// ============================================================================
+
+export async function insertSubscription(
+  request: CreateSubscriptionRequest,
+  q: QueryFn = query
+): Promise<Subscription> {
+  const { rows } = await q<SubscriptionRow>(`
+    INSERT INTO corporate_subscriptions (
+      account_id, plan_type, plan_name, start_date, end_date, price_per_ride, monthly_minimum,
+      included_rides, base_fee, discount_percentage, volume_discount_tiers, auto_renew
+    ) VALUES (
+      $1, $2, $3, $4::date,
+      COALESCE($5::date, $4::date + (CASE $2 WHEN 'monthly' THEN INTERVAL '1 month'
+                                             WHEN 'quarterly' THEN INTERVAL '3 months'
+                                             ELSE INTERVAL '1 year' END) - INTERVAL '1 day'),
+      $6, $7, $8, $9, $10, $11, $12
+    )
+    RETURNING *
+  `, [
+    request.corporateAccountId,
+    request.planType,
+    request.planName,
+    request.startDate,
+    request.endDate ?? null,
+    request.pricePerRide,
+    request.monthlyMinimum ?? null,
+    request.includedRides ?? null,
+    request.baseFee ?? null,
+    request.discountPercentage ?? null,
+    JSON.stringify(request.volumeDiscountTiers ?? []),
+    request.autoRenew
+  ]);
+  return mapSubscription(rows[0]);
+}
+
+export async function listSubscriptions(
+  filters: SubscriptionListFilters
+): Promise<{ subscriptions: Subscription[]; total: number }> {
+  const params = [filters.accountId ?? null, filters.status?.length ? filters.status : null];
+  const where = `
+    WHERE ($1::uuid IS NULL OR account_id = $1)
+      AND ($2::text[] IS NULL OR status = ANY($2))
+  `;
+
+  const countResult = await query<{ total: string }>(`
+    SELECT COUNT(*) AS total FROM corporate_subscriptions ${where}
+  `, params);
+
+  const { rows } = await query<SubscriptionRow>(`
+    SELECT * FROM corporate_subscriptions
+    ${where}
+    ORDER BY start_date DESC
+    LIMIT $3 OFFSET $4
+  `, [...params, filters.limit, (filters.page - 1) * filters.limit]);
+
+  return {
+    subscriptions: rows.map(mapSubscription),
+    total: parseInt(countResult.rows[0]?.total || '0')
+  };
+}
+
+/**
+ * The subscription that prices an account's trips for a billing period: the latest one
+ * overlapping the period that was not cancelled before the period began.
+ */
+export async function getSubscriptionForPeriod(
+  accountId: string,
+  periodStart: string,
+  periodEnd: string,
+  q: QueryFn = query
+): Promise<Subscription | null> {
+  const { rows } = await q<SubscriptionRow>(`
+    SELECT * FROM corporate_subscriptions
+    WHERE account_id = $1
+      AND start_date <= $3::date
+      AND end_date >= $2::date
+      AND (cancelled_date IS NULL OR cancelled_date >= $2::date)
+      AND status <> 'paused'
+    ORDER BY start_date DESC
+    LIMIT 1
+  `, [accountId, periodStart, periodEnd]);
+  return rows.length ? mapSubscription(rows[0]) : null;
+}
+
+// ============================================================================
+// PAYMENT TERMS
+// ============================================================================
+
+export async function listPaymentTerms(includeInactive = false): Promise<PaymentTerms[]> {
+  const { rows } = await query<PaymentTermsRow>(`
+    SELECT * FROM payment_terms
+    WHERE $1 OR is_active
+    ORDER BY is_default DESC, due_days
+  `, [includeInactive]);
+  return rows.map(mapPaymentTerms);
+}
+
+// The account's own terms, falling back to the default terms
+export async function getPaymentTerms(id: string | null | undefined, q: QueryFn = query): Promise<PaymentTerms | null> {
+  const { rows } = await q<PaymentTermsRow>(`
+    SELECT * FROM payment_terms
+    WHERE ($1::uuid IS NOT NULL AND id = $1) OR ($1::uuid IS NULL AND is_default)
+    LIMIT 1
+  `, [id ?? null]);
+  return rows.length ? mapPaymentTerms(rows[0]) : null;
+}
@@ -0,0 +1,358 @@
+import { query } from '@/lib/db';
+import { toDateString } from '@/lib/repos/corporateAccountsRepo';
+import { QueryFn } from '@/lib/repos/ledgerRepo';
+import {
+  CorporateAccountStatus,
+  DunningChannel,
+  DunningNotice,
+  DunningOverride,
+  DunningPolicy,
+  DunningReminderStep,
+  DunningRunResult,
+  DunningTemplate,
+  InvoiceStatus
+} from '@/types/billing';
+
+/** An open invoice the dunning run may remind the account about. */
+export interface DunningInvoice {
+  id: string;
+  invoiceNumber: string;
+  accountId: string;
+  companyName: string;
+  contactPerson: string;
+  contactEmail: string;
+  contactPhone: string;
+  dunningPolicyId?: string;
+  status: InvoiceStatus;
+  dueDate: string;
+  amountDue: number;
+  sentTo: string[];
+  reminderCount: number;
+}
+
+/** An account the dunning run may suspend, or reactivate after an earlier dunning suspension. */
+export interface DunningAccount {
+  id: string;
+  companyName: string;
+  contactPerson: string;
+  contactEmail: string;
+  contactPhone: string;
+  status: CorporateAccountStatus;
+  dunningPolicyId?: string;
+  overrideUntil?: string;
+  oldestOverdueDueDate?: string;
+  overdueAmount: number;
+}
+
+export interface NewDunningNotice {
+  invoiceId?: string;
+  accountId: string;
+  stepKey: string;
+  template: DunningTemplate;
+  channel: DunningChannel;
+  recipient: string;
+  status: DunningNotice['status'];
+  providerMessageId?: string;
+  error?: string;
+  runId?: string;
+}
+
+interface DunningPolicyRow {
+  id: string;
+  name: string;
+  description: string | null;
+  reminder_steps: DunningReminderStep[];
+  suspend_after_days_overdue: number | null;
+  suspend_min_overdue_amount: string;
+  is_default: boolean;
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+interface DunningInvoiceRow {
+  id: string;
+  invoice_number: string;
+  account_id: string;
+  company_name: string;
+  contact_person: string;
+  contact_email: string;
+  contact_phone: string;
+  dunning_policy_id: string | null;
+  status: InvoiceStatus;
+  due_date: string | Date;
+  amount_due: string;
+  sent_to: string[];
+  reminder_count: number;
+}
+
+interface DunningAccountRow {
+  id: string;
+  company_name: string;
+  contact_person: string;
+  contact_email: string;
+  contact_phone: string;
+  status: CorporateAccountStatus;
+  dunning_policy_id: string | null;
+  dunning_override_until: string | Date | null;
+  oldest_overdue_due_date: string | Date | null;
+  overdue_amount: string;
+}
+
+interface DunningNoticeRow {
+  id: string;
+  invoice_id: string | null;
+  account_id: string;
+  step_key: string;
+  template: DunningTemplate;
+  channel: DunningChannel;
+  recipient: string;
+  status: DunningNotice['status'];
+  provider_message_id: string | null;
+  error: string | null;
+  created_at: string;
+}
+
+const mapPolicy = (row: DunningPolicyRow): DunningPolicy => ({
+  id: row.id,
+  name: row.name,
+  description: row.description ?? undefined,
+  reminderSteps: [...row.reminder_steps].sort((a, b) => a.dayOffset - b.dayOffset),
+  suspendAfterDaysOverdue: row.suspend_after_days_overdue ?? undefined,
+  suspendMinOverdueAmount: Number(row.suspend_min_overdue_amount),
+  isDefault: row.is_default,
+  isActive: row.is_active,
+  createdAt: new Date(row.created_at),
+  updatedAt: new Date(row.updated_at)
+});
+
+const mapNotice = (row: DunningNoticeRow): DunningNotice => ({
+  id: row.id,
+  invoiceId: row.invoice_id ?? undefined,
+  accountId: row.account_id,
+  stepKey: row.step_key,
+  template: row.template,
+  channel: row.channel,
+  recipient: row.recipient,
+  status: row.status,
+  providerMessageId: row.provider_message_id ?? undefined,
+  error: row.error ?? undefined,
+  createdAt: new Date(row.created_at).toISOString()
+});
+
+// ============================================================================
+// POLICIES
+// ============================================================================
+
+export async function listDunningPolicies(includeInactive = false, q: QueryFn = query): Promise<DunningPolicy[]> {
+  const { rows } = await q<DunningPolicyRow>(`
+    SELECT * FROM dunning_policies
+    WHERE $1 OR is_active
+    ORDER BY is_default DESC, name
+  `, [includeInactive]);
+  return rows.map(mapPolicy);
+}
+
+// ============================================================================
+// REMINDERS
+// ============================================================================
+
+// Issued invoices with a balance that are due within `leadDays` of asOf or already past due
+export async function listDunningInvoices(
+  asOf: string,
+  leadDays: number,
+  q: QueryFn = query
+): Promise<DunningInvoice[]> {
+  const { rows } = await q<DunningInvoiceRow>(`
+    SELECT i.id, i.invoice_number, i.status, i.due_date, i.amount_due, i.sent_to, i.reminder_count,
+           ca.id AS account_id, ca.company_name, ca.contact_person, ca.contact_email, ca.contact_phone,
+           ca.dunning_policy_id
+    FROM invoices i
+    JOIN corporate_accounts ca ON ca.id = i.corporate_account_id
+    WHERE i.status IN ('sent', 'overdue')
+      AND i.amount_due > 0
+      AND i.due_date <= $1::date + $2::int
+      AND ca.status <> 'terminated'
+    ORDER BY i.due_date, i.invoice_number
+  `, [asOf, leadDays]);
+  return rows.map(row => ({
+    id: row.id,
+    invoiceNumber: row.invoice_number,
+    accountId: row.account_id,
+    companyName: row.company_name,
+    contactPerson: row.contact_person,
+    contactEmail: row.contact_email,
+    contactPhone: row.contact_phone,
+    dunningPolicyId: row.dunning_policy_id ?? undefined,
+    status: row.status,
+    dueDate: toDateString(row.due_date),
+    amountDue: Number(row.amount_due),
+    sentTo: row.sent_to,
+    reminderCount: row.reminder_count
+  }));
+}
+
+// `${stepKey}:${channel}` pairs already settled per invoice; failed sends are left out so they are retried
+export async function listSettledNoticeKeys(
+  invoiceIds: string[],
+  q: QueryFn = query
+): Promise<Map<string, Set<string>>> {
+  const settled = new Map<string, Set<string>>();
+  if (invoiceIds.length === 0) {
+    return settled;
+  }
+  const { rows } = await q<{ invoice_id: string; step_key: string; channel: DunningChannel }>(`
+    SELECT invoice_id, step_key, channel FROM dunning_notices
+    WHERE invoice_id = ANY($1::uuid[]) AND status IN ('sent', 'skipped')
+  `, [invoiceIds]);
+  for (const row of rows) {
+    const keys = settled.get(row.invoice_id) ?? new Set<string>();
+    keys.add(`${row.step_key}:${row.channel}`);
+    settled.set(row.invoice_id, keys);
+  }
+  return settled;
+}
+
+export async function recordNotice(notice: NewDunningNotice, q: QueryFn = query): Promise<string> {
+  const params = [
+    notice.invoiceId ?? null,
+    notice.accountId,
+    notice.stepKey,
+    notice.template,
+    notice.channel,
+    notice.recipient,
+    notice.status,
+    notice.providerMessageId ?? null,
+    notice.error ?? null,
+    notice.runId ?? null
+  ];
+  if (!notice.invoiceId) {
+    const { rows } = await q<{ id: string }>(`
+      INSERT INTO dunning_notices (
+        invoice_id, account_id, step_key, template, channel, recipient, status, provider_message_id, error, run_id
+      ) VALUES ($1,$2,$3,$4,$5,$6,$7,$8,$9,$10)
+      RETURNING id
+    `, params);
+    return rows[0].id;
+  }
+  // A retried step overwrites its earlier failed attempt
+  const { rows } = await q<{ id: string }>(`
+    INSERT INTO dunning_notices (
+      invoice_id, account_id, step_key, template, channel, recipient, status, provider_message_id, error, run_id
+    ) VALUES ($1,$2,$3,$4,$5,$6,$7,$8,$9,$10)
+    ON CONFLICT (invoice_id, step_key, channel) WHERE invoice_id IS NOT NULL DO UPDATE SET
+      recipient = EXCLUDED.recipient,
+      status = EXCLUDED.status,
+      provider_message_id = EXCLUDED.provider_message_id,
+      error = EXCLUDED.error,
+      run_id = EXCLUDED.run_id,
+      updated_at = now()
+    RETURNING id
+  `, params);
+  return rows[0].id;
+}
+
+export async function listInvoiceNotices(invoiceId: string, q: QueryFn = query): Promise<DunningNotice[]> {
+  const { rows } = await q<DunningNoticeRow>(`
+    SELECT * FROM dunning_notices WHERE invoice_id = $1 ORDER BY created_at
+  `, [invoiceId]);
+  return rows.map(mapNotice);
+}
+
+// ============================================================================
+// SUSPENSION
+// ============================================================================
+
+// Active accounts carrying overdue invoices, plus accounts dunning has already suspended
+export async function listDunningAccounts(q: QueryFn = query): Promise<DunningAccount[]> {
+  const { rows } = await q<DunningAccountRow>(`
+    SELECT ca.id, ca.company_name, ca.contact_person, ca.contact_email, ca.contact_phone, ca.status,
+           ca.dunning_policy_id, ca.dunning_override_until,
+           MIN(i.due_date) AS oldest_overdue_due_date,
+           COALESCE(SUM(i.amount_due), 0) AS overdue_amount
+    FROM corporate_accounts ca
+    LEFT JOIN invoices i ON i.corporate_account_id = ca.id AND i.status = 'overdue' AND i.amount_due > 0
+    WHERE ca.status = 'active' OR (ca.status = 'suspended' AND ca.suspension_reason = 'dunning')
+    GROUP BY ca.id
+    HAVING ca.status = 'suspended' OR COUNT(i.id) > 0
+    ORDER BY ca.company_name
+  `);
+  return rows.map(row => ({
+    id: row.id,
+    companyName: row.company_name,
+    contactPerson: row.contact_person,
+    contactEmail: row.contact_email,
+    contactPhone: row.contact_phone,
+    status: row.status,
+    dunningPolicyId: row.dunning_policy_id ?? undefined,
+    overrideUntil: row.dunning_override_until ? toDateString(row.dunning_override_until) : undefined,
+    oldestOverdueDueDate: row.oldest_overdue_due_date ? toDateString(row.oldest_overdue_due_date) : undefined,
+    overdueAmount: Number(row.overdue_amount)
+  }));
+}
+
+// Suspends the account and every booker still authorized on it
+export async function suspendAccount(accountId: string, reason: 'dunning' | 'manual', q: QueryFn): Promise<void> {
+  await q(`
+    UPDATE corporate_accounts
+    SET status = 'suspended', suspended_at = now(), suspension_reason = $2, updated_at = now()
+    WHERE id = $1
+  `, [accountId, reason]);
+  await q(`
+    UPDATE corporate_authorized_bookers SET suspended_at = now()
+    WHERE account_id = $1 AND removed_at IS NULL AND suspended_at IS NULL
+  `, [accountId]);
+}
+
+export async function reactivateAccount(accountId: string, q: QueryFn): Promise<void> {
+  await q(`
+    UPDATE corporate_accounts
+    SET status = 'active', suspended_at = NULL, suspension_reason = NULL, updated_at = now()
+    WHERE id = $1
+  `, [accountId]);
+  await q(`
+    UPDATE corporate_authorized_bookers SET suspended_at = NULL
+    WHERE account_id = $1 AND suspended_at IS NOT NULL
+  `, [accountId]);
+}
+
+export async function setDunningOverride(
+  accountId: string,
+  override: DunningOverride | null,
+  q: QueryFn = query
+): Promise<void> {
+  await q(`
+    UPDATE corporate_accounts
+    SET dunning_override_until = $2, dunning_override_reason = $3, dunning_override_by = $4, updated_at = now()
+    WHERE id = $1
+  `, [accountId, override?.until ?? null, override?.reason ?? null, override?.setBy ?? null]);
+}
+
+// ============================================================================
+// RUNS
+// ============================================================================
+
+export async function insertDunningRun(asOf: string, startedBy: string, q: QueryFn = query): Promise<string> {
+  const { rows } = await q<{ id: string }>(`
+    INSERT INTO dunning_runs (as_of, started_by) VALUES ($1, $2) RETURNING id
+  `, [asOf, startedBy]);
+  return rows[0].id;
+}
+
+export async function completeDunningRun(result: DunningRunResult, q: QueryFn = query): Promise<void> {
+  await q(`
+    UPDATE dunning_runs SET
+      invoices_marked_overdue = $2, late_fees_assessed = $3, total_late_fees = $4,
+      reminders_sent = $5, reminders_failed = $6, accounts_suspended = $7, accounts_reactivated = $8
+    WHERE id = $1
+  `, [
+    result.id,
+    result.invoicesMarkedOverdue,
+    result.lateFeesAssessed,
+    result.totalLateFees,
+    result.remindersSent,
+    result.remindersFailed,
+    result.accountsSuspended.length,
+    result.accountsReactivated.length
+  ]);
+}
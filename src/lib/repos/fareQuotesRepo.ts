@@ -0,0 +1,321 @@
+import { query } from '@/lib/db';
+import { FareBreakdownLine } from '@/lib/pricing/fareEngine';
+import { QueryFn } from '@/lib/repos/ledgerRepo';
+import {
+  FareQuote,
+  FareQuotePolicy,
+  FareQuoteReportFilters,
+  FareQuoteReportRow,
+  FareQuoteStatus,
+  QuoteOutcome,
+  QuotePoint,
+  QuotedPricing,
+  SetFareQuotePolicyRequest
+} from '@/types/fareQuote';
+
+interface PolicyRow {
+  id: string;
+  region_id: string | null;
+  service_key: string | null;
+  quote_ttl_seconds: number;
+  distance_tolerance_pct: string;
+  duration_tolerance_pct: string | null;
+  allow_increase: boolean;
+  is_active: boolean;
+  updated_by: string;
+  created_at: string;
+  updated_at: string;
+}
+
+interface QuoteRow {
+  id: string;
+  region_id: string;
+  service_type: string;
+  service_key: string;
+  customer_id: string | null;
+  policy_id: string | null;
+  profile_id: number;
+  profile_version: string;
+  pricing: QuotedPricing;
+  surge_multiplier: string;
+  surge_additive_fee: string;
+  surge_rule: string | null;
+  route: QuotePoint[];
+  estimated_distance_km: string;
+  estimated_duration_min: string;
+  is_airport: boolean;
+  breakdown: FareBreakdownLine[];
+  total: string;
+  status: FareQuoteStatus;
+  expires_at: string;
+  booking_id: string | null;
+  booked_at: string | null;
+  actual_distance_km: string | null;
+  actual_duration_min: string | null;
+  distance_deviation_pct: string | null;
+  duration_deviation_pct: string | null;
+  outcome: QuoteOutcome | null;
+  final_fare: string | null;
+  fare_delta: string | null;
+  reconciled_at: string | null;
+  created_at: string;
+}
+
+const numberOrNull = (value: string | null): number | null => (value === null ? null : Number(value));
+
+const mapPolicy = (row: PolicyRow): FareQuotePolicy => ({
+  id: row.id,
+  regionId: row.region_id,
+  serviceKey: row.service_key,
+  quoteTtlSeconds: row.quote_ttl_seconds,
+  distanceTolerancePct: Number(row.distance_tolerance_pct),
+  durationTolerancePct: numberOrNull(row.duration_tolerance_pct),
+  allowIncrease: row.allow_increase,
+  isActive: row.is_active,
+  updatedBy: row.updated_by,
+  createdAt: row.created_at,
+  updatedAt: row.updated_at
+});
+
+const mapQuote = (row: QuoteRow): FareQuote => ({
+  id: row.id,
+  regionId: row.region_id,
+  serviceType: row.service_type,
+  serviceKey: row.service_key,
+  customerId: row.customer_id,
+  policyId: row.policy_id,
+  profileId: row.profile_id,
+  profileVersion: row.profile_version,
+  pricing: row.pricing,
+  surgeMultiplier: Number(row.surge_multiplier),
+  surgeAdditiveFee: Number(row.surge_additive_fee),
+  surgeRule: row.surge_rule,
+  route: row.route,
+  estimatedDistanceKm: Number(row.estimated_distance_km),
+  estimatedDurationMin: Number(row.estimated_duration_min),
+  isAirport: row.is_airport,
+  breakdown: row.breakdown,
+  total: Number(row.total),
+  status: row.status,
+  expiresAt: new Date(row.expires_at).toISOString(),
+  bookingId: row.booking_id,
+  bookedAt: row.booked_at,
+  actualDistanceKm: numberOrNull(row.actual_distance_km),
+  actualDurationMin: numberOrNull(row.actual_duration_min),
+  distanceDeviationPct: numberOrNull(row.distance_deviation_pct),
+  durationDeviationPct: numberOrNull(row.duration_deviation_pct),
+  outcome: row.outcome,
+  finalFare: numberOrNull(row.final_fare),
+  fareDelta: numberOrNull(row.fare_delta),
+  reconciledAt: row.reconciled_at,
+  createdAt: row.created_at
+});
+
+// ============================================================================
+// POLICIES
+// ============================================================================
+
+export async function getQuotePolicy(id: string, q: QueryFn = query): Promise<FareQuotePolicy | null> {
+  const { rows } = await q<PolicyRow>('SELECT * FROM fare_quote_policies WHERE id = $1', [id]);
+  return rows[0] ? mapPolicy(rows[0]) : null;
+}
+
+/**
+ * The active policy for a quote: one for its region and service wins over one for its
+ * region alone, which wins over one for its service alone, then the default.
+ */
+export async function findApplicableQuotePolicy(
+  regionId: string,
+  serviceKey: string,
+  q: QueryFn = query
+): Promise<FareQuotePolicy | null> {
+  const { rows } = await q<PolicyRow>(`
+    SELECT * FROM fare_quote_policies
+    WHERE is_active
+      AND (region_id IS NULL OR region_id = $1)
+      AND (service_key IS NULL OR service_key = $2)
+    ORDER BY (region_id IS NULL), (service_key IS NULL)
+    LIMIT 1
+  `, [regionId, serviceKey]);
+  return rows[0] ? mapPolicy(rows[0]) : null;
+}
+
+export async function listQuotePolicies(includeInactive = false): Promise<FareQuotePolicy[]> {
+  const { rows } = await query<PolicyRow>(`
+    SELECT * FROM fare_quote_policies
+    WHERE $1::boolean OR is_active
+    ORDER BY region_id NULLS FIRST, service_key NULLS FIRST, created_at DESC
+  `, [includeInactive]);
+  return rows.map(mapPolicy);
+}
+
+// Retires the scope's active policy, if any, and inserts the replacement
+export async function replaceQuotePolicy(
+  policy: SetFareQuotePolicyRequest & { updatedBy: string },
+  q: QueryFn = query
+): Promise<FareQuotePolicy> {
+  const regionId = policy.regionId ?? null;
+  const serviceKey = policy.serviceKey ?? null;
+  await q(`
+    UPDATE fare_quote_policies SET is_active = FALSE, updated_at = NOW()
+    WHERE is_active AND region_id IS NOT DISTINCT FROM $1 AND service_key IS NOT DISTINCT FROM $2
+  `, [regionId, serviceKey]);
+
+  const { rows } = await q<PolicyRow>(`
+    INSERT INTO fare_quote_policies
+      (region_id, service_key, quote_ttl_seconds, distance_tolerance_pct, duration_tolerance_pct,
+       allow_increase, updated_by)
+    VALUES ($1, $2, COALESCE($3, 300), COALESCE($4, 20), $5, COALESCE($6, TRUE), $7)
+    RETURNING *
+  `, [
+    regionId, serviceKey, policy.quoteTtlSeconds ?? null, policy.distanceTolerancePct ?? null,
+    policy.durationTolerancePct ?? null, policy.allowIncrease ?? null, policy.updatedBy
+  ]);
+  return mapPolicy(rows[0]);
+}
+
+// ============================================================================
+// QUOTES
+// ============================================================================
+
+export async function insertQuote(
+  quote: Omit<FareQuote,
+    | 'status' | 'bookingId' | 'bookedAt' | 'actualDistanceKm' | 'actualDurationMin' | 'distanceDeviationPct'
+    | 'durationDeviationPct' | 'outcome' | 'finalFare' | 'fareDelta' | 'reconciledAt' | 'createdAt'>,
+  q: QueryFn = query
+): Promise<FareQuote> {
+  const { rows } = await q<QuoteRow>(`
+    INSERT INTO fare_quotes
+      (id, region_id, service_type, service_key, customer_id, policy_id, profile_id, profile_version, pricing,
+       surge_multiplier, surge_additive_fee, surge_rule, route, estimated_distance_km, estimated_duration_min,
+       is_airport, breakdown, total, expires_at)
+    VALUES ($1,$2,$3,$4,$5,$6,$7,$8,$9,$10,$11,$12,$13,$14,$15,$16,$17,$18,$19)
+    RETURNING *
+  `, [
+    quote.id, quote.regionId, quote.serviceType, quote.serviceKey, quote.customerId ?? null,
+    quote.policyId ?? null, quote.profileId, quote.profileVersion, JSON.stringify(quote.pricing),
+    quote.surgeMultiplier, quote.surgeAdditiveFee, quote.surgeRule ?? null, JSON.stringify(quote.route),
+    quote.estimatedDistanceKm, quote.estimatedDurationMin, quote.isAirport, JSON.stringify(quote.breakdown),
+    quote.total, quote.expiresAt
+  ]);
+  return mapQuote(rows[0]);
+}
+
+export async function getQuote(id: string, q: QueryFn = query): Promise<FareQuote | null> {
+  const { rows } = await q<QuoteRow>('SELECT * FROM fare_quotes WHERE id = $1', [id]);
+  return rows[0] ? mapQuote(rows[0]) : null;
+}
+
+export async function getQuoteForBooking(bookingId: string, q: QueryFn = query): Promise<FareQuote | null> {
+  const { rows } = await q<QuoteRow>('SELECT * FROM fare_quotes WHERE booking_id = $1', [bookingId]);
+  return rows[0] ? mapQuote(rows[0]) : null;
+}
+
+// Moves an unexpired quote to booked; null when it was already claimed or has expired
+export async function claimQuote(id: string, q: QueryFn = query): Promise<FareQuote | null> {
+  const { rows } = await q<QuoteRow>(`
+    UPDATE fare_quotes SET status = 'booked', booked_at = NOW()
+    WHERE id = $1 AND status = 'issued' AND expires_at > NOW()
+    RETURNING *
+  `, [id]);
+  return rows[0] ? mapQuote(rows[0]) : null;
+}
+
+// Hands a claimed quote back when the booking it was claimed for could not be created
+export async function releaseQuote(id: string, q: QueryFn = query): Promise<void> {
+  await q(`
+    UPDATE fare_quotes SET status = 'issued', booked_at = NULL
+    WHERE id = $1 AND status = 'booked' AND booking_id IS NULL
+  `, [id]);
+}
+
+// Links the quote to its booking and carries the quoted route estimate onto the booking
+export async function attachQuoteToBooking(quote: FareQuote, bookingId: string, q: QueryFn = query): Promise<void> {
+  await q('UPDATE fare_quotes SET booking_id = $2 WHERE id = $1', [quote.id, bookingId]);
+  await q(`
+    UPDATE bookings SET estimated_distance = $2, estimated_duration = $3, updated_at = NOW()
+    WHERE id = $1
+  `, [bookingId, quote.estimatedDistanceKm, Math.round(quote.estimatedDurationMin)]);
+}
+
+export async function recordQuoteReconciliation(
+  id: string,
+  result: {
+    actualDistanceKm: number;
+    actualDurationMin: number;
+    distanceDeviationPct: number;
+    durationDeviationPct: number;
+    outcome: QuoteOutcome;
+    finalFare: number;
+    fareDelta: number;
+  },
+  q: QueryFn = query
+): Promise<void> {
+  await q(`
+    UPDATE fare_quotes
+    SET status = 'reconciled', actual_distance_km = $2, actual_duration_min = $3, distance_deviation_pct = $4,
+        duration_deviation_pct = $5, outcome = $6, final_fare = $7, fare_delta = $8, reconciled_at = NOW()
+    WHERE id = $1
+  `, [
+    id, result.actualDistanceKm, result.actualDurationMin, result.distanceDeviationPct,
+    result.durationDeviationPct, result.outcome, result.finalFare, result.fareDelta
+  ]);
+}
+
+// ============================================================================
+// REPORTING
+// ============================================================================
+
+/** Quotes issued in the window per region and service, with quote vs. final fare for those reconciled. */
+export async function quoteDeltaReport(filters: FareQuoteReportFilters): Promise<FareQuoteReportRow[]> {
+  const { rows } = await query<{
+    region_id: string;
+    service_key: string;
+    issued: string;
+    booked: string;
+    reconciled: string;
+    honoured: string;
+    repriced: string;
+    quoted_total: string;
+    final_total: string;
+    total_delta: string;
+    average_delta: string;
+    average_abs_delta_pct: string;
+  }>(`
+    SELECT
+      region_id,
+      service_key,
+      COUNT(*) AS issued,
+      COUNT(*) FILTER (WHERE booking_id IS NOT NULL) AS booked,
+      COUNT(*) FILTER (WHERE status = 'reconciled') AS reconciled,
+      COUNT(*) FILTER (WHERE outcome = 'honoured') AS honoured,
+      COUNT(*) FILTER (WHERE outcome = 'repriced') AS repriced,
+      COALESCE(SUM(total) FILTER (WHERE status = 'reconciled'), 0) AS quoted_total,
+      COALESCE(SUM(final_fare), 0) AS final_total,
+      COALESCE(SUM(fare_delta), 0) AS total_delta,
+      COALESCE(AVG(fare_delta), 0) AS average_delta,
+      COALESCE(AVG(ABS(fare_delta) / NULLIF(total, 0) * 100), 0) AS average_abs_delta_pct
+    FROM fare_quotes
+    WHERE created_at >= $1 AND created_at < $2
+      AND ($3::text IS NULL OR region_id = $3)
+      AND ($4::text IS NULL OR service_key = $4)
+    GROUP BY region_id, service_key
+    ORDER BY region_id, service_key
+  `, [filters.from, filters.to, filters.regionId ?? null, filters.serviceKey ?? null]);
+
+  const round2 = (value: string) => Math.round(Number(value) * 100) / 100;
+  return rows.map(row => ({
+    regionId: row.region_id,
+    serviceKey: row.service_key,
+    issued: Number(row.issued),
+    booked: Number(row.booked),
+    reconciled: Number(row.reconciled),
+    honoured: Number(row.honoured),
+    repriced: Number(row.repriced),
+    quotedTotal: round2(row.quoted_total),
+    finalTotal: round2(row.final_total),
+    totalDelta: round2(row.total_delta),
+    averageDelta: round2(row.average_delta),
+    averageAbsDeltaPct: round2(row.average_abs_delta_pct)
+  }));
+}
@@ -0,0 +1,464 @@
+import { query } from '@/lib/db';
+import { QueryFn } from '@/lib/repos/ledgerRepo';
+import {
+  CreateIncidentRequest,
+  IncidentAuditAction,
+  IncidentAuditEntry,
+  IncidentCase,
+  IncidentCaseStatus,
+  IncidentCaseType,
+  IncidentClosureChecklistItem,
+  IncidentEvidence,
+  IncidentEvidenceType,
+  IncidentFilters,
+  IncidentOutcomeCode,
+  IncidentPriority,
+  IncidentStatement,
+  InvestigationStage,
+  NewIncidentEvidence,
+  NewIncidentStatement,
+  StatementPartyType
+} from '@/types/incident';
+
+export type IncidentPatch = Partial<{
+  status: IncidentCaseStatus;
+  assignedTo: string;
+  assignedAt: string;
+  investigationStage: InvestigationStage;
+  investigationStartedAt: string;
+  acknowledgedAt: string;
+  acknowledgedBy: string;
+  firstResponseTime: number;
+  escalatedAt: string;
+  escalatedTo: string;
+  externalReference: string;
+  outcomeCode: IncidentOutcomeCode;
+  suspendedUntil: string;
+  resolutionNotes: string;
+  closureChecklist: IncidentClosureChecklistItem[];
+  followUpRequired: boolean;
+  resolvedAt: string;
+  resolutionTime: number;
+  closedAt: string;
+  closedBy: string;
+}>;
+
+interface IncidentRow {
+  id: string;
+  incident_code: string;
+  incident_type: IncidentCaseType;
+  priority: IncidentPriority;
+  status: IncidentCaseStatus;
+  title: string;
+  description: string;
+  reporter_type: string;
+  reporter_id: string;
+  reporter_contact: string | null;
+  driver_id: string | null;
+  booking_id: string | null;
+  sos_alert_id: string | null;
+  vehicle_id: string | null;
+  customer_id: string | null;
+  latitude: number | null;
+  longitude: number | null;
+  address: string | null;
+  region_id: string | null;
+  assigned_to: string | null;
+  assigned_at: string | null;
+  investigation_stage: InvestigationStage;
+  investigation_started_at: string | null;
+  acknowledged_at: string | null;
+  acknowledged_by: string | null;
+  escalated_at: string | null;
+  escalated_to: string | null;
+  external_reference: string | null;
+  sla_response_due_at: string;
+  sla_investigation_due_at: string;
+  sla_closure_due_at: string;
+  outcome_code: IncidentOutcomeCode | null;
+  suspended_until: string | null;
+  resolution_notes: string | null;
+  closure_checklist: IncidentClosureChecklistItem[] | null;
+  follow_up_required: boolean | null;
+  closed_at: string | null;
+  closed_by: string | null;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+interface EvidenceRow {
+  id: string;
+  incident_id: string;
+  evidence_type: IncidentEvidenceType;
+  url: string;
+  filename: string;
+  size_bytes: string | null;
+  footage_ref: string | null;
+  captured_at: string | null;
+  description: string | null;
+  uploaded_by: string;
+  uploaded_at: string;
+}
+
+interface StatementRow {
+  id: string;
+  incident_id: string;
+  party_type: StatementPartyType;
+  party_id: string | null;
+  party_name: string;
+  statement: string;
+  given_at: string;
+  recorded_by: string;
+}
+
+interface AuditRow {
+  id: string;
+  incident_id: string;
+  action: IncidentAuditAction;
+  actor: string;
+  changes: Record<string, unknown> | null;
+  note: string | null;
+  created_at: string;
+}
+
+// location is a PostGIS point; every read splits it back into coordinates
+const INCIDENT_COLUMNS = `
+  id, incident_code, incident_type, priority, status, title, description,
+  reporter_type, reporter_id, reporter_contact, driver_id, booking_id, sos_alert_id, vehicle_id, customer_id,
+  ST_Y(location) AS latitude, ST_X(location) AS longitude, address, region_id,
+  assigned_to, assigned_at, investigation_stage, investigation_started_at,
+  acknowledged_at, acknowledged_by, escalated_at, escalated_to, external_reference,
+  sla_response_due_at, sla_investigation_due_at, sla_closure_due_at,
+  outcome_code, suspended_until, resolution_notes, closure_checklist, follow_up_required,
+  closed_at, closed_by, created_by, created_at, updated_at
+`;
+
+const mapIncident = (row: IncidentRow): IncidentCase => ({
+  id: row.id,
+  incidentCode: row.incident_code,
+  type: row.incident_type,
+  priority: row.priority,
+  status: row.status,
+  title: row.title,
+  description: row.description,
+  reporter: { type: row.reporter_type, id: row.reporter_id, contact: row.reporter_contact },
+  driverId: row.driver_id,
+  bookingId: row.booking_id,
+  sosAlertId: row.sos_alert_id,
+  vehicleId: row.vehicle_id,
+  customerId: row.customer_id,
+  location: row.latitude === null || row.longitude === null ? null : {
+    latitude: Number(row.latitude),
+    longitude: Number(row.longitude),
+    address: row.address
+  },
+  regionId: row.region_id,
+  assignedTo: row.assigned_to,
+  assignedAt: row.assigned_at,
+  investigationStage: row.investigation_stage,
+  investigationStartedAt: row.investigation_started_at,
+  acknowledgedAt: row.acknowledged_at,
+  acknowledgedBy: row.acknowledged_by,
+  escalatedAt: row.escalated_at,
+  escalatedTo: row.escalated_to,
+  externalReference: row.external_reference,
+  slaResponseDueAt: row.sla_response_due_at,
+  slaInvestigationDueAt: row.sla_investigation_due_at,
+  slaClosureDueAt: row.sla_closure_due_at,
+  outcomeCode: row.outcome_code,
+  suspendedUntil: row.suspended_until,
+  resolutionNotes: row.resolution_notes,
+  closureChecklist: row.closure_checklist ?? [],
+  followUpRequired: row.follow_up_required ?? false,
+  closedAt: row.closed_at,
+  closedBy: row.closed_by,
+  createdBy: row.created_by,
+  createdAt: row.created_at,
+  updatedAt: row.updated_at
+});
+
+const mapEvidence = (row: EvidenceRow): IncidentEvidence => ({
+  id: row.id,
+  incidentId: row.incident_id,
+  type: row.evidence_type,
+  url: row.url,
+  filename: row.filename,
+  sizeBytes: row.size_bytes === null ? null : Number(row.size_bytes),
+  footageRef: row.footage_ref,
+  capturedAt: row.captured_at,
+  description: row.description,
+  uploadedBy: row.uploaded_by,
+  uploadedAt: row.uploaded_at
+});
+
+const mapStatement = (row: StatementRow): IncidentStatement => ({
+  id: row.id,
+  incidentId: row.incident_id,
+  partyType: row.party_type,
+  partyId: row.party_id,
+  partyName: row.party_name,
+  statement: row.statement,
+  givenAt: row.given_at,
+  recordedBy: row.recorded_by
+});
+
+const mapAudit = (row: AuditRow): IncidentAuditEntry => ({
+  id: String(row.id),
+  incidentId: row.incident_id,
+  action: row.action,
+  actor: row.actor,
+  changes: row.changes ?? {},
+  note: row.note,
+  createdAt: row.created_at
+});
+
+// ============================================================================
+// INCIDENTS
+// ============================================================================
+
+export async function insertIncident(
+  incident: CreateIncidentRequest & {
+    reporterType: string;
+    reporterId: string;
+    createdBy: string;
+    slaResponseDueAt: string;
+    slaInvestigationDueAt: string;
+    slaClosureDueAt: string;
+  },
+  q: QueryFn = query
+): Promise<string> {
+  const { rows } = await q<{ id: string }>(`
+    INSERT INTO incidents (
+      incident_code, incident_type, priority, title, description,
+      reporter_type, reporter_id, reporter_contact, driver_id, booking_id, sos_alert_id, vehicle_id, customer_id,
+      location, address, region_id, assigned_to, assigned_at,
+      sla_response_due_at, sla_investigation_due_at, sla_closure_due_at, created_by
+    ) VALUES (
+      'INC-' || to_char(now(), 'YYYY') || '-' || lpad(nextval('incident_code_seq')::text, 6, '0'),
+      $1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12,
+      CASE WHEN $13::float8 IS NULL THEN NULL ELSE ST_SetSRID(ST_Point($14, $13), 4326) END,
+      $15, $16, $17, CASE WHEN $17::text IS NULL THEN NULL ELSE now() END,
+      $18, $19, $20, $21
+    )
+    RETURNING id
+  `, [
+    incident.type, incident.priority, incident.title, incident.description,
+    incident.reporterType, incident.reporterId, incident.reporterContact ?? null,
+    incident.driverId ?? null, incident.bookingId ?? null, incident.sosAlertId ?? null,
+    incident.vehicleId ?? null, incident.customerId ?? null,
+    incident.location?.latitude ?? null, incident.location?.longitude ?? null, incident.location?.address ?? null,
+    incident.regionId ?? null, incident.assignedTo ?? null,
+    incident.slaResponseDueAt, incident.slaInvestigationDueAt, incident.slaClosureDueAt, incident.createdBy
+  ]);
+  return rows[0].id;
+}
+
+// Accepts either the row id or the INC- code
+export async function getIncident(
+  idOrCode: string,
+  q: QueryFn = query,
+  forUpdate = false
+): Promise<IncidentCase | null> {
+  const { rows } = await q<IncidentRow>(`
+    SELECT ${INCIDENT_COLUMNS} FROM incidents WHERE id::text = $1 OR incident_code = $1
+    ${forUpdate ? 'FOR UPDATE' : ''}
+  `, [idOrCode]);
+  return rows[0] ? mapIncident(rows[0]) : null;
+}
+
+export async function listIncidents(
+  filters: IncidentFilters
+): Promise<{ incidents: IncidentCase[]; total: number }> {
+  const params = [
+    filters.status === 'open_cases' ? null : filters.status ?? null,
+    filters.status === 'open_cases',
+    filters.type ?? null,
+    filters.priority ?? null,
+    filters.assignedTo ?? null,
+    filters.driverId ?? null,
+    filters.bookingId ?? null,
+    filters.regionId ?? null,
+    filters.search ? `%${filters.search}%` : null
+  ];
+  const where = `
+    WHERE ($1::text IS NULL OR status::text = $1)
+      AND (NOT $2 OR closed_at IS NULL)
+      AND ($3::text IS NULL OR incident_type = $3)
+      AND ($4::text IS NULL OR priority::text = $4)
+      AND ($5::text IS NULL OR assigned_to = $5)
+      AND ($6::uuid IS NULL OR driver_id = $6)
+      AND ($7::uuid IS NULL OR booking_id = $7)
+      AND ($8::uuid IS NULL OR region_id = $8)
+      AND ($9::text IS NULL OR incident_code ILIKE $9 OR title ILIKE $9 OR description ILIKE $9)
+  `;
+
+  const countResult = await query<{ total: string }>(`
+    SELECT COUNT(*) AS total FROM incidents ${where}
+  `, params);
+
+  // Most urgent first, then the oldest deadline
+  const { rows } = await query<IncidentRow>(`
+    SELECT ${INCIDENT_COLUMNS} FROM incidents
+    ${where}
+    ORDER BY priority, sla_closure_due_at NULLS LAST, created_at DESC
+    LIMIT $10 OFFSET $11
+  `, [...params, filters.limit, (filters.page - 1) * filters.limit]);
+
+  return {
+    incidents: rows.map(mapIncident),
+    total: parseInt(countResult.rows[0]?.total || '0')
+  };
+}
+
+export async function updateIncident(id: string, patch: IncidentPatch, q: QueryFn = query): Promise<void> {
+  const columns: Record<keyof IncidentPatch, string> = {
+    status: 'status',
+    assignedTo: 'assigned_to',
+    assignedAt: 'assigned_at',
+    investigationStage: 'investigation_stage',
+    investigationStartedAt: 'investigation_started_at',
+    acknowledgedAt: 'acknowledged_at',
+    acknowledgedBy: 'acknowledged_by',
+    firstResponseTime: 'first_response_time',
+    escalatedAt: 'escalated_at',
+    escalatedTo: 'escalated_to',
+    externalReference: 'external_reference',
+    outcomeCode: 'outcome_code',
+    suspendedUntil: 'suspended_until',
+    resolutionNotes: 'resolution_notes',
+    closureChecklist: 'closure_checklist',
+    followUpRequired: 'follow_up_required',
+    resolvedAt: 'resolved_at',
+    resolutionTime: 'resolution_time',
+    closedAt: 'closed_at',
+    closedBy: 'closed_by'
+  };
+  const entries = (Object.keys(patch) as (keyof IncidentPatch)[]).filter(key => patch[key] !== undefined);
+  if (entries.length === 0) {
+    return;
+  }
+  const assignments = entries.map((key, i) => `${columns[key]} = $${i + 2}`);
+  await q(`
+    UPDATE incidents SET ${assignments.join(', ')}, updated_at = now() WHERE id = $1
+  `, [id, ...entries.map(key => key === 'closureChecklist' ? JSON.stringify(patch[key]) : patch[key])]);
+}
+
+export async function linkSOSAlertToIncident(
+  sosAlertId: string,
+  incidentId: string,
+  q: QueryFn = query
+): Promise<void> {
+  await q(`
+    UPDATE sos_alerts SET incident_id = $2, updated_at = now() WHERE id = $1 AND incident_id IS NULL
+  `, [sosAlertId, incidentId]);
+}
+
+// ============================================================================
+// EVIDENCE AND STATEMENTS
+// ============================================================================
+
+export async function insertEvidence(
+  incidentId: string,
+  evidence: NewIncidentEvidence,
+  uploadedBy: string,
+  q: QueryFn = query
+): Promise<IncidentEvidence> {
+  const { rows } = await q<EvidenceRow>(`
+    INSERT INTO incident_evidence
+      (incident_id, evidence_type, url, filename, size_bytes, footage_ref, captured_at, description, uploaded_by)
+    VALUES ($1,$2,$3,$4,$5,$6,$7,$8,$9)
+    RETURNING *
+  `, [
+    incidentId, evidence.type, evidence.url, evidence.filename, evidence.sizeBytes ?? null,
+    evidence.footageRef ?? null, evidence.capturedAt ?? null, evidence.description ?? null, uploadedBy
+  ]);
+  return mapEvidence(rows[0]);
+}
+
+export async function listEvidence(incidentId: string, q: QueryFn = query): Promise<IncidentEvidence[]> {
+  const { rows } = await q<EvidenceRow>(`
+    SELECT * FROM incident_evidence WHERE incident_id = $1 ORDER BY uploaded_at, id
+  `, [incidentId]);
+  return rows.map(mapEvidence);
+}
+
+export async function insertStatement(
+  incidentId: string,
+  statement: NewIncidentStatement,
+  recordedBy: string,
+  q: QueryFn = query
+): Promise<IncidentStatement> {
+  const { rows } = await q<StatementRow>(`
+    INSERT INTO incident_statements
+      (incident_id, party_type, party_id, party_name, statement, given_at, recorded_by)
+    VALUES ($1,$2,$3,$4,$5,COALESCE($6, now()),$7)
+    RETURNING *
+  `, [
+    incidentId, statement.partyType, statement.partyId ?? null, statement.partyName, statement.statement,
+    statement.givenAt ?? null, recordedBy
+  ]);
+  return mapStatement(rows[0]);
+}
+
+export async function listStatements(incidentId: string, q: QueryFn = query): Promise<IncidentStatement[]> {
+  const { rows } = await q<StatementRow>(`
+    SELECT * FROM incident_statements WHERE incident_id = $1 ORDER BY given_at, id
+  `, [incidentId]);
+  return rows.map(mapStatement);
+}
+
+// ============================================================================
+// AUDIT TRAIL
+// ============================================================================
+
+export async function insertAuditEntry(
+  entry: {
+    incidentId: string;
+    action: IncidentAuditAction;
+    actor: string;
+    changes?: Record<string, unknown>;
+    note?: string | null;
+  },
+  q: QueryFn = query
+): Promise<void> {
+  await q(`
+    INSERT INTO incident_audit_log (incident_id, action, actor, changes, note)
+    VALUES ($1,$2,$3,$4,$5)
+  `, [entry.incidentId, entry.action, entry.actor, JSON.stringify(entry.changes ?? {}), entry.note ?? null]);
+}
+
+export async function listAuditEntries(incidentId: string): Promise<IncidentAuditEntry[]> {
+  const { rows } = await query<AuditRow>(`
+    SELECT * FROM incident_audit_log WHERE incident_id = $1 ORDER BY created_at, id
+  `, [incidentId]);
+  return rows.map(mapAudit);
+}
+
+// ============================================================================
+// DRIVERS
+// ============================================================================
+
+export async function getDriverStanding(
+  driverId: string,
+  q: QueryFn = query
+): Promise<{ status: string; isActive: boolean } | null> {
+  const { rows } = await q<{ status: string; is_active: boolean }>(`
+    SELECT status, is_active FROM drivers WHERE id = $1 FOR UPDATE
+  `, [driverId]);
+  return rows[0] ? { status: rows[0].status, isActive: rows[0].is_active } : null;
+}
+
+// Suspends the driver; deactivation also takes them off the platform
+export async function suspendDriver(
+  driverId: string,
+  suspension: { incidentId: string; until: string | null; deactivate: boolean },
+  q: QueryFn = query
+): Promise<void> {
+  await q(`
+    UPDATE drivers
+    SET status = 'suspended', suspended_until = $3, suspension_incident_id = $2,
+        is_active = CASE WHEN $4 THEN FALSE ELSE is_active END, updated_at = now()
+    WHERE id = $1
+  `, [driverId, suspension.incidentId, suspension.until, suspension.deactivate]);
+}
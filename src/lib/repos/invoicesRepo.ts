@@ -0,0 +1,623 @@
+import { query } from '@/lib/db';
+import { FareBreakdownLine } from '@/lib/pricing/fareEngine';
+import { toDateString } from '@/lib/repos/corporateAccountsRepo';
+import { QueryFn } from '@/lib/repos/ledgerRepo';
+import {
+  CreditNote,
+  Invoice,
+  InvoiceActivity,
+  InvoiceActivityType,
+  InvoiceFilters,
+  InvoiceLineItem,
+  InvoiceStatus,
+  PaymentHistory
+} from '@/types/billing';
+
+export interface BillableTrip {
+  bookingId: string;
+  bookingReference: string;
+  customerId: string;
+  bookerName: string;
+  totalFare: number;
+  completedAt: string;
+  pickupAddress: string;
+  dropoffAddress: string | null;
+  // Rider-visible lines of the fare engine's breakdown, when the trip was priced by it
+  fareLines?: { label: string; amount: number; rule: string }[];
+}
+
+export interface NewInvoice {
+  invoiceNumber: string;
+  corporateAccountId: string;
+  subscriptionId: string | null;
+  paymentTermsId: string | null;
+  issueDate: string;
+  dueDate: string;
+  billingPeriodStart: string;
+  billingPeriodEnd: string;
+  subtotal: number;
+  discountAmount: number;
+  taxAmount: number;
+  totalAmount: number;
+  source: 'billing_run' | 'manual';
+  notes?: string;
+  termsAndConditions?: string;
+  createdBy: string;
+}
+
+export type InvoicePatch = Partial<{
+  status: InvoiceStatus;
+  paidDate: string | null;
+  lateFeeAmount: number;
+  earlyPaymentDiscount: number;
+  creditAmount: number;
+  amountPaid: number;
+  amountDue: number;
+  sentDate: string;
+  sentTo: string[];
+  notes: string;
+  pdfUrl: string;
+  lastReminderDate: string;
+  reminderCount: number;
+}>;
+
+export interface InvoiceListFilters extends InvoiceFilters {
+  page: number;
+  limit: number;
+}
+
+interface InvoiceRow {
+  id: string;
+  invoice_number: string;
+  corporate_account_id: string;
+  company_name: string | null;
+  subscription_id: string | null;
+  payment_terms_id: string | null;
+  issue_date: string | Date;
+  due_date: string | Date;
+  paid_date: string | Date | null;
+  billing_period_start: string | Date;
+  billing_period_end: string | Date;
+  subtotal: string;
+  discount_amount: string;
+  tax_amount: string;
+  total_amount: string;
+  late_fee_amount: string;
+  early_payment_discount: string;
+  credit_amount: string;
+  amount_paid: string;
+  amount_due: string;
+  status: InvoiceStatus;
+  source: 'billing_run' | 'manual';
+  notes: string | null;
+  terms_and_conditions: string | null;
+  sent_date: string | null;
+  sent_to: string[];
+  last_reminder_date: string | null;
+  reminder_count: number;
+  pdf_url: string | null;
+  created_by: string;
+  created_at: string;
+  updated_at: string;
+}
+
+interface LineItemRow {
+  id: string;
+  description: string;
+  quantity: string;
+  unit_price: string;
+  amount: string;
+  tax_rate: string;
+  tax_amount: string;
+  trip_id: string | null;
+  category: string | null;
+  metadata: Record<string, unknown>;
+}
+
+interface CreditNoteRow {
+  id: string;
+  credit_note_number: string;
+  invoice_id: string;
+  account_id: string;
+  amount: string;
+  reason: string;
+  status: CreditNote['status'];
+  issue_date: string | Date;
+  applied_date: string | Date | null;
+  created_by: string;
+  created_at: string;
+  updated_at: string;
+}
+
+const mapLineItem = (row: LineItemRow): InvoiceLineItem => ({
+  id: row.id,
+  description: row.description,
+  quantity: Number(row.quantity),
+  unitPrice: Number(row.unit_price),
+  amount: Number(row.amount),
+  taxRate: Number(row.tax_rate),
+  taxAmount: Number(row.tax_amount),
+  tripId: row.trip_id ?? undefined,
+  category: row.category ?? undefined,
+  metadata: row.metadata
+});
+
+function mapInvoice(row: InvoiceRow, lineItems: LineItemRow[] = []): Invoice {
+  return {
+    id: row.id,
+    invoiceNumber: row.invoice_number,
+    corporateAccountId: row.corporate_account_id,
+    corporateAccountName: row.company_name ?? undefined,
+    issueDate: toDateString(row.issue_date),
+    dueDate: toDateString(row.due_date),
+    paidDate: row.paid_date ? toDateString(row.paid_date) : undefined,
+    billingPeriodStart: toDateString(row.billing_period_start),
+    billingPeriodEnd: toDateString(row.billing_period_end),
+    subtotal: Number(row.subtotal),
+    taxAmount: Number(row.tax_amount),
+    discountAmount: Number(row.discount_amount),
+    totalAmount: Number(row.total_amount),
+    lateFeeAmount: Number(row.late_fee_amount),
+    earlyPaymentDiscount: Number(row.early_payment_discount),
+    creditAmount: Number(row.credit_amount),
+    amountPaid: Number(row.amount_paid),
+    amountDue: Number(row.amount_due),
+    lineItems: lineItems.map(mapLineItem),
+    status: row.status,
+    source: row.source,
+    subscriptionId: row.subscription_id ?? undefined,
+    notes: row.notes ?? undefined,
+    paymentTermsId: row.payment_terms_id ?? undefined,
+    termsAndConditions: row.terms_and_conditions ?? undefined,
+    sentDate: row.sent_date ?? undefined,
+    sentTo: row.sent_to,
+    lastReminderDate: row.last_reminder_date ?? undefined,
+    reminderCount: row.reminder_count,
+    pdfUrl: row.pdf_url ?? undefined,
+    createdBy: row.created_by,
+    createdAt: new Date(row.created_at),
+    updatedAt: new Date(row.updated_at)
+  };
+}
+
+const mapCreditNote = (row: CreditNoteRow): CreditNote => ({
+  id: row.id,
+  creditNoteNumber: row.credit_note_number,
+  invoiceId: row.invoice_id,
+  accountId: row.account_id,
+  amount: Number(row.amount),
+  reason: row.reason,
+  status: row.status,
+  issueDate: toDateString(row.issue_date),
+  appliedDate: row.applied_date ? toDateString(row.applied_date) : undefined,
+  createdBy: row.created_by,
+  createdAt: new Date(row.created_at),
+  updatedAt: new Date(row.updated_at)
+});
+
+const INVOICE_SELECT = `
+  SELECT i.*, ca.company_name
+  FROM invoices i
+  JOIN corporate_accounts ca ON ca.id = i.corporate_account_id
+`;
+
+// ============================================================================
+// NUMBERING
+// ============================================================================
+
+/**
+ * Next number in a gapless yearly series, e.g. INV-2026-000042. The sequence row stays
+ * locked until the caller's transaction ends, so numbers are issued in commit order.
+ */
+export async function nextDocumentNumber(series: 'INV' | 'CN' | 'OR', year: number, q: QueryFn): Promise<string> {
+  const { rows } = await q<{ last_number: number }>(`
+    INSERT INTO document_number_sequences (series, year, last_number)
+    VALUES ($1, $2, 1)
+    ON CONFLICT (series, year) DO UPDATE SET last_number = document_number_sequences.last_number + 1
+    RETURNING last_number
+  `, [series, year]);
+  return `${series}-${year}-${String(rows[0].last_number).padStart(6, '0')}`;
+}
+
+// ============================================================================
+// BILLING RUN
+// ============================================================================
+
+/**
+ * Completed trips booked by the account's authorized bookers (while they were authorized)
+ * that finished inside the Manila-local billing period and are not on any live invoice.
+ */
+export async function listUnbilledTrips(
+  accountId: string,
+  periodStart: string,
+  periodEnd: string,
+  q: QueryFn = query
+): Promise<BillableTrip[]> {
+  const { rows } = await q<{
+    booking_id: string;
+    booking_reference: string;
+    customer_id: string;
+    booker_name: string;
+    total_fare: string;
+    completed_at: string;
+    pickup_address: string;
+    dropoff_address: string | null;
+    fare_lines: FareBreakdownLine[] | null;
+  }>(`
+    SELECT b.id AS booking_id, b.booking_reference, b.customer_id, ab.name AS booker_name,
+           COALESCE(b.total_fare, 0) AS total_fare, b.completed_at, b.pickup_address, b.dropoff_address,
+           bf.lines AS fare_lines
+    FROM bookings b
+    LEFT JOIN booking_fares bf ON bf.booking_id = b.id
+    JOIN corporate_authorized_bookers ab
+      ON ab.customer_id = b.customer_id
+     AND ab.account_id = $1
+     AND ab.added_at <= b.requested_at
+     AND (ab.removed_at IS NULL OR ab.removed_at > b.requested_at)
+    LEFT JOIN invoiced_trips it ON it.booking_id = b.id
+    WHERE b.status = 'completed'
+      AND b.completed_at IS NOT NULL
+      AND (b.completed_at AT TIME ZONE 'Asia/Manila')::date BETWEEN $2::date AND $3::date
+      AND it.booking_id IS NULL
+    ORDER BY b.completed_at
+  `, [accountId, periodStart, periodEnd]);
+  return rows.map(row => ({
+    bookingId: row.booking_id,
+    bookingReference: row.booking_reference,
+    customerId: row.customer_id,
+    bookerName: row.booker_name,
+    totalFare: Number(row.total_fare),
+    completedAt: new Date(row.completed_at).toISOString(),
+    pickupAddress: row.pickup_address,
+    dropoffAddress: row.dropoff_address,
+    fareLines: row.fare_lines
+      ?.filter(line => line.publish)
+      .map(({ label, amount, rule }) => ({ label, amount, rule }))
+  }));
+}
+
+// The live billing-run invoice for an account and period, if the period was already billed
+export async function findPeriodInvoice(
+  accountId: string,
+  periodStart: string,
+  periodEnd: string,
+  q: QueryFn = query
+): Promise<{ id: string; invoiceNumber: string } | null> {
+  const { rows } = await q<{ id: string; invoice_number: string }>(`
+    SELECT id, invoice_number FROM invoices
+    WHERE corporate_account_id = $1
+      AND billing_period_start = $2::date
+      AND billing_period_end = $3::date
+      AND source = 'billing_run'
+      AND status <> 'void'
+  `, [accountId, periodStart, periodEnd]);
+  return rows.length ? { id: rows[0].id, invoiceNumber: rows[0].invoice_number } : null;
+}
+
+export async function insertBillingRun(
+  run: {
+    periodStart: string;
+    periodEnd: string;
+    issueDate: string;
+    invoicesCreated: number;
+    accountsSkipped: number;
+    tripsBilled: number;
+    totalBilled: number;
+    startedBy: string;
+  },
+  q: QueryFn = query
+): Promise<string> {
+  const { rows } = await q<{ id: string }>(`
+    INSERT INTO billing_runs (
+      period_start, period_end, issue_date, invoices_created, accounts_skipped, trips_billed, total_billed, started_by
+    ) VALUES ($1,$2,$3,$4,$5,$6,$7,$8)
+    RETURNING id
+  `, [
+    run.periodStart,
+    run.periodEnd,
+    run.issueDate,
+    run.invoicesCreated,
+    run.accountsSkipped,
+    run.tripsBilled,
+    run.totalBilled,
+    run.startedBy
+  ]);
+  return rows[0].id;
+}
+
+// ============================================================================
+// INVOICES
+// ============================================================================
+
+export async function insertInvoice(invoice: NewInvoice, q: QueryFn = query): Promise<string> {
+  const { rows } = await q<{ id: string }>(`
+    INSERT INTO invoices (
+      invoice_number, corporate_account_id, subscription_id, payment_terms_id, issue_date, due_date,
+      billing_period_start, billing_period_end, subtotal, discount_amount, tax_amount, total_amount,
+      amount_due, source, notes, terms_and_conditions, created_by
+    ) VALUES ($1,$2,$3,$4,$5,$6,$7,$8,$9,$10,$11,$12,$12,$13,$14,$15,$16)
+    RETURNING id
+  `, [
+    invoice.invoiceNumber,
+    invoice.corporateAccountId,
+    invoice.subscriptionId,
+    invoice.paymentTermsId,
+    invoice.issueDate,
+    invoice.dueDate,
+    invoice.billingPeriodStart,
+    invoice.billingPeriodEnd,
+    invoice.subtotal,
+    invoice.discountAmount,
+    invoice.taxAmount,
+    invoice.totalAmount,
+    invoice.source,
+    invoice.notes ?? null,
+    invoice.termsAndConditions ?? null,
+    invoice.createdBy
+  ]);
+  return rows[0].id;
+}
+
+export async function insertLineItems(
+  invoiceId: string,
+  lineItems: Omit<InvoiceLineItem, 'id'>[],
+  q: QueryFn = query
+): Promise<void> {
+  for (const [position, item] of lineItems.entries()) {
+    await q(`
+      INSERT INTO invoice_line_items (
+        invoice_id, position, description, quantity, unit_price, amount, tax_rate, tax_amount, trip_id, category, metadata
+      ) VALUES ($1,$2,$3,$4,$5,$6,$7,$8,$9,$10,$11)
+    `, [
+      invoiceId,
+      position + 1,
+      item.description,
+      item.quantity,
+      item.unitPrice,
+      item.amount,
+      item.taxRate,
+      item.taxAmount,
+      item.tripId ?? null,
+      item.category ?? null,
+      JSON.stringify(item.metadata ?? {})
+    ]);
+  }
+}
+
+// Claims trips for an invoice; the primary key rejects a trip that is already billed
+export async function insertInvoicedTrips(invoiceId: string, bookingIds: string[], q: QueryFn): Promise<void> {
+  if (bookingIds.length === 0) {
+    return;
+  }
+  await q(`
+    INSERT INTO invoiced_trips (booking_id, invoice_id)
+    SELECT unnest($2::uuid[]), $1
+  `, [invoiceId, bookingIds]);
+}
+
+export async function releaseInvoicedTrips(invoiceId: string, q: QueryFn): Promise<number> {
+  const { rows } = await q<{ booking_id: string }>(`
+    DELETE FROM invoiced_trips WHERE invoice_id = $1 RETURNING booking_id
+  `, [invoiceId]);
+  return rows.length;
+}
+
+export async function getInvoice(id: string, q: QueryFn = query, forUpdate = false): Promise<Invoice | null> {
+  const { rows } = await q<InvoiceRow>(`
+    ${INVOICE_SELECT}
+    WHERE i.id = $1 OR i.invoice_number = $1
+    ${forUpdate ? 'FOR UPDATE OF i' : ''}
+  `, [id]);
+  if (rows.length === 0) {
+    return null;
+  }
+  const lineItems = await q<LineItemRow>(`
+    SELECT * FROM invoice_line_items WHERE invoice_id = $1 ORDER BY position
+  `, [rows[0].id]);
+  return mapInvoice(rows[0], lineItems.rows);
+}
+
+export async function listInvoices(filters: InvoiceListFilters): Promise<{ invoices: Invoice[]; total: number }> {
+  const params = [
+    filters.status?.length ? filters.status : null,
+    filters.accountId ?? null,
+    filters.dateFrom ?? null,
+    filters.dateTo ?? null,
+    filters.minAmount ?? null,
+    filters.maxAmount ?? null,
+    filters.search ? `%${filters.search}%` : null
+  ];
+  const where = `
+    WHERE ($1::text[] IS NULL OR i.status = ANY($1))
+      AND ($2::uuid IS NULL OR i.corporate_account_id = $2)
+      AND ($3::date IS NULL OR i.issue_date >= $3::date)
+      AND ($4::date IS NULL OR i.issue_date <= $4::date)
+      AND ($5::numeric IS NULL OR i.total_amount >= $5)
+      AND ($6::numeric IS NULL OR i.total_amount <= $6)
+      AND ($7::text IS NULL OR i.invoice_number ILIKE $7 OR ca.company_name ILIKE $7)
+  `;
+
+  const countResult = await query<{ total: string }>(`
+    SELECT COUNT(*) AS total
+    FROM invoices i
+    JOIN corporate_accounts ca ON ca.id = i.corporate_account_id
+    ${where}
+  `, params);
+
+  const { rows } = await query<InvoiceRow>(`
+    ${INVOICE_SELECT}
+    ${where}
+    ORDER BY i.issue_date DESC, i.invoice_number DESC
+    LIMIT $8 OFFSET $9
+  `, [...params, filters.limit, (filters.page - 1) * filters.limit]);
+
+  return {
+    invoices: rows.map(row => mapInvoice(row)),
+    total: parseInt(countResult.rows[0]?.total || '0')
+  };
+}
+
+export async function updateInvoice(id: string, patch: InvoicePatch, q: QueryFn = query): Promise<void> {
+  const columns: Record<keyof InvoicePatch, string> = {
+    status: 'status',
+    paidDate: 'paid_date',
+    lateFeeAmount: 'late_fee_amount',
+    earlyPaymentDiscount: 'early_payment_discount',
+    creditAmount: 'credit_amount',
+    amountPaid: 'amount_paid',
+    amountDue: 'amount_due',
+    sentDate: 'sent_date',
+    sentTo: 'sent_to',
+    notes: 'notes',
+    pdfUrl: 'pdf_url',
+    lastReminderDate: 'last_reminder_date',
+    reminderCount: 'reminder_count'
+  };
+  const entries = (Object.keys(patch) as (keyof InvoicePatch)[]).filter(key => patch[key] !== undefined);
+  if (entries.length === 0) {
+    return;
+  }
+  const assignments = entries.map((key, i) => `${columns[key]} = $${i + 2}`);
+  await q(`
+    UPDATE invoices SET ${assignments.join(', ')}, updated_at = now() WHERE id = $1
+  `, [id, ...entries.map(key => patch[key])]);
+}
+
+// Issued invoices past their due date that still carry a balance
+export async function listOverdueInvoiceIds(asOf: string, q: QueryFn = query): Promise<string[]> {
+  const { rows } = await q<{ id: string }>(`
+    SELECT id FROM invoices
+    WHERE status IN ('sent', 'overdue') AND amount_due > 0 AND due_date < $1::date
+    ORDER BY due_date
+  `, [asOf]);
+  return rows.map(row => row.id);
+}
+
+// ============================================================================
+// PAYMENTS, CREDIT NOTES AND ACTIVITY
+// ============================================================================
+
+export async function insertInvoicePayment(
+  invoiceId: string,
+  payment: Omit<PaymentHistory, 'id' | 'invoiceId'>,
+  q: QueryFn = query
+): Promise<string> {
+  const { rows } = await q<{ id: string }>(`
+    INSERT INTO invoice_payments
+      (invoice_id, amount, payment_date, payment_method, reference_number, notes, recorded_by, receipt_number)
+    VALUES ($1,$2,$3,$4,$5,$6,$7,$8)
+    RETURNING id
+  `, [
+    invoiceId,
+    payment.amount,
+    payment.paymentDate,
+    payment.paymentMethod,
+    payment.referenceNumber ?? null,
+    payment.notes ?? null,
+    payment.recordedBy,
+    payment.receiptNumber ?? null
+  ]);
+  return rows[0].id;
+}
+
+interface PaymentRow {
+  id: string;
+  invoice_id: string;
+  amount: string;
+  payment_date: string | Date;
+  payment_method: string;
+  reference_number: string | null;
+  notes: string | null;
+  recorded_by: string;
+  receipt_number: string | null;
+}
+
+const mapPayment = (row: PaymentRow): PaymentHistory => ({
+  id: row.id,
+  invoiceId: row.invoice_id,
+  amount: Number(row.amount),
+  paymentDate: toDateString(row.payment_date),
+  paymentMethod: row.payment_method,
+  referenceNumber: row.reference_number ?? undefined,
+  notes: row.notes ?? undefined,
+  recordedBy: row.recorded_by,
+  receiptNumber: row.receipt_number ?? undefined
+});
+
+export async function listInvoicePayments(invoiceId: string, q: QueryFn = query): Promise<PaymentHistory[]> {
+  const { rows } = await q<PaymentRow>(`
+    SELECT * FROM invoice_payments WHERE invoice_id = $1 ORDER BY payment_date, created_at
+  `, [invoiceId]);
+  return rows.map(mapPayment);
+}
+
+export async function insertCreditNote(
+  note: {
+    creditNoteNumber: string;
+    invoiceId: string;
+    accountId: string;
+    amount: number;
+    reason: string;
+    issueDate: string;
+    createdBy: string;
+  },
+  q: QueryFn = query
+): Promise<CreditNote> {
+  // Credit notes are applied to their invoice as they are issued
+  const { rows } = await q<CreditNoteRow>(`
+    INSERT INTO credit_notes (
+      credit_note_number, invoice_id, account_id, amount, reason, status, issue_date, applied_date, created_by
+    ) VALUES ($1,$2,$3,$4,$5,'applied',$6,$6,$7)
+    RETURNING *
+  `, [note.creditNoteNumber, note.invoiceId, note.accountId, note.amount, note.reason, note.issueDate, note.createdBy]);
+  return mapCreditNote(rows[0]);
+}
+
+export async function listCreditNotes(invoiceId: string, q: QueryFn = query): Promise<CreditNote[]> {
+  const { rows } = await q<CreditNoteRow>(`
+    SELECT * FROM credit_notes WHERE invoice_id = $1 ORDER BY created_at
+  `, [invoiceId]);
+  return rows.map(mapCreditNote);
+}
+
+export async function voidCreditNotes(invoiceId: string, q: QueryFn): Promise<void> {
+  await q(`
+    UPDATE credit_notes SET status = 'void', updated_at = now() WHERE invoice_id = $1 AND status <> 'void'
+  `, [invoiceId]);
+}
+
+export async function insertInvoiceActivity(
+  invoiceId: string,
+  type: InvoiceActivityType,
+  description: string,
+  performedBy: string,
+  metadata: Record<string, unknown> = {},
+  q: QueryFn = query
+): Promise<void> {
+  await q(`
+    INSERT INTO invoice_activity (invoice_id, activity_type, description, performed_by, metadata)
+    VALUES ($1,$2,$3,$4,$5)
+  `, [invoiceId, type, description, performedBy, JSON.stringify(metadata)]);
+}
+
+export async function listInvoiceActivity(invoiceId: string, q: QueryFn = query): Promise<InvoiceActivity[]> {
+  const { rows } = await q<{
+    id: string;
+    activity_type: InvoiceActivityType;
+    description: string;
+    performed_by: string;
+    metadata: Record<string, unknown>;
+    created_at: string;
+  }>(`
+    SELECT * FROM invoice_activity WHERE invoice_id = $1 ORDER BY created_at, id
+  `, [invoiceId]);
+  return rows.map(row => ({
+    id: String(row.id),
+    invoiceId,
+    type: row.activity_type,
+    description: row.description,
+    performedBy: row.performed_by,
+    timestamp: new Date(row.created_at).toISOString(),
+    metadata: row.metadata
+  }));
+}
@@ -0,0 +1,149 @@
+import { query } from '@/lib/db';
+import { JournalInput, JournalLine, LedgerEntry, LedgerEntryFilters } from '@/types/settlement';
+
+export type QueryFn = typeof query;
+
+const toCents = (amount: number) => Math.round(amount * 100);
+
+export function assertBalanced(lines: JournalLine[]): void {
+  if (lines.length < 2) {
+    throw new Error('journal_requires_two_lines');
+  }
+
+  let debits = 0;
+  let credits = 0;
+  for (const line of lines) {
+    if (line.debit < 0 || line.credit < 0) {
+      throw new Error('journal_negative_amount');
+    }
+    if (line.debit > 0 && line.credit > 0) {
+      throw new Error('journal_line_two_sided');
+    }
+    debits += toCents(line.debit);
+    credits += toCents(line.credit);
+  }
+
+  if (debits !== credits) {
+    throw new Error('journal_not_balanced');
+  }
+  if (debits === 0) {
+    throw new Error('journal_zero_amount');
+  }
+}
+
+export async function postJournal(input: JournalInput, q: QueryFn = query): Promise<string> {
+  const lines = input.lines.filter(line => line.debit > 0 || line.credit > 0);
+  assertBalanced(lines);
+
+  const { rows } = await q<{ id: string }>(`
+    INSERT INTO ledger_journals (reference, description, source_type, source_id, posted_by)
+    VALUES ($1,$2,$3,$4,$5)
+    RETURNING id
+  `, [input.reference, input.description, input.sourceType, input.sourceId ?? null, input.postedBy ?? 'system']);
+  const journalId = rows[0].id;
+
+  const params: unknown[] = [];
+  const values = lines.map((line, i) => {
+    const base = i * 6;
+    params.push(journalId, line.accountCode, line.driverId ?? null, line.description ?? null, line.debit, line.credit);
+    return `($${base + 1},$${base + 2},$${base + 3},$${base + 4},$${base + 5},$${base + 6})`;
+  });
+
+  await q(`
+    INSERT INTO ledger_entries (journal_id, account_code, driver_id, description, debit, credit)
+    VALUES ${values.join(',')}
+  `, params);
+
+  return journalId;
+}
+
+export async function listLedgerEntries(filters: LedgerEntryFilters): Promise<{
+  entries: LedgerEntry[];
+  total: number;
+  totals: { debit: number; credit: number };
+}> {
+  const conditions: string[] = [];
+  const params: unknown[] = [];
+  const add = (clause: string, value: unknown) => {
+    params.push(value);
+    conditions.push(clause.replace('?', `$${params.length}`));
+  };
+
+  if (filters.accountCode) {
+    add('e.account_code = ?', filters.accountCode);
+  }
+  if (filters.driverId) {
+    add('e.driver_id = ?', filters.driverId);
+  }
+  if (filters.type === 'debit') {
+    conditions.push('e.debit > 0');
+  }
+  if (filters.type === 'credit') {
+    conditions.push('e.credit > 0');
+  }
+  if (filters.dateFrom) {
+    add('e.created_at >= ?', filters.dateFrom);
+  }
+  if (filters.dateTo) {
+    add('e.created_at <= ?', filters.dateTo);
+  }
+  if (filters.search) {
+    add('(e.description ILIKE ? OR e.journal_description ILIKE $' + params.length +
+        ' OR e.reference ILIKE $' + params.length + ' OR e.account_name ILIKE $' + params.length + ')',
+        `%${filters.search}%`);
+  }
+
+  const where = conditions.length ? `WHERE ${conditions.join(' AND ')}` : '';
+
+  // Running balance is computed over the whole account before filtering so it matches the books
+  const base = `
+    SELECT le.id, le.journal_id, le.account_code, le.driver_id, le.description, le.debit, le.credit, le.created_at,
+           la.name AS account_name, lj.reference, lj.description AS journal_description,
+           SUM(le.debit - le.credit) OVER (PARTITION BY le.account_code ORDER BY le.id) AS balance
+    FROM ledger_entries le
+    JOIN ledger_accounts la ON la.code = le.account_code
+    JOIN ledger_journals lj ON lj.id = le.journal_id
+  `;
+
+  const countResult = await query<{ total: string; debit: string | null; credit: string | null }>(`
+    SELECT COUNT(*) AS total, SUM(e.debit) AS debit, SUM(e.credit) AS credit FROM (${base}) e ${where}
+  `, params);
+
+  const offset = (filters.page - 1) * filters.limit;
+  const { rows } = await query(`
+    SELECT * FROM (${base}) e
+    ${where}
+    ORDER BY e.created_at DESC, e.id DESC
+    LIMIT $${params.length + 1} OFFSET $${params.length + 2}
+  `, [...params, filters.limit, offset]);
+
+  return {
+    total: parseInt(countResult.rows[0]?.total || '0'),
+    totals: {
+      debit: Number(countResult.rows[0]?.debit || 0),
+      credit: Number(countResult.rows[0]?.credit || 0)
+    },
+    entries: rows.map(row => ({
+      id: String(row.id),
+      journalId: row.journal_id,
+      date: row.created_at,
+      accountCode: row.account_code,
+      accountName: row.account_name,
+      description: row.description || row.journal_description,
+      reference: row.reference,
+      driverId: row.driver_id,
+      debit: Number(row.debit),
+      credit: Number(row.credit),
+      balance: Number(row.balance)
+    }))
+  };
+}
+
+export async function getAccountBalance(accountCode: string, driverId?: string, q: QueryFn = query): Promise<number> {
+  const { rows } = await q<{ balance: string | null }>(`
+    SELECT SUM(debit - credit) AS balance
+    FROM ledger_entries
+    WHERE account_code = $1 AND ($2::uuid IS NULL OR driver_id = $2)
+  `, [accountCode, driverId ?? null]);
+  return Number(rows[0]?.balance || 0);
+}
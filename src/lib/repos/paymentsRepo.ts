@@ -0,0 +1,447 @@
+import { query } from '@/lib/db';
+import { PaymentProviderName, PaymentWebhookEvent, WalletPaymentMethod } from '@/lib/payments/provider';
+import { QueryFn } from '@/lib/repos/ledgerRepo';
+import {
+  PaymentStatus,
+  PaymentTransactionEvent,
+  Refund,
+  Transaction,
+  TransactionFilters
+} from '@/types/payment';
+
+interface TransactionRow {
+  id: string;
+  transaction_reference: string;
+  reference_number: string | null;
+  payment_method: WalletPaymentMethod;
+  provider: PaymentProviderName;
+  status: PaymentStatus;
+  amount: string;
+  currency: string;
+  refunded_amount: string;
+  description: string;
+  user_id: string;
+  booking_id: string | null;
+  provider_reference: string | null;
+  redirect_url: string | null;
+  failure_reason: string | null;
+  metadata: Record<string, unknown> | null;
+  request_hash: string;
+  created_at: string;
+  updated_at: string;
+  completed_at: string | null;
+}
+
+interface TransactionEventRow {
+  id: string;
+  from_status: PaymentStatus | null;
+  to_status: PaymentStatus;
+  source: 'api' | 'webhook';
+  provider_event_id: string | null;
+  note: string | null;
+  created_at: string;
+}
+
+interface RefundRow {
+  id: string;
+  refund_reference: string;
+  transaction_id: string;
+  transaction_reference?: string;
+  amount: string;
+  currency: string;
+  reason: string;
+  status: 'pending' | 'processed' | 'failed';
+  provider_refund_reference: string | null;
+  failure_reason: string | null;
+  requested_by: string;
+  created_at: string;
+  processed_at: string | null;
+}
+
+export interface StoredTransaction extends Transaction {
+  provider: PaymentProviderName;
+  paymentMethod: WalletPaymentMethod;
+  refundedAmount: number;
+  requestHash: string;
+}
+
+const mapTransaction = (row: TransactionRow): StoredTransaction => ({
+  id: row.id,
+  transactionId: row.transaction_reference,
+  referenceNumber: row.reference_number ?? row.transaction_reference,
+  amount: Number(row.amount),
+  currency: row.currency,
+  status: row.status,
+  paymentMethod: row.payment_method,
+  paymentMethodId: row.provider,
+  description: row.description,
+  userId: row.user_id,
+  bookingId: row.booking_id ?? undefined,
+  createdAt: row.created_at,
+  updatedAt: row.updated_at,
+  completedAt: row.completed_at ?? undefined,
+  failureReason: row.failure_reason ?? undefined,
+  metadata: row.metadata ?? undefined,
+  provider: row.provider,
+  providerReference: row.provider_reference ?? undefined,
+  refundedAmount: Number(row.refunded_amount),
+  redirectUrl: row.redirect_url ?? undefined,
+  requestHash: row.request_hash
+});
+
+const mapEvent = (row: TransactionEventRow): PaymentTransactionEvent => ({
+  id: String(row.id),
+  fromStatus: row.from_status,
+  toStatus: row.to_status,
+  source: row.source,
+  providerEventId: row.provider_event_id ?? undefined,
+  note: row.note ?? undefined,
+  createdAt: row.created_at
+});
+
+const mapRefund = (row: RefundRow): Refund => ({
+  id: row.id,
+  refundId: row.refund_reference,
+  transactionId: row.transaction_reference ?? row.transaction_id,
+  amount: Number(row.amount),
+  currency: row.currency,
+  reason: row.reason,
+  status: row.status,
+  requestedBy: row.requested_by,
+  processedBy: row.status === 'processed' ? 'provider' : undefined,
+  createdAt: row.created_at,
+  processedAt: row.processed_at ?? undefined,
+  rejectionReason: row.failure_reason ?? undefined,
+  metadata: row.provider_refund_reference ? { providerRefundReference: row.provider_refund_reference } : undefined
+});
+
+// ============================================================================
+// TRANSACTIONS
+// ============================================================================
+
+export async function getTransactionByIdempotencyKey(
+  paymentMethod: WalletPaymentMethod,
+  idempotencyKey: string,
+  q: QueryFn = query
+): Promise<StoredTransaction | null> {
+  const { rows } = await q<TransactionRow>(`
+    SELECT * FROM payment_transactions WHERE payment_method = $1 AND idempotency_key = $2
+  `, [paymentMethod, idempotencyKey]);
+  return rows[0] ? mapTransaction(rows[0]) : null;
+}
+
+/**
+ * Inserts a pending transaction. Returns null when another request already claimed
+ * the idempotency key, so concurrent retries resolve to a single row.
+ */
+export async function insertTransaction(
+  txn: {
+    reference: string;
+    referenceNumber: string | null;
+    paymentMethod: WalletPaymentMethod;
+    provider: PaymentProviderName;
+    amount: number;
+    currency: string;
+    description: string;
+    userId: string;
+    bookingId: string | null;
+    successUrl: string;
+    failureUrl: string;
+    metadata: Record<string, unknown>;
+    idempotencyKey: string;
+    requestHash: string;
+  },
+  q: QueryFn = query
+): Promise<StoredTransaction | null> {
+  const { rows } = await q<TransactionRow>(`
+    INSERT INTO payment_transactions (
+      transaction_reference, reference_number, payment_method, provider, amount, currency, description,
+      user_id, booking_id, success_url, failure_url, metadata, idempotency_key, request_hash
+    )
+    VALUES ($1,$2,$3,$4,$5,$6,$7,$8,$9,$10,$11,$12,$13,$14)
+    ON CONFLICT (payment_method, idempotency_key) DO NOTHING
+    RETURNING *
+  `, [
+    txn.reference, txn.referenceNumber, txn.paymentMethod, txn.provider, txn.amount, txn.currency,
+    txn.description, txn.userId, txn.bookingId, txn.successUrl, txn.failureUrl,
+    JSON.stringify(txn.metadata), txn.idempotencyKey, txn.requestHash
+  ]);
+  return rows[0] ? mapTransaction(rows[0]) : null;
+}
+
+export async function attachProviderCheckout(
+  id: string,
+  providerReference: string,
+  redirectUrl: string,
+  q: QueryFn = query
+): Promise<void> {
+  await q(`
+    UPDATE payment_transactions
+       SET provider_reference = $2, redirect_url = $3, updated_at = now()
+     WHERE id = $1
+  `, [id, providerReference, redirectUrl]);
+}
+
+// Accepts either the row id or the TXN- reference
+export async function getTransaction(
+  idOrReference: string,
+  q: QueryFn = query,
+  forUpdate = false
+): Promise<StoredTransaction | null> {
+  const { rows } = await q<TransactionRow>(`
+    SELECT * FROM payment_transactions
+    WHERE id::text = $1 OR transaction_reference = $1
+    ${forUpdate ? 'FOR UPDATE' : ''}
+  `, [idOrReference]);
+  return rows[0] ? mapTransaction(rows[0]) : null;
+}
+
+// The rider's authorized or captured wallet payment for a booking; null when they pay in cash
+export async function getBookingPayment(bookingId: string, q: QueryFn = query): Promise<StoredTransaction | null> {
+  const { rows } = await q<TransactionRow>(`
+    SELECT * FROM payment_transactions
+    WHERE booking_id = $1 AND status IN ('processing', 'completed')
+    ORDER BY created_at DESC
+    LIMIT 1
+  `, [bookingId]);
+  return rows[0] ? mapTransaction(rows[0]) : null;
+}
+
+export async function getTransactionByProviderReference(
+  provider: PaymentProviderName,
+  providerReference: string,
+  q: QueryFn = query,
+  forUpdate = false
+): Promise<StoredTransaction | null> {
+  const { rows } = await q<TransactionRow>(`
+    SELECT * FROM payment_transactions
+    WHERE provider = $1 AND provider_reference = $2
+    ${forUpdate ? 'FOR UPDATE' : ''}
+  `, [provider, providerReference]);
+  return rows[0] ? mapTransaction(rows[0]) : null;
+}
+
+export async function updateTransactionStatus(
+  id: string,
+  status: PaymentStatus,
+  failureReason: string | null,
+  q: QueryFn
+): Promise<void> {
+  await q(`
+    UPDATE payment_transactions
+       SET status = $2,
+           failure_reason = CASE WHEN $2 IN ('failed', 'cancelled') THEN $3 ELSE failure_reason END,
+           completed_at = CASE WHEN $2 = 'completed' THEN now() ELSE completed_at END,
+           updated_at = now()
+     WHERE id = $1
+  `, [id, status, failureReason]);
+}
+
+export async function addRefundedAmount(id: string, amount: number, q: QueryFn): Promise<void> {
+  await q(`
+    UPDATE payment_transactions SET refunded_amount = refunded_amount + $2, updated_at = now() WHERE id = $1
+  `, [id, amount]);
+}
+
+export async function listTransactions(
+  filters: TransactionFilters
+): Promise<{ transactions: StoredTransaction[]; total: number }> {
+  const params = [
+    filters.status ?? null,
+    filters.paymentMethod ?? null,
+    filters.userId ?? null,
+    filters.bookingId ?? null
+  ];
+  const where = `
+    WHERE ($1::text IS NULL OR status = $1)
+      AND ($2::text IS NULL OR payment_method = $2)
+      AND ($3::text IS NULL OR user_id = $3)
+      AND ($4::uuid IS NULL OR booking_id = $4)
+  `;
+
+  const countResult = await query<{ total: string }>(`
+    SELECT COUNT(*) AS total FROM payment_transactions ${where}
+  `, params);
+
+  const { rows } = await query<TransactionRow>(`
+    SELECT * FROM payment_transactions
+    ${where}
+    ORDER BY created_at DESC
+    LIMIT $5 OFFSET $6
+  `, [...params, filters.limit, (filters.page - 1) * filters.limit]);
+
+  return {
+    transactions: rows.map(mapTransaction),
+    total: parseInt(countResult.rows[0]?.total || '0')
+  };
+}
+
+export async function insertTransactionEvent(
+  transactionId: string,
+  event: {
+    fromStatus: PaymentStatus | null;
+    toStatus: PaymentStatus;
+    source: 'api' | 'webhook';
+    providerEventId?: string | null;
+    note?: string | null;
+  },
+  q: QueryFn
+): Promise<void> {
+  await q(`
+    INSERT INTO payment_transaction_events (transaction_id, from_status, to_status, source, provider_event_id, note)
+    VALUES ($1,$2,$3,$4,$5,$6)
+  `, [transactionId, event.fromStatus, event.toStatus, event.source, event.providerEventId ?? null, event.note ?? null]);
+}
+
+export async function listTransactionEvents(transactionId: string): Promise<PaymentTransactionEvent[]> {
+  const { rows } = await query<TransactionEventRow>(`
+    SELECT * FROM payment_transaction_events WHERE transaction_id = $1 ORDER BY created_at, id
+  `, [transactionId]);
+  return rows.map(mapEvent);
+}
+
+// ============================================================================
+// WEBHOOKS
+// ============================================================================
+
+/** Records a verified delivery; returns false when the event id was already processed. */
+export async function recordWebhookEvent(
+  provider: PaymentProviderName,
+  event: PaymentWebhookEvent,
+  transactionId: string | null,
+  q: QueryFn
+): Promise<boolean> {
+  const { rows } = await q<{ id: string }>(`
+    INSERT INTO payment_webhook_events (provider, event_id, event_type, transaction_id, payload)
+    VALUES ($1,$2,$3,$4,$5)
+    ON CONFLICT (provider, event_id) DO NOTHING
+    RETURNING id
+  `, [provider, event.eventId, event.type, transactionId, JSON.stringify(event.payload)]);
+  return rows.length > 0;
+}
+
+// ============================================================================
+// REFUNDS
+// ============================================================================
+
+const REFUND_SELECT = `
+  SELECT r.*, t.transaction_reference
+  FROM payment_refunds r
+  JOIN payment_transactions t ON t.id = r.transaction_id
+`;
+
+// Refunded plus still-pending refund amounts, used to cap new refund requests
+export async function getCommittedRefundTotal(transactionId: string, q: QueryFn): Promise<number> {
+  const { rows } = await q<{ total: string | null }>(`
+    SELECT SUM(amount) AS total FROM payment_refunds WHERE transaction_id = $1 AND status <> 'failed'
+  `, [transactionId]);
+  return Number(rows[0]?.total ?? 0);
+}
+
+export async function insertRefund(
+  refund: {
+    reference: string;
+    transactionId: string;
+    amount: number;
+    currency: string;
+    reason: string;
+    requestedBy: string;
+  },
+  q: QueryFn
+): Promise<string> {
+  const { rows } = await q<{ id: string }>(`
+    INSERT INTO payment_refunds (refund_reference, transaction_id, amount, currency, reason, requested_by)
+    VALUES ($1,$2,$3,$4,$5,$6)
+    RETURNING id
+  `, [refund.reference, refund.transactionId, refund.amount, refund.currency, refund.reason, refund.requestedBy]);
+  return rows[0].id;
+}
+
+export async function getRefund(id: string, q: QueryFn = query, forUpdate = false): Promise<Refund | null> {
+  const { rows } = await q<RefundRow>(`
+    ${REFUND_SELECT}
+    WHERE r.id = $1
+    ${forUpdate ? 'FOR UPDATE OF r' : ''}
+  `, [id]);
+  return rows[0] ? mapRefund(rows[0]) : null;
+}
+
+/**
+ * The pending refund a provider event is about. Our own RFN- reference matches even before the
+ * provider's refund reference has been stored; with neither, the oldest pending refund is taken.
+ */
+export async function getPendingRefund(
+  transactionId: string,
+  match: { refundReference?: string | null; providerRefundReference?: string | null },
+  q: QueryFn
+): Promise<Refund | null> {
+  const { rows } = await q<RefundRow>(`
+    ${REFUND_SELECT}
+    WHERE r.transaction_id = $1 AND r.status = 'pending'
+      AND (($2::text IS NULL AND $3::text IS NULL)
+        OR r.refund_reference = $2 OR r.provider_refund_reference = $3)
+    ORDER BY r.created_at
+    LIMIT 1
+    FOR UPDATE OF r
+  `, [transactionId, match.refundReference ?? null, match.providerRefundReference ?? null]);
+  return rows[0] ? mapRefund(rows[0]) : null;
+}
+
+// Stores the provider's refund reference without touching the status a webhook may have set
+export async function setProviderRefundReference(
+  id: string,
+  providerRefundReference: string,
+  q: QueryFn
+): Promise<void> {
+  await q(`
+    UPDATE payment_refunds SET provider_refund_reference = COALESCE(provider_refund_reference, $2) WHERE id = $1
+  `, [id, providerRefundReference]);
+}
+
+// Settles a pending refund; false when it was already settled by someone else
+export async function updateRefund(
+  id: string,
+  update: {
+    status: 'processed' | 'failed';
+    failureReason?: string | null;
+  },
+  q: QueryFn
+): Promise<boolean> {
+  const { rows } = await q<{ id: string }>(`
+    UPDATE payment_refunds
+       SET status = $2,
+           failure_reason = CASE WHEN $2 = 'failed' THEN $3 ELSE failure_reason END,
+           processed_at = CASE WHEN $2 = 'processed' THEN now() ELSE processed_at END
+     WHERE id = $1 AND status = 'pending'
+     RETURNING id
+  `, [id, update.status, update.failureReason ?? null]);
+  return rows.length > 0;
+}
+
+export async function listRefunds(
+  filters: { page: number; limit: number; status?: string; transactionId?: string }
+): Promise<{ refunds: Refund[]; total: number }> {
+  const params = [filters.status ?? null, filters.transactionId ?? null];
+  const where = `
+    WHERE ($1::text IS NULL OR r.status = $1)
+      AND ($2::text IS NULL OR r.transaction_id::text = $2 OR t.transaction_reference = $2)
+  `;
+
+  const countResult = await query<{ total: string }>(`
+    SELECT COUNT(*) AS total
+    FROM payment_refunds r JOIN payment_transactions t ON t.id = r.transaction_id
+    ${where}
+  `, params);
+
+  const { rows } = await query<RefundRow>(`
+    ${REFUND_SELECT}
+    ${where}
+    ORDER BY r.created_at DESC
+    LIMIT $3 OFFSET $4
+  `, [...params, filters.limit, (filters.page - 1) * filters.limit]);
+
+  return {
+    refunds: rows.map(mapRefund),
+    total: parseInt(countResult.rows[0]?.total || '0')
+  };
+}
@@ -0,0 +1,458 @@
+import { query } from '@/lib/db';
+import { QueryFn } from '@/lib/repos/ledgerRepo';
+import {
+  PayoutBatch,
+  PayoutBatchFilters,
+  PayoutBatchStatus,
+  PayoutDispute,
+  PayoutDisputeStatus,
+  PayoutLine,
+  PayoutLineEvent,
+  PayoutLineFilters,
+  PayoutLineStatus,
+  PayoutRail
+} from '@/types/payout';
+import { LEDGER_ACCOUNTS } from '@/types/settlement';
+
+export interface PayableBalance {
+  driver_id: string;
+  available: string;
+  account_name: string | null;
+  account_number: string | null;
+  bank_code: string | null;
+}
+
+interface BatchRow {
+  id: string;
+  batch_reference: string;
+  payout_method: PayoutRail;
+  status: PayoutBatchStatus;
+  total_amount: string;
+  line_count: number;
+  approval_request_id: string | null;
+  created_by: string;
+  released_by: string | null;
+  released_at: string | null;
+  created_at: string;
+  updated_at: string;
+  line_status_counts?: Record<PayoutLineStatus, number> | null;
+}
+
+interface LineRow {
+  id: string;
+  line_reference: string;
+  batch_id: string;
+  batch_reference?: string;
+  batch_status?: PayoutBatchStatus;
+  payout_method: PayoutRail;
+  driver_id: string;
+  driver_name?: string;
+  amount: string;
+  status: PayoutLineStatus;
+  account_name: string;
+  account_number: string;
+  bank_code: string | null;
+  provider_reference: string | null;
+  failure_reason: string | null;
+  attempt_count: number;
+  sent_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+interface LineEventRow {
+  id: string;
+  from_status: PayoutLineStatus | null;
+  to_status: PayoutLineStatus;
+  actor_id: string;
+  note: string | null;
+  journal_id: string | null;
+  created_at: string;
+}
+
+interface DisputeRow {
+  id: string;
+  line_id: string;
+  driver_id: string;
+  status: PayoutDisputeStatus;
+  reason: string;
+  details: string | null;
+  raised_by: string;
+  raised_at: string;
+  resolution: string | null;
+  resolved_by: string | null;
+  resolved_at: string | null;
+}
+
+const mapBatch = (row: BatchRow): PayoutBatch => ({
+  id: row.id,
+  reference: row.batch_reference,
+  payoutMethod: row.payout_method,
+  status: row.status,
+  totalAmount: Number(row.total_amount),
+  lineCount: row.line_count,
+  approvalRequestId: row.approval_request_id,
+  createdBy: row.created_by,
+  releasedBy: row.released_by,
+  releasedAt: row.released_at,
+  lineStatusCounts: row.line_status_counts ?? undefined,
+  createdAt: row.created_at,
+  updatedAt: row.updated_at
+});
+
+const mapLine = (row: LineRow): PayoutLine => ({
+  id: row.id,
+  reference: row.line_reference,
+  batchId: row.batch_id,
+  batchReference: row.batch_reference,
+  batchStatus: row.batch_status,
+  driverId: row.driver_id,
+  driverName: row.driver_name,
+  amount: Number(row.amount),
+  status: row.status,
+  payoutMethod: row.payout_method,
+  accountName: row.account_name,
+  accountNumber: row.account_number,
+  bankCode: row.bank_code,
+  providerReference: row.provider_reference,
+  failureReason: row.failure_reason,
+  attemptCount: row.attempt_count,
+  sentAt: row.sent_at,
+  createdAt: row.created_at,
+  updatedAt: row.updated_at
+});
+
+const mapDispute = (row: DisputeRow): PayoutDispute => ({
+  id: row.id,
+  lineId: row.line_id,
+  driverId: row.driver_id,
+  status: row.status,
+  reason: row.reason,
+  details: row.details,
+  raisedBy: row.raised_by,
+  raisedAt: row.raised_at,
+  resolution: row.resolution,
+  resolvedBy: row.resolved_by,
+  resolvedAt: row.resolved_at
+});
+
+const LINE_SELECT = `
+  SELECT pl.*, pb.batch_reference, pb.status AS batch_status, pb.payout_method,
+         d.first_name || ' ' || d.last_name AS driver_name
+  FROM payout_lines pl
+  JOIN payout_batches pb ON pb.id = pl.batch_id
+  JOIN drivers d ON d.id = pl.driver_id
+`;
+
+// ============================================================================
+// BATCH BUILDING
+// ============================================================================
+
+/**
+ * Driver payable balance (account 2100) less amounts already held by queued or
+ * failed lines in live batches, joined to the driver's default account for the rail.
+ */
+export async function listPayableBalances(
+  payoutMethod: PayoutRail,
+  driverIds: string[] | null,
+  q: QueryFn = query
+): Promise<PayableBalance[]> {
+  const { rows } = await q<PayableBalance>(`
+    WITH payable AS (
+      SELECT driver_id, SUM(credit - debit) AS balance
+      FROM ledger_entries
+      WHERE account_code = $1 AND driver_id IS NOT NULL
+        AND ($3::uuid[] IS NULL OR driver_id = ANY($3))
+      GROUP BY driver_id
+    ),
+    reserved AS (
+      SELECT pl.driver_id, SUM(pl.amount) AS amount
+      FROM payout_lines pl
+      JOIN payout_batches pb ON pb.id = pl.batch_id
+      WHERE pl.status IN ('queued', 'failed') AND pb.status <> 'cancelled'
+      GROUP BY pl.driver_id
+    )
+    SELECT p.driver_id, p.balance - COALESCE(r.amount, 0) AS available,
+           a.account_name, a.account_number, a.bank_code
+    FROM payable p
+    LEFT JOIN reserved r ON r.driver_id = p.driver_id
+    LEFT JOIN driver_payout_accounts a
+           ON a.driver_id = p.driver_id AND a.payout_method = $2 AND a.is_default
+    WHERE p.balance - COALESCE(r.amount, 0) > 0
+    ORDER BY p.driver_id
+  `, [LEDGER_ACCOUNTS.DRIVER_PAYABLES, payoutMethod, driverIds]);
+  return rows;
+}
+
+// Serialises batch builds so two batches never claim the same balance
+export async function lockPayoutBuilds(q: QueryFn): Promise<void> {
+  await q(`SELECT pg_advisory_xact_lock(hashtext('payout_batch_build'))`);
+}
+
+export async function insertBatch(
+  batch: { reference: string; payoutMethod: PayoutRail; createdBy: string },
+  q: QueryFn
+): Promise<string> {
+  const { rows } = await q<{ id: string }>(`
+    INSERT INTO payout_batches (batch_reference, payout_method, created_by)
+    VALUES ($1,$2,$3)
+    RETURNING id
+  `, [batch.reference, batch.payoutMethod, batch.createdBy]);
+  return rows[0].id;
+}
+
+export async function insertLine(
+  line: {
+    reference: string;
+    batchId: string;
+    driverId: string;
+    amount: number;
+    accountName: string;
+    accountNumber: string;
+    bankCode: string | null;
+  },
+  q: QueryFn
+): Promise<string> {
+  const { rows } = await q<{ id: string }>(`
+    INSERT INTO payout_lines (line_reference, batch_id, driver_id, amount, account_name, account_number, bank_code)
+    VALUES ($1,$2,$3,$4,$5,$6,$7)
+    RETURNING id
+  `, [line.reference, line.batchId, line.driverId, line.amount, line.accountName, line.accountNumber, line.bankCode]);
+  return rows[0].id;
+}
+
+export async function refreshBatchTotals(batchId: string, q: QueryFn): Promise<void> {
+  await q(`
+    UPDATE payout_batches pb
+       SET total_amount = COALESCE(t.total, 0), line_count = COALESCE(t.lines, 0), updated_at = now()
+      FROM (SELECT SUM(amount) AS total, COUNT(*) AS lines FROM payout_lines WHERE batch_id = $1) t
+     WHERE pb.id = $1
+  `, [batchId]);
+}
+
+// ============================================================================
+// BATCHES
+// ============================================================================
+
+export async function getBatch(id: string, q: QueryFn = query, forUpdate = false): Promise<PayoutBatch | null> {
+  const { rows } = await q<BatchRow>(`
+    SELECT * FROM payout_batches WHERE id = $1 ${forUpdate ? 'FOR UPDATE' : ''}
+  `, [id]);
+  return rows[0] ? mapBatch(rows[0]) : null;
+}
+
+export async function getBatchWithLines(id: string): Promise<PayoutBatch | null> {
+  const batch = await getBatch(id);
+  if (!batch) {
+    return null;
+  }
+  const lines = await listBatchLines(id);
+  const lineStatusCounts = { queued: 0, sent: 0, failed: 0, reversed: 0 };
+  for (const line of lines) {
+    lineStatusCounts[line.status]++;
+  }
+  return { ...batch, lines, lineStatusCounts };
+}
+
+export async function listBatches(filters: PayoutBatchFilters): Promise<{ batches: PayoutBatch[]; total: number }> {
+  const params = [filters.status ?? null, filters.payoutMethod ?? null];
+  const where = `
+    WHERE ($1::text IS NULL OR pb.status = $1)
+      AND ($2::text IS NULL OR pb.payout_method = $2)
+  `;
+
+  const countResult = await query<{ total: string }>(`
+    SELECT COUNT(*) AS total FROM payout_batches pb ${where}
+  `, params);
+
+  const { rows } = await query<BatchRow>(`
+    SELECT pb.*,
+           (SELECT json_object_agg(s.status, s.count)
+              FROM (SELECT status, COUNT(*)::int AS count FROM payout_lines
+                     WHERE batch_id = pb.id GROUP BY status) s) AS line_status_counts
+    FROM payout_batches pb
+    ${where}
+    ORDER BY pb.created_at DESC
+    LIMIT $3 OFFSET $4
+  `, [...params, filters.limit, (filters.page - 1) * filters.limit]);
+
+  return {
+    batches: rows.map(mapBatch),
+    total: parseInt(countResult.rows[0]?.total || '0')
+  };
+}
+
+export async function updateBatchStatus(
+  id: string,
+  status: PayoutBatchStatus,
+  extra: { approvalRequestId?: string; releasedBy?: string },
+  q: QueryFn
+): Promise<void> {
+  await q(`
+    UPDATE payout_batches
+       SET status = $2,
+           approval_request_id = COALESCE($3, approval_request_id),
+           released_by = COALESCE($4, released_by),
+           released_at = CASE WHEN $2 = 'released' THEN now() ELSE released_at END,
+           updated_at = now()
+     WHERE id = $1
+  `, [id, status, extra.approvalRequestId ?? null, extra.releasedBy ?? null]);
+}
+
+// ============================================================================
+// LINES
+// ============================================================================
+
+export async function listBatchLines(
+  batchId: string,
+  q: QueryFn = query,
+  status?: PayoutLineStatus
+): Promise<PayoutLine[]> {
+  const { rows } = await q<LineRow>(`
+    ${LINE_SELECT}
+    WHERE pl.batch_id = $1 AND ($2::text IS NULL OR pl.status = $2)
+    ORDER BY pl.line_reference
+  `, [batchId, status ?? null]);
+  return rows.map(mapLine);
+}
+
+export async function listLines(filters: PayoutLineFilters): Promise<{ lines: PayoutLine[]; total: number }> {
+  const params = [
+    filters.driverId ?? null,
+    filters.batchId ?? null,
+    filters.status ?? null,
+    filters.payoutMethod ?? null
+  ];
+  const where = `
+    WHERE ($1::uuid IS NULL OR pl.driver_id = $1)
+      AND ($2::uuid IS NULL OR pl.batch_id = $2)
+      AND ($3::text IS NULL OR pl.status = $3)
+      AND ($4::text IS NULL OR pb.payout_method = $4)
+      AND pb.status <> 'cancelled'
+  `;
+
+  const countResult = await query<{ total: string }>(`
+    SELECT COUNT(*) AS total
+    FROM payout_lines pl JOIN payout_batches pb ON pb.id = pl.batch_id
+    ${where}
+  `, params);
+
+  const { rows } = await query<LineRow>(`
+    ${LINE_SELECT}
+    ${where}
+    ORDER BY pl.created_at DESC
+    LIMIT $5 OFFSET $6
+  `, [...params, filters.limit, (filters.page - 1) * filters.limit]);
+
+  return {
+    lines: rows.map(mapLine),
+    total: parseInt(countResult.rows[0]?.total || '0')
+  };
+}
+
+export async function getLine(id: string, q: QueryFn = query, forUpdate = false): Promise<PayoutLine | null> {
+  const { rows } = await q<LineRow>(`
+    ${LINE_SELECT}
+    WHERE pl.id = $1
+    ${forUpdate ? 'FOR UPDATE OF pl' : ''}
+  `, [id]);
+  return rows[0] ? mapLine(rows[0]) : null;
+}
+
+export async function updateLineStatus(
+  id: string,
+  update: {
+    status: PayoutLineStatus;
+    failureReason?: string | null;
+    providerReference?: string | null;
+    markSent?: boolean;
+  },
+  q: QueryFn
+): Promise<void> {
+  await q(`
+    UPDATE payout_lines
+       SET status = $2,
+           failure_reason = CASE WHEN $2 = 'failed' THEN $3 ELSE failure_reason END,
+           provider_reference = COALESCE($4, provider_reference),
+           attempt_count = attempt_count + CASE WHEN $5::boolean THEN 1 ELSE 0 END,
+           sent_at = CASE WHEN $5::boolean THEN now() ELSE sent_at END,
+           updated_at = now()
+     WHERE id = $1
+  `, [id, update.status, update.failureReason ?? null, update.providerReference ?? null, update.markSent ?? false]);
+}
+
+export async function insertLineEvent(
+  lineId: string,
+  event: {
+    fromStatus: PayoutLineStatus | null;
+    toStatus: PayoutLineStatus;
+    actorId: string;
+    note?: string | null;
+    journalId?: string | null;
+  },
+  q: QueryFn
+): Promise<void> {
+  await q(`
+    INSERT INTO payout_line_events (line_id, from_status, to_status, actor_id, note, journal_id)
+    VALUES ($1,$2,$3,$4,$5,$6)
+  `, [lineId, event.fromStatus, event.toStatus, event.actorId, event.note ?? null, event.journalId ?? null]);
+}
+
+export async function listLineEvents(lineId: string): Promise<PayoutLineEvent[]> {
+  const { rows } = await query<LineEventRow>(`
+    SELECT * FROM payout_line_events WHERE line_id = $1 ORDER BY created_at, id
+  `, [lineId]);
+  return rows.map(row => ({
+    id: String(row.id),
+    fromStatus: row.from_status,
+    toStatus: row.to_status,
+    actorId: row.actor_id,
+    note: row.note,
+    journalId: row.journal_id,
+    createdAt: row.created_at
+  }));
+}
+
+// ============================================================================
+// DISPUTES
+// ============================================================================
+
+export async function listPayoutDisputes(lineId: string): Promise<PayoutDispute[]> {
+  const { rows } = await query<DisputeRow>(`
+    SELECT * FROM payout_disputes WHERE line_id = $1 ORDER BY raised_at DESC
+  `, [lineId]);
+  return rows.map(mapDispute);
+}
+
+export async function getOpenPayoutDispute(lineId: string, q: QueryFn = query): Promise<PayoutDispute | null> {
+  const { rows } = await q<DisputeRow>(`
+    SELECT * FROM payout_disputes WHERE line_id = $1 AND status = 'open' FOR UPDATE
+  `, [lineId]);
+  return rows[0] ? mapDispute(rows[0]) : null;
+}
+
+export async function insertPayoutDispute(
+  dispute: { lineId: string; driverId: string; reason: string; details?: string; raisedBy: string },
+  q: QueryFn
+): Promise<PayoutDispute> {
+  const { rows } = await q<DisputeRow>(`
+    INSERT INTO payout_disputes (line_id, driver_id, reason, details, raised_by)
+    VALUES ($1,$2,$3,$4,$5)
+    RETURNING *
+  `, [dispute.lineId, dispute.driverId, dispute.reason, dispute.details ?? null, dispute.raisedBy]);
+  return mapDispute(rows[0]);
+}
+
+export async function closePayoutDispute(
+  id: string,
+  close: { status: Exclude<PayoutDisputeStatus, 'open'>; resolution: string; resolvedBy: string },
+  q: QueryFn
+): Promise<PayoutDispute> {
+  const { rows } = await q<DisputeRow>(`
+    UPDATE payout_disputes
+       SET status = $2, resolution = $3, resolved_by = $4, resolved_at = now()
+     WHERE id = $1
+     RETURNING *
+  `, [id, close.status, close.resolution, close.resolvedBy]);
+  return mapDispute(rows[0]);
+}
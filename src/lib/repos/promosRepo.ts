@@ -0,0 +1,480 @@
+import { query } from '@/lib/db';
+import { QueryFn } from '@/lib/repos/ledgerRepo';
+import {
+  CreatePromoRequest,
+  Promo,
+  PromoAttempt,
+  PromoDiscountType,
+  PromoFilters,
+  PromoRedemption,
+  PromoRedemptionStatus,
+  PromoRejectionReason,
+  PromoStatus,
+  PromoUsageDay
+} from '@/types/promo';
+
+export type PromoPatch = Partial<{
+  name: string;
+  description: string | null;
+  discountValue: number;
+  maxDiscount: number | null;
+  minOrderAmount: number | null;
+  validFrom: string;
+  validTo: string;
+  usageLimit: number | null;
+  perUserLimit: number | null;
+  newUsersOnly: boolean;
+  serviceKeys: string[] | null;
+  regionIds: string[] | null;
+  zoneIds: string[] | null;
+  stackable: boolean;
+  isActive: boolean;
+}>;
+
+interface PromoRow {
+  id: string;
+  code: string;
+  name: string;
+  description: string | null;
+  discount_type: PromoDiscountType;
+  discount_value: string;
+  max_discount: string | null;
+  min_order_amount: string | null;
+  valid_from: string;
+  valid_to: string;
+  usage_limit: number | null;
+  per_user_limit: number | null;
+  usage_count: number;
+  new_users_only: boolean;
+  service_keys: string[] | null;
+  region_ids: string[] | null;
+  zone_ids: string[] | null;
+  stackable: boolean;
+  is_active: boolean;
+  created_by: string;
+  created_at: string;
+  updated_at: string;
+}
+
+interface RedemptionRow {
+  id: string;
+  promo_id: string;
+  code: string;
+  customer_id: string;
+  booking_id: string | null;
+  status: PromoRedemptionStatus;
+  order_amount: string;
+  discount_amount: string;
+  service_key: string | null;
+  region_id: string | null;
+  zone_id: string | null;
+  redeemed_at: string;
+  reversed_at: string | null;
+  reversal_reason: string | null;
+}
+
+const optionalNumber = (value: string | null) => (value === null ? null : Number(value));
+
+export function promoStatus(
+  promo: { isActive: boolean; validFrom: string; validTo: string },
+  now: Date = new Date()
+): PromoStatus {
+  if (new Date(promo.validTo) < now) {
+    return 'expired';
+  }
+  if (!promo.isActive) {
+    return 'paused';
+  }
+  return new Date(promo.validFrom) > now ? 'scheduled' : 'active';
+}
+
+const mapPromo = (row: PromoRow): Promo => {
+  const promo = {
+    id: row.id,
+    code: row.code,
+    name: row.name,
+    description: row.description,
+    discountType: row.discount_type,
+    discountValue: Number(row.discount_value),
+    maxDiscount: optionalNumber(row.max_discount),
+    minOrderAmount: optionalNumber(row.min_order_amount),
+    validFrom: row.valid_from,
+    validTo: row.valid_to,
+    usageLimit: row.usage_limit,
+    perUserLimit: row.per_user_limit,
+    usageCount: row.usage_count,
+    newUsersOnly: row.new_users_only,
+    serviceKeys: row.service_keys,
+    regionIds: row.region_ids,
+    zoneIds: row.zone_ids,
+    stackable: row.stackable,
+    isActive: row.is_active,
+    createdBy: row.created_by,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at
+  };
+  return { ...promo, status: promoStatus(promo) };
+};
+
+const mapRedemption = (row: RedemptionRow): PromoRedemption => ({
+  id: row.id,
+  promoId: row.promo_id,
+  code: row.code,
+  customerId: row.customer_id,
+  bookingId: row.booking_id,
+  status: row.status,
+  orderAmount: Number(row.order_amount),
+  discountAmount: Number(row.discount_amount),
+  serviceKey: row.service_key,
+  regionId: row.region_id,
+  zoneId: row.zone_id,
+  redeemedAt: row.redeemed_at,
+  reversedAt: row.reversed_at,
+  reversalReason: row.reversal_reason
+});
+
+// SQL condition matching promoStatus for each status filter
+const STATUS_CONDITIONS: Record<PromoStatus, string> = {
+  expired: 'valid_to < now()',
+  paused: 'valid_to >= now() AND NOT is_active',
+  scheduled: 'valid_to >= now() AND is_active AND valid_from > now()',
+  active: 'valid_to >= now() AND is_active AND valid_from <= now()'
+};
+
+const REDEMPTION_SELECT = `
+  SELECT r.*, p.code
+  FROM promo_redemptions r
+  JOIN promotions p ON p.id = r.promo_id
+`;
+
+// ============================================================================
+// PROMOTIONS
+// ============================================================================
+
+export async function insertPromo(
+  promo: CreatePromoRequest & { createdBy: string },
+  q: QueryFn = query
+): Promise<Promo> {
+  const { rows } = await q<PromoRow>(`
+    INSERT INTO promotions
+      (code, name, description, discount_type, discount_value, max_discount, min_order_amount, valid_from, valid_to,
+       usage_limit, per_user_limit, new_users_only, service_keys, region_ids, zone_ids, stackable, created_by)
+    VALUES ($1,$2,$3,$4,$5,$6,$7,$8,$9,$10,$11,$12,$13,$14,$15,$16,$17)
+    RETURNING *
+  `, [
+    promo.code, promo.name, promo.description ?? null, promo.discountType, promo.discountValue,
+    promo.maxDiscount ?? null, promo.minOrderAmount ?? null, promo.validFrom, promo.validTo,
+    promo.usageLimit ?? null, promo.perUserLimit === undefined ? 1 : promo.perUserLimit,
+    promo.newUsersOnly ?? false, promo.serviceKeys ?? null, promo.regionIds ?? null, promo.zoneIds ?? null,
+    promo.stackable ?? false, promo.createdBy
+  ]);
+  return mapPromo(rows[0]);
+}
+
+export async function getPromo(id: string, q: QueryFn = query, forUpdate = false): Promise<Promo | null> {
+  const { rows } = await q<PromoRow>(`
+    SELECT * FROM promotions WHERE id = $1 ${forUpdate ? 'FOR UPDATE' : ''}
+  `, [id]);
+  return rows[0] ? mapPromo(rows[0]) : null;
+}
+
+export async function getPromoByCode(code: string, q: QueryFn = query): Promise<Promo | null> {
+  const { rows } = await q<PromoRow>('SELECT * FROM promotions WHERE code = $1', [code]);
+  return rows[0] ? mapPromo(rows[0]) : null;
+}
+
+/**
+ * Promotions for a set of (upper-case) codes. When locking, rows are locked in id
+ * order so concurrent redemptions of overlapping codes cannot deadlock.
+ */
+export async function getPromosByCodes(codes: string[], q: QueryFn = query, forUpdate = false): Promise<Promo[]> {
+  if (codes.length === 0) {
+    return [];
+  }
+  const { rows } = await q<PromoRow>(`
+    SELECT * FROM promotions WHERE code = ANY($1::text[])
+    ORDER BY id
+    ${forUpdate ? 'FOR UPDATE' : ''}
+  `, [codes]);
+  return rows.map(mapPromo);
+}
+
+export async function listPromos(filters: PromoFilters): Promise<{ promos: Promo[]; total: number }> {
+  const params = [filters.search ? `%${filters.search}%` : null];
+  const where = `
+    WHERE ($1::text IS NULL OR code ILIKE $1 OR name ILIKE $1)
+      ${filters.status ? `AND ${STATUS_CONDITIONS[filters.status]}` : ''}
+  `;
+
+  const countResult = await query<{ total: string }>(`
+    SELECT COUNT(*) AS total FROM promotions ${where}
+  `, params);
+
+  const { rows } = await query<PromoRow>(`
+    SELECT * FROM promotions
+    ${where}
+    ORDER BY valid_from DESC, code
+    LIMIT $2 OFFSET $3
+  `, [...params, filters.limit, (filters.page - 1) * filters.limit]);
+
+  return {
+    promos: rows.map(mapPromo),
+    total: parseInt(countResult.rows[0]?.total || '0')
+  };
+}
+
+export async function updatePromo(id: string, patch: PromoPatch, q: QueryFn = query): Promise<void> {
+  const columns: Record<keyof PromoPatch, string> = {
+    name: 'name',
+    description: 'description',
+    discountValue: 'discount_value',
+    maxDiscount: 'max_discount',
+    minOrderAmount: 'min_order_amount',
+    validFrom: 'valid_from',
+    validTo: 'valid_to',
+    usageLimit: 'usage_limit',
+    perUserLimit: 'per_user_limit',
+    newUsersOnly: 'new_users_only',
+    serviceKeys: 'service_keys',
+    regionIds: 'region_ids',
+    zoneIds: 'zone_ids',
+    stackable: 'stackable',
+    isActive: 'is_active'
+  };
+  const entries = (Object.keys(patch) as (keyof PromoPatch)[]).filter(key => patch[key] !== undefined);
+  if (entries.length === 0) {
+    return;
+  }
+  const assignments = entries.map((key, i) => `${columns[key]} = $${i + 2}`);
+  await q(`
+    UPDATE promotions SET ${assignments.join(', ')}, updated_at = now() WHERE id = $1
+  `, [id, ...entries.map(key => patch[key])]);
+}
+
+// Only for promos that were never redeemed; logged attempts keep their code for fraud history
+export async function deletePromo(id: string, q: QueryFn = query): Promise<void> {
+  await q('UPDATE promo_redemption_attempts SET promo_id = NULL WHERE promo_id = $1', [id]);
+  await q('DELETE FROM promotions WHERE id = $1', [id]);
+}
+
+/**
+ * Counts one more use against the global limit. The guard in the WHERE clause makes
+ * this safe under concurrency: it returns false once the limit has been reached.
+ */
+export async function incrementPromoUsage(id: string, q: QueryFn): Promise<boolean> {
+  const { rows } = await q<{ id: string }>(`
+    UPDATE promotions SET usage_count = usage_count + 1, updated_at = now()
+     WHERE id = $1 AND (usage_limit IS NULL OR usage_count < usage_limit)
+     RETURNING id
+  `, [id]);
+  return rows.length > 0;
+}
+
+export async function decrementPromoUsage(id: string, q: QueryFn): Promise<void> {
+  await q(`
+    UPDATE promotions SET usage_count = GREATEST(usage_count - 1, 0), updated_at = now() WHERE id = $1
+  `, [id]);
+}
+
+// ============================================================================
+// REDEMPTIONS
+// ============================================================================
+
+// Serialises redemptions for one customer for the rest of the transaction, so per-user limits hold
+export async function lockCustomerRedemptions(customerId: string, q: QueryFn): Promise<void> {
+  await q("SELECT pg_advisory_xact_lock(hashtext('promo_customer:' || $1))", [customerId]);
+}
+
+// Redemptions still standing for a customer, per promo id
+export async function countCustomerRedemptions(
+  customerId: string,
+  promoIds: string[],
+  q: QueryFn = query
+): Promise<Record<string, number>> {
+  if (promoIds.length === 0) {
+    return {};
+  }
+  const { rows } = await q<{ promo_id: string; uses: string }>(`
+    SELECT promo_id, COUNT(*) AS uses FROM promo_redemptions
+    WHERE customer_id = $1 AND promo_id = ANY($2::uuid[]) AND status = 'redeemed'
+    GROUP BY promo_id
+  `, [customerId, promoIds]);
+  return Object.fromEntries(rows.map(row => [row.promo_id, parseInt(row.uses)]));
+}
+
+export async function countPromoRedemptions(promoId: string, q: QueryFn = query): Promise<number> {
+  const { rows } = await q<{ total: string }>(`
+    SELECT COUNT(*) AS total FROM promo_redemptions WHERE promo_id = $1
+  `, [promoId]);
+  return parseInt(rows[0]?.total || '0');
+}
+
+// New-user promos are for customers who have never completed a booking
+export async function hasCompletedBooking(customerId: string, q: QueryFn = query): Promise<boolean> {
+  const { rows } = await q<{ exists: boolean }>(`
+    SELECT EXISTS (SELECT 1 FROM bookings WHERE customer_id = $1 AND status = 'completed') AS exists
+  `, [customerId]);
+  return Boolean(rows[0]?.exists);
+}
+
+export async function insertRedemption(
+  redemption: {
+    promoId: string;
+    customerId: string;
+    bookingId: string | null;
+    orderAmount: number;
+    discountAmount: number;
+    serviceKey: string | null;
+    regionId: string | null;
+    zoneId: string | null;
+  },
+  q: QueryFn
+): Promise<string> {
+  const { rows } = await q<{ id: string }>(`
+    INSERT INTO promo_redemptions
+      (promo_id, customer_id, booking_id, order_amount, discount_amount, service_key, region_id, zone_id)
+    VALUES ($1,$2,$3,$4,$5,$6,$7,$8)
+    RETURNING id
+  `, [
+    redemption.promoId, redemption.customerId, redemption.bookingId, redemption.orderAmount,
+    redemption.discountAmount, redemption.serviceKey, redemption.regionId, redemption.zoneId
+  ]);
+  return rows[0].id;
+}
+
+export async function getRedemption(
+  id: string,
+  q: QueryFn = query,
+  forUpdate = false
+): Promise<PromoRedemption | null> {
+  const { rows } = await q<RedemptionRow>(`
+    ${REDEMPTION_SELECT}
+    WHERE r.id = $1
+    ${forUpdate ? 'FOR UPDATE OF r' : ''}
+  `, [id]);
+  return rows[0] ? mapRedemption(rows[0]) : null;
+}
+
+export async function listRedemptionsByIds(ids: string[], q: QueryFn = query): Promise<PromoRedemption[]> {
+  if (ids.length === 0) {
+    return [];
+  }
+  const { rows } = await q<RedemptionRow>(`
+    ${REDEMPTION_SELECT}
+    WHERE r.id = ANY($1::uuid[])
+    ORDER BY r.redeemed_at, p.code
+  `, [ids]);
+  return rows.map(mapRedemption);
+}
+
+// Redemptions already made for a booking, so a retried redemption returns the original result
+export async function listBookingRedemptions(bookingId: string, q: QueryFn = query): Promise<PromoRedemption[]> {
+  const { rows } = await q<RedemptionRow>(`
+    ${REDEMPTION_SELECT}
+    WHERE r.booking_id = $1 AND r.status = 'redeemed'
+    ORDER BY p.code
+  `, [bookingId]);
+  return rows.map(mapRedemption);
+}
+
+export async function reverseRedemption(id: string, reason: string | null, q: QueryFn): Promise<void> {
+  await q(`
+    UPDATE promo_redemptions SET status = 'reversed', reversed_at = now(), reversal_reason = $2 WHERE id = $1
+  `, [id, reason]);
+}
+
+// ============================================================================
+// ATTEMPT LOG
+// ============================================================================
+
+export async function insertPromoAttempts(
+  attempts: {
+    customerId: string;
+    code: string;
+    promoId: string | null;
+    outcome: 'redeemed' | PromoRejectionReason;
+    orderAmount: number;
+    discountAmount: number | null;
+    bookingId: string | null;
+  }[],
+  q: QueryFn = query
+): Promise<string[]> {
+  const ids: string[] = [];
+  for (const attempt of attempts) {
+    const { rows } = await q<{ id: string }>(`
+      INSERT INTO promo_redemption_attempts
+        (customer_id, code, promo_id, outcome, order_amount, discount_amount, booking_id)
+      VALUES ($1,$2,$3,$4,$5,$6,$7)
+      RETURNING id
+    `, [
+      attempt.customerId, attempt.code, attempt.promoId, attempt.outcome, attempt.orderAmount,
+      attempt.discountAmount, attempt.bookingId
+    ]);
+    ids.push(String(rows[0].id));
+  }
+  return ids;
+}
+
+export async function setAttemptFraudScore(ids: string[], score: number, q: QueryFn = query): Promise<void> {
+  if (ids.length === 0) {
+    return;
+  }
+  await q('UPDATE promo_redemption_attempts SET fraud_score = $2 WHERE id = ANY($1::bigint[])', [ids, score]);
+}
+
+export async function listPromoAttempts(
+  customerId: string,
+  sinceDays = 90,
+  q: QueryFn = query
+): Promise<PromoAttempt[]> {
+  const { rows } = await q<{
+    code: string;
+    outcome: PromoAttempt['outcome'];
+    discount_amount: string | null;
+    attempted_at: string;
+  }>(`
+    SELECT code, outcome, discount_amount, attempted_at FROM promo_redemption_attempts
+    WHERE customer_id = $1 AND attempted_at >= now() - make_interval(days => $2)
+    ORDER BY attempted_at DESC
+    LIMIT 500
+  `, [customerId, sinceDays]);
+  return rows.map(row => ({
+    promoCode: row.code,
+    outcome: row.outcome,
+    discountAmount: optionalNumber(row.discount_amount),
+    usedAt: row.attempted_at
+  }));
+}
+
+/**
+ * Redemptions per day over the last `days` days for the `top` most redeemed codes in
+ * that window. Days without redemptions are included with zero counts.
+ */
+export async function listPromoUsage(days: number, top: number, q: QueryFn = query): Promise<PromoUsageDay[]> {
+  const { rows } = await q<{ day: string; code: string | null; uses: string }>(`
+    WITH window_redemptions AS (
+      SELECT r.promo_id, r.redeemed_at::date AS day
+      FROM promo_redemptions r
+      WHERE r.status = 'redeemed' AND r.redeemed_at >= current_date - make_interval(days => $1 - 1)
+    ),
+    top_promos AS (
+      SELECT promo_id FROM window_redemptions GROUP BY promo_id ORDER BY COUNT(*) DESC LIMIT $2
+    )
+    SELECT to_char(d.day, 'YYYY-MM-DD') AS day, p.code, COUNT(w.promo_id) AS uses
+    FROM generate_series(current_date - make_interval(days => $1 - 1), current_date, interval '1 day') AS d(day)
+    LEFT JOIN window_redemptions w ON w.day = d.day::date AND w.promo_id IN (SELECT promo_id FROM top_promos)
+    LEFT JOIN promotions p ON p.id = w.promo_id
+    GROUP BY d.day, p.code
+    ORDER BY d.day, p.code
+  `, [days, top]);
+
+  const byDay = new Map<string, Record<string, number>>();
+  for (const row of rows) {
+    const counts = byDay.get(row.day) ?? {};
+    if (row.code) {
+      counts[row.code] = parseInt(row.uses);
+    }
+    byDay.set(row.day, counts);
+  }
+  return Array.from(byDay, ([date, counts]) => ({ date, counts }));
+}
@@ -0,0 +1,539 @@
+import { query } from '@/lib/db';
+import { QueryFn } from '@/lib/repos/ledgerRepo';
+import {
+  ReconciliationAuditAction,
+  ReconciliationAuditEntry,
+  ReconciliationDiscrepancyReason,
+  ReconciliationMatchMethod,
+  ReconciliationStatement,
+  ReconciliationStats,
+  ReconciliationStatus,
+  StatementProvider,
+  UnreconciledTransaction
+} from '@/types/billing';
+
+export interface MatchCandidate {
+  id: string;
+  transactionReference: string;
+  providerReference: string | null;
+  paymentMethod: string;
+  provider: string;                     // who settled it: gcash, paymaya or the sandbox
+  status: string;
+  amount: number;
+  completedAt: string | null;
+  userId: string;
+  matchedElsewhere: boolean;            // already matched to a line on an earlier statement
+  flaggedMissing: boolean;              // already reported missing by an earlier statement
+}
+
+export interface ReconciliationItemFilters {
+  page: number;
+  limit: number;
+  status?: ReconciliationStatus[];
+  provider?: StatementProvider;
+  statementId?: string;
+  accountId?: string;
+  dateFrom?: string;
+  dateTo?: string;
+}
+
+interface StatementRow {
+  id: string;
+  provider: StatementProvider;
+  file_name: string;
+  period_start: string | null;
+  period_end: string | null;
+  line_count: number;
+  skipped_count: number;
+  statement_total: string;
+  uploaded_by: string;
+  created_at: string;
+  status_counts?: Partial<Record<ReconciliationStatus, number>> | null;
+}
+
+interface CandidateRow {
+  id: string;
+  transaction_reference: string;
+  provider_reference: string | null;
+  payment_method: string;
+  provider: string;
+  status: string;
+  amount: string;
+  completed_at: string | null;
+  user_id: string;
+  matched_elsewhere: boolean;
+  flagged_missing: boolean;
+}
+
+interface ItemRow {
+  id: string;
+  statement_id: string;
+  line_number: number | null;
+  provider: StatementProvider;
+  provider_reference: string | null;
+  merchant_reference: string | null;
+  payer_name: string | null;
+  statement_date: string | null;
+  transaction_id: string | null;
+  transaction_reference: string | null;
+  transaction_completed_at: string | null;
+  user_id: string | null;
+  invoice_id: string | null;
+  expected_amount: string;
+  actual_amount: string;
+  status: ReconciliationStatus;
+  match_method: ReconciliationMatchMethod | null;
+  discrepancy_reason: ReconciliationDiscrepancyReason | null;
+  notes: string | null;
+  reconciled_by: string | null;
+  reconciled_at: string | null;
+}
+
+interface AuditRow {
+  id: string;
+  action: ReconciliationAuditAction;
+  from_status: ReconciliationStatus | null;
+  to_status: ReconciliationStatus;
+  transaction_id: string | null;
+  actor_id: string;
+  notes: string | null;
+  created_at: string;
+}
+
+const mapStatement = (row: StatementRow): ReconciliationStatement => ({
+  id: row.id,
+  provider: row.provider,
+  fileName: row.file_name,
+  periodStart: row.period_start ?? undefined,
+  periodEnd: row.period_end ?? undefined,
+  lineCount: row.line_count,
+  skippedCount: row.skipped_count,
+  statementTotal: Number(row.statement_total),
+  uploadedBy: row.uploaded_by,
+  createdAt: row.created_at,
+  statusCounts: row.status_counts ?? undefined
+});
+
+const mapCandidate = (row: CandidateRow): MatchCandidate => ({
+  id: row.id,
+  transactionReference: row.transaction_reference,
+  providerReference: row.provider_reference,
+  paymentMethod: row.payment_method,
+  provider: row.provider,
+  status: row.status,
+  amount: Number(row.amount),
+  completedAt: row.completed_at,
+  userId: row.user_id,
+  matchedElsewhere: row.matched_elsewhere,
+  flaggedMissing: row.flagged_missing
+});
+
+const mapItem = (row: ItemRow): UnreconciledTransaction => {
+  const expectedAmount = Number(row.expected_amount);
+  const actualAmount = Number(row.actual_amount);
+  return {
+    id: row.id,
+    date: row.statement_date ?? row.transaction_completed_at ?? '',
+    transactionId: row.transaction_reference ?? row.merchant_reference ?? row.provider_reference ?? '',
+    invoiceId: row.invoice_id ?? undefined,
+    accountId: row.user_id ?? '',
+    accountName: row.payer_name ?? row.user_id ?? '',
+    expectedAmount,
+    actualAmount,
+    difference: Math.round((actualAmount - expectedAmount) * 100) / 100,
+    status: row.status,
+    paymentMethod: row.provider,
+    notes: row.notes ?? undefined,
+    reconciledBy: row.reconciled_by ?? undefined,
+    reconciledAt: row.reconciled_at ?? undefined,
+    statementId: row.statement_id,
+    lineNumber: row.line_number,
+    providerReference: row.provider_reference ?? undefined,
+    matchMethod: row.match_method ?? undefined,
+    discrepancyReason: row.discrepancy_reason ?? undefined
+  };
+};
+
+const mapAudit = (row: AuditRow): ReconciliationAuditEntry => ({
+  id: String(row.id),
+  action: row.action,
+  fromStatus: row.from_status,
+  toStatus: row.to_status,
+  transactionId: row.transaction_id ?? undefined,
+  actorId: row.actor_id,
+  notes: row.notes ?? undefined,
+  createdAt: row.created_at
+});
+
+const ITEM_SELECT = `
+  SELECT ri.*, pt.transaction_reference, pt.completed_at AS transaction_completed_at, pt.user_id
+  FROM reconciliation_items ri
+  LEFT JOIN payment_transactions pt ON pt.id = ri.transaction_id
+`;
+
+const CANDIDATE_SELECT = `
+  SELECT pt.id, pt.transaction_reference, pt.provider_reference, pt.payment_method, pt.provider, pt.status,
+         pt.amount, pt.completed_at, pt.user_id,
+         EXISTS (SELECT 1 FROM reconciliation_items ri
+                  WHERE ri.transaction_id = pt.id AND ri.line_number IS NOT NULL) AS matched_elsewhere,
+         EXISTS (SELECT 1 FROM reconciliation_items ri
+                  WHERE ri.transaction_id = pt.id AND ri.line_number IS NULL) AS flagged_missing
+  FROM payment_transactions pt
+`;
+
+// ============================================================================
+// STATEMENTS
+// ============================================================================
+
+/** Returns null when this exact file was already imported for the provider. */
+export async function insertStatement(
+  statement: {
+    provider: StatementProvider;
+    fileName: string;
+    fileHash: string;
+    periodStart: string | null;
+    periodEnd: string | null;
+    lineCount: number;
+    skippedCount: number;
+    statementTotal: number;
+    uploadedBy: string;
+  },
+  q: QueryFn
+): Promise<string | null> {
+  const { rows } = await q<{ id: string }>(`
+    INSERT INTO reconciliation_statements (
+      provider, file_name, file_hash, period_start, period_end, line_count, skipped_count, statement_total, uploaded_by
+    )
+    VALUES ($1,$2,$3,$4,$5,$6,$7,$8,$9)
+    ON CONFLICT (provider, file_hash) DO NOTHING
+    RETURNING id
+  `, [
+    statement.provider, statement.fileName, statement.fileHash, statement.periodStart, statement.periodEnd,
+    statement.lineCount, statement.skippedCount, statement.statementTotal, statement.uploadedBy
+  ]);
+  return rows[0]?.id ?? null;
+}
+
+export async function getStatement(id: string, q: QueryFn = query): Promise<ReconciliationStatement | null> {
+  const { rows } = await q<StatementRow>(`
+    SELECT rs.*,
+           (SELECT json_object_agg(s.status, s.count)
+              FROM (SELECT status, COUNT(*)::int AS count FROM reconciliation_items
+                     WHERE statement_id = rs.id GROUP BY status) s) AS status_counts
+    FROM reconciliation_statements rs
+    WHERE rs.id = $1
+  `, [id]);
+  return rows[0] ? mapStatement(rows[0]) : null;
+}
+
+export async function listStatements(
+  filters: { page: number; limit: number; provider?: StatementProvider }
+): Promise<{ statements: ReconciliationStatement[]; total: number }> {
+  const countResult = await query<{ total: string }>(`
+    SELECT COUNT(*) AS total FROM reconciliation_statements WHERE ($1::text IS NULL OR provider = $1)
+  `, [filters.provider ?? null]);
+
+  const { rows } = await query<StatementRow>(`
+    SELECT rs.*,
+           (SELECT json_object_agg(s.status, s.count)
+              FROM (SELECT status, COUNT(*)::int AS count FROM reconciliation_items
+                     WHERE statement_id = rs.id GROUP BY status) s) AS status_counts
+    FROM reconciliation_statements rs
+    WHERE ($1::text IS NULL OR rs.provider = $1)
+    ORDER BY rs.created_at DESC
+    LIMIT $2 OFFSET $3
+  `, [filters.provider ?? null, filters.limit, (filters.page - 1) * filters.limit]);
+
+  return {
+    statements: rows.map(mapStatement),
+    total: parseInt(countResult.rows[0]?.total || '0')
+  };
+}
+
+// ============================================================================
+// MATCHING
+// ============================================================================
+
+/**
+ * Completed (or since refunded) wallet payments settled through the provider in the window
+ * that are not yet reconciled or linked to an open statement line.
+ */
+export async function listMatchCandidates(
+  provider: string,
+  from: string,
+  to: string,
+  q: QueryFn
+): Promise<MatchCandidate[]> {
+  const { rows } = await q<CandidateRow>(`
+    ${CANDIDATE_SELECT}
+    WHERE pt.status IN ('completed', 'refunded')
+      AND pt.completed_at BETWEEN $2 AND $3
+      AND pt.provider = $1
+      AND NOT EXISTS (
+        SELECT 1 FROM reconciliation_items ri
+        WHERE ri.transaction_id = pt.id AND ri.line_number IS NOT NULL
+      )
+    ORDER BY pt.completed_at
+  `, [provider, from, to]);
+  return rows.map(mapCandidate);
+}
+
+// Looks up payments by id, our reference or the provider's reference, regardless of date or status
+export async function findCandidatesByReference(references: string[], q: QueryFn): Promise<MatchCandidate[]> {
+  if (references.length === 0) {
+    return [];
+  }
+  const { rows } = await q<CandidateRow>(`
+    ${CANDIDATE_SELECT}
+    WHERE pt.transaction_reference = ANY($1) OR pt.provider_reference = ANY($1) OR pt.id::text = ANY($1)
+  `, [references]);
+  return rows.map(mapCandidate);
+}
+
+export async function insertItem(
+  item: {
+    statementId: string;
+    lineNumber: number | null;
+    provider: StatementProvider;
+    providerReference: string | null;
+    merchantReference: string | null;
+    payerName: string | null;
+    statementDate: string | null;
+    transactionId: string | null;
+    expectedAmount: number;
+    actualAmount: number;
+    feeAmount: number;
+    status: ReconciliationStatus;
+    matchMethod: ReconciliationMatchMethod | null;
+    discrepancyReason: ReconciliationDiscrepancyReason | null;
+    reconciledBy: string | null;
+  },
+  q: QueryFn
+): Promise<string> {
+  const { rows } = await q<{ id: string }>(`
+    INSERT INTO reconciliation_items (
+      statement_id, line_number, provider, provider_reference, merchant_reference, payer_name, statement_date,
+      transaction_id, expected_amount, actual_amount, fee_amount, status, match_method, discrepancy_reason,
+      reconciled_by, reconciled_at
+    )
+    VALUES ($1,$2,$3,$4,$5,$6,$7,$8,$9,$10,$11,$12,$13,$14,$15,
+            CASE WHEN $12 = 'reconciled' THEN now() END)
+    RETURNING id
+  `, [
+    item.statementId, item.lineNumber, item.provider, item.providerReference, item.merchantReference,
+    item.payerName, item.statementDate, item.transactionId, item.expectedAmount, item.actualAmount,
+    item.feeAmount, item.status, item.matchMethod, item.discrepancyReason, item.reconciledBy
+  ]);
+  return rows[0].id;
+}
+
+/**
+ * Earlier 'missing_from_statement' items for transactions that have now turned up
+ * on a later statement. Returned locked so the caller can close them.
+ */
+export async function listOpenMissingItems(
+  transactionIds: string[],
+  q: QueryFn
+): Promise<UnreconciledTransaction[]> {
+  if (transactionIds.length === 0) {
+    return [];
+  }
+  const { rows } = await q<ItemRow>(`
+    ${ITEM_SELECT}
+    WHERE ri.transaction_id = ANY($1) AND ri.line_number IS NULL AND ri.status = 'discrepancy'
+    FOR UPDATE OF ri
+  `, [transactionIds]);
+  return rows.map(mapItem);
+}
+
+// ============================================================================
+// ITEMS
+// ============================================================================
+
+export async function getItem(
+  id: string,
+  q: QueryFn = query,
+  forUpdate = false
+): Promise<UnreconciledTransaction | null> {
+  const { rows } = await q<ItemRow>(`
+    ${ITEM_SELECT}
+    WHERE ri.id = $1
+    ${forUpdate ? 'FOR UPDATE OF ri' : ''}
+  `, [id]);
+  return rows[0] ? mapItem(rows[0]) : null;
+}
+
+export async function updateItem(
+  id: string,
+  update: {
+    status: ReconciliationStatus;
+    transactionId?: string | null;
+    expectedAmount?: number;
+    matchMethod?: ReconciliationMatchMethod | null;
+    discrepancyReason?: ReconciliationDiscrepancyReason | null;
+    invoiceId?: string | null;
+    notes?: string | null;
+    reconciledBy?: string | null;
+    clearMatch?: boolean;
+  },
+  q: QueryFn
+): Promise<void> {
+  await q(`
+    UPDATE reconciliation_items
+       SET status = $2,
+           transaction_id = CASE WHEN $10::boolean THEN NULL ELSE COALESCE($3, transaction_id) END,
+           expected_amount = CASE WHEN $10::boolean THEN 0 ELSE COALESCE($4, expected_amount) END,
+           match_method = CASE WHEN $10::boolean THEN NULL ELSE COALESCE($5, match_method) END,
+           discrepancy_reason = CASE WHEN $2 = 'reconciled' THEN NULL ELSE COALESCE($6, discrepancy_reason) END,
+           invoice_id = COALESCE($7, invoice_id),
+           notes = COALESCE($8, notes),
+           reconciled_by = CASE WHEN $2 = 'reconciled' THEN $9 ELSE NULL END,
+           reconciled_at = CASE WHEN $2 = 'reconciled' THEN now() ELSE NULL END,
+           updated_at = now()
+     WHERE id = $1
+  `, [
+    id, update.status, update.transactionId ?? null, update.expectedAmount ?? null, update.matchMethod ?? null,
+    update.discrepancyReason ?? null, update.invoiceId ?? null, update.notes ?? null,
+    update.reconciledBy ?? null, update.clearMatch ?? false
+  ]);
+}
+
+export async function listItems(
+  filters: ReconciliationItemFilters
+): Promise<{ items: UnreconciledTransaction[]; total: number }> {
+  const params = [
+    filters.status?.length ? filters.status : null,
+    filters.provider ?? null,
+    filters.statementId ?? null,
+    filters.accountId ?? null,
+    filters.dateFrom ?? null,
+    filters.dateTo ?? null
+  ];
+  const where = `
+    WHERE ($1::text[] IS NULL OR ri.status = ANY($1))
+      AND ($2::text IS NULL OR ri.provider = $2)
+      AND ($3::uuid IS NULL OR ri.statement_id = $3)
+      AND ($4::text IS NULL OR pt.user_id = $4)
+      AND ($5::date IS NULL OR COALESCE(ri.statement_date, pt.completed_at) >= $5::date)
+      AND ($6::date IS NULL OR COALESCE(ri.statement_date, pt.completed_at) < $6::date + 1)
+  `;
+
+  const countResult = await query<{ total: string }>(`
+    SELECT COUNT(*) AS total
+    FROM reconciliation_items ri
+    LEFT JOIN payment_transactions pt ON pt.id = ri.transaction_id
+    ${where}
+  `, params);
+
+  const { rows } = await query<ItemRow>(`
+    ${ITEM_SELECT}
+    ${where}
+    ORDER BY COALESCE(ri.statement_date, pt.completed_at) DESC, ri.line_number
+    LIMIT $7 OFFSET $8
+  `, [...params, filters.limit, (filters.page - 1) * filters.limit]);
+
+  return {
+    items: rows.map(mapItem),
+    total: parseInt(countResult.rows[0]?.total || '0')
+  };
+}
+
+export async function getReconciliationStats(): Promise<ReconciliationStats> {
+  const { rows } = await query<{
+    unreconciled_count: string;
+    unreconciled_amount: string | null;
+    discrepancy_count: string;
+    discrepancy_amount: string | null;
+    reconciled_today: string;
+    pending_review: string;
+  }>(`
+    SELECT
+      COUNT(*) FILTER (WHERE status <> 'reconciled') AS unreconciled_count,
+      SUM(GREATEST(actual_amount, expected_amount)) FILTER (WHERE status <> 'reconciled') AS unreconciled_amount,
+      COUNT(*) FILTER (WHERE status = 'discrepancy') AS discrepancy_count,
+      SUM(ABS(actual_amount - expected_amount)) FILTER (WHERE status = 'discrepancy') AS discrepancy_amount,
+      COUNT(*) FILTER (
+        WHERE status = 'reconciled'
+          AND (reconciled_at AT TIME ZONE 'Asia/Manila')::date = (now() AT TIME ZONE 'Asia/Manila')::date
+      ) AS reconciled_today,
+      COUNT(*) FILTER (WHERE status IN ('pending', 'disputed')) AS pending_review
+    FROM reconciliation_items
+  `);
+  const row = rows[0];
+  return {
+    unreconciledCount: parseInt(row?.unreconciled_count || '0'),
+    unreconciledAmount: Number(row?.unreconciled_amount ?? 0),
+    discrepancyCount: parseInt(row?.discrepancy_count || '0'),
+    discrepancyAmount: Number(row?.discrepancy_amount ?? 0),
+    reconciledToday: parseInt(row?.reconciled_today || '0'),
+    pendingReview: parseInt(row?.pending_review || '0')
+  };
+}
+
+// Totals for one Manila calendar day, as shown on /payments/reconciliation
+export async function getDailySummary(date: string): Promise<{
+  totalTransactions: number;
+  reconciledCount: number;
+  pendingCount: number;
+  discrepancyCount: number;
+  expectedTotal: number;
+  actualTotal: number;
+}> {
+  const { rows } = await query<{
+    total: string;
+    reconciled: string;
+    pending: string;
+    discrepancy: string;
+    expected_total: string | null;
+    actual_total: string | null;
+  }>(`
+    SELECT COUNT(*) AS total,
+           COUNT(*) FILTER (WHERE ri.status = 'reconciled') AS reconciled,
+           COUNT(*) FILTER (WHERE ri.status IN ('pending', 'disputed')) AS pending,
+           COUNT(*) FILTER (WHERE ri.status = 'discrepancy') AS discrepancy,
+           SUM(ri.expected_amount) AS expected_total,
+           SUM(ri.actual_amount) AS actual_total
+    FROM reconciliation_items ri
+    LEFT JOIN payment_transactions pt ON pt.id = ri.transaction_id
+    WHERE (COALESCE(ri.statement_date, pt.completed_at) AT TIME ZONE 'Asia/Manila')::date = $1::date
+  `, [date]);
+  const row = rows[0];
+  return {
+    totalTransactions: parseInt(row?.total || '0'),
+    reconciledCount: parseInt(row?.reconciled || '0'),
+    pendingCount: parseInt(row?.pending || '0'),
+    discrepancyCount: parseInt(row?.discrepancy || '0'),
+    expectedTotal: Number(row?.expected_total ?? 0),
+    actualTotal: Number(row?.actual_total ?? 0)
+  };
+}
+
+// ============================================================================
+// AUDIT TRAIL
+// ============================================================================
+
+export async function insertAudit(
+  itemId: string,
+  entry: {
+    action: ReconciliationAuditAction;
+    fromStatus: ReconciliationStatus | null;
+    toStatus: ReconciliationStatus;
+    transactionId?: string | null;
+    actorId: string;
+    notes?: string | null;
+  },
+  q: QueryFn
+): Promise<void> {
+  await q(`
+    INSERT INTO reconciliation_audit (item_id, action, from_status, to_status, transaction_id, actor_id, notes)
+    VALUES ($1,$2,$3,$4,$5,$6,$7)
+  `, [itemId, entry.action, entry.fromStatus, entry.toStatus, entry.transactionId ?? null, entry.actorId,
+    entry.notes ?? null]);
+}
+
+export async function listAudit(itemId: string): Promise<ReconciliationAuditEntry[]> {
+  const { rows } = await query<AuditRow>(`
+    SELECT * FROM reconciliation_audit WHERE item_id = $1 ORDER BY created_at, id
+  `, [itemId]);
+  return rows.map(mapAudit);
+}
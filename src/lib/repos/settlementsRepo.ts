@@ -0,0 +1,476 @@
+import { query } from '@/lib/db';
+import { QueryFn } from '@/lib/repos/ledgerRepo';
+import {
+  Settlement,
+  SettlementDeductionType,
+  SettlementDispute,
+  SettlementDisputeNote,
+  SettlementDisputeStatus,
+  SettlementFilters,
+  SettlementStatus
+} from '@/types/settlement';
+
+export interface UnsettledTrip {
+  booking_id: string;
+  booking_reference: string;
+  driver_id: string;
+  total_fare: string;
+  // The fare engine's driver share, when the trip was priced by it at completion
+  driver_earnings?: string | null;
+  completed_at: string;
+}
+
+export interface SettledTripLine {
+  bookingId: string;
+  bookingReference: string;
+  revenue: number;
+  commission: number;
+  netAmount: number;
+  completedAt: string;
+}
+
+export interface RecurringDeduction {
+  id: string;
+  driver_id: string;
+  deduction_type: Exclude<SettlementDeductionType, 'commission'>;
+  credit_account_code: string;
+  description: string;
+  amount_per_settlement: string;
+  remaining_amount: string;
+}
+
+interface SettlementRow {
+  id: string;
+  settlement_reference: string;
+  driver_id: string;
+  driver_name?: string;
+  settlement_date: string;
+  status: SettlementStatus;
+  total_revenue: string;
+  total_deductions: string;
+  net_amount: string;
+  trip_count: number;
+  journal_id: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+interface DisputeRow {
+  id: string;
+  settlement_id: string;
+  driver_id: string;
+  status: SettlementDisputeStatus;
+  reason: string;
+  details: string | null;
+  disputed_amount: string;
+  adjustment_amount: string | null;
+  raised_by: string;
+  raised_at: string;
+  reviewer_id: string | null;
+  resolution: string | null;
+  resolved_at: string | null;
+}
+
+interface DisputeNoteRow {
+  id: string;
+  dispute_id: string;
+  author_id: string;
+  from_status: SettlementDisputeStatus | null;
+  to_status: SettlementDisputeStatus | null;
+  note: string;
+  created_at: string;
+}
+
+const mapSettlement = (row: SettlementRow): Settlement => ({
+  id: row.id,
+  reference: row.settlement_reference,
+  driverId: row.driver_id,
+  driverName: row.driver_name ?? undefined,
+  settlementDate: row.settlement_date,
+  status: row.status,
+  totalRevenue: Number(row.total_revenue),
+  totalDeductions: Number(row.total_deductions),
+  netAmount: Number(row.net_amount),
+  tripCount: row.trip_count,
+  journalId: row.journal_id,
+  createdAt: row.created_at,
+  updatedAt: row.updated_at
+});
+
+const mapDispute = (row: DisputeRow): SettlementDispute => ({
+  id: row.id,
+  disputedEntityType: 'settlement',
+  disputedEntityId: row.settlement_id,
+  driverId: row.driver_id,
+  disputedAmount: Number(row.disputed_amount),
+  reason: row.reason,
+  details: row.details,
+  status: row.status,
+  adjustmentAmount: row.adjustment_amount === null ? null : Number(row.adjustment_amount),
+  raisedBy: row.raised_by,
+  raisedAt: row.raised_at,
+  resolvedBy: row.reviewer_id,
+  resolvedAt: row.resolved_at,
+  resolution: row.resolution
+});
+
+const mapDisputeNote = (row: DisputeNoteRow): SettlementDisputeNote => ({
+  id: String(row.id),
+  authorId: row.author_id,
+  fromStatus: row.from_status,
+  toStatus: row.to_status,
+  note: row.note,
+  createdAt: row.created_at
+});
+
+// ============================================================================
+// SETTLEMENTS
+// ============================================================================
+
+export async function listSettlements(
+  filters: SettlementFilters
+): Promise<{ settlements: Settlement[]; total: number }> {
+  const params = [
+    filters.driverId ?? null,
+    filters.status ?? null,
+    filters.dateFrom ?? null,
+    filters.dateTo ?? null
+  ];
+  const where = `
+    WHERE ($1::uuid IS NULL OR s.driver_id = $1)
+      AND ($2::text IS NULL OR s.status = $2)
+      AND ($3::date IS NULL OR s.settlement_date >= $3)
+      AND ($4::date IS NULL OR s.settlement_date <= $4)
+  `;
+
+  const countResult = await query<{ total: string }>(`
+    SELECT COUNT(*) AS total FROM driver_settlements s ${where}
+  `, params);
+
+  const { rows } = await query<SettlementRow>(`
+    SELECT s.*, to_char(s.settlement_date, 'YYYY-MM-DD') AS settlement_date,
+           d.first_name || ' ' || d.last_name AS driver_name
+    FROM driver_settlements s
+    JOIN drivers d ON d.id = s.driver_id
+    ${where}
+    ORDER BY s.settlement_date DESC, s.created_at DESC
+    LIMIT $5 OFFSET $6
+  `, [...params, filters.limit, (filters.page - 1) * filters.limit]);
+
+  return {
+    settlements: rows.map(mapSettlement),
+    total: parseInt(countResult.rows[0]?.total || '0')
+  };
+}
+
+export async function getSettlement(id: string, q: QueryFn = query): Promise<Settlement | null> {
+  const { rows } = await q<SettlementRow>(`
+    SELECT s.*, to_char(s.settlement_date, 'YYYY-MM-DD') AS settlement_date,
+           d.first_name || ' ' || d.last_name AS driver_name
+    FROM driver_settlements s
+    JOIN drivers d ON d.id = s.driver_id
+    WHERE s.id = $1
+  `, [id]);
+  return rows[0] ? mapSettlement(rows[0]) : null;
+}
+
+export async function getSettlementWithLines(id: string): Promise<Settlement | null> {
+  const settlement = await getSettlement(id);
+  if (!settlement) {
+    return null;
+  }
+
+  const [trips, deductions] = await Promise.all([
+    query(`
+      SELECT id, booking_reference, revenue, commission, net_amount, completed_at
+      FROM settlement_trips WHERE settlement_id = $1 ORDER BY completed_at
+    `, [id]),
+    query(`
+      SELECT id, deduction_type, amount, reason
+      FROM settlement_deductions WHERE settlement_id = $1 ORDER BY created_at
+    `, [id])
+  ]);
+
+  return {
+    ...settlement,
+    trips: trips.rows.map(row => ({
+      id: String(row.id),
+      tripNumber: row.booking_reference,
+      revenue: Number(row.revenue),
+      commission: Number(row.commission),
+      netAmount: Number(row.net_amount),
+      completedAt: row.completed_at
+    })),
+    deductions: deductions.rows.map(row => ({
+      id: row.id,
+      type: row.deduction_type,
+      amount: Number(row.amount),
+      reason: row.reason
+    }))
+  };
+}
+
+export async function setSettlementStatus(id: string, status: SettlementStatus, q: QueryFn = query): Promise<void> {
+  await q(`UPDATE driver_settlements SET status=$2, updated_at=now() WHERE id=$1`, [id, status]);
+}
+
+// ============================================================================
+// SETTLEMENT GENERATION
+// ============================================================================
+
+// Serialises settlement of one driver for the rest of the transaction, so overlapping runs never
+// settle the same trip; keyed by driver alone since a later date's run also takes earlier trips
+export async function lockDriverSettlement(driverId: string, q: QueryFn): Promise<void> {
+  await q("SELECT pg_advisory_xact_lock(hashtext('settlement_driver:' || $1))", [driverId]);
+}
+
+// Completed trips not yet attached to any settlement, up to the end of the given Manila business day
+export async function listUnsettledTrips(
+  settlementDate: string,
+  driverId: string | null = null,
+  q: QueryFn = query
+): Promise<UnsettledTrip[]> {
+  const { rows } = await q<UnsettledTrip>(`
+    SELECT b.id AS booking_id, b.booking_reference, b.driver_id, COALESCE(b.total_fare, 0) AS total_fare,
+           bf.driver_earnings, b.completed_at
+    FROM bookings b
+    LEFT JOIN booking_fares bf ON bf.booking_id = b.id
+    LEFT JOIN settlement_trips st ON st.booking_id = b.id
+    WHERE b.status = 'completed'
+      AND b.driver_id IS NOT NULL
+      AND b.completed_at IS NOT NULL
+      AND (b.completed_at AT TIME ZONE 'Asia/Manila')::date <= $1::date
+      AND st.id IS NULL
+      AND ($2::uuid IS NULL OR b.driver_id = $2)
+    ORDER BY b.driver_id, b.completed_at
+  `, [settlementDate, driverId]);
+  return rows;
+}
+
+export async function listActiveRecurringDeductions(
+  driverId: string,
+  q: QueryFn = query
+): Promise<RecurringDeduction[]> {
+  const { rows } = await q<RecurringDeduction>(`
+    SELECT * FROM driver_recurring_deductions
+    WHERE driver_id = $1 AND is_active AND remaining_amount > 0
+    ORDER BY created_at
+    FOR UPDATE
+  `, [driverId]);
+  return rows;
+}
+
+export async function consumeRecurringDeduction(id: string, amount: number, q: QueryFn): Promise<void> {
+  await q(`
+    UPDATE driver_recurring_deductions
+       SET remaining_amount = remaining_amount - $2,
+           is_active = (remaining_amount - $2) > 0,
+           updated_at = now()
+     WHERE id = $1
+  `, [id, amount]);
+}
+
+export async function insertRecurringDeduction(
+  deduction: {
+    driverId: string;
+    type: RecurringDeduction['deduction_type'];
+    creditAccountCode: string;
+    description: string;
+    amountPerSettlement: number;
+    totalAmount: number;
+    sourceType: string;
+    sourceId: string;
+  },
+  q: QueryFn
+): Promise<string> {
+  const { rows } = await q<{ id: string }>(`
+    INSERT INTO driver_recurring_deductions
+      (driver_id, deduction_type, credit_account_code, description, amount_per_settlement, remaining_amount,
+       source_type, source_id)
+    VALUES ($1,$2,$3,$4,$5,$6,$7,$8)
+    RETURNING id
+  `, [
+    deduction.driverId, deduction.type, deduction.creditAccountCode, deduction.description,
+    deduction.amountPerSettlement, deduction.totalAmount, deduction.sourceType, deduction.sourceId
+  ]);
+  return rows[0].id;
+}
+
+// Pauses or resumes a deduction; one with nothing left to take stays inactive
+export async function setRecurringDeductionActive(id: string, active: boolean, q: QueryFn): Promise<void> {
+  await q(`
+    UPDATE driver_recurring_deductions
+       SET is_active = $2 AND remaining_amount > 0, updated_at = now()
+     WHERE id = $1
+  `, [id, active]);
+}
+
+// Stops a deduction for good, writing off whatever it had left to collect
+export async function closeRecurringDeduction(id: string, q: QueryFn): Promise<void> {
+  await q(`
+    UPDATE driver_recurring_deductions
+       SET is_active = FALSE, remaining_amount = 0, updated_at = now()
+     WHERE id = $1
+  `, [id]);
+}
+
+export async function insertSettlement(
+  row: {
+    reference: string;
+    driverId: string;
+    settlementDate: string;
+    totalRevenue: number;
+    totalDeductions: number;
+    netAmount: number;
+    tripCount: number;
+  },
+  q: QueryFn
+): Promise<string | null> {
+  // ON CONFLICT makes concurrent or repeated runs for the same driver/day a no-op
+  const { rows } = await q<{ id: string }>(`
+    INSERT INTO driver_settlements
+      (settlement_reference, driver_id, settlement_date, total_revenue, total_deductions, net_amount, trip_count)
+    VALUES ($1,$2,$3,$4,$5,$6,$7)
+    ON CONFLICT (driver_id, settlement_date) DO NOTHING
+    RETURNING id
+  `, [
+    row.reference, row.driverId, row.settlementDate,
+    row.totalRevenue, row.totalDeductions, row.netAmount, row.tripCount
+  ]);
+  return rows[0]?.id ?? null;
+}
+
+export async function attachSettlementJournal(id: string, journalId: string, q: QueryFn): Promise<void> {
+  await q(`UPDATE driver_settlements SET journal_id=$2, updated_at=now() WHERE id=$1`, [id, journalId]);
+}
+
+export async function insertSettlementTrips(
+  settlementId: string,
+  trips: SettledTripLine[],
+  q: QueryFn
+): Promise<void> {
+  for (const trip of trips) {
+    await q(`
+      INSERT INTO settlement_trips
+        (settlement_id, booking_id, booking_reference, revenue, commission, net_amount, completed_at)
+      VALUES ($1,$2,$3,$4,$5,$6,$7)
+    `, [
+      settlementId, trip.bookingId, trip.bookingReference,
+      trip.revenue, trip.commission, trip.netAmount, trip.completedAt
+    ]);
+  }
+}
+
+export async function insertSettlementDeduction(
+  settlementId: string,
+  driverId: string,
+  deduction: { type: SettlementDeductionType; amount: number; reason: string; recurringDeductionId?: string },
+  q: QueryFn
+): Promise<void> {
+  await q(`
+    INSERT INTO settlement_deductions (settlement_id, driver_id, deduction_type, amount, reason, recurring_deduction_id)
+    VALUES ($1,$2,$3,$4,$5,$6)
+  `, [
+    settlementId, driverId, deduction.type, deduction.amount, deduction.reason,
+    deduction.recurringDeductionId ?? null
+  ]);
+}
+
+// ============================================================================
+// DISPUTES
+// ============================================================================
+
+export async function listDisputes(settlementId: string): Promise<SettlementDispute[]> {
+  const { rows } = await query<DisputeRow>(`
+    SELECT * FROM settlement_disputes WHERE settlement_id = $1 ORDER BY raised_at DESC
+  `, [settlementId]);
+  if (rows.length === 0) {
+    return [];
+  }
+
+  const notes = await query<DisputeNoteRow>(`
+    SELECT * FROM settlement_dispute_notes WHERE dispute_id = ANY($1::uuid[]) ORDER BY created_at
+  `, [rows.map(row => row.id)]);
+
+  return rows.map(row => ({
+    ...mapDispute(row),
+    notes: notes.rows.filter(note => note.dispute_id === row.id).map(mapDisputeNote)
+  }));
+}
+
+export async function getOpenDispute(settlementId: string, q: QueryFn = query): Promise<SettlementDispute | null> {
+  const { rows } = await q<DisputeRow>(`
+    SELECT * FROM settlement_disputes
+    WHERE settlement_id = $1 AND status IN ('pending', 'under_review')
+    ORDER BY raised_at DESC LIMIT 1
+    FOR UPDATE
+  `, [settlementId]);
+  return rows[0] ? mapDispute(rows[0]) : null;
+}
+
+export async function insertDispute(
+  dispute: {
+    settlementId: string;
+    driverId: string;
+    reason: string;
+    details?: string;
+    disputedAmount: number;
+    raisedBy: string;
+  },
+  q: QueryFn
+): Promise<SettlementDispute> {
+  const { rows } = await q<DisputeRow>(`
+    INSERT INTO settlement_disputes (settlement_id, driver_id, reason, details, disputed_amount, raised_by)
+    VALUES ($1,$2,$3,$4,$5,$6)
+    RETURNING *
+  `, [
+    dispute.settlementId, dispute.driverId, dispute.reason, dispute.details ?? null,
+    dispute.disputedAmount, dispute.raisedBy
+  ]);
+  return mapDispute(rows[0]);
+}
+
+export async function updateDisputeStatus(
+  id: string,
+  update: {
+    status: SettlementDisputeStatus;
+    reviewerId: string;
+    resolution?: string;
+    adjustmentAmount?: number | null;
+    adjustmentJournalId?: string | null;
+  },
+  q: QueryFn
+): Promise<SettlementDispute> {
+  const closed = update.status === 'resolved' || update.status === 'rejected';
+  const { rows } = await q<DisputeRow>(`
+    UPDATE settlement_disputes
+       SET status=$2, reviewer_id=$3,
+           resolution=CASE WHEN $4::boolean THEN $5 ELSE resolution END,
+           resolved_at=CASE WHEN $4::boolean THEN now() ELSE resolved_at END,
+           adjustment_amount=COALESCE($6, adjustment_amount),
+           adjustment_journal_id=COALESCE($7, adjustment_journal_id),
+           updated_at=now()
+     WHERE id=$1
+     RETURNING *
+  `, [id, update.status, update.reviewerId, closed, update.resolution ?? null,
+      update.adjustmentAmount ?? null, update.adjustmentJournalId ?? null]);
+  return mapDispute(rows[0]);
+}
+
+export async function insertDisputeNote(
+  disputeId: string,
+  note: {
+    authorId: string;
+    fromStatus?: SettlementDisputeStatus | null;
+    toStatus?: SettlementDisputeStatus | null;
+    note: string;
+  },
+  q: QueryFn = query
+): Promise<SettlementDisputeNote> {
+  const { rows } = await q<DisputeNoteRow>(`
+    INSERT INTO settlement_dispute_notes (dispute_id, author_id, from_status, to_status, note)
+    VALUES ($1,$2,$3,$4,$5)
+    RETURNING *
+  `, [disputeId, note.authorId, note.fromStatus ?? null, note.toStatus ?? null, note.note]);
+  return mapDisputeNote(rows[0]);
+}
@@ -0,0 +1,283 @@
+import { query } from '@/lib/db';
+import { QueryFn } from '@/lib/repos/ledgerRepo';
+import {
+  EmergencyResponseLogRecord,
+  SOS_ACTIVE_STATUSES,
+  SOSAlertEvent,
+  SOSAlertFilters,
+  SOSAlertRecord,
+  SOSAttachment,
+  SOSEmergencyType,
+  SOSEventType,
+  SOSReporterType,
+  SOSStatus,
+  SOSVehicleInfo
+} from '@/types/sos';
+
+interface SOSAlertRow {
+  id: string;
+  sos_code: string;
+  status: SOSStatus;
+  emergency_type: SOSEmergencyType;
+  severity: number;
+  triggered_at: string;
+  latitude: number;
+  longitude: number;
+  location_accuracy: string | null;
+  address: string | null;
+  region_id: string | null;
+  reporter_id: string;
+  reporter_type: SOSReporterType;
+  reporter_name: string | null;
+  reporter_phone: string | null;
+  driver_id: string | null;
+  booking_id: string | null;
+  vehicle_info: SOSVehicleInfo | null;
+  description: string | null;
+  attachments: SOSAttachment[] | null;
+  emergency_services_notified: string[] | null;
+  emergency_reference_numbers: Record<string, string> | null;
+  processing_time_ms: number | null;
+  response_time_ms: number | null;
+  acknowledged_at: string | null;
+  acknowledged_by: string | null;
+  escalation_level: number;
+  escalated_at: string | null;
+  resolved_at: string | null;
+  resolved_by: string | null;
+  resolution_notes: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+interface EventRow {
+  id: string;
+  sos_alert_id: string;
+  event_type: SOSEventType;
+  actor: string;
+  message: string | null;
+  data: Record<string, unknown> | null;
+  created_at: string;
+}
+
+// location is a PostGIS point; every read splits it back into coordinates
+const SOS_ALERT_COLUMNS = `
+  id, sos_code, status, emergency_type, severity, triggered_at,
+  ST_Y(location) AS latitude, ST_X(location) AS longitude, location_accuracy, address, region_id,
+  reporter_id, reporter_type, reporter_name, reporter_phone, driver_id, booking_id, vehicle_info,
+  description, attachments, emergency_services_notified, emergency_reference_numbers,
+  processing_time_ms, response_time_ms, acknowledged_at, acknowledged_by, escalation_level, escalated_at,
+  resolved_at, resolved_by, resolution_notes, created_at, updated_at
+`;
+
+const mapSOSAlert = (row: SOSAlertRow): SOSAlertRecord => ({
+  id: row.id,
+  sosCode: row.sos_code,
+  status: row.status,
+  emergencyType: row.emergency_type,
+  severity: row.severity,
+  triggeredAt: row.triggered_at,
+  location: {
+    latitude: Number(row.latitude),
+    longitude: Number(row.longitude),
+    accuracy: row.location_accuracy === null ? null : Number(row.location_accuracy),
+    address: row.address
+  },
+  regionId: row.region_id,
+  reporter: {
+    id: row.reporter_id,
+    type: row.reporter_type,
+    name: row.reporter_name,
+    phone: row.reporter_phone
+  },
+  driverId: row.driver_id,
+  bookingId: row.booking_id,
+  vehicleInfo: row.vehicle_info,
+  description: row.description,
+  attachments: row.attachments ?? [],
+  emergencyServicesNotified: row.emergency_services_notified ?? [],
+  emergencyReferenceNumbers: row.emergency_reference_numbers ?? {},
+  processingTimeMs: row.processing_time_ms,
+  responseTimeMs: row.response_time_ms,
+  acknowledgedAt: row.acknowledged_at,
+  acknowledgedBy: row.acknowledged_by,
+  escalationLevel: row.escalation_level,
+  escalatedAt: row.escalated_at,
+  resolvedAt: row.resolved_at,
+  resolvedBy: row.resolved_by,
+  resolutionNotes: row.resolution_notes,
+  createdAt: row.created_at,
+  updatedAt: row.updated_at
+});
+
+const mapEvent = (row: EventRow): SOSAlertEvent => ({
+  id: row.id,
+  sosAlertId: row.sos_alert_id,
+  eventType: row.event_type,
+  actor: row.actor,
+  message: row.message,
+  data: row.data ?? {},
+  createdAt: row.created_at
+});
+
+// ============================================================================
+// ALERTS
+// ============================================================================
+
+// Accepts either the row id or the SOS- code
+export async function getSOSAlert(idOrCode: string, q: QueryFn = query): Promise<SOSAlertRecord | null> {
+  const { rows } = await q<SOSAlertRow>(`
+    SELECT ${SOS_ALERT_COLUMNS} FROM sos_alerts WHERE id::text = $1 OR sos_code = $1
+  `, [idOrCode]);
+  return rows[0] ? mapSOSAlert(rows[0]) : null;
+}
+
+export async function listSOSAlerts(
+  filters: SOSAlertFilters
+): Promise<{ alerts: SOSAlertRecord[]; total: number }> {
+  const statuses = filters.status === 'active' ? SOS_ACTIVE_STATUSES : filters.status ? [filters.status] : null;
+  const params = [
+    statuses,
+    filters.regionId ?? null,
+    filters.driverId ?? null,
+    filters.bookingId ?? null
+  ];
+  const where = `
+    WHERE ($1::text[] IS NULL OR status::text = ANY($1))
+      AND ($2::uuid IS NULL OR region_id = $2)
+      AND ($3::uuid IS NULL OR driver_id = $3)
+      AND ($4::uuid IS NULL OR booking_id = $4)
+  `;
+
+  const countResult = await query<{ total: string }>(`
+    SELECT COUNT(*) AS total FROM sos_alerts ${where}
+  `, params);
+
+  // Most severe first, then the one waiting longest
+  const { rows } = await query<SOSAlertRow>(`
+    SELECT ${SOS_ALERT_COLUMNS} FROM sos_alerts
+    ${where}
+    ORDER BY severity DESC, triggered_at ${filters.status === 'active' ? 'ASC' : 'DESC'}
+    LIMIT $5 OFFSET $6
+  `, [...params, filters.limit, (filters.page - 1) * filters.limit]);
+
+  return {
+    alerts: rows.map(mapSOSAlert),
+    total: parseInt(countResult.rows[0]?.total || '0')
+  };
+}
+
+/**
+ * Each status change only applies while the alert is still in one of the statuses it
+ * may come from, so two operators acting at once cannot both win. Returns false when
+ * the alert had already moved on.
+ */
+export async function markSOSAcknowledged(
+  id: string,
+  acknowledgedBy: string,
+  responseTimeMs: number,
+  q: QueryFn = query
+): Promise<boolean> {
+  const { rows } = await q(`
+    UPDATE sos_alerts
+    SET status = 'acknowledged', acknowledged_at = now(), acknowledged_by = $2,
+        response_time_ms = $3, updated_at = now()
+    WHERE id = $1 AND status IN ('triggered', 'processing', 'dispatched')
+    RETURNING id
+  `, [id, acknowledgedBy, responseTimeMs]);
+  return rows.length > 0;
+}
+
+// Returns the new escalation level, or null when the alert is already closed
+export async function markSOSEscalated(id: string, q: QueryFn = query): Promise<number | null> {
+  const { rows } = await q<{ escalation_level: number }>(`
+    UPDATE sos_alerts
+    SET escalation_level = escalation_level + 1, escalated_at = now(), updated_at = now()
+    WHERE id = $1 AND status::text = ANY($2)
+    RETURNING escalation_level
+  `, [id, SOS_ACTIVE_STATUSES]);
+  return rows[0]?.escalation_level ?? null;
+}
+
+export async function markSOSResolved(
+  id: string,
+  status: 'resolved' | 'false_alarm',
+  resolvedBy: string,
+  resolutionNotes: string,
+  q: QueryFn = query
+): Promise<boolean> {
+  const { rows } = await q(`
+    UPDATE sos_alerts
+    SET status = $2, resolved_at = now(), resolved_by = $3, resolution_notes = $4, updated_at = now()
+    WHERE id = $1 AND status::text = ANY($5)
+    RETURNING id
+  `, [id, status, resolvedBy, resolutionNotes, SOS_ACTIVE_STATUSES]);
+  return rows.length > 0;
+}
+
+export async function appendSOSAttachments(
+  id: string,
+  attachments: SOSAttachment[],
+  q: QueryFn = query
+): Promise<void> {
+  await q(`
+    UPDATE sos_alerts SET attachments = COALESCE(attachments, '[]'::jsonb) || $2::jsonb, updated_at = now()
+    WHERE id = $1
+  `, [id, JSON.stringify(attachments)]);
+}
+
+// ============================================================================
+// EVENTS
+// ============================================================================
+
+export async function insertSOSEvent(
+  event: {
+    sosAlertId: string;
+    eventType: SOSEventType;
+    actor: string;
+    message?: string | null;
+    data?: Record<string, unknown>;
+  },
+  q: QueryFn = query
+): Promise<SOSAlertEvent> {
+  const { rows } = await q<EventRow>(`
+    INSERT INTO sos_alert_events (sos_alert_id, event_type, actor, message, data)
+    VALUES ($1,$2,$3,$4,$5)
+    RETURNING *
+  `, [event.sosAlertId, event.eventType, event.actor, event.message ?? null, JSON.stringify(event.data ?? {})]);
+  return mapEvent(rows[0]);
+}
+
+export async function listSOSEvents(sosAlertId: string, q: QueryFn = query): Promise<SOSAlertEvent[]> {
+  const { rows } = await q<EventRow>(`
+    SELECT * FROM sos_alert_events WHERE sos_alert_id = $1 ORDER BY created_at, id
+  `, [sosAlertId]);
+  return rows.map(mapEvent);
+}
+
+// ============================================================================
+// EMERGENCY RESPONSES
+// ============================================================================
+
+export async function listEmergencyResponseLogs(
+  sosAlertId: string,
+  q: QueryFn = query
+): Promise<EmergencyResponseLogRecord[]> {
+  const { rows } = await q<{
+    id: string;
+    response_code: string;
+    status: string;
+    response_log: EmergencyResponseLogRecord['entries'] | null;
+  }>(`
+    SELECT id, response_code, status, response_log
+    FROM emergency_responses
+    WHERE sos_alert_id = $1
+    ORDER BY triggered_at
+  `, [sosAlertId]);
+  return rows.map(row => ({
+    responseId: row.id,
+    responseCode: row.response_code,
+    status: row.status,
+    entries: row.response_log ?? []
+  }));
+}
@@ -0,0 +1,182 @@
+import { query } from '@/lib/db';
+import { QueryFn } from '@/lib/repos/ledgerRepo';
+import { NewTripLocationSegment, TripLocationSegment, TripPhase } from '@/types/tripTracking';
+
+interface SegmentRow {
+  id: string;
+  booking_id: string;
+  driver_id: string;
+  trip_phase: TripPhase;
+  minute_start: string;
+  started_at: string;
+  ended_at: string;
+  point_count: number;
+  polyline: string;
+  time_offsets_ms: number[];
+  speeds_kmh: (number | null)[];
+  distance_m: string;
+  expires_at: string;
+}
+
+interface TripBookingRow {
+  id: string;
+  driver_id: string;
+  status: string;
+  window_start: string;
+  actual_pickup_time: string | null;
+  completed_at: string | null;
+}
+
+// A booking a driver is working on, with the times that split its path into phases
+export interface TripBooking {
+  bookingId: string;
+  driverId: string;
+  status: string;
+  windowStart: string;                 // assignment, or the earliest time we know of
+  pickedUpAt: string | null;
+  endedAt: string | null;              // completed or cancelled
+}
+
+const mapSegment = (row: SegmentRow): TripLocationSegment => ({
+  id: row.id,
+  bookingId: row.booking_id,
+  driverId: row.driver_id,
+  phase: row.trip_phase,
+  minuteStart: row.minute_start,
+  startedAt: row.started_at,
+  endedAt: row.ended_at,
+  pointCount: row.point_count,
+  polyline: row.polyline,
+  timeOffsetsMs: row.time_offsets_ms,
+  speedsKmh: row.speeds_kmh,
+  distanceM: Number(row.distance_m),
+  expiresAt: row.expires_at
+});
+
+const mapTripBooking = (row: TripBookingRow): TripBooking => ({
+  bookingId: row.id,
+  driverId: row.driver_id,
+  status: row.status,
+  windowStart: row.window_start,
+  pickedUpAt: row.actual_pickup_time,
+  endedAt: row.completed_at
+});
+
+// ============================================================================
+// BOOKINGS
+// ============================================================================
+
+const TRIP_BOOKING_COLUMNS = `
+  id, driver_id, status::text AS status,
+  COALESCE(assigned_at, accepted_at, created_at) AS window_start,
+  actual_pickup_time, COALESCE(completed_at, cancelled_at) AS completed_at
+`;
+
+/**
+ * Bookings the drivers are on now, plus ones that ended after `endedSince` so points
+ * buffered before the trip was closed still reach it. Pooled rides give one driver
+ * several bookings at once.
+ */
+export async function listTripBookingsForDrivers(
+  driverIds: string[],
+  endedSince: string,
+  q: QueryFn = query
+): Promise<TripBooking[]> {
+  const { rows } = await q<TripBookingRow>(`
+    SELECT ${TRIP_BOOKING_COLUMNS}
+    FROM bookings
+    WHERE driver_id = ANY($1::uuid[])
+      AND (
+        status IN ('assigned', 'accepted', 'en_route', 'arrived', 'in_progress')
+        OR COALESCE(completed_at, cancelled_at) >= $2
+      )
+  `, [driverIds, endedSince]);
+  return rows.map(mapTripBooking);
+}
+
+export async function getTripBooking(bookingId: string, q: QueryFn = query): Promise<TripBooking | null> {
+  const { rows } = await q<TripBookingRow>(`
+    SELECT ${TRIP_BOOKING_COLUMNS} FROM bookings WHERE id = $1
+  `, [bookingId]);
+  return rows[0] ? mapTripBooking(rows[0]) : null;
+}
+
+// ============================================================================
+// SEGMENTS
+// ============================================================================
+
+// Returns how many segments were new; re-sent segments are skipped
+export async function insertSegments(segments: NewTripLocationSegment[], q: QueryFn = query): Promise<number> {
+  if (segments.length === 0) {
+    return 0;
+  }
+
+  const values = segments.map((_, index) => {
+    const offset = index * 12;
+    const placeholders = Array.from({ length: 12 }, (__, column) => `$${offset + column + 1}`);
+    return `(${placeholders.join(',')})`;
+  }).join(',');
+
+  const { rows } = await q<{ id: string }>(`
+    INSERT INTO trip_location_segments
+      (booking_id, driver_id, trip_phase, minute_start, started_at, ended_at, point_count,
+       polyline, time_offsets_ms, speeds_kmh, distance_m, expires_at)
+    VALUES ${values}
+    ON CONFLICT (booking_id, started_at) DO NOTHING
+    RETURNING id
+  `, segments.flatMap(segment => [
+    segment.bookingId, segment.driverId, segment.phase, segment.minuteStart, segment.startedAt,
+    segment.endedAt, segment.pointCount, segment.polyline, segment.timeOffsetsMs, segment.speedsKmh,
+    segment.distanceM, segment.expiresAt
+  ]));
+  return rows.length;
+}
+
+export async function listSegments(
+  bookingId: string,
+  filters: { phase?: TripPhase; from?: string; to?: string } = {},
+  q: QueryFn = query
+): Promise<TripLocationSegment[]> {
+  const { rows } = await q<SegmentRow>(`
+    SELECT * FROM trip_location_segments
+    WHERE booking_id = $1
+      AND ($2::text IS NULL OR trip_phase = $2)
+      AND ($3::timestamptz IS NULL OR ended_at >= $3)
+      AND ($4::timestamptz IS NULL OR started_at <= $4)
+    ORDER BY started_at
+  `, [bookingId, filters.phase ?? null, filters.from ?? null, filters.to ?? null]);
+  return rows.map(mapSegment);
+}
+
+// Latest stored segment per booking, so the next one can carry on its distance
+export async function listLastSegments(bookingIds: string[], q: QueryFn = query): Promise<TripLocationSegment[]> {
+  if (bookingIds.length === 0) {
+    return [];
+  }
+  const { rows } = await q<SegmentRow>(`
+    SELECT DISTINCT ON (booking_id) * FROM trip_location_segments
+    WHERE booking_id = ANY($1::uuid[])
+    ORDER BY booking_id, started_at DESC
+  `, [bookingIds]);
+  return rows.map(mapSegment);
+}
+
+/**
+ * Deletes up to `limit` expired segments and returns how many went. Bookings with an
+ * incident still open are held past expiry so the investigation keeps its GPS trace.
+ */
+export async function purgeExpiredSegments(now: string, limit: number, q: QueryFn = query): Promise<number> {
+  const { rows } = await q<{ id: string }>(`
+    DELETE FROM trip_location_segments
+    WHERE id IN (
+      SELECT s.id FROM trip_location_segments s
+      WHERE s.expires_at <= $1
+        AND NOT EXISTS (
+          SELECT 1 FROM incidents i WHERE i.booking_id = s.booking_id AND i.closed_at IS NULL
+        )
+      LIMIT $2
+    )
+    RETURNING id
+  `, [now, limit]);
+  return rows.length;
+}
@@ -2,12 +2,24 @@
 // High-performance driver-passenger matching with <30 second assignment guarantee
 
 import { getDatabase } from './database';
+import type { TransactionContext } from './database/connection-manager';
 import { redis } from './redis';
+import {
+  createPoolTrip,
+  getBookingStops,
+  loadPoolRoutes,
+  setBookingRoute,
+  setPoolRoute
+} from './tripStops';
 import { getWebSocketManager } from './websocket';
+import { AssignmentTotals, planBatchAssignment } from '@/lib/matching/batchAssignment';
+import { PoolConstraints, RouteStop, distanceKm, planPoolInsertion } from '@/lib/matching/pooling';
 import { logger } from '@/lib/security/productionLogger';
 
 const db = getDatabase();
 
+type MatchingMode = 'greedy' | 'batch';
+
 // Matching algorithm configuration
 interface MatchingConfig {
   maxSearchRadius: number; // km
@@ -21,10 +33,18 @@ interface MatchingConfig {
     eta: number;
   };
   serviceTypeCompatibility: Record<string, string[]>;
+  offerTimeoutSeconds: number; // how long a driver has to accept an offer
+  maxOffersPerMatch: number; // best candidate plus alternatives offered in turn
+  matchingMode: MatchingMode; // batch assigns a window of requests per region together
+  regionMatchingModes: Record<string, MatchingMode>; // per-region overrides of matchingMode
+  batchWindowMs: number; // how long a region collects requests before solving the batch
+  maxBatchSize: number; // a full batch is solved without waiting for the window
+  pooling: PoolConstraints; // limits for adding a pooled rider to a running trip
+  reservationHoldMinutes: number; // drivers due to leave for a scheduled pickup this soon get no new rides
 }
 
 // Default high-performance matching configuration
-const DEFAULT_MATCHING_CONFIG: MatchingConfig = {
+export const DEFAULT_MATCHING_CONFIG: MatchingConfig = {
   maxSearchRadius: 15, // 15km max search radius
   maxAssignmentTime: 30, // 30 seconds max assignment time
   expandRadiusSteps: [2, 5, 8, 12, 15], // Gradual radius expansion
@@ -38,12 +58,61 @@ const DEFAULT_MATCHING_CONFIG: MatchingConfig = {
   serviceTypeCompatibility: {
     'ride_4w': ['ride_4w'],
     'ride_2w': ['ride_2w', 'ride_4w'], // 4-wheel can handle 2-wheel requests
+    'ride_pool': ['ride_pool', 'ride_4w'], // a pool trip starts in any free 4-wheel car
     'send_delivery': ['send_delivery'],
     'eats_delivery': ['eats_delivery', 'send_delivery'],
     'mart_delivery': ['mart_delivery', 'send_delivery']
+  },
+  offerTimeoutSeconds: 15,
+  maxOffersPerMatch: 5,
+  matchingMode: 'greedy',
+  regionMatchingModes: {},
+  batchWindowMs: 2000,
+  maxBatchSize: 50,
+  pooling: {
+    maxDetourMinutes: 8,
+    maxDetourRatio: 0.5,
+    maxPickupEtaMinutes: 12,
+    seatCapacity: 3,
+    averageSpeedKmh: 25
+  },
+  reservationHoldMinutes: 30
+};
+
+const isMatchingMode = (value: string): value is MatchingMode => value === 'greedy' || value === 'batch';
+
+// RIDE_MATCHING_MODE sets the default mode, RIDE_MATCHING_MODE_BY_REGION overrides it as NCR:batch,BORA:greedy
+export const matchingConfigFromEnv = (env: Record<string, string | undefined> = process.env): MatchingConfig => {
+  const mode = (env.RIDE_MATCHING_MODE ?? '').trim();
+  if (mode && !isMatchingMode(mode)) {
+    logger.warn('Ignoring unknown RIDE_MATCHING_MODE', { mode });
+  }
+
+  const regionMatchingModes: Record<string, MatchingMode> = {};
+  for (const entry of (env.RIDE_MATCHING_MODE_BY_REGION ?? '').split(',')) {
+    if (!entry.trim()) {
+      continue;
+    }
+    const [regionId, regionMode = ''] = entry.split(':').map(part => part.trim());
+    if (!regionId || !isMatchingMode(regionMode)) {
+      logger.warn('Ignoring malformed RIDE_MATCHING_MODE_BY_REGION entry', { entry });
+      continue;
+    }
+    regionMatchingModes[regionId] = regionMode;
   }
+
+  return {
+    ...DEFAULT_MATCHING_CONFIG,
+    matchingMode: isMatchingMode(mode) ? mode : DEFAULT_MATCHING_CONFIG.matchingMode,
+    regionMatchingModes
+  };
 };
 
+// Offers need this many recent responses before the offer log replaces the daily acceptance rate
+const MIN_OFFERS_FOR_ACCEPTANCE_RATE = 5;
+
+const BATCH_SUMMARY_TTL_SECONDS = 8 * 24 * 3600;
+
 // Driver candidate for matching
 interface DriverCandidate {
   id: string;
@@ -70,6 +139,15 @@ interface DriverCandidate {
   distanceKm: number;
   estimatedArrival: number; // minutes
   matchingScore: number;
+  pool?: PoolPlacement; // set when the rider would join the driver's running pool trip
+}
+
+// Where a pooled rider fits into a running pool trip
+interface PoolPlacement {
+  poolTripId: string;
+  routeVersion: number; // the route the placement was planned against
+  route: string[]; // remaining stop ids in route order, the new rider's included
+  addedMinutes: number;
 }
 
 // Ride request for matching
@@ -94,6 +172,76 @@ interface RideRequest {
   specialRequirements?: string[];
   maxWaitTime?: number; // minutes
   customerRating?: number;
+  seats?: number; // pooled rides only
+}
+
+export type RideOfferStatus = 'pending' | 'accepted' | 'declined' | 'expired' | 'cancelled';
+
+// One row of the offer log
+export interface RideOffer {
+  id: string;
+  bookingId: string;
+  driverId: string;
+  driverName?: string;
+  matchId: string;
+  sequence: number;
+  status: RideOfferStatus;
+  matchingScore: number | null;
+  distanceKm: number | null;
+  etaMinutes: number | null;
+  offeredAt: string;
+  expiresAt: string;
+  respondedAt: string | null;
+  declineReason: string | null;
+  poolTripId: string | null;
+  poolRouteVersion: number | null;
+  poolRoute: string[] | null;
+}
+
+export type RideOfferResponse = { action: 'accept' } | { action: 'decline'; reason?: string };
+
+// What happened when a candidate was offered the ride; skipped candidates were never offered
+interface RideOfferOutcome {
+  driverId: string;
+  offerId?: string;
+  status: RideOfferStatus | 'skipped';
+  reason?: string;
+}
+
+// Candidates found by the radius search, best first
+interface CandidateSearch {
+  ranked: DriverCandidate[];
+  searchRadius: number;
+  totalCandidatesEvaluated: number;
+}
+
+// Batch outcome next to what first-come assignment would have achieved on the same requests
+interface BatchMatchingMetrics {
+  batchId: string;
+  regionId: string;
+  requests: number;
+  drivers: number;
+  optimal: AssignmentTotals;
+  greedy: AssignmentTotals;
+  etaSavedMinutes: number;
+}
+
+// Batches solved in a region on one day
+export interface BatchMatchingSummary {
+  regionId: string;
+  date: string;
+  batches: number;
+  requests: number;
+  optimal: AssignmentTotals;
+  greedy: AssignmentTotals;
+  etaSavedMinutes: number;
+}
+
+// A request waiting for its region's batch to be solved
+interface BatchEntry {
+  rideRequest: RideRequest;
+  startTime: number;
+  resolve: (result: MatchingResult) => void;
 }
 
 // Matching result
@@ -107,11 +255,57 @@ interface MatchingResult {
   failureReason?: string;
   retryRecommended?: boolean;
   estimatedPickupTime?: string;
+  offers?: RideOfferOutcome[];
+  batch?: BatchMatchingMetrics;
+}
+
+interface RideOfferRow {
+  id: string;
+  booking_id: string;
+  driver_id: string;
+  driver_name?: string;
+  match_id: string;
+  sequence: number;
+  status: RideOfferStatus;
+  matching_score: string | null;
+  distance_km: string | null;
+  eta_minutes: number | null;
+  offered_at: string;
+  expires_at: string;
+  responded_at: string | null;
+  decline_reason: string | null;
+  pool_trip_id: string | null;
+  pool_route_version: number | null;
+  pool_route: string[] | null;
 }
 
+const optionalNumber = (value: string | null) => (value === null ? null : parseFloat(value));
+
+const mapRideOffer = (row: RideOfferRow): RideOffer => ({
+  id: row.id,
+  bookingId: row.booking_id,
+  driverId: row.driver_id,
+  driverName: row.driver_name,
+  matchId: row.match_id,
+  sequence: row.sequence,
+  status: row.status,
+  matchingScore: optionalNumber(row.matching_score),
+  distanceKm: optionalNumber(row.distance_km),
+  etaMinutes: row.eta_minutes,
+  offeredAt: row.offered_at,
+  expiresAt: row.expires_at,
+  respondedAt: row.responded_at,
+  declineReason: row.decline_reason,
+  poolTripId: row.pool_trip_id ?? null,
+  poolRouteVersion: row.pool_route_version ?? null,
+  poolRoute: row.pool_route ?? null
+});
+
 export class RideMatchingEngine {
   private config: MatchingConfig;
   private activeMatches: Map<string, NodeJS.Timeout> = new Map();
+  private offerWaiters: Map<string, (offer: RideOffer) => void> = new Map();
+  private pendingBatches: Map<string, { entries: BatchEntry[]; timer: NodeJS.Timeout }> = new Map();
 
   constructor(config: MatchingConfig = DEFAULT_MATCHING_CONFIG) {
     this.config = config;
@@ -119,30 +313,19 @@ export class RideMatchingEngine {
 
   // Main matching function with performance guarantee
   async matchRideToDriver(rideRequest: RideRequest): Promise<MatchingResult> {
+    const mode = this.config.regionMatchingModes[rideRequest.regionId] ?? this.config.matchingMode;
+    if (mode === 'batch') {
+      return this.enqueueForBatch(rideRequest);
+    }
+
     const startTime = Date.now();
     const matchingId = `match_${rideRequest.id}_${startTime}`;
 
     try {
-      // Set timeout for maximum assignment time
-      const timeoutPromise = new Promise<MatchingResult>((_, reject) => {
-        const timeout = setTimeout(() => {
-          reject(new Error('Matching timeout exceeded'));
-        }, this.config.maxAssignmentTime * 1000);
-        this.activeMatches.set(matchingId, timeout);
-      });
+      const search = await this.searchCandidates(rideRequest, matchingId, startTime);
 
-      // Main matching logic
-      const matchingPromise = this.performMatching(rideRequest, startTime);
-
-      // Race between matching and timeout
-      const result = await Promise.race([matchingPromise, timeoutPromise]);
-      
-      // Clean up timeout
-      const timeout = this.activeMatches.get(matchingId);
-      if (timeout) {
-        clearTimeout(timeout);
-        this.activeMatches.delete(matchingId);
-      }
+      // Offers run on their own timeouts: each driver gets offerTimeoutSeconds to respond
+      const result = await this.runOfferCascade(search, rideRequest, matchingId, startTime);
 
       // Log matching performance
       await this.logMatchingPerformance(rideRequest, result, startTime);
@@ -150,33 +333,149 @@ export class RideMatchingEngine {
       return result;
 
     } catch (error) {
-      const matchingTimeMs = Date.now() - startTime;
-      
+      return this.matchingFailure(error, startTime);
+    }
+  }
+
+  // Candidate search bounded by maxAssignmentTime
+  private async searchCandidates(
+    rideRequest: RideRequest,
+    matchingId: string,
+    startTime: number
+  ): Promise<CandidateSearch> {
+    // Set timeout for maximum candidate search time
+    const timeoutPromise = new Promise<CandidateSearch>((_, reject) => {
+      const timeout = setTimeout(() => {
+        reject(new Error('Matching timeout exceeded'));
+      }, this.config.maxAssignmentTime * 1000);
+      this.activeMatches.set(matchingId, timeout);
+    });
+
+    try {
+      // Race between matching and timeout
+      return await Promise.race([this.performMatching(rideRequest, startTime), timeoutPromise]);
+    } finally {
       // Clean up timeout
       const timeout = this.activeMatches.get(matchingId);
       if (timeout) {
         clearTimeout(timeout);
         this.activeMatches.delete(matchingId);
       }
+    }
+  }
 
-      logger.error('Ride matching failed', error instanceof Error ? error.message : error);
-      
-      return {
-        success: false,
-        matchingTimeMs,
-        searchRadius: 0,
-        totalCandidatesEvaluated: 0,
-        failureReason: (error as Error).message,
-        retryRecommended: matchingTimeMs < this.config.maxAssignmentTime * 1000
-      };
+  private matchingFailure(error: unknown, startTime: number): MatchingResult {
+    const matchingTimeMs = Date.now() - startTime;
+    logger.error('Ride matching failed', error instanceof Error ? error.message : error);
+
+    return {
+      success: false,
+      matchingTimeMs,
+      searchRadius: 0,
+      totalCandidatesEvaluated: 0,
+      failureReason: (error as Error).message,
+      retryRecommended: matchingTimeMs < this.config.maxAssignmentTime * 1000
+    };
+  }
+
+  // Batch mode: hold the request until its region's window closes or the batch is full
+  private enqueueForBatch(rideRequest: RideRequest): Promise<MatchingResult> {
+    return new Promise(resolve => {
+      const entry: BatchEntry = { rideRequest, startTime: Date.now(), resolve };
+      const pending = this.pendingBatches.get(rideRequest.regionId);
+
+      if (pending) {
+        pending.entries.push(entry);
+      } else {
+        const timer = setTimeout(() => this.flushBatch(rideRequest.regionId), this.config.batchWindowMs);
+        this.pendingBatches.set(rideRequest.regionId, { entries: [entry], timer });
+      }
+
+      if ((pending?.entries.length ?? 1) >= this.config.maxBatchSize) {
+        this.flushBatch(rideRequest.regionId);
+      }
+    });
+  }
+
+  private flushBatch(regionId: string): void {
+    const pending = this.pendingBatches.get(regionId);
+    if (!pending) {
+      return;
+    }
+    clearTimeout(pending.timer);
+    this.pendingBatches.delete(regionId);
+
+    this.matchBatch(regionId, pending.entries).catch(error => {
+      pending.entries.forEach(entry => entry.resolve(this.matchingFailure(error, entry.startTime)));
+    });
+  }
+
+  /**
+   * Solves one region's batch as a bipartite assignment over all its requests and the
+   * drivers they can reach, scored with the same weights as single matching. Each request
+   * is offered its assigned driver first, then alternatives no other request in the batch got.
+   */
+  private async matchBatch(regionId: string, entries: BatchEntry[]): Promise<void> {
+    const batchId = `batch_${regionId}_${Date.now()}`;
+
+    const searches: (CandidateSearch | null)[] = [];
+    for (const entry of entries) {
+      try {
+        searches.push(await this.searchCandidates(entry.rideRequest, `${batchId}_${entry.rideRequest.id}`, entry.startTime));
+      } catch (error) {
+        entry.resolve(this.matchingFailure(error, entry.startTime));
+        searches.push(null);
+      }
     }
+
+    const rankings = searches.map(search => search?.ranked ?? []);
+    const plan = planBatchAssignment(rankings);
+    const metrics: BatchMatchingMetrics = {
+      batchId,
+      regionId,
+      requests: entries.length,
+      drivers: new Set(rankings.flat().map(candidate => candidate.id)).size,
+      optimal: plan.optimal,
+      greedy: plan.greedy,
+      etaSavedMinutes: plan.greedy.totalEtaMinutes - plan.optimal.totalEtaMinutes
+    };
+    await this.logBatchMetrics(metrics);
+
+    const claimed = new Set(plan.assignments.flatMap(candidate => (candidate ? [candidate.id] : [])));
+
+    await Promise.all(entries.map(async (entry, index) => {
+      const search = searches[index];
+      if (!search) {
+        return;
+      }
+      const matchingId = `${batchId}_${entry.rideRequest.id}`;
+      const assigned = plan.assignments[index];
+      const alternatives = search.ranked.filter(candidate => !claimed.has(candidate.id));
+
+      try {
+        const result = await this.runOfferCascade(
+          { ...search, ranked: assigned ? [assigned, ...alternatives] : alternatives },
+          entry.rideRequest,
+          matchingId,
+          entry.startTime
+        );
+        result.batch = metrics;
+        await this.logMatchingPerformance(entry.rideRequest, result, entry.startTime);
+        entry.resolve(result);
+      } catch (error) {
+        entry.resolve(this.matchingFailure(error, entry.startTime));
+      }
+    }));
   }
 
-  // Core matching algorithm with progressive radius expansion
-  private async performMatching(rideRequest: RideRequest, startTime: number): Promise<MatchingResult> {
+  // Candidate search with progressive radius expansion
+  private async performMatching(rideRequest: RideRequest, startTime: number): Promise<CandidateSearch> {
     let totalCandidatesEvaluated = 0;
-    let bestMatch: DriverCandidate | undefined;
-    let alternativeDrivers: DriverCandidate[] = [];
+    let ranked: DriverCandidate[] = [];
+    let searchRadius = this.config.maxSearchRadius;
+
+    // Drivers who were already offered this booking are not asked again
+    const alreadyOffered = await this.getOfferedDriverIds(rideRequest.id);
 
     // Progressive radius expansion for optimal performance
     for (const radius of this.config.expandRadiusSteps) {
@@ -185,7 +484,8 @@ export class RideMatchingEngine {
         break; // Time limit exceeded
       }
 
-      const candidates = await this.findDriverCandidates(rideRequest, radius);
+      const candidates = (await this.findDriverCandidates(rideRequest, radius))
+        .filter(candidate => !alreadyOffered.has(candidate.id));
       totalCandidatesEvaluated += candidates.length;
 
       if (candidates.length === 0) {
@@ -200,64 +500,386 @@ export class RideMatchingEngine {
       );
 
       if (scoredCandidates.length > 0) {
-        bestMatch = scoredCandidates[0];
-        alternativeDrivers = scoredCandidates.slice(1, 5); // Top 5 alternatives
+        ranked = scoredCandidates;
+        searchRadius = radius;
 
-        // If we have a high-quality match, assign immediately
-        if (bestMatch.matchingScore >= 80 || radius <= 5) {
-          const assignmentResult = await this.assignDriverToRide(bestMatch, rideRequest);
-          
-          if (assignmentResult.success) {
-            return {
-              success: true,
-              assignedDriver: bestMatch,
-              alternativeDrivers,
-              matchingTimeMs: Date.now() - startTime,
-              searchRadius: radius,
-              totalCandidatesEvaluated,
-              estimatedPickupTime: new Date(Date.now() + bestMatch.estimatedArrival * 60000).toISOString()
-            };
-          }
-          // If assignment failed, try alternatives
+        // If we have a high-quality match, start offering immediately
+        if (ranked[0].matchingScore >= 80 || radius <= 5) {
+          break;
         }
       }
 
       // If no good matches at small radius, continue expanding
-      if (bestMatch && bestMatch.matchingScore >= 70 && radius >= 8) {
+      if (ranked.length > 0 && ranked[0].matchingScore >= 70 && radius >= 8) {
         break; // Good enough match found, no need to search further
       }
     }
 
-    // Final assignment attempt with best available match
-    if (bestMatch) {
-      const assignmentResult = await this.assignDriverToRide(bestMatch, rideRequest);
-      
+    // Pooled riders join a running trip when one fits, and start a new one otherwise
+    if (rideRequest.serviceType === 'ride_pool') {
+      const pooled = (await this.findPoolCandidates(rideRequest, startTime))
+        .filter(candidate => !alreadyOffered.has(candidate.id));
+      totalCandidatesEvaluated += pooled.length;
+      ranked = [...pooled, ...ranked];
+    }
+
+    return { ranked, searchRadius, totalCandidatesEvaluated };
+  }
+
+  /**
+   * Offers the ride to the best candidate, then to each alternative in turn when a
+   * driver declines or lets the offer expire. The booking is only assigned once a
+   * driver accepts; every offer and its outcome stays in the offer log.
+   */
+  private async runOfferCascade(
+    search: CandidateSearch,
+    rideRequest: RideRequest,
+    matchingId: string,
+    startTime: number
+  ): Promise<MatchingResult> {
+    const { ranked, searchRadius, totalCandidatesEvaluated } = search;
+    if (ranked.length === 0) {
+      // No drivers found
       return {
-        success: assignmentResult.success,
-        assignedDriver: assignmentResult.success ? bestMatch : undefined,
-        alternativeDrivers,
+        success: false,
+        alternativeDrivers: [],
         matchingTimeMs: Date.now() - startTime,
         searchRadius: this.config.maxSearchRadius,
         totalCandidatesEvaluated,
-        failureReason: assignmentResult.success ? undefined : assignmentResult.reason,
-        retryRecommended: !assignmentResult.success && totalCandidatesEvaluated > 0,
-        estimatedPickupTime: assignmentResult.success ? 
-          new Date(Date.now() + bestMatch.estimatedArrival * 60000).toISOString() : undefined
+        failureReason: 'No available drivers found in search area',
+        retryRecommended: true,
+        offers: []
       };
     }
 
-    // No drivers found
+    const cascade = ranked.slice(0, this.config.maxOffersPerMatch);
+    const offers: RideOfferOutcome[] = [];
+
+    for (const [index, candidate] of cascade.entries()) {
+      const outcome = await this.offerRideToDriver(candidate, rideRequest, matchingId, index + 1);
+      offers.push(outcome);
+
+      if (outcome.status === 'accepted') {
+        await this.broadcastRideAssignment(candidate, rideRequest);
+        return {
+          success: true,
+          assignedDriver: candidate,
+          alternativeDrivers: cascade.slice(index + 1),
+          matchingTimeMs: Date.now() - startTime,
+          searchRadius,
+          totalCandidatesEvaluated,
+          estimatedPickupTime: new Date(Date.now() + candidate.estimatedArrival * 60000).toISOString(),
+          offers
+        };
+      }
+
+      // The booking was cancelled or assigned by a dispatcher meanwhile
+      if (outcome.reason === 'booking_unavailable') {
+        break;
+      }
+    }
+
     return {
       success: false,
       alternativeDrivers: [],
       matchingTimeMs: Date.now() - startTime,
-      searchRadius: this.config.maxSearchRadius,
+      searchRadius,
       totalCandidatesEvaluated,
-      failureReason: 'No available drivers found in search area',
-      retryRecommended: true
+      failureReason: this.describeCascadeFailure(offers),
+      retryRecommended: !offers.some(offer => offer.reason === 'booking_unavailable'),
+      offers
+    };
+  }
+
+  // Why a booking is still searching after its offers, e.g. "No driver accepted: 2 declined, 1 expired"
+  private describeCascadeFailure(offers: RideOfferOutcome[]): string {
+    if (offers.some(offer => offer.reason === 'booking_unavailable')) {
+      return 'Booking is no longer searching for a driver';
+    }
+    const counts = new Map<string, number>();
+    offers.forEach(offer => counts.set(offer.status, (counts.get(offer.status) || 0) + 1));
+    const summary = Array.from(counts, ([status, count]) => `${count} ${status}`).join(', ');
+    return `No driver accepted: ${summary}`;
+  }
+
+  // Offer the ride to one driver and wait for the answer or the offer timeout
+  private async offerRideToDriver(
+    candidate: DriverCandidate,
+    rideRequest: RideRequest,
+    matchingId: string,
+    sequence: number
+  ): Promise<RideOfferOutcome> {
+    const created = await this.createOffer(candidate, rideRequest, matchingId, sequence);
+    if ('skipped' in created) {
+      return { driverId: candidate.id, status: 'skipped', reason: created.skipped };
+    }
+
+    const offer = created.offer;
+    const wsManager = getWebSocketManager();
+    wsManager?.onRideOfferResponse((driverId, response) =>
+      this.respondToOffer(response.offerId, driverId, response.action === 'accept'
+        ? { action: 'accept' }
+        : { action: 'decline', reason: response.reason }));
+
+    const delivered = wsManager?.sendRideOffer({
+      offerId: offer.id,
+      rideId: rideRequest.id,
+      bookingReference: rideRequest.bookingReference,
+      driverId: candidate.id,
+      serviceType: rideRequest.serviceType,
+      pickupLocation: rideRequest.pickupLocation,
+      dropoffLocation: rideRequest.dropoffLocation,
+      surgeMultiplier: rideRequest.surgeMultiplier,
+      distanceKm: candidate.distanceKm,
+      etaMinutes: candidate.estimatedArrival,
+      expiresAt: offer.expiresAt,
+      regionId: rideRequest.regionId,
+      poolTripId: candidate.pool?.poolTripId,
+      addedMinutes: candidate.pool ? Math.ceil(candidate.pool.addedMinutes) : undefined
+    }) ?? false;
+
+    // An offer the driver never received is withdrawn rather than counted against them
+    const settled = delivered
+      ? await this.awaitOfferResponse(offer)
+      : await this.closeOffer(offer.id, 'cancelled', 'driver_offline') ?? offer;
+
+    wsManager?.broadcastRideOfferStatus({
+      offerId: settled.id,
+      rideId: rideRequest.id,
+      bookingReference: rideRequest.bookingReference,
+      driverId: candidate.id,
+      sequence,
+      status: settled.status,
+      reason: settled.declineReason ?? undefined,
+      regionId: rideRequest.regionId
+    });
+
+    return {
+      driverId: candidate.id,
+      offerId: settled.id,
+      status: settled.status,
+      reason: settled.declineReason ?? undefined
     };
   }
 
+  // Log a pending offer, provided the booking is still searching and the driver is free
+  private async createOffer(
+    candidate: DriverCandidate,
+    rideRequest: RideRequest,
+    matchingId: string,
+    sequence: number
+  ): Promise<{ offer: RideOffer } | { skipped: string }> {
+    try {
+      return await db.transaction(async (client) => {
+        // Offers whose engine went away before they expired must not block the driver or booking
+        await client.query(`
+          UPDATE ride_offers
+          SET status = 'expired', responded_at = NOW(), decline_reason = 'no_response'
+          WHERE status = 'pending' AND expires_at <= NOW() AND (driver_id = $1 OR booking_id = $2)
+        `, [candidate.id, rideRequest.id]);
+
+        const booking = await client.query(`
+          SELECT status, driver_id,
+            EXISTS (SELECT 1 FROM ride_offers ro WHERE ro.booking_id = b.id AND ro.status = 'pending') AS has_pending_offer
+          FROM bookings b
+          WHERE b.id = $1
+          FOR UPDATE
+        `, [rideRequest.id]);
+        const bookingRow = booking.rows[0];
+        if (!bookingRow || bookingRow.status !== 'searching' || bookingRow.driver_id || bookingRow.has_pending_offer) {
+          return { skipped: 'booking_unavailable' };
+        }
+
+        const available = candidate.pool
+          ? await this.isPoolTripOpen(client, candidate.id, candidate.pool)
+          : await this.isDriverAvailable(client, candidate.id);
+        if (!available) {
+          return { skipped: 'driver_unavailable' };
+        }
+
+        const inserted = await client.query(`
+          INSERT INTO ride_offers
+            (booking_id, driver_id, match_id, sequence, matching_score, distance_km, eta_minutes, expires_at,
+             pool_trip_id, pool_route_version, pool_route)
+          VALUES ($1, $2, $3, $4, $5, $6, $7, NOW() + make_interval(secs => $8), $9, $10, $11)
+          RETURNING *
+        `, [
+          rideRequest.id, candidate.id, matchingId, sequence, candidate.matchingScore.toFixed(2),
+          candidate.distanceKm.toFixed(3), candidate.estimatedArrival, this.config.offerTimeoutSeconds,
+          candidate.pool?.poolTripId ?? null, candidate.pool?.routeVersion ?? null,
+          candidate.pool ? JSON.stringify(candidate.pool.route) : null
+        ]);
+        return { offer: mapRideOffer(inserted.rows[0]) };
+      });
+    } catch (error) {
+      // Usually a concurrent match offering the same driver first
+      logger.error('Failed to create ride offer', error instanceof Error ? error.message : error);
+      return { skipped: 'driver_unavailable' };
+    }
+  }
+
+  // Driver is active, online and has no open booking or offer
+  private async isDriverAvailable(client: TransactionContext, driverId: string): Promise<boolean> {
+    const driverCheck = await client.query(`
+      SELECT d.status, dl.is_available,
+        (SELECT COUNT(*) FROM bookings b 
+         WHERE b.driver_id = d.id 
+           AND b.status IN ('assigned', 'accepted', 'en_route', 'arrived', 'in_progress')
+        ) as active_bookings,
+        EXISTS (SELECT 1 FROM ride_offers ro WHERE ro.driver_id = d.id AND ro.status = 'pending') as has_pending_offer
+      FROM drivers d
+      LEFT JOIN driver_locations dl ON d.id = dl.driver_id
+      WHERE d.id = $1 AND dl.expires_at > NOW()
+    `, [driverId]);
+
+    const driverStatus = driverCheck.rows[0];
+    return Boolean(driverStatus) &&
+      driverStatus.status === 'active' &&
+      driverStatus.is_available &&
+      Number(driverStatus.active_bookings) === 0 &&
+      !driverStatus.has_pending_offer;
+  }
+
+  // The driver's pool trip is still running on the route the placement was planned against
+  private async isPoolTripOpen(client: TransactionContext, driverId: string, pool: PoolPlacement): Promise<boolean> {
+    const trip = await client.query(`
+      SELECT pt.status, pt.route_version,
+        EXISTS (SELECT 1 FROM ride_offers ro WHERE ro.driver_id = pt.driver_id AND ro.status = 'pending')
+          AS has_pending_offer
+      FROM pool_trips pt
+      WHERE pt.id = $1 AND pt.driver_id = $2
+    `, [pool.poolTripId, driverId]);
+    const row = trip.rows[0];
+    return Boolean(row) && row.status === 'active' && row.route_version === pool.routeVersion && !row.has_pending_offer;
+  }
+
+  // Resolves with the settled offer once the driver responds, or expires it at the timeout
+  private awaitOfferResponse(offer: RideOffer): Promise<RideOffer> {
+    return new Promise(resolve => {
+      const timer = setTimeout(async () => {
+        this.offerWaiters.delete(offer.id);
+        const expired = await this.closeOffer(offer.id, 'expired', 'no_response');
+        if (expired) {
+          getWebSocketManager()?.closeRideOffer({
+            offerId: offer.id,
+            rideId: offer.bookingId,
+            driverId: offer.driverId,
+            reason: 'expired'
+          });
+          resolve(expired);
+          return;
+        }
+        // The driver answered through another server just before the timeout
+        resolve(await this.getRideOffer(offer.id) ?? { ...offer, status: 'expired', declineReason: 'no_response' });
+      }, this.config.offerTimeoutSeconds * 1000);
+
+      this.offerWaiters.set(offer.id, (settled) => {
+        clearTimeout(timer);
+        this.offerWaiters.delete(offer.id);
+        resolve(settled);
+      });
+    });
+  }
+
+  // Close a still-pending offer; null when it was already settled
+  private async closeOffer(
+    offerId: string,
+    status: Extract<RideOfferStatus, 'expired' | 'cancelled'>,
+    reason: string
+  ): Promise<RideOffer | null> {
+    try {
+      const result = await db.query(`
+        UPDATE ride_offers
+        SET status = $2, responded_at = NOW(), decline_reason = $3
+        WHERE id = $1 AND status = 'pending'
+        RETURNING *
+      `, [offerId, status, reason]);
+      return result.rows[0] ? mapRideOffer(result.rows[0]) : null;
+    } catch (error) {
+      logger.error('Failed to close ride offer', error instanceof Error ? error.message : error);
+      return null;
+    }
+  }
+
+  /**
+   * A driver's answer to an offer, from the driver app socket or the offers API.
+   * Accepting assigns the booking in the same transaction; an offer can only be
+   * answered once and only before it expires.
+   */
+  async respondToOffer(offerId: string, driverId: string, response: RideOfferResponse): Promise<RideOffer> {
+    const offer = await db.transaction(async (client) => {
+      const current = await client.query(`
+        SELECT *, expires_at <= NOW() AS lapsed FROM ride_offers
+        WHERE id = $1 AND driver_id = $2
+        FOR UPDATE
+      `, [offerId, driverId]);
+      const row = current.rows[0];
+      if (!row) {
+        throw new Error('offer_not_found');
+      }
+      if (row.status !== 'pending') {
+        throw new Error('offer_not_pending');
+      }
+      if (row.lapsed) {
+        throw new Error('offer_expired');
+      }
+
+      if (response.action === 'decline') {
+        return this.settleOffer(client, offerId, 'declined', response.reason || 'declined');
+      }
+
+      const assigned = await this.assignDriverToRide(client, mapRideOffer(row));
+      return assigned.success
+        ? this.settleOffer(client, offerId, 'accepted', null)
+        : this.settleOffer(client, offerId, 'cancelled', assigned.reason ?? 'booking_unavailable');
+    });
+
+    this.offerWaiters.get(offerId)?.(offer);
+    logger.info('Ride offer answered', { offerId, driverId, bookingId: offer.bookingId, status: offer.status });
+    return offer;
+  }
+
+  private async settleOffer(
+    client: TransactionContext,
+    offerId: string,
+    status: RideOfferStatus,
+    reason: string | null
+  ): Promise<RideOffer> {
+    const result = await client.query(`
+      UPDATE ride_offers SET status = $2, responded_at = NOW(), decline_reason = $3
+      WHERE id = $1
+      RETURNING *
+    `, [offerId, status, reason]);
+    return mapRideOffer(result.rows[0]);
+  }
+
+  // Offer log for a booking, oldest first, for dispatchers
+  async getRideOffers(bookingId: string): Promise<RideOffer[]> {
+    const result = await db.query(`
+      SELECT ro.*, d.first_name || ' ' || d.last_name AS driver_name
+      FROM ride_offers ro
+      JOIN drivers d ON d.id = ro.driver_id
+      WHERE ro.booking_id = $1
+      ORDER BY ro.offered_at, ro.sequence
+    `, [bookingId]);
+    return result.rows.map(mapRideOffer);
+  }
+
+  private async getRideOffer(offerId: string): Promise<RideOffer | null> {
+    const result = await db.query('SELECT * FROM ride_offers WHERE id = $1', [offerId]);
+    return result.rows[0] ? mapRideOffer(result.rows[0]) : null;
+  }
+
+  private async getOfferedDriverIds(bookingId: string): Promise<Set<string>> {
+    try {
+      const result = await db.query('SELECT DISTINCT driver_id FROM ride_offers WHERE booking_id = $1', [bookingId]);
+      return new Set(result.rows.map((row: { driver_id: string }) => row.driver_id));
+    } catch (error) {
+      logger.error('Error loading previous ride offers', error instanceof Error ? error.message : error);
+      return new Set();
+    }
+  }
+
   // High-performance driver candidate finding with spatial indexing
   private async findDriverCandidates(
     rideRequest: RideRequest, 
@@ -307,8 +929,14 @@ export class RideMatchingEngine {
             ST_GeogFromText(ST_AsText(dl.location))
           ) / 1000 as distance_km,
           
-          -- Performance metrics for scoring
+          -- Performance metrics for scoring: recent offer responses once there are enough of them
           COALESCE(
+            (SELECT 100.0 * COUNT(*) FILTER (WHERE ro.status = 'accepted') / COUNT(*)
+             FROM ride_offers ro
+             WHERE ro.driver_id = d.id
+               AND ro.status IN ('accepted', 'declined', 'expired')
+               AND ro.offered_at >= NOW() - INTERVAL '7 days'
+             HAVING COUNT(*) >= $6),
             (SELECT dp.acceptance_rate 
              FROM driver_performance_daily dp 
              WHERE dp.driver_id = d.id 
@@ -324,7 +952,21 @@ export class RideMatchingEngine {
             WHERE b.driver_id = d.id 
               AND b.status IN ('assigned', 'accepted', 'en_route', 'arrived', 'in_progress')
             LIMIT 1
-          ) as current_booking_id
+          ) as current_booking_id,
+
+          -- Check for an open offer on another booking
+          EXISTS (
+            SELECT 1 FROM ride_offers ro
+            WHERE ro.driver_id = d.id AND ro.status = 'pending' AND ro.expires_at > NOW()
+          ) as has_pending_offer,
+
+          -- Check for a scheduled pickup the driver has to leave for soon
+          EXISTS (
+            SELECT 1 FROM scheduled_rides sr
+            WHERE sr.reserved_driver_id = d.id
+              AND sr.status = 'reserved'
+              AND sr.dispatch_at < NOW() + make_interval(mins => $7)
+          ) as has_upcoming_reservation
           
         FROM drivers d
         JOIN driver_locations dl ON d.id = dl.driver_id
@@ -348,11 +990,14 @@ export class RideMatchingEngine {
         rideRequest.pickupLocation.latitude,
         rideRequest.regionId,
         compatibleServices,
-        radiusKm * 1000 // Convert to meters
+        radiusKm * 1000, // Convert to meters
+        MIN_OFFERS_FOR_ACCEPTANCE_RATE,
+        this.config.reservationHoldMinutes
       ]);
 
+      // Exclude busy, already-offered and soon-reserved drivers
       const candidates: DriverCandidate[] = result.rows
-        .filter(row => !row.current_booking_id) // Exclude drivers with active bookings
+        .filter(row => !row.current_booking_id && !row.has_pending_offer && !row.has_upcoming_reservation)
         .map(row => ({
           id: row.id,
           driverCode: row.driver_code,
@@ -390,6 +1035,131 @@ export class RideMatchingEngine {
     }
   }
 
+  /**
+   * Drivers running a pool trip in the region who can pick this rider up without breaking
+   * the detour, pickup ETA or seat limits. Candidates with the smallest added detour come first.
+   */
+  private async findPoolCandidates(rideRequest: RideRequest, startTime: number): Promise<DriverCandidate[]> {
+    try {
+      // Only simple pickup-to-dropoff bookings can be pooled
+      const stops = await getBookingStops(rideRequest.id);
+      const pickupStop = stops.find(stop => stop.stopType === 'pickup');
+      const dropoffStop = stops.find(stop => stop.stopType === 'dropoff');
+      if (!pickupStop || !dropoffStop || stops.some(stop => stop.stopType === 'waypoint')) {
+        return [];
+      }
+
+      const result = await db.query(`
+        SELECT DISTINCT ON (pt.id)
+          pt.id as pool_trip_id,
+          pt.route_version,
+          d.id,
+          d.driver_code,
+          d.first_name,
+          d.last_name,
+          d.phone,
+          d.rating,
+          d.total_trips,
+          d.services,
+          d.vehicle_info,
+          ST_X(dl.location) as longitude,
+          ST_Y(dl.location) as latitude,
+          dl.address,
+          dl.accuracy,
+          dl.bearing,
+          dl.speed,
+          dl.recorded_at,
+          COALESCE(
+            (SELECT dp.acceptance_rate
+             FROM driver_performance_daily dp
+             WHERE dp.driver_id = d.id
+               AND dp.performance_date >= CURRENT_DATE - INTERVAL '7 days'
+             ORDER BY dp.performance_date DESC
+             LIMIT 1),
+            95.0
+          ) as acceptance_rate
+        FROM pool_trips pt
+        JOIN drivers d ON d.id = pt.driver_id
+        JOIN driver_locations dl ON dl.driver_id = d.id
+        WHERE pt.region_id = $1
+          AND pt.status = 'active'
+          AND d.is_active = TRUE
+          AND dl.recorded_at > NOW() - INTERVAL '2 minutes'
+          AND NOT EXISTS (
+            SELECT 1 FROM ride_offers ro
+            WHERE ro.driver_id = d.id AND ro.status = 'pending' AND ro.expires_at > NOW()
+          )
+        ORDER BY pt.id, dl.recorded_at DESC
+      `, [rideRequest.regionId]);
+
+      if (result.rows.length === 0) {
+        return [];
+      }
+
+      const seats = rideRequest.seats ?? 1;
+      const toRouteStop = (stop: typeof pickupStop): RouteStop => ({
+        id: stop.id,
+        bookingId: stop.bookingId,
+        stopType: stop.stopType,
+        latitude: stop.latitude,
+        longitude: stop.longitude,
+        seats
+      });
+      const routes = await loadPoolRoutes(result.rows.map(row => row.pool_trip_id));
+
+      const candidates: DriverCandidate[] = [];
+      for (const row of result.rows) {
+        const location = { latitude: parseFloat(row.latitude), longitude: parseFloat(row.longitude) };
+        const route = routes.get(row.pool_trip_id) ?? { remaining: [], onboardSeats: 0 };
+        const insertion = planPoolInsertion(
+          location, route.remaining, route.onboardSeats,
+          toRouteStop(pickupStop), toRouteStop(dropoffStop), this.config.pooling
+        );
+        if (!insertion) {
+          continue;
+        }
+
+        candidates.push({
+          id: row.id,
+          driverCode: row.driver_code,
+          name: `${row.first_name} ${row.last_name}`,
+          phone: row.phone,
+          rating: parseFloat(row.rating),
+          totalTrips: parseInt(row.total_trips),
+          acceptanceRate: parseFloat(row.acceptance_rate),
+          services: row.services,
+          location: {
+            ...location,
+            address: row.address,
+            accuracy: row.accuracy,
+            bearing: row.bearing,
+            speed: row.speed,
+            lastUpdated: row.recorded_at
+          },
+          status: 'busy',
+          isAvailable: false,
+          vehicle: row.vehicle_info || {},
+          distanceKm: distanceKm(location, pickupStop),
+          estimatedArrival: Math.ceil(insertion.pickupEtaMinutes),
+          matchingScore: 0,
+          pool: {
+            poolTripId: row.pool_trip_id,
+            routeVersion: row.route_version,
+            route: insertion.route.map(stop => stop.id),
+            addedMinutes: insertion.addedMinutes
+          }
+        });
+      }
+
+      const scored = await this.scoreAndRankCandidates(candidates, rideRequest, Date.now() - startTime);
+      return scored.sort((a, b) => (a.pool?.addedMinutes ?? 0) - (b.pool?.addedMinutes ?? 0));
+
+    } catch (error) {
+      logger.error('Error finding pool candidates', error instanceof Error ? error.message : error);
+      return [];
+    }
+  }
+
   // Advanced candidate scoring with multiple factors
   private async scoreAndRankCandidates(
     candidates: DriverCandidate[],
@@ -458,72 +1228,120 @@ export class RideMatchingEngine {
     });
   }
 
-  // Atomic driver assignment with conflict resolution
+  // Atomic driver assignment for an accepted offer, inside the offer's transaction
   private async assignDriverToRide(
-    driver: DriverCandidate,
-    rideRequest: RideRequest
+    client: TransactionContext,
+    offer: RideOffer
   ): Promise<{ success: boolean; reason?: string }> {
-    try {
-      // Use database transaction for atomic assignment
-      const result = await db.transaction(async (client) => {
-        // Double-check driver availability (race condition protection)
-        const driverCheck = await client.query(`
-          SELECT d.status, dl.is_available,
-            (SELECT COUNT(*) FROM bookings b 
-             WHERE b.driver_id = d.id 
-               AND b.status IN ('assigned', 'accepted', 'en_route', 'arrived', 'in_progress')
-            ) as active_bookings
-          FROM drivers d
-          LEFT JOIN driver_locations dl ON d.id = dl.driver_id
-          WHERE d.id = $1 AND dl.expires_at > NOW()
-        `, [driver.id]);
-
-        const driverStatus = driverCheck.rows[0];
-        if (!driverStatus || driverStatus.status !== 'active' || !driverStatus.is_available || driverStatus.active_bookings > 0) {
-          throw new Error('Driver no longer available');
-        }
+    if (offer.poolTripId) {
+      return this.addRiderToPoolTrip(client, offer);
+    }
 
-        // Assign driver to ride
-        await client.query(`
-          UPDATE bookings 
-          SET 
-            driver_id = $1,
-            status = 'assigned',
-            assigned_at = NOW(),
-            estimated_pickup_time = NOW() + INTERVAL '${driver.estimatedArrival} minutes',
-            updated_at = NOW()
-          WHERE id = $2 AND driver_id IS NULL AND status = 'searching'
-        `, [driver.id, rideRequest.id]);
-
-        // Update driver status to busy
-        await client.query(`
-          UPDATE drivers 
-          SET status = 'busy', updated_at = NOW()
-          WHERE id = $1
-        `, [driver.id]);
+    // Double-check driver availability (race condition protection); the driver's own offer is still pending
+    const driverCheck = await client.query(`
+      SELECT d.status,
+        (SELECT COUNT(*) FROM bookings b 
+         WHERE b.driver_id = d.id 
+           AND b.status IN ('assigned', 'accepted', 'en_route', 'arrived', 'in_progress')
+        ) as active_bookings
+      FROM drivers d
+      WHERE d.id = $1
+    `, [offer.driverId]);
+
+    const driverStatus = driverCheck.rows[0];
+    if (!driverStatus || driverStatus.status !== 'active' || Number(driverStatus.active_bookings) > 0) {
+      return { success: false, reason: 'driver_unavailable' };
+    }
 
-        // Mark driver as unavailable in location table
-        await client.query(`
-          UPDATE driver_locations 
-          SET is_available = FALSE, updated_at = NOW()
-          WHERE driver_id = $1 AND expires_at > NOW()
-        `, [driver.id]);
+    // Assign driver to ride; the driver has already accepted
+    const assigned = await client.query(`
+      UPDATE bookings 
+      SET 
+        driver_id = $1,
+        status = 'accepted',
+        assigned_at = NOW(),
+        accepted_at = NOW(),
+        estimated_pickup_time = NOW() + make_interval(mins => $3),
+        updated_at = NOW()
+      WHERE id = $2 AND driver_id IS NULL AND status = 'searching'
+      RETURNING id, service_type, region_id
+    `, [offer.driverId, offer.bookingId, offer.etaMinutes ?? 0]);
+
+    if (assigned.rows.length === 0) {
+      return { success: false, reason: 'booking_unavailable' };
+    }
 
-        return { success: true };
-      });
+    // The driver follows the booking's own stops, or opens a pool trip others can join
+    const booking = assigned.rows[0];
+    if (booking.service_type === 'ride_pool') {
+      const poolTripId = await createPoolTrip(
+        client, offer.driverId, booking.region_id, this.config.pooling.seatCapacity
+      );
+      await client.query('UPDATE bookings SET pool_trip_id = $1 WHERE id = $2', [poolTripId, offer.bookingId]);
+      const stops = await getBookingStops(offer.bookingId, client);
+      await setPoolRoute(client, poolTripId, stops.map(stop => stop.id));
+    } else {
+      await setBookingRoute(client, offer.bookingId);
+    }
 
-      // Broadcast assignment via WebSocket
-      await this.broadcastRideAssignment(driver, rideRequest);
+    // Update driver status to busy
+    await client.query(`
+      UPDATE drivers 
+      SET status = 'busy', updated_at = NOW()
+      WHERE id = $1
+    `, [offer.driverId]);
+
+    // Mark driver as unavailable in location table
+    await client.query(`
+      UPDATE driver_locations 
+      SET is_available = FALSE, updated_at = NOW()
+      WHERE driver_id = $1 AND expires_at > NOW()
+    `, [offer.driverId]);
+
+    return { success: true };
+  }
 
-      return result;
+  // Adds the rider to the driver's running pool trip on the route the driver accepted
+  private async addRiderToPoolTrip(
+    client: TransactionContext,
+    offer: RideOffer
+  ): Promise<{ success: boolean; reason?: string }> {
+    const trip = await client.query(`
+      SELECT status, route_version FROM pool_trips
+      WHERE id = $1 AND driver_id = $2
+      FOR UPDATE
+    `, [offer.poolTripId, offer.driverId]);
+
+    const current = trip.rows[0];
+    if (!current || current.status !== 'active') {
+      return { success: false, reason: 'driver_unavailable' };
+    }
+    if (current.route_version !== offer.poolRouteVersion) {
+      return { success: false, reason: 'pool_route_changed' };
+    }
 
-    } catch (error) {
-      logger.error('Driver assignment failed', error instanceof Error ? error.message : error);
-      return { 
-        success: false, 
-        reason: (error as Error).message 
-      };
+    const assigned = await client.query(`
+      UPDATE bookings
+      SET
+        driver_id = $1,
+        pool_trip_id = $3,
+        status = 'accepted',
+        assigned_at = NOW(),
+        accepted_at = NOW(),
+        estimated_pickup_time = NOW() + make_interval(mins => $4),
+        updated_at = NOW()
+      WHERE id = $2 AND driver_id IS NULL AND status = 'searching'
+      RETURNING id
+    `, [offer.driverId, offer.bookingId, offer.poolTripId, offer.etaMinutes ?? 0]);
+
+    if (assigned.rows.length === 0) {
+      return { success: false, reason: 'booking_unavailable' };
     }
+
+    // The driver is already busy with the trip, so only the route changes
+    await setPoolRoute(client, offer.poolTripId as string, offer.poolRoute ?? []);
+
+    return { success: true };
   }
 
   // WebSocket notifications for successful matches
@@ -632,6 +1450,41 @@ export class RideMatchingEngine {
     }
   }
 
+  // Running daily totals per region, so batch and greedy pickup ETAs can be compared over time
+  private async logBatchMetrics(metrics: BatchMatchingMetrics): Promise<void> {
+    logger.info('Batch matching solved', metrics);
+    try {
+      const summary = await this.getBatchMatchingSummary(metrics.regionId);
+      const add = (sum: AssignmentTotals, batch: AssignmentTotals): AssignmentTotals => ({
+        matched: sum.matched + batch.matched,
+        totalEtaMinutes: sum.totalEtaMinutes + batch.totalEtaMinutes,
+        totalScore: Math.round((sum.totalScore + batch.totalScore) * 100) / 100
+      });
+
+      await redis.setCache(`batch_matching:${summary.regionId}:${summary.date}`, {
+        ...summary,
+        batches: summary.batches + 1,
+        requests: summary.requests + metrics.requests,
+        optimal: add(summary.optimal, metrics.optimal),
+        greedy: add(summary.greedy, metrics.greedy),
+        etaSavedMinutes: summary.etaSavedMinutes + metrics.etaSavedMinutes
+      }, BATCH_SUMMARY_TTL_SECONDS);
+    } catch (error) {
+      logger.error('Error logging batch matching metrics', error instanceof Error ? error.message : error);
+    }
+  }
+
+  async getBatchMatchingSummary(
+    regionId: string,
+    date: string = new Date().toISOString().slice(0, 10)
+  ): Promise<BatchMatchingSummary> {
+    const empty = { matched: 0, totalEtaMinutes: 0, totalScore: 0 };
+    const cached = await redis.getCache<BatchMatchingSummary>(`batch_matching:${regionId}:${date}`);
+    return cached ?? {
+      regionId, date, batches: 0, requests: 0, optimal: { ...empty }, greedy: { ...empty }, etaSavedMinutes: 0
+    };
+  }
+
   private async logMatchingPerformance(
     rideRequest: RideRequest,
     result: MatchingResult,
@@ -647,6 +1500,7 @@ export class RideMatchingEngine {
         searchRadius: result.searchRadius,
         candidatesEvaluated: result.totalCandidatesEvaluated,
         assignedDriverId: result.assignedDriver?.id,
+        offersMade: result.offers?.filter(offer => offer.status !== 'skipped').length ?? 0,
         failureReason: result.failureReason,
         timestamp: new Date().toISOString()
       };
@@ -680,4 +1534,4 @@ export class RideMatchingEngine {
 }
 
 // Export singleton instance
-export const rideMatchingEngine = new RideMatchingEngine();
\ No newline at end of file
+export const rideMatchingEngine = new RideMatchingEngine(matchingConfigFromEnv());
\ No newline at end of file
@@ -0,0 +1,707 @@
+// Scheduled Ride Dispatcher
+// Holds bookings for future pickups, reserves a driver ahead of time from predicted travel
+// time, hands the ride to that driver when it is time to set off, re-matches when the
+// reserved driver drops out, and reminds rider and driver at the configured lead times
+
+import cron, { ScheduledTask } from 'node-cron';
+
+import { getDatabase } from './database';
+import type { TransactionContext } from './database/connection-manager';
+import { DEFAULT_MATCHING_CONFIG, rideMatchingEngine } from './rideMatching';
+import { setBookingRoute } from './tripStops';
+import { getWebSocketManager } from './websocket';
+
+import { logger } from '@/lib/security/productionLogger';
+import { ScheduledRide, ScheduledRideStatus, ServiceType } from '@/types/fleet';
+
+const db = getDatabase();
+
+type Queryable = Pick<TransactionContext, 'query'>;
+
+export interface ScheduledRideConfig {
+  minLeadMinutes: number; // earliest a pickup can be scheduled ahead of now
+  maxAdvanceDays: number;
+  reserveAheadMinutes: number; // how long before pickup a driver is reserved
+  dispatchBufferMinutes: number; // slack on top of the predicted travel time
+  onDemandFallbackMinutes: number; // without a reservation this close to pickup, match on demand
+  maxLatenessMinutes: number; // past pickup by this much, the ride is given up
+  reserveRadiusKm: number;
+  reservationGapMinutes: number; // a driver's reserved pickups stay at least this far apart
+  busyDriverPenaltyMinutes: number; // drivers on a trip now are only reserved when nobody free is close
+  driverStaleMinutes: number; // no location update for this long counts as offline
+  averageSpeedKmh: number;
+  riderLeadMinutes: number[];
+  driverLeadMinutes: number[];
+}
+
+interface ScheduledRideRow {
+  id: string;
+  booking_id: string;
+  booking_reference?: string;
+  region_id: string;
+  service_type: ServiceType;
+  scheduled_pickup_time: string;
+  status: ScheduledRideStatus;
+  reserved_driver_id: string | null;
+  reserved_at: string | null;
+  predicted_travel_minutes: number | null;
+  dispatch_at: string | null;
+  rematch_count: number;
+  last_rematch_reason: string | null;
+  dispatched_at: string | null;
+  failure_reason: string | null;
+}
+
+// Open ride with what the dispatcher needs about its booking
+interface DispatchRow extends ScheduledRideRow {
+  booking_reference: string;
+  customer_id: string;
+  pickup_address: string;
+  pickup_latitude: string;
+  pickup_longitude: string;
+  booking_status: string;
+  surge_multiplier: string;
+}
+
+// Ride coming up soon enough to remind its rider and driver
+interface ReminderRow {
+  id: string;
+  booking_id: string;
+  booking_reference: string;
+  scheduled_pickup_time: string;
+  pickup_address: string;
+}
+
+export interface DispatchCycleResult {
+  reserved: number;
+  rematched: number;
+  dispatched: number;
+  onDemand: number;
+  failed: number;
+  remindersSent: number;
+}
+
+const parseLeadMinutes = (value: string | undefined, fallback: number[]): number[] => {
+  const parsed = (value ?? '').split(',').map(part => parseInt(part.trim(), 10)).filter(lead => lead > 0);
+  return parsed.length > 0 ? parsed : fallback;
+};
+
+export const DEFAULT_SCHEDULED_RIDE_CONFIG: ScheduledRideConfig = {
+  minLeadMinutes: 30,
+  maxAdvanceDays: 7,
+  reserveAheadMinutes: 90,
+  dispatchBufferMinutes: 5,
+  onDemandFallbackMinutes: 20,
+  maxLatenessMinutes: 30,
+  reserveRadiusKm: 15,
+  reservationGapMinutes: 60,
+  busyDriverPenaltyMinutes: 15,
+  driverStaleMinutes: 10,
+  averageSpeedKmh: 25,
+  riderLeadMinutes: parseLeadMinutes(process.env.SCHEDULED_RIDE_RIDER_LEAD_MINUTES, [60, 15]),
+  driverLeadMinutes: parseLeadMinutes(process.env.SCHEDULED_RIDE_DRIVER_LEAD_MINUTES, [60, 20])
+};
+
+const mapScheduledRide = (row: ScheduledRideRow): ScheduledRide => ({
+  id: row.id,
+  bookingId: row.booking_id,
+  bookingReference: row.booking_reference,
+  regionId: row.region_id,
+  serviceType: row.service_type,
+  scheduledPickupTime: row.scheduled_pickup_time,
+  status: row.status,
+  reservedDriverId: row.reserved_driver_id ?? undefined,
+  reservedAt: row.reserved_at ?? undefined,
+  predictedTravelMinutes: row.predicted_travel_minutes ?? undefined,
+  dispatchAt: row.dispatch_at ?? undefined,
+  rematchCount: row.rematch_count,
+  lastRematchReason: row.last_rematch_reason ?? undefined,
+  dispatchedAt: row.dispatched_at ?? undefined,
+  failureReason: row.failure_reason ?? undefined
+});
+
+// Metro Manila congestion by local hour of day; Manila is UTC+8 all year
+const CONGESTION_BY_HOUR: Record<number, number> = {
+  6: 1.3, 7: 1.6, 8: 1.6, 9: 1.4, 16: 1.3, 17: 1.6, 18: 1.6, 19: 1.4, 20: 1.2
+};
+const NIGHT_HOURS = [22, 23, 0, 1, 2, 3, 4];
+
+/** Predicted driving minutes for a distance when setting off at `at`, with rush-hour slowdowns. */
+export function predictTravelMinutes(distanceKm: number, at: Date, averageSpeedKmh: number): number {
+  const manilaHour = new Date(at.getTime() + 8 * 3600 * 1000).getUTCHours();
+  const factor = CONGESTION_BY_HOUR[manilaHour] ?? (NIGHT_HOURS.includes(manilaHour) ? 0.8 : 1);
+  return Math.ceil((distanceKm / averageSpeedKmh) * 60 * factor);
+}
+
+// When the driver has to set off to make the pickup, with slack
+export function computeDispatchAt(pickupTime: Date, travelMinutes: number, bufferMinutes: number): Date {
+  return new Date(pickupTime.getTime() - (travelMinutes + bufferMinutes) * 60000);
+}
+
+/**
+ * The reminder due now: the smallest lead time already reached before pickup. Larger lead
+ * times that were missed (e.g. a ride booked 20 minutes out) are not sent late.
+ */
+export function dueLeadTime(leadMinutes: number[], pickupTime: Date, now: Date): number | null {
+  const minutesToPickup = (pickupTime.getTime() - now.getTime()) / 60000;
+  if (minutesToPickup <= 0) {
+    return null;
+  }
+  const due = leadMinutes.filter(lead => lead >= minutesToPickup);
+  return due.length > 0 ? Math.min(...due) : null;
+}
+
+// Why a pickup time cannot be scheduled, or null when it can
+export function validateScheduledPickup(
+  pickupTime: Date,
+  now: Date = new Date(),
+  config: ScheduledRideConfig = DEFAULT_SCHEDULED_RIDE_CONFIG
+): string | null {
+  if (Number.isNaN(pickupTime.getTime())) {
+    return 'Scheduled pickup time is not a valid date';
+  }
+  const minutesAhead = (pickupTime.getTime() - now.getTime()) / 60000;
+  if (minutesAhead < config.minLeadMinutes) {
+    return `Scheduled pickups must be at least ${config.minLeadMinutes} minutes ahead`;
+  }
+  if (minutesAhead > config.maxAdvanceDays * 24 * 60) {
+    return `Scheduled pickups can be at most ${config.maxAdvanceDays} days ahead`;
+  }
+  return null;
+}
+
+// Hold a newly created booking for the dispatcher
+export async function scheduleRide(
+  client: Queryable,
+  booking: { id: string; regionId: string; serviceType: string; scheduledPickupTime: Date }
+): Promise<ScheduledRide> {
+  await client.query(
+    'UPDATE bookings SET scheduled_pickup_time = $2, estimated_pickup_time = $2 WHERE id = $1',
+    [booking.id, booking.scheduledPickupTime]
+  );
+  const result = await client.query(`
+    INSERT INTO scheduled_rides (booking_id, region_id, service_type, scheduled_pickup_time)
+    VALUES ($1, $2, $3, $4)
+    RETURNING *
+  `, [booking.id, booking.regionId, booking.serviceType, booking.scheduledPickupTime]);
+  return mapScheduledRide(result.rows[0]);
+}
+
+// Stop dispatching a booking that was cancelled; returns the ride when it was still open
+export async function cancelScheduledRide(client: Queryable, bookingId: string): Promise<ScheduledRide | null> {
+  const result = await client.query(`
+    UPDATE scheduled_rides sr
+    SET status = 'cancelled', updated_at = NOW()
+    FROM bookings b
+    WHERE sr.booking_id = $1 AND b.id = sr.booking_id AND sr.status IN ('scheduled', 'reserved')
+    RETURNING sr.*, b.booking_reference
+  `, [bookingId]);
+  return result.rows[0] ? mapScheduledRide(result.rows[0]) : null;
+}
+
+export async function getScheduledRides(filters: {
+  regionId?: string;
+  status?: ScheduledRideStatus;
+  driverId?: string;
+  from?: string;
+  to?: string;
+  limit?: number;
+}): Promise<ScheduledRide[]> {
+  const conditions = ['1=1'];
+  const values: unknown[] = [];
+  const add = (clause: string, value: unknown) => {
+    values.push(value);
+    conditions.push(clause.replace('?', `$${values.length}`));
+  };
+
+  if (filters.regionId) {
+    add('sr.region_id = ?', filters.regionId);
+  }
+  if (filters.status) {
+    add('sr.status = ?', filters.status);
+  }
+  if (filters.driverId) {
+    add('sr.reserved_driver_id = ?', filters.driverId);
+  }
+  if (filters.from) {
+    add('sr.scheduled_pickup_time >= ?', filters.from);
+  }
+  if (filters.to) {
+    add('sr.scheduled_pickup_time < ?', filters.to);
+  }
+  values.push(filters.limit ?? 100);
+
+  const result = await db.query(`
+    SELECT sr.*, b.booking_reference
+    FROM scheduled_rides sr
+    JOIN bookings b ON b.id = sr.booking_id
+    WHERE ${conditions.join(' AND ')}
+    ORDER BY sr.scheduled_pickup_time
+    LIMIT $${values.length}
+  `, values);
+  return result.rows.map(mapScheduledRide);
+}
+
+class ScheduledRideDispatcher {
+  private task: ScheduledTask | null = null;
+  private readonly schedule = process.env.SCHEDULED_RIDES_SCHEDULE || '* * * * *';
+  private readonly timezone = process.env.SCHEDULED_RIDES_TIMEZONE || 'Asia/Manila';
+  private config: ScheduledRideConfig;
+
+  constructor(config: Partial<ScheduledRideConfig> = {}) {
+    this.config = { ...DEFAULT_SCHEDULED_RIDE_CONFIG, ...config };
+  }
+
+  // Start the dispatch cycle
+  start(): void {
+    if (this.task) {
+      logger.info('Scheduled ride dispatcher is already running');
+      return;
+    }
+    if (process.env.SCHEDULED_RIDES_ENABLED === 'false') {
+      logger.info('Scheduled ride dispatcher disabled by SCHEDULED_RIDES_ENABLED');
+      return;
+    }
+    if (!cron.validate(this.schedule)) {
+      logger.error(`Invalid SCHEDULED_RIDES_SCHEDULE "${this.schedule}"; scheduled ride dispatcher not started`);
+      return;
+    }
+
+    logger.info(`Dispatching scheduled rides at "${this.schedule}" (${this.timezone})`);
+    this.task = cron.schedule(this.schedule, () => this.run(), {
+      name: 'scheduled-rides',
+      timezone: this.timezone,
+      noOverlap: true
+    });
+  }
+
+  // Stop the dispatch cycle
+  stop(): void {
+    if (!this.task) {
+      return;
+    }
+
+    logger.info('Stopping scheduled ride dispatcher');
+    this.task.stop();
+    this.task = null;
+  }
+
+  /**
+   * One pass over the open scheduled rides: re-check reservations, reserve drivers for rides
+   * coming up, hand over rides whose driver has to set off, and send due reminders.
+   */
+  async runCycle(now: Date = new Date()): Promise<DispatchCycleResult> {
+    const result: DispatchCycleResult = {
+      reserved: 0, rematched: 0, dispatched: 0, onDemand: 0, failed: 0, remindersSent: 0
+    };
+    const horizon = new Date(now.getTime() + this.config.reserveAheadMinutes * 60000);
+
+    for (const ride of await this.loadOpenRides(horizon)) {
+      try {
+        await this.processRide(ride, now, result);
+      } catch (error) {
+        logger.error('Error dispatching scheduled ride', {
+          scheduledRideId: ride.id,
+          error: error instanceof Error ? error.message : String(error)
+        }, { component: 'ScheduledRideDispatcher', action: 'processRide' });
+      }
+    }
+
+    result.remindersSent = await this.sendDueReminders(now);
+
+    if (result.reserved + result.rematched + result.dispatched + result.onDemand + result.failed > 0) {
+      logger.info('Scheduled ride dispatch cycle', result);
+    }
+    return result;
+  }
+
+  private async run(): Promise<void> {
+    try {
+      await this.runCycle();
+    } catch (error) {
+      logger.error('Scheduled ride dispatch cycle failed', {
+        error: error instanceof Error ? error.message : String(error)
+      }, { component: 'ScheduledRideDispatcher', action: 'run' });
+    }
+  }
+
+  private async loadOpenRides(horizon: Date): Promise<DispatchRow[]> {
+    const result = await db.query(`
+      SELECT sr.*, b.booking_reference, b.customer_id, b.pickup_address, b.status AS booking_status,
+        b.surge_multiplier,
+        ST_Y(b.pickup_location) AS pickup_latitude,
+        ST_X(b.pickup_location) AS pickup_longitude
+      FROM scheduled_rides sr
+      JOIN bookings b ON b.id = sr.booking_id
+      WHERE sr.status IN ('scheduled', 'reserved')
+        AND sr.scheduled_pickup_time <= $1
+      ORDER BY sr.scheduled_pickup_time
+    `, [horizon]);
+    return result.rows;
+  }
+
+  private async processRide(ride: DispatchRow, now: Date, result: DispatchCycleResult): Promise<void> {
+    const pickupTime = new Date(ride.scheduled_pickup_time);
+    const minutesToPickup = (pickupTime.getTime() - now.getTime()) / 60000;
+
+    // The booking was cancelled or taken over by a dispatcher
+    if (ride.booking_status !== 'requested') {
+      await this.closeRide(ride, 'cancelled', 'booking_not_requested');
+      return;
+    }
+    if (minutesToPickup < -this.config.maxLatenessMinutes) {
+      await this.closeRide(ride, 'failed', 'pickup_time_passed');
+      result.failed++;
+      return;
+    }
+
+    if (ride.status === 'reserved' && ride.reserved_driver_id) {
+      const driver = await this.checkReservedDriver(ride, now);
+      if (!driver.online) {
+        await this.releaseReservation(ride, 'driver_offline');
+        result.rematched++;
+      } else if (new Date(driver.dispatchAt) <= now) {
+        if (await this.dispatchToReservedDriver(ride)) {
+          result.dispatched++;
+          return;
+        }
+        await this.releaseReservation(ride, 'driver_busy');
+        result.rematched++;
+      } else {
+        return;
+      }
+    }
+
+    // Without a reservation, reserve someone, or match on demand once pickup is close
+    const outcome = await this.reserveDriver(ride, now, ride.reserved_driver_id ?? undefined);
+    if (outcome === 'reserved') {
+      result.reserved++;
+    } else if (outcome === 'dispatched') {
+      result.dispatched++;
+    } else if (minutesToPickup <= this.config.onDemandFallbackMinutes) {
+      await this.dispatchOnDemand(ride);
+      result.onDemand++;
+    }
+  }
+
+  /**
+   * Reserves the driver predicted to reach the pickup soonest who has no clashing reservation.
+   * A reservation made when the driver already has to set off is dispatched straight away.
+   */
+  private async reserveDriver(
+    ride: DispatchRow,
+    now: Date,
+    excludeDriverId?: string
+  ): Promise<'reserved' | 'dispatched' | null> {
+    const pickupTime = new Date(ride.scheduled_pickup_time);
+    const compatibleServices =
+      DEFAULT_MATCHING_CONFIG.serviceTypeCompatibility[ride.service_type] || [ride.service_type];
+
+    const candidates = await db.query(`
+      SELECT DISTINCT ON (d.id)
+        d.id,
+        d.status,
+        ST_Distance(ST_SetSRID(ST_MakePoint($1, $2), 4326)::geography, dl.location::geography) / 1000 AS distance_km
+      FROM drivers d
+      JOIN driver_locations dl ON d.id = dl.driver_id
+      WHERE d.region_id = $3
+        AND d.is_active = TRUE
+        AND d.status IN ('active', 'busy')
+        AND dl.recorded_at > NOW() - make_interval(mins => $4)
+        AND d.services && $5::text[]
+        AND d.id IS DISTINCT FROM $6
+        AND ST_DWithin(dl.location::geography, ST_SetSRID(ST_MakePoint($1, $2), 4326)::geography, $7)
+        AND NOT EXISTS (
+          SELECT 1 FROM scheduled_rides other
+          WHERE other.reserved_driver_id = d.id
+            AND other.status = 'reserved'
+            AND ABS(EXTRACT(EPOCH FROM other.scheduled_pickup_time - $8::timestamptz)) < $9 * 60
+        )
+      ORDER BY d.id, dl.recorded_at DESC
+    `, [
+      ride.pickup_longitude, ride.pickup_latitude, ride.region_id, this.config.driverStaleMinutes,
+      compatibleServices, excludeDriverId ?? null, this.config.reserveRadiusKm * 1000,
+      pickupTime, this.config.reservationGapMinutes
+    ]);
+
+    const ranked = candidates.rows
+      .map(row => {
+        const travelMinutes = predictTravelMinutes(
+          parseFloat(row.distance_km), pickupTime, this.config.averageSpeedKmh
+        );
+        const penalty = row.status === 'busy' ? this.config.busyDriverPenaltyMinutes : 0;
+        return { driverId: row.id as string, travelMinutes, rank: travelMinutes + penalty };
+      })
+      .sort((a, b) => a.rank - b.rank);
+
+    for (const candidate of ranked) {
+      const dispatchAt = computeDispatchAt(pickupTime, candidate.travelMinutes, this.config.dispatchBufferMinutes);
+      const reserved = await db.query(`
+        UPDATE scheduled_rides
+        SET status = 'reserved', reserved_driver_id = $2, reserved_at = NOW(),
+          predicted_travel_minutes = $3, dispatch_at = $4, updated_at = NOW()
+        WHERE id = $1 AND status = 'scheduled'
+        RETURNING id
+      `, [ride.id, candidate.driverId, candidate.travelMinutes, dispatchAt]);
+      if (reserved.rows.length === 0) {
+        return null;
+      }
+
+      logger.info('Scheduled ride reserved', {
+        scheduledRideId: ride.id, driverId: candidate.driverId, dispatchAt: dispatchAt.toISOString()
+      });
+      this.broadcastStatus(ride, 'reserved', {
+        driverId: candidate.driverId,
+        dispatchAt: dispatchAt.toISOString(),
+        reason: excludeDriverId ? ride.last_rematch_reason ?? undefined : undefined
+      });
+      ride.status = 'reserved';
+      ride.reserved_driver_id = candidate.driverId;
+      if (dispatchAt > now) {
+        return 'reserved';
+      }
+      if (await this.dispatchToReservedDriver(ride)) {
+        return 'dispatched';
+      }
+      await this.releaseReservation(ride, 'driver_busy');
+    }
+    return null;
+  }
+
+  // Whether the reserved driver is still online, with the dispatch time refreshed from their location
+  private async checkReservedDriver(
+    ride: DispatchRow,
+    now: Date
+  ): Promise<{ online: boolean; dispatchAt: string }> {
+    const location = await db.query(`
+      SELECT d.is_active, d.status,
+        ST_Distance(ST_SetSRID(ST_MakePoint($2, $3), 4326)::geography, dl.location::geography) / 1000 AS distance_km
+      FROM drivers d
+      JOIN driver_locations dl ON dl.driver_id = d.id
+      WHERE d.id = $1 AND dl.recorded_at > NOW() - make_interval(mins => $4)
+      ORDER BY dl.recorded_at DESC
+      LIMIT 1
+    `, [ride.reserved_driver_id, ride.pickup_longitude, ride.pickup_latitude, this.config.driverStaleMinutes]);
+
+    const row = location.rows[0];
+    if (!row || !row.is_active || !['active', 'busy'].includes(row.status)) {
+      return { online: false, dispatchAt: now.toISOString() };
+    }
+
+    const pickupTime = new Date(ride.scheduled_pickup_time);
+    const travelMinutes = predictTravelMinutes(parseFloat(row.distance_km), pickupTime, this.config.averageSpeedKmh);
+    const dispatchAt = computeDispatchAt(pickupTime, travelMinutes, this.config.dispatchBufferMinutes);
+    await db.query(`
+      UPDATE scheduled_rides
+      SET predicted_travel_minutes = $2, dispatch_at = $3, updated_at = NOW()
+      WHERE id = $1 AND status = 'reserved'
+    `, [ride.id, travelMinutes, dispatchAt]);
+    return { online: true, dispatchAt: dispatchAt.toISOString() };
+  }
+
+  // Assign the booking to the reserved driver, unless they are on another trip right now
+  private async dispatchToReservedDriver(ride: DispatchRow): Promise<boolean> {
+    const dispatched = await db.transaction(async (client) => {
+      const driver = await client.query(`
+        SELECT d.status,
+          EXISTS (
+            SELECT 1 FROM bookings b
+            WHERE b.driver_id = d.id AND b.status IN ('assigned', 'accepted', 'en_route', 'arrived', 'in_progress')
+          ) AS has_active_booking
+        FROM drivers d
+        WHERE d.id = $1
+        FOR UPDATE
+      `, [ride.reserved_driver_id]);
+      const row = driver.rows[0];
+      if (!row || row.status !== 'active' || row.has_active_booking) {
+        return false;
+      }
+
+      const assigned = await client.query(`
+        UPDATE bookings
+        SET driver_id = $2, status = 'assigned', assigned_at = NOW(), updated_at = NOW()
+        WHERE id = $1 AND status = 'requested' AND driver_id IS NULL
+        RETURNING id
+      `, [ride.booking_id, ride.reserved_driver_id]);
+      if (assigned.rows.length === 0) {
+        return false;
+      }
+      await setBookingRoute(client, ride.booking_id);
+
+      await client.query(`
+        UPDATE drivers SET status = 'busy', updated_at = NOW() WHERE id = $1
+      `, [ride.reserved_driver_id]);
+      await client.query(`
+        UPDATE scheduled_rides
+        SET status = 'dispatched', dispatched_at = NOW(), updated_at = NOW()
+        WHERE id = $1
+      `, [ride.id]);
+      return true;
+    });
+
+    if (dispatched) {
+      logger.info('Scheduled ride dispatched', { scheduledRideId: ride.id, driverId: ride.reserved_driver_id });
+      this.broadcastStatus(ride, 'dispatched', { driverId: ride.reserved_driver_id ?? undefined });
+    }
+    return dispatched;
+  }
+
+  // Drop the reservation so the next pass re-matches the ride
+  private async releaseReservation(ride: DispatchRow, reason: string): Promise<void> {
+    await db.query(`
+      UPDATE scheduled_rides
+      SET status = 'scheduled', reserved_driver_id = NULL, reserved_at = NULL, predicted_travel_minutes = NULL,
+        dispatch_at = NULL, rematch_count = rematch_count + 1, last_rematch_reason = $2, updated_at = NOW()
+      WHERE id = $1 AND status = 'reserved'
+    `, [ride.id, reason]);
+
+    logger.warn('Scheduled ride reservation released', {
+      scheduledRideId: ride.id, driverId: ride.reserved_driver_id, reason
+    });
+    this.broadcastStatus(ride, 'scheduled', { previousDriverId: ride.reserved_driver_id ?? undefined, reason });
+    ride.status = 'scheduled';
+    ride.last_rematch_reason = reason;
+  }
+
+  // Nobody could be reserved in time: the booking goes through regular matching
+  private async dispatchOnDemand(ride: DispatchRow): Promise<void> {
+    const handedOver = await db.transaction(async (client) => {
+      const booking = await client.query(`
+        UPDATE bookings SET status = 'searching', updated_at = NOW()
+        WHERE id = $1 AND status = 'requested'
+        RETURNING id
+      `, [ride.booking_id]);
+      if (booking.rows.length === 0) {
+        return false;
+      }
+      await client.query(`
+        UPDATE scheduled_rides
+        SET status = 'dispatched', dispatched_at = NOW(), last_rematch_reason = 'on_demand', updated_at = NOW()
+        WHERE id = $1
+      `, [ride.id]);
+      return true;
+    });
+    if (!handedOver) {
+      return;
+    }
+
+    logger.warn('Scheduled ride handed to on-demand matching', { scheduledRideId: ride.id });
+    this.broadcastStatus(ride, 'dispatched', { reason: 'on_demand' });
+
+    rideMatchingEngine.matchRideToDriver({
+      id: ride.booking_id,
+      bookingReference: ride.booking_reference,
+      customerId: ride.customer_id,
+      serviceType: ride.service_type,
+      pickupLocation: {
+        latitude: parseFloat(ride.pickup_latitude),
+        longitude: parseFloat(ride.pickup_longitude),
+        address: ride.pickup_address
+      },
+      regionId: ride.region_id,
+      surgeMultiplier: parseFloat(ride.surge_multiplier) || 1,
+      scheduledPickupTime: ride.scheduled_pickup_time
+    }).catch(error => {
+      logger.error('Error matching scheduled ride on demand', {
+        scheduledRideId: ride.id,
+        error: error instanceof Error ? error.message : String(error)
+      });
+    });
+  }
+
+  private async closeRide(ride: DispatchRow, status: 'cancelled' | 'failed', reason: string): Promise<void> {
+    await db.query(`
+      UPDATE scheduled_rides
+      SET status = $2, failure_reason = $3, updated_at = NOW()
+      WHERE id = $1 AND status IN ('scheduled', 'reserved')
+    `, [ride.id, status, reason]);
+    this.broadcastStatus(ride, status, { previousDriverId: ride.reserved_driver_id ?? undefined, reason });
+  }
+
+  // Remind riders, and reserved or dispatched drivers, once per lead time
+  private async sendDueReminders(now: Date): Promise<number> {
+    const longestLead = Math.max(...this.config.riderLeadMinutes, ...this.config.driverLeadMinutes);
+    const rides = await db.query(`
+      SELECT sr.id, sr.booking_id, sr.scheduled_pickup_time, sr.status, sr.reserved_driver_id,
+        b.booking_reference, b.customer_id, b.pickup_address, b.driver_id
+      FROM scheduled_rides sr
+      JOIN bookings b ON b.id = sr.booking_id
+      WHERE sr.status IN ('scheduled', 'reserved', 'dispatched')
+        AND sr.scheduled_pickup_time > $1
+        AND sr.scheduled_pickup_time <= $1::timestamptz + make_interval(mins => $2)
+    `, [now, longestLead]);
+
+    let sent = 0;
+    for (const ride of rides.rows) {
+      const pickupTime = new Date(ride.scheduled_pickup_time);
+      const driverId: string | null = ride.status === 'dispatched' ? ride.driver_id : ride.reserved_driver_id;
+      const recipients: Array<{ recipient: 'rider' | 'driver'; recipientId: string | null; leads: number[] }> = [
+        { recipient: 'rider', recipientId: ride.customer_id, leads: this.config.riderLeadMinutes },
+        { recipient: 'driver', recipientId: driverId, leads: this.config.driverLeadMinutes }
+      ];
+
+      for (const { recipient, recipientId, leads } of recipients) {
+        const leadMinutes = dueLeadTime(leads, pickupTime, now);
+        if (!recipientId || leadMinutes === null) {
+          continue;
+        }
+        if (await this.sendReminder(ride, recipient, recipientId, leadMinutes, driverId)) {
+          sent++;
+        }
+      }
+    }
+    return sent;
+  }
+
+  private async sendReminder(
+    ride: ReminderRow,
+    recipient: 'rider' | 'driver',
+    recipientId: string,
+    leadMinutes: number,
+    driverId: string | null
+  ): Promise<boolean> {
+    // Claim the reminder first so a second pass never sends it twice
+    const claimed = await db.query(`
+      INSERT INTO scheduled_ride_notifications (scheduled_ride_id, recipient, recipient_id, lead_minutes, delivered)
+      VALUES ($1, $2, $3, $4, FALSE)
+      ON CONFLICT (scheduled_ride_id, recipient, recipient_id, lead_minutes) DO NOTHING
+      RETURNING id
+    `, [ride.id, recipient, recipientId, leadMinutes]);
+    if (claimed.rows.length === 0) {
+      return false;
+    }
+
+    const delivered = getWebSocketManager()?.sendScheduledRideReminder(recipientId, {
+      scheduledRideId: ride.id,
+      rideId: ride.booking_id,
+      bookingReference: ride.booking_reference,
+      recipient,
+      leadMinutes,
+      scheduledPickupTime: new Date(ride.scheduled_pickup_time).toISOString(),
+      pickupAddress: ride.pickup_address,
+      driverId: driverId ?? undefined
+    }) ?? false;
+
+    if (delivered) {
+      await db.query('UPDATE scheduled_ride_notifications SET delivered = TRUE WHERE id = $1', [claimed.rows[0].id]);
+    }
+    return delivered;
+  }
+
+  private broadcastStatus(
+    ride: DispatchRow,
+    status: ScheduledRideStatus,
+    details: { driverId?: string; previousDriverId?: string; dispatchAt?: string; reason?: string }
+  ): void {
+    getWebSocketManager()?.broadcastScheduledRideStatus({
+      scheduledRideId: ride.id,
+      rideId: ride.booking_id,
+      bookingReference: ride.booking_reference,
+      regionId: ride.region_id,
+      status,
+      ...details
+    });
+  }
+}
+
+export const scheduledRideDispatcher = new ScheduledRideDispatcher();
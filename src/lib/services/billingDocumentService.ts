@@ -0,0 +1,170 @@
+import { createHash } from 'crypto';
+
+import { query, transaction } from '@/lib/db';
+import {
+  DocumentBuyer,
+  renderInvoicePdf,
+  renderOfficialReceiptPdf
+} from '@/lib/documents/billingDocuments';
+import { getSellerProfile } from '@/lib/documents/sellerProfile';
+import {
+  NewBillingDocument,
+  findDocument,
+  getDocumentContent,
+  insertDocument
+} from '@/lib/repos/billingDocumentsRepo';
+import { getAccount } from '@/lib/repos/corporateAccountsRepo';
+import { getInvoice } from '@/lib/repos/invoicesRepo';
+import { QueryFn } from '@/lib/repos/ledgerRepo';
+import { logger } from '@/lib/security/productionLogger';
+import { BillingDocument, Invoice, PaymentHistory } from '@/types/billing';
+
+const PDF = 'application/pdf';
+
+// HTTP status for each error code thrown by this service
+const DOCUMENT_ERROR_STATUS: Record<string, number> = {
+  account_not_found: 404,
+  invoice_not_found: 404,
+  document_not_found: 404,
+  seller_profile_not_configured: 503
+};
+
+export function documentErrorStatus(error: unknown): number | null {
+  const code = error instanceof Error ? error.message.split(':')[0] : '';
+  return DOCUMENT_ERROR_STATUS[code] ?? null;
+}
+
+export interface DocumentFile {
+  fileName: string;
+  contentType: string;
+  content: Buffer;
+}
+
+export const invoicePdfUrl = (invoiceId: string) => `/api/billing/invoices/${invoiceId}/pdf`;
+
+async function loadBuyer(invoice: Invoice, q: QueryFn): Promise<DocumentBuyer> {
+  const account = await getAccount(invoice.corporateAccountId, q);
+  if (!account) {
+    throw new Error(`account_not_found: ${invoice.corporateAccountId}`);
+  }
+  return account;
+}
+
+async function storeDocument(
+  document: Omit<NewBillingDocument, 'sha256' | 'contentType'>,
+  q: QueryFn
+): Promise<BillingDocument> {
+  const stored = await insertDocument({
+    ...document,
+    contentType: PDF,
+    sha256: createHash('sha256').update(document.content).digest('hex')
+  }, q);
+
+  logger.info('Billing document stored', {
+    documentId: stored.id,
+    documentType: stored.documentType,
+    documentNumber: stored.documentNumber,
+    byteSize: stored.byteSize
+  }, { component: 'BillingDocumentService', action: 'storeDocument' });
+
+  return stored;
+}
+
+/**
+ * Renders and stores the service invoice as issued. Called inside the transaction that sends
+ * the invoice; re-sending keeps the original copy so every reprint matches what the buyer got.
+ */
+export async function issueInvoiceDocument(
+  invoice: Invoice,
+  generatedBy: string,
+  q: QueryFn
+): Promise<BillingDocument> {
+  const existing = await findDocument('invoice', invoice.invoiceNumber, q);
+  if (existing) {
+    return existing;
+  }
+
+  const content = renderInvoicePdf({
+    invoice,
+    buyer: await loadBuyer(invoice, q),
+    seller: getSellerProfile(),
+    draft: false
+  });
+  return storeDocument({
+    documentType: 'invoice',
+    documentNumber: invoice.invoiceNumber,
+    invoiceId: invoice.id,
+    fileName: `${invoice.invoiceNumber}.pdf`,
+    content: Buffer.from(content),
+    generatedBy
+  }, q);
+}
+
+/** Renders and stores the official receipt for a payment that already carries its OR number. */
+export async function issueOfficialReceipt(
+  invoice: Invoice,
+  payment: PaymentHistory,
+  generatedBy: string,
+  q: QueryFn
+): Promise<BillingDocument> {
+  if (!payment.receiptNumber) {
+    throw new Error(`document_not_found: payment ${payment.id} has no receipt number`);
+  }
+
+  const content = renderOfficialReceiptPdf({
+    receiptNumber: payment.receiptNumber,
+    payment,
+    invoice,
+    buyer: await loadBuyer(invoice, q),
+    seller: getSellerProfile()
+  });
+  return storeDocument({
+    documentType: 'official_receipt',
+    documentNumber: payment.receiptNumber,
+    invoiceId: invoice.id,
+    paymentId: payment.id,
+    fileName: `${payment.receiptNumber}.pdf`,
+    content: Buffer.from(content),
+    generatedBy
+  }, q);
+}
+
+/**
+ * The invoice PDF. Drafts are rendered on the fly with a DRAFT watermark and never stored;
+ * issued invoices serve the stored copy, which is generated on first request for invoices
+ * sent before documents were stored.
+ */
+export async function getInvoicePdf(idOrNumber: string, requestedBy: string): Promise<DocumentFile> {
+  const invoice = await getInvoice(idOrNumber);
+  if (!invoice) {
+    throw new Error('invoice_not_found');
+  }
+
+  if (invoice.status === 'draft') {
+    const content = renderInvoicePdf({
+      invoice,
+      buyer: await loadBuyer(invoice, query),
+      seller: getSellerProfile(),
+      draft: true
+    });
+    return { fileName: `${invoice.invoiceNumber}-DRAFT.pdf`, contentType: PDF, content: Buffer.from(content) };
+  }
+
+  let stored = await findDocument('invoice', invoice.invoiceNumber);
+  if (!stored) {
+    if (!invoice.sentDate) {
+      // Voided before it was ever issued
+      throw new Error(`document_not_found: invoice ${invoice.invoiceNumber} was never issued`);
+    }
+    stored = await transaction(q => issueInvoiceDocument(invoice, requestedBy, q));
+  }
+  return getDocumentFile(stored.id);
+}
+
+export async function getDocumentFile(id: string): Promise<DocumentFile> {
+  const found = await getDocumentContent(id);
+  if (!found) {
+    throw new Error('document_not_found');
+  }
+  return { fileName: found.document.fileName, contentType: found.document.contentType, content: found.content };
+}
@@ -0,0 +1,567 @@
+import { randomUUID } from 'crypto';
+
+import { getWorkflowDefinition, validateApprovalRequest } from '@/lib/approval-workflows';
+import { transaction } from '@/lib/db';
+import {
+  ApprovalRequestWithApprovers,
+  createApprovalRequest,
+  getApprovalRequestWithApprovers
+} from '@/lib/repos/approvalRequestsRepo';
+import {
+  BondPatch,
+  closeBondRefund,
+  findIncident,
+  getBond,
+  getBondByDeduction,
+  getBondRefund,
+  getOpenBondForDriver,
+  getPendingBondRefund,
+  insertBond,
+  insertBondEvent,
+  insertBondRefund,
+  listBondEvents,
+  listBondHeldBalances,
+  listBondRefunds,
+  updateBond
+} from '@/lib/repos/bondsRepo';
+import { getAccountBalance, postJournal, QueryFn } from '@/lib/repos/ledgerRepo';
+import {
+  closeRecurringDeduction,
+  consumeRecurringDeduction,
+  insertRecurringDeduction,
+  setRecurringDeductionActive
+} from '@/lib/repos/settlementsRepo';
+import { logger } from '@/lib/security/productionLogger';
+import {
+  BOND_FORFEIT_REASONS,
+  BondDepositRequest,
+  BondForfeitRequest,
+  BondReconciliationResult,
+  BondRefund,
+  CreateBondRequest,
+  DriverBond
+} from '@/types/bond';
+import { LEDGER_ACCOUNTS } from '@/types/settlement';
+
+export const BOND_REFUND_APPROVAL_ACTION = 'approve_bond_refund';
+
+// Matches the default request lifetime used by /api/admin/approval/request
+const APPROVAL_REQUEST_TTL_SECONDS = 24 * 60 * 60;
+
+const SETTLEMENT_ACTOR = 'system:settlement';
+
+// HTTP status for each error code thrown by this service
+const BOND_ERROR_STATUS: Record<string, number> = {
+  bond_not_found: 404,
+  refund_not_found: 404,
+  incident_not_found: 404,
+  invalid_bond_request: 400,
+  invalid_approval_request: 400,
+  incident_required: 400,
+  incident_driver_mismatch: 400,
+  driver_has_open_bond: 409,
+  invalid_bond_state: 409,
+  invalid_refund_state: 409,
+  refund_pending: 409,
+  amount_exceeds_outstanding: 409,
+  amount_exceeds_held: 409,
+  approval_required: 403,
+  approval_not_approved: 403,
+  approval_refund_mismatch: 403,
+  approval_insufficient_approvers: 403,
+  approval_expired: 403
+};
+
+export function bondErrorStatus(error: unknown): number | null {
+  const code = error instanceof Error ? error.message.split(':')[0] : '';
+  return BOND_ERROR_STATUS[code] ?? null;
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+const isOpen = (bond: DriverBond) => bond.status === 'collecting' || bond.status === 'active';
+
+export function outstandingAmount(bond: Pick<DriverBond, 'requiredAmount' | 'collectedAmount'>): number {
+  return Math.max(0, round2(bond.requiredAmount - bond.collectedAmount));
+}
+
+/**
+ * Bond changes for money coming in. A collecting bond becomes active the first
+ * time the full required amount has been collected.
+ */
+export function collectionPatch(
+  bond: Pick<DriverBond, 'status' | 'requiredAmount' | 'collectedAmount' | 'depositedAt'>,
+  amount: number,
+  now: Date = new Date()
+): BondPatch {
+  const collectedAmount = round2(bond.collectedAmount + amount);
+  const complete = bond.status === 'collecting' && collectedAmount >= bond.requiredAmount;
+  return {
+    collectedAmount,
+    status: complete ? 'active' : undefined,
+    depositedAt: complete && !bond.depositedAt ? now.toISOString() : undefined
+  };
+}
+
+/**
+ * A refund may only be released against an approved approve_bond_refund request for
+ * that exact bond and amount, approved by someone other than the requester, and no
+ * longer ago than the workflow's maximum TTL.
+ */
+export function assertRefundApprovalSatisfied(
+  refund: Pick<BondRefund, 'bondId' | 'amount' | 'requestedBy'>,
+  approval: ApprovalRequestWithApprovers | null,
+  now: Date = new Date()
+): void {
+  const definition = getWorkflowDefinition(BOND_REFUND_APPROVAL_ACTION);
+  if (!approval || !definition || approval.action !== BOND_REFUND_APPROVAL_ACTION) {
+    throw new Error('approval_required');
+  }
+  if (approval.status !== 'approved') {
+    throw new Error('approval_not_approved');
+  }
+
+  const requested = JSON.parse(approval.requested_action || '{}');
+  if (requested.bond_id !== refund.bondId || round2(Number(requested.amount)) !== round2(refund.amount)) {
+    throw new Error('approval_refund_mismatch');
+  }
+
+  const approvers = new Set(approval.approver_ids.filter(id => id !== refund.requestedBy));
+  const required = Math.max(approval.required_approvers || 1, definition.dual_approval_required ? 2 : 1);
+  if (approvers.size < required) {
+    throw new Error('approval_insufficient_approvers');
+  }
+
+  const approvedAt = approval.completed_at ? new Date(approval.completed_at).getTime() : NaN;
+  if (!Number.isFinite(approvedAt) || now.getTime() - approvedAt > definition.max_ttl_seconds * 1000) {
+    throw new Error('approval_expired');
+  }
+}
+
+const bondReference = () => {
+  const date = new Date().toISOString().slice(0, 10).replace(/-/g, '');
+  return `BND-${date}-${randomUUID().slice(0, 6).toUpperCase()}`;
+};
+
+const journalSuffix = () => randomUUID().slice(0, 8).toUpperCase();
+
+async function lockBond(bondId: string, query: QueryFn): Promise<DriverBond> {
+  const bond = await getBond(bondId, query, true);
+  if (!bond) {
+    throw new Error('bond_not_found');
+  }
+  return bond;
+}
+
+export async function createBond(request: CreateBondRequest, createdBy: string): Promise<DriverBond> {
+  const installments = request.collectionMethod === 'installments';
+  if (installments && !(request.installmentAmount && request.installmentAmount > 0)) {
+    throw new Error('invalid_bond_request: installmentAmount is required when collecting by installments');
+  }
+  if (installments && request.installmentAmount! > request.requiredAmount) {
+    throw new Error('invalid_bond_request: installmentAmount cannot exceed the bond amount');
+  }
+
+  return await transaction(async (query) => {
+    if (await getOpenBondForDriver(request.driverId, query)) {
+      throw new Error('driver_has_open_bond');
+    }
+
+    const reference = bondReference();
+    const bondId = await insertBond({
+      reference,
+      driverId: request.driverId,
+      collectionMethod: request.collectionMethod,
+      requiredAmount: round2(request.requiredAmount),
+      installmentAmount: installments ? round2(request.installmentAmount!) : null,
+      notes: request.notes ?? null,
+      createdBy
+    }, query);
+
+    // Installments ride on the daily settlement run, which credits 2200 for each deduction it takes
+    if (installments) {
+      const deductionId = await insertRecurringDeduction({
+        driverId: request.driverId,
+        type: 'bond',
+        creditAccountCode: LEDGER_ACCOUNTS.DRIVER_BONDS_HELD,
+        description: `Driver bond ${reference}`,
+        amountPerSettlement: round2(request.installmentAmount!),
+        totalAmount: round2(request.requiredAmount),
+        sourceType: 'driver_bond',
+        sourceId: bondId
+      }, query);
+      await updateBond(bondId, { recurringDeductionId: deductionId }, query);
+    }
+
+    await insertBondEvent(bondId, {
+      eventType: 'created',
+      amount: round2(request.requiredAmount),
+      actorId: createdBy,
+      note: installments ? `Collecting ${round2(request.installmentAmount!)} per settlement` : 'Lump-sum deposit'
+    }, query);
+
+    logger.info('Driver bond created', { bondId, reference, driverId: request.driverId }, {
+      component: 'BondService',
+      action: 'createBond'
+    });
+    return (await getBond(bondId, query))!;
+  });
+}
+
+/**
+ * Records money paid directly into a bond (cash, GCash, bank). Installment bonds
+ * accept top-ups too; the deposit shortens what settlements still have to collect.
+ */
+export async function recordBondDeposit(
+  bondId: string,
+  request: BondDepositRequest,
+  actorId: string
+): Promise<DriverBond> {
+  return await transaction(async (query) => {
+    const bond = await lockBond(bondId, query);
+    if (bond.status !== 'collecting') {
+      throw new Error('invalid_bond_state');
+    }
+    if (await getPendingBondRefund(bondId, query)) {
+      throw new Error('refund_pending');
+    }
+    const amount = round2(request.amount);
+    if (amount > outstandingAmount(bond)) {
+      throw new Error(`amount_exceeds_outstanding: ${outstandingAmount(bond).toFixed(2)} outstanding`);
+    }
+
+    const journalId = await postJournal({
+      reference: `BDP-${bond.reference}-${journalSuffix()}`,
+      description: `Bond deposit ${bond.reference}`,
+      sourceType: 'bond_deposit',
+      sourceId: bond.id,
+      postedBy: actorId,
+      lines: [
+        { accountCode: LEDGER_ACCOUNTS.CASH, driverId: bond.driverId, debit: amount, credit: 0 },
+        { accountCode: LEDGER_ACCOUNTS.DRIVER_BONDS_HELD, driverId: bond.driverId, debit: 0, credit: amount }
+      ]
+    }, query);
+
+    await updateBond(bond.id, collectionPatch(bond, amount), query);
+    if (bond.recurringDeductionId) {
+      await consumeRecurringDeduction(bond.recurringDeductionId, amount, query);
+    }
+    await insertBondEvent(bond.id, {
+      eventType: 'deposit',
+      amount,
+      journalId,
+      actorId,
+      note: request.paymentReference ? `Payment ${request.paymentReference}` : null
+    }, query);
+
+    return (await getBond(bond.id, query))!;
+  });
+}
+
+/**
+ * Called by the settlement run after it takes a bond deduction. The settlement
+ * journal already credits 2200, so this only keeps the bond's own totals in step.
+ */
+export async function applyBondInstallment(
+  recurringDeductionId: string,
+  amount: number,
+  settlementId: string,
+  query: QueryFn
+): Promise<void> {
+  const bond = await getBondByDeduction(recurringDeductionId, query);
+  if (!bond) {
+    return;
+  }
+
+  await updateBond(bond.id, collectionPatch(bond, amount), query);
+  await insertBondEvent(bond.id, {
+    eventType: 'installment',
+    amount,
+    settlementId,
+    actorId: SETTLEMENT_ACTOR
+  }, query);
+}
+
+/**
+ * Moves part or all of the held bond to fee revenue. Reasons that stem from an
+ * incident must name one involving the same driver. A bond forfeited down to zero
+ * is closed and stops collecting.
+ */
+export async function forfeitBond(
+  bondId: string,
+  request: BondForfeitRequest,
+  actorId: string
+): Promise<DriverBond> {
+  const reason = BOND_FORFEIT_REASONS[request.reasonCode];
+  if (!reason) {
+    throw new Error('invalid_bond_request: unknown reason code');
+  }
+  if (reason.requiresIncident && !request.incidentId) {
+    throw new Error(`incident_required: ${request.reasonCode} forfeitures must reference an incident`);
+  }
+
+  return await transaction(async (query) => {
+    const bond = await lockBond(bondId, query);
+    if (!isOpen(bond)) {
+      throw new Error('invalid_bond_state');
+    }
+    if (await getPendingBondRefund(bondId, query)) {
+      throw new Error('refund_pending');
+    }
+    const amount = round2(request.amount);
+    if (amount > bond.heldAmount) {
+      throw new Error(`amount_exceeds_held: ${bond.heldAmount.toFixed(2)} held`);
+    }
+
+    let incidentId: string | null = null;
+    if (request.incidentId) {
+      const incident = await findIncident(request.incidentId, query);
+      if (!incident) {
+        throw new Error('incident_not_found');
+      }
+      if (incident.driver_id !== bond.driverId) {
+        throw new Error('incident_driver_mismatch');
+      }
+      incidentId = incident.id;
+    }
+
+    const journalId = await postJournal({
+      reference: `BFF-${bond.reference}-${journalSuffix()}`,
+      description: `Bond forfeiture ${bond.reference}: ${reason.label}`,
+      sourceType: 'bond_forfeiture',
+      sourceId: bond.id,
+      postedBy: actorId,
+      lines: [
+        { accountCode: LEDGER_ACCOUNTS.DRIVER_BONDS_HELD, driverId: bond.driverId, debit: amount, credit: 0 },
+        { accountCode: LEDGER_ACCOUNTS.FEE_REVENUE, driverId: bond.driverId, debit: 0, credit: amount }
+      ]
+    }, query);
+
+    const exhausted = round2(bond.heldAmount - amount) <= 0;
+    await updateBond(bond.id, {
+      forfeitedAmount: round2(bond.forfeitedAmount + amount),
+      status: exhausted ? 'forfeited' : undefined
+    }, query);
+    if (exhausted && bond.recurringDeductionId) {
+      await closeRecurringDeduction(bond.recurringDeductionId, query);
+    }
+    await insertBondEvent(bond.id, {
+      eventType: 'forfeiture',
+      amount,
+      reasonCode: request.reasonCode,
+      incidentId,
+      journalId,
+      actorId,
+      note: request.note
+    }, query);
+
+    logger.info('Driver bond forfeited', { bondId, amount, reasonCode: request.reasonCode, incidentId }, {
+      component: 'BondService',
+      action: 'forfeitBond'
+    });
+    return (await getBond(bond.id, query))!;
+  });
+}
+
+/**
+ * Opens an approve_bond_refund request for everything the bond still holds.
+ * Settlement collection is paused while the request is open.
+ */
+export async function requestBondRefund(
+  bondId: string,
+  requesterId: string,
+  justification: string
+): Promise<BondRefund> {
+  return await transaction(async (query) => {
+    const bond = await lockBond(bondId, query);
+    if (!isOpen(bond) || bond.heldAmount <= 0) {
+      throw new Error('invalid_bond_state');
+    }
+    if (await getPendingBondRefund(bondId, query)) {
+      throw new Error('refund_pending');
+    }
+
+    const requestedAction = {
+      action: BOND_REFUND_APPROVAL_ACTION,
+      bond_id: bond.id,
+      bond_reference: bond.reference,
+      driver_id: bond.driverId,
+      amount: bond.heldAmount
+    };
+    const definition = getWorkflowDefinition(BOND_REFUND_APPROVAL_ACTION)!;
+    const validation = validateApprovalRequest(
+      { action: BOND_REFUND_APPROVAL_ACTION, justification, requested_action: requestedAction },
+      definition
+    );
+    if (!validation.valid) {
+      throw new Error(`invalid_approval_request: ${validation.errors.join('; ')}`);
+    }
+
+    const approval = await createApprovalRequest(
+      BOND_REFUND_APPROVAL_ACTION, requesterId, justification, requestedAction, APPROVAL_REQUEST_TTL_SECONDS, query
+    );
+    const refund = await insertBondRefund({
+      bondId: bond.id,
+      driverId: bond.driverId,
+      amount: bond.heldAmount,
+      approvalRequestId: approval.request_id,
+      justification,
+      requestedBy: requesterId
+    }, query);
+
+    if (bond.recurringDeductionId) {
+      await setRecurringDeductionActive(bond.recurringDeductionId, false, query);
+    }
+    await insertBondEvent(bond.id, {
+      eventType: 'refund_requested',
+      amount: refund.amount,
+      actorId: requesterId,
+      note: justification
+    }, query);
+
+    return refund;
+  });
+}
+
+async function lockPendingRefund(refundId: string, query: QueryFn): Promise<BondRefund> {
+  const refund = await getBondRefund(refundId, query, true);
+  if (!refund) {
+    throw new Error('refund_not_found');
+  }
+  if (refund.status !== 'pending_approval') {
+    throw new Error('invalid_refund_state');
+  }
+  return refund;
+}
+
+/**
+ * Releases an approved refund: the held bond moves back to the driver's payable
+ * balance (2100) and goes out with the next payout batch. The bond is closed.
+ */
+export async function releaseBondRefund(refundId: string, releasedBy: string): Promise<BondRefund> {
+  return await transaction(async (query) => {
+    const refund = await lockPendingRefund(refundId, query);
+    const bond = await lockBond(refund.bondId, query);
+    if (!isOpen(bond) || bond.heldAmount !== refund.amount) {
+      throw new Error('invalid_bond_state');
+    }
+
+    const approval = refund.approvalRequestId
+      ? await getApprovalRequestWithApprovers(refund.approvalRequestId, query)
+      : null;
+    assertRefundApprovalSatisfied(refund, approval);
+
+    const journalId = await postJournal({
+      reference: `BRF-${bond.reference}-${refund.id.slice(0, 8).toUpperCase()}`,
+      description: `Bond refund ${bond.reference}`,
+      sourceType: 'bond_refund',
+      sourceId: refund.id,
+      postedBy: releasedBy,
+      lines: [
+        { accountCode: LEDGER_ACCOUNTS.DRIVER_BONDS_HELD, driverId: bond.driverId, debit: refund.amount, credit: 0 },
+        { accountCode: LEDGER_ACCOUNTS.DRIVER_PAYABLES, driverId: bond.driverId, debit: 0, credit: refund.amount }
+      ]
+    }, query);
+
+    await updateBond(bond.id, {
+      refundedAmount: round2(bond.refundedAmount + refund.amount),
+      status: 'released',
+      releasedAt: new Date().toISOString()
+    }, query);
+    if (bond.recurringDeductionId) {
+      await closeRecurringDeduction(bond.recurringDeductionId, query);
+    }
+    const released = await closeBondRefund(refund.id, { status: 'released', decidedBy: releasedBy, journalId }, query);
+    await insertBondEvent(bond.id, {
+      eventType: 'refund_released',
+      amount: refund.amount,
+      journalId,
+      actorId: releasedBy
+    }, query);
+
+    logger.info('Driver bond refund released', { bondId: bond.id, refundId, amount: refund.amount }, {
+      component: 'BondService',
+      action: 'releaseBondRefund'
+    });
+    return released;
+  });
+}
+
+// Closes a refund without moving money; a bond still being collected resumes its deductions
+async function closeRefundWithoutRelease(
+  refundId: string,
+  status: 'rejected' | 'cancelled',
+  actorId: string,
+  note: string | null
+): Promise<BondRefund> {
+  return await transaction(async (query) => {
+    const refund = await lockPendingRefund(refundId, query);
+    const bond = await lockBond(refund.bondId, query);
+
+    const closed = await closeBondRefund(refund.id, { status, decidedBy: actorId, decisionNote: note }, query);
+    if (bond.recurringDeductionId && bond.status === 'collecting') {
+      await setRecurringDeductionActive(bond.recurringDeductionId, true, query);
+    }
+    await insertBondEvent(bond.id, {
+      eventType: status === 'rejected' ? 'refund_rejected' : 'refund_cancelled',
+      amount: refund.amount,
+      actorId,
+      note
+    }, query);
+    return closed;
+  });
+}
+
+export async function rejectBondRefund(refundId: string, reviewerId: string, note: string): Promise<BondRefund> {
+  return await closeRefundWithoutRelease(refundId, 'rejected', reviewerId, note);
+}
+
+export async function cancelBondRefund(refundId: string, actorId: string, note?: string): Promise<BondRefund> {
+  return await closeRefundWithoutRelease(refundId, 'cancelled', actorId, note ?? null);
+}
+
+// Bond with its movements, refund requests and the driver's balance in 2200 for comparison
+export async function getBondDetail(bondId: string): Promise<(DriverBond & { ledgerHeld: number }) | null> {
+  const bond = await getBond(bondId);
+  if (!bond) {
+    return null;
+  }
+  const [events, refunds, ledgerBalance] = await Promise.all([
+    listBondEvents(bondId),
+    listBondRefunds(bondId),
+    getAccountBalance(LEDGER_ACCOUNTS.DRIVER_BONDS_HELD, bond.driverId)
+  ]);
+  // 2200 is a liability: its balance is credits less debits
+  return { ...bond, events, refunds, ledgerHeld: round2(-ledgerBalance) };
+}
+
+/**
+ * Compares what the bond records hold per driver with Driver Bonds Held (2200).
+ * Any difference means a journal was posted to 2200 outside this service.
+ */
+export async function reconcileBonds(): Promise<BondReconciliationResult> {
+  const balances = await listBondHeldBalances();
+
+  const result: BondReconciliationResult = {
+    totalBondHeld: 0,
+    totalLedgerHeld: 0,
+    driversChecked: balances.length,
+    mismatches: []
+  };
+  for (const balance of balances) {
+    const bondHeld = round2(Number(balance.bond_held));
+    const ledgerHeld = round2(Number(balance.ledger_held));
+    result.totalBondHeld = round2(result.totalBondHeld + bondHeld);
+    result.totalLedgerHeld = round2(result.totalLedgerHeld + ledgerHeld);
+    if (bondHeld !== ledgerHeld) {
+      result.mismatches.push({
+        driverId: balance.driver_id,
+        driverName: balance.driver_name ?? undefined,
+        bondHeld,
+        ledgerHeld,
+        difference: round2(ledgerHeld - bondHeld)
+      });
+    }
+  }
+  return result;
+}
@@ -0,0 +1,545 @@
+import { randomUUID } from 'crypto';
+
+import { query, transaction } from '@/lib/db';
+import {
+  findApplicablePolicy,
+  claimChargeForPosting,
+  claimChargeForWaiver,
+  getActivePolicyInScope,
+  getCharge,
+  getPolicy,
+  insertCharge,
+  insertPolicy,
+  updateCharge,
+  updatePolicy as updatePolicyRow
+} from '@/lib/repos/cancellationsRepo';
+import { postJournal, QueryFn } from '@/lib/repos/ledgerRepo';
+import { getBookingPayment } from '@/lib/repos/paymentsRepo';
+import { logger } from '@/lib/security/productionLogger';
+import { capturePayment, refundPayment } from '@/lib/services/paymentService';
+import {
+  CANCELLABLE_STATUSES,
+  CancellableStatus,
+  CancellationAssessment,
+  CancellationCharge,
+  CancellationCollectionMethod,
+  CancellationContext,
+  CancellationFeeRule,
+  CancellationPolicy,
+  CancellingParty,
+  CreateCancellationPolicyRequest,
+  SAFETY_CANCELLATION_REASONS,
+  UpdateCancellationPolicyRequest
+} from '@/types/cancellation';
+import { JournalLine, LEDGER_ACCOUNTS } from '@/types/settlement';
+
+// HTTP status for each error code thrown by this service
+const CANCELLATION_ERROR_STATUS: Record<string, number> = {
+  policy_not_found: 404,
+  charge_not_found: 404,
+  booking_not_found: 404,
+  invalid_policy_request: 400,
+  policy_scope_taken: 409,
+  invalid_charge_state: 409,
+  charge_not_waivable: 409,
+  no_show_not_allowed: 403,
+  no_show_not_arrived: 409,
+  no_show_wait_not_elapsed: 409
+};
+
+export function cancellationErrorStatus(error: unknown): number | null {
+  const code = error instanceof Error ? error.message.split(':')[0] : '';
+  return CANCELLATION_ERROR_STATUS[code] ?? null;
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+const addSeconds = (iso: string, seconds: number) => new Date(new Date(iso).getTime() + seconds * 1000);
+
+const chargeReference = () => {
+  const date = new Date().toISOString().slice(0, 10).replace(/-/g, '');
+  return `CXL-${date}-${randomUUID().slice(0, 6).toUpperCase()}`;
+};
+
+const journalSuffix = () => randomUUID().slice(0, 8).toUpperCase();
+
+// Who a status update came from, as far as cancellation fees are concerned
+export function cancellingParty(updatedByType: string): CancellingParty {
+  if (updatedByType === 'customer') {
+    return 'rider';
+  }
+  return updatedByType === 'driver' ? 'driver' : 'operator';
+}
+
+export function isSafetyReason(reason?: string | null): boolean {
+  return !!reason && (SAFETY_CANCELLATION_REASONS as readonly string[]).includes(reason);
+}
+
+/**
+ * Prices a cancellation against a policy. Safety reasons and operator cancellations
+ * are always free; riders cancel free within the grace window or once the driver is
+ * late; otherwise whoever cancelled pays the fee set for the status the ride was in.
+ * A no-show is only accepted from a driver who reached the pickup and waited out
+ * the policy's wait time.
+ */
+export function assessCancellation(
+  policy: CancellationPolicy | null,
+  context: CancellationContext
+): CancellationAssessment {
+  const graceStart = context.acceptedAt ?? context.assignedAt;
+  const graceEndsAt = policy && graceStart ? addSeconds(graceStart, policy.riderGraceSeconds) : null;
+  const noShowAvailableAt = policy && context.arrivedAt
+    ? addSeconds(context.arrivedAt, policy.noShowWaitMinutes * 60)
+    : null;
+
+  const assessment: CancellationAssessment = {
+    outcome: 'free',
+    policyId: policy?.id ?? null,
+    riderFee: 0,
+    driverCompensation: 0,
+    driverPenalty: 0,
+    graceEndsAt: graceEndsAt?.toISOString() ?? null,
+    noShowAvailableAt: noShowAvailableAt?.toISOString() ?? null
+  };
+
+  if (context.noShow) {
+    if (context.cancelledBy === 'rider') {
+      throw new Error('no_show_not_allowed');
+    }
+    if (context.fromStatus !== 'arrived' || !context.arrivedAt) {
+      throw new Error('no_show_not_arrived');
+    }
+    if (noShowAvailableAt && context.now < noShowAvailableAt) {
+      const remaining = Math.ceil((noShowAvailableAt.getTime() - context.now.getTime()) / 1000);
+      throw new Error(`no_show_wait_not_elapsed: ${remaining}s left to wait`);
+    }
+    return {
+      ...assessment,
+      outcome: 'no_show',
+      riderFee: policy?.noShowFee ?? 0,
+      driverCompensation: policy?.noShowDriverCompensation ?? 0
+    };
+  }
+
+  if (isSafetyReason(context.reason)) {
+    return { ...assessment, outcome: 'waived' };
+  }
+  if (!policy || context.cancelledBy === 'operator') {
+    return assessment;
+  }
+
+  const rule = feeRuleFor(policy, context.cancelledBy, context.fromStatus);
+  if (context.cancelledBy === 'driver') {
+    return rule && rule.fee > 0 ? { ...assessment, outcome: 'driver_penalty', driverPenalty: rule.fee } : assessment;
+  }
+
+  if (graceEndsAt && context.now <= graceEndsAt) {
+    return { ...assessment, outcome: 'grace' };
+  }
+  const driverLate = !context.arrivedAt && context.estimatedPickupTime &&
+    context.now > addSeconds(context.estimatedPickupTime, policy.driverLateGraceMinutes * 60);
+  if (driverLate && ['assigned', 'accepted', 'en_route'].includes(context.fromStatus)) {
+    return { ...assessment, outcome: 'driver_late' };
+  }
+
+  return rule && rule.fee > 0
+    ? { ...assessment, outcome: 'fee', riderFee: rule.fee, driverCompensation: rule.driverCompensation }
+    : assessment;
+}
+
+function feeRuleFor(policy: CancellationPolicy, party: 'rider' | 'driver', status: string): CancellationFeeRule | null {
+  if (!CANCELLABLE_STATUSES.includes(status as CancellableStatus)) {
+    return null;
+  }
+  return policy.feeRules.find(rule => rule.cancelledBy === party && rule.fromStatus === status) ?? null;
+}
+
+// ============================================================================
+// POLICIES
+// ============================================================================
+
+function validatePolicy(policy: UpdateCancellationPolicyRequest): void {
+  const seen = new Set<string>();
+  for (const rule of policy.feeRules ?? []) {
+    const key = `${rule.cancelledBy}:${rule.fromStatus}`;
+    if (seen.has(key)) {
+      throw new Error(`invalid_policy_request: more than one ${rule.cancelledBy} fee rule for ${rule.fromStatus}`);
+    }
+    seen.add(key);
+    if (rule.driverCompensation > rule.fee) {
+      throw new Error(`invalid_policy_request: driver compensation exceeds the fee for ${key}`);
+    }
+    if (rule.cancelledBy === 'driver' && rule.driverCompensation > 0) {
+      throw new Error('invalid_policy_request: driver fee rules cannot compensate the driver');
+    }
+  }
+  if ((policy.noShowDriverCompensation ?? 0) > (policy.noShowFee ?? 0)) {
+    throw new Error('invalid_policy_request: no-show compensation exceeds the no-show fee');
+  }
+}
+
+export async function createPolicy(
+  request: CreateCancellationPolicyRequest,
+  createdBy: string
+): Promise<CancellationPolicy> {
+  validatePolicy(request);
+
+  return await transaction(async (query) => {
+    if (await getActivePolicyInScope(request.regionId ?? null, request.serviceType ?? null, query)) {
+      throw new Error('policy_scope_taken');
+    }
+    const policy = await insertPolicy({ ...request, createdBy }, query);
+    logger.info('Cancellation policy created', { policyId: policy.id, regionId: policy.regionId }, {
+      component: 'CancellationService',
+      action: 'createPolicy'
+    });
+    return policy;
+  });
+}
+
+export async function getPolicyDetail(id: string): Promise<CancellationPolicy> {
+  const policy = await getPolicy(id);
+  if (!policy) {
+    throw new Error('policy_not_found');
+  }
+  return policy;
+}
+
+/** Edits a policy. Re-activating one fails while another policy covers the same scope. */
+export async function updatePolicy(
+  id: string,
+  request: UpdateCancellationPolicyRequest,
+  actorId: string
+): Promise<CancellationPolicy> {
+  return await transaction(async (query) => {
+    const policy = await getPolicy(id, query, true);
+    if (!policy) {
+      throw new Error('policy_not_found');
+    }
+    validatePolicy({
+      feeRules: request.feeRules,
+      noShowFee: request.noShowFee ?? policy.noShowFee,
+      noShowDriverCompensation: request.noShowDriverCompensation ?? policy.noShowDriverCompensation
+    });
+    if (request.isActive && !policy.isActive) {
+      const active = await getActivePolicyInScope(policy.regionId ?? null, policy.serviceType ?? null, query);
+      if (active) {
+        throw new Error(`policy_scope_taken: ${active.name} is active for this region and service`);
+      }
+    }
+
+    await updatePolicyRow(id, request, query);
+    logger.info('Cancellation policy updated', { policyId: id, actorId, fields: Object.keys(request) }, {
+      component: 'CancellationService',
+      action: 'updatePolicy'
+    });
+    return (await getPolicy(id, query))!;
+  });
+}
+
+// ============================================================================
+// CHARGES
+// ============================================================================
+
+// The bookings columns a cancellation is priced from
+export interface CancelledBooking {
+  id: string;
+  region_id: string;
+  service_type: string;
+  customer_id: string;
+  driver_id: string | null;
+  status: string;
+  assigned_at: string | null;
+  accepted_at: string | null;
+  arrived_at: string | null;
+  actual_pickup_time: string | null;
+  estimated_pickup_time: string | null;
+}
+
+function contextFor(
+  booking: CancelledBooking,
+  request: { cancelledBy: CancellingParty; noShow: boolean; reason?: string | null },
+  now: Date
+): CancellationContext {
+  return {
+    ...request,
+    fromStatus: booking.status,
+    assignedAt: booking.assigned_at,
+    acceptedAt: booking.accepted_at,
+    // Rides that arrived before arrived_at existed only carry the pickup time
+    arrivedAt: booking.arrived_at ?? (booking.status === 'arrived' ? booking.actual_pickup_time : null),
+    estimatedPickupTime: booking.estimated_pickup_time,
+    now
+  };
+}
+
+/**
+ * Prices and records the charge for a booking being cancelled or marked a no-show.
+ * Runs inside the status change so an early no-show rolls the whole change back;
+ * the money moves in postCancellationCharge once the status change has committed.
+ */
+export async function recordCancellation(
+  q: QueryFn,
+  booking: CancelledBooking,
+  request: { cancelledBy: CancellingParty; noShow: boolean; reason?: string | null },
+  now: Date = new Date()
+): Promise<CancellationCharge> {
+  const policy = await findApplicablePolicy(booking.region_id, booking.service_type, q);
+  const assessment = assessCancellation(policy, contextFor(booking, request, now));
+
+  return await insertCharge({
+    reference: chargeReference(),
+    bookingId: booking.id,
+    policyId: assessment.policyId,
+    regionId: booking.region_id,
+    customerId: booking.customer_id,
+    driverId: booking.driver_id,
+    cancelledBy: request.cancelledBy,
+    fromStatus: booking.status,
+    reason: request.reason ?? null,
+    outcome: assessment.outcome,
+    riderFee: round2(assessment.riderFee),
+    // Compensation and penalties need a driver to pay or charge
+    driverCompensation: booking.driver_id ? round2(assessment.driverCompensation) : 0,
+    driverPenalty: booking.driver_id ? round2(assessment.driverPenalty) : 0
+  }, q);
+}
+
+/** What cancelling a booking right now would cost, without cancelling it. */
+export async function previewCancellation(
+  bookingId: string,
+  request: { cancelledBy: CancellingParty; noShow: boolean; reason?: string | null },
+  now: Date = new Date()
+): Promise<CancellationAssessment> {
+  const { rows } = await query<CancelledBooking>(`
+    SELECT id, region_id, service_type, customer_id, driver_id, status, assigned_at, accepted_at,
+           arrived_at, actual_pickup_time, estimated_pickup_time
+    FROM bookings WHERE id = $1
+  `, [bookingId]);
+  if (!rows[0]) {
+    throw new Error('booking_not_found');
+  }
+
+  const policy = await findApplicablePolicy(rows[0].region_id, rows[0].service_type);
+  return assessCancellation(policy, contextFor(rows[0], request, now));
+}
+
+/**
+ * Ledger lines for a posted charge. The rider's fee comes out of their prepaid payment
+ * (1000) or is billed to them (1200); the driver's share is credited to their payables
+ * so it goes out with their next payout, and the rest is fee revenue. A driver's
+ * penalty is taken from their payables.
+ */
+export function buildCancellationJournalLines(
+  charge: Pick<CancellationCharge, 'chargeReference' | 'driverId' | 'riderFee' | 'driverCompensation' | 'driverPenalty'>,
+  collectionMethod: CancellationCollectionMethod
+): JournalLine[] {
+  const description = `Cancellation ${charge.chargeReference}`;
+  const riderAccount = collectionMethod === 'prepaid' ? LEDGER_ACCOUNTS.CASH : LEDGER_ACCOUNTS.ACCOUNTS_RECEIVABLE;
+  return [
+    { accountCode: riderAccount, description, debit: charge.riderFee, credit: 0 },
+    {
+      accountCode: LEDGER_ACCOUNTS.DRIVER_PAYABLES, driverId: charge.driverId, description,
+      debit: 0, credit: charge.driverCompensation
+    },
+    {
+      accountCode: LEDGER_ACCOUNTS.FEE_REVENUE, description,
+      debit: 0, credit: round2(charge.riderFee - charge.driverCompensation)
+    },
+    {
+      accountCode: LEDGER_ACCOUNTS.DRIVER_PAYABLES, driverId: charge.driverId, description,
+      debit: charge.driverPenalty, credit: 0
+    },
+    { accountCode: LEDGER_ACCOUNTS.FEE_REVENUE, description, debit: 0, credit: charge.driverPenalty }
+  ].filter(line => line.debit > 0 || line.credit > 0);
+}
+
+/**
+ * Lines undoing a charge's fee revenue when it is waived. The rider gets their fee back
+ * and the driver keeps their penalty, but compensation already credited to a driver
+ * stays with them and becomes an operating expense.
+ */
+export function buildWaiverJournalLines(
+  charge: Pick<CancellationCharge, 'chargeReference' | 'driverId' | 'riderFee' | 'driverCompensation' | 'driverPenalty'>,
+  collectionMethod: CancellationCollectionMethod
+): JournalLine[] {
+  const description = `Waived cancellation ${charge.chargeReference}`;
+  const riderAccount = collectionMethod === 'prepaid' ? LEDGER_ACCOUNTS.CASH : LEDGER_ACCOUNTS.ACCOUNTS_RECEIVABLE;
+  return [
+    { accountCode: riderAccount, description, debit: 0, credit: charge.riderFee },
+    {
+      accountCode: LEDGER_ACCOUNTS.FEE_REVENUE, description,
+      debit: round2(charge.riderFee - charge.driverCompensation), credit: 0
+    },
+    { accountCode: LEDGER_ACCOUNTS.OPERATING_EXPENSES, description, debit: charge.driverCompensation, credit: 0 },
+    { accountCode: LEDGER_ACCOUNTS.FEE_REVENUE, description, debit: charge.driverPenalty, credit: 0 },
+    {
+      accountCode: LEDGER_ACCOUNTS.DRIVER_PAYABLES, driverId: charge.driverId, description,
+      debit: 0, credit: charge.driverPenalty
+    }
+  ].filter(line => line.debit > 0 || line.credit > 0);
+}
+
+/**
+ * Moves the money for a recorded charge. A prepaid rider is refunded whatever they paid
+ * beyond the fee, capturing an authorized payment first so the fee can be kept; a rider
+ * without a prepaid payment is billed the fee. The charge is claimed as 'posting' before any
+ * money moves, so overlapping posts back off instead of refunding twice. Safe to retry on a
+ * failed charge: the refund is only issued once.
+ */
+export async function postCancellationCharge(idOrReference: string, actorId: string): Promise<CancellationCharge> {
+  const charge = await getCharge(idOrReference);
+  if (!charge) {
+    throw new Error('charge_not_found');
+  }
+  if (charge.status === 'posted' || charge.status === 'waived') {
+    return charge;
+  }
+
+  const claimed = await claimChargeForPosting(charge.id);
+  if (!claimed) {
+    return (await getCharge(charge.id)) ?? charge;
+  }
+
+  try {
+    let payment = await getBookingPayment(claimed.bookingId);
+    if (payment?.status === 'processing' && claimed.riderFee > 0) {
+      payment = await capturePayment(payment.id);
+    }
+    const prepaid = payment?.status === 'completed' ? payment : null;
+    const available = prepaid ? round2(prepaid.amount - prepaid.refundedAmount) : 0;
+    const collectionMethod: CancellationCollectionMethod = prepaid && available >= claimed.riderFee
+      ? 'prepaid'
+      : 'receivable';
+
+    const refundable = round2(available - claimed.riderFee);
+    if (prepaid && collectionMethod === 'prepaid' && refundable > 0 && !claimed.refundId) {
+      const refund = await refundPayment(prepaid.id, refundable, `Cancellation ${claimed.chargeReference}`, actorId);
+      await updateCharge(claimed.id, { refundId: refund.id, paymentTransactionId: prepaid.id }, query);
+    }
+
+    return await transaction(async (query) => {
+      const locked = await getCharge(claimed.id, query, true);
+      if (!locked || locked.status !== 'posting') {
+        return locked ?? claimed;
+      }
+
+      const lines = buildCancellationJournalLines(locked, collectionMethod);
+      const journalId = lines.length > 0
+        ? await postJournal({
+          reference: `CXF-${locked.chargeReference}-${journalSuffix()}`,
+          description: `Cancellation ${locked.outcome} on booking ${locked.bookingId}`,
+          sourceType: 'cancellation_fee',
+          sourceId: locked.id,
+          postedBy: actorId,
+          lines
+        }, query)
+        : undefined;
+
+      await updateCharge(locked.id, {
+        status: 'posted',
+        collectionMethod: lines.length > 0 ? collectionMethod : undefined,
+        paymentTransactionId: collectionMethod === 'prepaid' ? prepaid?.id : undefined,
+        journalId,
+        failureReason: null,
+        postedAt: new Date().toISOString()
+      }, query);
+      return (await getCharge(locked.id, query))!;
+    });
+  } catch (error) {
+    await updateCharge(charge.id, { status: 'failed', failureReason: (error as Error).message }, query);
+    logger.error('Cancellation charge could not be posted', {
+      chargeId: charge.id,
+      bookingId: charge.bookingId,
+      error: (error as Error).message
+    }, { component: 'CancellationService', action: 'postCancellationCharge' });
+    throw error;
+  }
+}
+
+/**
+ * Forgives the rider's fee or the driver's penalty on a charge, typically once support
+ * confirms a safety issue. Unposted charges are posted first so the waiver always
+ * reverses real ledger entries. The charge is claimed as 'waiving' and a prepaid rider is
+ * refunded the fee before the waiver is journaled; a waiver that fails after the refund
+ * goes back to 'posted' with the refund recorded, so a retry finishes it without paying twice.
+ */
+export async function waiveCancellationCharge(
+  idOrReference: string,
+  reason: string,
+  actorId: string
+): Promise<CancellationCharge> {
+  let charge = await getCharge(idOrReference);
+  if (!charge) {
+    throw new Error('charge_not_found');
+  }
+  if (charge.status === 'waived') {
+    return charge;
+  }
+  if (charge.riderFee === 0 && charge.driverPenalty === 0) {
+    throw new Error('charge_not_waivable: nothing was charged');
+  }
+  if (charge.status !== 'posted' && charge.status !== 'waiving') {
+    charge = await postCancellationCharge(charge.id, actorId);
+  }
+
+  const claimed = await claimChargeForWaiver(charge.id);
+  if (!claimed) {
+    const current = (await getCharge(charge.id)) ?? charge;
+    if (current.status === 'waived' || current.status === 'waiving') {
+      return current;
+    }
+    throw new Error('invalid_charge_state');
+  }
+
+  try {
+    if (
+      claimed.collectionMethod === 'prepaid' && claimed.paymentTransactionId &&
+      claimed.riderFee > 0 && !claimed.waiverRefundId
+    ) {
+      const refund = await refundPayment(
+        claimed.paymentTransactionId, claimed.riderFee, `Waived cancellation ${claimed.chargeReference}`, actorId
+      );
+      await updateCharge(claimed.id, { waiverRefundId: refund.id }, query);
+    }
+
+    const waived = await transaction(async (query) => {
+      const locked = await getCharge(claimed.id, query, true);
+      if (!locked || locked.status !== 'waiving') {
+        throw new Error('invalid_charge_state');
+      }
+
+      const waiverJournalId = await postJournal({
+        reference: `CXW-${locked.chargeReference}-${journalSuffix()}`,
+        description: `Cancellation waiver on booking ${locked.bookingId}: ${reason}`,
+        sourceType: 'cancellation_waiver',
+        sourceId: locked.id,
+        postedBy: actorId,
+        lines: buildWaiverJournalLines(locked, locked.collectionMethod ?? 'receivable')
+      }, query);
+
+      await updateCharge(locked.id, {
+        status: 'waived',
+        waiverJournalId,
+        waiverReason: reason,
+        waivedBy: actorId,
+        waivedAt: new Date().toISOString()
+      }, query);
+      return (await getCharge(locked.id, query))!;
+    });
+
+    logger.info('Cancellation charge waived', { chargeId: waived.id, reason, actorId }, {
+      component: 'CancellationService',
+      action: 'waiveCancellationCharge'
+    });
+    return waived;
+  } catch (error) {
+    await updateCharge(claimed.id, { status: 'posted', failureReason: (error as Error).message }, query);
+    logger.error('Cancellation charge could not be waived', {
+      chargeId: claimed.id,
+      bookingId: claimed.bookingId,
+      error: (error as Error).message
+    }, { component: 'CancellationService', action: 'waiveCancellationCharge' });
+    throw error;
+  }
+}
@@ -0,0 +1,355 @@
+import { query, transaction } from '@/lib/db';
+import {
+  findAvailableCoordinators,
+  getCoordinator,
+  getCoordinatorByUser,
+  getOpenAssignment,
+  getShift,
+  hasOverlappingShift,
+  insertAssignment,
+  insertCoordinator,
+  insertShift,
+  listOpenAssignments,
+  listOverdueShifts,
+  releaseAssignment,
+  updateCoordinator as updateCoordinatorRow,
+  updateShift
+} from '@/lib/repos/coordinatorsRepo';
+import { QueryFn } from '@/lib/repos/ledgerRepo';
+import { logger } from '@/lib/security/productionLogger';
+import {
+  AssignmentReleaseReason,
+  CoordinatorAssignmentRequest,
+  CoordinatorHandover,
+  CoordinatorShift,
+  CreateCoordinatorRequest,
+  EmergencyCoordinator,
+  UpdateCoordinatorRequest
+} from '@/types/emergencyCoordinator';
+
+// HTTP status for each error code thrown by this service
+const COORDINATOR_ERROR_STATUS: Record<string, number> = {
+  coordinator_not_found: 404,
+  shift_not_found: 404,
+  assignment_not_found: 404,
+  invalid_coordinator_request: 400,
+  invalid_shift_request: 400,
+  coordinator_user_taken: 409,
+  coordinator_inactive: 409,
+  coordinator_off_duty: 409,
+  coordinator_at_capacity: 409,
+  shift_overlaps: 409,
+  invalid_shift_state: 409,
+  clock_in_too_early: 409
+};
+
+export function coordinatorErrorStatus(error: unknown): number | null {
+  const code = error instanceof Error ? error.message.split(':')[0] : '';
+  return COORDINATOR_ERROR_STATUS[code] ?? null;
+}
+
+// Coordinators may clock in this long before their shift starts
+const EARLY_CLOCK_IN_MINUTES = 15;
+
+// Longest shift that can be scheduled in one go
+const MAX_SHIFT_HOURS = 16;
+
+// ============================================================================
+// ROSTER
+// ============================================================================
+
+export async function createCoordinator(
+  request: CreateCoordinatorRequest,
+  createdBy: string
+): Promise<EmergencyCoordinator> {
+  if (request.userId && await getCoordinatorByUser(request.userId)) {
+    throw new Error(`coordinator_user_taken: ${request.userId} already has a coordinator profile`);
+  }
+  const id = await insertCoordinator({ ...request, createdBy });
+  return getCoordinatorDetail(id);
+}
+
+export async function getCoordinatorDetail(id: string): Promise<EmergencyCoordinator> {
+  const coordinator = await getCoordinator(id);
+  if (!coordinator) {
+    throw new Error('coordinator_not_found');
+  }
+  return coordinator;
+}
+
+/**
+ * Deactivating a coordinator ends their shift and hands every response they hold to
+ * someone else on duty, the same as clocking out.
+ */
+export async function updateCoordinator(
+  id: string,
+  request: UpdateCoordinatorRequest,
+  updatedBy: string
+): Promise<{ coordinator: EmergencyCoordinator; handovers: CoordinatorHandover[] }> {
+  const coordinator = await getCoordinatorDetail(id);
+  await updateCoordinatorRow(id, request);
+
+  let handovers: CoordinatorHandover[] = [];
+  if (request.isActive === false && coordinator.isActive) {
+    if (coordinator.currentShiftId) {
+      await updateShift(coordinator.currentShiftId, {
+        status: 'completed',
+        clockedOutAt: new Date().toISOString()
+      });
+    }
+    handovers = await handOverCoordinator(id, 'off_shift', 'Coordinator deactivated', updatedBy);
+  }
+
+  return { coordinator: await getCoordinatorDetail(id), handovers };
+}
+
+// ============================================================================
+// SHIFTS
+// ============================================================================
+
+export async function scheduleShift(
+  coordinatorId: string,
+  request: { startsAt: string; endsAt: string },
+  createdBy: string
+): Promise<CoordinatorShift> {
+  const coordinator = await getCoordinatorDetail(coordinatorId);
+  if (!coordinator.isActive) {
+    throw new Error('coordinator_inactive');
+  }
+
+  const startsAt = new Date(request.startsAt);
+  const endsAt = new Date(request.endsAt);
+  const hours = (endsAt.getTime() - startsAt.getTime()) / 3_600_000;
+  if (hours <= 0 || hours > MAX_SHIFT_HOURS) {
+    throw new Error(`invalid_shift_request: shifts run between 0 and ${MAX_SHIFT_HOURS} hours`);
+  }
+  if (endsAt.getTime() <= Date.now()) {
+    throw new Error('invalid_shift_request: shift has already ended');
+  }
+  if (await hasOverlappingShift(coordinatorId, startsAt.toISOString(), endsAt.toISOString())) {
+    throw new Error('shift_overlaps');
+  }
+
+  return insertShift({
+    coordinatorId,
+    startsAt: startsAt.toISOString(),
+    endsAt: endsAt.toISOString(),
+    createdBy
+  });
+}
+
+export async function clockIn(shiftId: string, now = new Date()): Promise<CoordinatorShift> {
+  return transaction(async q => {
+    const shift = await getShift(shiftId, q, true);
+    if (!shift) {
+      throw new Error('shift_not_found');
+    }
+    if (shift.status !== 'scheduled') {
+      throw new Error(`invalid_shift_state: shift is ${shift.status}`);
+    }
+    const coordinator = await getCoordinator(shift.coordinatorId, q, true);
+    if (!coordinator?.isActive) {
+      throw new Error('coordinator_inactive');
+    }
+    if (coordinator.onDuty) {
+      throw new Error('invalid_shift_state: coordinator is already on duty');
+    }
+
+    const opensAt = new Date(shift.startsAt).getTime() - EARLY_CLOCK_IN_MINUTES * 60_000;
+    if (now.getTime() < opensAt) {
+      throw new Error(`clock_in_too_early: opens ${new Date(opensAt).toISOString()}`);
+    }
+    if (now.getTime() >= new Date(shift.endsAt).getTime()) {
+      throw new Error('invalid_shift_state: shift has already ended');
+    }
+
+    await updateShift(shiftId, { status: 'on_duty', clockedInAt: now.toISOString() }, q);
+    return { ...shift, status: 'on_duty' as const, clockedInAt: now.toISOString() };
+  });
+}
+
+/**
+ * Ends a shift and hands the coordinator's open responses to whoever else is on duty,
+ * passing the handover notes along with each one.
+ */
+export async function clockOut(
+  shiftId: string,
+  handoverNotes: string | null,
+  clockedOutBy: string,
+  now = new Date()
+): Promise<{ shift: CoordinatorShift; handovers: CoordinatorHandover[] }> {
+  const shift = await transaction(async q => {
+    const current = await getShift(shiftId, q, true);
+    if (!current) {
+      throw new Error('shift_not_found');
+    }
+    if (current.status !== 'on_duty') {
+      throw new Error(`invalid_shift_state: shift is ${current.status}`);
+    }
+    await updateShift(shiftId, { status: 'completed', clockedOutAt: now.toISOString(), handoverNotes }, q);
+    return { ...current, status: 'completed' as const, clockedOutAt: now.toISOString(), handoverNotes };
+  });
+
+  const handovers = await handOverCoordinator(shift.coordinatorId, 'off_shift', handoverNotes, clockedOutBy);
+  return { shift, handovers };
+}
+
+export async function cancelShift(shiftId: string): Promise<CoordinatorShift> {
+  const shift = await getShift(shiftId);
+  if (!shift) {
+    throw new Error('shift_not_found');
+  }
+  if (shift.status !== 'scheduled') {
+    throw new Error(`invalid_shift_state: shift is ${shift.status}`);
+  }
+  await updateShift(shiftId, { status: 'cancelled' });
+  return { ...shift, status: 'cancelled' };
+}
+
+// Shifts that ran past their end without a clock-out are closed and their responses handed over
+export async function closeOverdueShifts(now = new Date()): Promise<CoordinatorHandover[]> {
+  const handovers: CoordinatorHandover[] = [];
+  for (const shift of await listOverdueShifts(now)) {
+    try {
+      const result = await clockOut(shift.id, shift.handoverNotes ?? null, 'system', now);
+      handovers.push(...result.handovers);
+    } catch (error) {
+      logger.warn(`Failed to close overdue coordinator shift ${shift.id}`, error);
+    }
+  }
+  return handovers;
+}
+
+// ============================================================================
+// ASSIGNMENTS
+// ============================================================================
+
+/**
+ * Gives a response the best coordinator on duty for it. Candidates are re-checked under
+ * a lock, so a coordinator who filled up or clocked out in the meantime is skipped.
+ * Returns null when nobody on duty covers the region with a free slot.
+ */
+export async function assignCoordinator(
+  request: CoordinatorAssignmentRequest,
+  q?: QueryFn
+): Promise<EmergencyCoordinator | null> {
+  const assign = async (tx: QueryFn) => {
+    const candidates = await findAvailableCoordinators(request, tx);
+    for (const candidate of candidates) {
+      const coordinator = await getCoordinator(candidate.id, tx, true);
+      if (!coordinator?.isActive || !coordinator.onDuty || coordinator.currentLoad >= coordinator.maxCapacity) {
+        continue;
+      }
+      await insertAssignment({ ...request, coordinatorId: coordinator.id }, tx);
+      return { ...coordinator, currentLoad: coordinator.currentLoad + 1 };
+    }
+    return null;
+  };
+  return q ? assign(q) : transaction(assign);
+}
+
+export async function releaseResponseCoordinator(
+  responseId: string,
+  reason: AssignmentReleaseReason,
+  q: QueryFn = query
+): Promise<void> {
+  const assignment = await getOpenAssignment(responseId, q);
+  if (assignment) {
+    await releaseAssignment(assignment.id, reason, null, q);
+  }
+}
+
+/**
+ * Moves one response to another coordinator: the one asked for, who must be on duty with
+ * a free slot, or otherwise the best available one other than the current holder.
+ */
+export async function handOverResponse(
+  responseId: string,
+  request: { toCoordinatorId?: string; handoverNotes: string },
+  handedOverBy: string
+): Promise<CoordinatorHandover> {
+  return transaction(async q => {
+    const assignment = await getOpenAssignment(responseId, q, true);
+    if (!assignment) {
+      throw new Error('assignment_not_found');
+    }
+
+    let to: EmergencyCoordinator | null = null;
+    if (request.toCoordinatorId) {
+      const target = await getCoordinator(request.toCoordinatorId, q, true);
+      if (!target) {
+        throw new Error('coordinator_not_found');
+      }
+      if (!target.isActive || !target.onDuty) {
+        throw new Error('coordinator_off_duty');
+      }
+      if (target.currentLoad >= target.maxCapacity) {
+        throw new Error(`coordinator_at_capacity: ${target.currentLoad}/${target.maxCapacity} responses`);
+      }
+      await releaseAssignment(assignment.id, 'handover', request.handoverNotes, q);
+      await insertAssignment({
+        ...assignment,
+        coordinatorId: target.id,
+        assignedBy: handedOverBy,
+        handoverNotes: request.handoverNotes,
+        previousAssignmentId: assignment.id
+      }, q);
+      to = { ...target, currentLoad: target.currentLoad + 1 };
+    } else {
+      await releaseAssignment(assignment.id, 'handover', request.handoverNotes, q);
+      to = await assignCoordinator({
+        responseId,
+        sosAlertId: assignment.sosAlertId,
+        regionId: assignment.regionId,
+        specialization: assignment.specialization,
+        assignedBy: handedOverBy,
+        excludeCoordinatorIds: [assignment.coordinatorId],
+        previousAssignmentId: assignment.id,
+        handoverNotes: request.handoverNotes
+      }, q);
+    }
+
+    return {
+      responseId,
+      sosAlertId: assignment.sosAlertId,
+      fromCoordinatorId: assignment.coordinatorId,
+      to,
+      reason: 'handover',
+      handoverNotes: request.handoverNotes
+    };
+  });
+}
+
+// Releases everything a coordinator holds and finds each response a new coordinator
+export async function handOverCoordinator(
+  coordinatorId: string,
+  reason: AssignmentReleaseReason,
+  handoverNotes: string | null,
+  handedOverBy: string
+): Promise<CoordinatorHandover[]> {
+  return transaction(async q => {
+    const handovers: CoordinatorHandover[] = [];
+    for (const assignment of await listOpenAssignments(coordinatorId, q)) {
+      await releaseAssignment(assignment.id, reason, handoverNotes, q);
+      const to = await assignCoordinator({
+        responseId: assignment.responseId,
+        sosAlertId: assignment.sosAlertId,
+        regionId: assignment.regionId,
+        specialization: assignment.specialization,
+        assignedBy: handedOverBy,
+        excludeCoordinatorIds: [coordinatorId],
+        previousAssignmentId: assignment.id,
+        handoverNotes
+      }, q);
+      handovers.push({
+        responseId: assignment.responseId,
+        sosAlertId: assignment.sosAlertId,
+        fromCoordinatorId: coordinatorId,
+        to,
+        reason,
+        handoverNotes
+      });
+    }
+    return handovers;
+  });
+}
@@ -0,0 +1,167 @@
+import { format, parseISO } from 'date-fns';
+
+import { formatAmount } from '@/lib/documents/billingDocuments';
+import { createDefaultEmailConfig, emailServices, EmailAttachment } from '@/lib/integrations/emailServices';
+import { createPhilippinesSMSConfig, smsServices } from '@/lib/integrations/smsServices';
+import { logger } from '@/lib/security/productionLogger';
+import { DunningChannel, DunningNotice, DunningTemplate } from '@/types/billing';
+
+export interface DunningMessageContext {
+  companyName: string;
+  contactPerson: string;
+  invoiceNumber?: string;
+  amountDue?: number;
+  dueDate?: string;
+  overdueAmount?: number;
+}
+
+export interface DunningMessage {
+  subject: string;
+  text: string;
+  sms: string;
+}
+
+export interface DeliveryOutcome {
+  status: DunningNotice['status'];
+  providerMessageId?: string;
+  error?: string;
+}
+
+const SIGNATURE = 'Xpress Corporate Billing';
+
+const displayDate = (date: string) => format(parseISO(date), 'MMM d, yyyy');
+
+/** Renders the email and SMS copy for a dunning template. */
+export function composeDunningMessage(template: DunningTemplate, context: DunningMessageContext): DunningMessage {
+  const invoice = context.invoiceNumber ?? '';
+  const amount = `PHP ${formatAmount(context.amountDue ?? 0)}`;
+  const due = context.dueDate ? displayDate(context.dueDate) : '';
+  const greeting = `Dear ${context.contactPerson || context.companyName},`;
+
+  const compose = (subject: string, body: string[], sms: string): DunningMessage => ({
+    subject,
+    text: [greeting, '', ...body, '', 'Thank you,', SIGNATURE].join('\n'),
+    sms: `Xpress: ${sms}`
+  });
+
+  switch (template) {
+    case 'upcoming':
+      return compose(`Invoice ${invoice} is due on ${due}`, [
+        `This is a courtesy reminder that invoice ${invoice} for ${amount} is due on ${due}.`,
+        'A copy of the invoice is attached. Please disregard this notice if payment is already on its way.'
+      ], `Invoice ${invoice} for ${amount} is due on ${due}.`);
+    case 'due':
+      return compose(`Invoice ${invoice} is due today`, [
+        `Invoice ${invoice} for ${amount} is due today, ${due}.`,
+        'A copy of the invoice is attached for your reference.'
+      ], `Invoice ${invoice} for ${amount} is due today.`);
+    case 'overdue':
+      return compose(`Overdue: invoice ${invoice}`, [
+        `Our records show that invoice ${invoice}, due on ${due}, remains unpaid. The balance is ${amount},`,
+        'including any late fees assessed under your payment terms.',
+        'Please settle the balance at your earliest convenience, or contact us if you have already paid.'
+      ], `Invoice ${invoice} (due ${due}) is overdue. Balance: ${amount}. Please settle to avoid late fees.`);
+    case 'final_notice':
+      return compose(`Final notice: invoice ${invoice}`, [
+        `Invoice ${invoice}, due on ${due}, remains unpaid with a balance of ${amount}.`,
+        `If the balance is not settled, bookings for ${context.companyName} will be suspended`,
+        'until the account is brought up to date.'
+      ], `FINAL NOTICE: invoice ${invoice} balance ${amount}. Bookings will be suspended if unpaid.`);
+    case 'suspended':
+      return compose(`Account suspended: ${context.companyName}`, [
+        `Corporate bookings for ${context.companyName} have been suspended because of an overdue balance`,
+        `of PHP ${formatAmount(context.overdueAmount ?? 0)}. Authorized bookers cannot book rides on the account`,
+        'until the overdue invoices are settled.'
+      ], `Bookings for ${context.companyName} are suspended for an overdue balance. Settle to restore access.`);
+    case 'reactivated':
+      return compose(`Account reactivated: ${context.companyName}`, [
+        `Corporate bookings for ${context.companyName} have been restored.`,
+        'Your authorized bookers can book rides on the account again.'
+      ], `Bookings for ${context.companyName} have been restored.`);
+  }
+}
+
+// ============================================================================
+// DELIVERY
+// ============================================================================
+
+// Without a SendGrid key, email runs in the integration's sandbox mode so runs still complete locally
+function emailService() {
+  const defaults = createDefaultEmailConfig();
+  const apiKey = process.env.SENDGRID_API_KEY || undefined;
+  const fromEmail = process.env.FROM_EMAIL || defaults.sendGrid.fromEmail;
+  return emailServices.getInstance({
+    ...defaults,
+    sendGrid: { ...defaults.sendGrid, apiKey, fromEmail, fromName: 'Xpress Corporate Billing' },
+    general: { ...defaults.general, enableSandboxMode: !apiKey }
+  });
+}
+
+export const smsConfigured = () => Boolean(process.env.TWILIO_ACCOUNT_SID && process.env.TWILIO_AUTH_TOKEN);
+
+function smsService() {
+  const defaults = createPhilippinesSMSConfig();
+  return smsServices.getInstance({
+    ...defaults,
+    globe: { ...defaults.globe, enabled: false },
+    smart: { ...defaults.smart, enabled: false },
+    twilio: {
+      ...defaults.twilio,
+      enabled: true,
+      accountSid: process.env.TWILIO_ACCOUNT_SID,
+      authToken: process.env.TWILIO_AUTH_TOKEN,
+      fromNumber: process.env.TWILIO_PHONE_NUMBER || defaults.twilio.fromNumber
+    },
+    general: { ...defaults.general, defaultProvider: 'twilio', enableCostOptimization: false }
+  });
+}
+
+/**
+ * Sends one notice on one channel. Provider errors are reported as a failed outcome rather
+ * than thrown, so a bad address never stops the rest of a dunning run.
+ */
+export async function deliverDunningNotice(
+  channel: DunningChannel,
+  recipients: string[],
+  message: DunningMessage,
+  attachments: EmailAttachment[] = []
+): Promise<DeliveryOutcome> {
+  if (recipients.length === 0) {
+    return { status: 'skipped', error: `no ${channel} recipient on file` };
+  }
+  try {
+    if (channel === 'email') {
+      const report = await emailService().sendEmail({
+        to: recipients,
+        subject: message.subject,
+        text: message.text,
+        attachments,
+        priority: 'normal',
+        category: 'dunning'
+      });
+      return report.status === 'failed'
+        ? { status: 'failed', providerMessageId: report.messageId, error: report.errorMessage ?? 'delivery_failed' }
+        : { status: 'sent', providerMessageId: report.messageId };
+    }
+
+    if (!smsConfigured()) {
+      return { status: 'skipped', error: 'sms_not_configured' };
+    }
+    const report = await smsService().sendSMS({
+      to: recipients[0],
+      message: message.sms,
+      type: 'notification',
+      priority: 'normal'
+    });
+    return report.status === 'failed' || report.status === 'expired'
+      ? { status: 'failed', providerMessageId: report.messageId, error: report.errorMessage ?? 'delivery_failed' }
+      : { status: 'sent', providerMessageId: report.messageId };
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    logger.warn('Dunning notice delivery failed', { channel, error: reason }, {
+      component: 'DunningNotifier',
+      action: 'deliverDunningNotice'
+    });
+    return { status: 'failed', error: reason };
+  }
+}
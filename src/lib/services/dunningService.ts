@@ -0,0 +1,372 @@
+import { differenceInCalendarDays, parseISO } from 'date-fns';
+
+import { transaction } from '@/lib/db';
+import { EmailAttachment } from '@/lib/integrations/emailServices';
+import { getAccount } from '@/lib/repos/corporateAccountsRepo';
+import {
+  DunningAccount,
+  DunningInvoice,
+  completeDunningRun,
+  insertDunningRun,
+  listDunningAccounts,
+  listDunningInvoices,
+  listDunningPolicies,
+  listSettledNoticeKeys,
+  reactivateAccount,
+  recordNotice,
+  setDunningOverride,
+  suspendAccount
+} from '@/lib/repos/dunningRepo';
+import { insertInvoiceActivity, updateInvoice } from '@/lib/repos/invoicesRepo';
+import { logger } from '@/lib/security/productionLogger';
+import { getInvoicePdf } from '@/lib/services/billingDocumentService';
+import {
+  DunningMessageContext,
+  composeDunningMessage,
+  deliverDunningNotice
+} from '@/lib/services/dunningNotifier';
+import { assessLateFees, manilaToday } from '@/lib/services/invoicingService';
+import {
+  CorporateAccount,
+  DunningChannel,
+  DunningPolicy,
+  DunningReminderStep,
+  DunningRunResult,
+  DunningTemplate,
+  InvoiceStatus
+} from '@/types/billing';
+
+// HTTP status for each error code thrown by this service
+const DUNNING_ERROR_STATUS: Record<string, number> = {
+  account_not_found: 404,
+  invalid_dunning_override: 400,
+  dunning_run_in_progress: 409
+};
+
+export function dunningErrorStatus(error: unknown): number | null {
+  const code = error instanceof Error ? error.message.split(':')[0] : '';
+  return DUNNING_ERROR_STATUS[code] ?? null;
+}
+
+// ============================================================================
+// POLICY EVALUATION
+// ============================================================================
+
+// The account's own policy when it is still active, otherwise the default
+export function resolveDunningPolicy(policies: DunningPolicy[], policyId?: string): DunningPolicy | null {
+  return policies.find(policy => policy.id === policyId) ?? policies.find(policy => policy.isDefault) ?? null;
+}
+
+/**
+ * The reminder an invoice has reached as of a date: the latest step whose day offset has
+ * passed. Courtesy and due-today steps only apply on their own side of the due date, and
+ * overdue steps wait until the invoice has actually been moved to overdue (past the grace
+ * period), so a catch-up run sends the current reminder rather than every missed one.
+ */
+export function selectReminderStep(
+  steps: DunningReminderStep[],
+  invoice: { status: InvoiceStatus; dueDate: string },
+  asOf: string
+): DunningReminderStep | null {
+  const daysFromDue = differenceInCalendarDays(parseISO(asOf), parseISO(invoice.dueDate));
+  const reached = steps
+    .filter(step => step.dayOffset <= daysFromDue)
+    .sort((a, b) => a.dayOffset - b.dayOffset);
+  const step = reached.length ? reached[reached.length - 1] : null;
+  if (!step) {
+    return null;
+  }
+  switch (step.template) {
+    case 'upcoming':
+      return daysFromDue < 0 ? step : null;
+    case 'due':
+      return daysFromDue === 0 ? step : null;
+    default:
+      return invoice.status === 'overdue' ? step : null;
+  }
+}
+
+// Whether the account's overdue balance has crossed the policy's suspension threshold
+export function suspensionThresholdCrossed(
+  policy: Pick<DunningPolicy, 'suspendAfterDaysOverdue' | 'suspendMinOverdueAmount'>,
+  account: Pick<DunningAccount, 'oldestOverdueDueDate' | 'overdueAmount'>,
+  asOf: string
+): boolean {
+  if (policy.suspendAfterDaysOverdue === undefined || !account.oldestOverdueDueDate || account.overdueAmount <= 0) {
+    return false;
+  }
+  const daysOverdue = differenceInCalendarDays(parseISO(asOf), parseISO(account.oldestOverdueDueDate));
+  return daysOverdue >= policy.suspendAfterDaysOverdue && account.overdueAmount >= policy.suspendMinOverdueAmount;
+}
+
+export const overrideActive = (account: Pick<DunningAccount, 'overrideUntil'>, asOf: string) =>
+  account.overrideUntil !== undefined && account.overrideUntil >= asOf;
+
+// ============================================================================
+// NOTIFICATIONS
+// ============================================================================
+
+interface NoticeTarget {
+  accountId: string;
+  contactEmail: string;
+  contactPhone: string;
+  invoiceId?: string;
+  sentTo?: string[];
+}
+
+const recipientsFor = (channel: DunningChannel, target: NoticeTarget) => {
+  if (channel === 'sms') {
+    return target.contactPhone ? [target.contactPhone] : [];
+  }
+  return target.sentTo?.length ? target.sentTo : [target.contactEmail].filter(Boolean);
+};
+
+// A reminder without its invoice attached is still worth sending
+async function invoiceAttachment(invoiceId: string, requestedBy: string): Promise<EmailAttachment[]> {
+  try {
+    const file = await getInvoicePdf(invoiceId, requestedBy);
+    return [{ filename: file.fileName, content: file.content, type: file.contentType }];
+  } catch (error) {
+    logger.warn('Invoice PDF unavailable for dunning reminder', {
+      invoiceId,
+      error: error instanceof Error ? error.message : String(error)
+    }, { component: 'DunningService', action: 'invoiceAttachment' });
+    return [];
+  }
+}
+
+/** Sends a template on each channel and records the outcome; returns the channels that went out. */
+async function sendNotices(
+  target: NoticeTarget,
+  stepKey: string,
+  template: DunningTemplate,
+  channels: DunningChannel[],
+  context: DunningMessageContext,
+  runId: string | undefined,
+  requestedBy: string,
+  result?: DunningRunResult
+): Promise<DunningChannel[]> {
+  const message = composeDunningMessage(template, context);
+  const attachments = target.invoiceId && channels.includes('email')
+    ? await invoiceAttachment(target.invoiceId, requestedBy)
+    : [];
+
+  const sent: DunningChannel[] = [];
+  for (const channel of channels) {
+    const recipients = recipientsFor(channel, target);
+    const outcome = await deliverDunningNotice(channel, recipients, message, attachments);
+    await recordNotice({
+      invoiceId: target.invoiceId,
+      accountId: target.accountId,
+      stepKey,
+      template,
+      channel,
+      recipient: recipients.join(', ').slice(0, 255) || '-',
+      runId,
+      ...outcome
+    });
+    if (outcome.status === 'sent') {
+      sent.push(channel);
+    }
+    if (result && outcome.status !== 'skipped') {
+      result[outcome.status === 'sent' ? 'remindersSent' : 'remindersFailed']++;
+    }
+  }
+  return sent;
+}
+
+const accountContext = (account: Pick<DunningAccount, 'companyName' | 'contactPerson' | 'overdueAmount'>) => ({
+  companyName: account.companyName,
+  contactPerson: account.contactPerson,
+  overdueAmount: account.overdueAmount
+});
+
+// ============================================================================
+// DUNNING RUN
+// ============================================================================
+
+async function sendReminders(
+  invoices: DunningInvoice[],
+  policies: DunningPolicy[],
+  asOf: string,
+  runBy: string,
+  result: DunningRunResult
+): Promise<void> {
+  const settled = await listSettledNoticeKeys(invoices.map(invoice => invoice.id));
+
+  for (const invoice of invoices) {
+    const policy = resolveDunningPolicy(policies, invoice.dunningPolicyId);
+    const step = policy ? selectReminderStep(policy.reminderSteps, invoice, asOf) : null;
+    if (!step) {
+      continue;
+    }
+    const pending = step.channels.filter(channel => !settled.get(invoice.id)?.has(`${step.key}:${channel}`));
+    if (pending.length === 0) {
+      continue;
+    }
+
+    const sent = await sendNotices(
+      { ...invoice, invoiceId: invoice.id },
+      step.key,
+      step.template,
+      pending,
+      invoice,
+      result.id,
+      runBy,
+      result
+    );
+    if (sent.length === 0) {
+      continue;
+    }
+    await transaction(async (query) => {
+      await updateInvoice(invoice.id, {
+        reminderCount: invoice.reminderCount + 1,
+        lastReminderDate: new Date().toISOString()
+      }, query);
+      await insertInvoiceActivity(
+        invoice.id,
+        'reminder_sent',
+        `${step.template.replace('_', ' ')} reminder sent by ${sent.join(' and ')}`,
+        runBy,
+        { stepKey: step.key, channels: sent, runId: result.id },
+        query
+      );
+    });
+  }
+}
+
+async function applySuspensions(
+  accounts: DunningAccount[],
+  policies: DunningPolicy[],
+  asOf: string,
+  runBy: string,
+  result: DunningRunResult
+): Promise<void> {
+  for (const account of accounts) {
+    const policy = resolveDunningPolicy(policies, account.dunningPolicyId);
+    const shouldSuspend = policy !== null
+      && suspensionThresholdCrossed(policy, account, asOf)
+      && !overrideActive(account, asOf);
+
+    if (account.status === 'active' && shouldSuspend) {
+      await transaction(query => suspendAccount(account.id, 'dunning', query));
+      result.accountsSuspended.push(account.id);
+      await sendNotices({ ...account, accountId: account.id }, 'suspended', 'suspended', ['email', 'sms'],
+        accountContext(account), result.id, runBy);
+    } else if (account.status === 'suspended' && !shouldSuspend) {
+      await transaction(query => reactivateAccount(account.id, query));
+      result.accountsReactivated.push(account.id);
+      await sendNotices({ ...account, accountId: account.id }, 'reactivated', 'reactivated', ['email'],
+        accountContext(account), result.id, runBy);
+    }
+  }
+}
+
+let runInProgress = false;
+
+/**
+ * Daily dunning pass: moves invoices past their grace period to overdue and assesses late
+ * fees, sends the reminder each open invoice has reached, then suspends accounts over their
+ * policy's threshold and reactivates dunning-suspended accounts that no longer are (paid down,
+ * or exempted by an account manager's override). Every step is idempotent for a given date.
+ */
+export async function runDunning(request: { asOf?: string }, runBy: string): Promise<DunningRunResult> {
+  if (runInProgress) {
+    throw new Error('dunning_run_in_progress');
+  }
+  runInProgress = true;
+  try {
+    const asOf = request.asOf ?? manilaToday();
+    const result: DunningRunResult = {
+      id: await insertDunningRun(asOf, runBy),
+      asOf,
+      invoicesMarkedOverdue: 0,
+      lateFeesAssessed: 0,
+      totalLateFees: 0,
+      remindersSent: 0,
+      remindersFailed: 0,
+      accountsSuspended: [],
+      accountsReactivated: []
+    };
+
+    const lateFees = await assessLateFees(asOf, runBy);
+    result.invoicesMarkedOverdue = lateFees.invoicesMarkedOverdue;
+    result.lateFeesAssessed = lateFees.lateFeesAssessed;
+    result.totalLateFees = lateFees.totalLateFees;
+
+    const policies = await listDunningPolicies();
+    const leadDays = Math.max(0, ...policies.flatMap(policy => policy.reminderSteps.map(step => -step.dayOffset)));
+    await sendReminders(await listDunningInvoices(asOf, leadDays), policies, asOf, runBy, result);
+    await applySuspensions(await listDunningAccounts(), policies, asOf, runBy, result);
+
+    await completeDunningRun(result);
+    logger.info('Dunning run completed', result, {
+      component: 'DunningService',
+      action: 'runDunning'
+    });
+    return result;
+  } finally {
+    runInProgress = false;
+  }
+}
+
+// ============================================================================
+// ACCOUNT MANAGER OVERRIDES
+// ============================================================================
+
+/**
+ * Exempts an account from automatic suspension until the given date. An account currently
+ * suspended by dunning is reactivated straight away; manual suspensions are left alone.
+ */
+export async function setAccountDunningOverride(
+  accountId: string,
+  request: { until: string; reason: string },
+  setBy: string
+): Promise<CorporateAccount> {
+  if (request.until < manilaToday()) {
+    throw new Error('invalid_dunning_override: until must not be in the past');
+  }
+
+  const { account, reactivated } = await transaction(async (query) => {
+    const current = await getAccount(accountId, query, true);
+    if (!current) {
+      throw new Error(`account_not_found: ${accountId}`);
+    }
+    await setDunningOverride(accountId, { ...request, setBy }, query);
+    const lift = current.status === 'suspended' && current.suspensionReason === 'dunning';
+    if (lift) {
+      await reactivateAccount(accountId, query);
+    }
+    return { account: (await getAccount(accountId, query))!, reactivated: lift };
+  });
+
+  if (reactivated) {
+    await sendNotices({ ...account, accountId }, 'reactivated', 'reactivated', ['email'], {
+      companyName: account.companyName,
+      contactPerson: account.contactPerson
+    }, undefined, setBy);
+  }
+
+  logger.info('Dunning override set', { accountId, until: request.until, setBy, reactivated }, {
+    component: 'DunningService',
+    action: 'setAccountDunningOverride'
+  });
+  return account;
+}
+
+// Removes the exemption; the next dunning run re-evaluates suspension
+export async function clearAccountDunningOverride(accountId: string, clearedBy: string): Promise<CorporateAccount> {
+  const account = await transaction(async (query) => {
+    if (!await getAccount(accountId, query, true)) {
+      throw new Error(`account_not_found: ${accountId}`);
+    }
+    await setDunningOverride(accountId, null, query);
+    return (await getAccount(accountId, query))!;
+  });
+
+  logger.info('Dunning override cleared', { accountId, clearedBy }, {
+    component: 'DunningService',
+    action: 'clearAccountDunningOverride'
+  });
+  return account;
+}
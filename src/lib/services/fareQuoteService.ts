@@ -0,0 +1,382 @@
+import crypto from 'crypto';
+
+import { latLngToCell } from 'h3-js';
+
+import { query, transaction } from '@/lib/db';
+import { DEFAULT_POOL_SPEED_KMH, distanceKm, routeDistanceKm } from '@/lib/matching/pooling';
+import {
+  FareSurge,
+  FareToll,
+  PRICING_SERVICE_KEYS,
+  TripFacts,
+  computeFare,
+  loadActivePricing
+} from '@/lib/pricing/fareEngine';
+import { lookupSurge } from '@/lib/pricing/surgeResolver';
+import { ServiceKey } from '@/lib/pricing/surgeSchemas';
+import {
+  claimQuote,
+  findApplicableQuotePolicy,
+  getQuote,
+  getQuotePolicy,
+  insertQuote,
+  recordQuoteReconciliation,
+  replaceQuotePolicy
+} from '@/lib/repos/fareQuotesRepo';
+import { QueryFn } from '@/lib/repos/ledgerRepo';
+import { logger } from '@/lib/security/productionLogger';
+import {
+  DEFAULT_QUOTE_POLICY,
+  FareQuote,
+  FareQuotePolicy,
+  IssueFareQuoteRequest,
+  IssuedFareQuote,
+  QuotePoint,
+  QuoteReconciliation,
+  SetFareQuotePolicyRequest
+} from '@/types/fareQuote';
+
+// HTTP status for each error code thrown by this service
+const FARE_QUOTE_ERROR_STATUS: Record<string, number> = {
+  quote_not_found: 404,
+  invalid_quote: 400,
+  quote_not_supported: 400,
+  quote_mismatch: 409,
+  quote_already_used: 409,
+  quote_expired: 410,
+  no_active_pricing: 422
+};
+
+export function fareQuoteErrorStatus(error: unknown): number | null {
+  const code = error instanceof Error ? error.message.split(':')[0] : '';
+  return FARE_QUOTE_ERROR_STATUS[code] ?? null;
+}
+
+// Straight-line legs understate city driving; roads run about 30% longer than the crow flies
+export const ROAD_DETOUR_FACTOR = 1.3;
+
+// How far the booked pickup or dropoff may sit from the quoted one
+export const QUOTE_LOCATION_TOLERANCE_KM = 0.3;
+
+const SURGE_LOOKUP_H3_RES = 8;
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+let devSecretWarned = false;
+
+// Read on use so a missing production secret fails quoting, not every route that imports this
+function quoteSecret(): string {
+  if (process.env.FARE_QUOTE_SECRET) {
+    return process.env.FARE_QUOTE_SECRET;
+  }
+  if (process.env.NODE_ENV === 'production') {
+    throw new Error('FARE_QUOTE_SECRET environment variable is required in production');
+  }
+  if (!devSecretWarned) {
+    logger.warn('Using default fare quote secret - only for development');
+    devSecretWarned = true;
+  }
+  return 'dev-fare-quote-secret';
+}
+
+// ============================================================================
+// SIGNED QUOTE IDS
+// ============================================================================
+
+type SignedQuoteFields = Pick<
+  FareQuote,
+  'id' | 'expiresAt' | 'regionId' | 'serviceType' | 'customerId' | 'profileVersion' | 'surgeMultiplier' | 'total'
+>;
+
+const expiresEpoch = (quote: Pick<FareQuote, 'expiresAt'>) => Math.floor(new Date(quote.expiresAt).getTime() / 1000);
+
+function quoteSignature(quote: SignedQuoteFields): string {
+  const payload = [
+    quote.id,
+    expiresEpoch(quote),
+    quote.regionId,
+    quote.serviceType,
+    quote.customerId ?? '',
+    quote.profileVersion,
+    quote.surgeMultiplier.toFixed(2),
+    quote.total.toFixed(2)
+  ].join('|');
+  return crypto.createHmac('sha256', quoteSecret()).update(payload).digest('hex');
+}
+
+/**
+ * The quote ID riders book with: `<uuid>.<expiry epoch seconds>.<hmac>`. The HMAC covers the
+ * price, surge, profile version and expiry, so an altered quote or stored row fails verification.
+ */
+export function signQuote(quote: SignedQuoteFields): string {
+  return `${quote.id}.${expiresEpoch(quote)}.${quoteSignature(quote)}`;
+}
+
+export function parseQuoteId(quoteId: string): { id: string; expires: number; signature: string } {
+  const match = /^([0-9a-f-]{36})\.(\d{1,12})\.([0-9a-f]{64})$/i.exec(quoteId.trim());
+  if (!match) {
+    throw new Error('invalid_quote: malformed quote ID');
+  }
+  return { id: match[1], expires: Number(match[2]), signature: match[3] };
+}
+
+/** Checks a quote ID against the stored quote it names and that it has not expired. */
+export function verifyQuoteId(quoteId: string, quote: SignedQuoteFields, now: Date = new Date()): void {
+  const parsed = parseQuoteId(quoteId);
+  const expected = Buffer.from(quoteSignature(quote), 'hex');
+  const received = Buffer.from(parsed.signature, 'hex');
+  if (
+    parsed.id !== quote.id ||
+    parsed.expires !== expiresEpoch(quote) ||
+    expected.length !== received.length ||
+    !crypto.timingSafeEqual(expected, received)
+  ) {
+    throw new Error('invalid_quote: signature does not match');
+  }
+  if (now.getTime() >= new Date(quote.expiresAt).getTime()) {
+    throw new Error(`quote_expired: expired at ${quote.expiresAt}`);
+  }
+}
+
+// ============================================================================
+// ISSUING
+// ============================================================================
+
+// Road distance and driving time along pickup, stops and dropoff
+export function estimateRoute(route: QuotePoint[]): { distanceKm: number; durationMin: number } {
+  const km = round2(routeDistanceKm(route) * ROAD_DETOUR_FACTOR);
+  return { distanceKm: km, durationMin: round2((km / DEFAULT_POOL_SPEED_KMH) * 60) };
+}
+
+// Surge as locked on the quote, in the form the fare engine takes
+const quotedSurge = (quote: Pick<FareQuote, 'surgeMultiplier' | 'surgeAdditiveFee' | 'surgeRule'>): FareSurge => ({
+  multiplier: quote.surgeMultiplier,
+  additiveFee: quote.surgeAdditiveFee,
+  rule: quote.surgeRule ?? undefined,
+  ruleId: Number(quote.surgeRule?.split(':')[1]) || null
+});
+
+/**
+ * Prices a trip with the region's active profile and the surge at the pickup right now, and
+ * stores the result as a quote that can be booked until its policy's time-to-live runs out.
+ */
+export async function issueQuote(request: IssueFareQuoteRequest, now: Date = new Date()): Promise<IssuedFareQuote> {
+  if (request.serviceType === 'ride_pool') {
+    throw new Error('quote_not_supported: pooled fares depend on who shares the ride');
+  }
+  const serviceKey = PRICING_SERVICE_KEYS[request.serviceType];
+  const active = serviceKey ? await loadActivePricing(request.regionId, serviceKey) : null;
+  if (!serviceKey || !active) {
+    throw new Error(`no_active_pricing: no active profile for ${request.serviceType} in ${request.regionId}`);
+  }
+
+  const route = [request.pickup, ...(request.stops ?? []), request.dropoff];
+  const estimate = estimateRoute(route);
+  const surge = await lookupSurge({
+    serviceKey: serviceKey as ServiceKey,
+    originH3: latLngToCell(request.pickup.latitude, request.pickup.longitude, SURGE_LOOKUP_H3_RES),
+    timestamp: now.toISOString(),
+    regionId: request.regionId
+  });
+  const isAirport = Boolean(request.isAirport);
+
+  const breakdown = computeFare({
+    pricing: active.pricing,
+    caps: active.caps,
+    trip: { distanceKm: estimate.distanceKm, durationMin: estimate.durationMin, isAirport },
+    surge: { multiplier: surge.multiplier, additiveFee: surge.additiveFee, rule: surge.rule, ruleId: surge.ruleId }
+  });
+
+  const policy = await findApplicableQuotePolicy(request.regionId, serviceKey);
+  const ttlSeconds = policy?.quoteTtlSeconds ?? DEFAULT_QUOTE_POLICY.quoteTtlSeconds;
+  // Whole seconds, so the expiry in the quote ID matches the stored one exactly
+  const expiresAt = new Date(Math.floor(now.getTime() / 1000) * 1000 + ttlSeconds * 1000).toISOString();
+
+  const quote = await insertQuote({
+    id: crypto.randomUUID(),
+    regionId: request.regionId,
+    serviceType: request.serviceType,
+    serviceKey,
+    customerId: request.customerId ?? null,
+    policyId: policy?.id ?? null,
+    profileId: active.pricing.profileId,
+    profileVersion: active.version,
+    pricing: { pricing: active.pricing, caps: active.caps },
+    surgeMultiplier: breakdown.surgeMultiplier,
+    surgeAdditiveFee: surge.additiveFee,
+    surgeRule: surge.rule ?? null,
+    route,
+    estimatedDistanceKm: estimate.distanceKm,
+    estimatedDurationMin: estimate.durationMin,
+    isAirport,
+    breakdown: breakdown.lines,
+    total: breakdown.total,
+    expiresAt
+  });
+
+  return {
+    quoteId: signQuote(quote),
+    expiresAt: quote.expiresAt,
+    total: quote.total,
+    surgeMultiplier: quote.surgeMultiplier,
+    estimatedDistanceKm: quote.estimatedDistanceKm,
+    estimatedDurationMin: quote.estimatedDurationMin,
+    profileVersion: quote.profileVersion,
+    lines: breakdown.lines
+      .filter(line => line.publish)
+      .map(({ key, label, amount, meta }) => ({ key, label, amount, meta }))
+  };
+}
+
+// ============================================================================
+// BOOKING
+// ============================================================================
+
+// The booking a quote is being redeemed for
+export interface QuotedBookingRequest {
+  customerId: string;
+  regionId: string;
+  serviceType: string;
+  pickup: QuotePoint;
+  dropoff?: QuotePoint | null;
+}
+
+// The first thing about the booking that is not what was quoted, if any
+function quoteMismatch(quote: FareQuote, booking: QuotedBookingRequest): string | null {
+  const quotedDropoff = quote.route[quote.route.length - 1];
+  const checks: [string, boolean][] = [
+    ['customer', Boolean(quote.customerId) && quote.customerId !== booking.customerId],
+    ['region', quote.regionId !== String(booking.regionId)],
+    ['service', quote.serviceType !== booking.serviceType],
+    ['pickup', distanceKm(quote.route[0], booking.pickup) > QUOTE_LOCATION_TOLERANCE_KM],
+    ['dropoff', !booking.dropoff || distanceKm(quotedDropoff, booking.dropoff) > QUOTE_LOCATION_TOLERANCE_KM]
+  ];
+  return checks.find(([, differs]) => differs)?.[0] ?? null;
+}
+
+/**
+ * Verifies a quote ID and claims the quote for a booking. A quote books once: the claim is
+ * atomic, and a booking that differs from what was quoted in rider, region, service, pickup
+ * or dropoff is refused. Release the quote if the booking then fails to be created.
+ */
+export async function redeemQuote(
+  quoteId: string,
+  booking: QuotedBookingRequest,
+  q: QueryFn = query,
+  now: Date = new Date()
+): Promise<FareQuote> {
+  const quote = await getQuote(parseQuoteId(quoteId).id, q);
+  if (!quote) {
+    throw new Error('quote_not_found');
+  }
+  verifyQuoteId(quoteId, quote, now);
+
+  const mismatch = quoteMismatch(quote, booking);
+  if (mismatch) {
+    throw new Error(`quote_mismatch: booking ${mismatch} differs from the quote`);
+  }
+
+  const claimed = await claimQuote(quote.id, q);
+  if (!claimed) {
+    throw new Error(quote.status === 'issued' ? `quote_expired: expired at ${quote.expiresAt}` : 'quote_already_used');
+  }
+  return claimed;
+}
+
+// ============================================================================
+// RECONCILIATION
+// ============================================================================
+
+// Signed percentage the actual figure is off the estimate by
+const deviationPct = (actual: number, estimated: number) =>
+  estimated > 0 ? round2(((actual - estimated) / estimated) * 100) : 0;
+
+/**
+ * Settles a quoted trip. Both fares use the pricing and surge locked on the quote, and both
+ * carry the tolls actually paid. Within tolerance the quote stands; past it the trip is
+ * repriced from its actual distance and time, unless the policy forbids raising the fare
+ * and the reprice would have.
+ */
+export function assessReconciliation(
+  quote: Pick<FareQuote,
+    | 'pricing' | 'surgeMultiplier' | 'surgeAdditiveFee' | 'surgeRule' | 'estimatedDistanceKm'
+    | 'estimatedDurationMin' | 'isAirport'>,
+  actual: Omit<TripFacts, 'isAirport'>,
+  tolls: FareToll[],
+  policy: Pick<FareQuotePolicy, 'distanceTolerancePct' | 'durationTolerancePct' | 'allowIncrease'>
+): QuoteReconciliation {
+  const priceFor = (distanceKm: number, durationMin: number) => computeFare({
+    ...quote.pricing,
+    trip: { distanceKm, durationMin, isAirport: quote.isAirport },
+    surge: quotedSurge(quote),
+    tolls
+  });
+  const quotedFare = priceFor(quote.estimatedDistanceKm, quote.estimatedDurationMin);
+  const repricedFare = priceFor(actual.distanceKm, actual.durationMin);
+
+  const distanceDeviation = deviationPct(actual.distanceKm, quote.estimatedDistanceKm);
+  const durationDeviation = deviationPct(actual.durationMin, quote.estimatedDurationMin);
+  const strayed = Math.abs(distanceDeviation) > policy.distanceTolerancePct ||
+    (policy.durationTolerancePct !== null && Math.abs(durationDeviation) > policy.durationTolerancePct);
+  const repriced = strayed && (policy.allowIncrease || repricedFare.total < quotedFare.total);
+  const finalFare = repriced ? repricedFare : quotedFare;
+
+  return {
+    outcome: repriced ? 'repriced' : 'honoured',
+    distanceDeviationPct: distanceDeviation,
+    durationDeviationPct: durationDeviation,
+    quotedFare,
+    repricedFare,
+    finalFare,
+    fareDelta: round2(finalFare.total - quotedFare.total)
+  };
+}
+
+/** Reconciles a completed quoted booking under the policy it was quoted with and records the outcome. */
+export async function reconcileQuotedBooking(
+  q: QueryFn,
+  quote: FareQuote,
+  actual: Omit<TripFacts, 'isAirport'>,
+  tolls: FareToll[]
+): Promise<QuoteReconciliation> {
+  const policy = (quote.policyId ? await getQuotePolicy(quote.policyId, q) : null) ?? DEFAULT_QUOTE_POLICY;
+  const result = assessReconciliation(quote, actual, tolls, policy);
+
+  await recordQuoteReconciliation(quote.id, {
+    actualDistanceKm: actual.distanceKm,
+    actualDurationMin: actual.durationMin,
+    distanceDeviationPct: result.distanceDeviationPct,
+    durationDeviationPct: result.durationDeviationPct,
+    outcome: result.outcome,
+    finalFare: result.finalFare.total,
+    fareDelta: result.fareDelta
+  }, q);
+
+  if (result.outcome === 'repriced') {
+    logger.info('Quoted booking repriced past tolerance', {
+      quoteId: quote.id,
+      bookingId: quote.bookingId,
+      distanceDeviationPct: result.distanceDeviationPct,
+      durationDeviationPct: result.durationDeviationPct,
+      fareDelta: result.fareDelta
+    }, { component: 'FareQuoteService', action: 'reconcileQuotedBooking' });
+  }
+  return result;
+}
+
+// ============================================================================
+// POLICIES
+// ============================================================================
+
+export async function setQuotePolicy(request: SetFareQuotePolicyRequest, actorId: string): Promise<FareQuotePolicy> {
+  return await transaction(async (query) => {
+    const policy = await replaceQuotePolicy({ ...request, updatedBy: actorId }, query);
+    logger.info('Fare quote policy replaced', {
+      policyId: policy.id,
+      regionId: policy.regionId,
+      serviceKey: policy.serviceKey,
+      actorId
+    }, { component: 'FareQuoteService', action: 'setQuotePolicy' });
+    return policy;
+  });
+}
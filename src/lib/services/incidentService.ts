@@ -0,0 +1,476 @@
+import { transaction } from '@/lib/db';
+import { driverSafetyMonitoring } from '@/lib/driverSafetyMonitoring';
+import {
+  getDriverStanding,
+  getIncident,
+  insertAuditEntry,
+  insertEvidence,
+  insertIncident,
+  insertStatement,
+  linkSOSAlertToIncident,
+  listAuditEntries,
+  listEvidence,
+  listStatements,
+  suspendDriver,
+  updateIncident
+} from '@/lib/repos/incidentsRepo';
+import { QueryFn } from '@/lib/repos/ledgerRepo';
+import { getSOSAlert } from '@/lib/repos/sosRepo';
+import { logger } from '@/lib/security/productionLogger';
+import {
+  CloseIncidentRequest,
+  CreateIncidentRequest,
+  IncidentAuditEntry,
+  IncidentCase,
+  IncidentCaseDetail,
+  IncidentEvidence,
+  IncidentOutcomeCode,
+  IncidentPriority,
+  IncidentSLA,
+  IncidentSLATimer,
+  IncidentStatement,
+  INCIDENT_SLA_MINUTES,
+  INVESTIGATION_STAGES,
+  InvestigationStage,
+  NewIncidentEvidence,
+  NewIncidentStatement
+} from '@/types/incident';
+
+// HTTP status for each error code thrown by this service
+const INCIDENT_ERROR_STATUS: Record<string, number> = {
+  incident_not_found: 404,
+  sos_not_found: 404,
+  driver_not_found: 404,
+  invalid_incident_request: 400,
+  incident_closed: 409,
+  incident_already_acknowledged: 409,
+  invalid_stage_transition: 409,
+  closure_checklist_incomplete: 409
+};
+
+export function incidentErrorStatus(error: unknown): number | null {
+  const code = error instanceof Error ? error.message.split(':')[0] : '';
+  return INCIDENT_ERROR_STATUS[code] ?? null;
+}
+
+// Outcomes that are decisions about the driver, so the case must name one
+const DRIVER_OUTCOMES: IncidentOutcomeCode[] = ['coaching', 'warning', 'suspension', 'deactivation'];
+
+export type IncidentAction =
+  | 'acknowledge'
+  | 'assign'
+  | 'advance'
+  | 'escalate'
+  | 'add_evidence'
+  | 'add_statement'
+  | 'close';
+
+// What an investigator may still do with a case
+export function allowedIncidentActions(incident: IncidentCase): IncidentAction[] {
+  if (incident.closedAt) {
+    return [];
+  }
+  const actions: IncidentAction[] = incident.status === 'open' ? ['acknowledge'] : [];
+  actions.push('assign', 'advance', 'add_evidence', 'add_statement', 'close');
+  if (incident.status !== 'escalated') {
+    actions.push('escalate');
+  }
+  return actions;
+}
+
+export function slaDeadlines(
+  priority: IncidentPriority,
+  openedAt: Date
+): { slaResponseDueAt: string; slaInvestigationDueAt: string; slaClosureDueAt: string } {
+  const minutes = INCIDENT_SLA_MINUTES[priority];
+  const after = (m: number) => new Date(openedAt.getTime() + m * 60_000).toISOString();
+  return {
+    slaResponseDueAt: after(minutes.response),
+    slaInvestigationDueAt: after(minutes.investigation),
+    slaClosureDueAt: after(minutes.closure)
+  };
+}
+
+/**
+ * Each timer stops at its milestone: acknowledgement, the investigation starting and
+ * closure. A timer is breached when its milestone came late, or has not come and the
+ * deadline has passed.
+ */
+export function incidentSLA(incident: IncidentCase, now = new Date()): IncidentSLA {
+  const timers: [IncidentSLATimer, string, string | null | undefined][] = [
+    ['response', incident.slaResponseDueAt, incident.acknowledgedAt],
+    ['investigation', incident.slaInvestigationDueAt, incident.investigationStartedAt],
+    ['closure', incident.slaClosureDueAt, incident.closedAt]
+  ];
+
+  const breached: IncidentSLATimer[] = [];
+  let nextDueAt: string | null = null;
+  for (const [timer, dueAt, metAt] of timers) {
+    const due = new Date(dueAt).getTime();
+    if (metAt ? new Date(metAt).getTime() > due : now.getTime() > due) {
+      breached.push(timer);
+    }
+    if (!metAt && (nextDueAt === null || due < new Date(nextDueAt).getTime())) {
+      nextDueAt = new Date(dueAt).toISOString();
+    }
+  }
+
+  return {
+    responseDueAt: new Date(incident.slaResponseDueAt).toISOString(),
+    investigationDueAt: new Date(incident.slaInvestigationDueAt).toISOString(),
+    closureDueAt: new Date(incident.slaClosureDueAt).toISOString(),
+    breached,
+    nextDueAt
+  };
+}
+
+async function getOpenIncidentForUpdate(idOrCode: string, q: QueryFn): Promise<IncidentCase> {
+  const incident = await getIncident(idOrCode, q, true);
+  if (!incident) {
+    throw new Error('incident_not_found');
+  }
+  if (incident.closedAt) {
+    throw new Error(`incident_closed: ${incident.incidentCode} was closed ${incident.closedAt}`);
+  }
+  return incident;
+}
+
+// ============================================================================
+// CASES
+// ============================================================================
+
+/**
+ * Opens a case. Cases raised from an SOS alert take the driver, booking, location and
+ * reporter from the alert unless given, and the alert is linked back to the case.
+ */
+export async function createIncident(
+  request: CreateIncidentRequest,
+  createdBy: string,
+  now = new Date()
+): Promise<IncidentCaseDetail> {
+  let fields = { ...request };
+  if (request.sosAlertId) {
+    const alert = await getSOSAlert(request.sosAlertId);
+    if (!alert) {
+      throw new Error('sos_not_found');
+    }
+    fields = {
+      reporterType: alert.reporter.type === 'passenger' ? 'customer' : alert.reporter.type,
+      reporterId: alert.reporter.id,
+      reporterContact: alert.reporter.phone ?? undefined,
+      driverId: alert.driverId ?? undefined,
+      bookingId: alert.bookingId ?? undefined,
+      regionId: alert.regionId ?? undefined,
+      location: {
+        latitude: alert.location.latitude,
+        longitude: alert.location.longitude,
+        address: alert.location.address ?? undefined
+      },
+      ...request,
+      sosAlertId: alert.id
+    };
+  }
+
+  const id = await transaction(async q => {
+    const incidentId = await insertIncident({
+      ...fields,
+      reporterType: fields.reporterType ?? 'operator',
+      reporterId: fields.reporterId ?? createdBy,
+      createdBy,
+      ...slaDeadlines(request.priority, now)
+    }, q);
+
+    if (fields.sosAlertId) {
+      await linkSOSAlertToIncident(fields.sosAlertId, incidentId, q);
+    }
+    await insertAuditEntry({
+      incidentId,
+      action: 'created',
+      actor: createdBy,
+      changes: { type: fields.type, priority: fields.priority, sosAlertId: fields.sosAlertId ?? null }
+    }, q);
+    if (fields.assignedTo) {
+      await insertAuditEntry({
+        incidentId, action: 'assigned', actor: createdBy, changes: { assignedTo: { from: null, to: fields.assignedTo } }
+      }, q);
+    }
+    return incidentId;
+  });
+
+  return getIncidentDetail(id, now);
+}
+
+export async function getIncidentDetail(idOrCode: string, now = new Date()): Promise<IncidentCaseDetail> {
+  const incident = await getIncident(idOrCode);
+  if (!incident) {
+    throw new Error('incident_not_found');
+  }
+  const [evidence, statements] = await Promise.all([listEvidence(incident.id), listStatements(incident.id)]);
+  return { ...incident, sla: incidentSLA(incident, now), evidence, statements };
+}
+
+export async function acknowledgeIncident(idOrCode: string, acknowledgedBy: string): Promise<IncidentCase> {
+  return transaction(async q => {
+    const incident = await getOpenIncidentForUpdate(idOrCode, q);
+    if (incident.status !== 'open') {
+      throw new Error('incident_already_acknowledged');
+    }
+
+    const now = new Date();
+    const firstResponseTime = Math.round((now.getTime() - new Date(incident.createdAt).getTime()) / 1000);
+    await updateIncident(incident.id, {
+      status: 'acknowledged',
+      acknowledgedAt: now.toISOString(),
+      acknowledgedBy,
+      firstResponseTime
+    }, q);
+    await insertAuditEntry({
+      incidentId: incident.id,
+      action: 'acknowledged',
+      actor: acknowledgedBy,
+      changes: { status: { from: incident.status, to: 'acknowledged' } }
+    }, q);
+
+    return { ...incident, status: 'acknowledged' as const, acknowledgedAt: now.toISOString(), acknowledgedBy };
+  });
+}
+
+export async function assignIncident(
+  idOrCode: string,
+  assignee: string,
+  assignedBy: string,
+  note?: string
+): Promise<IncidentCase> {
+  return transaction(async q => {
+    const incident = await getOpenIncidentForUpdate(idOrCode, q);
+    const assignedAt = new Date().toISOString();
+
+    await updateIncident(incident.id, { assignedTo: assignee, assignedAt }, q);
+    await insertAuditEntry({
+      incidentId: incident.id,
+      action: 'assigned',
+      actor: assignedBy,
+      changes: { assignedTo: { from: incident.assignedTo ?? null, to: assignee } },
+      note
+    }, q);
+
+    return { ...incident, assignedTo: assignee, assignedAt };
+  });
+}
+
+/**
+ * Moves the investigation to a later stage. Leaving not_started counts as the
+ * investigation starting for its SLA and puts the case in progress.
+ */
+export async function advanceInvestigation(
+  idOrCode: string,
+  stage: InvestigationStage,
+  advancedBy: string,
+  note?: string
+): Promise<IncidentCase> {
+  return transaction(async q => {
+    const incident = await getOpenIncidentForUpdate(idOrCode, q);
+    if (INVESTIGATION_STAGES.indexOf(stage) <= INVESTIGATION_STAGES.indexOf(incident.investigationStage)) {
+      throw new Error(`invalid_stage_transition: ${incident.investigationStage} -> ${stage}`);
+    }
+
+    const startedAt = incident.investigationStartedAt ?? new Date().toISOString();
+    const status = incident.status === 'open' || incident.status === 'acknowledged' ? 'in_progress' : incident.status;
+    await updateIncident(incident.id, {
+      investigationStage: stage,
+      investigationStartedAt: startedAt,
+      status
+    }, q);
+    await insertAuditEntry({
+      incidentId: incident.id,
+      action: 'stage_changed',
+      actor: advancedBy,
+      changes: {
+        investigationStage: { from: incident.investigationStage, to: stage },
+        ...(status !== incident.status ? { status: { from: incident.status, to: status } } : {})
+      },
+      note
+    }, q);
+
+    return { ...incident, investigationStage: stage, investigationStartedAt: startedAt, status };
+  });
+}
+
+export async function escalateIncident(
+  idOrCode: string,
+  escalation: { escalatedTo: string; reason: string; externalReference?: string },
+  escalatedBy: string
+): Promise<IncidentCase> {
+  return transaction(async q => {
+    const incident = await getOpenIncidentForUpdate(idOrCode, q);
+    const escalatedAt = new Date().toISOString();
+
+    await updateIncident(incident.id, {
+      status: 'escalated',
+      escalatedAt,
+      escalatedTo: escalation.escalatedTo,
+      externalReference: escalation.externalReference
+    }, q);
+    await insertAuditEntry({
+      incidentId: incident.id,
+      action: 'escalated',
+      actor: escalatedBy,
+      changes: {
+        status: { from: incident.status, to: 'escalated' },
+        escalatedTo: escalation.escalatedTo,
+        externalReference: escalation.externalReference ?? null
+      },
+      note: escalation.reason
+    }, q);
+
+    return {
+      ...incident,
+      status: 'escalated' as const,
+      escalatedAt,
+      escalatedTo: escalation.escalatedTo,
+      externalReference: escalation.externalReference ?? incident.externalReference
+    };
+  });
+}
+
+// ============================================================================
+// EVIDENCE AND STATEMENTS
+// ============================================================================
+
+export async function addEvidence(
+  idOrCode: string,
+  items: NewIncidentEvidence[],
+  uploadedBy: string
+): Promise<IncidentEvidence[]> {
+  const missingRef = items.find(item => item.type === 'dashcam_footage' && !item.footageRef);
+  if (missingRef) {
+    throw new Error(`invalid_incident_request: dashcam footage ${missingRef.filename} needs its clip reference`);
+  }
+
+  return transaction(async q => {
+    const incident = await getOpenIncidentForUpdate(idOrCode, q);
+    const added: IncidentEvidence[] = [];
+    for (const item of items) {
+      const evidence = await insertEvidence(incident.id, item, uploadedBy, q);
+      await insertAuditEntry({
+        incidentId: incident.id,
+        action: 'evidence_added',
+        actor: uploadedBy,
+        changes: { evidenceId: evidence.id, type: evidence.type, filename: evidence.filename }
+      }, q);
+      added.push(evidence);
+    }
+    return added;
+  });
+}
+
+export async function addStatement(
+  idOrCode: string,
+  statement: NewIncidentStatement,
+  recordedBy: string
+): Promise<IncidentStatement> {
+  return transaction(async q => {
+    const incident = await getOpenIncidentForUpdate(idOrCode, q);
+    const saved = await insertStatement(incident.id, statement, recordedBy, q);
+    await insertAuditEntry({
+      incidentId: incident.id,
+      action: 'statement_added',
+      actor: recordedBy,
+      changes: { statementId: saved.id, partyType: saved.partyType, partyName: saved.partyName }
+    }, q);
+    return saved;
+  });
+}
+
+export async function getIncidentAudit(idOrCode: string): Promise<IncidentAuditEntry[]> {
+  const incident = await getIncident(idOrCode);
+  if (!incident) {
+    throw new Error('incident_not_found');
+  }
+  return listAuditEntries(incident.id);
+}
+
+// ============================================================================
+// CLOSURE
+// ============================================================================
+
+/**
+ * Closes a case with its outcome. Suspension and deactivation take effect on the driver
+ * in the same transaction; afterwards the driver's safety profile is recalculated so the
+ * outcome counts towards their risk score.
+ */
+export async function closeIncident(
+  idOrCode: string,
+  request: CloseIncidentRequest,
+  closedBy: string,
+  now = new Date()
+): Promise<IncidentCaseDetail> {
+  const incomplete = (request.checklist ?? []).filter(item => item.required && !item.completed);
+  if (incomplete.length > 0) {
+    throw new Error(`closure_checklist_incomplete: ${incomplete.map(item => item.id).join(', ')}`);
+  }
+  if (request.outcomeCode === 'suspension' && !request.suspensionDays) {
+    throw new Error('invalid_incident_request: a suspension needs suspensionDays');
+  }
+
+  const incident = await transaction(async q => {
+    const current = await getOpenIncidentForUpdate(idOrCode, q);
+    if (DRIVER_OUTCOMES.includes(request.outcomeCode) && !current.driverId) {
+      throw new Error(`invalid_incident_request: ${request.outcomeCode} needs a driver on the incident`);
+    }
+
+    const suspendedUntil = request.outcomeCode === 'suspension'
+      ? new Date(now.getTime() + (request.suspensionDays ?? 0) * 86_400_000).toISOString()
+      : undefined;
+    await updateIncident(current.id, {
+      status: 'closed',
+      outcomeCode: request.outcomeCode,
+      resolutionNotes: request.resolutionNotes,
+      closureChecklist: request.checklist ?? [],
+      followUpRequired: request.followUpRequired ?? false,
+      suspendedUntil,
+      resolvedAt: now.toISOString(),
+      resolutionTime: Math.round((now.getTime() - new Date(current.createdAt).getTime()) / 1000),
+      closedAt: now.toISOString(),
+      closedBy
+    }, q);
+    await insertAuditEntry({
+      incidentId: current.id,
+      action: 'closed',
+      actor: closedBy,
+      changes: { status: { from: current.status, to: 'closed' }, outcomeCode: request.outcomeCode },
+      note: request.resolutionNotes
+    }, q);
+
+    if (current.driverId && (request.outcomeCode === 'suspension' || request.outcomeCode === 'deactivation')) {
+      const standing = await getDriverStanding(current.driverId, q);
+      if (!standing) {
+        throw new Error(`driver_not_found: ${current.driverId}`);
+      }
+      const deactivate = request.outcomeCode === 'deactivation';
+      await suspendDriver(current.driverId, { incidentId: current.id, until: suspendedUntil ?? null, deactivate }, q);
+      await insertAuditEntry({
+        incidentId: current.id,
+        action: 'driver_status_changed',
+        actor: closedBy,
+        changes: {
+          driverId: current.driverId,
+          status: { from: standing.status, to: 'suspended' },
+          isActive: { from: standing.isActive, to: deactivate ? false : standing.isActive },
+          suspendedUntil: suspendedUntil ?? null
+        }
+      }, q);
+    }
+    return current;
+  });
+
+  if (incident.driverId) {
+    try {
+      await driverSafetyMonitoring.calculateDriverSafetyProfile(incident.driverId);
+    } catch (error) {
+      logger.warn(`Failed to refresh safety profile of driver ${incident.driverId} after closing ${incident.id}`, error);
+    }
+  }
+
+  return getIncidentDetail(incident.id, now);
+}
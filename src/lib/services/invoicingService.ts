@@ -0,0 +1,729 @@
+import {
+  addDays,
+  addMonths,
+  differenceInCalendarDays,
+  differenceInCalendarMonths,
+  format,
+  isFirstDayOfMonth,
+  isLastDayOfMonth,
+  parseISO
+} from 'date-fns';
+
+import { transaction } from '@/lib/db';
+import {
+  getAccount,
+  getPaymentTerms,
+  getSubscriptionForPeriod,
+  listBillableAccountIds,
+  refreshOutstandingBalance
+} from '@/lib/repos/corporateAccountsRepo';
+import {
+  BillableTrip,
+  findPeriodInvoice,
+  getInvoice,
+  insertBillingRun,
+  insertCreditNote,
+  insertInvoice,
+  insertInvoiceActivity,
+  insertInvoicedTrips,
+  insertInvoicePayment,
+  insertLineItems,
+  listOverdueInvoiceIds,
+  listUnbilledTrips,
+  nextDocumentNumber,
+  releaseInvoicedTrips,
+  updateInvoice,
+  voidCreditNotes
+} from '@/lib/repos/invoicesRepo';
+import { QueryFn } from '@/lib/repos/ledgerRepo';
+import { logger } from '@/lib/security/productionLogger';
+import { invoicePdfUrl, issueInvoiceDocument, issueOfficialReceipt } from '@/lib/services/billingDocumentService';
+import {
+  BillingRunAccountOutcome,
+  BillingRunResult,
+  CorporateAccount,
+  CreateCreditNoteRequest,
+  CreateInvoiceRequest,
+  CreditNote,
+  Invoice,
+  InvoiceLineItem,
+  PaymentTerms,
+  RecordInvoicePaymentRequest,
+  Subscription,
+  SubscriptionPlanType
+} from '@/types/billing';
+
+// Philippine VAT; corporate ride prices are quoted VAT-exclusive
+export const VAT_RATE = 0.12;
+
+// Used when an account has no terms and no default terms row exists
+export const DEFAULT_DUE_DAYS = 30;
+
+// Late fees accrue once per started period past the grace period
+export const LATE_FEE_PERIOD_DAYS = 30;
+
+const CYCLE_MONTHS: Record<SubscriptionPlanType, number> = {
+  monthly: 1,
+  quarterly: 3,
+  annual: 12
+};
+
+// HTTP status for each error code thrown by this service
+const INVOICING_ERROR_STATUS: Record<string, number> = {
+  account_not_found: 404,
+  invoice_not_found: 404,
+  invalid_billing_period: 400,
+  invalid_invoice_transition: 409,
+  invoice_has_payments: 409,
+  payment_exceeds_amount_due: 422,
+  credit_exceeds_amount_due: 422,
+  seller_profile_not_configured: 503
+};
+
+export function invoicingErrorStatus(error: unknown): number | null {
+  const code = error instanceof Error ? error.message.split(':')[0] : '';
+  return INVOICING_ERROR_STATUS[code] ?? null;
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+export const manilaToday = () => new Date().toLocaleDateString('en-CA', { timeZone: 'Asia/Manila' });
+
+// ============================================================================
+// CHARGE COMPUTATION
+// ============================================================================
+
+export type DraftLineItem = Omit<InvoiceLineItem, 'id'>;
+
+export interface InvoiceCharges {
+  lineItems: DraftLineItem[];
+  tripIds: string[];
+  subtotal: number;
+  discountAmount: number;
+  taxAmount: number;
+  totalAmount: number;
+}
+
+function lineItem(
+  description: string,
+  quantity: number,
+  unitPrice: number,
+  category: string,
+  extra: Partial<DraftLineItem> = {}
+): DraftLineItem {
+  const amount = round2(quantity * unitPrice);
+  return {
+    description,
+    quantity,
+    unitPrice,
+    amount,
+    taxRate: VAT_RATE,
+    taxAmount: round2(amount * VAT_RATE),
+    category,
+    ...extra
+  };
+}
+
+/**
+ * Months a billing period covers, for prorating the monthly minimum. Whole calendar
+ * months count exactly; anything else (weekly runs, custom periods) is prorated by day.
+ */
+export function billingPeriodMonths(periodStart: string, periodEnd: string): number {
+  const start = parseISO(periodStart);
+  const end = parseISO(periodEnd);
+  if (isFirstDayOfMonth(start) && isLastDayOfMonth(end)) {
+    return differenceInCalendarMonths(end, start) + 1;
+  }
+  return (differenceInCalendarDays(end, start) + 1) / 30;
+}
+
+/**
+ * Number of subscription cycles starting inside the period. The base fee is billed on the
+ * invoice whose period contains each cycle start, so weekly and monthly runs charge it once.
+ */
+export function baseFeeCyclesInPeriod(
+  subscription: Pick<Subscription, 'startDate' | 'endDate' | 'cancelledDate' | 'billingCycle'>,
+  periodStart: string,
+  periodEnd: string
+): number {
+  const cycleMonths = CYCLE_MONTHS[subscription.billingCycle];
+  const start = parseISO(subscription.startDate);
+  const lastDay = subscription.cancelledDate && subscription.cancelledDate < subscription.endDate
+    ? subscription.cancelledDate
+    : subscription.endDate;
+
+  let cycles = 0;
+  for (let k = 0; ; k++) {
+    const cycleStart = format(addMonths(start, k * cycleMonths), 'yyyy-MM-dd');
+    if (cycleStart > periodEnd || cycleStart > lastDay) {
+      break;
+    }
+    if (cycleStart >= periodStart) {
+      cycles++;
+    }
+  }
+  return cycles;
+}
+
+// The better of the flat subscription discount and the volume tier the period's ride count reaches
+export function rideDiscountPercentage(
+  subscription: Pick<Subscription, 'discountPercentage' | 'volumeDiscountTiers'>,
+  rideCount: number
+): number {
+  const tier = (subscription.volumeDiscountTiers ?? [])
+    .find(t => rideCount >= t.ridesFrom && rideCount <= t.ridesTo);
+  return Math.max(subscription.discountPercentage ?? 0, tier?.discountPercentage ?? 0);
+}
+
+export function summariseLineItems(lineItems: DraftLineItem[]): Omit<InvoiceCharges, 'lineItems' | 'tripIds'> {
+  const subtotal = round2(lineItems.filter(l => l.amount > 0).reduce((sum, l) => sum + l.amount, 0));
+  const discountAmount = round2(lineItems.filter(l => l.amount < 0).reduce((sum, l) => sum - l.amount, 0));
+  // VAT is computed on the invoice net so per-line rounding cannot drift the total
+  const taxAmount = round2(lineItems.reduce((sum, l) => sum + l.amount * l.taxRate, 0));
+  return {
+    subtotal,
+    discountAmount,
+    taxAmount,
+    totalAmount: round2(subtotal - discountAmount + taxAmount)
+  };
+}
+
+/**
+ * Prices one account's billing period. With a subscription, trips are billed at the plan's
+ * per-ride price after the included rides, discounted by the best applicable percentage,
+ * plus the base fee for cycles starting in the period and a top-up to the prorated monthly
+ * minimum. Accounts without a subscription are billed the metered fare of each trip.
+ */
+export function computeInvoiceCharges(
+  trips: BillableTrip[],
+  subscription: Subscription | null,
+  periodStart: string,
+  periodEnd: string
+): InvoiceCharges {
+  const lineItems: DraftLineItem[] = [];
+  const included = subscription?.includedRides ?? 0;
+
+  trips.forEach((trip, index) => {
+    const isIncluded = index < included;
+    const unitPrice = subscription ? (isIncluded ? 0 : subscription.pricePerRide) : trip.totalFare;
+    lineItems.push(lineItem(
+      `Ride ${trip.bookingReference} - ${trip.bookerName}${isIncluded ? ' (included in plan)' : ''}`,
+      1,
+      unitPrice,
+      'ride',
+      {
+        tripId: trip.bookingId,
+        metadata: {
+          completedAt: trip.completedAt,
+          customerId: trip.customerId,
+          pickupAddress: trip.pickupAddress,
+          dropoffAddress: trip.dropoffAddress,
+          fareLines: trip.fareLines
+        }
+      }
+    ));
+  });
+
+  if (subscription) {
+    const rideCharges = round2(lineItems.reduce((sum, l) => sum + l.amount, 0));
+    const discountPercentage = rideDiscountPercentage(subscription, trips.length);
+    if (discountPercentage > 0 && rideCharges > 0) {
+      lineItems.push(lineItem(
+        `Discount (${discountPercentage}% on ${trips.length} rides)`,
+        1,
+        -round2(rideCharges * discountPercentage / 100),
+        'discount'
+      ));
+    }
+
+    const cycles = baseFeeCyclesInPeriod(subscription, periodStart, periodEnd);
+    if (subscription.baseFee && cycles > 0) {
+      lineItems.push(lineItem(`${subscription.planName} base fee`, cycles, subscription.baseFee, 'fee'));
+    }
+
+    if (subscription.monthlyMinimum) {
+      const minimum = round2(subscription.monthlyMinimum * billingPeriodMonths(periodStart, periodEnd));
+      const committed = round2(lineItems.reduce((sum, l) => sum + l.amount, 0));
+      if (committed < minimum) {
+        lineItems.push(lineItem('Minimum monthly commitment top-up', 1, round2(minimum - committed), 'fee', {
+          metadata: { minimum, committed }
+        }));
+      }
+    }
+  }
+
+  return {
+    lineItems,
+    tripIds: trips.map(trip => trip.bookingId),
+    ...summariseLineItems(lineItems)
+  };
+}
+
+// ============================================================================
+// PAYMENT TERMS
+// ============================================================================
+
+export function computeDueDate(issueDate: string, terms: Pick<PaymentTerms, 'dueDays'> | null): string {
+  return format(addDays(parseISO(issueDate), terms?.dueDays ?? DEFAULT_DUE_DAYS), 'yyyy-MM-dd');
+}
+
+// Balance the terms' percentages apply to: the invoice total net of credit notes
+const feeBasis = (invoice: Pick<Invoice, 'totalAmount' | 'creditAmount'>) =>
+  Math.max(0, invoice.totalAmount - (invoice.creditAmount ?? 0));
+
+/**
+ * Late fee owed as of a date: one charge per started period past the grace period,
+ * capped at the terms' percentage of the invoice. Recomputed from scratch on each
+ * assessment, so re-running a date never stacks fees.
+ */
+export function computeLateFee(
+  invoice: Pick<Invoice, 'dueDate' | 'totalAmount' | 'creditAmount'>,
+  terms: Pick<PaymentTerms, 'gracePeriodDays' | 'lateFeeType' | 'lateFeeAmount' | 'lateFeeCapPercentage'>,
+  asOf: string
+): number {
+  const daysLate = differenceInCalendarDays(parseISO(asOf), parseISO(invoice.dueDate)) - terms.gracePeriodDays;
+  if (daysLate <= 0 || terms.lateFeeAmount <= 0) {
+    return 0;
+  }
+  const basis = feeBasis(invoice);
+  const periods = Math.ceil(daysLate / LATE_FEE_PERIOD_DAYS);
+  const perPeriod = terms.lateFeeType === 'percentage' ? basis * terms.lateFeeAmount / 100 : terms.lateFeeAmount;
+  let fee = perPeriod * periods;
+  if (terms.lateFeeCapPercentage !== undefined) {
+    fee = Math.min(fee, basis * terms.lateFeeCapPercentage / 100);
+  }
+  return round2(fee);
+}
+
+// Invoices only turn overdue once the terms' grace period after the due date has run out
+export function isPastGracePeriod(
+  invoice: Pick<Invoice, 'dueDate'>,
+  terms: Pick<PaymentTerms, 'gracePeriodDays'> | null,
+  asOf: string
+): boolean {
+  return differenceInCalendarDays(parseISO(asOf), parseISO(invoice.dueDate)) > (terms?.gracePeriodDays ?? 0);
+}
+
+// Discount earned by settling the invoice within the early-payment window after issue
+export function computeEarlyPaymentDiscount(
+  invoice: Pick<Invoice, 'issueDate' | 'totalAmount' | 'creditAmount'>,
+  terms: Pick<PaymentTerms, 'earlyPaymentDiscountDays' | 'earlyPaymentDiscountPercentage'> | null,
+  paymentDate: string
+): number {
+  if (!terms?.earlyPaymentDiscountDays || !terms.earlyPaymentDiscountPercentage) {
+    return 0;
+  }
+  if (differenceInCalendarDays(parseISO(paymentDate), parseISO(invoice.issueDate)) > terms.earlyPaymentDiscountDays) {
+    return 0;
+  }
+  return round2(feeBasis(invoice) * terms.earlyPaymentDiscountPercentage / 100);
+}
+
+export function computeAmountDue(
+  invoice: Pick<Invoice, 'totalAmount' | 'lateFeeAmount' | 'earlyPaymentDiscount' | 'creditAmount' | 'amountPaid'>
+): number {
+  return Math.max(0, round2(
+    invoice.totalAmount +
+    (invoice.lateFeeAmount ?? 0) -
+    (invoice.earlyPaymentDiscount ?? 0) -
+    (invoice.creditAmount ?? 0) -
+    invoice.amountPaid
+  ));
+}
+
+// ============================================================================
+// BILLING RUN
+// ============================================================================
+
+export interface BillingRunRequest {
+  periodStart: string;
+  periodEnd: string;
+  issueDate?: string;
+  accountIds?: string[];
+  frequency?: CorporateAccount['invoiceFrequency'];
+}
+
+/**
+ * Invoices every billable account for the period. Each account is billed in its own
+ * transaction under a row lock; an account whose period already has a live invoice is
+ * skipped and trips already on an invoice are never picked up again, so the run can be
+ * repeated safely. Invoices are created as drafts for review before sending.
+ */
+export async function runBilling(request: BillingRunRequest, startedBy: string): Promise<BillingRunResult> {
+  const { periodStart, periodEnd } = request;
+  if (periodStart > periodEnd) {
+    throw new Error('invalid_billing_period: period start is after period end');
+  }
+  const issueDate = request.issueDate ?? manilaToday();
+  const accounts = await listBillableAccountIds({ accountIds: request.accountIds, frequency: request.frequency });
+
+  const outcomes: BillingRunAccountOutcome[] = [];
+  for (const { id: accountId, companyName } of accounts) {
+    const outcome = await transaction(async (query): Promise<BillingRunAccountOutcome> => {
+      const base = { accountId, companyName, tripCount: 0, totalAmount: 0 };
+      const account = await getAccount(accountId, query, true);
+      if (!account) {
+        return { ...base, skipped: 'nothing_to_bill' };
+      }
+
+      const existing = await findPeriodInvoice(accountId, periodStart, periodEnd, query);
+      if (existing) {
+        return { ...base, invoiceId: existing.id, invoiceNumber: existing.invoiceNumber, skipped: 'already_invoiced' };
+      }
+
+      const subscription = await getSubscriptionForPeriod(accountId, periodStart, periodEnd, query);
+      const trips = await listUnbilledTrips(accountId, periodStart, periodEnd, query);
+      const charges = computeInvoiceCharges(trips, subscription, periodStart, periodEnd);
+      if (charges.lineItems.length === 0) {
+        return { ...base, skipped: 'nothing_to_bill' };
+      }
+
+      const terms = await getPaymentTerms(account.paymentTermsId, query);
+      const invoiceNumber = await nextDocumentNumber('INV', Number(issueDate.slice(0, 4)), query);
+      const invoiceId = await insertInvoice({
+        invoiceNumber,
+        corporateAccountId: accountId,
+        subscriptionId: subscription?.id ?? null,
+        paymentTermsId: terms?.id ?? null,
+        issueDate,
+        dueDate: computeDueDate(issueDate, terms),
+        billingPeriodStart: periodStart,
+        billingPeriodEnd: periodEnd,
+        subtotal: charges.subtotal,
+        discountAmount: charges.discountAmount,
+        taxAmount: charges.taxAmount,
+        totalAmount: charges.totalAmount,
+        source: 'billing_run',
+        termsAndConditions: terms?.termsAndConditions,
+        createdBy: startedBy
+      }, query);
+      await insertLineItems(invoiceId, charges.lineItems, query);
+      await insertInvoicedTrips(invoiceId, charges.tripIds, query);
+      await insertInvoiceActivity(
+        invoiceId,
+        'created',
+        `Billing run for ${periodStart} to ${periodEnd}: ${trips.length} trips`,
+        startedBy,
+        { periodStart, periodEnd, tripCount: trips.length },
+        query
+      );
+
+      return { ...base, invoiceId, invoiceNumber, tripCount: trips.length, totalAmount: charges.totalAmount };
+    });
+    outcomes.push(outcome);
+  }
+
+  const created = outcomes.filter(o => !o.skipped);
+  const summary = {
+    periodStart,
+    periodEnd,
+    issueDate,
+    invoicesCreated: created.length,
+    accountsSkipped: outcomes.length - created.length,
+    tripsBilled: created.reduce((sum, o) => sum + o.tripCount, 0),
+    totalBilled: round2(created.reduce((sum, o) => sum + o.totalAmount, 0))
+  };
+  const id = await insertBillingRun({ ...summary, startedBy });
+
+  logger.info('Billing run completed', { id, ...summary }, {
+    component: 'InvoicingService',
+    action: 'runBilling'
+  });
+  return { id, ...summary, accounts: outcomes };
+}
+
+// ============================================================================
+// INVOICE LIFECYCLE
+// ============================================================================
+
+/** Creates a one-off invoice from explicit line items, outside the billing run. */
+export async function createManualInvoice(request: CreateInvoiceRequest, createdBy: string): Promise<Invoice> {
+  if (request.billingPeriodStart > request.billingPeriodEnd) {
+    throw new Error('invalid_billing_period: period start is after period end');
+  }
+
+  return transaction(async (query) => {
+    const account = await getAccount(request.corporateAccountId, query, true);
+    if (!account) {
+      throw new Error('account_not_found');
+    }
+
+    const lineItems = request.lineItems.map(item => {
+      const amount = round2(item.quantity * item.unitPrice);
+      return { ...item, amount, taxAmount: round2(amount * item.taxRate) };
+    });
+    const totals = summariseLineItems(lineItems);
+    const terms = await getPaymentTerms(account.paymentTermsId, query);
+    const issueDate = manilaToday();
+
+    const invoiceId = await insertInvoice({
+      invoiceNumber: await nextDocumentNumber('INV', Number(issueDate.slice(0, 4)), query),
+      corporateAccountId: account.id,
+      subscriptionId: null,
+      paymentTermsId: terms?.id ?? null,
+      issueDate,
+      dueDate: request.dueDate,
+      billingPeriodStart: request.billingPeriodStart,
+      billingPeriodEnd: request.billingPeriodEnd,
+      ...totals,
+      source: 'manual',
+      notes: request.notes,
+      termsAndConditions: terms?.termsAndConditions,
+      createdBy
+    }, query);
+    await insertLineItems(invoiceId, lineItems, query);
+    const tripIds = lineItems.map(item => item.tripId).filter((id): id is string => Boolean(id));
+    await insertInvoicedTrips(invoiceId, tripIds, query);
+    await insertInvoiceActivity(invoiceId, 'created', 'Manual invoice created', createdBy, {}, query);
+
+    return (await getInvoice(invoiceId, query))!;
+  });
+}
+
+async function lockInvoice(id: string, query: QueryFn): Promise<Invoice> {
+  const invoice = await getInvoice(id, query, true);
+  if (!invoice) {
+    throw new Error('invoice_not_found');
+  }
+  return invoice;
+}
+
+export async function sendInvoice(id: string, recipients: string[] | undefined, sentBy: string): Promise<Invoice> {
+  return transaction(async (query) => {
+    const invoice = await lockInvoice(id, query);
+    if (!['draft', 'sent', 'overdue'].includes(invoice.status)) {
+      throw new Error(`invalid_invoice_transition: cannot send a ${invoice.status} invoice`);
+    }
+    const account = await getAccount(invoice.corporateAccountId, query);
+    const sentTo = recipients?.length ? recipients : [account!.contactEmail];
+
+    // The BIR invoice is rendered and stored as issued; it must exist before the invoice goes out
+    await issueInvoiceDocument(invoice, sentBy, query);
+    await updateInvoice(invoice.id, {
+      status: invoice.status === 'draft' ? 'sent' : invoice.status,
+      sentDate: new Date().toISOString(),
+      sentTo,
+      pdfUrl: invoicePdfUrl(invoice.id)
+    }, query);
+    await insertInvoiceActivity(invoice.id, 'sent', `Sent to ${sentTo.join(', ')}`, sentBy, { sentTo }, query);
+    await refreshOutstandingBalance(invoice.corporateAccountId, query);
+
+    return (await getInvoice(invoice.id, query))!;
+  });
+}
+
+/**
+ * Records a customer payment. A payment inside the early-payment window that settles the
+ * discounted balance earns the terms' discount; anything larger than the balance is rejected.
+ * Every payment is issued an official receipt numbered in the OR series of its payment year.
+ */
+export async function recordInvoicePayment(
+  id: string,
+  payment: RecordInvoicePaymentRequest,
+  recordedBy: string
+): Promise<Invoice> {
+  return transaction(async (query) => {
+    const invoice = await lockInvoice(id, query);
+    if (!['sent', 'overdue'].includes(invoice.status)) {
+      throw new Error(`invalid_invoice_transition: cannot record a payment on a ${invoice.status} invoice`);
+    }
+
+    const terms = await getPaymentTerms(invoice.paymentTermsId, query);
+    const discount = invoice.earlyPaymentDiscount
+      ? 0
+      : computeEarlyPaymentDiscount(invoice, terms, payment.paymentDate);
+    const discountedDue = computeAmountDue({
+      ...invoice,
+      earlyPaymentDiscount: (invoice.earlyPaymentDiscount ?? 0) + discount
+    });
+    const earnsDiscount = discount > 0 && payment.amount >= discountedDue - 0.005;
+    const discountApplied = earnsDiscount ? discount : 0;
+    const dueBefore = earnsDiscount ? discountedDue : invoice.amountDue;
+    if (payment.amount > dueBefore + 0.005) {
+      throw new Error(`payment_exceeds_amount_due: ${dueBefore.toFixed(2)} is due`);
+    }
+
+    const next = {
+      ...invoice,
+      earlyPaymentDiscount: (invoice.earlyPaymentDiscount ?? 0) + discountApplied,
+      amountPaid: round2(invoice.amountPaid + payment.amount)
+    };
+    const amountDue = computeAmountDue(next);
+
+    const receiptNumber = await nextDocumentNumber('OR', Number(payment.paymentDate.slice(0, 4)), query);
+    const paymentId = await insertInvoicePayment(invoice.id, { ...payment, recordedBy, receiptNumber }, query);
+    const receipt = await issueOfficialReceipt(
+      invoice,
+      { ...payment, id: paymentId, invoiceId: invoice.id, recordedBy, receiptNumber },
+      recordedBy,
+      query
+    );
+    await updateInvoice(invoice.id, {
+      earlyPaymentDiscount: next.earlyPaymentDiscount,
+      amountPaid: next.amountPaid,
+      amountDue,
+      status: amountDue === 0 ? 'paid' : invoice.status,
+      paidDate: amountDue === 0 ? payment.paymentDate : undefined
+    }, query);
+    await insertInvoiceActivity(
+      invoice.id,
+      'payment_received',
+      `Payment of ${payment.amount.toFixed(2)} via ${payment.paymentMethod}, official receipt ${receiptNumber}` +
+        (discountApplied ? ` (early-payment discount ${discountApplied.toFixed(2)})` : ''),
+      recordedBy,
+      {
+        amount: payment.amount,
+        referenceNumber: payment.referenceNumber,
+        earlyPaymentDiscount: discountApplied,
+        receiptNumber,
+        receiptDocumentId: receipt.id
+      },
+      query
+    );
+    await refreshOutstandingBalance(invoice.corporateAccountId, query);
+
+    return (await getInvoice(invoice.id, query))!;
+  });
+}
+
+/** Voids an unpaid invoice and releases its trips so the next billing run can bill them again. */
+export async function voidInvoice(id: string, voidedBy: string, reason?: string): Promise<Invoice> {
+  return transaction(async (query) => {
+    const invoice = await lockInvoice(id, query);
+    if (invoice.status === 'paid' || invoice.status === 'void') {
+      throw new Error(`invalid_invoice_transition: cannot void a ${invoice.status} invoice`);
+    }
+    if (invoice.amountPaid > 0) {
+      throw new Error('invoice_has_payments: refund or credit the payments before voiding');
+    }
+
+    const released = await releaseInvoicedTrips(invoice.id, query);
+    await voidCreditNotes(invoice.id, query);
+    await updateInvoice(invoice.id, { status: 'void', amountDue: 0 }, query);
+    await insertInvoiceActivity(
+      invoice.id,
+      'voided',
+      reason ? `Voided: ${reason}` : 'Voided',
+      voidedBy,
+      { releasedTrips: released },
+      query
+    );
+    await refreshOutstandingBalance(invoice.corporateAccountId, query);
+
+    return (await getInvoice(invoice.id, query))!;
+  });
+}
+
+/** Issues a credit note against an open invoice and applies it to the amount due. */
+export async function issueCreditNote(
+  invoiceId: string,
+  request: CreateCreditNoteRequest,
+  issuedBy: string
+): Promise<{ creditNote: CreditNote; invoice: Invoice }> {
+  return transaction(async (query) => {
+    const invoice = await lockInvoice(invoiceId, query);
+    if (!['draft', 'sent', 'overdue'].includes(invoice.status)) {
+      throw new Error(`invalid_invoice_transition: cannot credit a ${invoice.status} invoice`);
+    }
+    if (request.amount > invoice.amountDue + 0.005) {
+      throw new Error(`credit_exceeds_amount_due: ${invoice.amountDue.toFixed(2)} is due`);
+    }
+
+    const issueDate = manilaToday();
+    const creditNote = await insertCreditNote({
+      creditNoteNumber: await nextDocumentNumber('CN', Number(issueDate.slice(0, 4)), query),
+      invoiceId: invoice.id,
+      accountId: invoice.corporateAccountId,
+      amount: request.amount,
+      reason: request.reason,
+      issueDate,
+      createdBy: issuedBy
+    }, query);
+
+    const creditAmount = round2((invoice.creditAmount ?? 0) + request.amount);
+    const amountDue = computeAmountDue({ ...invoice, creditAmount });
+    const settled = amountDue === 0 && invoice.status !== 'draft';
+    await updateInvoice(invoice.id, {
+      creditAmount,
+      amountDue,
+      status: settled ? 'paid' : invoice.status,
+      paidDate: settled ? issueDate : undefined
+    }, query);
+    await insertInvoiceActivity(
+      invoice.id,
+      'credit_note_applied',
+      `Credit note ${creditNote.creditNoteNumber} for ${request.amount.toFixed(2)}: ${request.reason}`,
+      issuedBy,
+      { creditNoteId: creditNote.id, amount: request.amount },
+      query
+    );
+    await refreshOutstandingBalance(invoice.corporateAccountId, query);
+
+    return { creditNote, invoice: (await getInvoice(invoice.id, query))! };
+  });
+}
+
+export interface LateFeeRunResult {
+  asOf: string;
+  invoicesMarkedOverdue: number;
+  lateFeesAssessed: number;
+  totalLateFees: number;
+}
+
+/**
+ * Marks issued invoices past their due date overdue and brings each one's late fee up to
+ * what its payment terms allow as of the given date.
+ */
+export async function assessLateFees(asOf: string, assessedBy: string): Promise<LateFeeRunResult> {
+  const result: LateFeeRunResult = { asOf, invoicesMarkedOverdue: 0, lateFeesAssessed: 0, totalLateFees: 0 };
+
+  for (const id of await listOverdueInvoiceIds(asOf)) {
+    await transaction(async (query) => {
+      const invoice = await lockInvoice(id, query);
+      if (!['sent', 'overdue'].includes(invoice.status) || invoice.amountDue <= 0) {
+        return;
+      }
+
+      const terms = await getPaymentTerms(invoice.paymentTermsId, query);
+      const lateFee = terms ? computeLateFee(invoice, terms, asOf) : 0;
+      const increase = round2(lateFee - (invoice.lateFeeAmount ?? 0));
+      const becameOverdue = invoice.status === 'sent' && isPastGracePeriod(invoice, terms, asOf);
+      if (increase <= 0 && !becameOverdue) {
+        return;
+      }
+
+      const lateFeeAmount = Math.max(lateFee, invoice.lateFeeAmount ?? 0);
+      await updateInvoice(invoice.id, {
+        status: 'overdue',
+        lateFeeAmount,
+        amountDue: computeAmountDue({ ...invoice, lateFeeAmount })
+      }, query);
+      if (becameOverdue) {
+        result.invoicesMarkedOverdue++;
+        await insertInvoiceActivity(invoice.id, 'status_changed', `Overdue since ${invoice.dueDate}`, assessedBy, {
+          from: 'sent',
+          to: 'overdue'
+        }, query);
+      }
+      if (increase > 0) {
+        result.lateFeesAssessed++;
+        result.totalLateFees = round2(result.totalLateFees + increase);
+        await insertInvoiceActivity(
+          invoice.id,
+          'late_fee_assessed',
+          `Late fee of ${increase.toFixed(2)} assessed as of ${asOf}`,
+          assessedBy,
+          { asOf, increase, lateFeeAmount },
+          query
+        );
+      }
+      await refreshOutstandingBalance(invoice.corporateAccountId, query);
+    });
+  }
+
+  logger.info('Late fees assessed', result, {
+    component: 'InvoicingService',
+    action: 'assessLateFees'
+  });
+  return result;
+}
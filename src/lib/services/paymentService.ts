@@ -0,0 +1,383 @@
+import { createHash, randomUUID } from 'crypto';
+
+import { transaction } from '@/lib/db';
+import { getPaymentProvider, PaymentWebhookEvent, WalletPaymentMethod } from '@/lib/payments';
+import { QueryFn } from '@/lib/repos/ledgerRepo';
+import {
+  addRefundedAmount,
+  attachProviderCheckout,
+  getCommittedRefundTotal,
+  getPendingRefund,
+  getRefund,
+  getTransaction,
+  getTransactionByIdempotencyKey,
+  getTransactionByProviderReference,
+  insertRefund,
+  insertTransaction,
+  insertTransactionEvent,
+  recordWebhookEvent,
+  setProviderRefundReference,
+  StoredTransaction,
+  updateRefund,
+  updateTransactionStatus
+} from '@/lib/repos/paymentsRepo';
+import { logger } from '@/lib/security/productionLogger';
+import { PaymentStatus, Refund } from '@/types/payment';
+
+// HTTP status for each error code thrown by this service
+const PAYMENT_ERROR_STATUS: Record<string, number> = {
+  transaction_not_found: 404,
+  idempotency_key_reused: 409,
+  invalid_payment_transition: 409,
+  payment_not_refundable: 409,
+  refund_exceeds_payment: 422,
+  invalid_webhook_signature: 401,
+  invalid_webhook_payload: 400,
+  unsupported_webhook_event: 400,
+  payment_provider_not_configured: 503,
+  provider_error: 502
+};
+
+export function paymentErrorStatus(error: unknown): number | null {
+  const code = error instanceof Error ? error.message.split(':')[0] : '';
+  return PAYMENT_ERROR_STATUS[code] ?? null;
+}
+
+// 'processing' means the payer authorized and funds are held awaiting capture
+const STATUS_TRANSITIONS: Record<PaymentStatus, PaymentStatus[]> = {
+  pending: ['processing', 'completed', 'failed', 'cancelled'],
+  processing: ['completed', 'failed', 'cancelled'],
+  completed: ['refunded'],
+  failed: [],
+  refunded: [],
+  cancelled: []
+};
+
+export function canTransitionPayment(from: PaymentStatus, to: PaymentStatus): boolean {
+  return STATUS_TRANSITIONS[from].includes(to);
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+export interface InitiatePaymentRequest {
+  amount: number;
+  description: string;
+  referenceNumber?: string;
+  successUrl: string;
+  failureUrl: string;
+  bookingId?: string;
+  customer?: { name?: string; phone?: string; email?: string };
+  metadata?: Record<string, unknown>;
+}
+
+export interface InitiatePaymentOutcome {
+  transaction: StoredTransaction;
+  replayed: boolean;
+}
+
+/** Stable hash of the request body so a reused idempotency key with a different payload is caught. */
+export function hashPaymentRequest(method: WalletPaymentMethod, req: InitiatePaymentRequest): string {
+  const canonical = JSON.stringify([
+    method, round2(req.amount), req.description, req.referenceNumber ?? null,
+    req.successUrl, req.failureUrl, req.bookingId ?? null
+  ]);
+  return createHash('sha256').update(canonical).digest('hex');
+}
+
+function transactionReference(method: WalletPaymentMethod): string {
+  return `TXN-${method.toUpperCase()}-${Date.now()}-${randomUUID().slice(0, 6).toUpperCase()}`;
+}
+
+async function applyTransition(
+  txn: StoredTransaction,
+  to: PaymentStatus,
+  event: { source: 'api' | 'webhook'; providerEventId?: string; note?: string; failureReason?: string | null },
+  q: QueryFn
+): Promise<void> {
+  await updateTransactionStatus(txn.id, to, event.failureReason ?? null, q);
+  await insertTransactionEvent(txn.id, {
+    fromStatus: txn.status,
+    toStatus: to,
+    source: event.source,
+    providerEventId: event.providerEventId,
+    note: event.note ?? event.failureReason
+  }, q);
+}
+
+// ============================================================================
+// INITIATE / CAPTURE
+// ============================================================================
+
+/**
+ * Creates a wallet payment and opens a checkout with the provider. Retrying with the
+ * same idempotency key returns the original transaction instead of charging twice.
+ */
+export async function initiatePayment(
+  method: WalletPaymentMethod,
+  req: InitiatePaymentRequest,
+  userId: string,
+  idempotencyKey: string
+): Promise<InitiatePaymentOutcome> {
+  const provider = getPaymentProvider(method);
+  const requestHash = hashPaymentRequest(method, req);
+
+  const replay = (existing: StoredTransaction): InitiatePaymentOutcome => {
+    if (existing.requestHash !== requestHash) {
+      throw new Error('idempotency_key_reused');
+    }
+    return { transaction: existing, replayed: true };
+  };
+
+  const existing = await getTransactionByIdempotencyKey(method, idempotencyKey);
+  if (existing) {
+    return replay(existing);
+  }
+
+  const txn = await insertTransaction({
+    reference: transactionReference(method),
+    referenceNumber: req.referenceNumber ?? null,
+    paymentMethod: method,
+    provider: provider.name,
+    amount: round2(req.amount),
+    currency: 'PHP',
+    description: req.description,
+    userId,
+    bookingId: req.bookingId ?? null,
+    successUrl: req.successUrl,
+    failureUrl: req.failureUrl,
+    metadata: req.metadata ?? {},
+    idempotencyKey,
+    requestHash
+  });
+  if (!txn) {
+    // A concurrent request with the same key won the insert
+    const winner = await getTransactionByIdempotencyKey(method, idempotencyKey);
+    if (!winner) {
+      throw new Error('transaction_not_found');
+    }
+    return replay(winner);
+  }
+
+  try {
+    const checkout = await provider.initiate({
+      reference: txn.transactionId,
+      amount: txn.amount,
+      currency: txn.currency,
+      description: txn.description,
+      successUrl: req.successUrl,
+      failureUrl: req.failureUrl,
+      customer: req.customer
+    });
+    await attachProviderCheckout(txn.id, checkout.providerReference, checkout.redirectUrl);
+  } catch (error) {
+    await transaction(async (q) => {
+      await applyTransition(txn, 'failed', { source: 'api', failureReason: (error as Error).message }, q);
+    });
+    throw error;
+  }
+
+  logger.info('Payment initiated', { transactionId: txn.id, method, provider: provider.name }, {
+    component: 'PaymentService',
+    action: 'initiatePayment'
+  });
+
+  const created = await getTransaction(txn.id);
+  return { transaction: created ?? txn, replayed: false };
+}
+
+/** Captures an authorized payment. Idempotent once the transaction is completed. */
+export async function capturePayment(idOrReference: string): Promise<StoredTransaction> {
+  const txn = await getTransaction(idOrReference);
+  if (!txn) {
+    throw new Error('transaction_not_found');
+  }
+  if (txn.status === 'completed') {
+    return txn;
+  }
+  if (txn.status !== 'processing' || !txn.providerReference) {
+    throw new Error('invalid_payment_transition');
+  }
+
+  const result = await getPaymentProvider(txn.paymentMethod).capture(txn.providerReference, txn.amount);
+
+  return transaction(async (q) => {
+    const locked = await getTransaction(txn.id, q, true);
+    if (!locked) {
+      throw new Error('transaction_not_found');
+    }
+    // A webhook may have settled the payment while the capture call was in flight
+    if (locked.status === 'processing') {
+      const to = result.status === 'completed' ? 'completed' : 'failed';
+      await applyTransition(locked, to, { source: 'api', note: 'capture', failureReason: result.failureReason }, q);
+    }
+    return (await getTransaction(txn.id, q)) as StoredTransaction;
+  });
+}
+
+// ============================================================================
+// REFUNDS
+// ============================================================================
+
+async function settleRefund(
+  txn: StoredTransaction,
+  refund: Refund,
+  outcome: { status: 'processed' | 'failed'; failureReason?: string; providerEventId?: string },
+  source: 'api' | 'webhook',
+  q: QueryFn
+): Promise<void> {
+  const settled = await updateRefund(refund.id, { status: outcome.status, failureReason: outcome.failureReason }, q);
+  if (!settled || outcome.status !== 'processed') {
+    return;
+  }
+
+  await addRefundedAmount(txn.id, refund.amount, q);
+  if (round2(txn.refundedAmount + refund.amount) >= txn.amount && txn.status === 'completed') {
+    await applyTransition(txn, 'refunded', {
+      source,
+      providerEventId: outcome.providerEventId,
+      note: `Fully refunded by ${refund.refundId}`
+    }, q);
+  }
+}
+
+/**
+ * Refunds part or all of a completed payment. The refund row is committed before the
+ * provider call so a crash mid-call leaves a pending refund that the webhook settles; the
+ * webhook finds it by the RFN- reference sent with the call, so it may arrive first.
+ */
+export async function refundPayment(
+  idOrReference: string,
+  amount: number,
+  reason: string,
+  requestedBy: string
+): Promise<Refund> {
+  const { txn, refundId, refundReference } = await transaction(async (q) => {
+    const locked = await getTransaction(idOrReference, q, true);
+    if (!locked) {
+      throw new Error('transaction_not_found');
+    }
+    if (locked.status !== 'completed' || !locked.providerReference) {
+      throw new Error('payment_not_refundable');
+    }
+    const committed = await getCommittedRefundTotal(locked.id, q);
+    if (round2(committed + amount) > locked.amount) {
+      throw new Error('refund_exceeds_payment');
+    }
+
+    const reference = `RFN-${Date.now()}-${randomUUID().slice(0, 6).toUpperCase()}`;
+    const id = await insertRefund({
+      reference,
+      transactionId: locked.id,
+      amount: round2(amount),
+      currency: locked.currency,
+      reason,
+      requestedBy
+    }, q);
+    return { txn: locked, refundId: id, refundReference: reference };
+  });
+
+  let result;
+  try {
+    result = await getPaymentProvider(txn.paymentMethod).refund(
+      txn.providerReference as string, round2(amount), reason, refundReference
+    );
+  } catch (error) {
+    await transaction(async (q) => {
+      await updateRefund(refundId, { status: 'failed', failureReason: (error as Error).message }, q);
+    });
+    throw error;
+  }
+
+  await transaction(async (q) => {
+    const locked = await getTransaction(txn.id, q, true);
+    const refund = await getRefund(refundId, q, true);
+    if (!locked || !refund) {
+      throw new Error('transaction_not_found');
+    }
+    await setProviderRefundReference(refundId, result.providerRefundReference, q);
+    if (result.status !== 'pending' && refund.status === 'pending') {
+      await settleRefund(locked, refund, { status: result.status, failureReason: result.failureReason }, 'api', q);
+    }
+  });
+
+  logger.info('Payment refund requested', { transactionId: txn.id, refundId, amount, status: result.status }, {
+    component: 'PaymentService',
+    action: 'refundPayment'
+  });
+
+  return (await getRefund(refundId)) as Refund;
+}
+
+// ============================================================================
+// WEBHOOKS
+// ============================================================================
+
+export interface WebhookOutcome {
+  duplicate: boolean;
+  applied: boolean;
+  transactionId?: string;
+  status?: PaymentStatus;
+}
+
+const EVENT_STATUS: Partial<Record<PaymentWebhookEvent['type'], PaymentStatus>> = {
+  'payment.authorized': 'processing',
+  'payment.succeeded': 'completed',
+  'payment.failed': 'failed',
+  'payment.cancelled': 'cancelled'
+};
+
+/**
+ * Verifies, de-duplicates and applies a provider webhook. Out-of-order deliveries
+ * (e.g. 'authorized' after 'succeeded') are recorded but do not move the payment.
+ */
+export async function handleWebhook(
+  method: WalletPaymentMethod,
+  rawBody: string,
+  headers: Headers
+): Promise<WebhookOutcome> {
+  const provider = getPaymentProvider(method);
+  const event = provider.verifyWebhook(rawBody, headers);
+
+  return transaction(async (q) => {
+    const txn = await getTransactionByProviderReference(provider.name, event.providerReference, q, true);
+    const recorded = await recordWebhookEvent(provider.name, event, txn?.id ?? null, q);
+    if (!recorded) {
+      return { duplicate: true, applied: false, transactionId: txn?.id, status: txn?.status };
+    }
+    if (!txn) {
+      logger.warn('Webhook for unknown payment', { provider: provider.name, eventId: event.eventId }, {
+        component: 'PaymentService',
+        action: 'handleWebhook'
+      });
+      return { duplicate: false, applied: false };
+    }
+
+    const target = EVENT_STATUS[event.type];
+    if (target) {
+      if (!canTransitionPayment(txn.status, target)) {
+        return { duplicate: false, applied: false, transactionId: txn.id, status: txn.status };
+      }
+      await applyTransition(txn, target, {
+        source: 'webhook',
+        providerEventId: event.eventId,
+        failureReason: event.failureReason ?? null
+      }, q);
+      return { duplicate: false, applied: true, transactionId: txn.id, status: target };
+    }
+
+    const refund = await getPendingRefund(txn.id, {
+      refundReference: event.refundReference,
+      providerRefundReference: event.providerRefundReference
+    }, q);
+    if (!refund) {
+      return { duplicate: false, applied: false, transactionId: txn.id, status: txn.status };
+    }
+    await settleRefund(txn, refund, {
+      status: event.type === 'refund.succeeded' ? 'processed' : 'failed',
+      failureReason: event.failureReason,
+      providerEventId: event.eventId
+    }, 'webhook', q);
+    const updated = await getTransaction(txn.id, q);
+    return { duplicate: false, applied: true, transactionId: txn.id, status: updated?.status };
+  });
+}
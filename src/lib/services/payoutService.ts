@@ -0,0 +1,460 @@
+import { randomUUID } from 'crypto';
+
+import { getWorkflowDefinition, validateApprovalRequest } from '@/lib/approval-workflows';
+import { transaction } from '@/lib/db';
+import {
+  ApprovalRequestWithApprovers,
+  createApprovalRequest,
+  getApprovalRequestWithApprovers
+} from '@/lib/repos/approvalRequestsRepo';
+import { postJournal, QueryFn } from '@/lib/repos/ledgerRepo';
+import {
+  closePayoutDispute,
+  getBatch,
+  getLine,
+  getOpenPayoutDispute,
+  insertBatch,
+  insertLine,
+  insertLineEvent,
+  insertPayoutDispute,
+  listBatchLines,
+  listPayableBalances,
+  lockPayoutBuilds,
+  refreshBatchTotals,
+  updateBatchStatus,
+  updateLineStatus
+} from '@/lib/repos/payoutsRepo';
+import { logger } from '@/lib/security/productionLogger';
+import {
+  CreatePayoutBatchRequest,
+  PayoutBatch,
+  PayoutBatchBuildResult,
+  PayoutDispute,
+  PayoutExportFile,
+  PayoutLine,
+  PayoutLineStatus
+} from '@/types/payout';
+import { LEDGER_ACCOUNTS } from '@/types/settlement';
+
+export const PAYOUT_APPROVAL_ACTION = 'approve_payout_batch';
+
+// Matches the default request lifetime used by /api/admin/approval/request
+const APPROVAL_REQUEST_TTL_SECONDS = 24 * 60 * 60;
+
+export const MAX_PAYOUT_ATTEMPTS = 3;
+
+// HTTP status for each error code thrown by this service
+const PAYOUT_ERROR_STATUS: Record<string, number> = {
+  batch_not_found: 404,
+  payout_not_found: 404,
+  dispute_not_found: 404,
+  invalid_approval_request: 400,
+  invalid_batch_state: 409,
+  invalid_payout_transition: 409,
+  dispute_already_open: 409,
+  payout_disputed: 409,
+  retry_limit_reached: 409,
+  approval_required: 403,
+  approval_not_approved: 403,
+  approval_batch_mismatch: 403,
+  approval_insufficient_approvers: 403,
+  approval_expired: 403
+};
+
+export function payoutErrorStatus(error: unknown): number | null {
+  const code = error instanceof Error ? error.message.split(':')[0] : '';
+  return PAYOUT_ERROR_STATUS[code] ?? null;
+}
+
+const LINE_TRANSITIONS: Record<PayoutLineStatus, PayoutLineStatus[]> = {
+  queued: ['sent'],
+  sent: ['failed', 'reversed'],
+  failed: ['queued', 'reversed'],
+  reversed: []
+};
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+export function canTransitionLine(from: PayoutLineStatus, to: PayoutLineStatus): boolean {
+  return LINE_TRANSITIONS[from].includes(to);
+}
+
+/**
+ * A batch may only be released against an approved approve_payout_batch request for
+ * that exact batch and amount, approved by enough distinct people other than its creator,
+ * and no longer ago than the workflow's maximum TTL.
+ */
+export function assertApprovalSatisfied(
+  batch: Pick<PayoutBatch, 'id' | 'totalAmount' | 'createdBy'>,
+  approval: ApprovalRequestWithApprovers | null,
+  now: Date = new Date()
+): void {
+  const definition = getWorkflowDefinition(PAYOUT_APPROVAL_ACTION);
+  if (!approval || !definition || approval.action !== PAYOUT_APPROVAL_ACTION) {
+    throw new Error('approval_required');
+  }
+  if (approval.status !== 'approved') {
+    throw new Error('approval_not_approved');
+  }
+
+  const requested = JSON.parse(approval.requested_action || '{}');
+  if (requested.batch_id !== batch.id || round2(Number(requested.amount)) !== round2(batch.totalAmount)) {
+    throw new Error('approval_batch_mismatch');
+  }
+
+  const approvers = new Set(approval.approver_ids.filter(id => id !== batch.createdBy));
+  const required = Math.max(approval.required_approvers || 1, definition.dual_approval_required ? 2 : 1);
+  if (approvers.size < required) {
+    throw new Error('approval_insufficient_approvers');
+  }
+
+  const approvedAt = approval.completed_at ? new Date(approval.completed_at).getTime() : NaN;
+  if (!Number.isFinite(approvedAt) || now.getTime() - approvedAt > definition.max_ttl_seconds * 1000) {
+    throw new Error('approval_expired');
+  }
+}
+
+const csvCell = (value: string | number | null | undefined) => {
+  const text = value === null || value === undefined ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const toCsv = (header: string[], rows: (string | number | null | undefined)[][]) =>
+  [header, ...rows].map(row => row.map(csvCell).join(',')).join('\r\n') + '\r\n';
+
+/**
+ * Rail upload file for the lines handed to the rail. Bank transfers use the
+ * InstaPay/PESONet bulk-transfer layout; GCash uses the disbursement template.
+ */
+export function buildPayoutExport(batch: PayoutBatch, lines: PayoutLine[]): PayoutExportFile {
+  const filename = `${batch.reference}-${batch.payoutMethod}.csv`;
+
+  if (batch.payoutMethod === 'bank_transfer') {
+    return {
+      filename,
+      contentType: 'text/csv',
+      content: toCsv(
+        ['Beneficiary Name', 'Account Number', 'Bank Code', 'Amount', 'Currency', 'Reference', 'Remarks'],
+        lines.map(line => [
+          line.accountName, line.accountNumber, line.bankCode, line.amount.toFixed(2), 'PHP', line.reference,
+          `Xpress payout ${batch.reference}`
+        ])
+      )
+    };
+  }
+
+  return {
+    filename,
+    contentType: 'text/csv',
+    content: toCsv(
+      ['Mobile Number', 'Account Name', 'Amount', 'Reference'],
+      lines.map(line => [line.accountNumber, line.accountName, line.amount.toFixed(2), line.reference])
+    )
+  };
+}
+
+// Driver-facing payout status shown by PayoutStatusBadge
+const toPayoutStatus = (line: PayoutLine): 'pending' | 'processing' | 'completed' | 'failed' => {
+  switch (line.status) {
+    case 'queued':
+      return line.batchStatus === 'released' ? 'processing' : 'pending';
+    case 'sent':
+      return 'completed';
+    default:
+      return 'failed';
+  }
+};
+
+// Shape consumed by the earnings UI (DriverPayout), with the underlying line state alongside
+export const toDriverPayout = (line: PayoutLine) => ({
+  id: line.id,
+  driverId: line.driverId,
+  driverName: line.driverName,
+  amount: line.amount,
+  status: toPayoutStatus(line),
+  lineStatus: line.status,
+  payoutMethod: line.payoutMethod,
+  payoutDate: line.sentAt ?? line.createdAt,
+  payoutReference: line.reference,
+  processedDate: line.sentAt ?? undefined,
+  failureReason: line.failureReason ?? undefined,
+  batchId: line.batchId,
+  batchReference: line.batchReference,
+  attemptCount: line.attemptCount,
+  createdAt: line.createdAt,
+  updatedAt: line.updatedAt
+});
+
+const batchReference = (payoutMethod: string) => {
+  const date = new Date().toISOString().slice(0, 10).replace(/-/g, '');
+  const rail = payoutMethod === 'gcash' ? 'GC' : 'BT';
+  return `PB-${date}-${rail}-${randomUUID().slice(0, 6).toUpperCase()}`;
+};
+
+export async function createPayoutBatch(
+  request: CreatePayoutBatchRequest,
+  createdBy: string
+): Promise<PayoutBatchBuildResult> {
+  const minimumAmount = request.minimumAmount ?? 0;
+
+  return await transaction(async (query) => {
+    await lockPayoutBuilds(query);
+    const balances = await listPayableBalances(request.payoutMethod, request.driverIds ?? null, query);
+
+    const eligible = balances.filter(b => b.account_number && Number(b.available) >= minimumAmount);
+    const driversSkippedNoAccount = balances.filter(b => !b.account_number).length;
+    if (eligible.length === 0) {
+      return { batch: null, driversSkippedNoAccount };
+    }
+
+    const reference = batchReference(request.payoutMethod);
+    const batchId = await insertBatch({ reference, payoutMethod: request.payoutMethod, createdBy }, query);
+
+    let seq = 0;
+    for (const balance of eligible) {
+      seq++;
+      await insertLine({
+        reference: `${reference}-${String(seq).padStart(4, '0')}`,
+        batchId,
+        driverId: balance.driver_id,
+        amount: round2(Number(balance.available)),
+        accountName: balance.account_name!,
+        accountNumber: balance.account_number!,
+        bankCode: balance.bank_code
+      }, query);
+    }
+    await refreshBatchTotals(batchId, query);
+
+    const batch = await getBatch(batchId, query);
+    logger.info('Payout batch created', { batchId, reference, lines: seq }, {
+      component: 'PayoutService',
+      action: 'createPayoutBatch'
+    });
+    return { batch, driversSkippedNoAccount };
+  });
+}
+
+export async function submitBatchForApproval(
+  batchId: string,
+  requesterId: string,
+  justification: string
+): Promise<PayoutBatch> {
+  return await transaction(async (query) => {
+    const batch = await getBatch(batchId, query, true);
+    if (!batch) {
+      throw new Error('batch_not_found');
+    }
+    if (batch.status !== 'draft') {
+      throw new Error('invalid_batch_state');
+    }
+
+    const requestedAction = {
+      action: PAYOUT_APPROVAL_ACTION,
+      batch_id: batch.id,
+      batch_reference: batch.reference,
+      payout_method: batch.payoutMethod,
+      amount: batch.totalAmount,
+      driver_count: batch.lineCount
+    };
+    const definition = getWorkflowDefinition(PAYOUT_APPROVAL_ACTION)!;
+    const validation = validateApprovalRequest(
+      { action: PAYOUT_APPROVAL_ACTION, justification, requested_action: requestedAction },
+      definition
+    );
+    if (!validation.valid) {
+      throw new Error(`invalid_approval_request: ${validation.errors.join('; ')}`);
+    }
+
+    const approval = await createApprovalRequest(
+      PAYOUT_APPROVAL_ACTION, requesterId, justification, requestedAction, APPROVAL_REQUEST_TTL_SECONDS, query
+    );
+    await updateBatchStatus(batchId, 'pending_approval', { approvalRequestId: approval.request_id }, query);
+
+    return (await getBatch(batchId, query))!;
+  });
+}
+
+async function sendLine(line: PayoutLine, actorId: string, query: QueryFn): Promise<void> {
+  const journalId = await postJournal({
+    reference: `PAY-${line.reference}-${line.attemptCount + 1}`,
+    description: `Driver payout ${line.reference} via ${line.payoutMethod}`,
+    sourceType: 'payout',
+    sourceId: line.id,
+    postedBy: actorId,
+    lines: [
+      { accountCode: LEDGER_ACCOUNTS.DRIVER_PAYABLES, driverId: line.driverId, debit: line.amount, credit: 0 },
+      { accountCode: LEDGER_ACCOUNTS.CASH, driverId: line.driverId, debit: 0, credit: line.amount }
+    ]
+  }, query);
+
+  await updateLineStatus(line.id, { status: 'sent', markSent: true }, query);
+  await insertLineEvent(line.id, {
+    fromStatus: line.status, toStatus: 'sent', actorId, journalId
+  }, query);
+}
+
+// Money that left through the rail came back: the driver is owed it again
+async function restoreLine(line: PayoutLine, actorId: string, note: string, query: QueryFn): Promise<string> {
+  return await postJournal({
+    reference: `PRV-${line.reference}-${line.attemptCount}`,
+    description: `Payout returned ${line.reference}: ${note}`,
+    sourceType: 'payout_reversal',
+    sourceId: line.id,
+    postedBy: actorId,
+    lines: [
+      { accountCode: LEDGER_ACCOUNTS.CASH, driverId: line.driverId, debit: line.amount, credit: 0 },
+      { accountCode: LEDGER_ACCOUNTS.DRIVER_PAYABLES, driverId: line.driverId, debit: 0, credit: line.amount }
+    ]
+  }, query);
+}
+
+export async function releaseBatch(batchId: string, releasedBy: string): Promise<PayoutBatch> {
+  return await transaction(async (query) => {
+    const batch = await getBatch(batchId, query, true);
+    if (!batch) {
+      throw new Error('batch_not_found');
+    }
+    if (batch.status !== 'pending_approval' || !batch.approvalRequestId) {
+      throw new Error('invalid_batch_state');
+    }
+
+    const approval = await getApprovalRequestWithApprovers(batch.approvalRequestId, query);
+    assertApprovalSatisfied(batch, approval);
+
+    const lines = await listBatchLines(batchId, query, 'queued');
+    for (const line of lines) {
+      await sendLine(line, releasedBy, query);
+    }
+    await updateBatchStatus(batchId, 'released', { releasedBy }, query);
+
+    logger.info('Payout batch released', { batchId, lines: lines.length, amount: batch.totalAmount }, {
+      component: 'PayoutService',
+      action: 'releaseBatch'
+    });
+    return (await getBatch(batchId, query))!;
+  });
+}
+
+export async function cancelBatch(batchId: string): Promise<PayoutBatch> {
+  return await transaction(async (query) => {
+    const batch = await getBatch(batchId, query, true);
+    if (!batch) {
+      throw new Error('batch_not_found');
+    }
+    if (batch.status !== 'draft' && batch.status !== 'pending_approval') {
+      throw new Error('invalid_batch_state');
+    }
+    await updateBatchStatus(batchId, 'cancelled', {}, query);
+    return (await getBatch(batchId, query))!;
+  });
+}
+
+async function lockLine(lineId: string, query: QueryFn): Promise<PayoutLine> {
+  const line = await getLine(lineId, query, true);
+  if (!line) {
+    throw new Error('payout_not_found');
+  }
+  return line;
+}
+
+/**
+ * Records a rail rejection for a sent line (bank return, invalid wallet). The
+ * payout journal is reversed so the amount is owed to the driver until retried.
+ */
+export async function markLineFailed(
+  lineId: string,
+  failure: { reason: string; providerReference?: string },
+  actorId: string
+): Promise<PayoutLine> {
+  return await transaction(async (query) => {
+    const line = await lockLine(lineId, query);
+    if (!canTransitionLine(line.status, 'failed')) {
+      throw new Error('invalid_payout_transition');
+    }
+
+    const journalId = await restoreLine(line, actorId, failure.reason, query);
+    await updateLineStatus(line.id, {
+      status: 'failed', failureReason: failure.reason, providerReference: failure.providerReference
+    }, query);
+    await insertLineEvent(line.id, {
+      fromStatus: line.status, toStatus: 'failed', actorId, note: failure.reason, journalId
+    }, query);
+
+    return (await getLine(lineId, query))!;
+  });
+}
+
+export async function retryLine(lineId: string, actorId: string): Promise<PayoutLine> {
+  return await transaction(async (query) => {
+    const line = await lockLine(lineId, query);
+    if (line.status !== 'failed') {
+      throw new Error('invalid_payout_transition');
+    }
+    if (line.attemptCount >= MAX_PAYOUT_ATTEMPTS) {
+      throw new Error('retry_limit_reached');
+    }
+    if (await getOpenPayoutDispute(lineId, query)) {
+      throw new Error('payout_disputed');
+    }
+
+    await updateLineStatus(line.id, { status: 'queued' }, query);
+    await insertLineEvent(line.id, {
+      fromStatus: 'failed', toStatus: 'queued', actorId, note: `Retry attempt ${line.attemptCount + 1}`
+    }, query);
+    await sendLine({ ...line, status: 'queued' }, actorId, query);
+
+    return (await getLine(lineId, query))!;
+  });
+}
+
+export async function openPayoutDispute(
+  lineId: string,
+  request: { reason: string; details?: string },
+  raisedBy: string
+): Promise<PayoutDispute> {
+  return await transaction(async (query) => {
+    const line = await lockLine(lineId, query);
+    if (line.status !== 'sent' && line.status !== 'failed') {
+      throw new Error('invalid_payout_transition');
+    }
+    if (await getOpenPayoutDispute(lineId, query)) {
+      throw new Error('dispute_already_open');
+    }
+    return await insertPayoutDispute({ lineId, driverId: line.driverId, ...request, raisedBy }, query);
+  });
+}
+
+/**
+ * Closes the open dispute on a line. Upholding it reverses the payout: a sent line
+ * has its journal reversed, a failed line just stops holding the driver's balance.
+ */
+export async function resolvePayoutDispute(
+  lineId: string,
+  decision: { outcome: 'reverse' | 'reject'; note: string },
+  reviewerId: string
+): Promise<PayoutDispute> {
+  return await transaction(async (query) => {
+    const line = await lockLine(lineId, query);
+    const dispute = await getOpenPayoutDispute(lineId, query);
+    if (!dispute) {
+      throw new Error('dispute_not_found');
+    }
+
+    if (decision.outcome === 'reverse') {
+      if (!canTransitionLine(line.status, 'reversed')) {
+        throw new Error('invalid_payout_transition');
+      }
+      const journalId = line.status === 'sent' ? await restoreLine(line, reviewerId, decision.note, query) : null;
+      await updateLineStatus(line.id, { status: 'reversed' }, query);
+      await insertLineEvent(line.id, {
+        fromStatus: line.status, toStatus: 'reversed', actorId: reviewerId, note: decision.note, journalId
+      }, query);
+    }
+
+    return await closePayoutDispute(dispute.id, {
+      status: decision.outcome === 'reverse' ? 'resolved' : 'rejected',
+      resolution: decision.note,
+      resolvedBy: reviewerId
+    }, query);
+  });
+}
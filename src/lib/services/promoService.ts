@@ -0,0 +1,497 @@
+import { query, transaction } from '@/lib/db';
+import { riderIncentiveFraudDetector } from '@/lib/fraud/riderIncentiveFraud';
+import { QueryFn } from '@/lib/repos/ledgerRepo';
+import {
+  countCustomerRedemptions,
+  countPromoRedemptions,
+  decrementPromoUsage,
+  deletePromo as deletePromoRow,
+  getPromo,
+  getPromoByCode,
+  getPromosByCodes,
+  getRedemption,
+  hasCompletedBooking,
+  incrementPromoUsage,
+  insertPromo,
+  insertPromoAttempts,
+  insertRedemption,
+  listBookingRedemptions,
+  listPromoAttempts,
+  listRedemptionsByIds,
+  lockCustomerRedemptions,
+  PromoPatch,
+  reverseRedemption,
+  setAttemptFraudScore,
+  updatePromo as updatePromoRow
+} from '@/lib/repos/promosRepo';
+import { logger } from '@/lib/security/productionLogger';
+import {
+  AppliedPromo,
+  CreatePromoRequest,
+  MAX_STACKED_PROMOS,
+  Promo,
+  PromoContext,
+  PromoEvaluation,
+  PromoRedemption,
+  PromoRedemptionResult,
+  PromoRejectionReason,
+  RedeemPromoRequest,
+  RejectedPromo,
+  UpdatePromoRequest
+} from '@/types/promo';
+
+// HTTP status for each error code thrown by this service
+const PROMO_ERROR_STATUS: Record<string, number> = {
+  promo_not_found: 404,
+  redemption_not_found: 404,
+  invalid_promo_request: 400,
+  promo_code_taken: 409,
+  promo_in_use: 409,
+  invalid_redemption_state: 409,
+  promo_rejected: 422
+};
+
+export function promoErrorStatus(error: unknown): number | null {
+  const code = error instanceof Error ? error.message.split(':')[0] : '';
+  return PROMO_ERROR_STATUS[code] ?? null;
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+export const normalizePromoCode = (code: string) => code.trim().toUpperCase();
+
+// What is known about the customer; without it, per-user and new-user rules are skipped
+export interface PromoCustomerState {
+  isNewUser: boolean;
+  redemptions: Record<string, number>;   // standing redemptions per promo id
+}
+
+const isSet = <T>(value: T | null | undefined): value is T => value !== null && value !== undefined;
+
+const listed = (values: string[] | null | undefined, value: string | undefined) =>
+  !values || values.length === 0 || (value !== undefined && values.includes(value));
+
+/**
+ * The first rule a promo fails for this booking, or null when it can be applied.
+ * Availability is checked before targeting, and customer limits last.
+ */
+export function checkPromoEligibility(
+  promo: Promo,
+  context: PromoContext,
+  customer?: PromoCustomerState
+): PromoRejectionReason | null {
+  const at = context.at ?? new Date();
+  if (new Date(promo.validTo) < at) {
+    return 'expired';
+  }
+  if (!promo.isActive) {
+    return 'inactive';
+  }
+  if (new Date(promo.validFrom) > at) {
+    return 'not_started';
+  }
+  if (isSet(promo.usageLimit) && promo.usageCount >= promo.usageLimit) {
+    return 'usage_limit_reached';
+  }
+  if (!listed(promo.serviceKeys, context.serviceKey)) {
+    return 'service_not_eligible';
+  }
+  if (!listed(promo.regionIds, context.regionId)) {
+    return 'region_not_eligible';
+  }
+  if (!listed(promo.zoneIds, context.zoneId)) {
+    return 'zone_not_eligible';
+  }
+  if (isSet(promo.minOrderAmount) && context.orderAmount < promo.minOrderAmount) {
+    return 'min_order_not_met';
+  }
+  if (customer && promo.newUsersOnly && !customer.isNewUser) {
+    return 'new_users_only';
+  }
+  if (customer && isSet(promo.perUserLimit) && (customer.redemptions[promo.id] ?? 0) >= promo.perUserLimit) {
+    return 'user_limit_reached';
+  }
+  return null;
+}
+
+export function promoDiscount(
+  promo: Pick<Promo, 'discountType' | 'discountValue' | 'maxDiscount'>,
+  orderAmount: number
+): number {
+  const raw = promo.discountType === 'percentage' ? orderAmount * promo.discountValue / 100 : promo.discountValue;
+  return round2(isSet(promo.maxDiscount) ? Math.min(raw, promo.maxDiscount) : raw);
+}
+
+/**
+ * Percentages are taken off the order amount first, then fixed amounts. Each promo
+ * only takes what is left, so the fare never goes below zero.
+ */
+function applyDiscounts(promos: Promo[], orderAmount: number): AppliedPromo[] {
+  const ordered = [...promos].sort((a, b) =>
+    (a.discountType === b.discountType ? 0 : a.discountType === 'percentage' ? -1 : 1));
+  let remaining = orderAmount;
+  return ordered.map(promo => {
+    const discountAmount = round2(Math.min(promoDiscount(promo, orderAmount), remaining));
+    remaining = round2(remaining - discountAmount);
+    return { promoId: promo.id, code: promo.code, name: promo.name, discountAmount };
+  });
+}
+
+const totalDiscount = (applied: AppliedPromo[]) =>
+  round2(applied.reduce((sum, promo) => sum + promo.discountAmount, 0));
+
+/**
+ * Applies promo codes to a booking. Every code must pass its own eligibility rules;
+ * of the eligible promos, either one non-stackable promo or up to MAX_STACKED_PROMOS
+ * stackable promos are applied, whichever gives the customer the larger discount.
+ */
+export function evaluatePromos(
+  codes: string[],
+  promos: Promo[],
+  context: PromoContext,
+  customer?: PromoCustomerState
+): PromoEvaluation {
+  const byCode = new Map(promos.map(promo => [promo.code, promo]));
+  const rejected: RejectedPromo[] = [];
+  const eligible: Promo[] = [];
+  const seen = new Set<string>();
+
+  for (const code of codes.map(normalizePromoCode)) {
+    if (seen.has(code)) {
+      rejected.push({ code, reason: 'duplicate_code' });
+      continue;
+    }
+    seen.add(code);
+    const promo = byCode.get(code);
+    const reason = promo ? checkPromoEligibility(promo, context, customer) : 'not_found';
+    if (reason || !promo) {
+      rejected.push({ code, reason: reason ?? 'not_found' });
+    } else {
+      eligible.push(promo);
+    }
+  }
+
+  const stackable = eligible
+    .filter(promo => promo.stackable)
+    .sort((a, b) => promoDiscount(b, context.orderAmount) - promoDiscount(a, context.orderAmount));
+  const options: Promo[][] = eligible.filter(promo => !promo.stackable).map(promo => [promo]);
+  if (stackable.length > 0) {
+    options.push(stackable.slice(0, MAX_STACKED_PROMOS));
+  }
+
+  let applied: AppliedPromo[] = [];
+  for (const option of options) {
+    const candidate = applyDiscounts(option, context.orderAmount);
+    if (applied.length === 0 || totalDiscount(candidate) > totalDiscount(applied)) {
+      applied = candidate;
+    }
+  }
+
+  const appliedIds = new Set(applied.map(promo => promo.promoId));
+  for (const promo of eligible.filter(p => !appliedIds.has(p.id))) {
+    const crowdedOut = promo.stackable && applied.every(a => byCode.get(a.code)?.stackable);
+    rejected.push({ code: promo.code, reason: crowdedOut ? 'too_many_promos' : 'not_stackable' });
+  }
+
+  const discount = totalDiscount(applied);
+  return {
+    orderAmount: context.orderAmount,
+    discount,
+    finalAmount: round2(context.orderAmount - discount),
+    applied,
+    rejected
+  };
+}
+
+async function loadCustomerState(customerId: string, promos: Promo[], q: QueryFn): Promise<PromoCustomerState> {
+  const completed = await hasCompletedBooking(customerId, q);
+  const redemptions = await countCustomerRedemptions(customerId, promos.map(promo => promo.id), q);
+  return { isNewUser: !completed, redemptions };
+}
+
+// ============================================================================
+// PROMOTIONS
+// ============================================================================
+
+function assertValidPromo(promo: {
+  discountType: Promo['discountType'];
+  discountValue: number;
+  validFrom: string;
+  validTo: string;
+}): void {
+  if (new Date(promo.validTo) <= new Date(promo.validFrom)) {
+    throw new Error('invalid_promo_request: validTo must be after validFrom');
+  }
+  if (promo.discountType === 'percentage' && promo.discountValue > 100) {
+    throw new Error('invalid_promo_request: a percentage discount cannot exceed 100');
+  }
+}
+
+export async function getPromoDetail(id: string): Promise<Promo> {
+  const promo = await getPromo(id);
+  if (!promo) {
+    throw new Error('promo_not_found');
+  }
+  return promo;
+}
+
+export async function createPromo(request: CreatePromoRequest, createdBy: string): Promise<Promo> {
+  assertValidPromo(request);
+  const code = normalizePromoCode(request.code);
+  if (await getPromoByCode(code)) {
+    throw new Error('promo_code_taken');
+  }
+
+  const promo = await insertPromo({ ...request, code, createdBy });
+  logger.info('Promo created', { promoId: promo.id, code }, { component: 'PromoService', action: 'createPromo' });
+  return promo;
+}
+
+export async function updatePromo(id: string, request: UpdatePromoRequest, actorId: string): Promise<Promo> {
+  const existing = await getPromoDetail(id);
+  assertValidPromo({
+    discountType: existing.discountType,
+    discountValue: request.discountValue ?? existing.discountValue,
+    validFrom: request.validFrom ?? existing.validFrom,
+    validTo: request.validTo ?? existing.validTo
+  });
+  if (request.usageLimit !== undefined && request.usageLimit !== null && request.usageLimit < existing.usageCount) {
+    throw new Error('invalid_promo_request: usageLimit is below the number of redemptions already made');
+  }
+
+  const patch: PromoPatch = { ...request };
+  await updatePromoRow(id, patch);
+  logger.info('Promo updated', { promoId: id, fields: Object.keys(request), actorId }, {
+    component: 'PromoService',
+    action: 'updatePromo'
+  });
+  return await getPromoDetail(id);
+}
+
+// Redeemed promos are kept for their redemption history; pause them instead
+export async function deletePromo(id: string, actorId: string): Promise<void> {
+  await getPromoDetail(id);
+  if (await countPromoRedemptions(id) > 0) {
+    throw new Error('promo_in_use');
+  }
+  await deletePromoRow(id);
+  logger.info('Promo deleted', { promoId: id, actorId }, { component: 'PromoService', action: 'deletePromo' });
+}
+
+// ============================================================================
+// EVALUATION AND REDEMPTION
+// ============================================================================
+
+/**
+ * Prices promo codes against a booking without redeeming them, e.g. for a fare
+ * preview. Per-user and new-user rules are only checked when a customer is given.
+ */
+export async function previewPromos(codes: string[], context: PromoContext): Promise<PromoEvaluation> {
+  const promos = await getPromosByCodes(codes.map(normalizePromoCode));
+  const customer = context.customerId
+    ? await loadCustomerState(context.customerId, promos, query)
+    : undefined;
+  return evaluatePromos(codes, promos, context, customer);
+}
+
+/**
+ * Redeems promo codes for a booking, all or nothing. Redemptions for one customer
+ * are serialised and the promo rows are locked, so global and per-user limits hold
+ * when the same codes are redeemed concurrently. Redeeming again for a booking that
+ * already has redemptions returns those instead of counting the promos twice.
+ */
+export async function redeemPromos(request: RedeemPromoRequest): Promise<PromoRedemptionResult> {
+  const codes = request.codes.map(normalizePromoCode);
+  if (codes.length === 0) {
+    throw new Error('invalid_promo_request: at least one promo code is required');
+  }
+
+  if (request.bookingId) {
+    const existing = await listBookingRedemptions(request.bookingId);
+    if (existing.length > 0) {
+      return redemptionResult(request.orderAmount, existing);
+    }
+  }
+
+  const outcome = await transaction(async (query) => {
+    await lockCustomerRedemptions(request.customerId, query);
+    // A concurrent redeem for the same booking may have committed while this one waited for the lock
+    if (request.bookingId) {
+      const existing = await listBookingRedemptions(request.bookingId, query);
+      if (existing.length > 0) {
+        return { existing };
+      }
+    }
+
+    const promos = await getPromosByCodes(codes, query, true);
+    const customer = await loadCustomerState(request.customerId, promos, query);
+    const result = evaluatePromos(codes, promos, request, customer);
+    const ids = new Map(promos.map(promo => [promo.code, promo.id]));
+
+    if (result.rejected.length > 0 || result.applied.length === 0) {
+      return { evaluation: result, promoIds: ids, redemptionIds: [] as string[] };
+    }
+
+    const created: string[] = [];
+    for (const applied of result.applied) {
+      if (!await incrementPromoUsage(applied.promoId, query)) {
+        throw new Error('promo_rejected: usage_limit_reached');
+      }
+      created.push(await insertRedemption({
+        promoId: applied.promoId,
+        customerId: request.customerId,
+        bookingId: request.bookingId ?? null,
+        orderAmount: request.orderAmount,
+        discountAmount: applied.discountAmount,
+        serviceKey: request.serviceKey ?? null,
+        regionId: request.regionId ?? null,
+        zoneId: request.zoneId ?? null
+      }, query));
+    }
+    return { evaluation: result, promoIds: ids, redemptionIds: created };
+  });
+  if (outcome.existing) {
+    return redemptionResult(request.orderAmount, outcome.existing);
+  }
+
+  const { evaluation, promoIds, redemptionIds } = outcome;
+
+  const redeemed = redemptionIds.length > 0;
+  await logAttempts(request, evaluation, promoIds, redeemed);
+
+  if (redeemed) {
+    logger.info('Promos redeemed', {
+      customerId: request.customerId,
+      bookingId: request.bookingId,
+      codes: evaluation.applied.map(promo => promo.code),
+      discount: evaluation.discount
+    }, { component: 'PromoService', action: 'redeemPromos' });
+  }
+
+  return {
+    ...evaluation,
+    redeemed,
+    redemptions: redeemed ? await listRedemptionsByIds(redemptionIds) : []
+  };
+}
+
+function redemptionResult(orderAmount: number, redemptions: PromoRedemption[]): PromoRedemptionResult {
+  const applied = redemptions.map(redemption => ({
+    promoId: redemption.promoId,
+    code: redemption.code,
+    name: redemption.code,
+    discountAmount: redemption.discountAmount
+  }));
+  const discount = totalDiscount(applied);
+  return {
+    orderAmount,
+    discount,
+    finalAmount: round2(orderAmount - discount),
+    applied,
+    rejected: [],
+    redeemed: true,
+    redemptions
+  };
+}
+
+export async function reversePromoRedemption(
+  redemptionId: string,
+  reason: string | undefined,
+  actorId: string
+): Promise<PromoRedemption> {
+  await transaction(async (query) => {
+    const redemption = await getRedemption(redemptionId, query, true);
+    if (!redemption) {
+      throw new Error('redemption_not_found');
+    }
+    if (redemption.status !== 'redeemed') {
+      throw new Error('invalid_redemption_state');
+    }
+    await reverseRedemption(redemptionId, reason ?? null, query);
+    await decrementPromoUsage(redemption.promoId, query);
+  });
+
+  logger.info('Promo redemption reversed', { redemptionId, reason, actorId }, {
+    component: 'PromoService',
+    action: 'reversePromoRedemption'
+  });
+  return (await getRedemption(redemptionId))!;
+}
+
+// ============================================================================
+// ABUSE DETECTION
+// ============================================================================
+
+/**
+ * A customer's logged promo attempts in the shape the rider incentive fraud detector
+ * reads: rejected codes count as invalid attempts, expired or not-yet-valid codes as expired.
+ */
+export async function getRiderPromoUsage(customerId: string): Promise<Array<{
+  promoCode: string;
+  usedAt: string;
+  status: 'redeemed' | 'expired' | 'invalid';
+  discountAmount?: number | null;
+}>> {
+  const attempts = await listPromoAttempts(customerId);
+  return attempts.map(attempt => ({
+    promoCode: attempt.promoCode,
+    usedAt: attempt.usedAt,
+    discountAmount: attempt.discountAmount,
+    status: attempt.outcome === 'redeemed'
+      ? 'redeemed'
+      : attempt.outcome === 'expired' || attempt.outcome === 'not_started' ? 'expired' : 'invalid'
+  }));
+}
+
+// Logs every code in the attempt, then screens the customer's promo history for abuse
+async function logAttempts(
+  request: RedeemPromoRequest,
+  evaluation: PromoEvaluation,
+  promoIds: Map<string, string>,
+  redeemed: boolean
+): Promise<void> {
+  try {
+    // Codes that passed but went unredeemed because another code failed are not logged
+    const attempts = [
+      ...(redeemed ? evaluation.applied : []).map(applied => ({
+        code: applied.code,
+        outcome: 'redeemed' as const,
+        discountAmount: applied.discountAmount as number | null
+      })),
+      ...evaluation.rejected.map(rejected => ({
+        code: rejected.code,
+        outcome: rejected.reason,
+        discountAmount: null
+      }))
+    ];
+    const ids = await insertPromoAttempts(attempts.map(attempt => ({
+      ...attempt,
+      customerId: request.customerId,
+      promoId: promoIds.get(attempt.code) ?? null,
+      orderAmount: request.orderAmount,
+      bookingId: request.bookingId ?? null
+    })));
+
+    const alert = await riderIncentiveFraudDetector.analyzeRider(request.customerId, {
+      id: request.customerId,
+      promoUsage: await getRiderPromoUsage(request.customerId),
+      rides: [],
+      referrals: []
+    });
+    if (alert) {
+      await setAttemptFraudScore(ids, alert.fraudScore);
+      logger.warn('Promo abuse suspected', {
+        customerId: request.customerId,
+        fraudScore: alert.fraudScore,
+        severity: alert.severity,
+        alertId: alert.id
+      }, { component: 'PromoService', action: 'logAttempts' });
+    }
+  } catch (error) {
+    // The attempt log must never block a redemption
+    logger.error('Failed to log promo attempt', { error, customerId: request.customerId }, {
+      component: 'PromoService',
+      action: 'logAttempts'
+    });
+  }
+}
@@ -0,0 +1,405 @@
+import { createHash } from 'crypto';
+
+import { transaction } from '@/lib/db';
+import { parseStatement, SkippedStatementLine } from '@/lib/payments/statementParser';
+import {
+  findCandidatesByReference,
+  getItem,
+  getStatement,
+  insertAudit,
+  insertItem,
+  insertStatement,
+  listMatchCandidates,
+  listOpenMissingItems,
+  MatchCandidate,
+  updateItem
+} from '@/lib/repos/reconciliationRepo';
+import { logger } from '@/lib/security/productionLogger';
+import {
+  ReconciliationAuditAction,
+  ReconciliationDiscrepancyReason,
+  ReconciliationMatchMethod,
+  ReconciliationStatement,
+  ReconciliationStatus,
+  StatementLine,
+  StatementProvider,
+  UnreconciledTransaction
+} from '@/types/billing';
+
+export const SYSTEM_ACTOR = 'system';
+
+// HTTP status for each error code thrown by this service
+const RECONCILIATION_ERROR_STATUS: Record<string, number> = {
+  item_not_found: 404,
+  transaction_not_found: 404,
+  statement_empty: 422,
+  statement_columns_missing: 422,
+  statement_already_imported: 409,
+  invalid_reconciliation_transition: 409,
+  transaction_already_reconciled: 409,
+  transaction_not_settled: 409,
+  notes_required: 400
+};
+
+export function reconciliationErrorStatus(error: unknown): number | null {
+  const code = error instanceof Error ? error.message.split(':')[0] : '';
+  return RECONCILIATION_ERROR_STATUS[code] ?? null;
+}
+
+export interface MatchOptions {
+  dateToleranceHours: number;
+  amountTolerance: number;
+}
+
+export const DEFAULT_MATCH_OPTIONS: MatchOptions = {
+  dateToleranceHours: 48,   // wallets settle T+1; bank credits can land a day later
+  amountTolerance: 0.01
+};
+
+export interface LineMatch {
+  line: StatementLine | null;
+  candidate: MatchCandidate | null;
+  status: ReconciliationStatus;
+  matchMethod: ReconciliationMatchMethod | null;
+  discrepancyReason: ReconciliationDiscrepancyReason | null;
+  expectedAmount: number;
+  actualAmount: number;
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+const SETTLED = ['completed', 'refunded'];
+
+/**
+ * Matches statement lines to internal payments in three passes:
+ *  1. reference (provider reference, or our TXN- reference echoed as merchant reference)
+ *  2. amount within tolerance and date within the window, only when exactly one payment fits
+ *  3. settled payments inside the statement period with no line are reported missing
+ * Passes 2 and 3 only consider payments settled through the statement's provider; other
+ * providers' payments can still be matched by a reference on the line.
+ */
+export function matchStatement(
+  lines: StatementLine[],
+  candidates: MatchCandidate[],
+  period: { provider: StatementProvider; start: string; end: string },
+  options: MatchOptions = DEFAULT_MATCH_OPTIONS
+): LineMatch[] {
+  const results: LineMatch[] = [];
+  const used = new Set<string>();
+  const byReference = new Map<string, MatchCandidate>();
+  for (const candidate of candidates) {
+    byReference.set(candidate.transactionReference, candidate);
+    if (candidate.providerReference) {
+      byReference.set(candidate.providerReference, candidate);
+    }
+  }
+
+  const sameAmount = (a: number, b: number) => Math.abs(a - b) <= options.amountTolerance;
+  const toleranceMs = options.dateToleranceHours * 60 * 60 * 1000;
+  const result = (
+    line: StatementLine | null,
+    candidate: MatchCandidate | null,
+    status: ReconciliationStatus,
+    matchMethod: ReconciliationMatchMethod | null,
+    discrepancyReason: ReconciliationDiscrepancyReason | null
+  ): LineMatch => ({
+    line,
+    candidate,
+    status,
+    matchMethod,
+    discrepancyReason,
+    expectedAmount: candidate ? candidate.amount : 0,
+    actualAmount: line ? line.amount : 0
+  });
+
+  // Pass 1: references
+  const unreferenced: StatementLine[] = [];
+  for (const line of lines) {
+    const candidate = (line.providerReference && byReference.get(line.providerReference)) ||
+      (line.merchantReference && byReference.get(line.merchantReference)) || null;
+    if (!candidate) {
+      unreferenced.push(line);
+    } else if (used.has(candidate.id) || candidate.matchedElsewhere) {
+      results.push(result(line, null, 'discrepancy', null, 'duplicate_statement_line'));
+    } else {
+      used.add(candidate.id);
+      if (!SETTLED.includes(candidate.status)) {
+        results.push(result(line, candidate, 'discrepancy', 'reference', 'status_mismatch'));
+      } else if (sameAmount(candidate.amount, line.amount)) {
+        results.push(result(line, candidate, 'reconciled', 'reference', null));
+      } else {
+        results.push(result(line, candidate, 'discrepancy', 'reference', 'amount_mismatch'));
+      }
+    }
+  }
+
+  // Pass 2: amount + date, unambiguous only
+  const open = () => candidates.filter(c => c.provider === period.provider &&
+    !used.has(c.id) && !c.matchedElsewhere && SETTLED.includes(c.status) && c.completedAt);
+  for (const line of unreferenced) {
+    const lineTime = Date.parse(line.transactionDate);
+    const fits = open().filter(c =>
+      sameAmount(c.amount, line.amount) && Math.abs(Date.parse(c.completedAt as string) - lineTime) <= toleranceMs);
+    if (fits.length === 1) {
+      used.add(fits[0].id);
+      results.push(result(line, fits[0], 'reconciled', 'amount_date', null));
+    } else if (fits.length > 1) {
+      results.push(result(line, null, 'pending', null, 'ambiguous_match'));
+    } else {
+      results.push(result(line, null, 'discrepancy', null, 'unknown_transaction'));
+    }
+  }
+
+  // Pass 3: payments we settled that the provider did not report
+  const start = Date.parse(period.start);
+  const end = Date.parse(period.end);
+  for (const candidate of open()) {
+    const completed = Date.parse(candidate.completedAt as string);
+    if (!candidate.flaggedMissing && completed >= start && completed <= end) {
+      results.push(result(null, candidate, 'discrepancy', null, 'missing_from_statement'));
+    }
+  }
+
+  return results;
+}
+
+// ============================================================================
+// STATEMENT IMPORT
+// ============================================================================
+
+export interface ImportStatementResult {
+  statement: ReconciliationStatement;
+  skipped: SkippedStatementLine[];
+  counts: Record<ReconciliationStatus, number>;
+  resolvedMissing: number;
+}
+
+export async function importStatement(
+  input: { provider: StatementProvider; fileName: string; content: string },
+  uploadedBy: string,
+  options: MatchOptions = DEFAULT_MATCH_OPTIONS
+): Promise<ImportStatementResult> {
+  const { lines, skipped } = parseStatement(input.content);
+  if (lines.length === 0) {
+    throw new Error('statement_empty: no settled payment lines');
+  }
+
+  const times = lines.map(line => Date.parse(line.transactionDate));
+  const period = {
+    start: new Date(Math.min(...times)).toISOString(),
+    end: new Date(Math.max(...times)).toISOString()
+  };
+  const toleranceMs = options.dateToleranceHours * 60 * 60 * 1000;
+
+  return transaction(async (q) => {
+    const statementId = await insertStatement({
+      provider: input.provider,
+      fileName: input.fileName,
+      fileHash: createHash('sha256').update(input.content).digest('hex'),
+      periodStart: period.start,
+      periodEnd: period.end,
+      lineCount: lines.length,
+      skippedCount: skipped.length,
+      statementTotal: round2(lines.reduce((sum, line) => sum + line.amount, 0)),
+      uploadedBy
+    }, q);
+    if (!statementId) {
+      throw new Error('statement_already_imported');
+    }
+
+    // No payment settles through the bank, so bank credits match only by the reference they carry
+    const windowed = input.provider === 'bank' ? [] : await listMatchCandidates(
+      input.provider,
+      new Date(Date.parse(period.start) - toleranceMs).toISOString(),
+      new Date(Date.parse(period.end) + toleranceMs).toISOString(),
+      q
+    );
+    const references = lines.flatMap(line => [line.providerReference, line.merchantReference])
+      .filter((ref): ref is string => Boolean(ref));
+    const referenced = await findCandidatesByReference(references, q);
+    const candidates = [...windowed, ...referenced.filter(r => !windowed.some(w => w.id === r.id))];
+
+    const matches = matchStatement(lines, candidates, { provider: input.provider, ...period }, options);
+    const counts: Record<ReconciliationStatus, number> = { pending: 0, reconciled: 0, discrepancy: 0, disputed: 0 };
+
+    for (const match of matches) {
+      counts[match.status]++;
+      const itemId = await insertItem({
+        statementId,
+        lineNumber: match.line?.lineNumber ?? null,
+        provider: input.provider,
+        providerReference: match.line?.providerReference ?? null,
+        merchantReference: match.line?.merchantReference ?? null,
+        payerName: match.line?.payerName ?? null,
+        statementDate: match.line?.transactionDate ?? null,
+        transactionId: match.candidate?.id ?? null,
+        expectedAmount: match.expectedAmount,
+        actualAmount: match.actualAmount,
+        feeAmount: match.line?.fee ?? 0,
+        status: match.status,
+        matchMethod: match.matchMethod,
+        discrepancyReason: match.discrepancyReason,
+        reconciledBy: match.status === 'reconciled' ? SYSTEM_ACTOR : null
+      }, q);
+
+      if (match.status !== 'pending') {
+        await insertAudit(itemId, {
+          action: match.status === 'reconciled' ? 'auto_matched' : 'marked_discrepancy',
+          fromStatus: null,
+          toStatus: match.status,
+          transactionId: match.candidate?.id,
+          actorId: SYSTEM_ACTOR,
+          notes: match.discrepancyReason ?? `matched by ${match.matchMethod}`
+        }, q);
+      }
+    }
+
+    // Payments reported missing by an earlier statement that this one settles
+    const matchedIds = matches.filter(m => m.line && m.candidate).map(m => m.candidate!.id);
+    const missing = await listOpenMissingItems(matchedIds, q);
+    for (const item of missing) {
+      const notes = `Settled on ${input.fileName}`;
+      await updateItem(item.id, { status: 'reconciled', notes, reconciledBy: SYSTEM_ACTOR }, q);
+      await insertAudit(item.id, {
+        action: 'auto_matched',
+        fromStatus: item.status,
+        toStatus: 'reconciled',
+        actorId: SYSTEM_ACTOR,
+        notes
+      }, q);
+    }
+
+    logger.info('Settlement statement imported', { statementId, provider: input.provider, counts }, {
+      component: 'ReconciliationService',
+      action: 'importStatement'
+    });
+
+    return {
+      statement: (await getStatement(statementId, q)) as ReconciliationStatement,
+      skipped,
+      counts,
+      resolvedMissing: missing.length
+    };
+  });
+}
+
+// ============================================================================
+// MANUAL REVIEW
+// ============================================================================
+
+export type ReconciliationAction =
+  | { type: 'match'; transactionId: string; notes?: string }
+  | { type: 'reconcile'; invoiceId?: string; notes?: string }
+  | { type: 'discrepancy'; reason: string; notes?: string }
+  | { type: 'dispute'; notes?: string }
+  | { type: 'unmatch'; notes?: string };
+
+const ACTION_FROM: Record<ReconciliationAction['type'], ReconciliationStatus[]> = {
+  match: ['pending', 'discrepancy', 'disputed'],
+  reconcile: ['pending', 'discrepancy', 'disputed'],
+  discrepancy: ['pending', 'reconciled', 'disputed'],
+  dispute: ['pending', 'discrepancy'],
+  unmatch: ['reconciled', 'discrepancy', 'disputed']
+};
+
+const AUDIT_ACTION: Record<ReconciliationAction['type'], ReconciliationAuditAction> = {
+  match: 'manual_matched',
+  reconcile: 'reconciled',
+  discrepancy: 'marked_discrepancy',
+  dispute: 'disputed',
+  unmatch: 'unmatched'
+};
+
+export function canApplyReconciliationAction(
+  type: ReconciliationAction['type'],
+  item: Pick<UnreconciledTransaction, 'status' | 'lineNumber'>
+): boolean {
+  if (!ACTION_FROM[type].includes(item.status)) {
+    return false;
+  }
+  // Missing-from-statement items have no line to attach a payment to
+  return !(type === 'match' || type === 'unmatch') || item.lineNumber !== null;
+}
+
+/** Applies an operator decision to a reconciliation item and records it in the audit trail. */
+export async function applyReconciliationAction(
+  itemId: string,
+  action: ReconciliationAction,
+  actorId: string,
+  options: MatchOptions = DEFAULT_MATCH_OPTIONS
+): Promise<UnreconciledTransaction> {
+  return transaction(async (q) => {
+    const item = await getItem(itemId, q, true);
+    if (!item) {
+      throw new Error('item_not_found');
+    }
+    if (!canApplyReconciliationAction(action.type, item)) {
+      throw new Error(`invalid_reconciliation_transition: cannot ${action.type} a ${item.status} item`);
+    }
+
+    const notes = action.notes ?? null;
+    let toStatus: ReconciliationStatus;
+    let transactionId: string | null = null;
+
+    switch (action.type) {
+      case 'match': {
+        const [payment] = await findCandidatesByReference([action.transactionId], q);
+        if (!payment) {
+          throw new Error('transaction_not_found');
+        }
+        if (payment.matchedElsewhere) {
+          throw new Error('transaction_already_reconciled');
+        }
+        if (!SETTLED.includes(payment.status)) {
+          throw new Error('transaction_not_settled');
+        }
+        transactionId = payment.id;
+        const matched = Math.abs(payment.amount - item.actualAmount) <= options.amountTolerance;
+        toStatus = matched ? 'reconciled' : 'discrepancy';
+        await updateItem(item.id, {
+          status: toStatus,
+          transactionId: payment.id,
+          expectedAmount: payment.amount,
+          matchMethod: 'manual',
+          discrepancyReason: matched ? null : 'amount_mismatch',
+          notes,
+          reconciledBy: actorId
+        }, q);
+        break;
+      }
+      case 'reconcile':
+        if (Math.abs(item.difference) > options.amountTolerance && !notes) {
+          throw new Error('notes_required: explain why a difference is accepted');
+        }
+        toStatus = 'reconciled';
+        await updateItem(item.id, { status: toStatus, invoiceId: action.invoiceId, notes, reconciledBy: actorId }, q);
+        break;
+      case 'discrepancy':
+        toStatus = 'discrepancy';
+        await updateItem(item.id, {
+          status: toStatus,
+          discrepancyReason: 'manual',
+          notes: notes ? `${action.reason}: ${notes}` : action.reason
+        }, q);
+        break;
+      case 'dispute':
+        toStatus = 'disputed';
+        await updateItem(item.id, { status: toStatus, notes }, q);
+        break;
+      case 'unmatch':
+        toStatus = 'pending';
+        await updateItem(item.id, { status: toStatus, notes, clearMatch: true }, q);
+        break;
+    }
+
+    await insertAudit(item.id, {
+      action: AUDIT_ACTION[action.type],
+      fromStatus: item.status,
+      toStatus,
+      transactionId,
+      actorId,
+      notes: action.type === 'discrepancy' ? action.reason + (notes ? `: ${notes}` : '') : notes
+    }, q);
+
+    return (await getItem(item.id, q)) as UnreconciledTransaction;
+  });
+}
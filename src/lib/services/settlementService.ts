@@ -0,0 +1,356 @@
+import { transaction } from '@/lib/db';
+import { postJournal } from '@/lib/repos/ledgerRepo';
+import {
+  attachSettlementJournal,
+  consumeRecurringDeduction,
+  getOpenDispute,
+  getSettlement,
+  insertDispute,
+  insertDisputeNote,
+  insertSettlement,
+  insertSettlementDeduction,
+  insertSettlementTrips,
+  listActiveRecurringDeductions,
+  listUnsettledTrips,
+  lockDriverSettlement,
+  setSettlementStatus,
+  SettledTripLine,
+  UnsettledTrip,
+  updateDisputeStatus
+} from '@/lib/repos/settlementsRepo';
+import { logger } from '@/lib/security/productionLogger';
+import { applyBondInstallment } from '@/lib/services/bondService';
+import {
+  CreateSettlementDisputeRequest,
+  JournalLine,
+  LEDGER_ACCOUNTS,
+  SettlementDeductionType,
+  SettlementDispute,
+  SettlementDisputeStatus,
+  SettlementRunResult,
+  UpdateSettlementDisputeRequest
+} from '@/types/settlement';
+
+export const DEFAULT_COMMISSION_RATE = 0.2;
+
+// Allowed reviewer moves; resolved and rejected are terminal
+const DISPUTE_TRANSITIONS: Record<SettlementDisputeStatus, SettlementDisputeStatus[]> = {
+  pending: ['under_review', 'rejected'],
+  under_review: ['resolved', 'rejected'],
+  resolved: [],
+  rejected: []
+};
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+export interface SettlementDeductionLine {
+  type: Exclude<SettlementDeductionType, 'commission'>;
+  amount: number;
+  reason: string;
+  creditAccountCode: string;
+  recurringDeductionId?: string;
+}
+
+export interface SettlementComputation {
+  trips: SettledTripLine[];
+  totalRevenue: number;
+  totalCommission: number;
+  commissionReason: string;
+  deductions: SettlementDeductionLine[];
+  totalDeductions: number;
+  netAmount: number;
+}
+
+/**
+ * Computes a driver's settlement from their trips and standing deductions. Trips priced
+ * by the fare engine keep its driver share; older trips pay the flat commission rate.
+ * Recurring deductions are taken in order and never push the payout below zero.
+ */
+export function computeSettlement(
+  trips: UnsettledTrip[],
+  recurring: { id: string; deduction_type: SettlementDeductionLine['type']; credit_account_code: string;
+    description: string; amount_per_settlement: string | number; remaining_amount: string | number }[],
+  commissionRate = DEFAULT_COMMISSION_RATE
+): SettlementComputation {
+  const settledTrips = trips.map(trip => {
+    const revenue = round2(Number(trip.total_fare));
+    const commission = trip.driver_earnings !== null && trip.driver_earnings !== undefined
+      ? round2(revenue - Number(trip.driver_earnings))
+      : round2(revenue * commissionRate);
+    return {
+      bookingId: trip.booking_id,
+      bookingReference: trip.booking_reference,
+      revenue,
+      commission,
+      netAmount: round2(revenue - commission),
+      completedAt: trip.completed_at
+    };
+  });
+
+  const totalRevenue = round2(settledTrips.reduce((sum, trip) => sum + trip.revenue, 0));
+  const totalCommission = round2(settledTrips.reduce((sum, trip) => sum + trip.commission, 0));
+  let available = round2(totalRevenue - totalCommission);
+  // Fare engine trips carry their own split, so the rate is what was actually taken, not the flat rate
+  const effectiveRate = totalRevenue > 0 ? totalCommission / totalRevenue : commissionRate;
+
+  const deductions: SettlementDeductionLine[] = [];
+  for (const item of recurring) {
+    const amount = round2(Math.min(Number(item.amount_per_settlement), Number(item.remaining_amount), available));
+    if (amount <= 0) {
+      continue;
+    }
+    deductions.push({
+      type: item.deduction_type,
+      amount,
+      reason: item.description,
+      creditAccountCode: item.credit_account_code,
+      recurringDeductionId: item.id
+    });
+    available = round2(available - amount);
+  }
+
+  const otherDeductions = round2(deductions.reduce((sum, d) => sum + d.amount, 0));
+
+  return {
+    trips: settledTrips,
+    totalRevenue,
+    totalCommission,
+    commissionReason: `Platform commission (${Math.round(effectiveRate * 1000) / 10}%)`,
+    deductions,
+    totalDeductions: round2(totalCommission + otherDeductions),
+    netAmount: available
+  };
+}
+
+/**
+ * Journal for a settlement: the fare collected is split between the driver payable
+ * and commission revenue, then each deduction moves money out of the driver payable.
+ */
+export function buildSettlementJournalLines(driverId: string, computation: SettlementComputation): JournalLine[] {
+  const lines: JournalLine[] = [
+    {
+      accountCode: LEDGER_ACCOUNTS.CASH,
+      driverId,
+      description: `Fares collected (${computation.trips.length} trips)`,
+      debit: computation.totalRevenue,
+      credit: 0
+    },
+    {
+      accountCode: LEDGER_ACCOUNTS.DRIVER_PAYABLES,
+      driverId,
+      description: 'Driver share of fares',
+      debit: 0,
+      credit: round2(computation.totalRevenue - computation.totalCommission)
+    },
+    {
+      accountCode: LEDGER_ACCOUNTS.COMMISSION_REVENUE,
+      driverId,
+      description: 'Platform commission',
+      debit: 0,
+      credit: computation.totalCommission
+    }
+  ];
+
+  for (const deduction of computation.deductions) {
+    const description = deduction.reason;
+    lines.push(
+      { accountCode: LEDGER_ACCOUNTS.DRIVER_PAYABLES, driverId, description, debit: deduction.amount, credit: 0 },
+      { accountCode: deduction.creditAccountCode, driverId, description, debit: 0, credit: deduction.amount }
+    );
+  }
+
+  return lines;
+}
+
+const settlementReference = (driverId: string, settlementDate: string) =>
+  `STL-${settlementDate.replace(/-/g, '')}-${driverId.replace(/-/g, '').slice(0, 8).toUpperCase()}`;
+
+/**
+ * Settles every completed, not-yet-settled trip up to the given Manila business day.
+ * Each driver is settled in its own transaction under a per-driver lock, re-reading the
+ * driver's unsettled trips once locked; re-running or overlapping a run is a no-op.
+ */
+export async function generateDailySettlements(
+  settlementDate: string,
+  options: { commissionRate?: number; postedBy?: string } = {}
+): Promise<SettlementRunResult> {
+  const commissionRate = options.commissionRate ?? DEFAULT_COMMISSION_RATE;
+  const driverIds = new Set((await listUnsettledTrips(settlementDate)).map(trip => trip.driver_id));
+
+  const result: SettlementRunResult = {
+    settlementDate,
+    settlementsCreated: 0,
+    tripsSettled: 0,
+    driversSkipped: 0,
+    totalNetAmount: 0
+  };
+
+  for (const driverId of driverIds) {
+    const settled = await transaction(async (query) => {
+      // Another run may have settled some or all of these trips since they were listed
+      await lockDriverSettlement(driverId, query);
+      const driverTrips = await listUnsettledTrips(settlementDate, driverId, query);
+      if (driverTrips.length === 0) {
+        return null;
+      }
+
+      const recurring = await listActiveRecurringDeductions(driverId, query);
+      const computation = computeSettlement(driverTrips, recurring, commissionRate);
+      const reference = settlementReference(driverId, settlementDate);
+
+      const settlementId = await insertSettlement({
+        reference,
+        driverId,
+        settlementDate,
+        totalRevenue: computation.totalRevenue,
+        totalDeductions: computation.totalDeductions,
+        netAmount: computation.netAmount,
+        tripCount: computation.trips.length
+      }, query);
+      if (!settlementId) {
+        return null;
+      }
+
+      await insertSettlementTrips(settlementId, computation.trips, query);
+      if (computation.totalCommission > 0) {
+        await insertSettlementDeduction(settlementId, driverId, {
+          type: 'commission',
+          amount: computation.totalCommission,
+          reason: computation.commissionReason
+        }, query);
+      }
+      for (const deduction of computation.deductions) {
+        await insertSettlementDeduction(settlementId, driverId, deduction, query);
+        await consumeRecurringDeduction(deduction.recurringDeductionId!, deduction.amount, query);
+        if (deduction.type === 'bond') {
+          await applyBondInstallment(deduction.recurringDeductionId!, deduction.amount, settlementId, query);
+        }
+      }
+
+      if (computation.totalRevenue > 0) {
+        const journalId = await postJournal({
+          reference,
+          description: `Daily settlement ${settlementDate}`,
+          sourceType: 'settlement',
+          sourceId: settlementId,
+          postedBy: options.postedBy,
+          lines: buildSettlementJournalLines(driverId, computation)
+        }, query);
+        await attachSettlementJournal(settlementId, journalId, query);
+      }
+
+      return computation;
+    });
+
+    if (!settled) {
+      result.driversSkipped++;
+      continue;
+    }
+    result.settlementsCreated++;
+    result.tripsSettled += settled.trips.length;
+    result.totalNetAmount = round2(result.totalNetAmount + settled.netAmount);
+  }
+
+  logger.info('Daily settlements generated', result, {
+    component: 'SettlementService',
+    action: 'generateDailySettlements'
+  });
+  return result;
+}
+
+export async function openDispute(
+  settlementId: string,
+  request: CreateSettlementDisputeRequest,
+  raisedBy: string
+): Promise<SettlementDispute> {
+  return await transaction(async (query) => {
+    const settlement = await getSettlement(settlementId, query);
+    if (!settlement) {
+      throw new Error('settlement_not_found');
+    }
+
+    const existing = await getOpenDispute(settlementId, query);
+    if (existing) {
+      throw new Error('dispute_already_open');
+    }
+
+    const dispute = await insertDispute({
+      settlementId,
+      driverId: settlement.driverId,
+      reason: request.reason,
+      details: request.details,
+      disputedAmount: request.disputedAmount ?? settlement.netAmount,
+      raisedBy
+    }, query);
+
+    await setSettlementStatus(settlementId, 'disputed', query);
+    const note = await insertDisputeNote(dispute.id, {
+      authorId: raisedBy,
+      toStatus: 'pending',
+      note: request.details || request.reason
+    }, query);
+
+    return { ...dispute, notes: [note] };
+  });
+}
+
+/**
+ * Moves the open dispute on a settlement to a new state with a reviewer note.
+ * Resolving with an adjustment posts a correcting journal crediting the driver.
+ */
+export async function transitionDispute(
+  settlementId: string,
+  request: UpdateSettlementDisputeRequest,
+  reviewerId: string
+): Promise<SettlementDispute> {
+  return await transaction(async (query) => {
+    const dispute = await getOpenDispute(settlementId, query);
+    if (!dispute) {
+      throw new Error('dispute_not_found');
+    }
+
+    if (!DISPUTE_TRANSITIONS[dispute.status].includes(request.status)) {
+      throw new Error('invalid_dispute_transition');
+    }
+
+    const adjustmentAmount = request.status === 'resolved' ? round2(request.adjustmentAmount ?? 0) : 0;
+    let adjustmentJournalId: string | null = null;
+
+    if (adjustmentAmount > 0) {
+      adjustmentJournalId = await postJournal({
+        reference: `ADJ-${dispute.id.replace(/-/g, '').slice(0, 12).toUpperCase()}`,
+        description: `Settlement dispute adjustment: ${dispute.reason}`,
+        sourceType: 'settlement_adjustment',
+        sourceId: dispute.id,
+        postedBy: reviewerId,
+        lines: [
+          { accountCode: LEDGER_ACCOUNTS.OPERATING_EXPENSES, driverId: dispute.driverId, description: request.note,
+            debit: adjustmentAmount, credit: 0 },
+          { accountCode: LEDGER_ACCOUNTS.DRIVER_PAYABLES, driverId: dispute.driverId, description: request.note,
+            debit: 0, credit: adjustmentAmount }
+        ]
+      }, query);
+    }
+
+    const updated = await updateDisputeStatus(dispute.id, {
+      status: request.status,
+      reviewerId,
+      resolution: request.note,
+      adjustmentAmount: request.status === 'resolved' ? adjustmentAmount : null,
+      adjustmentJournalId
+    }, query);
+
+    await insertDisputeNote(dispute.id, {
+      authorId: reviewerId,
+      fromStatus: dispute.status,
+      toStatus: request.status,
+      note: request.note
+    }, query);
+
+    if (request.status === 'resolved' || request.status === 'rejected') {
+      await setSettlementStatus(settlementId, 'completed', query);
+    }
+
+    return updated;
+  });
+}
@@ -0,0 +1,316 @@
+import { randomUUID } from 'crypto';
+
+import { EmergencyResponse, emergencyResponseAutomation } from '@/lib/emergencyResponseAutomation';
+import {
+  appendSOSAttachments,
+  getSOSAlert,
+  insertSOSEvent,
+  listEmergencyResponseLogs,
+  listSOSEvents
+} from '@/lib/repos/sosRepo';
+import { logger } from '@/lib/security/productionLogger';
+import { SOSAlert, sosAlertProcessor } from '@/lib/sosAlertProcessor';
+import {
+  EmergencyResponseLogRecord,
+  NewSOSAttachment,
+  SOS_ACTIVE_STATUSES,
+  SOSAlertEvent,
+  SOSAlertRecord,
+  SOSAttachment,
+  SOSStatus,
+  SOSTimeline,
+  SOSTimelineEntry,
+  TriggerSOSRequest
+} from '@/types/sos';
+
+// HTTP status for each error code thrown by this service and the SOS processor
+const SOS_ERROR_STATUS: Record<string, number> = {
+  sos_not_found: 404,
+  driver_not_found: 404,
+  invalid_sos_request: 400,
+  sos_already_acknowledged: 409,
+  sos_closed: 409,
+  sos_status_changed: 409
+};
+
+export function sosErrorStatus(error: unknown): number | null {
+  const code = error instanceof Error ? error.message.split(':')[0] : '';
+  return SOS_ERROR_STATUS[code] ?? null;
+}
+
+export type SOSAction = 'acknowledge' | 'escalate' | 'resolve';
+
+// What an operator may still do with an alert in each status
+export function allowedSOSActions(status: SOSStatus): SOSAction[] {
+  if (!SOS_ACTIVE_STATUSES.includes(status)) {
+    return [];
+  }
+  return status === 'acknowledged' || status === 'responding'
+    ? ['escalate', 'resolve']
+    : ['acknowledge', 'escalate', 'resolve'];
+}
+
+function assertAllowed(alert: SOSAlertRecord, action: SOSAction): void {
+  if (allowedSOSActions(alert.status).includes(action)) {
+    return;
+  }
+  throw new Error(SOS_ACTIVE_STATUSES.includes(alert.status)
+    ? 'sos_already_acknowledged'
+    : `sos_closed: ${alert.sosCode} is ${alert.status}`);
+}
+
+// Photos and recordings arrive unverified until an operator has looked at them
+export function toSOSAttachments(attachments: NewSOSAttachment[] = [], now = new Date()): SOSAttachment[] {
+  return attachments.map(attachment => ({
+    id: randomUUID(),
+    type: attachment.type,
+    url: attachment.url,
+    filename: attachment.filename,
+    uploadedAt: now.toISOString(),
+    isVerified: false,
+    priority: attachment.priority ?? 5
+  }));
+}
+
+// The emergency response automation still works on the processor's in-flight shape
+const toSOSAlert = (alert: SOSAlertRecord): SOSAlert => ({
+  id: alert.id,
+  sosCode: alert.sosCode,
+  triggeredAt: new Date(alert.triggeredAt),
+  location: {
+    latitude: alert.location.latitude,
+    longitude: alert.location.longitude,
+    accuracy: alert.location.accuracy ?? undefined,
+    address: alert.location.address ?? undefined
+  },
+  reporterId: alert.reporter.id,
+  reporterType: alert.reporter.type,
+  reporterName: alert.reporter.name ?? undefined,
+  reporterPhone: alert.reporter.phone ?? undefined,
+  driverId: alert.driverId ?? undefined,
+  bookingId: alert.bookingId ?? undefined,
+  vehicleInfo: alert.vehicleInfo ?? undefined,
+  emergencyType: alert.emergencyType,
+  severity: alert.severity,
+  description: alert.description ?? undefined,
+  attachments: alert.attachments,
+  status: alert.status,
+  processingTime: alert.processingTimeMs ?? 0,
+  responseTime: alert.responseTimeMs ?? undefined,
+  emergencyServicesNotified: alert.emergencyServicesNotified,
+  emergencyReferenceNumbers: alert.emergencyReferenceNumbers
+});
+
+const toResponseLog = (response: EmergencyResponse): EmergencyResponseLogRecord => ({
+  responseId: response.id,
+  responseCode: response.responseCode,
+  status: response.status,
+  entries: response.responseLog.map(entry => ({
+    ...entry,
+    timestamp: new Date(entry.timestamp).toISOString()
+  }))
+});
+
+// ============================================================================
+// TRIGGER
+// ============================================================================
+
+// SOS raised by a rider, or on their behalf by an operator
+export async function triggerSOS(request: TriggerSOSRequest): Promise<SOSAlert> {
+  return sosAlertProcessor.processSOS({
+    ...request,
+    attachments: toSOSAttachments(request.attachments)
+  });
+}
+
+// SOS raised with the panic button in the driver app; the driver's own details fill in the reporter
+export async function triggerDriverSOS(
+  driverId: string,
+  request: Pick<TriggerSOSRequest, 'location' | 'bookingId' | 'emergencyType' | 'description' | 'attachments'>
+): Promise<SOSAlert> {
+  return sosAlertProcessor.triggerPanicButton({
+    driverId,
+    location: request.location,
+    bookingId: request.bookingId,
+    emergencyType: request.emergencyType,
+    description: request.description,
+    attachments: toSOSAttachments(request.attachments)
+  });
+}
+
+// ============================================================================
+// OPERATOR ACTIONS
+// ============================================================================
+
+export async function getSOSDetail(idOrCode: string): Promise<SOSAlertRecord> {
+  const alert = await getSOSAlert(idOrCode);
+  if (!alert) {
+    throw new Error('sos_not_found');
+  }
+  return alert;
+}
+
+export async function acknowledgeSOS(idOrCode: string, userId: string, message?: string): Promise<SOSAlertRecord> {
+  const alert = await getSOSDetail(idOrCode);
+  assertAllowed(alert, 'acknowledge');
+
+  await sosAlertProcessor.acknowledgeSOS(alert.id, userId, message);
+
+  const response = emergencyResponseAutomation.getResponseForSOS(alert.id);
+  if (response) {
+    await emergencyResponseAutomation.updateEmergencyResponse(response.id, {
+      message: message ? `SOS acknowledged: ${message}` : 'SOS acknowledged by operator',
+      source: userId
+    });
+  }
+
+  return getSOSDetail(alert.id);
+}
+
+/**
+ * Escalates the alert and hands it to coordinated emergency response: the first
+ * escalation opens a response, later ones raise its level. The alert stays escalated
+ * even when the response cannot be opened; the console shows that as a null response.
+ */
+export async function escalateSOS(
+  idOrCode: string,
+  userId: string,
+  reason: string
+): Promise<{ alert: SOSAlertRecord; response: EmergencyResponse | null }> {
+  const alert = await getSOSDetail(idOrCode);
+  assertAllowed(alert, 'escalate');
+
+  await sosAlertProcessor.escalateSOS(alert.id, userId, reason);
+
+  let response = emergencyResponseAutomation.getResponseForSOS(alert.id);
+  try {
+    if (response) {
+      await emergencyResponseAutomation.escalateResponse(response, reason, userId);
+    } else {
+      response = await emergencyResponseAutomation.initiateEmergencyResponse(toSOSAlert(alert));
+      // A response whose automated dispatch failed comes back escalated already
+      if (response.status !== 'escalated') {
+        await emergencyResponseAutomation.escalateResponse(response, reason, userId);
+      }
+    }
+  } catch (error) {
+    logger.error(`Failed to escalate emergency response for SOS ${alert.sosCode}`, error);
+    response = null;
+  }
+
+  return { alert: await getSOSDetail(alert.id), response };
+}
+
+export async function resolveSOS(
+  idOrCode: string,
+  userId: string,
+  resolution: { notes: string; falseAlarm?: boolean }
+): Promise<SOSAlertRecord> {
+  const alert = await getSOSDetail(idOrCode);
+  assertAllowed(alert, 'resolve');
+
+  await sosAlertProcessor.resolveSOS(alert.id, userId, resolution.notes, resolution.falseAlarm ?? false);
+
+  const response = emergencyResponseAutomation.getResponseForSOS(alert.id);
+  if (response) {
+    await emergencyResponseAutomation.completeResponse(response.id, {
+      status: resolution.falseAlarm ? 'cancelled' : 'resolved',
+      completedBy: userId,
+      outcome: resolution.notes
+    });
+  }
+
+  return getSOSDetail(alert.id);
+}
+
+// Photos and recordings taken after the button was pressed; still accepted once the alert is closed
+export async function addSOSAttachments(
+  idOrCode: string,
+  attachments: NewSOSAttachment[],
+  userId: string
+): Promise<SOSAlertRecord> {
+  const alert = await getSOSDetail(idOrCode);
+  const added = toSOSAttachments(attachments);
+
+  await appendSOSAttachments(alert.id, added);
+  await insertSOSEvent({
+    sosAlertId: alert.id,
+    eventType: 'attachment_added',
+    actor: userId,
+    data: { attachments: added.map(attachment => ({ id: attachment.id, type: attachment.type })) }
+  });
+
+  return getSOSDetail(alert.id);
+}
+
+// ============================================================================
+// TIMELINE
+// ============================================================================
+
+/**
+ * Merges the alert's own events with the logs of every emergency response opened for
+ * it, oldest first. Alerts raised before the event log existed still get their trigger.
+ */
+export function buildSOSTimeline(
+  alert: SOSAlertRecord,
+  events: SOSAlertEvent[],
+  responses: EmergencyResponseLogRecord[]
+): SOSTimeline {
+  const entries: SOSTimelineEntry[] = events.map(event => ({
+    id: event.id,
+    at: new Date(event.createdAt).toISOString(),
+    source: 'sos',
+    eventType: event.eventType,
+    actor: event.actor,
+    message: event.message,
+    responseId: null,
+    data: event.data
+  }));
+
+  if (!events.some(event => event.eventType === 'triggered')) {
+    entries.push({
+      id: `${alert.id}:triggered`,
+      at: new Date(alert.triggeredAt).toISOString(),
+      source: 'sos',
+      eventType: 'triggered',
+      actor: alert.reporter.id,
+      message: alert.description,
+      responseId: null
+    });
+  }
+
+  for (const response of responses) {
+    for (const entry of response.entries) {
+      entries.push({
+        id: entry.id,
+        at: new Date(entry.timestamp).toISOString(),
+        source: 'emergency_response',
+        eventType: entry.eventType,
+        actor: entry.source,
+        message: entry.message,
+        responseId: response.responseId,
+        data: entry.data
+      });
+    }
+  }
+
+  entries.sort((a, b) => Date.parse(a.at) - Date.parse(b.at));
+
+  return { sosAlertId: alert.id, sosCode: alert.sosCode, status: alert.status, entries };
+}
+
+export async function getSOSTimeline(idOrCode: string): Promise<SOSTimeline> {
+  const alert = await getSOSDetail(idOrCode);
+  const [events, stored] = await Promise.all([
+    listSOSEvents(alert.id),
+    listEmergencyResponseLogs(alert.id)
+  ]);
+
+  // A response still running in this process has log entries not yet written back
+  const live = emergencyResponseAutomation.getResponseForSOS(alert.id);
+  const responses = live
+    ? [...stored.filter(response => response.responseId !== live.id), toResponseLog(live)]
+    : stored;
+
+  return buildSOSTimeline(alert, events, responses);
+}
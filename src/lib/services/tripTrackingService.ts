@@ -0,0 +1,252 @@
+import { distanceKm } from '@/lib/matching/pooling';
+import {
+  getTripBooking,
+  insertSegments,
+  listLastSegments,
+  listSegments,
+  listTripBookingsForDrivers,
+  purgeExpiredSegments,
+  TripBooking
+} from '@/lib/repos/tripTrackingRepo';
+import { decodePolyline, encodePolyline } from '@/lib/tracking/polyline';
+import {
+  BreadcrumbPoint,
+  NewTripLocationSegment,
+  TripLocationSegment,
+  TripPhase,
+  TripReplay,
+  TripReplayGap,
+  TripReplayPoint
+} from '@/types/tripTracking';
+
+const TRIP_TRACKING_ERROR_STATUS: Record<string, number> = {
+  ride_not_found: 404,
+  invalid_replay_request: 400
+};
+
+export function tripTrackingErrorStatus(error: unknown): number | null {
+  const code = error instanceof Error ? error.message.split(':')[0] : '';
+  return TRIP_TRACKING_ERROR_STATUS[code] ?? null;
+}
+
+export const TRIP_BREADCRUMB_RETENTION_DAYS = parseInt(process.env.TRIP_BREADCRUMB_RETENTION_DAYS || '180', 10);
+
+// Points buffered this long after a trip ended still count towards it
+const ENDED_TRIP_GRACE_MS = 5 * 60_000;
+
+// No point for longer than this shows up as a gap in the replay
+const REPLAY_GAP_SECONDS = 30;
+
+const PURGE_BATCH_SIZE = 5000;
+
+// ============================================================================
+// RECORDING
+// ============================================================================
+
+function phaseAt(booking: TripBooking, timestamp: number): TripPhase {
+  return booking.pickedUpAt && timestamp >= new Date(booking.pickedUpAt).getTime() ? 'on_trip' : 'to_pickup';
+}
+
+function withinBooking(booking: TripBooking, timestamp: number): boolean {
+  return timestamp >= new Date(booking.windowStart).getTime()
+    && (!booking.endedAt || timestamp <= new Date(booking.endedAt).getTime());
+}
+
+function lastPointOf(segment: TripLocationSegment): BreadcrumbPoint {
+  const points = decodePolyline(segment.polyline);
+  return {
+    ...points[points.length - 1],
+    timestamp: new Date(segment.startedAt).getTime() + segment.timeOffsetsMs[segment.timeOffsetsMs.length - 1]
+  };
+}
+
+/**
+ * Cuts one booking's points into per-minute segments, starting a new one whenever the
+ * phase changes. Distance runs on from `previous` (the booking's last stored point)
+ * but never across the pickup, so the trip distance starts at the pickup point. Steps
+ * use the map-matched road distance where the point has one, else the straight line.
+ */
+export function buildSegments(
+  booking: TripBooking,
+  points: BreadcrumbPoint[],
+  previous: { point: BreadcrumbPoint; phase: TripPhase } | null,
+  now: Date = new Date()
+): NewTripLocationSegment[] {
+  const expiresAt = new Date(now.getTime() + TRIP_BREADCRUMB_RETENTION_DAYS * 86_400_000).toISOString();
+  const sorted = points
+    .filter(point => withinBooking(booking, point.timestamp))
+    .sort((a, b) => a.timestamp - b.timestamp)
+    .filter((point, index, all) => index === 0 || point.timestamp !== all[index - 1].timestamp);
+
+  const segments: NewTripLocationSegment[] = [];
+  let current: BreadcrumbPoint[] = [];
+  let currentPhase: TripPhase | null = null;
+  let distanceM = 0;
+  let last = previous;
+
+  const close = () => {
+    if (current.length === 0 || !currentPhase) {
+      return;
+    }
+    const startedAt = current[0].timestamp;
+    segments.push({
+      bookingId: booking.bookingId,
+      driverId: booking.driverId,
+      phase: currentPhase,
+      minuteStart: new Date(Math.floor(startedAt / 60_000) * 60_000).toISOString(),
+      startedAt: new Date(startedAt).toISOString(),
+      endedAt: new Date(current[current.length - 1].timestamp).toISOString(),
+      pointCount: current.length,
+      polyline: encodePolyline(current),
+      timeOffsetsMs: current.map(point => point.timestamp - startedAt),
+      speedsKmh: current.map(point => point.speedKmh ?? null),
+      distanceM: Math.round(distanceM * 10) / 10,
+      expiresAt
+    });
+    current = [];
+    distanceM = 0;
+  };
+
+  for (const point of sorted) {
+    const phase = phaseAt(booking, point.timestamp);
+    const minute = Math.floor(point.timestamp / 60_000);
+    if (current.length > 0 && (phase !== currentPhase || minute !== Math.floor(current[0].timestamp / 60_000))) {
+      close();
+    }
+    if (last && last.phase === phase && last.point.timestamp < point.timestamp) {
+      distanceM += point.distanceFromPreviousM ?? distanceKm(last.point, point) * 1000;
+    }
+    currentPhase = phase;
+    current.push(point);
+    last = { point, phase };
+  }
+  close();
+
+  return segments;
+}
+
+/**
+ * Stores buffered points against the bookings their drivers were on at the time.
+ * Points from drivers not on a booking are dropped. Returns the segments written.
+ */
+export async function recordBreadcrumbs(
+  pointsByDriver: Map<string, BreadcrumbPoint[]>,
+  now: Date = new Date()
+): Promise<number> {
+  const driverIds = Array.from(pointsByDriver.keys());
+  if (driverIds.length === 0) {
+    return 0;
+  }
+
+  const bookings = await listTripBookingsForDrivers(
+    driverIds,
+    new Date(now.getTime() - ENDED_TRIP_GRACE_MS).toISOString()
+  );
+  const lastSegments = new Map(
+    (await listLastSegments(bookings.map(booking => booking.bookingId)))
+      .map(segment => [segment.bookingId, segment])
+  );
+
+  const segments = bookings.flatMap(booking => {
+    const lastSegment = lastSegments.get(booking.bookingId);
+    const previous = lastSegment ? { point: lastPointOf(lastSegment), phase: lastSegment.phase } : null;
+    return buildSegments(booking, pointsByDriver.get(booking.driverId) ?? [], previous, now);
+  });
+
+  return insertSegments(segments);
+}
+
+// ============================================================================
+// REPLAY
+// ============================================================================
+
+export async function getTripReplay(
+  bookingId: string,
+  filters: { phase?: TripPhase; from?: string; to?: string } = {}
+): Promise<TripReplay> {
+  if (filters.from && filters.to && new Date(filters.from) > new Date(filters.to)) {
+    throw new Error('invalid_replay_request: from is after to');
+  }
+  const booking = await getTripBooking(bookingId);
+  if (!booking) {
+    throw new Error('ride_not_found');
+  }
+
+  const segments = await listSegments(bookingId, filters);
+  const from = filters.from ? new Date(filters.from).getTime() : -Infinity;
+  const to = filters.to ? new Date(filters.to).getTime() : Infinity;
+
+  const points: TripReplayPoint[] = segments.flatMap(segment => {
+    const startedAt = new Date(segment.startedAt).getTime();
+    return decodePolyline(segment.polyline).map((point, index) => ({
+      ...point,
+      timestamp: startedAt + segment.timeOffsetsMs[index],
+      speedKmh: segment.speedsKmh[index] ?? null,
+      phase: segment.phase
+    }));
+  })
+    .filter(point => point.timestamp >= from && point.timestamp <= to)
+    .map(point => ({ ...point, timestamp: new Date(point.timestamp).toISOString() }));
+
+  const gaps: TripReplayGap[] = [];
+  points.slice(1).forEach((point, index) => {
+    const seconds = (new Date(point.timestamp).getTime() - new Date(points[index].timestamp).getTime()) / 1000;
+    if (seconds > REPLAY_GAP_SECONDS) {
+      gaps.push({ from: points[index].timestamp, to: point.timestamp, seconds });
+    }
+  });
+
+  const phaseDistanceKm = (phase: TripPhase) => segments
+    .filter(segment => segment.phase === phase)
+    .reduce((sum, segment) => sum + segment.distanceM, 0) / 1000;
+
+  const onTrip = points.filter(point => point.phase === 'on_trip');
+  const onTripHours = onTrip.length > 1
+    ? (new Date(onTrip[onTrip.length - 1].timestamp).getTime() - new Date(onTrip[0].timestamp).getTime()) / 3_600_000
+    : 0;
+  const tripDistanceKm = phaseDistanceKm('on_trip');
+  const speeds = points.map(point => point.speedKmh).filter((speed): speed is number => speed !== null);
+  const startedAt = points[0]?.timestamp ?? null;
+  const endedAt = points[points.length - 1]?.timestamp ?? null;
+
+  return {
+    bookingId,
+    driverId: booking.driverId,
+    points,
+    polyline: encodePolyline(points),
+    summary: {
+      pointCount: points.length,
+      startedAt,
+      endedAt,
+      durationSeconds: startedAt && endedAt
+        ? (new Date(endedAt).getTime() - new Date(startedAt).getTime()) / 1000
+        : 0,
+      toPickupDistanceKm: Math.round(phaseDistanceKm('to_pickup') * 1000) / 1000,
+      tripDistanceKm: Math.round(tripDistanceKm * 1000) / 1000,
+      averageSpeedKmh: onTripHours > 0 ? Math.round(tripDistanceKm / onTripHours * 10) / 10 : null,
+      maxSpeedKmh: speeds.length > 0 ? Math.max(...speeds) : null
+    },
+    gaps
+  };
+}
+
+// Driven distance from pickup to dropoff as recorded, for distance-based fare recalculation
+export async function getRecordedTripDistanceKm(bookingId: string): Promise<number> {
+  const segments = await listSegments(bookingId, { phase: 'on_trip' });
+  return segments.reduce((sum, segment) => sum + segment.distanceM, 0) / 1000;
+}
+
+// ============================================================================
+// RETENTION
+// ============================================================================
+
+// Deletes expired breadcrumbs in batches; returns how many segments went
+export async function purgeExpiredBreadcrumbs(now: Date = new Date()): Promise<number> {
+  let purged = 0;
+  let deleted: number;
+  do {
+    deleted = await purgeExpiredSegments(now.toISOString(), PURGE_BATCH_SIZE);
+    purged += deleted;
+  } while (deleted === PURGE_BATCH_SIZE);
+  return purged;
+}
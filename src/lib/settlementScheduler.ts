@@ -0,0 +1,70 @@
+// Driver Settlement Scheduler
+// Settles each driver's completed trips for the previous Manila business day on a cron schedule
+
+import cron, { ScheduledTask } from 'node-cron';
+
+import { logger } from '@/lib/security/productionLogger';
+import { generateDailySettlements } from '@/lib/services/settlementService';
+
+const SCHEDULER_USER = 'system:settlements';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// The business day before now, as YYYY-MM-DD in Manila time
+const previousManilaDay = (now: Date = new Date()) =>
+  new Date(now.getTime() - DAY_MS).toLocaleDateString('en-CA', { timeZone: 'Asia/Manila' });
+
+class SettlementSchedulerService {
+  private task: ScheduledTask | null = null;
+  private readonly schedule = process.env.SETTLEMENTS_SCHEDULE || '30 0 * * *';
+  private readonly timezone = process.env.SETTLEMENTS_TIMEZONE || 'Asia/Manila';
+
+  // Start the daily settlement run
+  start(): void {
+    if (this.task) {
+      logger.info('Settlement scheduler is already running');
+      return;
+    }
+    if (process.env.SETTLEMENTS_ENABLED === 'false') {
+      logger.info('Settlement scheduler disabled by SETTLEMENTS_ENABLED');
+      return;
+    }
+    if (!cron.validate(this.schedule)) {
+      logger.error(`Invalid SETTLEMENTS_SCHEDULE "${this.schedule}"; settlement scheduler not started`);
+      return;
+    }
+
+    logger.info(`Scheduling driver settlement runs at "${this.schedule}" (${this.timezone})`);
+    this.task = cron.schedule(this.schedule, () => this.run(), {
+      name: 'settlements',
+      timezone: this.timezone,
+      noOverlap: true
+    });
+  }
+
+  // Stop the scheduler
+  stop(): void {
+    if (!this.task) {
+      return;
+    }
+
+    logger.info('Stopping settlement scheduler');
+    this.task.stop();
+    this.task = null;
+  }
+
+  // Re-running a day only settles trips an earlier run missed, so a late or repeated run is safe
+  private async run(): Promise<void> {
+    const settlementDate = previousManilaDay();
+    try {
+      await generateDailySettlements(settlementDate, { postedBy: SCHEDULER_USER });
+    } catch (error) {
+      logger.error('Scheduled settlement run failed', {
+        settlementDate,
+        error: error instanceof Error ? error.message : String(error)
+      }, { component: 'SettlementScheduler', action: 'run' });
+    }
+  }
+}
+
+export const settlementScheduler = new SettlementSchedulerService();
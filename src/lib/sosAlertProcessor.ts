@@ -2,6 +2,8 @@
 // Life-critical emergency response system for Xpress Ops Tower
 // Ensures <5 second detection and immediate emergency service dispatch
 
+import { randomUUID } from 'crypto';
+
 import { emergencyAlertService, EmergencyAlert } from './emergencyAlerts';
 import { philippinesEmergencyServices, createPhilippinesEmergencyConfig, EmergencyServiceRequest } from './integrations/emergencyServices';
 import { redis } from './redis';
@@ -9,6 +11,25 @@ import { db } from './database';
 import { getWebSocketManager } from './websocket';
 import Joi from 'joi';
 import { logger } from './security/productionLogger';
+import {
+  getSOSAlert,
+  insertSOSEvent,
+  listSOSAlerts,
+  markSOSAcknowledged,
+  markSOSEscalated,
+  markSOSResolved
+} from '@/lib/repos/sosRepo';
+import {
+  SOS_ATTACHMENT_TYPES,
+  SOS_EMERGENCY_TYPES,
+  SOSAlertRecord,
+  SOSAttachment,
+  SOSEmergencyType,
+  SOSEventType,
+  SOSStatus
+} from '@/types/sos';
+
+export type { SOSAttachment, SOSEmergencyType, SOSStatus } from '@/types/sos';
 
 export interface SOSAlert {
   id: string;
@@ -55,16 +76,6 @@ export interface SOSAlert {
   metadata?: Record<string, unknown>;
 }
 
-export interface SOSAttachment {
-  id: string;
-  type: 'emergency_photo' | 'emergency_video' | 'emergency_audio' | 'medical_info';
-  url: string;
-  filename: string;
-  uploadedAt: Date;
-  isVerified: boolean;
-  priority: number; // 1-10, higher means more critical
-}
-
 export interface SOSProcessingMetrics {
   totalSOSAlerts: number;
   averageProcessingTime: number; // milliseconds
@@ -76,25 +87,6 @@ export interface SOSProcessingMetrics {
   lastResetTime: Date;
 }
 
-export type SOSEmergencyType = 
-  | 'medical_emergency'     // Heart attack, injury, unconscious
-  | 'security_threat'       // Attack, robbery, harassment
-  | 'accident_critical'     // Severe accident with injuries
-  | 'fire_emergency'        // Vehicle fire, building fire
-  | 'natural_disaster'      // Earthquake, flood, landslide
-  | 'kidnapping'           // Kidnapping attempt or threat
-  | 'domestic_violence'    // Domestic violence situation
-  | 'general_emergency';   // General distress call
-
-export type SOSStatus = 
-  | 'triggered'            // SOS button pressed
-  | 'processing'           // System processing alert
-  | 'dispatched'           // Emergency services notified
-  | 'acknowledged'         // Emergency services responded
-  | 'responding'           // Emergency services en route
-  | 'resolved'             // Emergency resolved
-  | 'false_alarm';         // Confirmed false alarm
-
 class SOSAlertProcessor {
   private static instance: SOSAlertProcessor;
   private emergencyServices;
@@ -169,7 +161,7 @@ class SOSAlertProcessor {
     
     // Create SOS alert
     const sosAlert: SOSAlert = {
-      id: `sos_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      id: randomUUID(),
       sosCode: this.generateSOSCode(),
       triggeredAt: new Date(),
       location: sosData.location,
@@ -194,6 +186,14 @@ class SOSAlertProcessor {
       }
     };
 
+    // Persist before queueing so operators see the alert while it is still being dispatched
+    await this.saveSOSToDatabase(sosAlert);
+    await this.recordSOSEvent(sosAlert, 'triggered', sosData.reporterId, sosAlert.description, {
+      reporterType: sosAlert.reporterType,
+      emergencyType: sosAlert.emergencyType,
+      attachments: sosAlert.attachments?.length ?? 0
+    });
+
     // Add to high-priority processing queue
     this.addToProcessingQueue(sosAlert);
     
@@ -210,6 +210,7 @@ class SOSAlertProcessor {
     bookingId?: string;
     emergencyType?: SOSEmergencyType;
     description?: string;
+    attachments?: SOSAttachment[];
   }): Promise<SOSAlert> {
     // Get driver information
     const driverResult = await db.query(`
@@ -220,7 +221,7 @@ class SOSAlertProcessor {
     `, [data.driverId]);
     
     if (driverResult.rows.length === 0) {
-      throw new Error(`Driver ${data.driverId} not found or inactive`);
+      throw new Error(`driver_not_found: ${data.driverId} not found or inactive`);
     }
     
     const driver = driverResult.rows[0];
@@ -242,6 +243,7 @@ class SOSAlertProcessor {
       bookingId: data.bookingId,
       emergencyType: data.emergencyType || 'general_emergency',
       description: data.description,
+      attachments: data.attachments,
       vehicleInfo
     });
   }
@@ -291,6 +293,11 @@ class SOSAlertProcessor {
         
         // Save to database
         await this.saveSOSToDatabase(sosAlert);
+        await this.recordSOSEvent(sosAlert, 'dispatched', 'system', null, {
+          processingTime,
+          emergencyServicesNotified: sosAlert.emergencyServicesNotified,
+          emergencyReferenceNumbers: sosAlert.emergencyReferenceNumbers
+        });
         
         // Final broadcast with processing results
         await this.broadcastSOSUpdate(sosAlert, 'dispatched', {
@@ -397,7 +404,7 @@ class SOSAlertProcessor {
         url: att.url,
         filename: att.filename,
         size: 0, // We don't have size info
-        uploadedAt: att.uploadedAt,
+        uploadedAt: new Date(att.uploadedAt),
         isVerified: att.isVerified
       })),
       metadata: {
@@ -448,7 +455,7 @@ class SOSAlertProcessor {
     await redis.publish('emergency:critical_sos', criticalAlert);
     
     // Store in Redis for quick retrieval
-    await redis.setex(`sos:critical:${sosAlert.id}`, 3600, JSON.stringify(criticalAlert));
+    await redis.setCache(`sos:critical:${sosAlert.id}`, criticalAlert, 3600);
   }
 
   /**
@@ -479,28 +486,23 @@ class SOSAlertProcessor {
   }
 
   /**
-   * Acknowledge SOS alert
+   * Acknowledge SOS alert - an operator takes charge of it
    */
   async acknowledgeSOS(sosId: string, acknowledgedBy: string, message?: string): Promise<void> {
-    const sosAlert = await this.getSOSFromCache(sosId);
-    if (!sosAlert) {
-      throw new Error(`SOS alert ${sosId} not found`);
-    }
+    const sosAlert = await this.getSOSOrThrow(sosId);
 
-    const now = new Date();
-    const responseTime = now.getTime() - sosAlert.triggeredAt.getTime();
-    
-    sosAlert.status = 'acknowledged';
-    sosAlert.responseTime = responseTime;
+    const responseTime = Date.now() - new Date(sosAlert.triggeredAt).getTime();
+    if (!await markSOSAcknowledged(sosAlert.id, acknowledgedBy, responseTime)) {
+      throw new Error('sos_status_changed');
+    }
     
     // Update metrics
     this.updateResponseTimeMetrics(responseTime);
     
-    // Save to database
-    await this.updateSOSInDatabase(sosAlert);
+    await this.recordSOSEvent(sosAlert, 'acknowledged', acknowledgedBy, message, { responseTime });
     
     // Broadcast acknowledgment
-    await this.broadcastSOSUpdate(sosAlert, 'acknowledged', {
+    await this.broadcastSOSUpdate({ ...sosAlert, status: 'acknowledged' }, 'acknowledged', {
       acknowledgedBy,
       message,
       responseTime
@@ -510,34 +512,57 @@ class SOSAlertProcessor {
   }
 
   /**
-   * Resolve SOS alert
+   * Escalate SOS alert to the next level of emergency coordination
    */
-  async resolveSOS(sosId: string, resolvedBy: string, resolution: string): Promise<void> {
-    const sosAlert = await this.getSOSFromCache(sosId);
-    if (!sosAlert) {
-      throw new Error(`SOS alert ${sosId} not found`);
+  async escalateSOS(sosId: string, escalatedBy: string, reason: string): Promise<number> {
+    const sosAlert = await this.getSOSOrThrow(sosId);
+
+    const escalationLevel = await markSOSEscalated(sosAlert.id);
+    if (escalationLevel === null) {
+      throw new Error('sos_status_changed');
     }
 
-    sosAlert.status = 'resolved';
-    
-    // Update database
-    await this.updateSOSInDatabase(sosAlert);
+    await this.recordSOSEvent(sosAlert, 'escalated', escalatedBy, reason, { escalationLevel });
+
+    await this.broadcastSOSUpdate(sosAlert, 'escalated', {
+      escalatedBy,
+      reason,
+      escalationLevel
+    });
+
+    logger.info(`⚠️ SOS ${sosAlert.sosCode} escalated to level ${escalationLevel} by ${escalatedBy}`);
+
+    return escalationLevel;
+  }
+
+  /**
+   * Resolve SOS alert, or close it as a false alarm
+   */
+  async resolveSOS(sosId: string, resolvedBy: string, resolution: string, falseAlarm = false): Promise<void> {
+    const sosAlert = await this.getSOSOrThrow(sosId);
+
+    const status = falseAlarm ? 'false_alarm' : 'resolved';
+    if (!await markSOSResolved(sosAlert.id, status, resolvedBy, resolution)) {
+      throw new Error('sos_status_changed');
+    }
     
-    // Reset driver status if applicable
+    // Reset driver status if the SOS put them in emergency
     if (sosAlert.driverId) {
       await db.query(
-        'UPDATE drivers SET status = $1, updated_at = NOW() WHERE id = $2',
-        ['active', sosAlert.driverId]
+        'UPDATE drivers SET status = $1, updated_at = NOW() WHERE id = $2 AND status = $3',
+        ['active', sosAlert.driverId, 'emergency']
       );
     }
+
+    await this.recordSOSEvent(sosAlert, status, resolvedBy, resolution);
     
     // Broadcast resolution
-    await this.broadcastSOSUpdate(sosAlert, 'resolved', {
+    await this.broadcastSOSUpdate({ ...sosAlert, status }, 'resolved', {
       resolvedBy,
       resolution
     });
     
-    logger.info(`✅ SOS ${sosAlert.sosCode} resolved by ${resolvedBy}`);
+    logger.info(`✅ SOS ${sosAlert.sosCode} ${status} by ${resolvedBy}`);
   }
 
   /**
@@ -548,24 +573,11 @@ class SOSAlertProcessor {
   }
 
   /**
-   * Get active SOS alerts
+   * Get active SOS alerts, most severe first
    */
-  async getActiveSOSAlerts(): Promise<SOSAlert[]> {
-    const keys = await redis.keys('sos:active:*');
-    const alerts: SOSAlert[] = [];
-    
-    for (const key of keys) {
-      try {
-        const data = await redis.get(key);
-        if (data) {
-          alerts.push(JSON.parse(data));
-        }
-      } catch (error) {
-        logger.warn(`Failed to parse SOS alert ${key}:`, error);
-      }
-    }
-    
-    return alerts.sort((a, b) => b.triggeredAt.getTime() - a.triggeredAt.getTime());
+  async getActiveSOSAlerts(limit = 100): Promise<SOSAlertRecord[]> {
+    const { alerts } = await listSOSAlerts({ status: 'active', page: 1, limit });
+    return alerts;
   }
 
   // Private helper methods
@@ -697,57 +709,72 @@ class SOSAlertProcessor {
       }).required(),
       driverId: Joi.string().optional(),
       bookingId: Joi.string().optional(),
-      emergencyType: Joi.string().valid(...Object.keys({
-        'medical_emergency': 1,
-        'security_threat': 1,
-        'accident_critical': 1,
-        'fire_emergency': 1,
-        'natural_disaster': 1,
-        'kidnapping': 1,
-        'domestic_violence': 1,
-        'general_emergency': 1
-      })).optional(),
+      emergencyType: Joi.string().valid(...SOS_EMERGENCY_TYPES).optional(),
       description: Joi.string().optional(),
+      attachments: Joi.array().items(Joi.object({
+        id: Joi.string().required(),
+        type: Joi.string().valid(...SOS_ATTACHMENT_TYPES).required(),
+        url: Joi.string().uri().required(),
+        filename: Joi.string().required(),
+        uploadedAt: Joi.string().isoDate().required(),
+        isVerified: Joi.boolean().required(),
+        priority: Joi.number().min(1).max(10).required()
+      })).max(10).optional(),
       vehicleInfo: Joi.object().optional()
     });
 
     const { error } = schema.validate(sosData);
     if (error) {
-      throw new Error(`Invalid SOS data: ${error.message}`);
+      throw new Error(`invalid_sos_request: ${error.message}`);
     }
   }
 
   private async updateSOSInCache(sosAlert: SOSAlert): Promise<void> {
-    await redis.setex(`sos:active:${sosAlert.id}`, 86400, JSON.stringify(sosAlert));
+    await redis.setCache(`sos:active:${sosAlert.id}`, sosAlert, 86400);
+  }
+
+  // Operator actions read the alert from the database, which outlives the cache and other instances
+  private async getSOSOrThrow(sosId: string): Promise<SOSAlertRecord> {
+    const sosAlert = await getSOSAlert(sosId);
+    if (!sosAlert) {
+      throw new Error('sos_not_found');
+    }
+    return sosAlert;
   }
 
-  private async getSOSFromCache(sosId: string): Promise<SOSAlert | null> {
+  // The event log feeds the operator timeline; losing an entry must never hold up the emergency itself
+  private async recordSOSEvent(
+    sosAlert: { id: string; sosCode: string },
+    eventType: SOSEventType,
+    actor: string,
+    message?: string | null,
+    data?: Record<string, unknown>
+  ): Promise<void> {
     try {
-      const data = await redis.get(`sos:active:${sosId}`);
-      return data ? JSON.parse(data) : null;
+      await insertSOSEvent({ sosAlertId: sosAlert.id, eventType, actor, message, data });
     } catch (error) {
-      logger.warn(`Failed to get SOS ${sosId} from cache:`, error);
-      return null;
+      logger.warn(`Failed to record ${eventType} event for SOS ${sosAlert.sosCode}:`, error);
     }
   }
 
   private async saveSOSToDatabase(sosAlert: SOSAlert): Promise<void> {
     try {
+      // Dispatch results never roll back a status an operator has already moved the alert to
       const query = `
         INSERT INTO sos_alerts (
-          id, sos_code, triggered_at, location, address, reporter_id, reporter_type,
-          reporter_name, reporter_phone, driver_id, booking_id, emergency_type,
+          id, sos_code, triggered_at, location, location_accuracy, address, reporter_id, reporter_type,
+          reporter_name, reporter_phone, driver_id, booking_id, vehicle_info, emergency_type,
           severity, description, attachments, status, processing_time_ms,
           emergency_services_notified, emergency_reference_numbers, created_at
         ) VALUES (
-          $1, $2, $3, ST_Point($4, $5), $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16,
-          $17, $18, $19, $20, NOW()
+          $1, $2, $3, ST_SetSRID(ST_Point($4, $5), 4326), $6, $7, $8, $9, $10, $11, $12, $13, $14, $15,
+          $16, $17, $18, $19, $20, $21, $22, NOW()
         )
         ON CONFLICT (id) DO UPDATE SET
-          status = $17,
-          processing_time_ms = $18,
-          emergency_services_notified = $19,
-          emergency_reference_numbers = $20,
+          status = CASE WHEN sos_alerts.status IN ('triggered', 'processing') THEN $19 ELSE sos_alerts.status END,
+          processing_time_ms = $20,
+          emergency_services_notified = $21,
+          emergency_reference_numbers = $22,
           updated_at = NOW()
       `;
 
@@ -757,6 +784,7 @@ class SOSAlertProcessor {
         sosAlert.triggeredAt,
         sosAlert.location.longitude,
         sosAlert.location.latitude,
+        sosAlert.location.accuracy,
         sosAlert.location.address,
         sosAlert.reporterId,
         sosAlert.reporterType,
@@ -764,6 +792,7 @@ class SOSAlertProcessor {
         sosAlert.reporterPhone,
         sosAlert.driverId,
         sosAlert.bookingId,
+        sosAlert.vehicleInfo ? JSON.stringify(sosAlert.vehicleInfo) : null,
         sosAlert.emergencyType,
         sosAlert.severity,
         sosAlert.description,
@@ -779,21 +808,11 @@ class SOSAlertProcessor {
     }
   }
 
-  private async updateSOSInDatabase(sosAlert: SOSAlert): Promise<void> {
-    try {
-      await db.query(`
-        UPDATE sos_alerts SET
-          status = $1,
-          response_time_ms = $2,
-          updated_at = NOW()
-        WHERE id = $3
-      `, [sosAlert.status, sosAlert.responseTime, sosAlert.id]);
-    } catch (error) {
-      logger.warn(`Failed to update SOS ${sosAlert.sosCode} in database:`, error);
-    }
-  }
-
-  private async broadcastSOSUpdate(sosAlert: SOSAlert, updateType: string, data: any): Promise<void> {
+  private async broadcastSOSUpdate(
+    sosAlert: { id: string; sosCode: string; status: SOSStatus },
+    updateType: string,
+    data: Record<string, unknown>
+  ): Promise<void> {
     const updateMessage = {
       sosId: sosAlert.id,
       sosCode: sosAlert.sosCode,
@@ -815,6 +834,7 @@ class SOSAlertProcessor {
     } catch (dbError) {
       logger.error('Critical: Failed to save SOS to database:', dbError);
     }
+    await this.recordSOSEvent(sosAlert, 'dispatch_failed', 'system', error.message);
     
     // Broadcast failure for manual intervention
     await redis.publish('sos:processing_failed', {
@@ -0,0 +1,75 @@
+// GPS smoothing
+// A small Kalman filter per driver: each fix is weighted against the running estimate by its
+// reported accuracy, and the estimate is carried forward between fixes using the reported
+// speed and bearing so it does not lag behind a moving vehicle.
+
+export interface GpsFix {
+  latitude: number;
+  longitude: number;
+  timestamp: number;                   // ms since epoch
+  accuracy?: number;                   // metres
+  speed?: number;                      // km/h
+  bearing?: number;                    // degrees
+}
+
+export interface KalmanState {
+  latitude: number;
+  longitude: number;
+  variance: number;                    // m², uncertainty of the estimate
+  timestamp: number;
+}
+
+export interface KalmanConfig {
+  processNoiseMps: number;             // how fast the true position may drift from the prediction
+  defaultAccuracyM: number;            // used when the device sends no accuracy
+  resetAfterMs: number;                // after a gap this long the next fix starts a new estimate
+}
+
+export const DEFAULT_KALMAN_CONFIG: KalmanConfig = {
+  processNoiseMps: 3,
+  defaultAccuracyM: 15,
+  resetAfterMs: 120_000
+};
+
+const METRES_PER_DEGREE_LAT = 110_540;
+const metresPerDegreeLng = (latitude: number) => 111_320 * Math.cos(latitude * Math.PI / 180);
+
+export function kalmanStep(
+  state: KalmanState | null,
+  fix: GpsFix,
+  config: KalmanConfig = DEFAULT_KALMAN_CONFIG
+): KalmanState {
+  const accuracy = Math.max(1, fix.accuracy ?? config.defaultAccuracyM);
+  const measurementVariance = accuracy * accuracy;
+  const elapsedMs = state ? fix.timestamp - state.timestamp : Infinity;
+
+  if (!state || elapsedMs > config.resetAfterMs) {
+    return {
+      latitude: fix.latitude,
+      longitude: fix.longitude,
+      variance: measurementVariance,
+      timestamp: fix.timestamp
+    };
+  }
+  // Out-of-order fixes are measured against the estimate as it stands
+  const seconds = Math.max(0, elapsedMs) / 1000;
+
+  // Predict: move along the reported heading, and grow the uncertainty with time
+  let { latitude, longitude } = state;
+  if (fix.speed && fix.bearing !== undefined) {
+    const metres = fix.speed / 3.6 * seconds;
+    const heading = fix.bearing * Math.PI / 180;
+    latitude += metres * Math.cos(heading) / METRES_PER_DEGREE_LAT;
+    longitude += metres * Math.sin(heading) / metresPerDegreeLng(latitude);
+  }
+  const variance = state.variance + seconds * config.processNoiseMps * config.processNoiseMps;
+
+  // Update: blend in the fix by how much it is trusted relative to the prediction
+  const gain = variance / (variance + measurementVariance);
+  return {
+    latitude: latitude + gain * (fix.latitude - latitude),
+    longitude: longitude + gain * (fix.longitude - longitude),
+    variance: (1 - gain) * variance,
+    timestamp: Math.max(state.timestamp, fix.timestamp)
+  };
+}
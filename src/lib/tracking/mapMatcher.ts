@@ -0,0 +1,180 @@
+// Map matching
+// Smooths each driver's GPS fixes and snaps them onto the road graph. Among the nearby roads
+// the one that best fits the fix, the direction of travel and a drivable path from the previous
+// snapped position wins. The distance between consecutive positions is measured along the road.
+
+import { DEFAULT_KALMAN_CONFIG, GpsFix, kalmanStep, KalmanState } from './kalman';
+import { EdgeProjection, loadRoadGraph, metresBetween, nearestEdges, RoadGraph, roadDistanceM } from './roadGraph';
+
+import { logger } from '@/lib/security/productionLogger';
+
+export interface MatchedLocation {
+  latitude: number;
+  longitude: number;
+  snapped: boolean;
+  roadName: string | null;
+  distanceFromPreviousM: number | null;  // along the road when both ends are snapped; null for a first fix
+}
+
+export interface MapMatchingConfig {
+  minSearchRadiusM: number;
+  maxSearchRadiusM: number;            // fixes further than this from any road stay where they are
+  headingWeight: number;               // metres of penalty per degree the road is off the bearing
+  detourWeight: number;                // penalty per metre the road path is longer than the straight line
+  minHeadingSpeedKmh: number;          // below this the bearing is too noisy to use
+}
+
+export const DEFAULT_MAP_MATCHING_CONFIG: MapMatchingConfig = {
+  minSearchRadiusM: 25,
+  maxSearchRadiusM: 60,
+  headingWeight: 0.2,
+  detourWeight: 0.5,
+  minHeadingSpeedKmh: 8
+};
+
+interface DriverTrack {
+  kalman: KalmanState;
+  position: { latitude: number; longitude: number };
+  projection: EdgeProjection | null;
+}
+
+function edgeBearing(graph: RoadGraph, projection: EdgeProjection): number {
+  const from = graph.nodes.get(projection.edge.from)!;
+  const to = graph.nodes.get(projection.edge.to)!;
+  const dy = to.latitude - from.latitude;
+  const dx = (to.longitude - from.longitude) * Math.cos(from.latitude * Math.PI / 180);
+  return (Math.atan2(dx, dy) * 180 / Math.PI + 360) % 360;
+}
+
+function angleBetween(a: number, b: number): number {
+  const difference = Math.abs(a - b) % 360;
+  return difference > 180 ? 360 - difference : difference;
+}
+
+export class MapMatcher {
+  private tracks = new Map<string, DriverTrack>();
+  private config: MapMatchingConfig;
+
+  constructor(private graph: RoadGraph | null = null, config: Partial<MapMatchingConfig> = {}) {
+    this.config = { ...DEFAULT_MAP_MATCHING_CONFIG, ...config };
+  }
+
+  setGraph(graph: RoadGraph): void {
+    this.graph = graph;
+  }
+
+  hasGraph(): boolean {
+    return this.graph !== null;
+  }
+
+  // Without a road graph this only smooths
+  match(driverId: string, fix: GpsFix): MatchedLocation {
+    const previous = this.tracks.get(driverId);
+    const kalman = kalmanStep(previous?.kalman ?? null, fix);
+    const smoothed = { latitude: kalman.latitude, longitude: kalman.longitude };
+    // The filter restarted after a long gap; the old position says nothing about the path since
+    const continuous = previous !== undefined
+      && fix.timestamp - previous.kalman.timestamp <= DEFAULT_KALMAN_CONFIG.resetAfterMs;
+
+    const projection = this.graph ? this.chooseProjection(smoothed, fix, continuous ? previous : undefined) : null;
+    const position = projection ? projection.point : smoothed;
+
+    let distanceFromPreviousM: number | null = null;
+    if (previous && continuous) {
+      const straight = metresBetween(previous.position, position);
+      const alongRoad = projection && previous.projection && this.graph
+        ? roadDistanceM(this.graph, previous.projection, projection, straight * 3 + 200)
+        : null;
+      distanceFromPreviousM = alongRoad ?? straight;
+    }
+
+    this.tracks.set(driverId, { kalman, position, projection });
+    return {
+      ...position,
+      snapped: projection !== null,
+      roadName: projection?.edge.name ?? null,
+      distanceFromPreviousM
+    };
+  }
+
+  forget(driverId: string): void {
+    this.tracks.delete(driverId);
+  }
+
+  private chooseProjection(
+    point: { latitude: number; longitude: number },
+    fix: GpsFix,
+    previous: DriverTrack | undefined
+  ): EdgeProjection | null {
+    const radius = Math.min(
+      this.config.maxSearchRadiusM,
+      Math.max(this.config.minSearchRadiusM, (fix.accuracy ?? 0) * 1.5)
+    );
+    const candidates = nearestEdges(this.graph!, point, radius);
+    if (candidates.length === 0) {
+      return null;
+    }
+
+    const useHeading = fix.bearing !== undefined && (fix.speed ?? 0) >= this.config.minHeadingSpeedKmh;
+    const straight = previous ? metresBetween(previous.position, point) : 0;
+
+    let best: { projection: EdgeProjection; score: number } | null = null;
+    for (const candidate of candidates) {
+      let score = candidate.distanceM;
+
+      if (useHeading) {
+        const bearing = edgeBearing(this.graph!, candidate);
+        // Two-way roads fit either direction of travel
+        const off = candidate.edge.oneway
+          ? angleBetween(bearing, fix.bearing!)
+          : Math.min(angleBetween(bearing, fix.bearing!), angleBetween(bearing + 180, fix.bearing!));
+        score += off * this.config.headingWeight;
+      }
+
+      if (previous?.projection) {
+        const alongRoad = roadDistanceM(this.graph!, previous.projection, candidate, straight * 3 + 200);
+        // No drivable way from the last road: only worth it if nothing else is close
+        score += alongRoad === null ? radius : Math.max(0, alongRoad - straight) * this.config.detourWeight;
+      }
+
+      if (!best || score < best.score) {
+        best = { projection: candidate, score };
+      }
+    }
+    return best!.projection;
+  }
+}
+
+let sharedMatcher: MapMatcher | null = null;
+
+/**
+ * The matcher shared by the location pipeline. The road graph comes from the extract at
+ * OSM_EXTRACT_PATH and loads in the background; fixes are smoothed but not snapped until
+ * it is ready, and for good when no extract is configured.
+ */
+export function getMapMatcher(): MapMatcher {
+  if (sharedMatcher) {
+    return sharedMatcher;
+  }
+  sharedMatcher = new MapMatcher();
+
+  const extractPath = process.env.OSM_EXTRACT_PATH;
+  if (!extractPath) {
+    logger.warn('OSM_EXTRACT_PATH not set; driver locations are smoothed but not snapped to roads');
+    return sharedMatcher;
+  }
+
+  const matcher = sharedMatcher;
+  const startedAt = Date.now();
+  loadRoadGraph(extractPath)
+    .then(graph => {
+      matcher.setGraph(graph);
+      logger.info(`Loaded road graph from ${extractPath}: ${graph.edges.length} edges in ${Date.now() - startedAt}ms`);
+    })
+    .catch(error => {
+      logger.error(`Failed to load road graph from ${extractPath}`, {
+        error: error instanceof Error ? error.message : String(error)
+      }, { component: 'MapMatcher', action: 'loadRoadGraph' });
+    });
+  return sharedMatcher;
+}
@@ -0,0 +1,61 @@
+// Encoded polylines
+// Google's polyline algorithm: coordinates at 1e-5 precision, delta-encoded as base64-like
+// characters. A minute of points at one-second updates fits in a few hundred bytes.
+
+import { GeoPoint } from '@/lib/matching/pooling';
+
+const PRECISION = 1e5;
+
+function encodeValue(value: number): string {
+  let shifted = value < 0 ? ~(value << 1) : value << 1;
+  let encoded = '';
+  while (shifted >= 0x20) {
+    encoded += String.fromCharCode((0x20 | (shifted & 0x1f)) + 63);
+    shifted >>= 5;
+  }
+  return encoded + String.fromCharCode(shifted + 63);
+}
+
+export function encodePolyline(points: GeoPoint[]): string {
+  let previousLat = 0;
+  let previousLng = 0;
+  let encoded = '';
+
+  for (const point of points) {
+    const lat = Math.round(point.latitude * PRECISION);
+    const lng = Math.round(point.longitude * PRECISION);
+    encoded += encodeValue(lat - previousLat) + encodeValue(lng - previousLng);
+    previousLat = lat;
+    previousLng = lng;
+  }
+  return encoded;
+}
+
+export function decodePolyline(encoded: string): GeoPoint[] {
+  const points: GeoPoint[] = [];
+  let index = 0;
+  let lat = 0;
+  let lng = 0;
+
+  const nextValue = (): number => {
+    let result = 0;
+    let shift = 0;
+    let byte: number;
+    do {
+      if (index >= encoded.length) {
+        throw new Error('invalid_polyline');
+      }
+      byte = encoded.charCodeAt(index++) - 63;
+      result |= (byte & 0x1f) << shift;
+      shift += 5;
+    } while (byte >= 0x20);
+    return result & 1 ? ~(result >> 1) : result >> 1;
+  };
+
+  while (index < encoded.length) {
+    lat += nextValue();
+    lng += nextValue();
+    points.push({ latitude: lat / PRECISION, longitude: lng / PRECISION });
+  }
+  return points;
+}
@@ -0,0 +1,293 @@
+// Road graph
+// Drivable roads from a local OpenStreetMap extract (.osm XML or Overpass .json), split into
+// straight edges between OSM nodes with a grid index for nearest-road lookups. Everything runs
+// in process; no map APIs are called.
+
+import { readFile } from 'fs/promises';
+
+import { XMLParser } from 'fast-xml-parser';
+
+import { GeoPoint } from '@/lib/matching/pooling';
+
+export interface OsmNode {
+  id: string;
+  latitude: number;
+  longitude: number;
+}
+
+export interface OsmWay {
+  id: string;
+  nodeIds: string[];
+  tags: Record<string, string>;
+}
+
+// Straight piece of road between two OSM nodes, drivable from -> to, and back unless one-way
+export interface RoadEdge {
+  index: number;
+  wayId: string;
+  name: string | null;
+  from: string;
+  to: string;
+  lengthM: number;
+  oneway: boolean;
+}
+
+export interface RoadGraph {
+  nodes: Map<string, GeoPoint>;
+  edges: RoadEdge[];
+  outgoing: Map<string, { edge: number; forward: boolean }[]>;
+  grid: Map<string, number[]>;
+}
+
+// Nearest spot on an edge to a point
+export interface EdgeProjection {
+  edge: RoadEdge;
+  point: GeoPoint;
+  offsetM: number;                     // along the edge from its `from` node
+  distanceM: number;                   // from the point to the edge
+}
+
+const DRIVABLE_HIGHWAYS = new Set([
+  'motorway', 'trunk', 'primary', 'secondary', 'tertiary', 'unclassified', 'residential',
+  'service', 'living_street', 'road',
+  'motorway_link', 'trunk_link', 'primary_link', 'secondary_link', 'tertiary_link'
+]);
+
+// About 220 m per cell in Metro Manila; lookups scan the neighbouring cells too
+const GRID_CELL_DEGREES = 0.002;
+
+const METRES_PER_DEGREE_LAT = 110_540;
+const metresPerDegreeLng = (latitude: number) => 111_320 * Math.cos(latitude * Math.PI / 180);
+
+export function metresBetween(from: GeoPoint, to: GeoPoint): number {
+  const dy = (to.latitude - from.latitude) * METRES_PER_DEGREE_LAT;
+  const dx = (to.longitude - from.longitude) * metresPerDegreeLng((from.latitude + to.latitude) / 2);
+  return Math.sqrt(dx * dx + dy * dy);
+}
+
+const cellKey = (x: number, y: number) => `${x}:${y}`;
+const cellOf = (point: GeoPoint) => ({
+  x: Math.floor(point.longitude / GRID_CELL_DEGREES),
+  y: Math.floor(point.latitude / GRID_CELL_DEGREES)
+});
+
+// ============================================================================
+// PARSING
+// ============================================================================
+
+export function parseOsmXml(xml: string): { nodes: OsmNode[]; ways: OsmWay[] } {
+  const parser = new XMLParser({
+    ignoreAttributes: false,
+    attributeNamePrefix: '',
+    isArray: name => ['node', 'way', 'nd', 'tag'].includes(name)
+  });
+  const osm = parser.parse(xml).osm ?? {};
+
+  return {
+    nodes: (osm.node ?? []).map((node: { id: string; lat: string; lon: string }) => ({
+      id: String(node.id),
+      latitude: Number(node.lat),
+      longitude: Number(node.lon)
+    })),
+    ways: (osm.way ?? []).map((way: { id: string; nd?: { ref: string }[]; tag?: { k: string; v: string }[] }) => ({
+      id: String(way.id),
+      nodeIds: (way.nd ?? []).map(nd => String(nd.ref)),
+      tags: Object.fromEntries((way.tag ?? []).map(tag => [tag.k, String(tag.v)]))
+    }))
+  };
+}
+
+interface OverpassElement {
+  type: string;
+  id: number;
+  lat?: number;
+  lon?: number;
+  nodes?: number[];
+  tags?: Record<string, string>;
+}
+
+export function parseOverpassJson(json: string): { nodes: OsmNode[]; ways: OsmWay[] } {
+  const elements: OverpassElement[] = JSON.parse(json).elements ?? [];
+  return {
+    nodes: elements
+      .filter(element => element.type === 'node')
+      .map(element => ({ id: String(element.id), latitude: element.lat ?? 0, longitude: element.lon ?? 0 })),
+    ways: elements
+      .filter(element => element.type === 'way')
+      .map(element => ({
+        id: String(element.id),
+        nodeIds: (element.nodes ?? []).map(String),
+        tags: element.tags ?? {}
+      }))
+  };
+}
+
+// ============================================================================
+// GRAPH
+// ============================================================================
+
+function onewayDirection(tags: Record<string, string>): 'both' | 'forward' | 'backward' {
+  if (tags.oneway === '-1') {
+    return 'backward';
+  }
+  if (['yes', 'true', '1'].includes(tags.oneway) || tags.junction === 'roundabout' || tags.highway === 'motorway') {
+    return 'forward';
+  }
+  return 'both';
+}
+
+export function buildRoadGraph(osmNodes: OsmNode[], ways: OsmWay[]): RoadGraph {
+  const allNodes = new Map(osmNodes.map(node => [node.id, { latitude: node.latitude, longitude: node.longitude }]));
+  const graph: RoadGraph = { nodes: new Map(), edges: [], outgoing: new Map(), grid: new Map() };
+
+  const addOutgoing = (nodeId: string, edge: number, forward: boolean) => {
+    const list = graph.outgoing.get(nodeId) ?? [];
+    list.push({ edge, forward });
+    graph.outgoing.set(nodeId, list);
+  };
+
+  for (const way of ways) {
+    if (!DRIVABLE_HIGHWAYS.has(way.tags.highway)) {
+      continue;
+    }
+    const direction = onewayDirection(way.tags);
+    const nodeIds = direction === 'backward' ? [...way.nodeIds].reverse() : way.nodeIds;
+
+    for (let i = 1; i < nodeIds.length; i++) {
+      const from = allNodes.get(nodeIds[i - 1]);
+      const to = allNodes.get(nodeIds[i]);
+      if (!from || !to) {
+        continue;
+      }
+      graph.nodes.set(nodeIds[i - 1], from);
+      graph.nodes.set(nodeIds[i], to);
+
+      const edge: RoadEdge = {
+        index: graph.edges.length,
+        wayId: way.id,
+        name: way.tags.name ?? null,
+        from: nodeIds[i - 1],
+        to: nodeIds[i],
+        lengthM: metresBetween(from, to),
+        oneway: direction !== 'both'
+      };
+      graph.edges.push(edge);
+      addOutgoing(edge.from, edge.index, true);
+      if (!edge.oneway) {
+        addOutgoing(edge.to, edge.index, false);
+      }
+
+      // Index the edge in every cell its bounding box touches
+      const a = cellOf(from);
+      const b = cellOf(to);
+      for (let x = Math.min(a.x, b.x); x <= Math.max(a.x, b.x); x++) {
+        for (let y = Math.min(a.y, b.y); y <= Math.max(a.y, b.y); y++) {
+          const cell = graph.grid.get(cellKey(x, y)) ?? [];
+          cell.push(edge.index);
+          graph.grid.set(cellKey(x, y), cell);
+        }
+      }
+    }
+  }
+  return graph;
+}
+
+export async function loadRoadGraph(path: string): Promise<RoadGraph> {
+  const content = await readFile(path, 'utf8');
+  const { nodes, ways } = path.endsWith('.json') ? parseOverpassJson(content) : parseOsmXml(content);
+  return buildRoadGraph(nodes, ways);
+}
+
+// ============================================================================
+// LOOKUPS
+// ============================================================================
+
+export function projectOntoEdge(graph: RoadGraph, edge: RoadEdge, point: GeoPoint): EdgeProjection {
+  const from = graph.nodes.get(edge.from)!;
+  const to = graph.nodes.get(edge.to)!;
+  const scaleX = metresPerDegreeLng(from.latitude);
+
+  // Flat x/y in metres relative to the edge start; fine at street scale
+  const ex = (to.longitude - from.longitude) * scaleX;
+  const ey = (to.latitude - from.latitude) * METRES_PER_DEGREE_LAT;
+  const px = (point.longitude - from.longitude) * scaleX;
+  const py = (point.latitude - from.latitude) * METRES_PER_DEGREE_LAT;
+  const lengthSquared = ex * ex + ey * ey;
+  const t = lengthSquared > 0 ? Math.max(0, Math.min(1, (px * ex + py * ey) / lengthSquared)) : 0;
+
+  const projected = {
+    latitude: from.latitude + (to.latitude - from.latitude) * t,
+    longitude: from.longitude + (to.longitude - from.longitude) * t
+  };
+  return { edge, point: projected, offsetM: edge.lengthM * t, distanceM: metresBetween(point, projected) };
+}
+
+// Edges within radiusM of the point, nearest first
+export function nearestEdges(graph: RoadGraph, point: GeoPoint, radiusM: number, limit = 5): EdgeProjection[] {
+  const center = cellOf(point);
+  const reach = Math.ceil(radiusM / (GRID_CELL_DEGREES * METRES_PER_DEGREE_LAT)) + 1;
+  const seen = new Set<number>();
+  const found: EdgeProjection[] = [];
+
+  for (let x = center.x - reach; x <= center.x + reach; x++) {
+    for (let y = center.y - reach; y <= center.y + reach; y++) {
+      for (const index of graph.grid.get(cellKey(x, y)) ?? []) {
+        if (seen.has(index)) {
+          continue;
+        }
+        seen.add(index);
+        const projection = projectOntoEdge(graph, graph.edges[index], point);
+        if (projection.distanceM <= radiusM) {
+          found.push(projection);
+        }
+      }
+    }
+  }
+  return found.sort((a, b) => a.distanceM - b.distanceM).slice(0, limit);
+}
+
+/**
+ * Driving distance between two spots on the graph, following one-way restrictions.
+ * Returns null when the second spot cannot be reached within maxM.
+ */
+export function roadDistanceM(graph: RoadGraph, from: EdgeProjection, to: EdgeProjection, maxM: number): number | null {
+  if (from.edge.index === to.edge.index) {
+    return Math.abs(to.offsetM - from.offsetM);
+  }
+
+  // Dijkstra over nodes, starting from the ends of the first edge we may drive towards
+  const costs = new Map<string, number>([[from.edge.to, from.edge.lengthM - from.offsetM]]);
+  if (!from.edge.oneway) {
+    costs.set(from.edge.from, from.offsetM);
+  }
+  const queue = Array.from(costs.entries()).map(([node, cost]) => ({ node, cost }));
+  const done = new Set<string>();
+  let best: number | null = null;
+
+  while (queue.length > 0) {
+    queue.sort((a, b) => a.cost - b.cost);
+    const { node, cost } = queue.shift()!;
+    if (done.has(node) || cost > maxM || (best !== null && cost >= best)) {
+      continue;
+    }
+    done.add(node);
+
+    // Reaching either end of the target edge finishes the trip along it
+    if (node === to.edge.from) {
+      best = Math.min(best ?? Infinity, cost + to.offsetM);
+    }
+    if (node === to.edge.to && !to.edge.oneway) {
+      best = Math.min(best ?? Infinity, cost + to.edge.lengthM - to.offsetM);
+    }
+
+    for (const { edge, forward } of graph.outgoing.get(node) ?? []) {
+      const next = forward ? graph.edges[edge].to : graph.edges[edge].from;
+      const nextCost = cost + graph.edges[edge].lengthM;
+      if (nextCost < (costs.get(next) ?? Infinity)) {
+        costs.set(next, nextCost);
+        queue.push({ node: next, cost: nextCost });
+      }
+    }
+  }
+  return best !== null && best <= maxM ? best : null;
+}
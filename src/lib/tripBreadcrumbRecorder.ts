@@ -0,0 +1,139 @@
+// Trip Breadcrumb Recorder
+// Buffers every driver location point before the batching service dedupes them, writes the
+// buffered points to the bookings' stored paths once their minute is over, and purges
+// breadcrumbs past their retention on a daily cron schedule
+
+import cron, { ScheduledTask } from 'node-cron';
+
+import type { LocationUpdate } from './locationBatching';
+
+import { logger } from '@/lib/security/productionLogger';
+import { purgeExpiredBreadcrumbs, recordBreadcrumbs } from '@/lib/services/tripTrackingService';
+import { BreadcrumbPoint } from '@/types/tripTracking';
+
+const FLUSH_INTERVAL_MS = 15_000;
+
+// A driver whose points keep failing to store loses the oldest ones past this
+const MAX_BUFFERED_POINTS_PER_DRIVER = 600;
+
+class TripBreadcrumbRecorder {
+  private buffer = new Map<string, BreadcrumbPoint[]>();
+  private flushTimer: NodeJS.Timeout | null = null;
+  private purgeTask: ScheduledTask | null = null;
+  private flushing = false;
+  private readonly purgeSchedule = process.env.TRIP_BREADCRUMB_PURGE_SCHEDULE || '30 3 * * *';
+  private readonly timezone = process.env.TRIP_BREADCRUMB_TIMEZONE || 'Asia/Manila';
+
+  // Offline drivers are not on a trip; everything else is kept until the flush sorts it out
+  record(update: LocationUpdate): void {
+    if (process.env.TRIP_BREADCRUMBS_ENABLED === 'false' || update.status === 'offline') {
+      return;
+    }
+
+    const points = this.buffer.get(update.driverId) ?? [];
+    points.push({
+      latitude: update.latitude,
+      longitude: update.longitude,
+      timestamp: update.timestamp,
+      speedKmh: update.speed ?? null,
+      distanceFromPreviousM: update.distanceFromPreviousM ?? null
+    });
+    if (points.length > MAX_BUFFERED_POINTS_PER_DRIVER) {
+      points.splice(0, points.length - MAX_BUFFERED_POINTS_PER_DRIVER);
+    }
+    this.buffer.set(update.driverId, points);
+
+    // Route handlers record without the server having called start()
+    if (!this.flushTimer) {
+      this.flushTimer = setInterval(() => this.flush(), FLUSH_INTERVAL_MS);
+      this.flushTimer.unref?.();
+    }
+  }
+
+  // Start the retention purge
+  start(): void {
+    if (this.purgeTask) {
+      logger.info('Trip breadcrumb purge is already scheduled');
+      return;
+    }
+    if (!cron.validate(this.purgeSchedule)) {
+      logger.error(`Invalid TRIP_BREADCRUMB_PURGE_SCHEDULE "${this.purgeSchedule}"; breadcrumb purge not started`);
+      return;
+    }
+
+    logger.info(`Purging expired trip breadcrumbs at "${this.purgeSchedule}" (${this.timezone})`);
+    this.purgeTask = cron.schedule(this.purgeSchedule, () => this.purge(), {
+      name: 'trip-breadcrumb-purge',
+      timezone: this.timezone,
+      noOverlap: true
+    });
+  }
+
+  // Stop the purge and write out everything still buffered
+  async stop(): Promise<void> {
+    if (this.flushTimer) {
+      clearInterval(this.flushTimer);
+      this.flushTimer = null;
+    }
+    if (this.purgeTask) {
+      logger.info('Stopping trip breadcrumb purge');
+      this.purgeTask.stop();
+      this.purgeTask = null;
+    }
+    await this.flush(Infinity);
+  }
+
+  /**
+   * Writes out buffered points from minutes that are over, so each minute is normally
+   * stored as one segment. Points that fail to store go back into the buffer.
+   */
+  async flush(before: number = Math.floor(Date.now() / 60_000) * 60_000): Promise<void> {
+    if (this.flushing) {
+      return;
+    }
+    this.flushing = true;
+
+    const due = new Map<string, BreadcrumbPoint[]>();
+    this.buffer.forEach((points, driverId) => {
+      const ready = points.filter(point => point.timestamp < before);
+      if (ready.length === 0) {
+        return;
+      }
+      due.set(driverId, ready);
+      const pending = points.filter(point => point.timestamp >= before);
+      if (pending.length > 0) {
+        this.buffer.set(driverId, pending);
+      } else {
+        this.buffer.delete(driverId);
+      }
+    });
+
+    try {
+      await recordBreadcrumbs(due);
+    } catch (error) {
+      logger.error('Failed to store trip breadcrumbs', {
+        drivers: due.size,
+        error: error instanceof Error ? error.message : String(error)
+      }, { component: 'TripBreadcrumbRecorder', action: 'flush' });
+      due.forEach((points, driverId) => {
+        const merged = [...points, ...(this.buffer.get(driverId) ?? [])];
+        this.buffer.set(driverId, merged.slice(-MAX_BUFFERED_POINTS_PER_DRIVER));
+      });
+    } finally {
+      this.flushing = false;
+    }
+  }
+
+  private async purge(): Promise<void> {
+    try {
+      const purged = await purgeExpiredBreadcrumbs();
+      logger.info(`Purged ${purged} expired trip breadcrumb segments`);
+    } catch (error) {
+      logger.error('Trip breadcrumb purge failed', {
+        error: error instanceof Error ? error.message : String(error)
+      }, { component: 'TripBreadcrumbRecorder', action: 'purge' });
+    }
+  }
+}
+
+export const tripBreadcrumbRecorder = new TripBreadcrumbRecorder();
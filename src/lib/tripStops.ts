@@ -0,0 +1,367 @@
+// Trip Stops
+// Ordered stops of multi-stop and pooled bookings, and the pool trips pooled bookings share
+
+import { getDatabase } from './database';
+import type { TransactionContext } from './database/connection-manager';
+
+import { RouteStop } from '@/lib/matching/pooling';
+import { loadPoolPricing, splitPooledFare } from '@/lib/pricing/poolFares';
+import { logger } from '@/lib/security/productionLogger';
+import { BookingStop, PoolTrip, StopStatus, StopType } from '@/types/fleet';
+
+const db = getDatabase();
+
+type Queryable = Pick<TransactionContext, 'query'>;
+
+// Booking statuses in which the booking still occupies its driver
+export const ACTIVE_BOOKING_STATUSES = ['assigned', 'accepted', 'en_route', 'arrived', 'in_progress'];
+
+export interface NewStop {
+  stopType: StopType;
+  latitude: number;
+  longitude: number;
+  address: string;
+}
+
+interface BookingStopRow {
+  id: string;
+  booking_id: string;
+  sequence: number;
+  route_sequence: number | null;
+  stop_type: StopType;
+  latitude: string;
+  longitude: string;
+  address: string;
+  status: StopStatus;
+  arrived_at: string | null;
+  completed_at: string | null;
+}
+
+const mapBookingStop = (row: BookingStopRow): BookingStop => ({
+  id: row.id,
+  bookingId: row.booking_id,
+  sequence: row.sequence,
+  routeSequence: row.route_sequence ?? undefined,
+  stopType: row.stop_type,
+  latitude: parseFloat(row.latitude),
+  longitude: parseFloat(row.longitude),
+  address: row.address,
+  status: row.status,
+  arrivedAt: row.arrived_at ?? undefined,
+  completedAt: row.completed_at ?? undefined
+});
+
+const STOP_TRANSITIONS: Record<StopStatus, StopStatus[]> = {
+  pending: ['arrived', 'completed', 'skipped'],
+  arrived: ['completed', 'skipped'],
+  completed: [],
+  skipped: []
+};
+
+// Pickup, then waypoints in the order given, then dropoff
+export function buildStops(
+  pickup: Omit<NewStop, 'stopType'>,
+  waypoints: Omit<NewStop, 'stopType'>[] = [],
+  dropoff?: Omit<NewStop, 'stopType'>
+): NewStop[] {
+  return [
+    { ...pickup, stopType: 'pickup' },
+    ...waypoints.map(stop => ({ ...stop, stopType: 'waypoint' as const })),
+    ...(dropoff ? [{ ...dropoff, stopType: 'dropoff' as const }] : [])
+  ];
+}
+
+export async function insertBookingStops(
+  client: Queryable,
+  bookingId: string,
+  stops: NewStop[]
+): Promise<BookingStop[]> {
+  const inserted: BookingStop[] = [];
+  for (const [index, stop] of stops.entries()) {
+    const result = await client.query(`
+      INSERT INTO booking_stops (booking_id, sequence, stop_type, latitude, longitude, address)
+      VALUES ($1, $2, $3, $4, $5, $6)
+      RETURNING *
+    `, [bookingId, index + 1, stop.stopType, stop.latitude, stop.longitude, stop.address]);
+    inserted.push(mapBookingStop(result.rows[0]));
+  }
+  return inserted;
+}
+
+export async function getBookingStops(bookingId: string, client: Queryable = db): Promise<BookingStop[]> {
+  const result = await client.query(
+    'SELECT * FROM booking_stops WHERE booking_id = $1 ORDER BY sequence',
+    [bookingId]
+  );
+  return result.rows.map(mapBookingStop);
+}
+
+export async function getPoolTrip(poolTripId: string, client: Queryable = db): Promise<PoolTrip | null> {
+  const trip = await client.query('SELECT * FROM pool_trips WHERE id = $1', [poolTripId]);
+  const row = trip.rows[0];
+  if (!row) {
+    return null;
+  }
+
+  const stops = await client.query(`
+    SELECT s.* FROM booking_stops s
+    JOIN bookings b ON b.id = s.booking_id
+    WHERE b.pool_trip_id = $1
+    ORDER BY s.route_sequence NULLS LAST, s.booking_id, s.sequence
+  `, [poolTripId]);
+  const route = stops.rows.map(mapBookingStop);
+
+  return {
+    id: row.id,
+    driverId: row.driver_id,
+    regionId: row.region_id,
+    status: row.status,
+    seatCapacity: row.seat_capacity,
+    routeVersion: row.route_version,
+    bookingIds: Array.from(new Set(route.map(stop => stop.bookingId))),
+    route,
+    fareSplit: row.fare_split ?? undefined
+  };
+}
+
+// Remaining stops of active pool trips in route order, with the seats already in each car
+export async function loadPoolRoutes(
+  poolTripIds: string[],
+  client: Queryable = db
+): Promise<Map<string, { remaining: RouteStop[]; onboardSeats: number }>> {
+  const routes = new Map<string, { remaining: RouteStop[]; onboardSeats: number }>();
+  if (poolTripIds.length === 0) {
+    return routes;
+  }
+
+  const result = await client.query(`
+    SELECT s.id, s.booking_id, s.stop_type, s.latitude, s.longitude, s.status, b.seats, b.pool_trip_id
+    FROM booking_stops s
+    JOIN bookings b ON b.id = s.booking_id
+    WHERE b.pool_trip_id = ANY($1)
+      AND b.status = ANY($2)
+    ORDER BY b.pool_trip_id, s.route_sequence
+  `, [poolTripIds, ACTIVE_BOOKING_STATUSES]);
+
+  const isDone = (status: StopStatus) => status === 'completed' || status === 'skipped';
+  for (const row of result.rows) {
+    const route = routes.get(row.pool_trip_id) ?? { remaining: [], onboardSeats: 0 };
+    routes.set(row.pool_trip_id, route);
+    const seats = Number(row.seats) || 1;
+
+    if (!isDone(row.status)) {
+      route.remaining.push({
+        id: row.id,
+        bookingId: row.booking_id,
+        stopType: row.stop_type,
+        latitude: parseFloat(row.latitude),
+        longitude: parseFloat(row.longitude),
+        seats
+      });
+    }
+    // A rider is in the car between a finished pickup and a finished dropoff
+    if (isDone(row.status) && row.stop_type === 'pickup') {
+      route.onboardSeats += seats;
+    } else if (isDone(row.status) && row.stop_type === 'dropoff') {
+      route.onboardSeats -= seats;
+    }
+  }
+
+  return routes;
+}
+
+export async function createPoolTrip(
+  client: Queryable,
+  driverId: string,
+  regionId: string,
+  seatCapacity: number
+): Promise<string> {
+  const result = await client.query(`
+    INSERT INTO pool_trips (driver_id, region_id, seat_capacity)
+    VALUES ($1, $2, $3)
+    RETURNING id
+  `, [driverId, regionId, seatCapacity]);
+  return result.rows[0].id;
+}
+
+// Number the given stops in route order after everything already routed on the trip
+export async function setPoolRoute(client: Queryable, poolTripId: string, stopIds: string[]): Promise<void> {
+  await client.query(`
+    WITH base AS (
+      SELECT COALESCE(MAX(s.route_sequence), 0) AS last
+      FROM booking_stops s
+      JOIN bookings b ON b.id = s.booking_id
+      WHERE b.pool_trip_id = $1
+    )
+    UPDATE booking_stops s
+    SET route_sequence = base.last + r.ord, updated_at = NOW()
+    FROM unnest($2::uuid[]) WITH ORDINALITY AS r(id, ord), base
+    WHERE s.id = r.id
+  `, [poolTripId, stopIds]);
+  await client.query(
+    'UPDATE pool_trips SET route_version = route_version + 1, updated_at = NOW() WHERE id = $1',
+    [poolTripId]
+  );
+}
+
+// An unpooled booking is driven in its own stop order
+export async function setBookingRoute(client: Queryable, bookingId: string): Promise<void> {
+  await client.query(
+    'UPDATE booking_stops SET route_sequence = sequence, updated_at = NOW() WHERE booking_id = $1',
+    [bookingId]
+  );
+}
+
+/**
+ * Moves one stop forward. Stops of a booking are worked through in order; only waypoints
+ * can be skipped. Returns the booking status the stop implies, if it changes anything.
+ */
+export async function advanceStop(
+  client: Queryable,
+  bookingId: string,
+  stopId: string,
+  status: StopStatus
+): Promise<{ stop: BookingStop; bookingStatus: 'arrived' | 'in_progress' | 'completed' | null }> {
+  const result = await client.query(
+    'SELECT * FROM booking_stops WHERE booking_id = $1 ORDER BY sequence FOR UPDATE',
+    [bookingId]
+  );
+  const stops = result.rows.map(mapBookingStop);
+  const stop = stops.find(candidate => candidate.id === stopId);
+  if (!stop) {
+    throw new Error('Stop not found');
+  }
+  if (!STOP_TRANSITIONS[stop.status].includes(status)) {
+    throw new Error(`Invalid stop transition from ${stop.status} to ${status}`);
+  }
+  if (status === 'skipped' && stop.stopType !== 'waypoint') {
+    throw new Error('Invalid stop transition: only waypoints can be skipped');
+  }
+  const unfinished = stops.find(earlier => earlier.sequence < stop.sequence &&
+    (earlier.status === 'pending' || earlier.status === 'arrived'));
+  if (unfinished && status !== 'skipped') {
+    throw new Error(`Invalid stop transition: stop ${unfinished.sequence} is not finished`);
+  }
+
+  const updated = await client.query(`
+    UPDATE booking_stops
+    SET status = $2,
+      arrived_at = CASE WHEN $2 = 'arrived' THEN NOW() ELSE arrived_at END,
+      completed_at = CASE WHEN $2 IN ('completed', 'skipped') THEN NOW() ELSE completed_at END,
+      updated_at = NOW()
+    WHERE id = $1
+    RETURNING *
+  `, [stopId, status]);
+
+  let bookingStatus: 'arrived' | 'in_progress' | 'completed' | null = null;
+  if (stop.stopType === 'pickup') {
+    bookingStatus = status === 'arrived' ? 'arrived' : 'in_progress';
+  } else if (stop.stopType === 'dropoff' && status === 'completed') {
+    bookingStatus = 'completed';
+  }
+
+  return { stop: mapBookingStop(updated.rows[0]), bookingStatus };
+}
+
+export async function driverHasOtherActiveBookings(
+  client: Queryable,
+  driverId: string,
+  bookingId: string
+): Promise<boolean> {
+  const result = await client.query(`
+    SELECT 1 FROM bookings
+    WHERE driver_id = $1 AND id <> $2 AND status = ANY($3)
+    LIMIT 1
+  `, [driverId, bookingId, ACTIVE_BOOKING_STATUSES]);
+  return result.rows.length > 0;
+}
+
+/**
+ * Called when a pooled booking completes or is cancelled. A cancelled rider's open stops
+ * leave the route; once no rider is left the trip closes and completed riders are priced.
+ */
+export async function settlePoolBooking(
+  client: Queryable,
+  poolTripId: string,
+  bookingId: string,
+  outcome: 'completed' | 'cancelled'
+): Promise<{ tripClosed: boolean }> {
+  if (outcome === 'cancelled') {
+    await client.query(`
+      UPDATE booking_stops SET status = 'skipped', completed_at = NOW(), updated_at = NOW()
+      WHERE booking_id = $1 AND status IN ('pending', 'arrived')
+    `, [bookingId]);
+    await client.query(
+      'UPDATE pool_trips SET route_version = route_version + 1, updated_at = NOW() WHERE id = $1',
+      [poolTripId]
+    );
+  }
+
+  const open = await client.query(`
+    SELECT 1 FROM bookings
+    WHERE pool_trip_id = $1 AND id <> $2 AND status = ANY($3)
+    LIMIT 1
+  `, [poolTripId, bookingId, ACTIVE_BOOKING_STATUSES]);
+  if (open.rows.length > 0) {
+    return { tripClosed: false };
+  }
+
+  const riders = await client.query(`
+    SELECT id, region_id, surge_multiplier FROM bookings
+    WHERE pool_trip_id = $1 AND (status = 'completed' OR id = $2)
+  `, [poolTripId, bookingId]);
+  const completedIds = riders.rows
+    .filter((row: { id: string }) => row.id !== bookingId || outcome === 'completed')
+    .map((row: { id: string }) => row.id);
+
+  await client.query(`
+    UPDATE pool_trips
+    SET status = $2, completed_at = NOW(), updated_at = NOW()
+    WHERE id = $1
+  `, [poolTripId, completedIds.length > 0 ? 'completed' : 'cancelled']);
+
+  if (completedIds.length > 0) {
+    await priceCompletedPoolTrip(client, poolTripId, riders.rows[0].region_id, riders.rows
+      .filter((row: { id: string }) => completedIds.includes(row.id)));
+  }
+  return { tripClosed: true };
+}
+
+// Writes each completed rider's share of the trip fare to their booking and the trip
+async function priceCompletedPoolTrip(
+  client: Queryable,
+  poolTripId: string,
+  regionId: string,
+  riders: { id: string; surge_multiplier: string | null }[]
+): Promise<void> {
+  const poolPricing = await loadPoolPricing(String(regionId));
+  if (!poolPricing) {
+    logger.warn('No active pool pricing profile; pooled fares left unset', { poolTripId, regionId });
+    return;
+  }
+
+  const trip = await getPoolTrip(poolTripId, client);
+  if (!trip) {
+    return;
+  }
+  const driven = trip.route.filter(stop => stop.status === 'completed');
+  const stopOf = (bookingId: string, stopType: StopType) =>
+    trip.route.find(stop => stop.bookingId === bookingId && stop.stopType === stopType);
+
+  const pooled = riders.flatMap(rider => {
+    const pickup = stopOf(rider.id, 'pickup');
+    const dropoff = stopOf(rider.id, 'dropoff');
+    return pickup && dropoff
+      ? [{ bookingId: rider.id, pickup, dropoff, surgeMultiplier: Number(rider.surge_multiplier) || 1 }]
+      : [];
+  });
+  const shares = splitPooledFare(poolPricing.pricing, poolPricing.caps, pooled, driven);
+
+  for (const share of shares) {
+    await client.query(
+      'UPDATE bookings SET total_fare = $2, updated_at = NOW() WHERE id = $1',
+      [share.bookingId, share.fare]
+    );
+  }
+  await client.query('UPDATE pool_trips SET fare_split = $2 WHERE id = $1', [poolTripId, JSON.stringify(shares)]);
+}
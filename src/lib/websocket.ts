@@ -10,6 +10,7 @@ import { logger } from '@/lib/security/productionLogger';
 
 // Import ridesharing-specific event types and configurations
 import { RidesharingWebSocketEvents, RIDESHARING_EVENT_ROUTING, EventPriority } from '@/types/ridesharing';
+import { BookingStop } from '@/types/fleet';
 
 // Combined WebSocket event types for ridesharing platform
 export interface WebSocketEvents extends RidesharingWebSocketEvents {
@@ -84,6 +85,7 @@ export interface WebSocketEvents extends RidesharingWebSocketEvents {
     oldStatus: string;
     newStatus: string;
     regionId: string;
+    stop?: BookingStop; // set when the update progressed one of the booking's stops
     timestamp: string;
   };
   
@@ -181,12 +183,18 @@ interface AuthenticatedSocket {
   subscriptions: Set<string>;
 }
 
+export type RideOfferResponseHandler = (
+  driverId: string,
+  response: WebSocketEvents['ride:offer_response']
+) => Promise<unknown> | void;
+
 // WebSocket manager for real-time communications
 export class WebSocketManager {
   private io: SocketIOServer;
   private authenticatedSockets: Map<string, AuthenticatedSocket> = new Map();
   private regionSockets: Map<string, Set<string>> = new Map(); // regionId -> socketIds
   private driverSockets: Map<string, string> = new Map(); // driverId -> socketId
+  private rideOfferResponseHandler?: RideOfferResponseHandler;
 
   constructor(httpServer: HTTPServer) {
     this.io = new SocketIOServer(httpServer, {
@@ -279,6 +287,15 @@ export class WebSocketManager {
         }
       });
 
+      // Handle drivers accepting or declining ride offers
+      socket.on('ride:offer_response', (response: WebSocketEvents['ride:offer_response']) => {
+        if (user.userType === 'driver' && this.rideOfferResponseHandler) {
+          Promise.resolve(this.rideOfferResponseHandler(user.userId, response)).catch(error => {
+            logger.error('Error handling ride offer response', error instanceof Error ? error.message : error);
+          });
+        }
+      });
+
       // Handle emergency signals
       socket.on('emergency:trigger', (emergencyData) => {
         this.handleEmergencyTrigger(user, emergencyData);
@@ -1269,6 +1286,68 @@ export class WebSocketManager {
     this.broadcastToRegion(matchData.regionId, 'ride:matched', event);
   }
 
+  // Register who decides on offer responses sent over the socket (the matching engine)
+  onRideOfferResponse(handler: RideOfferResponseHandler): void {
+    this.rideOfferResponseHandler = handler;
+  }
+
+  // Time-boxed ride offer to one driver. Returns false when the driver is not connected.
+  sendRideOffer(offer: Omit<WebSocketEvents['ride:offer'], 'timestamp'>): boolean {
+    const socketId = this.driverSockets.get(offer.driverId);
+    const socket = socketId ? this.io.sockets.sockets.get(socketId) : undefined;
+    if (!socket) {
+      return false;
+    }
+
+    socket.emit('ride:offer', { ...offer, timestamp: new Date().toISOString() });
+    return true;
+  }
+
+  closeRideOffer(closed: Omit<WebSocketEvents['ride:offer_closed'], 'timestamp'>): void {
+    const socketId = this.driverSockets.get(closed.driverId);
+    const socket = socketId ? this.io.sockets.sockets.get(socketId) : undefined;
+    socket?.emit('ride:offer_closed', { ...closed, timestamp: new Date().toISOString() });
+  }
+
+  // Offer outcomes for dispatchers in the booking's region
+  broadcastRideOfferStatus(status: Omit<WebSocketEvents['ride:offer_status'], 'timestamp'>): void {
+    this.broadcastToRegion(status.regionId, 'ride:offer_status', {
+      ...status,
+      timestamp: new Date().toISOString()
+    });
+  }
+
+  // Scheduled pickup reminder to the rider or driver. Returns false when they are not connected.
+  sendScheduledRideReminder(
+    recipientId: string,
+    reminder: Omit<WebSocketEvents['ride:scheduled_reminder'], 'timestamp'>
+  ): boolean {
+    let socketId = reminder.recipient === 'driver' ? this.driverSockets.get(recipientId) : undefined;
+    if (reminder.recipient === 'rider') {
+      socketId = Array.from(this.authenticatedSockets)
+        .find(([, authSocket]) => authSocket.user.userId === recipientId)?.[0];
+    }
+    const socket = socketId ? this.io.sockets.sockets.get(socketId) : undefined;
+    if (!socket) {
+      return false;
+    }
+
+    socket.emit('ride:scheduled_reminder', { ...reminder, timestamp: new Date().toISOString() });
+    return true;
+  }
+
+  // Reservation changes go to dispatchers in the region and to the drivers gaining or losing the ride
+  broadcastScheduledRideStatus(status: Omit<WebSocketEvents['ride:scheduled_status'], 'timestamp'>): void {
+    const event = { ...status, timestamp: new Date().toISOString() };
+    this.broadcastToRegion(status.regionId, 'ride:scheduled_status', event);
+    if (status.driverId) {
+      this.sendToDriver(status.driverId, 'ride:scheduled_status', event);
+    }
+    if (status.previousDriverId) {
+      this.sendToDriver(status.previousDriverId, 'ride:scheduled_status', event);
+    }
+  }
+
   // Enhanced surge pricing broadcasts with zone-based targeting
   broadcastSurgeActivated(surgeData: WebSocketEvents['surge:activated']): void {
     const event: WebSocketEvents['surge:activated'] = {
@@ -4,7 +4,13 @@
 import { createServer } from 'http';
 import next from 'next';
 import { initializeDatabase, closeDatabaseConnection } from './lib/database';
+import { dunningScheduler } from './lib/dunningScheduler';
+import { surgeEngine } from './lib/pricing/surgeEngine';
+import { surgeSignalAggregator } from './lib/pricing/surgeSignalAggregator';
 import { initializeRedis, closeRedisConnection } from './lib/redis';
+import { scheduledRideDispatcher } from './lib/scheduledRides';
+import { settlementScheduler } from './lib/settlementScheduler';
+import { tripBreadcrumbRecorder } from './lib/tripBreadcrumbRecorder';
 import { initializeWebSocketServer } from './lib/websocket';
 import { locationScheduler } from './lib/locationScheduler';
 import { connectionHealthMonitor } from './lib/connectionHealthMonitor';
@@ -128,10 +134,35 @@ class XpressOpsServer {
       metricsCollector.start();
       logger.info('✅ Metrics collection active');
 
-      // 9. Setup server monitoring
+      // 9. Start dunning scheduler
+      logger.info('🧾 Starting dunning scheduler...');
+      dunningScheduler.start();
+      logger.info('✅ Dunning scheduler active');
+
+      // 10. Start driver settlement scheduler
+      logger.info('💸 Starting driver settlement scheduler...');
+      settlementScheduler.start();
+      logger.info('✅ Driver settlement scheduler active');
+
+      // 11. Start scheduled ride dispatcher
+      logger.info('🗓️ Starting scheduled ride dispatcher...');
+      scheduledRideDispatcher.start();
+      logger.info('✅ Scheduled ride dispatcher active');
+
+      // 12. Start trip breadcrumb retention purge
+      logger.info('🧭 Starting trip breadcrumb purge...');
+      tripBreadcrumbRecorder.start();
+      logger.info('✅ Trip breadcrumb purge scheduled');
+
+      // 13. Start surge engine
+      logger.info('📈 Starting surge engine...');
+      surgeEngine.start();
+      logger.info('✅ Surge engine active');
+
+      // 14. Setup server monitoring
       this.setupMonitoring();
 
-      // 10. Setup graceful shutdown
+      // 15. Setup graceful shutdown
       this.setupGracefulShutdown();
 
       logger.info('🎯 All systems initialized successfully!');
@@ -232,9 +263,17 @@ class XpressOpsServer {
         logger.info('📊 Stopping metrics collection...');
         metricsCollector.stop();
 
-        // 4. Stop location scheduler
+        // 4. Stop location, dunning, settlement, scheduled ride and surge schedulers
         logger.info('📍 Stopping location scheduler...');
         locationScheduler.stop();
+        dunningScheduler.stop();
+        settlementScheduler.stop();
+        scheduledRideDispatcher.stop();
+        surgeEngine.stop();
+
+        // Write out buffered trip breadcrumbs and surge signals while the database is still up
+        await tripBreadcrumbRecorder.stop();
+        await surgeSignalAggregator.stop();
 
         // 5. Close WebSocket connections
         logger.info('🔌 Closing WebSocket connections...');
@@ -44,6 +44,9 @@ export interface Invoice extends BaseEntity {
   taxAmount: number;
   discountAmount: number;
   totalAmount: number;
+  lateFeeAmount?: number;          // Assessed under the payment terms after the grace period
+  earlyPaymentDiscount?: number;   // Granted when settled inside the early-payment window
+  creditAmount?: number;           // Sum of applied credit notes
   amountPaid: number;
   amountDue: number;
 
@@ -52,6 +55,8 @@ export interface Invoice extends BaseEntity {
 
   // Status and metadata
   status: InvoiceStatus;
+  source?: 'billing_run' | 'manual';
+  subscriptionId?: string;
   notes?: string;
   paymentTermsId?: string;
   termsAndConditions?: string;
@@ -102,12 +107,14 @@ export type CorporateAccountStatus =
 
 export interface AuthorizedBooker {
   id: string;
+  customerId?: string;       // Rider whose completed bookings are billed to the account
   name: string;
   email: string;
   phone: string;
   role: string;
   isActive: boolean;
   addedDate: string;
+  suspendedAt?: string;      // Set while the account is suspended by dunning
 }
 
 export interface BillingAddress {
@@ -138,10 +145,14 @@ export interface CorporateAccount extends BaseEntity {
 
   // Status
   status: CorporateAccountStatus;
+  suspendedAt?: string;
+  suspensionReason?: 'dunning' | 'manual';
+  dunningOverride?: DunningOverride;
 
   // Relationships
   paymentTermsId?: string;
   subscriptionId?: string;
+  dunningPolicyId?: string;
   authorizedBookers: AuthorizedBooker[];
 
   // Accounting
@@ -253,6 +264,70 @@ export interface PaymentTerms extends BaseEntity {
   termsAndConditions?: string;
 }
 
+// ============================================================================
+// DUNNING TYPES
+// ============================================================================
+
+export type DunningChannel = 'email' | 'sms';
+
+export type DunningTemplate =
+  | 'upcoming'       // Courtesy notice before the due date
+  | 'due'            // Due today
+  | 'overdue'        // Past the grace period
+  | 'final_notice'   // Last reminder before suspension
+  | 'suspended'      // Account suspended for non-payment
+  | 'reactivated';   // Suspension lifted
+
+export interface DunningReminderStep {
+  key: string;
+  dayOffset: number;            // Days relative to the due date; negative is before it
+  channels: DunningChannel[];
+  template: Exclude<DunningTemplate, 'suspended' | 'reactivated'>;
+}
+
+export interface DunningPolicy extends BaseEntity {
+  name: string;
+  description?: string;
+  reminderSteps: DunningReminderStep[];
+  suspendAfterDaysOverdue?: number;   // Days past due; unset never suspends
+  suspendMinOverdueAmount: number;    // Overdue balance that must also be reached
+  isDefault: boolean;
+  isActive: boolean;
+}
+
+/** Account-manager exemption from automatic suspension. */
+export interface DunningOverride {
+  until: string;
+  reason: string;
+  setBy: string;
+}
+
+export interface DunningNotice {
+  id: string;
+  invoiceId?: string;
+  accountId: string;
+  stepKey: string;
+  template: DunningTemplate;
+  channel: DunningChannel;
+  recipient: string;
+  status: 'sent' | 'failed' | 'skipped';
+  providerMessageId?: string;
+  error?: string;
+  createdAt: string;
+}
+
+export interface DunningRunResult {
+  id: string;
+  asOf: string;
+  invoicesMarkedOverdue: number;
+  lateFeesAssessed: number;
+  totalLateFees: number;
+  remindersSent: number;
+  remindersFailed: number;
+  accountsSuspended: string[];
+  accountsReactivated: string[];
+}
+
 // ============================================================================
 // RECONCILIATION TYPES
 // ============================================================================
@@ -278,6 +353,14 @@ export interface UnreconciledTransaction {
   notes?: string;
   reconciledBy?: string;
   reconciledAt?: string;
+
+  // Statement matching detail
+  statementId?: string;
+  lineNumber?: number | null;
+  providerReference?: string;
+  matchMethod?: ReconciliationMatchMethod;
+  discrepancyReason?: ReconciliationDiscrepancyReason;
+  auditTrail?: ReconciliationAuditEntry[];
 }
 
 export interface ReconciliationStats {
@@ -289,6 +372,66 @@ export interface ReconciliationStats {
   pendingReview: number;
 }
 
+export type StatementProvider = 'gcash' | 'paymaya' | 'bank';
+
+export type ReconciliationMatchMethod =
+  | 'reference'      // provider or merchant reference on the statement line
+  | 'amount_date'    // unique amount within the date tolerance
+  | 'manual';
+
+export type ReconciliationDiscrepancyReason =
+  | 'amount_mismatch'
+  | 'unknown_transaction'
+  | 'missing_from_statement'
+  | 'duplicate_statement_line'
+  | 'ambiguous_match'
+  | 'status_mismatch'  // settled by the provider but not completed on our side
+  | 'manual';         // flagged by an operator, reason in notes
+
+export type ReconciliationAuditAction =
+  | 'auto_matched'
+  | 'manual_matched'
+  | 'reconciled'
+  | 'marked_discrepancy'
+  | 'disputed'
+  | 'unmatched';
+
+export interface ReconciliationAuditEntry {
+  id: string;
+  action: ReconciliationAuditAction;
+  fromStatus: ReconciliationStatus | null;
+  toStatus: ReconciliationStatus;
+  transactionId?: string;
+  actorId: string;
+  notes?: string;
+  createdAt: string;
+}
+
+/** One settled payment parsed from a provider statement file. */
+export interface StatementLine {
+  lineNumber: number;
+  transactionDate: string;
+  providerReference?: string;
+  merchantReference?: string;
+  payerName?: string;
+  amount: number;
+  fee: number;
+}
+
+export interface ReconciliationStatement {
+  id: string;
+  provider: StatementProvider;
+  fileName: string;
+  periodStart?: string;
+  periodEnd?: string;
+  lineCount: number;
+  skippedCount: number;
+  statementTotal: number;
+  uploadedBy: string;
+  createdAt: string;
+  statusCounts?: Partial<Record<ReconciliationStatus, number>>;
+}
+
 // ============================================================================
 // ACTIVITY AND HISTORY TYPES
 // ============================================================================
@@ -301,7 +444,9 @@ export type InvoiceActivityType =
   | 'reminder_sent'
   | 'voided'
   | 'note_added'
-  | 'status_changed';
+  | 'status_changed'
+  | 'credit_note_applied'
+  | 'late_fee_assessed';
 
 export interface InvoiceActivity {
   id: string;
@@ -323,6 +468,7 @@ export interface PaymentHistory {
   referenceNumber?: string;
   notes?: string;
   recordedBy: string;
+  receiptNumber?: string;    // Official receipt serial (OR series)
 }
 
 export interface CreditNote extends BaseEntity {
@@ -336,6 +482,71 @@ export interface CreditNote extends BaseEntity {
   appliedDate?: string;
 }
 
+export interface CreateCreditNoteRequest {
+  amount: number;
+  reason: string;
+}
+
+export interface RecordInvoicePaymentRequest {
+  amount: number;
+  paymentDate: string;
+  paymentMethod: string;
+  referenceNumber?: string;
+  notes?: string;
+}
+
+// ============================================================================
+// DOCUMENT TYPES
+// ============================================================================
+
+export type BillingDocumentType = 'invoice' | 'official_receipt';
+
+/** A rendered document as stored; content is served from the download route. */
+export interface BillingDocument {
+  id: string;
+  documentType: BillingDocumentType;
+  documentNumber: string;
+  invoiceId: string;
+  paymentId?: string;
+  fileName: string;
+  contentType: string;
+  sha256: string;
+  byteSize: number;
+  downloadUrl: string;
+  generatedBy: string;
+  createdAt: string;
+}
+
+// ============================================================================
+// BILLING RUN TYPES
+// ============================================================================
+
+export type BillingRunSkipReason =
+  | 'already_invoiced'   // A live invoice exists for the account and period
+  | 'nothing_to_bill';   // No trips, base fee or minimum commitment
+
+export interface BillingRunAccountOutcome {
+  accountId: string;
+  companyName: string;
+  invoiceId?: string;
+  invoiceNumber?: string;
+  tripCount: number;
+  totalAmount: number;
+  skipped?: BillingRunSkipReason;
+}
+
+export interface BillingRunResult {
+  id: string;
+  periodStart: string;
+  periodEnd: string;
+  issueDate: string;
+  invoicesCreated: number;
+  accountsSkipped: number;
+  tripsBilled: number;
+  totalBilled: number;
+  accounts: BillingRunAccountOutcome[];
+}
+
 // ============================================================================
 // API REQUEST/RESPONSE TYPES
 // ============================================================================
@@ -366,6 +577,11 @@ export interface CreateAccountRequest {
   creditLimit: number;
   paymentTermsId?: string;
   subscriptionId?: string;
+  taxId?: string;
+  registrationNumber?: string;
+  autoInvoicing?: boolean;
+  invoiceFrequency?: 'weekly' | 'monthly' | 'quarterly';
+  authorizedBookers?: (Omit<AuthorizedBooker, 'id' | 'isActive' | 'addedDate'> & { customerId: string })[];
 }
 
 export interface CreateSubscriptionRequest {
@@ -377,6 +593,10 @@ export interface CreateSubscriptionRequest {
   monthlyMinimum?: number;
   baseFee?: number;
   autoRenew: boolean;
+  endDate?: string;
+  includedRides?: number;
+  discountPercentage?: number;
+  volumeDiscountTiers?: Subscription['volumeDiscountTiers'];
 }
 
 export interface BulkInvoiceAction {
@@ -0,0 +1,135 @@
+// Driver Bond Types for XpressOps2026
+// Bonds held in ledger account 2200, collected up front or through settlement deductions
+
+export type BondStatus = 'collecting' | 'active' | 'released' | 'forfeited';
+
+export type BondCollectionMethod = 'lump_sum' | 'installments';
+
+export type BondRefundStatus = 'pending_approval' | 'released' | 'rejected' | 'cancelled';
+
+export type BondEventType =
+  | 'created'
+  | 'deposit'
+  | 'installment'
+  | 'forfeiture'
+  | 'refund_requested'
+  | 'refund_released'
+  | 'refund_rejected'
+  | 'refund_cancelled';
+
+export type BondForfeitReason =
+  | 'vehicle_damage'
+  | 'unreturned_equipment'
+  | 'fraud'
+  | 'policy_violation'
+  | 'unpaid_obligations'
+  | 'other';
+
+// Reasons that describe something that happened on the road must point at the incident record
+export const BOND_FORFEIT_REASONS: Record<BondForfeitReason, { label: string; requiresIncident: boolean }> = {
+  vehicle_damage: { label: 'Vehicle damage', requiresIncident: true },
+  unreturned_equipment: { label: 'Unreturned equipment', requiresIncident: false },
+  fraud: { label: 'Fraud', requiresIncident: true },
+  policy_violation: { label: 'Policy violation', requiresIncident: true },
+  unpaid_obligations: { label: 'Unpaid obligations', requiresIncident: false },
+  other: { label: 'Other', requiresIncident: false },
+};
+
+export interface DriverBond {
+  id: string;
+  reference: string;
+  driverId: string;
+  driverName?: string;
+  status: BondStatus;
+  collectionMethod: BondCollectionMethod;
+  requiredAmount: number;
+  collectedAmount: number;
+  forfeitedAmount: number;
+  refundedAmount: number;
+  heldAmount: number;                  // collected less forfeited and refunded: the driver's balance in 2200
+  installmentAmount?: number | null;
+  recurringDeductionId?: string | null;
+  depositedAt?: string | null;
+  releasedAt?: string | null;
+  notes?: string | null;
+  latestRefundStatus?: BondRefundStatus | null;
+  latestForfeitReason?: BondForfeitReason | null;
+  createdBy: string;
+  events?: BondEvent[];
+  refunds?: BondRefund[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface BondEvent {
+  id: string;
+  eventType: BondEventType;
+  amount: number;
+  reasonCode?: BondForfeitReason | null;
+  incidentId?: string | null;
+  journalId?: string | null;
+  settlementId?: string | null;
+  actorId: string;
+  note?: string | null;
+  createdAt: string;
+}
+
+export interface BondRefund {
+  id: string;
+  bondId: string;
+  driverId: string;
+  amount: number;
+  status: BondRefundStatus;
+  approvalRequestId?: string | null;
+  justification: string;
+  requestedBy: string;
+  decidedBy?: string | null;
+  decidedAt?: string | null;
+  decisionNote?: string | null;
+  journalId?: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface BondFilters {
+  driverId?: string;
+  status?: BondStatus;
+  page: number;
+  limit: number;
+}
+
+export interface CreateBondRequest {
+  driverId: string;
+  requiredAmount: number;
+  collectionMethod: BondCollectionMethod;
+  installmentAmount?: number;          // taken from each daily settlement when collecting by installments
+  notes?: string;
+}
+
+export interface BondDepositRequest {
+  amount: number;
+  paymentReference?: string;
+}
+
+export interface BondForfeitRequest {
+  amount: number;
+  reasonCode: BondForfeitReason;
+  incidentId?: string;                 // incident id or incident code
+  note: string;
+}
+
+// A driver whose bond records and 2200 ledger balance disagree
+export interface BondReconciliationLine {
+  driverId: string;
+  driverName?: string;
+  bondHeld: number;
+  ledgerHeld: number;
+  difference: number;
+}
+
+export interface BondReconciliationResult {
+  totalBondHeld: number;
+  totalLedgerHeld: number;
+  driversChecked: number;
+  mismatches: BondReconciliationLine[];
+}
@@ -0,0 +1,155 @@
+// Cancellation Policy Types for XpressOps2026
+// Regional cancellation and no-show policies and the charges they produce
+
+export type CancellingParty = 'rider' | 'driver' | 'operator';
+
+/**
+ * How a cancellation was priced:
+ * free           - no driver was committed yet, or an operator cancelled
+ * grace          - rider cancelled within the grace window after the driver accepted
+ * driver_late    - rider cancelled because the driver was late against the pickup ETA
+ * fee            - rider pays a cancellation fee, part of which compensates the driver
+ * driver_penalty - driver cancelled and pays a penalty out of their earnings
+ * no_show        - rider never showed up after the driver waited at the pickup
+ * waived         - cancelled for a safety reason, nobody is charged
+ */
+export type CancellationOutcome =
+  | 'free'
+  | 'grace'
+  | 'driver_late'
+  | 'fee'
+  | 'driver_penalty'
+  | 'no_show'
+  | 'waived';
+
+export type CancellationChargeStatus = 'pending' | 'posting' | 'posted' | 'waiving' | 'waived' | 'failed';
+
+export type CancellationCollectionMethod = 'prepaid' | 'receivable';
+
+// Cancellation reasons that never cost the rider or the driver anything
+export const SAFETY_CANCELLATION_REASONS = [
+  'safety_concern',
+  'unsafe_driving',
+  'unsafe_vehicle',
+  'unsafe_passenger',
+  'harassment',
+  'medical_emergency',
+  'sos_triggered'
+] as const;
+
+// Ride statuses a fee rule can be attached to
+export const CANCELLABLE_STATUSES = ['assigned', 'accepted', 'en_route', 'arrived', 'in_progress'] as const;
+
+export type CancellableStatus = typeof CANCELLABLE_STATUSES[number];
+
+export interface CancellationFeeRule {
+  cancelledBy: 'rider' | 'driver';
+  fromStatus: CancellableStatus;
+  fee: number;                         // PHP, paid by whoever cancelled
+  driverCompensation: number;          // PHP out of a rider's fee; always 0 on driver rules
+}
+
+export interface CancellationPolicy {
+  id: string;
+  name: string;
+  regionId?: string | null;            // null applies to every region
+  serviceType?: string | null;         // null applies to every service
+  riderGraceSeconds: number;
+  driverLateGraceMinutes: number;
+  noShowWaitMinutes: number;
+  noShowFee: number;
+  noShowDriverCompensation: number;
+  feeRules: CancellationFeeRule[];
+  isActive: boolean;
+  createdBy: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CancellationPolicyFilters {
+  regionId?: string;
+  serviceType?: string;
+  isActive?: boolean;
+}
+
+export interface CreateCancellationPolicyRequest {
+  name: string;
+  regionId?: string | null;
+  serviceType?: string | null;
+  riderGraceSeconds?: number;
+  driverLateGraceMinutes?: number;
+  noShowWaitMinutes?: number;
+  noShowFee?: number;
+  noShowDriverCompensation?: number;
+  feeRules?: CancellationFeeRule[];
+}
+
+// A policy's scope is fixed; a different region or service gets its own policy
+export type UpdateCancellationPolicyRequest =
+  Partial<Omit<CreateCancellationPolicyRequest, 'regionId' | 'serviceType'>> & { isActive?: boolean };
+
+// The booking as it stood when it was cancelled
+export interface CancellationContext {
+  cancelledBy: CancellingParty;
+  fromStatus: string;
+  noShow: boolean;
+  reason?: string | null;
+  assignedAt?: string | null;
+  acceptedAt?: string | null;
+  arrivedAt?: string | null;
+  estimatedPickupTime?: string | null;
+  now: Date;
+}
+
+export interface CancellationAssessment {
+  outcome: CancellationOutcome;
+  policyId: string | null;
+  riderFee: number;
+  driverCompensation: number;
+  driverPenalty: number;
+  // Until when a rider cancels free, and from when a driver may end the ride as a no-show
+  graceEndsAt?: string | null;
+  noShowAvailableAt?: string | null;
+}
+
+export interface CancellationCharge {
+  id: string;
+  chargeReference: string;
+  bookingId: string;
+  policyId?: string | null;
+  regionId: string;
+  customerId: string;
+  driverId?: string | null;
+  cancelledBy: CancellingParty;
+  fromStatus: string;
+  reason?: string | null;
+  outcome: CancellationOutcome;
+  riderFee: number;
+  driverCompensation: number;
+  driverPenalty: number;
+  status: CancellationChargeStatus;
+  collectionMethod?: CancellationCollectionMethod | null;
+  paymentTransactionId?: string | null;
+  refundId?: string | null;
+  journalId?: string | null;
+  waiverJournalId?: string | null;
+  waiverRefundId?: string | null;
+  waiverReason?: string | null;
+  waivedBy?: string | null;
+  failureReason?: string | null;
+  cancelledAt: string;
+  postedAt?: string | null;
+  waivedAt?: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CancellationChargeFilters {
+  status?: CancellationChargeStatus;
+  outcome?: CancellationOutcome;
+  regionId?: string;
+  customerId?: string;
+  driverId?: string;
+  page: number;
+  limit: number;
+}
@@ -0,0 +1,114 @@
+// Emergency Coordinator Types for XpressOps2026
+// The roster of operators who coordinate emergency responses, their shifts and their caseload
+
+export type CoordinatorRole = 'operator' | 'supervisor' | 'emergency_coordinator';
+
+export const COORDINATOR_SPECIALIZATIONS = [
+  'general',
+  'medical',
+  'police',
+  'security',
+  'fire',
+  'rescue',
+  'traffic'
+] as const;
+
+export type CoordinatorSpecialization = typeof COORDINATOR_SPECIALIZATIONS[number];
+
+export interface EmergencyCoordinator {
+  id: string;
+  userId?: string | null;              // operator account, lets coordinators clock themselves in
+  name: string;
+  role: CoordinatorRole;
+  contactNumber: string;
+  regionId?: string | null;            // null covers every region
+  specializations: CoordinatorSpecialization[];
+  maxCapacity: number;                 // open emergency responses at once
+  isActive: boolean;
+  onDuty: boolean;
+  currentShiftId?: string | null;
+  currentLoad: number;
+  createdBy: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CoordinatorFilters {
+  regionId?: string;
+  onDuty?: boolean;
+  isActive?: boolean;
+}
+
+export interface CreateCoordinatorRequest {
+  userId?: string | null;
+  name: string;
+  role?: CoordinatorRole;
+  contactNumber: string;
+  regionId?: string | null;
+  specializations?: CoordinatorSpecialization[];
+  maxCapacity?: number;
+}
+
+export type UpdateCoordinatorRequest =
+  Partial<Omit<CreateCoordinatorRequest, 'userId'>> & { isActive?: boolean };
+
+/**
+ * scheduled - planned, not clocked in yet
+ * on_duty   - clocked in; the coordinator receives new responses
+ * completed - clocked out, or closed automatically once past its end
+ * cancelled - called off before it started
+ */
+export type CoordinatorShiftStatus = 'scheduled' | 'on_duty' | 'completed' | 'cancelled';
+
+export interface CoordinatorShift {
+  id: string;
+  coordinatorId: string;
+  startsAt: string;
+  endsAt: string;
+  status: CoordinatorShiftStatus;
+  clockedInAt?: string | null;
+  clockedOutAt?: string | null;
+  handoverNotes?: string | null;
+  createdBy: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type AssignmentReleaseReason = 'completed' | 'handover' | 'off_shift';
+
+export interface CoordinatorAssignment {
+  id: string;
+  responseId: string;
+  sosAlertId: string;
+  coordinatorId: string;
+  regionId?: string | null;
+  specialization: CoordinatorSpecialization;
+  assignedAt: string;
+  assignedBy: string;
+  releasedAt?: string | null;
+  releaseReason?: AssignmentReleaseReason | null;
+  handoverNotes?: string | null;
+  previousAssignmentId?: string | null;
+}
+
+// What to look for when a response needs a coordinator
+export interface CoordinatorAssignmentRequest {
+  responseId: string;
+  sosAlertId: string;
+  regionId?: string | null;
+  specialization: CoordinatorSpecialization;
+  assignedBy: string;
+  excludeCoordinatorIds?: string[];
+  previousAssignmentId?: string | null;
+  handoverNotes?: string | null;
+}
+
+// A response moved off a coordinator; `to` is null when nobody on duty could take it
+export interface CoordinatorHandover {
+  responseId: string;
+  sosAlertId: string;
+  fromCoordinatorId: string;
+  to: EmergencyCoordinator | null;
+  reason: AssignmentReleaseReason;
+  handoverNotes?: string | null;
+}
@@ -0,0 +1,154 @@
+// Fare Quote Types for XpressOps2026
+// Upfront fare quotes, the tolerance policies they are reconciled under, and quote vs. final reporting
+
+import type { ComplianceCaps, FareBreakdown, FareBreakdownLine, ProfilePricing } from '@/lib/pricing/fareEngine';
+
+/**
+ * Where a quote is in its life:
+ * issued     - priced and handed to the rider; bookable until it expires
+ * booked     - claimed by exactly one booking
+ * reconciled - the booking completed and its final fare was settled against the quote
+ */
+export type FareQuoteStatus = 'issued' | 'booked' | 'reconciled';
+
+/**
+ * How a quoted booking was charged:
+ * honoured - the trip stayed within tolerance (or repricing would only have cost more than
+ *            the policy allows), so the rider paid the quote plus actual tolls
+ * repriced - the trip strayed past tolerance and was priced from its actual distance and time
+ */
+export type QuoteOutcome = 'honoured' | 'repriced';
+
+export interface QuotePoint {
+  latitude: number;
+  longitude: number;
+}
+
+export interface FareQuotePolicy {
+  id: string;
+  regionId?: string | null;            // null applies to every region
+  serviceKey?: string | null;          // null applies to every pricing service
+  quoteTtlSeconds: number;
+  distanceTolerancePct: number;
+  durationTolerancePct: number | null; // null never reprices on time alone
+  allowIncrease: boolean;
+  isActive: boolean;
+  updatedBy: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Applied when no policy row covers a quote
+export const DEFAULT_QUOTE_POLICY: Pick<
+  FareQuotePolicy,
+  'quoteTtlSeconds' | 'distanceTolerancePct' | 'durationTolerancePct' | 'allowIncrease'
+> = {
+  quoteTtlSeconds: 300,
+  distanceTolerancePct: 20,
+  durationTolerancePct: null,
+  allowIncrease: true
+};
+
+// Replaces the active policy for a scope; the previous one is kept, inactive, for quotes issued under it
+export interface SetFareQuotePolicyRequest {
+  regionId?: string | null;
+  serviceKey?: string | null;
+  quoteTtlSeconds?: number;
+  distanceTolerancePct?: number;
+  durationTolerancePct?: number | null;
+  allowIncrease?: boolean;
+}
+
+export interface IssueFareQuoteRequest {
+  regionId: string;                    // pricing region, e.g. 'NCR'
+  serviceType: 'ride_4w' | 'ride_2w' | 'ride_pool';
+  customerId?: string;
+  pickup: QuotePoint;
+  dropoff: QuotePoint;
+  stops?: QuotePoint[];
+  isAirport?: boolean;
+}
+
+// The pricing a quote was issued under, kept so reconciliation prices with exactly the same inputs
+export interface QuotedPricing {
+  pricing: ProfilePricing;
+  caps: ComplianceCaps;
+}
+
+export interface FareQuote {
+  id: string;
+  regionId: string;
+  serviceType: string;
+  serviceKey: string;
+  customerId?: string | null;
+  policyId?: string | null;
+  profileId: number;
+  profileVersion: string;
+  pricing: QuotedPricing;
+  surgeMultiplier: number;
+  surgeAdditiveFee: number;
+  surgeRule?: string | null;
+  route: QuotePoint[];
+  estimatedDistanceKm: number;
+  estimatedDurationMin: number;
+  isAirport: boolean;
+  breakdown: FareBreakdownLine[];
+  total: number;
+  status: FareQuoteStatus;
+  expiresAt: string;
+  bookingId?: string | null;
+  bookedAt?: string | null;
+  actualDistanceKm?: number | null;
+  actualDurationMin?: number | null;
+  distanceDeviationPct?: number | null;
+  durationDeviationPct?: number | null;
+  outcome?: QuoteOutcome | null;
+  finalFare?: number | null;
+  fareDelta?: number | null;
+  reconciledAt?: string | null;
+  createdAt: string;
+}
+
+// What the rider gets back; quoteId is the signed token they book with
+export interface IssuedFareQuote {
+  quoteId: string;
+  expiresAt: string;
+  total: number;
+  surgeMultiplier: number;
+  estimatedDistanceKm: number;
+  estimatedDurationMin: number;
+  profileVersion: string;
+  lines: Pick<FareBreakdownLine, 'key' | 'label' | 'amount' | 'meta'>[];
+}
+
+export interface QuoteReconciliation {
+  outcome: QuoteOutcome;
+  distanceDeviationPct: number;
+  durationDeviationPct: number;
+  quotedFare: FareBreakdown;           // the quote with the trip's actual tolls
+  repricedFare: FareBreakdown;         // the same pricing from actual distance and time
+  finalFare: FareBreakdown;            // the one charged
+  fareDelta: number;                   // final less quoted; tolls cancel out
+}
+
+export interface FareQuoteReportFilters {
+  from: string;
+  to: string;
+  regionId?: string;
+  serviceKey?: string;
+}
+
+export interface FareQuoteReportRow {
+  regionId: string;
+  serviceKey: string;
+  issued: number;
+  booked: number;
+  reconciled: number;
+  honoured: number;
+  repriced: number;
+  quotedTotal: number;                 // over reconciled quotes
+  finalTotal: number;
+  totalDelta: number;
+  averageDelta: number;
+  averageAbsDeltaPct: number;
+}
@@ -10,6 +10,7 @@ import { BaseEntity, Location } from './common';
 export type ServiceType = 
   | 'ride_4w'      // 4-wheel ride service
   | 'ride_2w'      // 2-wheel ride service  
+  | 'ride_pool'    // Shared 4-wheel ride, riders pooled on one trip
   | 'send_delivery' // Package delivery
   | 'eats_delivery' // Food delivery
   | 'mart_delivery'; // Grocery delivery
@@ -281,6 +282,7 @@ export interface Booking extends BaseEntity {
   
   // Timeline tracking
   requestedAt: Date;
+  scheduledPickupTime?: Date; // future pickups are held by the scheduled ride dispatcher
   estimatedPickupTime?: Date;
   actualPickupTime?: Date;
   estimatedCompletionTime?: Date;
@@ -290,6 +292,70 @@ export interface Booking extends BaseEntity {
   // Quality metrics
   customerRating?: number; // 1-5
   driverRating?: number; // 1-5
+
+  // Pooling and multi-stop
+  poolTripId?: string;
+  seats?: number;
+  stops?: BookingStop[];
+}
+
+export type StopType = 'pickup' | 'waypoint' | 'dropoff';
+
+export type StopStatus = 'pending' | 'arrived' | 'completed' | 'skipped';
+
+// One stop of a booking; pickup first, dropoff last, waypoints in between
+export interface BookingStop {
+  id: string;
+  bookingId: string;
+  sequence: number; // order within the booking
+  routeSequence?: number; // order in the driver's route, which interleaves pooled bookings
+  stopType: StopType;
+  latitude: number;
+  longitude: number;
+  address: string;
+  status: StopStatus;
+  arrivedAt?: string;
+  completedAt?: string;
+}
+
+export interface PoolTrip {
+  id: string;
+  driverId: string;
+  regionId: string;
+  status: 'active' | 'completed' | 'cancelled';
+  seatCapacity: number;
+  routeVersion: number;
+  bookingIds: string[];
+  route: BookingStop[]; // remaining and finished stops in route order
+  fareSplit?: PoolFareShare[];
+}
+
+// A pooled rider's part of the trip fare
+export interface PoolFareShare {
+  bookingId: string;
+  soloFare: number; // what the rider would have paid riding alone
+  fare: number;
+}
+
+export type ScheduledRideStatus = 'scheduled' | 'reserved' | 'dispatched' | 'cancelled' | 'failed';
+
+// A booking for a future pickup and the driver reserved for it
+export interface ScheduledRide {
+  id: string;
+  bookingId: string;
+  bookingReference?: string;
+  regionId: string;
+  serviceType: ServiceType;
+  scheduledPickupTime: string;
+  status: ScheduledRideStatus;
+  reservedDriverId?: string;
+  reservedAt?: string;
+  predictedTravelMinutes?: number;
+  dispatchAt?: string; // when the reserved driver has to set off for the pickup
+  rematchCount: number;
+  lastRematchReason?: string;
+  dispatchedAt?: string;
+  failureReason?: string;
 }
 
 export interface CustomerInfo {
@@ -0,0 +1,225 @@
+// Incident Case Management Types for XpressOps2026
+// Investigated incident cases behind the /incidents pages: parties, evidence, statements,
+// SLA deadlines, outcomes and the audit trail
+
+export const INCIDENT_CASE_TYPES = ['safety', 'driver', 'vehicle', 'financial', 'system'] as const;
+
+export type IncidentCaseType = typeof INCIDENT_CASE_TYPES[number];
+
+export type IncidentPriority = 'critical' | 'high' | 'medium' | 'low';
+
+// Mirrors the incident_status enum
+export type IncidentCaseStatus = 'open' | 'acknowledged' | 'in_progress' | 'escalated' | 'resolved' | 'closed';
+
+export const INVESTIGATION_STAGES = [
+  'not_started',
+  'gathering_evidence',
+  'awaiting_statements',
+  'under_review',
+  'decision_pending'
+] as const;
+
+export type InvestigationStage = typeof INVESTIGATION_STAGES[number];
+
+/**
+ * no_action    - the report held up but needs nothing from the driver
+ * unfounded    - the report did not hold up; counts as a false alarm on the safety profile
+ * coaching     - driver gets coaching, no formal record
+ * warning      - formal warning on the driver's record
+ * suspension   - driver suspended until a date
+ * deactivation - driver removed from the platform
+ */
+export const INCIDENT_OUTCOME_CODES = [
+  'no_action',
+  'unfounded',
+  'coaching',
+  'warning',
+  'suspension',
+  'deactivation'
+] as const;
+
+export type IncidentOutcomeCode = typeof INCIDENT_OUTCOME_CODES[number];
+
+// Outcomes that go on the driver's record and count as violations on the safety profile
+export const DRIVER_VIOLATION_OUTCOMES: IncidentOutcomeCode[] = ['warning', 'suspension', 'deactivation'];
+
+export const INCIDENT_EVIDENCE_TYPES = ['photo', 'video', 'audio', 'document', 'dashcam_footage', 'gps_trace'] as const;
+
+export type IncidentEvidenceType = typeof INCIDENT_EVIDENCE_TYPES[number];
+
+export const STATEMENT_PARTY_TYPES = ['driver', 'passenger', 'customer', 'witness', 'operator', 'third_party'] as const;
+
+export type StatementPartyType = typeof STATEMENT_PARTY_TYPES[number];
+
+export type IncidentAuditAction =
+  | 'created'
+  | 'acknowledged'
+  | 'assigned'
+  | 'stage_changed'
+  | 'escalated'
+  | 'evidence_added'
+  | 'statement_added'
+  | 'closed'
+  | 'driver_status_changed';
+
+// SLA targets in minutes per priority, the same ones the /incidents pages count down
+export const INCIDENT_SLA_MINUTES: Record<
+  IncidentPriority,
+  { response: number; investigation: number; closure: number }
+> = {
+  critical: { response: 5, investigation: 120, closure: 10080 },
+  high: { response: 15, investigation: 240, closure: 20160 },
+  medium: { response: 60, investigation: 1440, closure: 43200 },
+  low: { response: 240, investigation: 4320, closure: 86400 }
+};
+
+export type IncidentSLATimer = 'response' | 'investigation' | 'closure';
+
+export interface IncidentSLA {
+  responseDueAt: string;
+  investigationDueAt: string;
+  closureDueAt: string;
+  breached: IncidentSLATimer[];        // deadlines missed, or passed while still pending
+  nextDueAt?: string | null;           // earliest deadline still pending
+}
+
+export interface IncidentClosureChecklistItem {
+  id: string;
+  label: string;
+  required: boolean;
+  completed: boolean;
+  notes?: string;
+}
+
+export interface IncidentCase {
+  id: string;
+  incidentCode: string;
+  type: IncidentCaseType;
+  priority: IncidentPriority;
+  status: IncidentCaseStatus;
+  title: string;
+  description: string;
+
+  reporter: { type: string; id: string; contact?: string | null };
+  driverId?: string | null;
+  bookingId?: string | null;
+  sosAlertId?: string | null;
+  vehicleId?: string | null;
+  customerId?: string | null;
+
+  location?: { latitude: number; longitude: number; address?: string | null } | null;
+  regionId?: string | null;
+
+  assignedTo?: string | null;
+  assignedAt?: string | null;
+  investigationStage: InvestigationStage;
+  investigationStartedAt?: string | null;
+
+  acknowledgedAt?: string | null;
+  acknowledgedBy?: string | null;
+  escalatedAt?: string | null;
+  escalatedTo?: string | null;
+  externalReference?: string | null;
+
+  slaResponseDueAt: string;
+  slaInvestigationDueAt: string;
+  slaClosureDueAt: string;
+
+  outcomeCode?: IncidentOutcomeCode | null;
+  suspendedUntil?: string | null;
+  resolutionNotes?: string | null;
+  closureChecklist: IncidentClosureChecklistItem[];
+  followUpRequired: boolean;
+  closedAt?: string | null;
+  closedBy?: string | null;
+
+  createdBy?: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface IncidentEvidence {
+  id: string;
+  incidentId: string;
+  type: IncidentEvidenceType;
+  url: string;
+  filename: string;
+  sizeBytes?: number | null;
+  footageRef?: string | null;          // dashcam clip id, required for dashcam footage
+  capturedAt?: string | null;
+  description?: string | null;
+  uploadedBy: string;
+  uploadedAt: string;
+}
+
+export type NewIncidentEvidence = Omit<IncidentEvidence, 'id' | 'incidentId' | 'uploadedBy' | 'uploadedAt'>;
+
+export interface IncidentStatement {
+  id: string;
+  incidentId: string;
+  partyType: StatementPartyType;
+  partyId?: string | null;
+  partyName: string;
+  statement: string;
+  givenAt: string;
+  recordedBy: string;
+}
+
+export type NewIncidentStatement = Omit<IncidentStatement, 'id' | 'incidentId' | 'recordedBy' | 'givenAt'> & {
+  givenAt?: string;
+};
+
+export interface IncidentAuditEntry {
+  id: string;
+  incidentId: string;
+  action: IncidentAuditAction;
+  actor: string;
+  changes: Record<string, unknown>;
+  note?: string | null;
+  createdAt: string;
+}
+
+export interface IncidentFilters {
+  status?: IncidentCaseStatus | 'open_cases';
+  type?: IncidentCaseType;
+  priority?: IncidentPriority;
+  assignedTo?: string;
+  driverId?: string;
+  bookingId?: string;
+  regionId?: string;
+  search?: string;
+  page: number;
+  limit: number;
+}
+
+export interface CreateIncidentRequest {
+  type: IncidentCaseType;
+  priority: IncidentPriority;
+  title: string;
+  description: string;
+  reporterType?: 'driver' | 'customer' | 'system' | 'operator';
+  reporterId?: string;
+  reporterContact?: string;
+  driverId?: string;
+  bookingId?: string;
+  sosAlertId?: string;
+  vehicleId?: string;
+  customerId?: string;
+  location?: { latitude: number; longitude: number; address?: string };
+  regionId?: string;
+  assignedTo?: string;
+}
+
+export interface CloseIncidentRequest {
+  outcomeCode: IncidentOutcomeCode;
+  resolutionNotes: string;
+  suspensionDays?: number;             // required for a suspension
+  checklist?: IncidentClosureChecklistItem[];
+  followUpRequired?: boolean;
+}
+
+export interface IncidentCaseDetail extends IncidentCase {
+  sla: IncidentSLA;
+  evidence: IncidentEvidence[];
+  statements: IncidentStatement[];
+}
@@ -40,6 +40,10 @@ export interface Transaction {
   completedAt?: string;
   failureReason?: string;
   metadata?: Record<string, unknown>;
+  provider?: 'gcash' | 'paymaya' | 'sandbox';
+  providerReference?: string;
+  refundedAmount?: number;
+  redirectUrl?: string;
 }
 
 export interface Refund {
@@ -67,8 +71,8 @@ export interface ReconciliationItem {
   expectedAmount: number;
   actualAmount: number;
   difference: number;
-  status: 'pending' | 'reconciled' | 'discrepancy';
-  paymentMethod: PaymentMethodType;
+  status: 'pending' | 'reconciled' | 'discrepancy' | 'disputed';
+  paymentMethod: PaymentMethodType | 'bank';
   notes?: string;
   reconciledBy?: string;
   reconciledAt?: string;
@@ -107,6 +111,25 @@ export interface PayMayaPaymentRequest {
   failureUrl: string;
 }
 
+export interface PaymentTransactionEvent {
+  id: string;
+  fromStatus: PaymentStatus | null;
+  toStatus: PaymentStatus;
+  source: 'api' | 'webhook';
+  providerEventId?: string;
+  note?: string;
+  createdAt: string;
+}
+
+export interface TransactionFilters {
+  page: number;
+  limit: number;
+  status?: PaymentStatus;
+  paymentMethod?: 'gcash' | 'paymaya';
+  userId?: string;
+  bookingId?: string;
+}
+
 export interface PaymentCallback {
   status: 'success' | 'failed';
   transactionId: string;
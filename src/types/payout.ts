@@ -0,0 +1,106 @@
+// Payout Batch Types for XpressOps2026
+// Batches of driver payouts per rail, released only after approve_payout_batch approval
+
+export type PayoutRail = 'gcash' | 'bank_transfer';
+
+export type PayoutBatchStatus = 'draft' | 'pending_approval' | 'released' | 'cancelled';
+
+export type PayoutLineStatus = 'queued' | 'sent' | 'failed' | 'reversed';
+
+export type PayoutDisputeStatus = 'open' | 'resolved' | 'rejected';
+
+export interface PayoutBatch {
+  id: string;
+  reference: string;
+  payoutMethod: PayoutRail;
+  status: PayoutBatchStatus;
+  totalAmount: number;
+  lineCount: number;
+  approvalRequestId?: string | null;
+  createdBy: string;
+  releasedBy?: string | null;
+  releasedAt?: string | null;
+  lineStatusCounts?: Record<PayoutLineStatus, number>;
+  lines?: PayoutLine[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface PayoutLine {
+  id: string;
+  reference: string;
+  batchId: string;
+  batchReference?: string;
+  batchStatus?: PayoutBatchStatus;
+  driverId: string;
+  driverName?: string;
+  amount: number;
+  status: PayoutLineStatus;
+  payoutMethod: PayoutRail;
+  accountName: string;
+  accountNumber: string;
+  bankCode?: string | null;
+  providerReference?: string | null;
+  failureReason?: string | null;
+  attemptCount: number;
+  sentAt?: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface PayoutLineEvent {
+  id: string;
+  fromStatus?: PayoutLineStatus | null;
+  toStatus: PayoutLineStatus;
+  actorId: string;
+  note?: string | null;
+  journalId?: string | null;
+  createdAt: string;
+}
+
+export interface PayoutDispute {
+  id: string;
+  lineId: string;
+  driverId: string;
+  status: PayoutDisputeStatus;
+  reason: string;
+  details?: string | null;
+  raisedBy: string;
+  raisedAt: string;
+  resolution?: string | null;
+  resolvedBy?: string | null;
+  resolvedAt?: string | null;
+}
+
+export interface PayoutLineFilters {
+  driverId?: string;
+  batchId?: string;
+  status?: PayoutLineStatus;
+  payoutMethod?: PayoutRail;
+  page: number;
+  limit: number;
+}
+
+export interface PayoutBatchFilters {
+  status?: PayoutBatchStatus;
+  payoutMethod?: PayoutRail;
+  page: number;
+  limit: number;
+}
+
+export interface CreatePayoutBatchRequest {
+  payoutMethod: PayoutRail;
+  minimumAmount?: number;              // drivers owed less than this roll over to the next batch
+  driverIds?: string[];
+}
+
+export interface PayoutBatchBuildResult {
+  batch: PayoutBatch | null;
+  driversSkippedNoAccount: number;
+}
+
+export interface PayoutExportFile {
+  filename: string;
+  contentType: string;
+  content: string;
+}
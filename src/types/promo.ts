@@ -0,0 +1,171 @@
+// Customer Promotion Types for XpressOps2026
+// Promo codes, their eligibility rules and the redemptions made against them
+
+export type PromoDiscountType = 'percentage' | 'fixed';
+
+// Derived from is_active and the validity window, never stored
+export type PromoStatus = 'active' | 'scheduled' | 'expired' | 'paused';
+
+export type PromoRedemptionStatus = 'redeemed' | 'reversed';
+
+export type PromoRejectionReason =
+  | 'not_found'
+  | 'inactive'
+  | 'not_started'
+  | 'expired'
+  | 'usage_limit_reached'
+  | 'user_limit_reached'
+  | 'new_users_only'
+  | 'service_not_eligible'
+  | 'region_not_eligible'
+  | 'zone_not_eligible'
+  | 'min_order_not_met'
+  | 'not_stackable'
+  | 'too_many_promos'
+  | 'duplicate_code';
+
+// Promo codes that may be combined on one booking; a non-stackable promo is always used alone
+export const MAX_STACKED_PROMOS = 2;
+
+export interface Promo {
+  id: string;
+  code: string;
+  name: string;
+  description?: string | null;
+  discountType: PromoDiscountType;
+  discountValue: number;               // percent for percentage promos, PHP for fixed
+  maxDiscount?: number | null;
+  minOrderAmount?: number | null;
+  validFrom: string;
+  validTo: string;
+  usageLimit?: number | null;          // across all customers; null is unlimited
+  perUserLimit?: number | null;        // per customer; null is unlimited
+  usageCount: number;
+  newUsersOnly: boolean;               // only customers without a completed booking
+  serviceKeys?: string[] | null;       // null means every service
+  regionIds?: string[] | null;
+  zoneIds?: string[] | null;
+  stackable: boolean;
+  isActive: boolean;
+  status: PromoStatus;
+  createdBy: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface PromoFilters {
+  status?: PromoStatus;
+  search?: string;
+  page: number;
+  limit: number;
+}
+
+export interface CreatePromoRequest {
+  code: string;
+  name: string;
+  description?: string;
+  discountType: PromoDiscountType;
+  discountValue: number;
+  maxDiscount?: number;
+  minOrderAmount?: number;
+  validFrom: string;
+  validTo: string;
+  usageLimit?: number;
+  perUserLimit?: number | null;
+  newUsersOnly?: boolean;
+  serviceKeys?: string[];
+  regionIds?: string[];
+  zoneIds?: string[];
+  stackable?: boolean;
+}
+
+// The code and discount type are fixed once created; null clears an optional rule
+export interface UpdatePromoRequest {
+  name?: string;
+  description?: string | null;
+  discountValue?: number;
+  maxDiscount?: number | null;
+  minOrderAmount?: number | null;
+  validFrom?: string;
+  validTo?: string;
+  usageLimit?: number | null;
+  perUserLimit?: number | null;
+  newUsersOnly?: boolean;
+  serviceKeys?: string[] | null;
+  regionIds?: string[] | null;
+  zoneIds?: string[] | null;
+  stackable?: boolean;
+  isActive?: boolean;                  // false pauses the promo
+}
+
+// What the booking looks like when promo codes are checked against it
+export interface PromoContext {
+  customerId?: string;                 // without a customer, per-user and new-user rules are not checked
+  orderAmount: number;
+  serviceKey?: string;
+  regionId?: string;
+  zoneId?: string;
+  at?: Date;
+}
+
+export interface AppliedPromo {
+  promoId: string;
+  code: string;
+  name: string;
+  discountAmount: number;
+}
+
+export interface RejectedPromo {
+  code: string;
+  reason: PromoRejectionReason;
+}
+
+export interface PromoEvaluation {
+  orderAmount: number;
+  discount: number;
+  finalAmount: number;
+  applied: AppliedPromo[];
+  rejected: RejectedPromo[];
+}
+
+export interface RedeemPromoRequest extends PromoContext {
+  customerId: string;
+  codes: string[];
+  bookingId?: string;
+}
+
+export interface PromoRedemption {
+  id: string;
+  promoId: string;
+  code: string;
+  customerId: string;
+  bookingId?: string | null;
+  status: PromoRedemptionStatus;
+  orderAmount: number;
+  discountAmount: number;
+  serviceKey?: string | null;
+  regionId?: string | null;
+  zoneId?: string | null;
+  redeemedAt: string;
+  reversedAt?: string | null;
+  reversalReason?: string | null;
+}
+
+export interface PromoRedemptionResult extends PromoEvaluation {
+  redeemed: boolean;
+  redemptions: PromoRedemption[];
+}
+
+// One logged attempt, in the shape rider incentive fraud detection reads
+export interface PromoAttempt {
+  promoCode: string;
+  outcome: 'redeemed' | PromoRejectionReason;
+  discountAmount?: number | null;
+  usedAt: string;
+}
+
+// Daily redemptions for the busiest codes, for the usage chart
+export interface PromoUsageDay {
+  date: string;
+  counts: Record<string, number>;
+}
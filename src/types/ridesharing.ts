@@ -7,7 +7,7 @@ export interface RidesharingWebSocketEvents {
     rideId: string;
     bookingReference: string;
     customerId: string;
-    serviceType: 'ride_4w' | 'ride_2w' | 'send_delivery' | 'eats_delivery' | 'mart_delivery';
+    serviceType: 'ride_4w' | 'ride_2w' | 'ride_pool' | 'send_delivery' | 'eats_delivery' | 'mart_delivery';
     pickupLocation: {
       latitude: number;
       longitude: number;
@@ -53,6 +53,89 @@ export interface RidesharingWebSocketEvents {
     timestamp: string;
   };
 
+  // Time-boxed offer to one driver; the booking is only assigned once the driver accepts
+  'ride:offer': {
+    offerId: string;
+    rideId: string;
+    bookingReference: string;
+    driverId: string;
+    serviceType: string;
+    pickupLocation: {
+      latitude: number;
+      longitude: number;
+      address: string;
+    };
+    dropoffLocation?: {
+      latitude: number;
+      longitude: number;
+      address: string;
+    };
+    surgeMultiplier: number;
+    distanceKm: number;
+    etaMinutes: number;
+    expiresAt: string;
+    regionId: string;
+    poolTripId?: string; // set when the rider would join the driver's running pool trip
+    addedMinutes?: number; // extra driving the pooled rider adds to the trip
+    timestamp: string;
+  };
+
+  // Sent by the driver app in reply to 'ride:offer'
+  'ride:offer_response': {
+    offerId: string;
+    action: 'accept' | 'decline';
+    reason?: string;
+  };
+
+  // Tells the driver app to dismiss an offer it can no longer act on
+  'ride:offer_closed': {
+    offerId: string;
+    rideId: string;
+    driverId: string;
+    reason: 'expired' | 'cancelled';
+    timestamp: string;
+  };
+
+  // Offer outcomes for dispatchers watching a booking that is still searching
+  'ride:offer_status': {
+    offerId: string;
+    rideId: string;
+    bookingReference: string;
+    driverId: string;
+    sequence: number;
+    status: 'pending' | 'accepted' | 'declined' | 'expired' | 'cancelled';
+    reason?: string;
+    regionId: string;
+    timestamp: string;
+  };
+
+  // Reminder of an upcoming scheduled pickup, sent at each configured lead time
+  'ride:scheduled_reminder': {
+    scheduledRideId: string;
+    rideId: string;
+    bookingReference: string;
+    recipient: 'rider' | 'driver';
+    leadMinutes: number;
+    scheduledPickupTime: string;
+    pickupAddress: string;
+    driverId?: string;
+    timestamp: string;
+  };
+
+  // Reservation changes of a scheduled ride, for dispatchers and the drivers involved
+  'ride:scheduled_status': {
+    scheduledRideId: string;
+    rideId: string;
+    bookingReference: string;
+    regionId: string;
+    status: 'scheduled' | 'reserved' | 'dispatched' | 'cancelled' | 'failed';
+    driverId?: string;
+    previousDriverId?: string;
+    dispatchAt?: string;
+    reason?: string;
+    timestamp: string;
+  };
+
   'ride:status_update': {
     rideId: string;
     bookingReference: string;
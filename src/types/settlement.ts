@@ -0,0 +1,179 @@
+// Settlement Ledger Types for XpressOps2026
+// Double-entry ledger, daily driver settlements and settlement disputes
+
+// ============================================================================
+// LEDGER TYPES
+// ============================================================================
+
+export type LedgerAccountType = 'asset' | 'liability' | 'equity' | 'revenue' | 'expense';
+
+export const LEDGER_ACCOUNTS = {
+  CASH: '1000',
+  ACCOUNTS_RECEIVABLE: '1200',
+  ACCOUNTS_PAYABLE: '2000',
+  DRIVER_PAYABLES: '2100',
+  DRIVER_BONDS_HELD: '2200',
+  COMMISSION_REVENUE: '4000',
+  FEE_REVENUE: '4100',
+  OPERATING_EXPENSES: '5000',
+  DRIVER_PAYOUTS: '6000',
+} as const;
+
+export type LedgerAccountCode = typeof LEDGER_ACCOUNTS[keyof typeof LEDGER_ACCOUNTS];
+
+export type JournalSourceType =
+  | 'settlement'
+  | 'settlement_adjustment'
+  | 'payout'
+  | 'payout_reversal'
+  | 'bond_deposit'
+  | 'bond_forfeiture'
+  | 'bond_refund'
+  | 'cancellation_fee'
+  | 'cancellation_waiver';
+
+export interface JournalLine {
+  accountCode: string;
+  driverId?: string | null;
+  description?: string;
+  debit: number;
+  credit: number;
+}
+
+export interface JournalInput {
+  reference: string;
+  description: string;
+  sourceType: JournalSourceType;
+  sourceId?: string | null;
+  postedBy?: string;
+  lines: JournalLine[];
+}
+
+export interface LedgerEntry {
+  id: string;
+  journalId: string;
+  date: string;
+  accountCode: string;
+  accountName: string;
+  description: string;
+  reference: string;
+  driverId?: string | null;
+  debit: number;
+  credit: number;
+  balance: number;            // running balance of the account at this entry
+}
+
+export interface LedgerEntryFilters {
+  accountCode?: string;
+  driverId?: string;
+  type?: 'debit' | 'credit';
+  search?: string;
+  dateFrom?: string;
+  dateTo?: string;
+  page: number;
+  limit: number;
+}
+
+// ============================================================================
+// SETTLEMENT TYPES
+// ============================================================================
+
+export type SettlementStatus = 'pending' | 'completed' | 'disputed';
+
+export type SettlementDeductionType = 'commission' | 'bond' | 'fee' | 'adjustment';
+
+export interface SettlementTrip {
+  id: string;
+  tripNumber: string;
+  revenue: number;
+  commission: number;
+  netAmount: number;
+  completedAt: string;
+}
+
+export interface SettlementDeduction {
+  id: string;
+  type: SettlementDeductionType;
+  amount: number;
+  reason: string;
+}
+
+export interface Settlement {
+  id: string;
+  reference: string;
+  driverId: string;
+  driverName?: string;
+  settlementDate: string;
+  status: SettlementStatus;
+  totalRevenue: number;
+  totalDeductions: number;
+  netAmount: number;
+  tripCount: number;
+  journalId?: string | null;
+  trips?: SettlementTrip[];
+  deductions?: SettlementDeduction[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface SettlementFilters {
+  driverId?: string;
+  status?: SettlementStatus;
+  dateFrom?: string;
+  dateTo?: string;
+  page: number;
+  limit: number;
+}
+
+export interface SettlementRunResult {
+  settlementDate: string;
+  settlementsCreated: number;
+  tripsSettled: number;
+  driversSkipped: number;
+  totalNetAmount: number;
+}
+
+// ============================================================================
+// DISPUTE TYPES
+// ============================================================================
+
+export type SettlementDisputeStatus = 'pending' | 'under_review' | 'resolved' | 'rejected';
+
+export interface SettlementDisputeNote {
+  id: string;
+  authorId: string;
+  fromStatus?: SettlementDisputeStatus | null;
+  toStatus?: SettlementDisputeStatus | null;
+  note: string;
+  createdAt: string;
+}
+
+export interface SettlementDispute {
+  id: string;
+  disputedEntityType: 'settlement';
+  disputedEntityId: string;
+  driverId: string;
+  disputedAmount: number;
+  reason: string;
+  details?: string | null;
+  status: SettlementDisputeStatus;
+  adjustmentAmount?: number | null;
+  raisedBy: string;
+  raisedAt: string;
+  resolvedBy?: string | null;
+  resolvedAt?: string | null;
+  resolution?: string | null;
+  notes?: SettlementDisputeNote[];
+}
+
+export interface CreateSettlementDisputeRequest {
+  reason: string;
+  details?: string;
+  disputedAmount?: number;
+}
+
+export interface UpdateSettlementDisputeRequest {
+  status: SettlementDisputeStatus;
+  note: string;
+  adjustmentAmount?: number;
+}
@@ -0,0 +1,177 @@
+// SOS Types for XpressOps2026
+// SOS alerts raised from the rider and driver apps and what operators do with them
+
+export const SOS_EMERGENCY_TYPES = [
+  'medical_emergency',     // Heart attack, injury, unconscious
+  'security_threat',       // Attack, robbery, harassment
+  'accident_critical',     // Severe accident with injuries
+  'fire_emergency',        // Vehicle fire, building fire
+  'natural_disaster',      // Earthquake, flood, landslide
+  'kidnapping',            // Kidnapping attempt or threat
+  'domestic_violence',     // Domestic violence situation
+  'general_emergency'      // General distress call
+] as const;
+
+export type SOSEmergencyType = typeof SOS_EMERGENCY_TYPES[number];
+
+export type SOSStatus =
+  | 'triggered'            // SOS button pressed
+  | 'processing'           // System processing alert
+  | 'dispatched'           // Emergency services notified
+  | 'acknowledged'         // An operator took charge of the alert
+  | 'responding'           // Emergency services en route
+  | 'resolved'             // Emergency resolved
+  | 'false_alarm';         // Confirmed false alarm
+
+// Alerts still on the operator console
+export const SOS_ACTIVE_STATUSES: SOSStatus[] = ['triggered', 'processing', 'dispatched', 'acknowledged', 'responding'];
+
+export const SOS_ATTACHMENT_TYPES = ['emergency_photo', 'emergency_video', 'emergency_audio', 'medical_info'] as const;
+
+export type SOSAttachmentType = typeof SOS_ATTACHMENT_TYPES[number];
+
+export interface SOSAttachment {
+  id: string;
+  type: SOSAttachmentType;
+  url: string;
+  filename: string;
+  uploadedAt: string;
+  isVerified: boolean;
+  priority: number; // 1-10, higher means more critical
+}
+
+// An attachment as the apps send it; the file itself is already uploaded to storage
+export interface NewSOSAttachment {
+  type: SOSAttachmentType;
+  url: string;
+  filename: string;
+  priority?: number;
+}
+
+export type SOSReporterType = 'driver' | 'passenger' | 'customer' | 'system';
+
+export interface SOSVehicleInfo {
+  plateNumber: string;
+  type: string;
+  color: string;
+}
+
+export interface SOSAlertRecord {
+  id: string;
+  sosCode: string;
+  status: SOSStatus;
+  emergencyType: SOSEmergencyType;
+  severity: number;                    // 1-10
+  triggeredAt: string;
+  location: {
+    latitude: number;
+    longitude: number;
+    accuracy?: number | null;
+    address?: string | null;
+  };
+  regionId?: string | null;
+  reporter: {
+    id: string;
+    type: SOSReporterType;
+    name?: string | null;
+    phone?: string | null;
+  };
+  driverId?: string | null;
+  bookingId?: string | null;
+  vehicleInfo?: SOSVehicleInfo | null;
+  description?: string | null;
+  attachments: SOSAttachment[];
+  emergencyServicesNotified: string[];
+  emergencyReferenceNumbers: Record<string, string>;
+  processingTimeMs?: number | null;
+  responseTimeMs?: number | null;
+  acknowledgedAt?: string | null;
+  acknowledgedBy?: string | null;
+  escalationLevel: number;
+  escalatedAt?: string | null;
+  resolvedAt?: string | null;
+  resolvedBy?: string | null;
+  resolutionNotes?: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface SOSAlertFilters {
+  status?: 'active' | SOSStatus;
+  regionId?: string;
+  driverId?: string;
+  bookingId?: string;
+  page: number;
+  limit: number;
+}
+
+export interface TriggerSOSRequest {
+  reporterId: string;
+  reporterType: 'driver' | 'passenger' | 'customer';
+  reporterName?: string;
+  reporterPhone?: string;
+  location: {
+    latitude: number;
+    longitude: number;
+    accuracy?: number;
+    address?: string;
+  };
+  driverId?: string;
+  bookingId?: string;
+  emergencyType?: SOSEmergencyType;
+  description?: string;
+  attachments?: NewSOSAttachment[];
+}
+
+export type SOSEventType =
+  | 'triggered'
+  | 'dispatched'
+  | 'dispatch_failed'
+  | 'acknowledged'
+  | 'escalated'
+  | 'attachment_added'
+  | 'resolved'
+  | 'false_alarm';
+
+export interface SOSAlertEvent {
+  id: string;
+  sosAlertId: string;
+  eventType: SOSEventType;
+  actor: string;                       // user id, or 'system'
+  message?: string | null;
+  data: Record<string, unknown>;
+  createdAt: string;
+}
+
+// The log of a coordinated emergency response as stored with it
+export interface EmergencyResponseLogRecord {
+  responseId: string;
+  responseCode: string;
+  status: string;
+  entries: {
+    id: string;
+    timestamp: string;
+    eventType: string;
+    source: string;
+    message: string;
+    data?: Record<string, unknown>;
+  }[];
+}
+
+export interface SOSTimelineEntry {
+  id: string;
+  at: string;
+  source: 'sos' | 'emergency_response';
+  eventType: string;
+  actor: string;
+  message?: string | null;
+  responseId?: string | null;          // set on entries from an emergency response log
+  data?: Record<string, unknown>;
+}
+
+export interface SOSTimeline {
+  sosAlertId: string;
+  sosCode: string;
+  status: SOSStatus;
+  entries: SOSTimelineEntry[];
+}
@@ -0,0 +1,69 @@
+// Trip Breadcrumb Types for XpressOps2026
+// Stored in-trip GPS paths and the replay built from them
+
+export const TRIP_PHASES = ['to_pickup', 'on_trip'] as const;
+
+// to_pickup - driver assigned and heading to the pickup
+// on_trip   - rider picked up, until dropoff
+export type TripPhase = typeof TRIP_PHASES[number];
+
+// One location point from the driver app, after smoothing and snapping to the road
+export interface BreadcrumbPoint {
+  latitude: number;
+  longitude: number;
+  timestamp: number;                   // ms since epoch
+  speedKmh?: number | null;
+  distanceFromPreviousM?: number | null; // along the road from the driver's previous point, when map-matched
+}
+
+// One minute of a booking's path, stored compactly
+export interface TripLocationSegment {
+  id: string;
+  bookingId: string;
+  driverId: string;
+  phase: TripPhase;
+  minuteStart: string;
+  startedAt: string;
+  endedAt: string;
+  pointCount: number;
+  polyline: string;
+  timeOffsetsMs: number[];
+  speedsKmh: (number | null)[];
+  distanceM: number;
+  expiresAt: string;
+}
+
+export type NewTripLocationSegment = Omit<TripLocationSegment, 'id'>;
+
+export interface TripReplayPoint {
+  latitude: number;
+  longitude: number;
+  timestamp: string;
+  speedKmh: number | null;
+  phase: TripPhase;
+}
+
+// Stretch with no points, e.g. the phone lost signal
+export interface TripReplayGap {
+  from: string;
+  to: string;
+  seconds: number;
+}
+
+export interface TripReplay {
+  bookingId: string;
+  driverId: string | null;
+  points: TripReplayPoint[];
+  polyline: string;                    // the whole returned path in one encoded polyline
+  summary: {
+    pointCount: number;
+    startedAt: string | null;
+    endedAt: string | null;
+    durationSeconds: number;
+    toPickupDistanceKm: number;
+    tripDistanceKm: number;            // on_trip only, what distance-based fares use
+    averageSpeedKmh: number | null;    // over the on_trip stretch
+    maxSpeedKmh: number | null;
+  };
+  gaps: TripReplayGap[];
+}